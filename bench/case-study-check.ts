@@ -13,7 +13,7 @@
 import { readFile } from 'node:fs/promises';
 import { pathToFileURL } from 'node:url';
 
-import { loadPretextFromDisk } from './loader';
+import { loadPretextFromDisk } from '../cli/loader';
 
 // ---------------------------------------------------------------------------
 // Core (testable, no filesystem, no process)
@@ -3,7 +3,7 @@
  * Examines the 3 failing specimens to understand why breakpoints are detected.
  */
 
-import { loadPretextFromDisk } from './loader';
+import { loadPretextFromDisk } from '../cli/loader';
 import { autoCut, computeDiagonalDensity, detectBreakpoints } from '../src/curation/AutoCut';
 
 const FAILING_SPECIMENS = [
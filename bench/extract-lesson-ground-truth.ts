@@ -15,7 +15,7 @@
  * the lesson JSON's assessment.groundTruthOrder field.
  */
 
-import { loadPretextFromDisk } from './loader';
+import { loadPretextFromDisk } from '../cli/loader';
 import { extractGroundTruth } from './ground-truth';
 
 async function main() {
@@ -16,8 +16,8 @@ import { createHash } from 'node:crypto';
 import { readFile, writeFile } from 'node:fs/promises';
 import { pathToFileURL } from 'node:url';
 
-import { loadPretextFromDisk } from './loader';
-import { applyCurationScript, assemblyToMapData, type CurateOutcome } from './curate';
+import { loadPretextFromDisk } from '../cli/loader';
+import { applyCurationScript, assemblyToMapData, type CurateOutcome } from '../cli/curate';
 
 // ---------------------------------------------------------------------------
 // Layout constants
@@ -338,7 +338,7 @@ async function main(): Promise<void> {
   const runA = applyCurationScript(map, assembly.contigOrder, scriptText);
   const runB = applyCurationScript(map, assembly.contigOrder, scriptText);
 
-  const command = `npx tsx bench/curate.ts --pretext ${pretext} --script ${script} --out curated.agp`;
+  const command = `openpretext curate --pretext ${pretext} --script ${script} --out curated.agp`;
   const evidence = buildEvidence(scriptText, runA, runB, command, baseline.agp);
   if (!evidence.identical) {
     process.stderr.write('WARNING: the two runs differ; the figure will say so\n');
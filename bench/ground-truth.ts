@@ -14,7 +14,7 @@
  */
 
 import type { ContigInfo } from '../src/core/State';
-import type { LoadedAssembly } from './loader';
+import type { LoadedAssembly } from '../cli/loader';
 
 export interface GroundTruth {
   /** Contig names in the curated order. */
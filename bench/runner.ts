@@ -24,7 +24,7 @@ import type { AutoCutParams, AutoCutResult, Breakpoint } from '../src/curation/A
 import type { AutoSortParams, AutoSortResult } from '../src/curation/AutoSort';
 import { autoCut } from '../src/curation/AutoCut';
 import { autoSort } from '../src/curation/AutoSort';
-import { loadPretextFromDisk, type LoadedAssembly } from './loader';
+import { loadPretextFromDisk, type LoadedAssembly } from '../cli/loader';
 import { extractGroundTruth, type GroundTruth } from './ground-truth';
 import { computeBreakpointMetrics, aggregateBreakpointMetrics, type BreakpointMetrics } from './metrics/autocut-metrics';
 import { computeSortMetrics, type SortMetrics } from './metrics/autosort-metrics';
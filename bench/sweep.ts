@@ -9,7 +9,7 @@ import type { AutoCutParams } from '../src/curation/AutoCut';
 import type { AutoSortParams } from '../src/curation/AutoSort';
 import { autoCut } from '../src/curation/AutoCut';
 import { autoSort } from '../src/curation/AutoSort';
-import { loadPretextFromDisk, type LoadedAssembly } from './loader';
+import { loadPretextFromDisk, type LoadedAssembly } from '../cli/loader';
 import { extractGroundTruth, type GroundTruth } from './ground-truth';
 import { applyBreakpoints } from './runner';
 import { computeBreakpointMetrics, type BreakpointMetrics } from './metrics/autocut-metrics';
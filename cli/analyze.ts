@@ -0,0 +1,283 @@
+/**
+ * analyze.ts — `openpretext analyze`, Hi-C analyses as JSON or TSV.
+ *
+ * Runs insulation (TAD boundaries), P(s) contact decay, join support and the
+ * assembly health score on a contact map, optionally after a curation script,
+ * and reports them in a machine-readable form for pipelines.
+ *
+ * Usage:
+ *   openpretext analyze --pretext <file.pretext> [--script <file.dsl>]
+ *                       [--analysis insulation,decay,joinsupport,health]
+ *                       [--format json|tsv] [--out <file>]
+ *
+ * The analyses are the ones the DSL's `analyze` and `assert` use
+ * (src/scripting/ScriptAnalysis.ts), on the overview in the curated order, so
+ * a number reported here is the number a script asserts on. The health score's
+ * decay component comes from the decay computed here; its compartment and
+ * library-quality components are not computed headlessly and score neutral.
+ */
+
+import { state } from '../src/core/State';
+import { createScriptAnalyses } from '../src/scripting/ScriptAnalysis';
+import { buildPixelToContigMap, exportDecayTSV } from '../src/export/AnalysisExport';
+import type { ContactDecayResult } from '../src/analysis/ContactDecay';
+import type { HealthScoreResult } from '../src/analysis/HealthScore';
+import { curateFromDisk, formatSummary, writeOutput } from './curate';
+
+// ---------------------------------------------------------------------------
+// Core (testable, reads the curated state, no filesystem)
+// ---------------------------------------------------------------------------
+
+export type CliAnalysis = 'insulation' | 'decay' | 'joinsupport' | 'health';
+
+export const CLI_ANALYSES: readonly CliAnalysis[] = ['insulation', 'decay', 'joinsupport', 'health'];
+
+/** A TAD boundary, located on its contig. */
+export interface BoundaryReport {
+  contig: string;
+  start: number;
+  end: number;
+  strength: number;
+}
+
+/** A scored junction between two adjacent contigs. */
+export interface JunctionReport {
+  left: string;
+  right: string;
+  support: number;
+  confidence: string;
+  flagged: boolean;
+}
+
+/**
+ * Results per requested analysis. An analysis the map is too small to run
+ * (fewer than 4 bins or 2 contigs) is reported as null.
+ */
+export interface AnalysisReport {
+  file: string;
+  contigs: number;
+  insulation?: { boundaries: BoundaryReport[] } | null;
+  decay?: {
+    exponent: number | null;
+    rSquared: number | null;
+    curve: { distance: number; meanContacts: number }[];
+  } | null;
+  joinsupport?: {
+    scored: number;
+    flagged: number;
+    median: number;
+    threshold: number;
+    junctions: JunctionReport[];
+  } | null;
+  health?: HealthScoreResult;
+}
+
+/** A report plus the raw decay curve, which the TSV form writes in full. */
+export interface AnalysisRun {
+  report: AnalysisReport;
+  decay: ContactDecayResult | null;
+}
+
+function finiteOrNull(x: number): number | null {
+  return Number.isFinite(x) ? x : null;
+}
+
+/**
+ * Run the requested analyses on the current curation state (as left by
+ * applyCurationScript). Throws when the state has no contact map.
+ */
+export function analyzeCurrentState(kinds: readonly CliAnalysis[]): AnalysisRun {
+  const s = state.get();
+  if (!s.map) throw new Error('No map loaded');
+  const map = s.map;
+
+  let decay: ContactDecayResult | null = null;
+  const analyses = createScriptAnalyses({
+    get: () => state.get(),
+    // The decay is the only order-independent health input computed here.
+    shared: () => (decay ? {
+      decayExponent: finiteOrNull(decay.decayExponent),
+      decayRSquared: finiteOrNull(decay.rSquared),
+      eigenvalue: null,
+      cisTransRatio: null,
+      checkerboardScore: null,
+    } : null),
+  });
+  // Health needs the decay as an input; compute it first when both are asked for.
+  if (map.originalContactMap && kinds.includes('health')) decay = analyses.decay();
+
+  const report: AnalysisReport = { file: map.filename, contigs: s.contigOrder.length };
+  const name = (orderIndex: number) => map.contigs[s.contigOrder[orderIndex]].name;
+
+  for (const kind of kinds) {
+    switch (kind) {
+      case 'insulation': {
+        const result = analyses.insulation();
+        if (!result) { report.insulation = null; break; }
+        const overviewSize = Math.round(Math.sqrt(map.originalContactMap!.length));
+        const pixelMap = buildPixelToContigMap(s, overviewSize);
+        report.insulation = {
+          boundaries: result.boundaries.map((bin, i) => ({
+            contig: pixelMap[bin].contigName,
+            start: pixelMap[bin].bpStart,
+            end: pixelMap[bin].bpEnd,
+            strength: result.boundaryStrengths[i] ?? 0,
+          })),
+        };
+        break;
+      }
+      case 'decay': {
+        const result = decay = analyses.decay();
+        report.decay = result ? {
+          exponent: finiteOrNull(result.decayExponent),
+          rSquared: finiteOrNull(result.rSquared),
+          curve: Array.from(result.distances, (distance, i) => ({ distance, meanContacts: result.meanContacts[i] })),
+        } : null;
+        break;
+      }
+      case 'joinsupport': {
+        const result = analyses.joinSupport();
+        report.joinsupport = result ? {
+          scored: result.junctions.length,
+          flagged: result.flaggedCount,
+          median: result.median,
+          threshold: result.threshold,
+          junctions: result.junctions.map((j) => ({
+            left: name(j.orderIndex),
+            right: name(j.orderIndex + 1),
+            support: j.support,
+            confidence: j.confidence,
+            flagged: j.flagged,
+          })),
+        } : null;
+        break;
+      }
+      case 'health':
+        report.health = analyses.healthScore();
+        break;
+    }
+  }
+  return { report, decay };
+}
+
+/** The report as TSV: one table per analysis, each introduced by `#` comments. */
+export function formatReportTSV({ report, decay }: AnalysisRun): string {
+  const sections: string[] = [`# ${report.file}: ${report.contigs} contigs\n`];
+  const tooSmall = (what: string) => `# ${what}: map too small to analyze\n`;
+
+  if (report.insulation !== undefined) {
+    if (!report.insulation) sections.push(tooSmall('Insulation'));
+    else {
+      const rows = report.insulation.boundaries.map((b) => `${b.contig}\t${b.start}\t${b.end}\t${b.strength.toFixed(4)}`);
+      sections.push([
+        `# Insulation: ${report.insulation.boundaries.length} TAD boundaries`,
+        'contig\tstart\tend\tstrength',
+        ...rows,
+      ].join('\n') + '\n');
+    }
+  }
+  if (report.decay !== undefined) {
+    sections.push(decay ? exportDecayTSV(decay) : tooSmall('P(s) decay'));
+  }
+  if (report.joinsupport !== undefined) {
+    const js = report.joinsupport;
+    if (!js) sections.push(tooSmall('Join support'));
+    else {
+      const rows = js.junctions.map((j) =>
+        `${j.left}\t${j.right}\t${j.support.toFixed(4)}\t${j.confidence}\t${j.flagged ? 'yes' : 'no'}`);
+      sections.push([
+        `# Join support: ${js.flagged} weak join(s) among ${js.scored} scored junctions`,
+        `# Median support: ${js.median.toFixed(4)}, flag threshold: ${js.threshold.toFixed(4)}`,
+        'left\tright\tsupport\tconfidence\tflagged',
+        ...rows,
+      ].join('\n') + '\n');
+    }
+  }
+  if (report.health) {
+    const rows = Object.entries(report.health.components).map(([k, v]) => `${k}\t${v.toFixed(1)}`);
+    sections.push([
+      '# Health score (0-100)',
+      'component\tscore',
+      `overall\t${report.health.overall.toFixed(1)}`,
+      ...rows,
+    ].join('\n') + '\n');
+  }
+  return sections.join('\n');
+}
+
+/** Parse a comma-separated `--analysis` value. */
+export function parseAnalysisList(value: string): CliAnalysis[] {
+  const kinds = value.split(',').map((k) => k.trim().toLowerCase()).filter((k) => k !== '');
+  for (const k of kinds) {
+    if (!CLI_ANALYSES.includes(k as CliAnalysis)) {
+      throw new Error(`Unknown analysis '${k}'. Expected one of: ${CLI_ANALYSES.join(', ')}`);
+    }
+  }
+  if (kinds.length === 0) throw new Error('--analysis needs at least one analysis');
+  return kinds as CliAnalysis[];
+}
+
+// ---------------------------------------------------------------------------
+// CLI
+// ---------------------------------------------------------------------------
+
+interface AnalyzeArgs {
+  pretext?: string;
+  script?: string;
+  analyses: CliAnalysis[];
+  format: 'json' | 'tsv';
+  out?: string;
+}
+
+function parseArgs(argv: string[]): AnalyzeArgs {
+  const args: AnalyzeArgs = { analyses: [...CLI_ANALYSES], format: 'json' };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--pretext') args.pretext = argv[++i];
+    else if (a === '--script') args.script = argv[++i];
+    else if (a === '--analysis') args.analyses = parseAnalysisList(argv[++i] ?? '');
+    else if (a === '--format') {
+      const f = argv[++i];
+      if (f !== 'json' && f !== 'tsv') throw new Error(`Unknown format '${f}'. Expected json or tsv`);
+      args.format = f;
+    } else if (a === '--out') args.out = argv[++i];
+    else throw new Error(`Unknown argument: ${a}`);
+  }
+  return args;
+}
+
+export const ANALYZE_USAGE = `openpretext analyze — Hi-C analyses as JSON or TSV
+
+Usage:
+  openpretext analyze --pretext <file.pretext> [--script <file.dsl>]
+                      [--analysis insulation,decay,joinsupport,health]
+                      [--format json|tsv] [--out <file>]
+
+Runs the analyses (all four by default) on the contact map in the order the
+script leaves it, or in file order without a script, and writes the report to
+--out or stdout. Exits 1 if the script fails (a failed assert included) and
+2 on bad usage.`;
+
+/** `openpretext analyze`. Resolves to the process exit code. */
+export async function runAnalyze(argv: string[]): Promise<number> {
+  let args: AnalyzeArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (e) {
+    process.stderr.write(`${(e as Error).message}\n\n${ANALYZE_USAGE}\n`);
+    return 2;
+  }
+  if (!args.pretext) {
+    process.stderr.write(`${ANALYZE_USAGE}\n`);
+    return 2;
+  }
+
+  const { outcome, sourceLines } = await curateFromDisk(args.pretext, args.script, []);
+  if (args.script) process.stderr.write(`${formatSummary(outcome, sourceLines)}\n`);
+
+  const run = analyzeCurrentState(args.analyses);
+  const text = args.format === 'json' ? JSON.stringify(run.report, null, 2) + '\n' : formatReportTSV(run);
+  await writeOutput(args.out, text, 'analysis report');
+
+  return outcome.ok ? 0 : 1;
+}
@@ -0,0 +1,15 @@
+/**
+ * bin.ts — executable entry for `openpretext` (see openpretext.ts).
+ *
+ * Built into cli/dist/openpretext.js by `npm run build:cli` (and on `npm pack`);
+ * run from source with `npm run cli -- <command> ...`.
+ */
+
+import { main } from './openpretext';
+
+main(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    process.stderr.write(`Error: ${err instanceof Error ? err.message : String(err)}\n`);
+    process.exit(1);
+  });
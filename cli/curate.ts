@@ -1,24 +1,26 @@
 /**
- * curate.ts — headless "curation as code" CLI.
+ * curate.ts — `openpretext curate`, headless "curation as code".
  *
  * Loads a genome assembly (.pretext) in Node, applies a DSL curation script to
  * it with no browser, and exports the curated result as AGP plus a summary.
  * This makes a curation session reproducible and scriptable outside the viewer.
  *
  * Usage:
- *   npx tsx bench/curate.ts --pretext <file.pretext> --script <file.dsl> [--out <file.agp>]
+ *   openpretext curate --pretext <file.pretext> --script <file.dsl> [--out <file.agp>]
  *
  * The DSL executor (src/scripting/ScriptExecutor.ts) is deliberately DOM-free,
  * so the same execution surface the browser uses runs here unchanged. We build
  * the ScriptContext directly from the real singletons (state, CurationEngine,
  * SelectionManager, a ScaffoldManager instance, and the batch ops) rather than
  * importing DSLRunner.buildScriptContext, which needs a live Camera/AppContext.
+ *
+ * `export` and `analyze` run their optional script through the same core
+ * (applyCurationScript), so every subcommand sees the same curated assembly.
  */
 
 import { createReadStream } from 'node:fs';
 import { readFile, writeFile } from 'node:fs/promises';
 import { Readable } from 'node:stream';
-import { pathToFileURL } from 'node:url';
 import { createGunzip } from 'node:zlib';
 
 import { state } from '../src/core/State';
@@ -28,6 +30,8 @@ import { SelectionManager } from '../src/curation/SelectionManager';
 import { ScaffoldManager } from '../src/curation/ScaffoldManager';
 import { autoCutContigs, autoSortContigs } from '../src/curation/BatchOperations';
 import { contigExclusion } from '../src/curation/ContigExclusion';
+import { metaTags, type MetaTagType } from '../src/curation/MetaTagManager';
+import { WaypointManager } from '../src/curation/WaypointManager';
 import { misassemblyFlags } from '../src/curation/MisassemblyFlags';
 import { calculateMetrics, type AssemblyMetrics } from '../src/curation/QualityMetrics';
 import { parseScript, type ParseError } from '../src/scripting/ScriptParser';
@@ -36,7 +40,10 @@ import {
   type ScriptContext,
   type ScriptResult,
 } from '../src/scripting/ScriptExecutor';
+import { createScriptAnalyses } from '../src/scripting/ScriptAnalysis';
 import { exportAGP } from '../src/export/AGPWriter';
+import { exportBED } from '../src/export/BEDWriter';
+import { exportSession, type SessionData } from '../src/io/SessionManager';
 import { exportFASTA, resolveContigSequence } from '../src/export/FASTAWriter';
 import { parseFASTAStream } from '../src/formats/FASTAParser';
 import { loadPretextFromDisk } from './loader';
@@ -60,12 +67,20 @@ export interface CurateOutcome {
   afterMetrics: AssemblyMetrics;
   /** AGP text reflecting the curated order and orientation. */
   agp: string;
+  /** BED text of the same layout (scaffold coordinates per contig). */
+  bed: string;
+  /** The curated state as a session file, as the viewer saves it. */
+  session: SessionData;
   /** FASTA text of the curated assembly. Only present when reference sequences
    *  were supplied; a .pretext carries no sequence of its own. */
   fasta?: string;
   /** Contigs with no sequence in the supplied reference, by name. Present
    *  alongside `fasta`. A non-empty list means the FASTA is incomplete. */
   missingSequences?: string[];
+  /** Meta tags after the script ran, by contig name, in curated order. */
+  tags: { name: string; tag: MetaTagType; notes?: string }[];
+  /** Names of the contigs excluded from the AGP/FASTA, in curated order. */
+  excluded: string[];
   /** True iff no parse errors and every executed command succeeded. */
   ok: boolean;
 }
@@ -77,8 +92,8 @@ export interface CurateOutcome {
  * This is the CLI's core, kept free of arg-parsing and file IO so it is unit
  * testable against a synthetic map. It drives the real singletons: it resets
  * `state`, populates it with the given map + order, wires a fresh
- * ScaffoldManager into CurationEngine, and clears the ContigExclusion singleton
- * so a prior run never leaks into this one.
+ * ScaffoldManager into CurationEngine, and clears the ContigExclusion and
+ * MetaTagManager singletons so a prior run never leaks into this one.
  *
  * Execution uses `{ continueOnError: false }`, so a failed line halts the run
  * and its result is the last entry in `results`.
@@ -92,6 +107,7 @@ export function applyCurationScript(
   // Reset shared singletons so repeated calls (and a prior file) never leak.
   state.reset();
   contigExclusion.clearAll();
+  metaTags.clearAll();
   const scaffoldManager = new ScaffoldManager();
   CurationEngine.setScaffoldManager(scaffoldManager);
 
@@ -101,6 +117,7 @@ export function applyCurationScript(
 
   const { commands, errors: parseErrors } = parseScript(scriptText);
   const echoMessages: string[] = [];
+  const waypoints = new WaypointManager();
 
   const ctx: ScriptContext = {
     curation: CurationEngine,
@@ -112,7 +129,10 @@ export function applyCurationScript(
     nav: { zoomToContigRange: () => {}, resetView: () => {}, goto: () => {} },
     // Metrics/flags for `assert` and `select where` (works headless — this is
     // what makes a curation script a self-checking, CI-runnable protocol).
+    // Analyses run on the overview; with no viewer analyses to draw on, the
+    // health score's Hi-C components score neutral.
     query: {
+      ...createScriptAnalyses({ get: () => state.get(), sequences: () => sequences }),
       contigCount: () => state.get().contigOrder.length,
       n50: () => calculateMetrics(state.get().map?.contigs ?? [], state.get().contigOrder).n50,
       totalLength: () => calculateMetrics(state.get().map?.contigs ?? [], state.get().contigOrder).totalLength,
@@ -124,6 +144,11 @@ export function applyCurationScript(
         return contigId != null && contigExclusion.isExcluded(contigId);
       },
     },
+    // Waypoints have nowhere to be shown, but scripts that place them still run
+    // (and are saved in the session export).
+    waypoints,
+    // Lets bp cuts snap to N-gaps, as they do in the browser with a FASTA loaded.
+    sequences,
     onEcho: (msg) => echoMessages.push(msg),
   };
 
@@ -135,11 +160,20 @@ export function applyCurationScript(
   const after = state.get();
   const afterMetrics = calculateMetrics(after.map!.contigs, after.contigOrder);
   const agp = exportAGP(after);
+  const bed = exportBED(after);
+  const session = exportSession(after, scaffoldManager, waypoints);
 
   const ok = parseErrors.length === 0 && results.every((r) => r.success);
 
+  const curated = after.contigOrder.map((id) => ({ id, contig: after.map!.contigs[id] }));
+  const tags = curated.flatMap(({ id, contig }) => {
+    const info = metaTags.getTag(id);
+    return info ? [{ name: contig.name, ...info }] : [];
+  });
+  const excluded = curated.filter(({ id }) => contigExclusion.isExcluded(id)).map(({ contig }) => contig.name);
+
   const outcome: CurateOutcome = {
-    parseErrors, results, echoMessages, beforeMetrics, afterMetrics, agp, ok,
+    parseErrors, results, echoMessages, beforeMetrics, afterMetrics, agp, bed, session, tags, excluded, ok,
   };
 
   // FASTA is the deliverable a curation actually produces, so a replay that
@@ -159,15 +193,17 @@ export function applyCurationScript(
 
 /**
  * Build a headless MapData from a disk-loaded assembly. The overview contact
- * map is not stashed (it is overview-sized, not textureSize², and nothing on
- * the curation / AGP / metrics path reads it); textureSize stays the full pixel
- * dimension so contig pixel coordinates remain consistent.
+ * map is stashed as `originalContactMap` only, which is all the DSL's analyses
+ * read; the display-order `contactMap` stays null, as nothing headless draws
+ * it. textureSize stays the full pixel dimension so contig pixel coordinates
+ * remain consistent.
  */
 export function assemblyToMapData(
   filename: string,
   contigs: ContigInfo[],
   textureSize: number,
   header: { mipMapLevels: number; textureResolution: number; numberOfTextures1D: number },
+  overview: Float32Array | null = null,
 ): MapData {
   return {
     filename,
@@ -177,6 +213,7 @@ export function assemblyToMapData(
     tilesPerDimension: header.numberOfTextures1D,
     contigs,
     contactMap: null,
+    originalContactMap: overview,
     rawTiles: null,
     parsedHeader: null,
     extensions: new Map(),
@@ -205,78 +242,82 @@ export function parseFastaArg(value: string): FastaSource {
 }
 
 // ---------------------------------------------------------------------------
-// CLI (arg parsing, file IO, process exit)
+// File IO shared by the subcommands
 // ---------------------------------------------------------------------------
 
-interface CliArgs {
-  pretext?: string;
-  script?: string;
-  out?: string;
-  fasta: FastaSource[];
-  outFasta?: string;
-}
-
-function parseArgs(argv: string[]): CliArgs {
-  const args: CliArgs = { fasta: [] };
-  for (let i = 0; i < argv.length; i++) {
-    const a = argv[i];
-    if (a === '--pretext') args.pretext = argv[++i];
-    else if (a === '--script') args.script = argv[++i];
-    else if (a === '--out') args.out = argv[++i];
-    else if (a === '--fasta') args.fasta.push(parseFastaArg(argv[++i]!));
-    else if (a === '--out-fasta') args.outFasta = argv[++i];
-    else throw new Error(`Unknown argument: ${a}`);
-  }
-  return args;
-}
-
 /**
  * Read reference sequences into the name-to-sequence map exportFASTA expects.
  *
  * Streams and gunzips, because a vertebrate haplotype decompresses past V8's
  * maximum string length and could not be read whole.
  */
-async function loadSequences(sources: FastaSource[]): Promise<Map<string, string>> {
+export async function loadSequences(sources: FastaSource[]): Promise<Map<string, string>> {
   const sequences = new Map<string, string>();
   for (const src of sources) {
     let stream: NodeJS.ReadableStream = createReadStream(src.path);
     if (src.path.endsWith('.gz')) stream = stream.pipe(createGunzip());
-    const text = Readable.toWeb(Readable.from(stream)) as unknown as ReadableStream<Uint8Array>;
+    const text = Readable.toWeb(Readable.from(stream)) as unknown as ReadableStream<BufferSource>;
     const records = await parseFASTAStream(text.pipeThrough(new TextDecoderStream()));
     for (const r of records) sequences.set(`${src.prefix}${r.name}`, r.sequence);
   }
   return sequences;
 }
 
-const USAGE = `curate — headless "curation as code" for OpenPretext
+/** A curated assembly loaded from disk, ready to export or analyze. */
+export interface CuratedFromDisk {
+  outcome: CurateOutcome;
+  /** The script's lines, for quoting failed commands in the summary. */
+  sourceLines: string[];
+  sequences?: Map<string, string>;
+}
 
-Usage:
-  npx tsx bench/curate.ts --pretext <file.pretext> --script <file.dsl>
-                          [--out <file.agp>]
-                          [--fasta <ref.fasta[.gz]>[=<prefix>] ...] [--out-fasta <file.fa>]
+/**
+ * Load a contact map, read the reference FASTA(s) if any, and apply a script
+ * (none means the file's own layout). Progress notes go to stderr.
+ */
+export async function curateFromDisk(
+  pretext: string,
+  scriptPath: string | undefined,
+  fasta: FastaSource[],
+): Promise<CuratedFromDisk> {
+  const assembly = await loadPretextFromDisk(pretext);
+  const scriptText = scriptPath ? await readFile(scriptPath, 'utf8') : '';
 
-Loads a .pretext assembly, applies a DSL curation script, and writes AGP
-(to --out, or stdout if omitted) plus a summary (to stderr). Exits non-zero
-if any line fails to parse or execute.
+  const map = assemblyToMapData(
+    pretext,
+    assembly.contigs,
+    assembly.textureSize,
+    assembly.parsed.header,
+    assembly.contactMap,
+  );
 
-Give --fasta to also export the curated sequence. A .pretext holds contact
-counts and no bases, so the reference the map was built from must be supplied.
-Repeat --fasta once per file, with =<prefix> when the map's contig names carry
-one the FASTA does not:
+  const sequences = fasta.length > 0 ? await loadSequences(fasta) : undefined;
+  if (sequences) {
+    process.stderr.write(`Loaded ${sequences.size} reference sequences\n`);
+  }
 
-  --fasta hap1.fa.gz=H1. --fasta hap2.fa.gz=H2.
+  const outcome = applyCurationScript(map, assembly.contigOrder, scriptText, sequences);
+  return { outcome, sourceLines: scriptText.split('\n'), sequences };
+}
 
-Whole haplotypes are held in memory. For a vertebrate genome, raise the heap:
-  NODE_OPTIONS=--max-old-space-size=8192 npx tsx bench/curate.ts ...`;
+/** Write `text` to `path`, or to stdout when no path is given. */
+export async function writeOutput(path: string | undefined, text: string, what: string): Promise<void> {
+  if (path) {
+    await writeFile(path, text, 'utf8');
+    process.stderr.write(`Wrote ${what} to ${path}\n`);
+  } else {
+    process.stdout.write(text);
+  }
+}
 
-function formatSummary(outcome: CurateOutcome, sourceLines: string[]): string {
+export function formatSummary(outcome: CurateOutcome, sourceLines: string[]): string {
   const lines: string[] = [];
   lines.push('=== Curation summary ===');
 
   if (outcome.parseErrors.length > 0) {
     lines.push(`Parse errors (${outcome.parseErrors.length}):`);
     for (const e of outcome.parseErrors) {
-      lines.push(`  line ${e.line}: ${e.message}`);
+      lines.push(`  line ${e.line}, column ${e.column}: ${e.message}`);
     }
   }
 
@@ -296,6 +337,16 @@ function formatSummary(outcome: CurateOutcome, sourceLines: string[]): string {
   lines.push(`  contigs: ${b.contigCount} -> ${a.contigCount}`);
   lines.push(`  N50:     ${b.n50} -> ${a.n50}`);
 
+  if (outcome.tags.length > 0 || outcome.excluded.length > 0) {
+    lines.push('Annotations:');
+    for (const t of outcome.tags) {
+      lines.push(`  ${t.name}: ${t.tag}${t.notes ? ` (${t.notes})` : ''}`);
+    }
+    if (outcome.excluded.length > 0) {
+      lines.push(`  excluded from export: ${outcome.excluded.join(', ')}`);
+    }
+  }
+
   if (outcome.fasta !== undefined) {
     const missing = outcome.missingSequences ?? [];
     lines.push('FASTA:');
@@ -311,75 +362,86 @@ function formatSummary(outcome: CurateOutcome, sourceLines: string[]): string {
   return lines.join('\n');
 }
 
-async function main(): Promise<number> {
-  let args: CliArgs;
+// ---------------------------------------------------------------------------
+// CLI
+// ---------------------------------------------------------------------------
+
+interface CurateArgs {
+  pretext?: string;
+  script?: string;
+  out?: string;
+  fasta: FastaSource[];
+  outFasta?: string;
+}
+
+function parseArgs(argv: string[]): CurateArgs {
+  const args: CurateArgs = { fasta: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--pretext') args.pretext = argv[++i];
+    else if (a === '--script') args.script = argv[++i];
+    else if (a === '--out') args.out = argv[++i];
+    else if (a === '--fasta') args.fasta.push(parseFastaArg(argv[++i]!));
+    else if (a === '--out-fasta') args.outFasta = argv[++i];
+    else throw new Error(`Unknown argument: ${a}`);
+  }
+  return args;
+}
+
+export const CURATE_USAGE = `openpretext curate — apply a DSL curation script and export AGP
+
+Usage:
+  openpretext curate --pretext <file.pretext> --script <file.dsl>
+                     [--out <file.agp>]
+                     [--fasta <ref.fasta[.gz]>[=<prefix>] ...] [--out-fasta <file.fa>]
+
+Loads a .pretext assembly, applies a DSL curation script, and writes AGP
+(to --out, or stdout if omitted) plus a summary (to stderr). Exits 1 if any
+line fails to parse or execute, including a failed assert, and 2 on bad usage.
+
+Give --fasta to also export the curated sequence. A .pretext holds contact
+counts and no bases, so the reference the map was built from must be supplied.
+Repeat --fasta once per file, with =<prefix> when the map's contig names carry
+one the FASTA does not:
+
+  --fasta hap1.fa.gz=H1. --fasta hap2.fa.gz=H2.
+
+Whole haplotypes are held in memory. For a vertebrate genome, raise the heap:
+  NODE_OPTIONS=--max-old-space-size=8192 openpretext curate ...`;
+
+/** `openpretext curate`. Resolves to the process exit code. */
+export async function runCurate(argv: string[]): Promise<number> {
+  let args: CurateArgs;
   try {
-    args = parseArgs(process.argv.slice(2));
+    args = parseArgs(argv);
   } catch (e) {
-    process.stderr.write(`${(e as Error).message}\n\n${USAGE}\n`);
+    process.stderr.write(`${(e as Error).message}\n\n${CURATE_USAGE}\n`);
     return 2;
   }
 
   if (!args.pretext || !args.script) {
-    process.stderr.write(`${USAGE}\n`);
+    process.stderr.write(`${CURATE_USAGE}\n`);
     return 2;
   }
-
-  const assembly = await loadPretextFromDisk(args.pretext);
-  const scriptText = await readFile(args.script, 'utf8');
-  const sourceLines = scriptText.split('\n');
-
-  const map = assemblyToMapData(
-    args.pretext,
-    assembly.contigs,
-    assembly.textureSize,
-    assembly.parsed.header,
-  );
-
-  const sequences = args.fasta.length > 0 ? await loadSequences(args.fasta) : undefined;
-  if (sequences) {
-    process.stderr.write(`Loaded ${sequences.size} reference sequences\n`);
+  if (args.outFasta && args.fasta.length === 0) {
+    process.stderr.write('--out-fasta needs --fasta: a .pretext carries no sequence\n');
+    return 2;
   }
 
-  const outcome = applyCurationScript(map, assembly.contigOrder, scriptText, sequences);
+  const { outcome, sourceLines } = await curateFromDisk(args.pretext, args.script, args.fasta);
 
   // Summary -> stderr so `curate ... > out.agp` yields clean AGP on stdout.
   process.stderr.write(`${formatSummary(outcome, sourceLines)}\n`);
 
-  if (args.out) {
-    await writeFile(args.out, outcome.agp, 'utf8');
-    process.stderr.write(`Wrote AGP to ${args.out}\n`);
-  } else {
-    process.stdout.write(outcome.agp);
-  }
+  await writeOutput(args.out, outcome.agp, 'AGP');
 
   if (outcome.fasta !== undefined) {
     if (args.outFasta) {
-      await writeFile(args.outFasta, outcome.fasta, 'utf8');
-      process.stderr.write(`Wrote FASTA to ${args.outFasta}\n`);
+      await writeOutput(args.outFasta, outcome.fasta, 'FASTA');
     } else {
       process.stderr.write('FASTA exported but not written; pass --out-fasta to save it\n');
     }
-  } else if (args.outFasta) {
-    process.stderr.write('--out-fasta needs --fasta: a .pretext carries no sequence\n');
-    return 2;
   }
 
   return outcome.ok ? 0 : 1;
 }
-
-// Only run when invoked directly (not when imported by the test).
-// import.meta.url matches the executed file's URL under tsx/node ESM.
-const invokedDirectly =
-  typeof process !== 'undefined' &&
-  process.argv[1] != null &&
-  import.meta.url === pathToFileURL(process.argv[1]).href;
-
-if (invokedDirectly) {
-  main()
-    .then((code) => process.exit(code))
-    .catch((err) => {
-      process.stderr.write(`Error: ${err instanceof Error ? err.message : String(err)}\n`);
-      process.exit(1);
-    });
-}
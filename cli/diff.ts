@@ -0,0 +1,208 @@
+/**
+ * diff.ts — `openpretext diff`, what changed between two AGPs.
+ *
+ * Usage:
+ *   openpretext diff <before.agp> <after.agp> [--format text|json] [--out <file>]
+ *
+ * Compares the component (W) rows by source contig name and component
+ * interval, so it works across AGPs from different tools and ignores object
+ * coordinates, gap rows and object naming, while the pieces of a cut contig
+ * (rows naming the same source with different intervals) stay distinct. It
+ * reports what a curator changed: components present in only one file,
+ * flipped orientations, joins that were broken or made (two components
+ * adjacent in the same object), components regrouped into different objects,
+ * and whether the object count or overall order differs. Exits 0 when the
+ * layouts match and 1 when they differ, like diff(1).
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseAGP, type AGPImportRow } from '../src/formats/AGPParser';
+import { writeOutput } from './curate';
+
+// ---------------------------------------------------------------------------
+// Core (pure)
+// ---------------------------------------------------------------------------
+
+/** A pair of components adjacent within one AGP object. */
+export interface AGPJoin {
+  left: string;
+  right: string;
+}
+
+/**
+ * Components are reported by contig name, or as `name:beg-end` when either
+ * file holds more than one interval of that contig (the pieces of a cut).
+ */
+export interface AGPDiff {
+  /** Components only in the first / second file, in that file's order. */
+  onlyInA: string[];
+  onlyInB: string[];
+  /** Components in both files whose orientation differs. */
+  orientationChanged: string[];
+  /** Joins in the first file that the second does not have. */
+  brokenJoins: AGPJoin[];
+  /** Joins in the second file that the first does not have. */
+  newJoins: AGPJoin[];
+  /** Components in both files whose object holds different shared components. */
+  regrouped: string[];
+  /** Whether the components both files share appear in a different order. */
+  orderChanged: boolean;
+  /** Object (scaffold or unplaced singleton) counts. */
+  objectsA: number;
+  objectsB: number;
+  /** True when none of the above differ. */
+  identical: boolean;
+}
+
+/** Identity of a component row: source contig and interval, not orientation. */
+function componentKey(r: AGPImportRow): string {
+  return `${r.contigName}\t${r.componentBeg}\t${r.componentEnd}`;
+}
+
+/** Joins keyed orientation-free, so a join survives its pair being flipped. */
+function joinsOf(rows: AGPImportRow[], label: (r: AGPImportRow) => string): Map<string, AGPJoin> {
+  const joins = new Map<string, AGPJoin>();
+  for (let i = 1; i < rows.length; i++) {
+    const a = rows[i - 1], b = rows[i];
+    if (a.objectName !== b.objectName) continue;
+    const key = [componentKey(a), componentKey(b)].sort().join('\n');
+    joins.set(key, { left: label(a), right: label(b) });
+  }
+  return joins;
+}
+
+/** Component key -> the keys of the shared components in its object, as one string. */
+function groupsOf(rows: AGPImportRow[], shared: Set<string>): Map<string, string> {
+  const members = new Map<string, string[]>();
+  for (const r of rows) {
+    const key = componentKey(r);
+    if (!shared.has(key)) continue;
+    const list = members.get(r.objectName) ?? [];
+    list.push(key);
+    members.set(r.objectName, list);
+  }
+  const groups = new Map<string, string>();
+  for (const keys of members.values()) {
+    const group = [...keys].sort().join('\n');
+    for (const key of keys) groups.set(key, group);
+  }
+  return groups;
+}
+
+/** Compare two AGP texts by source contig and component interval. */
+export function diffAGP(textA: string, textB: string): AGPDiff {
+  const a = parseAGP(textA).rows;
+  const b = parseAGP(textB).rows;
+  const byKeyA = new Map(a.map((r) => [componentKey(r), r]));
+  const byKeyB = new Map(b.map((r) => [componentKey(r), r]));
+
+  const intervals = new Map<string, Set<string>>();
+  for (const r of [...a, ...b]) {
+    const set = intervals.get(r.contigName) ?? new Set<string>();
+    set.add(componentKey(r));
+    intervals.set(r.contigName, set);
+  }
+  const label = (r: AGPImportRow): string =>
+    intervals.get(r.contigName)!.size > 1 ? `${r.contigName}:${r.componentBeg}-${r.componentEnd}` : r.contigName;
+
+  const onlyInA = a.filter((r) => !byKeyB.has(componentKey(r))).map(label);
+  const onlyInB = b.filter((r) => !byKeyA.has(componentKey(r))).map(label);
+  const orientationChanged = a
+    .filter((r) => byKeyB.has(componentKey(r)) && byKeyB.get(componentKey(r))!.inverted !== r.inverted)
+    .map(label);
+
+  const joinsA = joinsOf(a, label);
+  const joinsB = joinsOf(b, label);
+  const brokenJoins = [...joinsA].filter(([k]) => !joinsB.has(k)).map(([, j]) => j);
+  const newJoins = [...joinsB].filter(([k]) => !joinsA.has(k)).map(([, j]) => j);
+
+  const sharedA = a.filter((r) => byKeyB.has(componentKey(r)));
+  const sharedB = b.filter((r) => byKeyA.has(componentKey(r)));
+  const orderChanged = sharedA.some((r, i) => componentKey(sharedB[i]) !== componentKey(r));
+
+  const shared = new Set(sharedA.map(componentKey));
+  const groupsA = groupsOf(a, shared);
+  const groupsB = groupsOf(b, shared);
+  const regrouped = sharedA.filter((r) => groupsA.get(componentKey(r)) !== groupsB.get(componentKey(r))).map(label);
+
+  const objectsA = new Set(a.map((r) => r.objectName)).size;
+  const objectsB = new Set(b.map((r) => r.objectName)).size;
+
+  const identical = onlyInA.length === 0 && onlyInB.length === 0 && orientationChanged.length === 0 &&
+    brokenJoins.length === 0 && newJoins.length === 0 && regrouped.length === 0 && !orderChanged &&
+    objectsA === objectsB;
+
+  return {
+    onlyInA, onlyInB, orientationChanged, brokenJoins, newJoins, regrouped, orderChanged,
+    objectsA, objectsB, identical,
+  };
+}
+
+/** A human-readable report, one section per kind of change. */
+export function formatDiffText(d: AGPDiff, nameA: string, nameB: string): string {
+  const lines = [`--- ${nameA}`, `+++ ${nameB}`];
+  if (d.identical) {
+    lines.push('Layouts are identical.');
+    return lines.join('\n') + '\n';
+  }
+  lines.push(`Objects: ${d.objectsA} -> ${d.objectsB}`);
+  const section = (title: string, items: string[]) => {
+    if (items.length === 0) return;
+    lines.push(`${title} (${items.length}):`);
+    for (const item of items) lines.push(`  ${item}`);
+  };
+  section('Only in first', d.onlyInA);
+  section('Only in second', d.onlyInB);
+  section('Orientation changed', d.orientationChanged);
+  section('Joins broken', d.brokenJoins.map((j) => `${j.left} | ${j.right}`));
+  section('Joins made', d.newJoins.map((j) => `${j.left} + ${j.right}`));
+  section('Moved to a different object', d.regrouped);
+  if (d.orderChanged) lines.push('Contig order changed.');
+  return lines.join('\n') + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// CLI
+// ---------------------------------------------------------------------------
+
+export const DIFF_USAGE = `openpretext diff — compare two AGP layouts
+
+Usage:
+  openpretext diff <before.agp> <after.agp> [--format text|json] [--out <file>]
+
+Reports components added or removed, orientation flips, joins broken and
+made, components moved between objects and order changes, matching components
+by contig name and interval. Exits 0 when the layouts match,
+1 when they differ and 2 on bad usage.`;
+
+/** `openpretext diff`. Resolves to the process exit code. */
+export async function runDiff(argv: string[]): Promise<number> {
+  const files: string[] = [];
+  let format: 'text' | 'json' = 'text';
+  let out: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--format') {
+      const f = argv[++i];
+      if (f !== 'text' && f !== 'json') {
+        process.stderr.write(`Unknown format '${f}'. Expected text or json\n\n${DIFF_USAGE}\n`);
+        return 2;
+      }
+      format = f;
+    } else if (a === '--out') out = argv[++i];
+    else if (a.startsWith('--')) {
+      process.stderr.write(`Unknown argument: ${a}\n\n${DIFF_USAGE}\n`);
+      return 2;
+    } else files.push(a);
+  }
+  if (files.length !== 2) {
+    process.stderr.write(`${DIFF_USAGE}\n`);
+    return 2;
+  }
+
+  const [textA, textB] = await Promise.all(files.map((f) => readFile(f, 'utf8')));
+  const diff = diffAGP(textA, textB);
+  const text = format === 'json' ? JSON.stringify(diff, null, 2) + '\n' : formatDiffText(diff, files[0], files[1]);
+  await writeOutput(out, text, 'diff');
+  return diff.identical ? 0 : 1;
+}
@@ -0,0 +1,104 @@
+/**
+ * export.ts — `openpretext export`, the curated layout in one format.
+ *
+ * Usage:
+ *   openpretext export --pretext <file.pretext> --format agp|bed|fasta|session
+ *                      [--script <file.dsl>] [--fasta <ref.fasta[.gz]>[=<prefix>] ...]
+ *                      [--out <file>]
+ *
+ * Without a script this exports the file's own layout; with one, the layout
+ * the script leaves. The outputs are the viewer's own writers (AGPWriter,
+ * BEDWriter, FASTAWriter, SessionManager), so a file written here loads back
+ * into the viewer like one it saved.
+ */
+
+import { curateFromDisk, formatSummary, parseFastaArg, writeOutput, type CurateOutcome, type FastaSource } from './curate';
+
+export type ExportFormat = 'agp' | 'bed' | 'fasta' | 'session';
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['agp', 'bed', 'fasta', 'session'];
+
+/**
+ * The text to write for `format`. Throws for `fasta` when the outcome carries
+ * no sequence (no reference was supplied).
+ */
+export function exportText(outcome: CurateOutcome, format: ExportFormat): string {
+  switch (format) {
+    case 'agp': return outcome.agp;
+    case 'bed': return outcome.bed;
+    case 'session': return JSON.stringify(outcome.session, null, 2) + '\n';
+    case 'fasta':
+      if (outcome.fasta === undefined) throw new Error('FASTA export needs --fasta: a .pretext carries no sequence');
+      return outcome.fasta;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CLI
+// ---------------------------------------------------------------------------
+
+interface ExportArgs {
+  pretext?: string;
+  script?: string;
+  format?: ExportFormat;
+  fasta: FastaSource[];
+  out?: string;
+}
+
+function parseArgs(argv: string[]): ExportArgs {
+  const args: ExportArgs = { fasta: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--pretext') args.pretext = argv[++i];
+    else if (a === '--script') args.script = argv[++i];
+    else if (a === '--format') {
+      const f = argv[++i]?.toLowerCase();
+      if (!EXPORT_FORMATS.includes(f as ExportFormat)) {
+        throw new Error(`Unknown format '${f}'. Expected one of: ${EXPORT_FORMATS.join(', ')}`);
+      }
+      args.format = f as ExportFormat;
+    } else if (a === '--fasta') args.fasta.push(parseFastaArg(argv[++i]!));
+    else if (a === '--out') args.out = argv[++i];
+    else throw new Error(`Unknown argument: ${a}`);
+  }
+  return args;
+}
+
+export const EXPORT_USAGE = `openpretext export — write the curated layout as AGP, BED, FASTA or a session
+
+Usage:
+  openpretext export --pretext <file.pretext> --format agp|bed|fasta|session
+                     [--script <file.dsl>]
+                     [--fasta <ref.fasta[.gz]>[=<prefix>] ...] [--out <file>]
+
+Exports the file's layout, or the layout a --script leaves, to --out or
+stdout. fasta needs the reference via --fasta (see 'openpretext curate --help'
+for the =<prefix> form). A session file opens in the viewer with the curation
+history intact. Exits 1 if the script fails (a failed assert included) and 2
+on bad usage.`;
+
+/** `openpretext export`. Resolves to the process exit code. */
+export async function runExport(argv: string[]): Promise<number> {
+  let args: ExportArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (e) {
+    process.stderr.write(`${(e as Error).message}\n\n${EXPORT_USAGE}\n`);
+    return 2;
+  }
+  if (!args.pretext || !args.format) {
+    process.stderr.write(`${EXPORT_USAGE}\n`);
+    return 2;
+  }
+  if (args.format === 'fasta' && args.fasta.length === 0) {
+    process.stderr.write('--format fasta needs --fasta: a .pretext carries no sequence\n');
+    return 2;
+  }
+
+  const { outcome, sourceLines } = await curateFromDisk(args.pretext, args.script, args.fasta);
+  if (args.script) process.stderr.write(`${formatSummary(outcome, sourceLines)}\n`);
+
+  const what = args.format === 'session' ? 'session' : args.format.toUpperCase();
+  await writeOutput(args.out, exportText(outcome, args.format), what);
+  return outcome.ok ? 0 : 1;
+}
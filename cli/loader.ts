@@ -1,11 +1,13 @@
 /**
- * Node.js .pretext file loader — replicates the contact map assembly
- * from src/ui/FileLoading.ts without any DOM dependencies.
+ * Node.js contact map loader (.pretext, .hic, .cool/.mcool) — replicates the
+ * contact map assembly from src/ui/FileLoading.ts without any DOM dependencies.
  */
 
 import { readFile } from 'node:fs/promises';
 import { parsePretextFile, tileLinearIndex } from '../src/formats/PretextParser';
 import type { PretextFile } from '../src/formats/PretextParser';
+import { detectContactMapFormat, parseAndAssembleContactMap } from '../src/formats/ContactMapFormats';
+import { CoolerTileSource } from '../src/formats/CoolerParser';
 import type { ContigInfo } from '../src/core/State';
 
 export interface LoadedAssembly {
@@ -31,6 +33,11 @@ export interface LoadOptions {
  */
 export async function loadPretextFromDisk(filepath: string, opts?: LoadOptions): Promise<LoadedAssembly> {
   const buffer = await readFile(filepath);
+  const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+  const format = detectContactMapFormat(arrayBuffer);
+  if (format && format !== 'pretext') {
+    return loadAssembledFromBuffer(arrayBuffer, opts);
+  }
 
   // Parse at the requested mipmap level
   const parseOpts = opts?.mipLevel != null
@@ -93,3 +100,50 @@ export async function loadPretextFromDisk(filepath: string, opts?: LoadOptions):
     parsed,
   };
 }
+
+/**
+ * Load a non-.pretext contact map (.hic, cooler) through the same assembly
+ * the browser uses. `parsed.tilesDecoded` is left empty; for coolers a
+ * `mipLevel` other than the coarsest is read straight from the file.
+ */
+async function loadAssembledFromBuffer(buffer: ArrayBuffer, opts?: LoadOptions): Promise<LoadedAssembly> {
+  const assembled = await parseAndAssembleContactMap(buffer);
+  const h = assembled.header;
+  let contactMap = assembled.overview;
+  let overviewSize = assembled.overviewSize;
+
+  if (assembled.source && opts?.mipLevel != null) {
+    const level = Math.max(0, Math.min(opts.mipLevel, h.mipMapLevels - 1));
+    const source = await CoolerTileSource.open(assembled.source, h, assembled.contigs);
+    try {
+      ({ overview: contactMap, overviewSize } = source.assembleLevel(level));
+    } finally {
+      source.close();
+    }
+  }
+
+  const contigs: ContigInfo[] = assembled.contigs.map((c, i) => ({
+    name: c.name,
+    originalIndex: i,
+    length: c.length,
+    pixelStart: c.pixelStart,
+    pixelEnd: c.pixelEnd,
+    inverted: false,
+    scaffoldId: null,
+  }));
+
+  return {
+    contactMap,
+    overviewSize,
+    textureSize: assembled.mapSize,
+    contigs,
+    contigOrder: assembled.contigs.map((_, i) => i),
+    parsed: {
+      header: h,
+      contigs: assembled.contigs,
+      tiles: assembled.tiles,
+      tilesDecoded: [],
+      extensions: assembled.extensions,
+    },
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * openpretext.ts — the `openpretext` command line.
+ *
+ * Headless curation for pipelines: the same DSL, analyses and writers the
+ * viewer uses, run in Node on a contact map with no browser.
+ *
+ *   openpretext curate   apply a DSL script, write AGP (and FASTA)
+ *   openpretext export   write the layout as AGP, BED, FASTA or a session
+ *   openpretext analyze  insulation, decay, join support and health as JSON/TSV
+ *   openpretext diff     compare two AGPs
+ *
+ * Exit codes are the same for every subcommand: 0 success, 1 failure (a
+ * script line that fails to parse or run, a failed `assert`, or for `diff` a
+ * difference), 2 bad usage. That lets a curation protocol gate a workflow
+ * step (Nextflow, Snakemake, CI) on its own assertions.
+ *
+ * bin.ts is the executable entry; this module only dispatches, so tests can
+ * import it without running anything.
+ */
+
+import { runCurate, CURATE_USAGE } from './curate';
+import { runExport, EXPORT_USAGE } from './export';
+import { runAnalyze, ANALYZE_USAGE } from './analyze';
+import { runDiff, DIFF_USAGE } from './diff';
+
+interface Subcommand {
+  summary: string;
+  usage: string;
+  run(argv: string[]): Promise<number>;
+}
+
+const SUBCOMMANDS: Record<string, Subcommand> = {
+  curate: { summary: 'apply a DSL curation script and write AGP', usage: CURATE_USAGE, run: runCurate },
+  export: { summary: 'write the layout as AGP, BED, FASTA or a session', usage: EXPORT_USAGE, run: runExport },
+  analyze: { summary: 'run Hi-C analyses and report JSON or TSV', usage: ANALYZE_USAGE, run: runAnalyze },
+  diff: { summary: 'compare two AGP layouts', usage: DIFF_USAGE, run: runDiff },
+};
+
+export const USAGE = `openpretext — headless Hi-C curation
+
+Usage:
+  openpretext <command> [options]
+  openpretext <command> --help
+
+Commands:
+${Object.entries(SUBCOMMANDS).map(([name, c]) => `  ${name.padEnd(9)}${c.summary}`).join('\n')}
+
+Exit codes: 0 success, 1 failure (including a failed assert, or differences
+for diff), 2 bad usage.`;
+
+/** Run the CLI on `argv` (without node and script). Resolves to the exit code. */
+export async function main(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+  if (name === undefined) {
+    process.stderr.write(`${USAGE}\n`);
+    return 2;
+  }
+  if (name === '--help' || name === '-h' || name === 'help') {
+    const topic = name === 'help' ? SUBCOMMANDS[rest[0] ?? ''] : undefined;
+    process.stdout.write(`${topic ? topic.usage : USAGE}\n`);
+    return 0;
+  }
+
+  const command = SUBCOMMANDS[name];
+  if (!command) {
+    process.stderr.write(`Unknown command: ${name}\n\n${USAGE}\n`);
+    return 2;
+  }
+  if (rest.includes('--help') || rest.includes('-h')) {
+    process.stdout.write(`${command.usage}\n`);
+    return 0;
+  }
+  return command.run(rest);
+}
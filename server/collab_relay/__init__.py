@@ -0,0 +1,7 @@
+"""Collaborative curation relay.
+
+A WebSocket room server for OpenPretext collaborative sessions: every text
+frame a client sends is forwarded unchanged to the other clients in the same
+room. It keeps no state beyond room membership; conflict detection and
+history replay happen in the browser (src/curation/CollabSession.ts).
+"""
@@ -0,0 +1,71 @@
+"""FastAPI WebSocket relay for collaborative curation sessions."""
+
+from __future__ import annotations
+
+import asyncio
+import logging
+from collections import defaultdict
+
+import uvicorn
+from fastapi import FastAPI, WebSocket, WebSocketDisconnect
+
+logger = logging.getLogger("collab_relay")
+
+app = FastAPI(title="OpenPretext Collaboration Relay", version="0.1.0")
+
+# room name -> connected sockets
+rooms: dict[str, set[WebSocket]] = defaultdict(set)
+
+# Frames larger than this are dropped rather than relayed (history replies to a
+# late joiner are the largest legitimate messages).
+MAX_FRAME_BYTES = 4 * 1024 * 1024
+
+
+@app.get("/api/v1/health")
+async def health() -> dict[str, object]:
+    return {
+        "status": "ok",
+        "rooms": len(rooms),
+        "clients": sum(len(members) for members in rooms.values()),
+    }
+
+
+@app.websocket("/{room}")
+async def relay(websocket: WebSocket, room: str) -> None:
+    await websocket.accept()
+    members = rooms[room]
+    members.add(websocket)
+    logger.info("client joined room %r (%d connected)", room, len(members))
+    try:
+        while True:
+            frame = await websocket.receive_text()
+            if len(frame) > MAX_FRAME_BYTES:
+                continue
+            others = [m for m in members if m is not websocket]
+            results = await asyncio.gather(
+                *(m.send_text(frame) for m in others), return_exceptions=True
+            )
+            for member, result in zip(others, results):
+                if isinstance(result, Exception):
+                    members.discard(member)
+    except WebSocketDisconnect:
+        pass
+    finally:
+        members.discard(websocket)
+        if not members:
+            rooms.pop(room, None)
+        logger.info("client left room %r", room)
+
+
+def run() -> None:
+    """Entry point for the `collab-relay` script (port 8765)."""
+    uvicorn.run(
+        "collab_relay.main:app",
+        host="0.0.0.0",
+        port=8765,
+        reload=False,
+    )
+
+
+if __name__ == "__main__":
+    run()
@@ -2,7 +2,8 @@
  * AnalysisWorker — Background Web Worker for 3D genomics computations.
  *
  * Runs insulation score, contact decay, and compartment analysis off the
- * main thread so the UI stays responsive. Communicates via postMessage.
+ * main thread so the UI stays responsive, as well as loop calling
+ * (LoopCaller.ts) and the full-resolution region analyses (RegionAnalysis.ts). Communicates via postMessage.
  *
  * The pure analysis modules have no DOM dependencies, so they run
  * directly in the worker context.
@@ -16,6 +17,8 @@ import { computeICENormalization, type ICEParams } from './ICENormalization';
 import { computeKRNormalization, type KRParams } from './KRNormalization';
 import { computeDirectionality, type DIParams } from './DirectionalityIndex';
 import { computeCheckerboardScore, type CheckerboardParams, type ChromosomeRange } from './CheckerboardScore';
+import { callLoops, type LoopParams, type LoopResult } from './LoopCaller';
+import { computeRegionAnalyses, type RegionAnalysisParams, type RegionAnalysisResult } from './RegionAnalysis';
 import type { ContigRange } from '../curation/AutoSort';
 
 // ---------------------------------------------------------------------------
@@ -92,7 +95,25 @@ export interface CheckerboardRequest {
   chromosomeRanges?: ChromosomeRange[];
 }
 
-export type AnalysisRequest = InsulationRequest | DecayRequest | CompartmentRequest | PatternRequest | ICERequest | DIRequest | KRRequest | CheckerboardRequest;
+export interface LoopRequest {
+  type: 'loops';
+  id: number;
+  contactMap: Float32Array;
+  size: number;
+  params?: Partial<LoopParams>;
+}
+
+export interface RegionRequest {
+  type: 'region';
+  id: number;
+  contactMap: Float32Array;
+  size: number;
+  contigRanges: ContigRange[];
+  params: RegionAnalysisParams;
+  scaffoldIds?: Array<number | null>;
+}
+
+export type AnalysisRequest = InsulationRequest | DecayRequest | CompartmentRequest | PatternRequest | ICERequest | DIRequest | KRRequest | CheckerboardRequest | LoopRequest | RegionRequest;
 
 export interface InsulationResponse {
   type: 'insulation';
@@ -169,6 +190,18 @@ export interface CheckerboardResponse {
   numChromosomes: number;
 }
 
+export interface LoopResponse {
+  type: 'loops';
+  id: number;
+  result: LoopResult;
+}
+
+export interface RegionResponse {
+  type: 'region';
+  id: number;
+  result: RegionAnalysisResult;
+}
+
 export interface ErrorResponse {
   type: 'error';
   id: number;
@@ -184,6 +217,8 @@ export type AnalysisResponse =
   | DIResponse
   | KRResponse
   | CheckerboardResponse
+  | LoopResponse
+  | RegionResponse
   | ErrorResponse;
 
 // ---------------------------------------------------------------------------
@@ -343,6 +378,20 @@ self.onmessage = (event: MessageEvent<AnalysisRequest>) => {
         ] as any);
         break;
       }
+
+      case 'loops': {
+        const result = callLoops(msg.contactMap, msg.size, msg.params);
+        const response: LoopResponse = { type: 'loops', id: msg.id, result };
+        self.postMessage(response);
+        break;
+      }
+
+      case 'region': {
+        const result = computeRegionAnalyses(msg.contactMap, msg.size, msg.contigRanges, msg.params, msg.scaffoldIds);
+        const response: RegionResponse = { type: 'region', id: msg.id, result };
+        self.postMessage(response);
+        break;
+      }
     }
   } catch (err) {
     const response: ErrorResponse = {
@@ -17,6 +17,8 @@ import { computeICENormalization, type ICEParams, type ICEResult } from './ICENo
 import { computeKRNormalization, type KRParams, type KRResult } from './KRNormalization';
 import { computeDirectionality, type DIParams, type DIResult } from './DirectionalityIndex';
 import { computeCheckerboardScore, type CheckerboardParams, type CheckerboardResult, type ChromosomeRange } from './CheckerboardScore';
+import { callLoops, type LoopParams, type LoopResult } from './LoopCaller';
+import { computeRegionAnalyses, type RegionAnalysisParams, type RegionAnalysisResult } from './RegionAnalysis';
 import type { ContigRange } from '../curation/AutoSort';
 import type {
   AnalysisRequest,
@@ -29,6 +31,8 @@ import type {
   DIResponse,
   KRResponse,
   CheckerboardResponse,
+  LoopResponse,
+  RegionResponse,
 } from './AnalysisWorker';
 
 // ---------------------------------------------------------------------------
@@ -372,6 +376,65 @@ export class AnalysisWorkerClient {
     return computeCheckerboardScore(contactMap, size, params, chromosomeRanges);
   }
 
+  /**
+   * Call loops (HiCCUPS-style) in the worker.
+   * Falls back to synchronous if worker is unavailable.
+   */
+  async callLoops(
+    contactMap: Float32Array,
+    size: number,
+    params?: Partial<LoopParams>,
+  ): Promise<LoopResult> {
+    if (!this.workerFailed && this.worker) {
+      try {
+        const id = this.nextId++;
+        const resp = await this.postRequest({
+          type: 'loops',
+          id,
+          contactMap,
+          size,
+          params,
+        }) as LoopResponse;
+        return resp.result;
+      } catch {
+        // Fall through to synchronous
+      }
+    }
+    return callLoops(contactMap, size, params);
+  }
+
+  /**
+   * Run the overview analyses on a full-resolution region matrix (see
+   * RegionAnalysis.ts) in the worker.
+   * Falls back to synchronous if worker is unavailable.
+   */
+  async analyzeRegion(
+    contactMap: Float32Array,
+    size: number,
+    contigRanges: ContigRange[],
+    params: RegionAnalysisParams,
+    scaffoldIds?: Array<number | null>,
+  ): Promise<RegionAnalysisResult> {
+    if (!this.workerFailed && this.worker) {
+      try {
+        const id = this.nextId++;
+        const resp = await this.postRequest({
+          type: 'region',
+          id,
+          contactMap,
+          size,
+          contigRanges,
+          params,
+          scaffoldIds,
+        }) as RegionResponse;
+        return resp.result;
+      } catch {
+        // Fall through to synchronous
+      }
+    }
+    return computeRegionAnalyses(contactMap, size, contigRanges, params, scaffoldIds);
+  }
+
   /**
    * Terminate the worker. Call when the client is no longer needed.
    */
@@ -0,0 +1,129 @@
+/**
+ * BranchComparison — side-by-side quality metrics for curation branches.
+ *
+ * For each curation state (a branch head or checkpoint) computes the assembly
+ * metrics (QualityMetrics.calculateMetrics), join support on the overview
+ * reordered into that state's contig order, and a health score.
+ *
+ * The health score's Hi-C components (P(s) decay, compartments, library
+ * quality, checkerboard) are properties of the contact data that barely move
+ * with contig order, so they are computed once for the live map and passed in
+ * as `shared`. Its integrity component uses the branch's weak-join count in
+ * place of the misassembly count, which is only available for the live state.
+ *
+ * Pure algorithm — no side effects or state mutations.
+ */
+
+import type { ContigInfo } from '../core/State';
+import type { ContigRange } from '../curation/AutoSort';
+import { calculateMetrics, type AssemblyMetrics } from '../curation/QualityMetrics';
+import { reorderContactMap } from '../renderer/ContactMapReorder';
+import { computeJoinSupport, type JoinSupportResult } from './JoinSupport';
+import { computeHealthScore, type HealthScoreInput, type HealthScoreResult } from './HealthScore';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** The parts of a curation state the comparison needs. */
+export interface BranchStateInput {
+  contigs: ContigInfo[];
+  contigOrder: number[];
+  /** Operations on the branch's undo stack. */
+  operationCount: number;
+}
+
+/** Health-score inputs that do not depend on contig order. */
+export type SharedHealthInputs = Pick<
+  HealthScoreInput,
+  'decayExponent' | 'decayRSquared' | 'eigenvalue' | 'cisTransRatio' | 'checkerboardScore'
+>;
+
+export interface BranchComparisonOptions {
+  /** Overview contact map in original contig order; null skips join support. */
+  originalContactMap: Float32Array | null;
+  /** Full-resolution texture size in pixels (contig pixel coordinates). */
+  textureSize: number;
+  /** Order-independent health inputs from the live analyses, if any ran. */
+  shared?: SharedHealthInputs | null;
+}
+
+export interface BranchComparisonRow {
+  metrics: AssemblyMetrics;
+  /** Null when there is no contact map or too few contigs/bins to score. */
+  joinSupport: JoinSupportResult | null;
+  health: HealthScoreResult;
+}
+
+const NO_SHARED_INPUTS: SharedHealthInputs = {
+  decayExponent: null,
+  decayRSquared: null,
+  eigenvalue: null,
+  cisTransRatio: null,
+  checkerboardScore: null,
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Per-contig overview bin ranges in display order: each contig's share of the
+ * texture, scaled to `overviewSize` bins.
+ */
+export function contigRangesFor(
+  contigs: ContigInfo[],
+  contigOrder: number[],
+  textureSize: number,
+  overviewSize: number,
+): ContigRange[] {
+  const ranges: ContigRange[] = [];
+  let accumulated = 0;
+  for (let i = 0; i < contigOrder.length; i++) {
+    const contig = contigs[contigOrder[i]];
+    const start = Math.round((accumulated / textureSize) * overviewSize);
+    accumulated += contig.pixelEnd - contig.pixelStart;
+    const end = Math.round((accumulated / textureSize) * overviewSize);
+    ranges.push({ start, end, orderIndex: i });
+  }
+  return ranges;
+}
+
+function branchJoinSupport(
+  branch: BranchStateInput,
+  options: BranchComparisonOptions,
+): JoinSupportResult | null {
+  const original = options.originalContactMap;
+  if (!original) return null;
+  const overviewSize = Math.round(Math.sqrt(original.length));
+  // Same limits as the live join-support analysis.
+  if (overviewSize < 4 || branch.contigOrder.length < 2) return null;
+  const matrix = reorderContactMap(original, branch.contigs, branch.contigOrder, overviewSize);
+  const ranges = contigRangesFor(branch.contigs, branch.contigOrder, options.textureSize, overviewSize);
+  const scaffoldIds = branch.contigOrder.map((id) => branch.contigs[id].scaffoldId);
+  return computeJoinSupport(matrix, overviewSize, ranges, undefined, scaffoldIds);
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Compute one comparison row per curation state, in input order. */
+export function compareBranchStates(
+  branches: BranchStateInput[],
+  options: BranchComparisonOptions,
+): BranchComparisonRow[] {
+  const shared = options.shared ?? NO_SHARED_INPUTS;
+  return branches.map((branch) => {
+    const metrics = calculateMetrics(branch.contigs, branch.contigOrder, branch.operationCount);
+    const joinSupport = branchJoinSupport(branch, options);
+    const health = computeHealthScore({
+      n50: metrics.n50,
+      totalLength: metrics.totalLength,
+      contigCount: metrics.contigCount,
+      ...shared,
+      misassemblyCount: joinSupport ? joinSupport.flaggedCount : null,
+    });
+    return { metrics, joinSupport, health };
+  });
+}
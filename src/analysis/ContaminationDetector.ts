@@ -0,0 +1,403 @@
+/**
+ * ContaminationDetector - flag contigs that look like contamination.
+ *
+ * Sequence from another organism (bacteria, fungi, a parasite, the lab's
+ * last project) leaves two independent signatures:
+ *
+ *  - Composition: genomes differ in GC content and, more specifically, in
+ *    their tetranucleotide frequency profile. A contig whose GC or tetramer
+ *    profile sits far from the rest of the assembly's is a composition
+ *    outlier. Both are scored as robust z-scores (median / MAD, weighted by
+ *    sequence length so that many small contigs cannot drag the reference).
+ *  - Hi-C isolation: Hi-C ligates fragments from within one nucleus, so a
+ *    contaminant's reads contact themselves and almost nothing else. We take
+ *    HiCQualityMetrics' per-contig cis ratio with every contig as its own
+ *    unit; one minus it is the fraction of the contig's contacts that reach
+ *    the rest of the assembly, and near zero means isolated. Real contigs keep
+ *    a floor of trans contact from their neighbours and from the
+ *    inter-chromosomal background.
+ *
+ * Either signal alone has innocent explanations (a GC-rich microchromosome, an
+ * organelle, a large contig with few neighbours), so only a composition
+ * outlier that is also isolated is reported with high confidence. A contig
+ * with no Hi-C contact at all has no measurable isolation, but nothing in the
+ * map supports it either, so it is flagged the same way as an isolated one.
+ *
+ * Composition is strand-symmetric (GC and canonical tetramers), so it is read
+ * straight from each contig's source segments; long contigs are sampled in
+ * evenly spaced windows to keep a whole genome cheap. Isolation is measured on
+ * the display-order overview, where contigs need a couple of bins to carry
+ * any cis contact off the diagonal.
+ *
+ * Pure algorithm — no DOM dependencies.
+ */
+
+import type { ContigInfo } from '../core/State';
+import type { ContigRange } from '../curation/AutoSort';
+import { displaySegments } from '../core/GenomeCoordinates';
+import { computeHiCQuality } from './HiCQualityMetrics';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ContaminantConfidence = 'high' | 'medium' | 'low';
+
+export interface ContigComposition {
+  /** A/C/G/T bases read (after sampling). */
+  bases: number;
+  /** GC fraction of the bases read. */
+  gc: number;
+  /** Canonical tetranucleotide frequencies (136 entries, summing to 1). */
+  tetra: Float64Array;
+}
+
+export interface ContaminantCandidate {
+  /** Display index of the candidate contig. */
+  orderIndex: number;
+  /** File (original) index, for tagging. */
+  originalIndex: number;
+  name: string;
+  /** Contig length in bp. */
+  length: number;
+  /** GC fraction. NaN without sequence. */
+  gc: number;
+  /** Robust z-score of the GC deviation from the assembly. NaN without sequence. */
+  gcZ: number;
+  /** Robust z-score of the tetranucleotide profile distance. NaN without sequence. */
+  tetraZ: number;
+  /** Fraction of the contig's contacts reaching other contigs. NaN when unresolvable. */
+  transFraction: number;
+  compositionOutlier: boolean;
+  isolated: boolean;
+  /** Wide enough to measure isolation, but without any Hi-C contact. */
+  noContacts: boolean;
+  confidence: ContaminantConfidence;
+  /** Ranking score within a confidence level (higher is more suspect). */
+  score: number;
+  /** Human-readable evidence lines: Hi-C, then GC, then tetranucleotides. */
+  evidence: string[];
+}
+
+export interface ContaminationResult {
+  /** Flagged candidates, most suspect first. */
+  candidates: ContaminantCandidate[];
+  flaggedCount: number;
+  /** A FASTA covered enough contigs to score composition. */
+  compositionAvailable: boolean;
+  /** Length-weighted median GC of the assembly. NaN without sequence. */
+  assemblyGC: number;
+}
+
+export interface ContaminationParams {
+  /** Contigs with fewer bases than this are not scored for composition. */
+  minCompositionBases: number;
+  /** Bases read per contig at most; longer contigs are sampled in windows. */
+  maxSampledBases: number;
+  /** Robust cutoff: a composition outlier has z >= k. */
+  k: number;
+  /** Absolute floor for a GC flag, as a fraction (0.03 = 3 percentage points). */
+  minGCDeviation: number;
+  /** Trans fraction at or below this counts as isolated. */
+  maxTransFraction: number;
+  /** A contig needs at least this many overview bins to measure isolation. */
+  minContigBins: number;
+}
+
+const DEFAULT_PARAMS: ContaminationParams = {
+  minCompositionBases: 2500,
+  maxSampledBases: 1_000_000,
+  k: 3,
+  minGCDeviation: 0.03,
+  maxTransFraction: 0.05,
+  minContigBins: 2,
+};
+
+export interface DetectContaminantsOptions {
+  /** Source contig sequences (the loaded FASTA), keyed by name. */
+  sequences?: Map<string, string> | null;
+  /** Per-contig trans fraction aligned to display order; NaN where unknown. */
+  transFractionByOrder?: Float32Array | null;
+  /**
+   * Overview bin ranges aligned to display order. With them, a contig wide
+   * enough to measure whose trans fraction is NaN is flagged as having no
+   * contacts rather than skipped as too narrow.
+   */
+  ranges?: ContigRange[] | null;
+  params?: Partial<ContaminationParams>;
+}
+
+// ---------------------------------------------------------------------------
+// Composition
+// ---------------------------------------------------------------------------
+
+const SAMPLE_WINDOW = 10_000;
+const TETRA_COUNT = 136;
+
+/** 2-bit base codes (A=0, C=1, G=2, T=3), -1 for anything else. */
+const BASE_CODE = new Int8Array(128).fill(-1);
+for (const [ch, code] of [['A', 0], ['C', 1], ['G', 2], ['T', 3]] as const) {
+  BASE_CODE[ch.charCodeAt(0)] = code;
+  BASE_CODE[ch.toLowerCase().charCodeAt(0)] = code;
+}
+
+/** Tetramer (0..255) -> canonical index (0..135), a tetramer and its reverse complement sharing one. */
+const CANONICAL_TETRA = (() => {
+  const table = new Int16Array(256).fill(-1);
+  let next = 0;
+  for (let kmer = 0; kmer < 256; kmer++) {
+    if (table[kmer] >= 0) continue;
+    let rc = 0;
+    for (let i = 0; i < 4; i++) rc = (rc << 2) | (3 - ((kmer >> (2 * i)) & 3));
+    table[kmer] = next;
+    table[rc] = next;
+    next++;
+  }
+  return table;
+})();
+
+/** Count bases and tetramers of src[start, end) into `counts`. */
+function scanWindow(
+  src: string,
+  start: number,
+  end: number,
+  counts: { bases: number; gc: number; tetra: Float64Array },
+): void {
+  let kmer = 0;
+  let run = 0;
+  for (let i = start; i < end; i++) {
+    const ch = src.charCodeAt(i);
+    const code = ch < 128 ? BASE_CODE[ch] : -1;
+    if (code < 0) {
+      run = 0;
+      continue;
+    }
+    counts.bases++;
+    if (code === 1 || code === 2) counts.gc++;
+    kmer = ((kmer << 2) | code) & 0xff;
+    if (++run >= 4) counts.tetra[CANONICAL_TETRA[kmer]]++;
+  }
+}
+
+/**
+ * GC and canonical tetranucleotide profile of a contig, read from its source
+ * segments. Null when a source sequence is missing or nothing was read.
+ */
+export function contigComposition(
+  contig: ContigInfo,
+  sequences: Map<string, string>,
+  maxSampledBases = DEFAULT_PARAMS.maxSampledBases,
+): ContigComposition | null {
+  const segments = displaySegments(contig);
+  const total = segments.reduce((sum, seg) => sum + seg.end - seg.start, 0);
+  const stride = Math.max(SAMPLE_WINDOW, (SAMPLE_WINDOW * total) / maxSampledBases);
+  const counts = { bases: 0, gc: 0, tetra: new Float64Array(TETRA_COUNT) };
+
+  for (const seg of segments) {
+    const src = sequences.get(seg.sourceName);
+    if (src === undefined) return null;
+    const end = Math.min(seg.end, src.length);
+    for (let w = seg.start; w < end; w += stride) {
+      scanWindow(src, Math.floor(w), Math.min(end, Math.floor(w) + SAMPLE_WINDOW), counts);
+    }
+  }
+  if (counts.bases === 0) return null;
+
+  const tetraTotal = counts.tetra.reduce((a, b) => a + b, 0);
+  if (tetraTotal > 0) {
+    for (let t = 0; t < TETRA_COUNT; t++) counts.tetra[t] /= tetraTotal;
+  }
+  return { bases: counts.bases, gc: counts.gc / counts.bases, tetra: counts.tetra };
+}
+
+// ---------------------------------------------------------------------------
+// Hi-C isolation
+// ---------------------------------------------------------------------------
+
+/**
+ * Per-contig trans fraction (contacts to other contigs / all contacts) on a
+ * display-order overview: one minus HiCQualityMetrics' per-contig cis ratio,
+ * with each contig as its own unit. NaN (unknown) for contigs narrower than
+ * `minContigBins`, which cannot hold off-diagonal cis contact, and for contigs
+ * with no off-diagonal contact at all, whose ratio would otherwise read as
+ * fully trans.
+ */
+export function computeContigTransFractions(
+  matrix: Float32Array,
+  size: number,
+  ranges: ContigRange[],
+  minContigBins = DEFAULT_PARAMS.minContigBins,
+): Float32Array {
+  const units = ranges.map((_, i) => i);
+  const { perContigCisRatio } = computeHiCQuality(matrix, size, ranges, units, new Map());
+  const fractions = new Float32Array(ranges.length).fill(NaN);
+  for (let c = 0; c < ranges.length; c++) {
+    const bins = Math.min(size, ranges[c].end) - ranges[c].start;
+    if (bins >= minContigBins && c < perContigCisRatio.length && hasContacts(matrix, size, ranges[c])) {
+      fractions[c] = 1 - perContigCisRatio[c];
+    }
+  }
+  return fractions;
+}
+
+/** Whether any off-diagonal pixel in the contig's rows holds contact. */
+function hasContacts(matrix: Float32Array, size: number, range: ContigRange): boolean {
+  for (let b = range.start; b < range.end && b < size; b++) {
+    for (let j = 0; j < size; j++) {
+      if (j !== b && matrix[b * size + j] > 0) return true;
+    }
+  }
+  return false;
+}
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+/** Weighted median of `values` (ties broken toward the lower value). */
+function weightedMedian(values: number[], weights: number[]): number {
+  if (values.length === 0) return NaN;
+  const idx = values.map((_, i) => i).sort((a, b) => values[a] - values[b]);
+  const half = weights.reduce((a, b) => a + b, 0) / 2;
+  let acc = 0;
+  for (const i of idx) {
+    acc += weights[i];
+    if (acc >= half) return values[i];
+  }
+  return values[idx[idx.length - 1]];
+}
+
+/** Robust z of `value` against a weighted sample: (value - median) / (1.4826 * MAD). */
+function robustScale(values: number[], weights: number[]): { center: number; scale: number } {
+  const center = weightedMedian(values, weights);
+  const mad = weightedMedian(values.map((v) => Math.abs(v - center)), weights);
+  return { center, scale: Math.max(1.4826 * mad, 1e-9) };
+}
+
+function euclidean(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let t = 0; t < a.length; t++) sum += (a[t] - b[t]) ** 2;
+  return Math.sqrt(sum);
+}
+
+const CONFIDENCE_RANK: Record<ContaminantConfidence, number> = { high: 0, medium: 1, low: 2 };
+
+/**
+ * Screen the assembly for contamination candidates.
+ *
+ * @param contigs     the map's contigs (file order, indexed by contig ID).
+ * @param contigOrder display index -> contig ID.
+ */
+export function detectContaminants(
+  contigs: ContigInfo[],
+  contigOrder: number[],
+  opts: DetectContaminantsOptions = {},
+): ContaminationResult {
+  const p = { ...DEFAULT_PARAMS, ...opts.params };
+  const sequences = opts.sequences ?? null;
+  const transByOrder = opts.transFractionByOrder ?? null;
+  const ranges = opts.ranges ?? null;
+  const n = contigOrder.length;
+
+  // Composition of every contig long enough to score.
+  const compositions: (ContigComposition | null)[] = contigOrder.map((id) => {
+    if (!sequences || sequences.size === 0) return null;
+    const comp = contigComposition(contigs[id], sequences, p.maxSampledBases);
+    return comp && comp.bases >= p.minCompositionBases ? comp : null;
+  });
+  const scored = compositions
+    .map((comp, i) => ({ comp, i }))
+    .filter((x): x is { comp: ContigComposition; i: number } => x.comp !== null);
+  const compositionAvailable = scored.length >= 3;
+
+  const gcZ = new Float64Array(n).fill(NaN);
+  const tetraZ = new Float64Array(n).fill(NaN);
+  let assemblyGC = NaN;
+  if (compositionAvailable) {
+    const weights = scored.map((x) => x.comp.bases);
+    const gcScale = robustScale(scored.map((x) => x.comp.gc), weights);
+    assemblyGC = gcScale.center;
+
+    // Length-weighted mean tetranucleotide profile of the assembly.
+    const profile = new Float64Array(TETRA_COUNT);
+    const totalWeight = weights.reduce((a, b) => a + b, 0);
+    for (const { comp } of scored) {
+      for (let t = 0; t < TETRA_COUNT; t++) profile[t] += (comp.tetra[t] * comp.bases) / totalWeight;
+    }
+    const distances = scored.map((x) => euclidean(x.comp.tetra, profile));
+    const tetraScale = robustScale(distances, weights);
+
+    scored.forEach(({ comp, i }, k) => {
+      const deviation = Math.abs(comp.gc - gcScale.center);
+      gcZ[i] = deviation >= p.minGCDeviation ? deviation / gcScale.scale : 0;
+      tetraZ[i] = Math.max(0, (distances[k] - tetraScale.center) / tetraScale.scale);
+    });
+  }
+
+  const candidates: ContaminantCandidate[] = [];
+  for (let i = 0; i < n; i++) {
+    const id = contigOrder[i];
+    const contig = contigs[id];
+    const comp = compositions[i];
+    const transFraction = transByOrder ? transByOrder[i] ?? NaN : NaN;
+    const gcOutlier = gcZ[i] >= p.k;
+    const tetraOutlier = tetraZ[i] >= p.k;
+    const compositionOutlier = gcOutlier || tetraOutlier;
+    const isolated = transFraction <= p.maxTransFraction;
+    const noContacts = Number.isNaN(transFraction) && ranges !== null && i < ranges.length
+      && ranges[i].end - ranges[i].start >= p.minContigBins;
+    const unsupported = isolated || noContacts;
+    if (!compositionOutlier && !unsupported) continue;
+
+    const confidence: ContaminantConfidence =
+      unsupported && compositionOutlier ? 'high'
+        : unsupported || (gcOutlier && tetraOutlier) ? 'medium'
+          : 'low';
+
+    const evidence: string[] = [];
+    if (isolated) {
+      evidence.push(`isolated: ${(transFraction * 100).toFixed(1)}% of contacts reach other contigs`);
+    } else if (noContacts) {
+      evidence.push('no Hi-C contacts (isolation unknown)');
+    }
+    if (gcOutlier) {
+      evidence.push(`GC ${(comp!.gc * 100).toFixed(1)}% vs assembly ${(assemblyGC * 100).toFixed(1)}% (z ${gcZ[i].toFixed(1)})`);
+    }
+    if (tetraOutlier) {
+      evidence.push(`tetranucleotide profile outlier (z ${tetraZ[i].toFixed(1)})`);
+    }
+
+    const compositionScore = compositionOutlier ? Math.max(gcZ[i] || 0, tetraZ[i] || 0) / p.k : 0;
+    const isolationScore = isolated ? 1 - transFraction / Math.max(p.maxTransFraction, 1e-9)
+      : noContacts ? 1
+        : 0;
+
+    candidates.push({
+      orderIndex: i,
+      originalIndex: id,
+      name: contig.name,
+      length: contig.length,
+      gc: comp ? comp.gc : NaN,
+      gcZ: gcZ[i],
+      tetraZ: tetraZ[i],
+      transFraction,
+      compositionOutlier,
+      isolated,
+      noContacts,
+      confidence,
+      score: compositionScore + isolationScore,
+      evidence,
+    });
+  }
+
+  candidates.sort(
+    (a, b) => CONFIDENCE_RANK[a.confidence] - CONFIDENCE_RANK[b.confidence] || b.score - a.score,
+  );
+
+  return {
+    candidates,
+    flaggedCount: candidates.length,
+    compositionAvailable,
+    assemblyGC,
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * LoopCaller — Chromatin loop (dot) calling with HiCCUPS-style local
+ * backgrounds (Rao et al. 2014).
+ *
+ * A loop is a pixel brighter than its surroundings, not merely brighter than
+ * the genome-wide average at its distance: pixels near the diagonal, or
+ * inside a TAD, are bright for reasons that have nothing to do with a loop.
+ * Each pixel is therefore scored against two local neighbourhoods:
+ *
+ * - donut: the (2w+1)² box around the pixel, minus the (2p+1)² peak box and
+ *   the pixel's own row and column;
+ * - lower-left: the quarter of that box towards the diagonal, minus the
+ *   peak box, which catches pixels that only sit at the corner of a domain.
+ *
+ * A neighbourhood's local expected is the expected contact at the pixel's
+ * distance (computeExpectedContacts), scaled by how much the neighbourhood's
+ * observed exceeds its own distance-expected. Pixels enriched over both
+ * backgrounds are grouped into clusters, one loop call per cluster.
+ *
+ * The matrix is balanced first (ICE or Sinkhorn-Knopp), so a bin's coverage
+ * does not pass for enrichment, and bins the balancing masks are ignored.
+ * HiCCUPS tests raw counts against a Poisson model; balanced overview values
+ * are not counts, so the calls are thresholded on fold enrichment instead,
+ * following HiCCUPS's post-filter (enriched over both backgrounds, strongly
+ * over at least one).
+ *
+ * Pure algorithm — no DOM dependencies.
+ */
+
+import { computeExpectedContacts } from './CompartmentAnalysis';
+import { computeICENormalization } from './ICENormalization';
+import { computeKRNormalization } from './KRNormalization';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type LoopBalance = 'ice' | 'kr' | 'none';
+
+export interface LoopParams {
+  /** Balancing applied before calling. Default: 'ice'. */
+  balance: LoopBalance;
+  /** Peak half-width p, in bins: the box excluded from the backgrounds. Default: 1. */
+  peakWidth: number;
+  /** Window half-width w, in bins: the extent of the backgrounds. Default: 3. */
+  windowSize: number;
+  /** Closest pixel to the diagonal considered, in bins. Default: 5. */
+  minDistance: number;
+  /** Farthest pixel from the diagonal considered, in bins. Default: 64. */
+  maxDistance: number;
+  /** Fold enrichment required over both backgrounds. Default: 1.3. */
+  minEnrichment: number;
+  /** Fold enrichment required over at least one background. Default: 1.75. */
+  strongEnrichment: number;
+  /** Enriched pixels this close (Chebyshev, in bins) join one cluster. Default: 2. */
+  clusterRadius: number;
+}
+
+export interface LoopCall {
+  /** Peak pixel: upstream anchor bin (row < col). */
+  row: number;
+  /** Peak pixel: downstream anchor bin. */
+  col: number;
+  /** Balanced contact at the peak pixel. */
+  observed: number;
+  /** Donut local expected at the peak pixel. */
+  donutExpected: number;
+  /** Lower-left local expected at the peak pixel. */
+  lowerLeftExpected: number;
+  /** Fold enrichment over the higher of the two backgrounds. */
+  enrichment: number;
+  /** Enriched pixels in the cluster. */
+  clusterSize: number;
+  /** Cluster centroid, in fractional bins. */
+  centroidRow: number;
+  centroidCol: number;
+}
+
+export interface LoopResult {
+  /** Loop calls, strongest first. */
+  loops: LoopCall[];
+  /** Enriched pixels before clustering. */
+  enrichedPixels: number;
+  /** Balancing the calls were made on. */
+  balance: LoopBalance;
+  /** Bins masked by the balancing (ignored). */
+  maskedBins: number[];
+}
+
+export interface LocalBackgrounds {
+  observed: number;
+  /** NaN when the neighbourhood holds no usable pixels. */
+  donut: number;
+  lowerLeft: number;
+}
+
+const DEFAULT_PARAMS: LoopParams = {
+  balance: 'ice',
+  peakWidth: 1,
+  windowSize: 3,
+  minDistance: 5,
+  maxDistance: 64,
+  minEnrichment: 1.3,
+  strongEnrichment: 1.75,
+  clusterRadius: 2,
+};
+
+// ---------------------------------------------------------------------------
+// Local backgrounds
+// ---------------------------------------------------------------------------
+
+/**
+ * Donut and lower-left local expected for pixel (row, col), row < col.
+ * `expected` is the distance-expected of the same matrix; bins in `masked`
+ * are left out of both neighbourhoods.
+ */
+export function localBackgrounds(
+  matrix: Float32Array,
+  size: number,
+  expected: Float64Array,
+  row: number,
+  col: number,
+  peakWidth: number,
+  windowSize: number,
+  masked?: Uint8Array,
+): LocalBackgrounds {
+  const p = peakWidth;
+  const w = windowSize;
+  let donutObs = 0;
+  let donutExp = 0;
+  let llObs = 0;
+  let llExp = 0;
+
+  for (let a = row - w; a <= row + w; a++) {
+    if (a < 0 || a >= size || masked?.[a]) continue;
+    for (let b = col - w; b <= col + w; b++) {
+      if (b < 0 || b >= size || masked?.[b]) continue;
+      const inPeak = Math.abs(a - row) <= p && Math.abs(b - col) <= p;
+      if (inPeak) continue;
+      const obs = matrix[a * size + b];
+      const exp = expected[Math.abs(a - b)];
+      if (a !== row && b !== col) {
+        donutObs += obs;
+        donutExp += exp;
+      }
+      // Towards the diagonal: below the pixel and to its left.
+      if (a > row && b < col) {
+        llObs += obs;
+        llExp += exp;
+      }
+    }
+  }
+
+  const e = expected[col - row];
+  return {
+    observed: matrix[row * size + col],
+    donut: donutExp > 0 ? (donutObs / donutExp) * e : NaN,
+    lowerLeft: llExp > 0 ? (llObs / llExp) * e : NaN,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Clustering
+// ---------------------------------------------------------------------------
+
+export interface EnrichedPixel extends LocalBackgrounds {
+  row: number;
+  col: number;
+  enrichment: number;
+}
+
+/**
+ * Group enriched pixels lying within `radius` of one another (single
+ * linkage) and call one loop per group, at its most enriched pixel.
+ */
+export function clusterEnrichedPixels(pixels: EnrichedPixel[], radius: number): LoopCall[] {
+  const sorted = [...pixels].sort((a, b) => b.enrichment - a.enrichment);
+  const assigned = new Uint8Array(sorted.length);
+  const loops: LoopCall[] = [];
+
+  for (let seed = 0; seed < sorted.length; seed++) {
+    if (assigned[seed]) continue;
+    assigned[seed] = 1;
+    const members = [seed];
+    for (let m = 0; m < members.length; m++) {
+      const c = sorted[members[m]];
+      for (let k = 0; k < sorted.length; k++) {
+        if (assigned[k]) continue;
+        const o = sorted[k];
+        if (Math.abs(o.row - c.row) <= radius && Math.abs(o.col - c.col) <= radius) {
+          assigned[k] = 1;
+          members.push(k);
+        }
+      }
+    }
+
+    const peak = sorted[seed];
+    let sumRow = 0;
+    let sumCol = 0;
+    for (const m of members) {
+      sumRow += sorted[m].row;
+      sumCol += sorted[m].col;
+    }
+    loops.push({
+      row: peak.row,
+      col: peak.col,
+      observed: peak.observed,
+      donutExpected: peak.donut,
+      lowerLeftExpected: peak.lowerLeft,
+      enrichment: peak.enrichment,
+      clusterSize: members.length,
+      centroidRow: sumRow / members.length,
+      centroidCol: sumCol / members.length,
+    });
+  }
+
+  return loops;
+}
+
+// ---------------------------------------------------------------------------
+// Main entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Call loops on a contact map (row-major, symmetric). The map is balanced
+ * as `params.balance` asks before scoring.
+ */
+export function callLoops(
+  contactMap: Float32Array,
+  size: number,
+  params?: Partial<LoopParams>,
+): LoopResult {
+  const p = { ...DEFAULT_PARAMS, ...params };
+
+  let matrix = contactMap;
+  let maskedBins: number[] = [];
+  if (p.balance === 'ice') {
+    ({ normalizedMatrix: matrix, maskedBins } = computeICENormalization(contactMap, size));
+  } else if (p.balance === 'kr') {
+    ({ normalizedMatrix: matrix, maskedBins } = computeKRNormalization(contactMap, size));
+  }
+  const masked = new Uint8Array(size);
+  for (const b of maskedBins) masked[b] = 1;
+
+  const expected = computeExpectedContacts(matrix, size);
+  const minD = Math.max(1, p.minDistance);
+  const maxD = Math.min(size - 1, p.maxDistance);
+
+  // Only pixels whose whole window lies inside the map: a clipped window
+  // leaves a background of a few pixels.
+  const w = p.windowSize;
+  const enriched: EnrichedPixel[] = [];
+  for (let row = w; row < size - w; row++) {
+    if (masked[row]) continue;
+    for (let col = row + minD; col <= Math.min(size - 1 - w, row + maxD); col++) {
+      if (masked[col]) continue;
+      const bg = localBackgrounds(matrix, size, expected, row, col, p.peakWidth, p.windowSize, masked);
+      if (!(bg.observed > 0) || !(bg.donut > 0) || !(bg.lowerLeft > 0)) continue;
+      const donutRatio = bg.observed / bg.donut;
+      const llRatio = bg.observed / bg.lowerLeft;
+      if (Math.min(donutRatio, llRatio) < p.minEnrichment) continue;
+      if (Math.max(donutRatio, llRatio) < p.strongEnrichment) continue;
+      enriched.push({ ...bg, row, col, enrichment: Math.min(donutRatio, llRatio) });
+    }
+  }
+
+  return {
+    loops: clusterEnrichedPixels(enriched, p.clusterRadius),
+    enrichedPixels: enriched.length,
+    balance: p.balance,
+    maskedBins,
+  };
+}
@@ -0,0 +1,287 @@
+/**
+ * MapComparison — match two contact maps of the same genome by contig name.
+ *
+ * Used to compare the loaded (and possibly curated) map against a second
+ * .pretext file: a new Hi-C library, or a re-scaffold of an assembly that was
+ * already curated. Three pieces:
+ *
+ * - compareMaps classifies every contig of each map against the other as
+ *   missing (no contig of that name), inverted (orientations differ) and/or
+ *   moved (outside the longest run of contigs whose relative order agrees).
+ * - alignToLayout re-projects the other map's overview into this map's display
+ *   layout, bin by bin through the matched contigs, so both can be viewed at
+ *   the same camera position or subtracted.
+ * - differenceMatrix subtracts two aligned overviews after scaling each to
+ *   the same mean, for a diverging colour map.
+ *
+ * Cut and join products are matched through the file contig they came from
+ * (ContigInfo.originalIndex), so a curated map still lines up with a fresh
+ * file. A .pretext stores no orientation, so a contig counts as inverted when
+ * its `inverted` flag differs between the two maps.
+ *
+ * Pure algorithm — no side effects or state mutations.
+ */
+
+import type { ContigInfo } from '../core/State';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** One side of a comparison: a contig table and its display order. */
+export interface ComparedMap {
+  contigs: ContigInfo[];
+  contigOrder: number[];
+}
+
+export interface ContigMatch {
+  /** Position in this map's display order. */
+  orderIndex: number;
+  /** Displayed contig name. */
+  name: string;
+  /** Name of the file contig it came from (matching key). */
+  sourceName: string;
+  /** Display position of the matching contig in the other map, or -1. */
+  otherOrderIndex: number;
+  missing: boolean;
+  moved: boolean;
+  inverted: boolean;
+}
+
+export interface MapComparisonSummary {
+  matched: number;
+  moved: number;
+  inverted: number;
+  /** Contigs of this map with no counterpart in the other. */
+  missingFromOther: number;
+  /** Contigs of the other map with no counterpart in this one. */
+  missingFromThis: number;
+}
+
+export interface MapComparison {
+  /** Per display position of this map. */
+  contigs: ContigMatch[];
+  /** Per display position of the other map. */
+  otherContigs: ContigMatch[];
+  summary: MapComparisonSummary;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * The file contig a contig came from. File contigs are the prefix of the
+ * table whose originalIndex equals their own index; cut and join products
+ * are appended after it and point back via originalIndex.
+ */
+function sourceContig(contigs: ContigInfo[], contig: ContigInfo): ContigInfo {
+  const source = contigs[contig.originalIndex];
+  return source && source.originalIndex === contig.originalIndex ? source : contig;
+}
+
+/** Midpoint of a contig as a fraction [0, 1] of its source contig. */
+function sourceFraction(contigs: ContigInfo[], contig: ContigInfo): number {
+  const source = sourceContig(contigs, contig);
+  const span = source.pixelEnd - source.pixelStart;
+  if (span <= 0) return 0;
+  const mid = (contig.pixelStart + contig.pixelEnd) / 2 - source.pixelStart;
+  return Math.min(1, Math.max(0, mid / span));
+}
+
+/**
+ * Indices (into `keys`) of one longest strictly increasing subsequence,
+ * O(n log n) patience sorting.
+ */
+export function longestIncreasingRun(keys: number[]): Set<number> {
+  const tails: number[] = []; // index into keys of the smallest tail per length
+  const prev = new Int32Array(keys.length).fill(-1);
+  for (let i = 0; i < keys.length; i++) {
+    let lo = 0, hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (keys[tails[mid]] < keys[i]) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) prev[i] = tails[lo - 1];
+    tails[lo] = i;
+  }
+  const result = new Set<number>();
+  for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i >= 0; i = prev[i]) result.add(i);
+  return result;
+}
+
+/** Classify each contig of `map` against `other`. */
+function matchSide(map: ComparedMap, other: ComparedMap): ContigMatch[] {
+  // First display position of each source name in the other map.
+  const otherPos = new Map<string, number>();
+  other.contigOrder.forEach((id, pos) => {
+    const name = sourceContig(other.contigs, other.contigs[id]).name;
+    if (!otherPos.has(name)) otherPos.set(name, pos);
+  });
+
+  const matches: ContigMatch[] = map.contigOrder.map((id, orderIndex) => {
+    const contig = map.contigs[id];
+    const sourceName = sourceContig(map.contigs, contig).name;
+    const otherOrderIndex = otherPos.get(sourceName) ?? -1;
+    const inverted = otherOrderIndex >= 0 &&
+      contig.inverted !== other.contigs[other.contigOrder[otherOrderIndex]].inverted;
+    return {
+      orderIndex, name: contig.name, sourceName, otherOrderIndex,
+      missing: otherOrderIndex < 0, moved: false, inverted,
+    };
+  });
+
+  // Order agreement: sort key is the other map's position, refined by where
+  // the piece sits in its source contig (several cut products can map to one
+  // contig there). Pieces of a reversed contig run backwards through it.
+  const matched = matches.filter((m) => !m.missing);
+  const keys = matched.map((m) => {
+    const contig = map.contigs[map.contigOrder[m.orderIndex]];
+    const f = sourceFraction(map.contigs, contig);
+    return m.otherOrderIndex + 0.999 * (m.inverted ? 1 - f : f);
+  });
+  const inOrder = longestIncreasingRun(keys);
+  matched.forEach((m, i) => { m.moved = !inOrder.has(i); });
+  return matches;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/** Match contigs of `map` and `other` by name in both directions. */
+export function compareMaps(map: ComparedMap, other: ComparedMap): MapComparison {
+  const contigs = matchSide(map, other);
+  const otherContigs = matchSide(other, map);
+  return {
+    contigs,
+    otherContigs,
+    summary: {
+      matched: contigs.filter((m) => !m.missing).length,
+      moved: contigs.filter((m) => m.moved).length,
+      inverted: contigs.filter((m) => m.inverted).length,
+      missingFromOther: contigs.filter((m) => m.missing).length,
+      missingFromThis: otherContigs.filter((m) => m.missing).length,
+    },
+  };
+}
+
+/**
+ * Re-project `other`'s overview into the display layout of `map`.
+ *
+ * Each output bin is traced from its display position in `map` back to a
+ * texture position within one of its file contigs, then to the same relative position in the
+ * other map's contig of that name. Bins of contigs missing from the other map
+ * get NaN.
+ *
+ * @param otherMatrix   other map's overview in its file order, row-major.
+ * @param otherContigs  other map's contig table (pixel coordinates of its file).
+ * @param size          output dimension in bins.
+ */
+export function alignToLayout(
+  map: ComparedMap,
+  otherMatrix: Float32Array,
+  otherContigs: ContigInfo[],
+  otherTextureSize: number,
+  size: number,
+): Float32Array {
+  const otherSize = Math.round(Math.sqrt(otherMatrix.length));
+  const byName = new Map<string, ContigInfo>();
+  for (const c of otherContigs) {
+    const source = sourceContig(otherContigs, c);
+    if (!byName.has(source.name)) byName.set(source.name, source);
+  }
+
+  // File contigs of `map` by texture position. A join product spans several,
+  // so positions are resolved against these rather than the product's source.
+  const fileContigs = map.contigs
+    .filter((c, i) => c.originalIndex === i)
+    .sort((x, y) => x.pixelStart - y.pixelStart);
+  const fileContigAt = (pixel: number): ContigInfo | undefined => {
+    let lo = 0, hi = fileContigs.length - 1, found: ContigInfo | undefined;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (fileContigs[mid].pixelStart <= pixel) { found = fileContigs[mid]; lo = mid + 1; }
+      else hi = mid - 1;
+    }
+    return found;
+  };
+
+  let total = 0;
+  for (const id of map.contigOrder) total += map.contigs[id].pixelEnd - map.contigs[id].pixelStart;
+
+  // Bin in the other overview for each output bin, or -1.
+  const binMap = new Int32Array(size).fill(-1);
+  let pieceStart = 0;
+  let k = 0;
+  for (let i = 0; i < size && total > 0; i++) {
+    const p = ((i + 0.5) / size) * total;
+    while (k < map.contigOrder.length) {
+      const piece = map.contigs[map.contigOrder[k]];
+      const len = piece.pixelEnd - piece.pixelStart;
+      if (p < pieceStart + len || k === map.contigOrder.length - 1) break;
+      pieceStart += len;
+      k++;
+    }
+    const piece = map.contigs[map.contigOrder[k]];
+    const offset = p - pieceStart;
+    const filePixel = piece.inverted ? piece.pixelEnd - offset : piece.pixelStart + offset;
+    const source = fileContigAt(filePixel) ?? sourceContig(map.contigs, piece);
+    const target = byName.get(source.name);
+    const span = source.pixelEnd - source.pixelStart;
+    if (!target || span <= 0) continue;
+    const f = Math.min(1, Math.max(0, (filePixel - source.pixelStart) / span));
+    const otherPixel = target.pixelStart + f * (target.pixelEnd - target.pixelStart);
+    binMap[i] = Math.min(otherSize - 1, Math.max(0, Math.floor((otherPixel / otherTextureSize) * otherSize)));
+  }
+
+  const result = new Float32Array(size * size);
+  for (let y = 0; y < size; y++) {
+    const sy = binMap[y];
+    for (let x = 0; x < size; x++) {
+      const sx = binMap[x];
+      result[y * size + x] = sy < 0 || sx < 0 ? NaN : otherMatrix[sy * otherSize + sx];
+    }
+  }
+  return result;
+}
+
+/**
+ * Difference `b - a` of two same-size matrices, each first scaled to unit
+ * mean over the bins where both are defined, mapped to [0, 1] with 0.5 for no
+ * difference. `scale` is the absolute difference mapped to 0 or 1 (the 99th
+ * percentile, so a few extreme bins do not flatten the rest). Undefined (NaN)
+ * bins map to 0.5.
+ */
+export function differenceMatrix(a: Float32Array, b: Float32Array): { matrix: Float32Array; scale: number } {
+  let sumA = 0, sumB = 0, n = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (Number.isNaN(a[i]) || Number.isNaN(b[i])) continue;
+    sumA += a[i];
+    sumB += b[i];
+    n++;
+  }
+  const matrix = new Float32Array(a.length).fill(0.5);
+  if (n === 0 || sumA <= 0 || sumB <= 0) return { matrix, scale: 0 };
+  const ka = n / sumA, kb = n / sumB;
+
+  const diff = new Float32Array(a.length);
+  const magnitudes = new Float32Array(a.length);
+  let count = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (Number.isNaN(a[i]) || Number.isNaN(b[i])) continue;
+    // Both sides have unit mean, so anything this small is rounding noise.
+    const d = b[i] * kb - a[i] * ka;
+    diff[i] = Math.abs(d) < 1e-6 ? 0 : d;
+    if (diff[i] !== 0) magnitudes[count++] = Math.abs(diff[i]);
+  }
+  if (count === 0) return { matrix, scale: 0 };
+  const sorted = magnitudes.subarray(0, count).sort();
+  const scale = sorted[Math.min(count - 1, Math.floor(count * 0.99))];
+  for (let i = 0; i < a.length; i++) {
+    if (Number.isNaN(a[i]) || Number.isNaN(b[i])) continue;
+    matrix[i] = Math.min(1, Math.max(0, 0.5 + diff[i] / (2 * scale)));
+  }
+  return { matrix, scale };
+}
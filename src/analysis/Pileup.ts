@@ -0,0 +1,259 @@
+/**
+ * Pileup — aggregate observed/expected windows around a set of anchors.
+ *
+ * A single TAD boundary or loop is often too faint to judge on its own; the
+ * average over hundreds shows whether the set as a whole is real. Each anchor
+ * contributes the (2f+1)² window of the O/E matrix centred on it, and the
+ * windows are averaged cell by cell:
+ *
+ * - diagonal anchors (TAD boundaries, BED features) are centred on the
+ *   diagonal; a real boundary set shows two bright domain corners either
+ *   side of a depleted cross-boundary quadrant;
+ * - pair anchors (loop calls, BEDPE features) are centred off the diagonal;
+ *   a real loop set shows a bright centre pixel (aggregate peak analysis,
+ *   Rao et al. 2014).
+ *
+ * Each pileup is summarized by enrichment scores: domain / between for
+ * diagonal anchors, and peak / lower-left (APA's P2LL) and peak / mean for
+ * pair anchors. Scores near 1 mean no signal.
+ *
+ * Pure algorithm — no DOM dependencies.
+ */
+
+import type { AppState } from '../core/State';
+import type { BEDFeature, BEDPEFeature } from '../formats/BEDParser';
+import { genomeToMap } from '../core/GenomeCoordinates';
+import { computeExpectedContacts, computeOEMatrix } from './CompartmentAnalysis';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type PileupKind = 'diagonal' | 'pair';
+
+/** Centre of one window, in overview bins. Diagonal anchors have row === col. */
+export interface PileupAnchor {
+  row: number;
+  col: number;
+}
+
+export interface PileupParams {
+  /** Window half-width f, in bins. Default: 10. */
+  flank: number;
+}
+
+export interface PileupScore {
+  name: string;
+  value: number;
+}
+
+export interface PileupResult {
+  kind: PileupKind;
+  flank: number;
+  /** Window side, 2 * flank + 1. */
+  width: number;
+  /** Mean O/E window (width x width, row-major). */
+  matrix: Float32Array;
+  /** Anchors averaged. */
+  count: number;
+  /** Anchors whose window ran off the map. */
+  skipped: number;
+  scores: PileupScore[];
+}
+
+const DEFAULT_PARAMS: PileupParams = {
+  flank: 10,
+};
+
+// ---------------------------------------------------------------------------
+// Anchors
+// ---------------------------------------------------------------------------
+
+/** Diagonal anchors at the given bins (TAD boundary positions, say). */
+export function binAnchors(bins: number[]): PileupAnchor[] {
+  return bins.map((b) => ({ row: b, col: b }));
+}
+
+function toBin(pos: number, overviewSize: number): number {
+  return Math.min(overviewSize - 1, Math.floor(pos * overviewSize));
+}
+
+/**
+ * Diagonal anchors at the midpoints of BED features, in the current order.
+ * Features on contigs the map does not hold are dropped.
+ */
+export function bedAnchors(s: AppState, features: BEDFeature[], overviewSize: number): PileupAnchor[] {
+  const anchors: PileupAnchor[] = [];
+  for (const f of features) {
+    const pos = genomeToMap(s, f.chrom, (f.start + f.end) / 2);
+    if (pos === null) continue;
+    const b = toBin(pos, overviewSize);
+    anchors.push({ row: b, col: b });
+  }
+  return anchors;
+}
+
+/**
+ * Pair anchors at the midpoints of BEDPE features, in the current order,
+ * placed above the diagonal. Features on contigs the map does not hold are
+ * dropped.
+ */
+export function bedpeAnchors(s: AppState, features: BEDPEFeature[], overviewSize: number): PileupAnchor[] {
+  const anchors: PileupAnchor[] = [];
+  for (const f of features) {
+    const p1 = genomeToMap(s, f.chrom1, (f.start1 + f.end1) / 2);
+    const p2 = genomeToMap(s, f.chrom2, (f.start2 + f.end2) / 2);
+    if (p1 === null || p2 === null) continue;
+    const a = toBin(p1, overviewSize);
+    const b = toBin(p2, overviewSize);
+    anchors.push({ row: Math.min(a, b), col: Math.max(a, b) });
+  }
+  return anchors;
+}
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+/** O/E of a contact map against its own distance-expected. */
+export function observedOverExpected(contactMap: Float32Array, size: number): Float32Array {
+  return computeOEMatrix(contactMap, size, computeExpectedContacts(contactMap, size));
+}
+
+/** Mean of `matrix` (width x width) over rows r0..r1 and columns c0..c1, inclusive. */
+function blockMean(matrix: Float32Array, width: number, r0: number, r1: number, c0: number, c1: number): number {
+  let sum = 0;
+  let n = 0;
+  for (let r = r0; r <= r1; r++) {
+    for (let c = c0; c <= c1; c++) {
+      sum += matrix[r * width + c];
+      n++;
+    }
+  }
+  return n > 0 ? sum / n : NaN;
+}
+
+/**
+ * Enrichment scores of a mean window. Diagonal: the mean of the two
+ * within-domain quadrants over the cross-boundary quadrant. Pair: the centre
+ * over the lower-left corner (a quarter of the window on a side) and over the
+ * rest of the window.
+ */
+export function pileupScores(kind: PileupKind, matrix: Float32Array, flank: number): PileupScore[] {
+  const w = 2 * flank + 1;
+  if (flank < 1) return [];
+  if (kind === 'diagonal') {
+    const upstream = blockMean(matrix, w, 0, flank - 1, 0, flank - 1);
+    const downstream = blockMean(matrix, w, flank + 1, w - 1, flank + 1, w - 1);
+    const between = blockMean(matrix, w, 0, flank - 1, flank + 1, w - 1);
+    return [{ name: 'Domain / between', value: (upstream + downstream) / (2 * between) }];
+  }
+
+  const peak = matrix[flank * w + flank];
+  const corner = Math.max(1, Math.floor(w / 4));
+  const lowerLeft = blockMean(matrix, w, w - corner, w - 1, 0, corner - 1);
+  const rest = (blockMean(matrix, w, 0, w - 1, 0, w - 1) * w * w - peak) / (w * w - 1);
+  return [
+    { name: 'Peak / lower-left', value: peak / lowerLeft },
+    { name: 'Peak / mean', value: peak / rest },
+  ];
+}
+
+/**
+ * Average the O/E windows around `anchors`. `oe` is the O/E matrix (size x
+ * size, row-major); windows that would run off it are skipped.
+ */
+export function computePileup(
+  oe: Float32Array,
+  size: number,
+  anchors: PileupAnchor[],
+  kind: PileupKind,
+  params?: Partial<PileupParams>,
+): PileupResult {
+  const { flank } = { ...DEFAULT_PARAMS, ...params };
+  const w = 2 * flank + 1;
+  const sums = new Float64Array(w * w);
+  let count = 0;
+  let skipped = 0;
+
+  for (const { row, col } of anchors) {
+    if (row - flank < 0 || col - flank < 0 || row + flank >= size || col + flank >= size) {
+      skipped++;
+      continue;
+    }
+    for (let dy = 0; dy < w; dy++) {
+      const base = (row - flank + dy) * size + (col - flank);
+      for (let dx = 0; dx < w; dx++) {
+        const v = oe[base + dx];
+        if (Number.isFinite(v)) sums[dy * w + dx] += v;
+      }
+    }
+    count++;
+  }
+
+  const matrix = new Float32Array(w * w);
+  if (count > 0) {
+    for (let k = 0; k < matrix.length; k++) matrix[k] = sums[k] / count;
+  }
+
+  return {
+    kind,
+    flank,
+    width: w,
+    matrix,
+    count,
+    skipped,
+    scores: count > 0 ? pileupScores(kind, matrix, flank) : [],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+/**
+ * Map log2(O/E) to blue (depleted) - white - red (enriched), saturating at
+ * `limit`.
+ */
+function pileupColor(log2oe: number, limit: number): string {
+  const t = Math.max(-1, Math.min(1, log2oe / limit));
+  const fade = Math.round(255 * (1 - Math.abs(t)));
+  return t >= 0 ? `rgb(255,${fade},${fade})` : `rgb(${fade},${fade},255)`;
+}
+
+/**
+ * Render a pileup as an SVG heatmap of log2(O/E), with the anchor count and
+ * scores underneath. Returns an empty string for an empty pileup.
+ */
+export function renderPileupSVG(result: PileupResult, title: string): string {
+  if (result.count === 0) return '';
+
+  const { width, matrix } = result;
+  const cellSize = Math.max(3, Math.floor(180 / width));
+  const side = width * cellSize;
+  const margin = { top: 16, right: 8, bottom: 28, left: 8 };
+  const totalW = side + margin.left + margin.right;
+  const totalH = side + margin.top + margin.bottom;
+
+  let limit = 0;
+  for (let k = 0; k < matrix.length; k++) {
+    if (matrix[k] > 0) limit = Math.max(limit, Math.abs(Math.log2(matrix[k])));
+  }
+  limit = limit || 1;
+
+  let svg = `<svg viewBox="0 0 ${totalW} ${totalH}" xmlns="http://www.w3.org/2000/svg" class="pileup-svg">`;
+  svg += `<text x="${totalW / 2}" y="12" text-anchor="middle" font-size="9" fill="#a0a0b0">${title} (n=${result.count})</text>`;
+
+  for (let r = 0; r < width; r++) {
+    for (let c = 0; c < width; c++) {
+      const v = matrix[r * width + c];
+      const color = v > 0 ? pileupColor(Math.log2(v), limit) : '#303040';
+      svg += `<rect x="${margin.left + c * cellSize}" y="${margin.top + r * cellSize}" width="${cellSize}" height="${cellSize}" fill="${color}" stroke="none"/>`;
+    }
+  }
+
+  const scores = result.scores.map((s) => `${s.name}: ${s.value.toFixed(2)}`).join(', ');
+  svg += `<text x="${totalW / 2}" y="${totalH - 4}" text-anchor="middle" font-size="8" fill="#a0a0b0">${scores}</text>`;
+  svg += '</svg>';
+  return svg;
+}
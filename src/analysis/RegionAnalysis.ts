@@ -0,0 +1,251 @@
+/**
+ * RegionAnalysis — the overview analyses re-run at full resolution on the
+ * stretch of the diagonal in view.
+ *
+ * The overview analyses work on megabase bins, where small contigs and
+ * sub-megabase misjoins disappear. Here the region is rebuilt from the
+ * detail tiles instead, at the finest mip level that keeps it within
+ * REGION_MAX_BINS. The matrix is laid out in display order, while tiles are
+ * stored in file order, so each region bin is traced through the contig it
+ * falls in (orientation included) to its file-order bin. The matrix then goes
+ * through the same pure modules as the overview, and the results become
+ * tracks that cover only the region's texture pixels, so they line up with
+ * the overview tracks.
+ *
+ * Pure: tile data is fetched by the caller and passed in.
+ */
+
+import type { ContigInfo, MapData } from '../core/State';
+import type { ContigRange } from '../curation/AutoSort';
+import type { TileKey } from '../renderer/TileManager';
+import type { TrackConfig } from '../renderer/TrackRenderer';
+import { computeInsulation, insulationToTracks, type InsulationResult } from './InsulationScore';
+import { computeDirectionality, directionalityToTracks, type DIResult } from './DirectionalityIndex';
+import { computeCompartments, compartmentToTrack, type CompartmentResult } from './CompartmentAnalysis';
+import { computeJoinSupport, type JoinSupportResult } from './JoinSupport';
+import { detectMisassemblies, misassemblyToTrack, type MisassemblyResult } from './MisassemblyDetector';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Largest region, in bins per side, analyzed at once. */
+export const REGION_MAX_BINS = 1024;
+
+/** Smallest region worth analyzing, in bins per side. */
+export const REGION_MIN_BINS = 16;
+
+/** Appended to the name of every region track. */
+export const REGION_TRACK_SUFFIX = ' (region)';
+
+export interface RegionPlan {
+  /** TileManager mip level the region is read at (0 = coarsest). */
+  level: number;
+  /** Bins per tile side at that level. */
+  tileBins: number;
+  /** Texture pixels per region bin. */
+  binPixels: number;
+  /** First texture pixel of the region in display order, and one past its last. */
+  startPixel: number;
+  endPixel: number;
+  /** Region size in bins per side. */
+  size: number;
+  /** File-order bin at `level` under each region bin (-1 past the last contig). */
+  sourceBins: Int32Array;
+  /** Stored tiles (col <= row) holding the region's contacts. */
+  tiles: TileKey[];
+  /** Contigs in the region as bin ranges within it; `orderIndex` is the display index. */
+  contigRanges: ContigRange[];
+}
+
+export interface RegionAnalysisParams {
+  /** Insulation and directionality window, in region bins. */
+  windowSize: number;
+}
+
+export interface RegionAnalysisResult {
+  insulation: InsulationResult;
+  directionality: DIResult;
+  compartments: CompartmentResult;
+  /** Null with fewer than two contigs in the region. */
+  joinSupport: JoinSupportResult | null;
+  misassembly: MisassemblyResult;
+}
+
+type RegionMap = Pick<MapData, 'textureSize' | 'numMipMaps' | 'tileResolution' | 'tilesPerDimension' | 'contigs'>;
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+/**
+ * Plan the region covering map positions `from..to` (0-1, along the
+ * diagonal): the finest level at which it fits in `maxBins`, where each of
+ * its bins comes from in the file, and which tiles that needs. Null when the
+ * span is empty.
+ */
+export function planRegion(
+  map: RegionMap,
+  contigOrder: number[],
+  from: number,
+  to: number,
+  maxBins = REGION_MAX_BINS,
+): RegionPlan | null {
+  const ts = map.textureSize;
+  const fromPx = Math.max(0, Math.floor(from * ts));
+  const toPx = Math.min(ts, Math.ceil(to * ts));
+  if (toPx <= fromPx || map.numMipMaps <= 0) return null;
+
+  // Parser levels run finest (0) to coarsest; each halves the bins.
+  let parserLevel = 0;
+  const binsAt = (k: number) => Math.ceil(toPx / (1 << k)) - Math.floor(fromPx / (1 << k));
+  while (parserLevel < map.numMipMaps - 1 && binsAt(parserLevel) > maxBins) parserLevel++;
+
+  const binPixels = 1 << parserLevel;
+  const tileBins = map.tileResolution >> parserLevel;
+  const startBin = Math.floor(fromPx / binPixels);
+  const endBin = Math.ceil(toPx / binPixels);
+  const size = endBin - startBin;
+
+  // Display-order layout, in texture pixels.
+  const offsets = [0];
+  for (const id of contigOrder) {
+    const c = map.contigs[id];
+    offsets.push(offsets[offsets.length - 1] + c.pixelEnd - c.pixelStart);
+  }
+
+  // Trace each bin's center to its file-order bin.
+  const sourceBins = new Int32Array(size).fill(-1);
+  let k = 0;
+  for (let i = 0; i < size; i++) {
+    const p = (startBin + i) * binPixels + (binPixels >> 1);
+    while (k < contigOrder.length && offsets[k + 1] <= p) k++;
+    if (k >= contigOrder.length) break;
+    const c: ContigInfo = map.contigs[contigOrder[k]];
+    const within = p - offsets[k];
+    const source = c.inverted ? c.pixelEnd - 1 - within : c.pixelStart + within;
+    sourceBins[i] = Math.floor(source / binPixels);
+  }
+
+  const tileIndices = [...new Set(Array.from(sourceBins).filter((b) => b >= 0).map((b) => Math.floor(b / tileBins)))]
+    .sort((a, b) => a - b);
+  const level = map.numMipMaps - 1 - parserLevel;
+  const tiles: TileKey[] = [];
+  for (let a = 0; a < tileIndices.length; a++) {
+    for (let b = a; b < tileIndices.length; b++) {
+      tiles.push({ level, col: tileIndices[a], row: tileIndices[b] });
+    }
+  }
+
+  const contigRanges: ContigRange[] = [];
+  for (let i = 0; i < contigOrder.length; i++) {
+    const start = Math.max(0, Math.round(offsets[i] / binPixels) - startBin);
+    const end = Math.min(size, Math.round(offsets[i + 1] / binPixels) - startBin);
+    if (end > start) contigRanges.push({ start, end, orderIndex: i });
+  }
+
+  return {
+    level,
+    tileBins,
+    binPixels,
+    startPixel: startBin * binPixels,
+    endPixel: Math.min(ts, endBin * binPixels),
+    size,
+    sourceBins,
+    tiles,
+    contigRanges,
+  };
+}
+
+/**
+ * Copy one decoded tile's contacts into the region matrix (size x size,
+ * row-major, display order), both halves. `data` is the tile as TileDecoder
+ * returns it for `key`; a tile of the wrong size (missing) is skipped.
+ */
+export function fillRegionTile(plan: RegionPlan, key: TileKey, data: Float32Array, matrix: Float32Array): void {
+  const res = plan.tileBins;
+  if (data.length !== res * res) return;
+  const n = plan.size;
+  const binsIn = (tile: number): number[] => {
+    const bins: number[] = [];
+    plan.sourceBins.forEach((b, i) => {
+      if (b >= 0 && Math.floor(b / res) === tile) bins.push(i);
+    });
+    return bins;
+  };
+  const cols = binsIn(key.col);
+  const rows = key.row === key.col ? cols : binsIn(key.row);
+  for (const i of cols) {
+    const x = plan.sourceBins[i] % res;
+    for (const j of rows) {
+      const v = data[(plan.sourceBins[j] % res) * res + x];
+      matrix[j * n + i] = v;
+      matrix[i * n + j] = v;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Analysis
+// ---------------------------------------------------------------------------
+
+/**
+ * Run the overview analyses on a region matrix. `scaffoldIds` holds each
+ * region contig's scaffold, in `contigRanges` order, so joins between two
+ * assigned scaffolds are not scored.
+ */
+export function computeRegionAnalyses(
+  matrix: Float32Array,
+  size: number,
+  contigRanges: ContigRange[],
+  params: RegionAnalysisParams,
+  scaffoldIds?: Array<number | null>,
+): RegionAnalysisResult {
+  const insulation = computeInsulation(matrix, size, { windowSize: params.windowSize }, contigRanges);
+  const directionality = computeDirectionality(matrix, size, { windowSize: params.windowSize }, contigRanges);
+  const compartments = computeCompartments(matrix, size);
+  const joinSupport = contigRanges.length >= 2 && size >= 4
+    ? computeJoinSupport(matrix, size, contigRanges, undefined, scaffoldIds)
+    : null;
+  const misassembly = detectMisassemblies(insulation, compartments, contigRanges);
+  return { insulation, directionality, compartments, joinSupport, misassembly };
+}
+
+/**
+ * The results as tracks over the region's texture pixels, named after the
+ * overview tracks with REGION_TRACK_SUFFIX.
+ */
+export function regionTracks(result: RegionAnalysisResult, plan: RegionPlan, textureSize: number): TrackConfig[] {
+  const span = plan.endPixel - plan.startPixel;
+  const place = (track: TrackConfig): TrackConfig => {
+    const data = new Float32Array(textureSize);
+    data.set(track.data.subarray(0, Math.min(span, textureSize - plan.startPixel)), plan.startPixel);
+    return {
+      ...track,
+      name: track.name + REGION_TRACK_SUFFIX,
+      data,
+      range: { start: plan.startPixel, end: plan.endPixel },
+    };
+  };
+
+  const { insulationTrack, boundaryTrack } = insulationToTracks(result.insulation, plan.size, span);
+  const { diTrack, diBoundaryTrack } = directionalityToTracks(result.directionality, plan.size, span);
+  const tracks = [
+    insulationTrack,
+    boundaryTrack,
+    diTrack,
+    diBoundaryTrack,
+    compartmentToTrack(result.compartments, plan.size, span),
+    misassemblyToTrack(result.misassembly, plan.size, span),
+  ];
+
+  const weak = result.joinSupport?.junctions.filter((j) => j.flagged) ?? [];
+  if (weak.length > 0) {
+    const data = new Float32Array(span);
+    for (const j of weak) {
+      data[Math.min(span - 1, Math.round((j.binPosition / plan.size) * span))] = 1;
+    }
+    tracks.push({ name: 'Weak joins', type: 'marker', data, color: '#ff3b30', height: 14, visible: true });
+  }
+  return tracks.map(place);
+}
@@ -0,0 +1,154 @@
+/**
+ * Synteny — where the assembly's contigs sit on a related reference genome,
+ * from a PAF alignment of the contigs against it.
+ *
+ * The reference chromosomes are laid end to end in natural name order
+ * (chr1, chr2, ..., chr10, chrX), and every map pixel is given the position
+ * its sequence aligns to on that concatenated reference, as a fraction of
+ * its length. Drawn as a line track, a collinear stretch rises steadily, an
+ * inversion falls, a jump marks a change of chromosome or a rearrangement,
+ * and unaligned sequence sits at zero.
+ *
+ * Alignments are looked up through each contig's source segments, so the
+ * track stays right after cuts, joins and inversions.
+ *
+ * Pure algorithm — no DOM dependencies.
+ */
+
+import type { ContigInfo } from '../core/State';
+import type { PAFRecord } from '../formats/PAFParser';
+import type { TrackConfig } from '../renderer/TrackRenderer';
+import { displaySegments } from '../core/GenomeCoordinates';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface AlignmentFilter {
+  /** Alignments below this mapping quality are ignored. Default: 10. */
+  minMapq: number;
+  /** Alignments with a shorter block are ignored, in bp. Default: 1000. */
+  minAlignmentLength: number;
+}
+
+export interface ReferenceChromosome {
+  name: string;
+  length: number;
+  /** Start on the concatenated reference, in bp. */
+  offset: number;
+}
+
+export const DEFAULT_ALIGNMENT_FILTER: AlignmentFilter = {
+  minMapq: 10,
+  minAlignmentLength: 1000,
+};
+
+// ---------------------------------------------------------------------------
+// Reference and alignments
+// ---------------------------------------------------------------------------
+
+/** The reference chromosomes the alignment names, in natural name order. */
+export function referenceChromosomes(records: PAFRecord[]): ReferenceChromosome[] {
+  const lengths = new Map<string, number>();
+  for (const r of records) lengths.set(r.targetName, Math.max(lengths.get(r.targetName) ?? 0, r.targetLength));
+  const names = [...lengths.keys()].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  let offset = 0;
+  return names.map((name) => {
+    const chrom = { name, length: lengths.get(name)!, offset };
+    offset += chrom.length;
+    return chrom;
+  });
+}
+
+/** The alignments passing `filter`, grouped by query (source contig) name. */
+export function alignmentsByQuery(
+  records: PAFRecord[],
+  filter?: Partial<AlignmentFilter>,
+): Map<string, PAFRecord[]> {
+  const { minMapq, minAlignmentLength } = { ...DEFAULT_ALIGNMENT_FILTER, ...filter };
+  const byQuery = new Map<string, PAFRecord[]>();
+  for (const r of records) {
+    if (r.mapq < minMapq || r.blockLength < minAlignmentLength) continue;
+    let list = byQuery.get(r.queryName);
+    if (!list) byQuery.set(r.queryName, (list = []));
+    list.push(r);
+  }
+  return byQuery;
+}
+
+/** Reference position (bp on the target) that query position `q` of `r` aligns to. */
+export function targetPosition(r: PAFRecord, q: number): number {
+  const t = (q - r.queryStart) / (r.queryEnd - r.queryStart);
+  const span = r.targetEnd - r.targetStart;
+  return r.reverse ? r.targetEnd - t * span : r.targetStart + t * span;
+}
+
+// ---------------------------------------------------------------------------
+// Track
+// ---------------------------------------------------------------------------
+
+/**
+ * Per-pixel reference position in display order: a fraction of the
+ * concatenated reference, or 0 where nothing aligns. Where alignments
+ * overlap, the one with the most matches wins.
+ */
+export function syntenyTrackData(
+  contigs: ContigInfo[],
+  contigOrder: number[],
+  textureSize: number,
+  records: PAFRecord[],
+  filter?: Partial<AlignmentFilter>,
+): Float32Array {
+  const data = new Float32Array(textureSize);
+  const chromosomes = referenceChromosomes(records);
+  const total = chromosomes.reduce((sum, c) => sum + c.length, 0);
+  if (total === 0) return data;
+  const offsetOf = new Map(chromosomes.map((c) => [c.name, c.offset]));
+  const byQuery = alignmentsByQuery(records, filter);
+
+  let dest = 0;
+  for (const id of contigOrder) {
+    const c = contigs[id];
+    const pixels = c.pixelEnd - c.pixelStart;
+    const segments = displaySegments(c);
+    for (let j = 0; j < pixels && dest < textureSize; j++, dest++) {
+      // Find the source segment under this pixel's centre.
+      const bp = ((j + 0.5) / pixels) * c.length;
+      let k = 0;
+      let acc = 0;
+      while (k < segments.length - 1 && bp >= acc + segments[k].end - segments[k].start) {
+        acc += segments[k].end - segments[k].start;
+        k++;
+      }
+      const seg = segments[k];
+      const q = seg.revComp ? seg.end - (bp - acc) : seg.start + (bp - acc);
+
+      let best: PAFRecord | null = null;
+      for (const r of byQuery.get(seg.sourceName) ?? []) {
+        if (q < r.queryStart || q >= r.queryEnd) continue;
+        if (!best || r.matches > best.matches) best = r;
+      }
+      if (best) data[dest] = (offsetOf.get(best.targetName)! + targetPosition(best, q)) / total;
+    }
+  }
+  return data;
+}
+
+/** A line track of syntenyTrackData. */
+export function syntenyTrack(
+  name: string,
+  contigs: ContigInfo[],
+  contigOrder: number[],
+  textureSize: number,
+  records: PAFRecord[],
+  filter?: Partial<AlignmentFilter>,
+): TrackConfig {
+  return {
+    name,
+    type: 'line',
+    data: syntenyTrackData(contigs, contigOrder, textureSize, records, filter),
+    color: 'rgb(255, 170, 60)',
+    height: 50,
+    visible: true,
+  };
+}
@@ -18,6 +18,8 @@ export interface AppEvents {
   'curation:join': { contigIndex: number };
   'curation:undo': {};
   'curation:redo': {};
+  'curation:tag': { count: number };
+  'curation:exclude': { count: number };
   'grid:toggled': { visible: boolean };
   'tracks:toggled': { track: string; visible: boolean };
   'colormap:changed': { name: string };
@@ -29,6 +31,9 @@ export interface AppEvents {
   'metatag:updated': { count: number };
   'scaffold:changed': {};
   'telomere:detected': { hitCount: number };
+  'collab:changed': {};
+  'collab:conflict': { author: string; description: string; reason: string };
+  'branch:changed': { activeBranchId: number };
 }
 
 class EventBus {
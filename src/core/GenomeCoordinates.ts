@@ -0,0 +1,187 @@
+/**
+ * GenomeCoordinates — convert between genome positions (contig + bp) and map
+ * positions (0..1 along either axis of the contact map) in the current
+ * contig order, honouring inversions.
+ *
+ * Both axes of the map use the same order, so one conversion serves rows and
+ * columns alike. Map positions are fractions of `map.textureSize`, the same
+ * space the Camera and `contigNormRange` use.
+ *
+ * Positions can also name a source contig — one as it was loaded — after cuts
+ * and joins have replaced it: its coordinates are followed through the
+ * `sequenceSegments` of the contigs now holding it.
+ *
+ * Pure functions of an AppState; no DOM.
+ */
+
+import type { AppState, ContigInfo, SequenceSegment } from './State';
+
+/** A base-pair position on a contig, as the user names it. */
+export interface GenomePosition {
+  contig: string;
+  bp: number;
+}
+
+/** A GenomePosition resolved against the current order. */
+export interface ResolvedPosition extends GenomePosition {
+  /** Display-order index of the contig. */
+  orderIndex: number;
+}
+
+/**
+ * Parse a base-pair value: digits with optional thousands separators
+ * (`40,000,000`, `40_000_000`) and an optional unit (bp, k/kb, M/Mb, G/Gb,
+ * case-insensitive). Returns null for anything else.
+ */
+export function parseBp(text: string): number | null {
+  const m = text.trim().replace(/[,_]/g, '').match(/^([0-9]*\.?[0-9]+)\s*(bp|kb?|mb?|gb?)?$/i);
+  if (!m) return null;
+  const scale = { '': 1, bp: 1, k: 1e3, kb: 1e3, m: 1e6, mb: 1e6, g: 1e9, gb: 1e9 }[(m[2] ?? '').toLowerCase()]!;
+  return Math.round(parseFloat(m[1]) * scale);
+}
+
+/**
+ * Display-order index of the contig called `name`: an exact match, else a
+ * unique case-insensitive one. -1 when there is none.
+ */
+export function findContigByName(s: AppState, name: string): number {
+  if (!s.map) return -1;
+  const names = s.contigOrder.map((id) => s.map!.contigs[id].name);
+  const exact = names.indexOf(name);
+  if (exact >= 0) return exact;
+  const lower = name.toLowerCase();
+  const matches = names.flatMap((n, i) => (n.toLowerCase() === lower ? [i] : []));
+  return matches.length === 1 ? matches[0] : -1;
+}
+
+/**
+ * Part of a locus on the map: the stretch of the contig at `orderIndex` that
+ * holds it. `from` is the map position of the locus's start and `to` of its
+ * end, so `from > to` where the contig shows it reversed.
+ */
+export interface MapSpan {
+  orderIndex: number;
+  from: number;
+  to: number;
+}
+
+/** Map-space start of each contig in display order (fractions of textureSize), plus the end. */
+export function orderOffsets(s: AppState): number[] {
+  const map = s.map!;
+  const offsets = [0];
+  let pixels = 0;
+  for (const id of s.contigOrder) {
+    const c = map.contigs[id];
+    pixels += c.pixelEnd - c.pixelStart;
+    offsets.push(pixels / map.textureSize);
+  }
+  return offsets;
+}
+
+/**
+ * Map position of `bp` on the contig named `contig`, or null when no such
+ * contig is loaded. `bp` is clamped to the contig; an inverted contig runs
+ * right to left. A name no current contig has is looked up as a source
+ * contig (see sourceRangeToMap).
+ */
+export function genomeToMap(s: AppState, contig: string, bp: number): number | null {
+  const orderIndex = findContigByName(s, contig);
+  if (orderIndex < 0) return sourceRangeToMap(s, contig, bp, bp)[0]?.from ?? null;
+  const c = s.map!.contigs[s.contigOrder[orderIndex]];
+  const offsets = orderOffsets(s);
+  const start = offsets[orderIndex], end = offsets[orderIndex + 1];
+  let frac = c.length > 0 ? Math.max(0, Math.min(1, bp / c.length)) : 0;
+  if (c.inverted) frac = 1 - frac;
+  return start + frac * (end - start);
+}
+
+/**
+ * The contig and bp under map position `pos`, or null when no map is loaded
+ * or `pos` lies outside it.
+ */
+export function mapToGenome(s: AppState, pos: number): ResolvedPosition | null {
+  if (!s.map || s.contigOrder.length === 0) return null;
+  const offsets = orderOffsets(s);
+  const total = offsets[offsets.length - 1];
+  if (pos < 0 || pos > total) return null;
+  let orderIndex = 0;
+  while (orderIndex < s.contigOrder.length - 1 && pos >= offsets[orderIndex + 1]) orderIndex++;
+  const c = s.map.contigs[s.contigOrder[orderIndex]];
+  const span = offsets[orderIndex + 1] - offsets[orderIndex];
+  let frac = span > 0 ? (pos - offsets[orderIndex]) / span : 0;
+  if (c.inverted) frac = 1 - frac;
+  return { contig: c.name, bp: Math.round(Math.max(0, Math.min(1, frac)) * c.length), orderIndex };
+}
+
+// ---------------------------------------------------------------------------
+// Source contigs
+// ---------------------------------------------------------------------------
+
+/** A contig's sequence as display-order source segments (as CurationEngine records them). */
+export function displaySegments(c: ContigInfo): SequenceSegment[] {
+  if (c.sequenceSegments && c.sequenceSegments.length > 0) return c.sequenceSegments;
+  return [{ sourceName: c.name, start: 0, end: c.length, revComp: c.inverted }];
+}
+
+/**
+ * The source contig called `name` in the current map: an exact match, else a
+ * unique case-insensitive one. Null when no current contig holds such a source.
+ */
+export function findSourceName(s: AppState, name: string): string | null {
+  if (!s.map) return null;
+  const sources = new Set<string>();
+  for (const id of s.contigOrder) {
+    for (const seg of displaySegments(s.map.contigs[id])) sources.add(seg.sourceName);
+  }
+  if (sources.has(name)) return name;
+  const lower = name.toLowerCase();
+  const matches = [...sources].filter((n) => n.toLowerCase() === lower);
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * Where bp `start..end` of source contig `source` lies on the map: one span
+ * per current contig holding part of it, in display order. A cut leaves a
+ * range in several pieces, a join in one contig with others; an inversion
+ * reverses the span. The range is clamped to the part of the source still in
+ * the map. Empty when no current contig holds the source.
+ */
+export function sourceRangeToMap(s: AppState, source: string, start: number, end: number): MapSpan[] {
+  const name = findSourceName(s, source);
+  if (name === null) return [];
+  const map = s.map!;
+  const segments = s.contigOrder.map((id) => displaySegments(map.contigs[id]));
+
+  let lo = Infinity, hi = -Infinity;
+  for (const seg of segments.flat()) {
+    if (seg.sourceName !== name) continue;
+    lo = Math.min(lo, seg.start);
+    hi = Math.max(hi, seg.end);
+  }
+  const a = Math.max(lo, Math.min(hi, Math.min(start, end)));
+  const b = Math.max(lo, Math.min(hi, Math.max(start, end)));
+
+  const offsets = orderOffsets(s);
+  const spans: MapSpan[] = [];
+  segments.forEach((segs, orderIndex) => {
+    const c = map.contigs[s.contigOrder[orderIndex]];
+    const scale = c.length > 0 ? (offsets[orderIndex + 1] - offsets[orderIndex]) / c.length : 0;
+    /** Map position of source bp `bp` in a segment starting `acc` bp into the contig. */
+    const place = (seg: SequenceSegment, acc: number, bp: number) =>
+      offsets[orderIndex] + (acc + (seg.revComp ? seg.end - bp : bp - seg.start)) * scale;
+    let acc = 0;
+    for (const seg of segs) {
+      // A point on a boundary between two segments belongs to the first.
+      const covered = a === b ? seg.start <= a && a <= seg.end : seg.start < b && a < seg.end;
+      if (seg.sourceName === name && covered && !(a === b && spans.length > 0)) {
+        spans.push({
+          orderIndex,
+          from: place(seg, acc, Math.max(a, seg.start)),
+          to: place(seg, acc, Math.min(b, seg.end)),
+        });
+      }
+      acc += seg.end - seg.start;
+    }
+  });
+  return spans;
+}
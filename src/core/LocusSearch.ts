@@ -0,0 +1,218 @@
+/**
+ * LocusSearch — resolve what someone types into a search field to places on
+ * the map.
+ *
+ * A query is one of:
+ * - a name: contigs (fuzzy-matched, so `ptg12` finds `ptg000012l`) and
+ *   scaffolds, ranked together;
+ * - a locus, `contig:pos` or `contig:start-end` (see parseLocusSpec), where
+ *   the contig may be a source contig cuts or joins have since replaced;
+ * - a pair of either, `chr1:10Mb x chr5:3Mb`, for the off-diagonal region
+ *   with the first on the x axis and the second on the y axis.
+ *
+ * Pure functions of an AppState and the scaffold list; no DOM.
+ */
+
+import type { AppState } from './State';
+import type { Scaffold } from '../curation/ScaffoldManager';
+import { findContigByName, findSourceName, genomeToMap, orderOffsets, sourceRangeToMap } from './GenomeCoordinates';
+import { parseLocusSpec } from '../io/DeepLink';
+
+export type LocusHitKind = 'contig' | 'scaffold' | 'locus' | 'pair';
+
+/** A place a query found. x runs along columns, y along rows; x1 <= x2, y1 <= y2. */
+export interface LocusHit {
+  kind: LocusHitKind;
+  /** What the hit is, as a query that finds it again. */
+  label: string;
+  /** Names of the current contigs the hit lies on, in display order. */
+  contigs: string[];
+  /** Length of the hit in bp (the x side of a pair). 0 for a point. */
+  bp: number;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/** Results returned for one query. */
+const DEFAULT_LIMIT = 20;
+
+/** Separator between the two loci of an off-diagonal pair. */
+const PAIR_SEPARATOR = /\s+[x×]\s+/i;
+
+// ---------------------------------------------------------------------------
+// Fuzzy matching
+// ---------------------------------------------------------------------------
+
+/**
+ * Score `name` against `query`, case-insensitively: an exact match beats a
+ * prefix, a prefix beats a substring, and a substring beats the query's
+ * characters appearing in order with gaps. Within a tier, shorter names and
+ * fewer gaps score higher. Null when the name does not match at all.
+ */
+export function fuzzyScore(query: string, name: string): number | null {
+  const q = query.toLowerCase();
+  const n = name.toLowerCase();
+  if (!q) return null;
+  // Up to 99 for how much of the name the query covers.
+  const cover = Math.round((q.length / Math.max(n.length, q.length)) * 99);
+  if (n === q) return 1000;
+  if (n.startsWith(q)) return 800 + cover;
+  const at = n.indexOf(q);
+  if (at >= 0) return 600 + cover - Math.min(at, 50) / 100;
+
+  // Subsequence: count the runs the query's characters fall into.
+  let runs = 0;
+  let prev = -2;
+  let from = 0;
+  for (const ch of q) {
+    const i = n.indexOf(ch, from);
+    if (i < 0) return null;
+    if (i !== prev + 1) runs++;
+    prev = i;
+    from = i + 1;
+  }
+  return Math.max(100, 500 - (runs - 1) * 40) + cover / 10;
+}
+
+// ---------------------------------------------------------------------------
+// Resolution
+// ---------------------------------------------------------------------------
+
+function formatLocus(contig: string, start: number, end?: number): string {
+  const bp = (v: number) => v.toLocaleString('en-US');
+  return end === undefined || end === start ? `${contig}:${bp(start)}` : `${contig}:${bp(start)}-${bp(end)}`;
+}
+
+/** A hit along the diagonal: the square a 1D extent spans. */
+function diagonal(kind: LocusHitKind, label: string, contigs: string[], bp: number, lo: number, hi: number): LocusHit {
+  return { kind, label, contigs, bp, x1: lo, y1: lo, x2: hi, y2: hi };
+}
+
+/** Hits for a whole contig or scaffold named by `name`, best first. */
+function searchNames(s: AppState, scaffolds: readonly Scaffold[], name: string): LocusHit[] {
+  const map = s.map!;
+  const offsets = orderOffsets(s);
+  const scored: { score: number; hit: LocusHit }[] = [];
+
+  s.contigOrder.forEach((id, i) => {
+    const c = map.contigs[id];
+    const score = fuzzyScore(name, c.name);
+    if (score === null) return;
+    scored.push({ score, hit: diagonal('contig', c.name, [c.name], c.length, offsets[i], offsets[i + 1]) });
+  });
+
+  for (const sc of scaffolds) {
+    const score = fuzzyScore(name, sc.name);
+    if (score === null) continue;
+    const members = s.contigOrder.flatMap((id, i) => (map.contigs[id].scaffoldId === sc.id ? [i] : []));
+    if (members.length === 0) continue;
+    const first = members[0], last = members[members.length - 1];
+    const names = members.map((i) => map.contigs[s.contigOrder[i]].name);
+    const bp = members.reduce((sum, i) => sum + map.contigs[s.contigOrder[i]].length, 0);
+    scored.push({ score, hit: diagonal('scaffold', sc.name, names, bp, offsets[first], offsets[last + 1]) });
+  }
+
+  // A source contig cuts or joins have replaced, by its exact name: its pieces.
+  if (findContigByName(s, name) < 0) {
+    const spans = sourceRangeToMap(s, name, 0, Infinity);
+    if (spans.length > 0) {
+      const source = findSourceName(s, name)!;
+      const ends = spans.flatMap((sp) => [sp.from, sp.to]);
+      scored.push({
+        score: 1000,
+        hit: diagonal('contig', source, spans.map((sp) => map.contigs[s.contigOrder[sp.orderIndex]].name),
+          sourceLength(s, source), Math.min(...ends), Math.max(...ends)),
+      });
+    }
+  }
+
+  // Stable: equal scores keep display order, contigs before scaffolds.
+  return scored.sort((a, b) => b.score - a.score).map((e) => e.hit);
+}
+
+/** Length of a source contig still in the map, from its segments. */
+function sourceLength(s: AppState, source: string): number {
+  let bp = 0;
+  for (const id of s.contigOrder) {
+    for (const seg of s.map!.contigs[id].sequenceSegments ?? []) {
+      if (seg.sourceName === source) bp += seg.end - seg.start;
+    }
+  }
+  return bp;
+}
+
+/**
+ * Hits for one side of a query: a locus when it gives a position, otherwise
+ * names. A locus whose contig is not found exactly takes its coordinates to
+ * the contigs its name fuzzy-matches.
+ */
+function searchSide(s: AppState, scaffolds: readonly Scaffold[], text: string): LocusHit[] {
+  const spec = parseLocusSpec(text);
+  if (!spec) return [];
+  if (spec.start === undefined) return searchNames(s, scaffolds, spec.contig);
+  const start = spec.start;
+  const end = spec.end ?? start;
+  const map = s.map!;
+
+  // A current contig, by its own coordinates.
+  const locusOn = (name: string): LocusHit | null => {
+    const a = genomeToMap(s, name, start);
+    const b = genomeToMap(s, name, end);
+    if (a === null || b === null) return null;
+    const c = map.contigs[s.contigOrder[findContigByName(s, name)]];
+    const lo = Math.min(start, c.length), hi = Math.min(end, c.length);
+    return diagonal('locus', formatLocus(c.name, lo, spec.end === undefined ? undefined : hi), [c.name],
+      hi - lo, Math.min(a, b), Math.max(a, b));
+  };
+
+  if (findContigByName(s, spec.contig) >= 0) return [locusOn(spec.contig)!];
+
+  // A source contig: one hit per piece now holding part of the range.
+  const spans = sourceRangeToMap(s, spec.contig, start, end);
+  if (spans.length > 0) {
+    const source = findSourceName(s, spec.contig)!;
+    const offsets = orderOffsets(s);
+    return spans.map((sp) => {
+      const lo = Math.min(sp.from, sp.to), hi = Math.max(sp.from, sp.to);
+      const c = map.contigs[s.contigOrder[sp.orderIndex]];
+      const width = offsets[sp.orderIndex + 1] - offsets[sp.orderIndex];
+      const bp = width > 0 ? Math.round((c.length * (hi - lo)) / width) : 0;
+      return diagonal('locus', formatLocus(source, start, spec.end), [c.name], bp, lo, hi);
+    });
+  }
+
+  // Otherwise the position on each contig the name fuzzy-matches.
+  return searchNames(s, [], spec.contig)
+    .filter((hit) => hit.kind === 'contig' && findContigByName(s, hit.label) >= 0)
+    .map((hit) => locusOn(hit.label)!);
+}
+
+/**
+ * Resolve a query against the loaded map, best match first. Empty when no
+ * map is loaded or nothing matches.
+ */
+export function searchLoci(
+  s: AppState,
+  scaffolds: readonly Scaffold[],
+  query: string,
+  limit = DEFAULT_LIMIT,
+): LocusHit[] {
+  if (!s.map || !query.trim()) return [];
+  const sides = query.split(PAIR_SEPARATOR);
+  if (sides.length !== 2) return searchSide(s, scaffolds, query).slice(0, limit);
+
+  // A pair takes the best hit on each side.
+  const [x] = searchSide(s, scaffolds, sides[0]);
+  const [y] = searchSide(s, scaffolds, sides[1]);
+  if (!x || !y) return [];
+  return [{
+    kind: 'pair',
+    label: `${x.label} x ${y.label}`,
+    contigs: [...x.contigs, ...y.contigs.filter((n) => !x.contigs.includes(n))],
+    bp: x.bp,
+    x1: x.x1, x2: x.x2,
+    y1: y.y1, y2: y.y2,
+  }];
+}
@@ -83,12 +83,16 @@ export interface ContigInfo {
 }
 
 export interface CurationOperation {
-  type: 'cut' | 'invert' | 'move' | 'join' | 'scaffold_paint' | 'scaffold_create' | 'scaffold_delete' | 'scaffold_bulk';
+  type: 'cut' | 'invert' | 'move' | 'join' | 'scaffold_paint' | 'scaffold_create' | 'scaffold_delete' | 'scaffold_bulk' | 'meta_tag' | 'exclude';
   timestamp: number;
   description: string;
   // Operation-specific data for undo
   data: Record<string, any>;
   batchId?: string;
+  /** Curator who made the operation (set while an author context is active). */
+  author?: string;
+  /** Stable id shared by every peer's copy of the operation in a collaborative session. */
+  opId?: string;
 }
 
 export interface MapData {
@@ -151,6 +155,12 @@ export interface AppState {
    *              detail layer; sparse inter-contig contacts are shown honestly
    *              at every zoom and in the minimap (detail gate disabled). */
   overviewMode: 'clean' | 'faithful';
+  /** Coordinate rulers along the map's top and left edges.
+   *  'contig'  — each contig in its own bp, running backwards when inverted.
+   *  'scaffold'— cumulative bp within each AGP object, as the AGP export
+   *              numbers it (gaps included).
+   *  'off'     — no rulers. */
+  rulerFrame: 'contig' | 'scaffold' | 'off';
 
   // Selection
   selectedContigs: Set<number>;
@@ -181,6 +191,7 @@ function createInitialState(): AppState {
     signalFloor: 0,
     signalCeil: 1,
     overviewMode: 'clean',
+    rulerFrame: 'contig',
     selectedContigs: new Set(),
     camera: { x: 0, y: 0, zoom: 1 },
     undoStack: [],
@@ -200,6 +211,9 @@ class StateManager {
   private selectors: Map<number, SelectorEntry> = new Map();
   private nextSelectorId = 0;
   private batchContext: { batchId: string; metadata?: Record<string, any> } | null = null;
+  private authorContext: { author: string; opId?: string } | null = null;
+  private operationListeners: Set<(op: CurationOperation) => void> = new Set();
+  private nextOpSeq = 0;
   /** Operations dropped from the front of the undo stack this session. */
   private undoDropped = 0;
   /** Nesting depth of open atomic actions; trimming is suspended while > 0. */
@@ -282,6 +296,16 @@ class StateManager {
         data: { ...op.data, ...this.batchContext.metadata },
       };
     }
+    // Redo re-pushes an operation that already carries its author and id;
+    // only fresh operations are stamped.
+    if (this.authorContext && finalOp.opId === undefined) {
+      finalOp = {
+        ...finalOp,
+        author: this.authorContext.author,
+        opId: this.authorContext.opId
+          ?? `${this.authorContext.author}-${Date.now().toString(36)}-${this.nextOpSeq++}`,
+      };
+    }
     const grownUndoStack = [...this.state.undoStack, finalOp];
     this.state = {
       ...this.state,
@@ -289,6 +313,7 @@ class StateManager {
       redoStack: [],
     };
     this.notify();
+    this.operationListeners.forEach(l => l(finalOp));
   }
 
   /**
@@ -364,6 +389,22 @@ class StateManager {
     return this.undoDropped;
   }
 
+  /**
+   * Replace the undo and redo stacks wholesale, e.g. with the history stored
+   * in a saved session. The operations must refer to the contig ids of the
+   * current contig table. Resets the dropped count, so marks taken before
+   * this call are no longer meaningful.
+   */
+  restoreHistory(undoStack: CurationOperation[], redoStack: CurationOperation[]): void {
+    this.undoDropped = 0;
+    this.state = {
+      ...this.state,
+      undoStack: this.trimUndoStack([...undoStack]),
+      redoStack: [...redoStack],
+    };
+    this.notify();
+  }
+
   /**
    * Set batch context so that subsequent pushOperation calls
    * auto-merge batchId and metadata into new operations.
@@ -379,6 +420,39 @@ class StateManager {
     this.batchContext = null;
   }
 
+  /**
+   * Set author context so that subsequent pushOperation calls stamp
+   * `author` and an `opId` onto new operations. Pass `opId` to reuse an id
+   * that was assigned elsewhere (an operation received from a peer); it then
+   * applies to every push until the context changes, so set it per operation.
+   */
+  setAuthorContext(author: string, opId?: string): void {
+    this.authorContext = { author, opId };
+  }
+
+  /** The active author context, or null. */
+  getAuthorContext(): { author: string; opId?: string } | null {
+    return this.authorContext;
+  }
+
+  /**
+   * Clear the author context.
+   */
+  clearAuthorContext(): void {
+    this.authorContext = null;
+  }
+
+  /**
+   * Listen for operations as they are pushed (after the batch and author
+   * context have been applied and subscribers notified). Redo re-pushes an
+   * existing operation, so a listener sees the same `opId` again. Returns an
+   * unsubscribe function.
+   */
+  onOperation(listener: (op: CurationOperation) => void): () => void {
+    this.operationListeners.add(listener);
+    return () => { this.operationListeners.delete(listener); };
+  }
+
   /**
    * Stamp the trailing undo-stack operations (from mark `fromMark` to the end)
    * with a shared batchId, so a multi-op action such as a script undoes as one
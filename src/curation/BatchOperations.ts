@@ -15,7 +15,9 @@ import { state } from '../core/State';
 import type { ContigInfo } from '../core/State';
 import { autoCut, type AutoCutParams } from './AutoCut';
 import { autoSort, autoSortCore, type AutoSortParams } from './AutoSort';
+import { referenceGuidedSort, type ReferenceSortParams } from './ReferenceSort';
 import type { ScaffoldManager } from './ScaffoldManager';
+import type { PAFRecord } from '../formats/PAFParser';
 
 export interface BatchResult {
   operationsPerformed: number;
@@ -346,6 +348,58 @@ export function autoCutContigs(params?: Partial<AutoCutParams>): BatchResult {
   }
 }
 
+/**
+ * Apply a proposed order: inversions first (where the proposed orientation
+ * differs from the current one), then moves via selection sort. Entries
+ * index `originalOrder`, the order the proposal was computed on; contigs
+ * not in the proposal keep their relative order after it.
+ *
+ * @returns The number of operations performed.
+ */
+function applyProposedOrder(
+  proposedOrder: Array<{ orderIndex: number; inverted: boolean }>,
+  originalOrder: number[],
+  contigs: ContigInfo[],
+): number {
+  let opCount = 0;
+
+  // Phase 1: Apply inversions where proposed differs from current
+  for (const entry of proposedOrder) {
+    const contigId = originalOrder[entry.orderIndex];
+    const contig = contigs[contigId];
+    if (entry.inverted !== contig.inverted) {
+      // Find the current position of this contig in the live order
+      const currentOrder = state.get().contigOrder;
+      const currentIdx = currentOrder.indexOf(contigId);
+      if (currentIdx >= 0) {
+        CurationEngine.invert(currentIdx);
+        opCount++;
+      }
+    }
+  }
+
+  // Phase 2: Apply reordering via selection sort (same pattern as sortByLength)
+  // Build the desired contig ID order
+  const desiredOrder = proposedOrder.map(entry => originalOrder[entry.orderIndex]);
+  const working = [...state.get().contigOrder];
+  const n = working.length;
+
+  for (let i = 0; i < n; i++) {
+    const desired = desiredOrder[i];
+    if (desired === undefined) continue;
+    const currentPos = working.indexOf(desired);
+
+    if (currentPos !== i && currentPos >= 0) {
+      CurationEngine.move(currentPos, i);
+      working.splice(currentPos, 1);
+      working.splice(i, 0, desired);
+      opCount++;
+    }
+  }
+
+  return opCount;
+}
+
 /**
  * Auto sort: reorder contigs using Hi-C link scoring and Union Find
  * chaining. Applies inversions first (where proposed orientation
@@ -393,41 +447,7 @@ export function autoSortContigs(params?: Partial<AutoSortParams>): BatchResult {
       return { operationsPerformed: 0, description: 'Auto sort produced no ordering' };
     }
 
-    let opCount = 0;
-
-    // Phase 1: Apply inversions where proposed differs from current
-    for (const entry of proposedOrder) {
-      const contigId = s.contigOrder[entry.orderIndex];
-      const contig = map.contigs[contigId];
-      if (entry.inverted !== contig.inverted) {
-        // Find the current position of this contig in the live order
-        const currentOrder = state.get().contigOrder;
-        const currentIdx = currentOrder.indexOf(contigId);
-        if (currentIdx >= 0) {
-          CurationEngine.invert(currentIdx);
-          opCount++;
-        }
-      }
-    }
-
-    // Phase 2: Apply reordering via selection sort (same pattern as sortByLength)
-    // Build the desired contig ID order
-    const desiredOrder = proposedOrder.map(entry => s.contigOrder[entry.orderIndex]);
-    const working = [...state.get().contigOrder];
-    const n = working.length;
-
-    for (let i = 0; i < n; i++) {
-      const desired = desiredOrder[i];
-      if (desired === undefined) continue;
-      const currentPos = working.indexOf(desired);
-
-      if (currentPos !== i && currentPos >= 0) {
-        CurationEngine.move(currentPos, i);
-        working.splice(currentPos, 1);
-        working.splice(i, 0, desired);
-        opCount++;
-      }
-    }
+    const opCount = applyProposedOrder(proposedOrder, s.contigOrder, map.contigs);
 
     return {
       operationsPerformed: opCount,
@@ -586,3 +606,66 @@ export function scaffoldAwareAutoSort(
     state.clearBatchContext();
   }
 }
+
+/**
+ * Reference-guided sort: order and orient contigs by their placement on a
+ * related reference genome (see ReferenceSort), then replace the scaffolds
+ * with one per reference chromosome, named after it. Hi-C link scores
+ * overrule the reference where they clearly disagree (unless
+ * `params.hicOverrule` is false). Unplaced contigs follow, unscaffolded.
+ *
+ * All operations, scaffolds included, share one batch id.
+ *
+ * @param records - PAF alignments of the contigs against the reference.
+ * @param params - Algorithm parameters (optional, uses defaults).
+ * @returns A BatchResult describing how many operations were performed.
+ */
+export function referenceSortContigs(
+  scaffoldManager: ScaffoldManager,
+  records: PAFRecord[],
+  params?: Partial<ReferenceSortParams>,
+): BatchResult {
+  const s = state.get();
+  if (!s.map) {
+    return { operationsPerformed: 0, description: 'No map loaded' };
+  }
+
+  const map = s.map;
+  const hic = map.contactMap
+    ? { contactMap: map.contactMap, size: Math.round(Math.sqrt(map.contactMap.length)), textureSize: map.textureSize }
+    : undefined;
+  const result = referenceGuidedSort(map.contigs, s.contigOrder, records, hic, params);
+  if (result.scaffolds.length === 0) {
+    return { operationsPerformed: 0, description: 'No contigs placed on the reference' };
+  }
+
+  const batchId = 'refsort-' + Date.now();
+  state.setBatchContext(batchId, { algorithm: 'reference-sort', algorithmParams: { ...params } });
+  try {
+    const proposedOrder = [...result.scaffolds.flatMap((sc) => sc.entries), ...result.unplaced];
+    let opCount = applyProposedOrder(proposedOrder, s.contigOrder, map.contigs);
+
+    // Scaffolds last: paintContigs resolves contig ids through the new order.
+    const position = new Map(state.get().contigOrder.map((id, i) => [id, i]));
+    scaffoldManager.bulkOperation('Reference-guided scaffolds', () => {
+      scaffoldManager.resetScaffolds();
+      for (const sc of result.scaffolds) {
+        const id = scaffoldManager.createScaffold(sc.name, { record: false });
+        const orderIndices = sc.entries.map((e) => position.get(s.contigOrder[e.orderIndex])!);
+        scaffoldManager.paintContigs(orderIndices, id, { record: false });
+      }
+    });
+    opCount++;
+
+    const placed = proposedOrder.length - result.unplaced.length;
+    const flips = result.overrules.filter((o) => o.kind === 'orientation').length;
+    const splits = result.overrules.length - flips;
+    let description = `Reference sort: ${placed} contig(s) on ${result.scaffolds.length} scaffold(s), ${result.unplaced.length} unplaced`;
+    if (result.overrules.length > 0) {
+      description += `; Hi-C overruled ${flips} orientation(s) and ${splits} junction(s)`;
+    }
+    return { operationsPerformed: opCount, description, batchId };
+  } finally {
+    state.clearBatchContext();
+  }
+}
@@ -0,0 +1,364 @@
+/**
+ * BranchManager - Named branches and checkpoints of a curation.
+ *
+ * The undo stack is linear: a new operation clears the redo stack, so trying
+ * two arrangements of a difficult region means losing one of them. Branches
+ * sit on top of StateManager and keep several complete curation states side
+ * by side. A state is everything that differs between arrangements of the same
+ * map: the contig table (cut/join products included), the contig order, the
+ * scaffold set, meta tags and exclusions, and the undo/redo stacks.
+ *
+ * - The active branch's state is the live application state. The others keep
+ *   the state they had when the user last switched away from them.
+ * - A checkpoint is a named snapshot of a branch's state at one moment.
+ * - Forking creates a new branch from the current state or from a checkpoint
+ *   and switches to it. To fork from an earlier point in the history, undo to
+ *   it first; the original branch keeps its redo stack, so nothing is lost.
+ *
+ * Branch and checkpoint ids are small integers, unique per map load.
+ * Persisted in the session file through exportBranches()/importBranches().
+ */
+
+import { state } from '../core/State';
+import type { ContigInfo, CurationOperation } from '../core/State';
+import { events } from '../core/EventBus';
+import type { ScaffoldManager, Scaffold } from './ScaffoldManager';
+import { metaTags, type MetaTagInfo } from './MetaTagManager';
+import { contigExclusion } from './ContigExclusion';
+import {
+  toSessionContigs,
+  exportSessionAnnotations,
+  encodeSessionHistory,
+  decodeSessionHistory,
+  type SessionBranches,
+  type SessionBranchState,
+} from '../io/SessionManager';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A complete curation state of the loaded map. */
+export interface CurationSnapshot {
+  contigs: ContigInfo[];
+  contigOrder: number[];
+  scaffolds: Scaffold[];
+  /** Meta tags and exclusions, keyed by contig ID. */
+  metaTags: Map<number, MetaTagInfo>;
+  excluded: Set<number>;
+  undoStack: CurationOperation[];
+  redoStack: CurationOperation[];
+}
+
+export interface Branch {
+  id: number;
+  name: string;
+  /** Branch this one was forked from (null for the first branch). */
+  parentId: number | null;
+  createdAt: number;
+  /** Name of the checkpoint the branch was forked from, if any. */
+  forkedFrom: string | null;
+}
+
+export interface Checkpoint {
+  id: number;
+  name: string;
+  branchId: number;
+  createdAt: number;
+  /** Operations on the undo stack when the checkpoint was taken. */
+  operationCount: number;
+}
+
+/** Name of the branch every map load starts on. */
+export const DEFAULT_BRANCH_NAME = 'main';
+
+// ---------------------------------------------------------------------------
+// BranchManager
+// ---------------------------------------------------------------------------
+
+export class BranchManager {
+  private scaffoldManager: ScaffoldManager;
+  private branches: Map<number, Branch> = new Map();
+  /** Saved state of every inactive branch. */
+  private heads: Map<number, CurationSnapshot> = new Map();
+  private checkpoints: Map<number, Checkpoint> = new Map();
+  private checkpointStates: Map<number, CurationSnapshot> = new Map();
+  private activeId = 1;
+  private nextBranchId = 2;
+  private nextCheckpointId = 1;
+
+  constructor(scaffoldManager: ScaffoldManager) {
+    this.scaffoldManager = scaffoldManager;
+    this.branches.set(1, { id: 1, name: DEFAULT_BRANCH_NAME, parentId: null, createdAt: Date.now(), forkedFrom: null });
+  }
+
+  // -----------------------------------------------------------------------
+  // Queries
+  // -----------------------------------------------------------------------
+
+  /** All branches, in creation order. */
+  getBranches(): Branch[] {
+    return [...this.branches.values()].sort((a, b) => a.id - b.id);
+  }
+
+  getBranch(id: number): Branch | undefined {
+    return this.branches.get(id);
+  }
+
+  getActiveBranch(): Branch {
+    return this.branches.get(this.activeId)!;
+  }
+
+  /** Checkpoints, oldest first, optionally only those of one branch. */
+  getCheckpoints(branchId?: number): Checkpoint[] {
+    return [...this.checkpoints.values()]
+      .filter(c => branchId === undefined || c.branchId === branchId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * The current state of a branch (the live state for the active one), or of
+   * a checkpoint with `{ checkpointId }`. Undefined for an unknown id.
+   */
+  getSnapshot(branchId: number): CurationSnapshot | undefined;
+  getSnapshot(ref: { checkpointId: number }): CurationSnapshot | undefined;
+  getSnapshot(ref: number | { checkpointId: number }): CurationSnapshot | undefined {
+    if (typeof ref !== 'number') return this.checkpointStates.get(ref.checkpointId);
+    if (ref === this.activeId) return this.captureLive();
+    return this.heads.get(ref);
+  }
+
+  // -----------------------------------------------------------------------
+  // Checkpoints
+  // -----------------------------------------------------------------------
+
+  /** Save the current state of the active branch under `name`. */
+  createCheckpoint(name?: string): Checkpoint {
+    const id = this.nextCheckpointId++;
+    const snapshot = this.captureLive();
+    const checkpoint: Checkpoint = {
+      id,
+      name: name?.trim() || `Checkpoint ${id}`,
+      branchId: this.activeId,
+      createdAt: Date.now(),
+      operationCount: snapshot.undoStack.length,
+    };
+    this.checkpoints.set(id, checkpoint);
+    this.checkpointStates.set(id, snapshot);
+    this.changed();
+    return checkpoint;
+  }
+
+  deleteCheckpoint(id: number): void {
+    if (this.checkpoints.delete(id)) {
+      this.checkpointStates.delete(id);
+      this.changed();
+    }
+  }
+
+  // -----------------------------------------------------------------------
+  // Branches
+  // -----------------------------------------------------------------------
+
+  /**
+   * Create a branch from the current state, or from a checkpoint, and switch
+   * to it.
+   *
+   * @throws Error if the checkpoint does not exist or no map is loaded.
+   */
+  fork(name?: string, options?: { checkpointId?: number }): Branch {
+    requireMap();
+    let start: CurationSnapshot;
+    let forkedFrom: string | null = null;
+    if (options?.checkpointId !== undefined) {
+      const checkpoint = this.checkpoints.get(options.checkpointId);
+      if (!checkpoint) throw new Error(`No checkpoint with id ${options.checkpointId}`);
+      start = this.checkpointStates.get(checkpoint.id)!;
+      forkedFrom = checkpoint.name;
+    } else {
+      start = this.captureLive();
+    }
+
+    const id = this.nextBranchId++;
+    const branch: Branch = {
+      id,
+      name: name?.trim() || `Branch ${id}`,
+      parentId: this.activeId,
+      createdAt: Date.now(),
+      forkedFrom,
+    };
+    this.branches.set(id, branch);
+    this.heads.set(id, start);
+    this.switchTo(id);
+    return branch;
+  }
+
+  /**
+   * Make `id` the active branch: save the live state as the current branch's
+   * head and load the target's. No-op if it is already active.
+   *
+   * @throws Error if the branch does not exist or no map is loaded.
+   */
+  switchTo(id: number): void {
+    const target = this.heads.get(id);
+    if (!this.branches.has(id)) throw new Error(`No branch with id ${id}`);
+    if (id === this.activeId) return;
+    requireMap();
+    this.heads.set(this.activeId, this.captureLive());
+    this.heads.delete(id);
+    this.activeId = id;
+    this.applyLive(target!);
+    this.changed();
+  }
+
+  renameBranch(id: number, name: string): void {
+    const branch = this.branches.get(id);
+    const trimmed = name.trim();
+    if (!branch || !trimmed) return;
+    branch.name = trimmed;
+    this.changed();
+  }
+
+  /**
+   * Delete an inactive branch and its checkpoints. Branches forked from it
+   * are re-parented to its parent.
+   *
+   * @throws Error if `id` is the active branch.
+   */
+  deleteBranch(id: number): void {
+    const branch = this.branches.get(id);
+    if (!branch) return;
+    if (id === this.activeId) throw new Error('Cannot delete the active branch; switch to another first');
+    this.branches.delete(id);
+    this.heads.delete(id);
+    for (const other of this.branches.values()) {
+      if (other.parentId === id) other.parentId = branch.parentId;
+    }
+    for (const c of this.getCheckpoints(id)) this.deleteCheckpoint(c.id);
+    this.changed();
+  }
+
+  /** Forget all branches and checkpoints; the live state becomes `main`. */
+  reset(): void {
+    this.branches.clear();
+    this.heads.clear();
+    this.checkpoints.clear();
+    this.checkpointStates.clear();
+    this.branches.set(1, { id: 1, name: DEFAULT_BRANCH_NAME, parentId: null, createdAt: Date.now(), forkedFrom: null });
+    this.activeId = 1;
+    this.nextBranchId = 2;
+    this.nextCheckpointId = 1;
+    this.changed();
+  }
+
+  /** True when there is more than the initial branch or any checkpoint. */
+  hasBranchData(): boolean {
+    return this.branches.size > 1 || this.checkpoints.size > 0;
+  }
+
+  // -----------------------------------------------------------------------
+  // Persistence
+  // -----------------------------------------------------------------------
+
+  /** Branches and checkpoints in session form. The active branch stores no state. */
+  exportBranches(): SessionBranches {
+    return {
+      activeBranchId: this.activeId,
+      branches: this.getBranches().map(b => {
+        const head = this.heads.get(b.id);
+        return head ? { ...b, state: encodeState(head) } : { ...b };
+      }),
+      checkpoints: this.getCheckpoints().map(c => ({ ...c, state: encodeState(this.checkpointStates.get(c.id)!) })),
+    };
+  }
+
+  /**
+   * Replace all branches and checkpoints with ones from a session. The live
+   * state is taken to be the stored active branch's (the caller restores it
+   * from the session first).
+   */
+  importBranches(data: SessionBranches): void {
+    this.branches.clear();
+    this.heads.clear();
+    this.checkpoints.clear();
+    this.checkpointStates.clear();
+    for (const b of data.branches) {
+      this.branches.set(b.id, { id: b.id, name: b.name, parentId: b.parentId, createdAt: b.createdAt, forkedFrom: b.forkedFrom });
+      if (b.state && b.id !== data.activeBranchId) this.heads.set(b.id, decodeState(b.state));
+    }
+    for (const c of data.checkpoints) {
+      this.checkpoints.set(c.id, {
+        id: c.id, name: c.name, branchId: c.branchId, createdAt: c.createdAt, operationCount: c.operationCount,
+      });
+      this.checkpointStates.set(c.id, decodeState(c.state));
+    }
+    this.activeId = data.activeBranchId;
+    this.nextBranchId = Math.max(0, ...this.branches.keys()) + 1;
+    this.nextCheckpointId = Math.max(0, ...this.checkpoints.keys()) + 1;
+    this.changed();
+  }
+
+  // -----------------------------------------------------------------------
+  // Internal helpers
+  // -----------------------------------------------------------------------
+
+  private captureLive(): CurationSnapshot {
+    const s = state.get();
+    return {
+      contigs: s.map ? s.map.contigs.map(c => ({ ...c })) : [],
+      contigOrder: [...s.contigOrder],
+      scaffolds: this.scaffoldManager.getAllScaffolds().map(sc => ({ ...sc })),
+      metaTags: new Map([...metaTags.getAllTags()].map(([id, info]) => [id, { ...info }])),
+      excluded: contigExclusion.getExcluded(),
+      undoStack: [...s.undoStack],
+      redoStack: [...s.redoStack],
+    };
+  }
+
+  private applyLive(snapshot: CurationSnapshot): void {
+    const map = state.get().map!;
+    state.update({
+      map: { ...map, contigs: snapshot.contigs.map(c => ({ ...c })) },
+      contigOrder: [...snapshot.contigOrder],
+    });
+    this.scaffoldManager.restoreScaffolds(snapshot.scaffolds);
+    metaTags.clearAll();
+    for (const [id, info] of snapshot.metaTags) metaTags.setTag(id, info.tag, info.notes);
+    contigExclusion.clearAll();
+    contigExclusion.excludeMany([...snapshot.excluded]);
+    state.restoreHistory(snapshot.undoStack, snapshot.redoStack);
+  }
+
+  private changed(): void {
+    events.emit('branch:changed', { activeBranchId: this.activeId });
+  }
+}
+
+function requireMap(): void {
+  if (!state.get().map) throw new Error('No map loaded');
+}
+
+function encodeState(snapshot: CurationSnapshot): SessionBranchState {
+  const annotations = exportSessionAnnotations(snapshot.metaTags, snapshot.excluded);
+  return {
+    contigs: toSessionContigs(snapshot.contigs),
+    contigOrder: [...snapshot.contigOrder],
+    scaffolds: snapshot.scaffolds.map(sc => ({ id: sc.id, name: sc.name, color: sc.color })),
+    ...(annotations ? { annotations } : {}),
+    history: encodeSessionHistory(snapshot.undoStack, snapshot.redoStack),
+  };
+}
+
+function decodeState(stored: SessionBranchState): CurationSnapshot {
+  const history = decodeSessionHistory(stored)!;
+  return {
+    contigs: stored.contigs.map(c => ({ ...c })),
+    contigOrder: [...stored.contigOrder],
+    scaffolds: stored.scaffolds.map(sc => ({ ...sc })),
+    metaTags: new Map((stored.annotations?.metaTags ?? []).map(t =>
+      [t.contigId, t.notes !== undefined ? { tag: t.tag, notes: t.notes } : { tag: t.tag }])),
+    excluded: new Set(stored.annotations?.excluded ?? []),
+    undoStack: history.undoStack,
+    redoStack: history.redoStack,
+  };
+}
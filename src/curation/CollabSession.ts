@@ -0,0 +1,642 @@
+/**
+ * CollabSession - several curators working on the same map at once.
+ *
+ * Every peer loads the same contact map and joins a room on a CollabTransport.
+ * From then on:
+ *
+ * - Each operation this peer pushes onto the undo stack is stamped with the
+ *   curator's name and an opId (StateManager author context), translated into
+ *   a name-based CollabIntent, and broadcast together with a hash of the
+ *   contigOrder it was made against.
+ * - A peer receiving an operation compares that hash with its own order. When
+ *   they match the operation applies exactly as it did for its author. When
+ *   they differ, someone else's operation got there first, and the intent is
+ *   rebased: it applies only if everything it names still resolves (the
+ *   contig is still in the order, a join's two contigs are still adjacent, an
+ *   invert has not already happened) and its positional parts still mean the
+ *   same thing (a cut or join sees the orientations its author saw, a move
+ *   lands between the same two neighbours). Otherwise it is rejected as a
+ *   conflict. Conflicts are reported locally and sent back so the author can
+ *   see them.
+ * - Applied remote operations land on the local undo stack under their
+ *   author's name and the shared opId. Undo and redo are broadcast by opId and
+ *   replayed by a peer only while that operation is at the top of its own undo
+ *   (or redo) stack, since the engine restores whole snapshots.
+ * - Presence (pointer position, selected contigs and order hash) is exchanged
+ *   so each peer can draw the others on the map and see who has diverged.
+ *
+ * Meta tags and exclusions are shared like the rest. Bulk scaffold changes
+ * (auto-assign, AGP import) are not shared.
+ */
+
+import { state, type CurationOperation } from '../core/State';
+import { events } from '../core/EventBus';
+import { CurationEngine } from './CurationEngine';
+import { contigExclusion } from './ContigExclusion';
+import type { MetaTagInfo } from './MetaTagManager';
+import type { ScaffoldManager } from './ScaffoldManager';
+import type {
+  CollabIntent,
+  CollabMessage,
+  CollabTransport,
+  PeerPresence,
+  SharedOperation,
+  TransportStatus,
+} from '../io/CollabTransport';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface CollabSessionOptions {
+  transport: CollabTransport;
+  /** Curator name, shown to peers and stamped on this peer's operations. */
+  name: string;
+  /** Colour for this peer's cursor and selection. Default: picked from the id. */
+  color?: string;
+  /** Needed to share scaffold create/paint/delete operations. */
+  scaffoldManager?: ScaffoldManager | null;
+  /** Called when peers, presence, status or conflicts change. */
+  onChange?: () => void;
+}
+
+/** An operation that could not be applied on some peer. */
+export interface CollabConflict {
+  opId: string;
+  author: string;
+  description: string;
+  reason: string;
+  /** Name of the peer that rejected it (this peer's own name if local). */
+  rejectedBy: string;
+  timestamp: number;
+}
+
+const PEER_COLORS = ['#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#42d4f4', '#f032e6', '#bfef45'];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Hash of a contig order by contig name and orientation (FNV-1a, 32-bit, hex).
+ * Two peers with the same hash have the same contigs in the same order and
+ * orientation, whatever their contigs arrays look like. `flipped` is a contig
+ * whose orientation is read reversed, to hash the order as it was before that
+ * contig was inverted.
+ */
+export function orderHash(order: number[] = state.get().contigOrder, flipped: number | null = null): string {
+  const map = state.get().map;
+  let h = 0x811c9dc5;
+  for (const id of order) {
+    const contig = map?.contigs[id];
+    const inverted = (contig?.inverted ?? false) !== (id === flipped);
+    const name = (contig?.name ?? `#${id}`) + (inverted ? '-' : '');
+    for (let i = 0; i < name.length; i++) {
+      h ^= name.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    h ^= 0x0a;
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+function colorForPeer(peerId: string): string {
+  let h = 0;
+  for (let i = 0; i < peerId.length; i++) h = (h * 31 + peerId.charCodeAt(i)) >>> 0;
+  return PEER_COLORS[h % PEER_COLORS.length];
+}
+
+function contigName(id: number): string {
+  return state.get().map!.contigs[id].name;
+}
+
+function orderIndexOf(name: string): number {
+  const s = state.get();
+  return s.contigOrder.findIndex(id => s.map!.contigs[id].name === name);
+}
+
+/**
+ * Translate a locally pushed operation into a name-based intent, plus the
+ * orderHash of the order it was made against. Returns null for operations
+ * that are not shared.
+ */
+export function intentForOperation(
+  op: CurationOperation,
+  scaffoldManager: ScaffoldManager | null,
+): { intent: CollabIntent; baseHash: string } | null {
+  const s = state.get();
+  if (!s.map) return null;
+  const d = op.data;
+  switch (op.type) {
+    case 'cut':
+      return {
+        intent: {
+          kind: 'cut',
+          contig: contigName(d.originalContigId),
+          pixelOffset: d.pixelOffset,
+          ...(typeof d.bpOffset === 'number' ? { bpOffset: d.bpOffset } : {}),
+          inverted: s.map.contigs[d.originalContigId].inverted,
+        },
+        baseHash: orderHash(d.previousOrder),
+      };
+    case 'join':
+      return {
+        intent: {
+          kind: 'join',
+          first: contigName(d.firstId),
+          second: contigName(d.secondId),
+          inverted: [s.map.contigs[d.firstId].inverted, s.map.contigs[d.secondId].inverted],
+        },
+        baseHash: orderHash(d.previousOrder),
+      };
+    case 'invert':
+      return {
+        intent: { kind: 'invert', contig: contigName(d.contigId), inverted: !d.previousInverted },
+        // The contig is already flipped; hash it the way it was.
+        baseHash: orderHash(s.contigOrder, d.contigId),
+      };
+    case 'move': {
+      const prev = d.previousOrder as number[];
+      let k = d.toIndex - 1;
+      if (k === d.fromIndex) k--;
+      return {
+        intent: {
+          kind: 'move',
+          contig: contigName(prev[d.fromIndex]),
+          before: contigName(prev[d.toIndex]),
+          after: k >= 0 ? contigName(prev[k]) : null,
+        },
+        baseHash: orderHash(prev),
+      };
+    }
+    case 'scaffold_create':
+      return { intent: { kind: 'scaffold_create', name: d.scaffold.name }, baseHash: orderHash() };
+    case 'scaffold_delete':
+      return { intent: { kind: 'scaffold_delete', name: d.scaffold.name }, baseHash: orderHash() };
+    case 'scaffold_paint': {
+      let scaffold: string | null = null;
+      if (d.scaffoldId !== null) {
+        const sc = scaffoldManager?.getScaffold(d.scaffoldId);
+        if (!sc) return null;
+        scaffold = sc.name;
+      }
+      const contigs = (d.contigIndices as number[])
+        .filter(i => i >= 0 && i < s.contigOrder.length)
+        .map(i => contigName(s.contigOrder[i]));
+      return { intent: { kind: 'scaffold_paint', contigs, scaffold }, baseHash: orderHash() };
+    }
+    case 'meta_tag': {
+      const next = d.next as MetaTagInfo | null;
+      return {
+        intent: {
+          kind: 'meta_tag',
+          contigs: (d.contigIds as number[]).map(contigName),
+          tag: next ? { ...next } : null,
+        },
+        baseHash: orderHash(),
+      };
+    }
+    case 'exclude':
+      return {
+        intent: {
+          kind: 'exclude',
+          contigs: (d.contigIds as number[]).map(contigName),
+          excluded: [...(d.next as boolean[])],
+        },
+        baseHash: orderHash(),
+      };    default:
+      return null;
+  }
+}
+
+/**
+ * Check that an intent made against a different order still means what its
+ * author meant here. Returns null when it does, or the reason it does not.
+ * Name resolution and adjacency are left to applyIntent.
+ */
+export function rebaseConflict(intent: CollabIntent): string | null {
+  const s = state.get();
+  if (!s.map) return 'no map is loaded';
+  const orientation = (name: string): boolean | null => {
+    const i = orderIndexOf(name);
+    return i < 0 ? null : s.map!.contigs[s.contigOrder[i]].inverted;
+  };
+  const flipped = (name: string) => `"${name}" has been inverted since`;
+
+  switch (intent.kind) {
+    case 'cut': {
+      const inverted = orientation(intent.contig);
+      return inverted !== null && inverted !== intent.inverted ? flipped(intent.contig) : null;
+    }
+    case 'join': {
+      const names = [intent.first, intent.second];
+      for (let k = 0; k < 2; k++) {
+        const inverted = orientation(names[k]);
+        if (inverted !== null && inverted !== intent.inverted[k]) return flipped(names[k]);
+      }
+      return null;
+    }
+    case 'move': {
+      const to = orderIndexOf(intent.before);
+      if (to < 0 || orderIndexOf(intent.contig) < 0) return null;
+      let k = to - 1;
+      if (k >= 0 && contigName(s.contigOrder[k]) === intent.contig) k--;
+      const after = k >= 0 ? contigName(s.contigOrder[k]) : null;
+      if (after === intent.after) return null;
+      return intent.after === null
+        ? `"${intent.before}" is no longer first in the order`
+        : `"${intent.before}" no longer follows "${intent.after}"`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Apply an intent to the current state through CurationEngine /
+ * ScaffoldManager. Returns null on success or the reason it cannot apply.
+ */
+export function applyIntent(intent: CollabIntent, scaffoldManager: ScaffoldManager | null): string | null {
+  const s = state.get();
+  if (!s.map) return 'no map is loaded';
+  const missing = (name: string) => `contig "${name}" is no longer in the order`;
+  const findScaffold = (name: string) =>
+    scaffoldManager?.getAllScaffolds().find(sc => sc.name === name);
+
+  try {
+    switch (intent.kind) {
+      case 'cut': {
+        const i = orderIndexOf(intent.contig);
+        if (i < 0) return missing(intent.contig);
+        if (intent.bpOffset !== undefined) CurationEngine.cutAtBp(i, intent.bpOffset);
+        else CurationEngine.cut(i, intent.pixelOffset);
+        return null;
+      }
+      case 'join': {
+        const i = orderIndexOf(intent.first);
+        if (i < 0) return missing(intent.first);
+        if (orderIndexOf(intent.second) < 0) return missing(intent.second);
+        const next = s.contigOrder[i + 1];
+        if (next === undefined || contigName(next) !== intent.second) {
+          return `"${intent.first}" and "${intent.second}" are no longer adjacent`;
+        }
+        CurationEngine.join(i);
+        return null;
+      }
+      case 'invert': {
+        const i = orderIndexOf(intent.contig);
+        if (i < 0) return missing(intent.contig);
+        if (s.map.contigs[s.contigOrder[i]].inverted === intent.inverted) {
+          return `"${intent.contig}" is already ${intent.inverted ? 'inverted' : 'in normal orientation'}`;
+        }
+        CurationEngine.invert(i);
+        return null;
+      }
+      case 'move': {
+        const from = orderIndexOf(intent.contig);
+        if (from < 0) return missing(intent.contig);
+        const to = orderIndexOf(intent.before);
+        if (to < 0) return missing(intent.before);
+        if (to === from + 1) return null; // already in place
+        CurationEngine.move(from, to);
+        return null;
+      }
+      case 'scaffold_create':
+        if (!scaffoldManager) return 'scaffolds are not available';
+        scaffoldManager.createScaffold(intent.name);
+        return null;
+      case 'scaffold_delete': {
+        const sc = findScaffold(intent.name);
+        if (!sc) return `scaffold "${intent.name}" does not exist`;
+        scaffoldManager!.deleteScaffold(sc.id);
+        return null;
+      }
+      case 'scaffold_paint': {
+        if (!scaffoldManager) return 'scaffolds are not available';
+        let scaffoldId: number | null = null;
+        if (intent.scaffold !== null) {
+          const sc = findScaffold(intent.scaffold);
+          if (!sc) return `scaffold "${intent.scaffold}" does not exist`;
+          scaffoldId = sc.id;
+        }
+        const indices: number[] = [];
+        for (const name of intent.contigs) {
+          const i = orderIndexOf(name);
+          if (i < 0) return missing(name);
+          indices.push(i);
+        }
+        scaffoldManager.paintContigs(indices, scaffoldId);
+        return null;
+      }
+      case 'meta_tag': {
+        const indices: number[] = [];
+        for (const name of intent.contigs) {
+          const i = orderIndexOf(name);
+          if (i < 0) return missing(name);
+          indices.push(i);
+        }
+        if (intent.tag) CurationEngine.tag(indices, intent.tag.tag, intent.tag.notes);
+        else CurationEngine.untag(indices);
+        return null;
+      }
+      case 'exclude': {
+        const indices: number[] = [];
+        for (const name of intent.contigs) {
+          const i = orderIndexOf(name);
+          if (i < 0) return missing(name);
+          indices.push(i);
+        }
+        const uniform = intent.excluded.every(e => e === intent.excluded[0]);
+        if (uniform) {
+          CurationEngine.setExcluded(indices, intent.excluded[0]);
+          return null;
+        }
+        // A per-contig toggle reproduces the author's result only from the
+        // state the author toggled.
+        for (let k = 0; k < indices.length; k++) {
+          if (contigExclusion.isExcluded(s.contigOrder[indices[k]]) === intent.excluded[k]) {
+            return `"${intent.contigs[k]}" is already ${intent.excluded[k] ? 'excluded' : 'included'}`;
+          }
+        }
+        CurationEngine.toggleExcluded(indices);
+        return null;
+      }
+    }
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+function findOperation(opId: string): CurationOperation | undefined {
+  const s = state.get();
+  return s.undoStack.find(op => op.opId === opId) ?? s.redoStack.find(op => op.opId === opId);
+}
+
+// ---------------------------------------------------------------------------
+// CollabSession
+// ---------------------------------------------------------------------------
+
+export class CollabSession {
+  readonly peerId: string;
+  readonly name: string;
+  readonly color: string;
+  private transport: CollabTransport;
+  private scaffoldManager: ScaffoldManager | null;
+  private onChange: () => void;
+  private peers: Map<string, PeerPresence> = new Map();
+  /** Every op/undo/redo applied here, in order, for late joiners. */
+  private log: CollabMessage[] = [];
+  private knownOps: Set<string> = new Set();
+  private conflicts: CollabConflict[] = [];
+  private cursor: { x: number; y: number } | null = null;
+  private selection: string[] = [];
+  private applyingRemote = false;
+  /** True until this peer has either caught up from history or acted itself. */
+  private awaitingHistory = true;
+  private status: TransportStatus = 'connecting';
+  private unsubscribers: Array<() => void> = [];
+  private closed = false;
+
+  constructor(options: CollabSessionOptions) {
+    this.transport = options.transport;
+    this.name = options.name;
+    this.scaffoldManager = options.scaffoldManager ?? null;
+    this.onChange = options.onChange ?? (() => {});
+    this.peerId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    this.color = options.color ?? colorForPeer(this.peerId);
+
+    state.setAuthorContext(this.name);
+    this.unsubscribers.push(
+      state.onOperation(op => this.onLocalOperation(op)),
+      events.on('curation:undo', () => this.onLocalUndoRedo('undo')),
+      events.on('curation:redo', () => this.onLocalUndoRedo('redo')),
+    );
+    this.transport.onMessage(message => this.receive(message));
+    this.transport.onStatus(status => {
+      this.status = status;
+      this.onChange();
+    });
+    this.transport.send({ type: 'hello', peer: this.presence() });
+  }
+
+  // -----------------------------------------------------------------------
+  // Public API
+  // -----------------------------------------------------------------------
+
+  getStatus(): TransportStatus {
+    return this.closed ? 'closed' : this.status;
+  }
+
+  /** Other peers currently in the room. */
+  getPeers(): PeerPresence[] {
+    return [...this.peers.values()];
+  }
+
+  /** Conflicts seen this session, oldest first. */
+  getConflicts(): CollabConflict[] {
+    return [...this.conflicts];
+  }
+
+  /** Update and broadcast this peer's pointer position (normalized map coords). */
+  setCursor(cursor: { x: number; y: number } | null): void {
+    this.cursor = cursor;
+    this.sendPresence();
+  }
+
+  /** Update and broadcast this peer's selected contigs (by order index). */
+  setSelection(orderIndices: Iterable<number>): void {
+    const s = state.get();
+    if (!s.map) return;
+    this.selection = [...orderIndices]
+      .filter(i => i >= 0 && i < s.contigOrder.length)
+      .map(i => contigName(s.contigOrder[i]));
+    this.sendPresence();
+  }
+
+  /** Broadcast presence (e.g. after the local order changed). */
+  sendPresence(): void {
+    if (this.closed) return;
+    this.transport.send({ type: 'presence', peer: this.presence() });
+  }
+
+  leave(): void {
+    if (this.closed) return;
+    this.transport.send({ type: 'bye', peerId: this.peerId });
+    this.closed = true;
+    for (const unsub of this.unsubscribers) unsub();
+    this.unsubscribers = [];
+    if (state.getAuthorContext()?.author === this.name) state.clearAuthorContext();
+    this.transport.close();
+    this.peers.clear();
+    this.onChange();
+  }
+
+  // -----------------------------------------------------------------------
+  // Outgoing
+  // -----------------------------------------------------------------------
+
+  private presence(): PeerPresence {
+    return {
+      id: this.peerId,
+      name: this.name,
+      color: this.color,
+      cursor: this.cursor,
+      selection: this.selection,
+      orderHash: state.get().map ? orderHash() : '',
+    };
+  }
+
+  private onLocalOperation(op: CurationOperation): void {
+    if (this.applyingRemote || !op.opId || this.knownOps.has(op.opId)) return;
+    this.knownOps.add(op.opId);
+    this.awaitingHistory = false;
+
+    const shared = intentForOperation(op, this.scaffoldManager);
+    if (!shared) {
+      events.emit('collab:conflict', {
+        author: this.name,
+        description: op.description,
+        reason: 'not shared with peers, who keep their own state',
+      });
+      return;
+    }
+    const message: CollabMessage = {
+      type: 'op',
+      peerId: this.peerId,
+      op: {
+        id: op.opId,
+        author: op.author ?? this.name,
+        description: op.description,
+        baseHash: shared.baseHash,
+        intent: shared.intent,
+      },
+    };
+    this.log.push(message);
+    this.transport.send(message);
+    this.sendPresence();
+  }
+
+  private onLocalUndoRedo(kind: 'undo' | 'redo'): void {
+    if (this.applyingRemote) return;
+    const s = state.get();
+    // After undo the op sits on top of the redo stack; after redo, back on
+    // top of the undo stack.
+    const stack = kind === 'undo' ? s.redoStack : s.undoStack;
+    const opId = stack[stack.length - 1]?.opId;
+    if (!opId || !this.knownOps.has(opId)) return;
+    const message: CollabMessage = { type: kind, peerId: this.peerId, opId };
+    this.log.push(message);
+    this.transport.send(message);
+    this.sendPresence();
+  }
+
+  // -----------------------------------------------------------------------
+  // Incoming
+  // -----------------------------------------------------------------------
+
+  private receive(message: CollabMessage): void {
+    if (this.closed) return;
+    switch (message.type) {
+      case 'hello':
+        this.peers.set(message.peer.id, message.peer);
+        this.sendPresence();
+        if (this.log.length > 0) {
+          this.transport.send({ type: 'history', to: message.peer.id, entries: this.log });
+        }
+        break;
+      case 'presence':
+        this.peers.set(message.peer.id, message.peer);
+        break;
+      case 'bye':
+        this.peers.delete(message.peerId);
+        break;
+      case 'history':
+        if (message.to !== this.peerId || !this.awaitingHistory) return;
+        this.awaitingHistory = false;
+        for (const entry of message.entries) this.receive(entry);
+        this.sendPresence();
+        break;
+      case 'op':
+        this.applyRemoteOperation(message);
+        break;
+      case 'undo':
+      case 'redo':
+        this.applyRemoteUndoRedo(message);
+        break;
+      case 'conflict': {
+        const op = findOperation(message.opId);
+        this.conflicts.push({
+          opId: message.opId,
+          author: op?.author ?? '',
+          description: op?.description ?? message.opId,
+          reason: message.reason,
+          rejectedBy: this.peers.get(message.peerId)?.name ?? message.peerId,
+          timestamp: Date.now(),
+        });
+        break;
+      }
+    }
+    this.onChange();
+  }
+
+  private applyRemoteOperation(message: Extract<CollabMessage, { type: 'op' }>): void {
+    const op: SharedOperation = message.op;
+    if (this.knownOps.has(op.id)) return;
+    this.knownOps.add(op.id);
+    this.awaitingHistory = false;
+
+    // Made against a different order: apply only if it still means the same.
+    const rebase = op.baseHash !== orderHash() ? rebaseConflict(op.intent) : null;
+    const reason = rebase !== null
+      ? `it was made against a different order and ${rebase}`
+      : this.asRemote(op.author, op.id, () => applyIntent(op.intent, this.scaffoldManager));
+    if (reason !== null) {
+      this.reject(op.id, op.author, op.description, reason);
+      return;
+    }
+    this.log.push(message);
+  }
+
+  private applyRemoteUndoRedo(message: Extract<CollabMessage, { type: 'undo' | 'redo' }>): void {
+    const s = state.get();
+    const stack = message.type === 'undo' ? s.undoStack : s.redoStack;
+    const top = stack[stack.length - 1];
+    if (!top || top.opId !== message.opId) {
+      const op = findOperation(message.opId);
+      // An op this peer never applied (it was rejected here) has nothing to
+      // undo or redo; the earlier conflict already covers it.
+      if (!op) return;
+      const where = message.type === 'undo' ? 'latest operation' : 'next operation to redo';
+      this.reject(message.opId, op.author ?? '', `${message.type} "${op.description}"`,
+        `it is not the ${where} here`);
+      return;
+    }
+    this.asRemote(top.author ?? '', message.opId, () => {
+      if (message.type === 'undo') CurationEngine.undo();
+      else CurationEngine.redo();
+      return null;
+    });
+    this.log.push(message);
+  }
+
+  private reject(opId: string, author: string, description: string, reason: string): void {
+    this.conflicts.push({ opId, author, description, reason, rejectedBy: this.name, timestamp: Date.now() });
+    events.emit('collab:conflict', { author, description, reason: `not applied, ${reason}` });
+    this.transport.send({ type: 'conflict', peerId: this.peerId, opId, reason });
+  }
+
+  /** Run `fn` with the remote author stamped on whatever it pushes. */
+  private asRemote<T>(author: string, opId: string, fn: () => T): T {
+    const previous = state.getAuthorContext();
+    state.setAuthorContext(author, opId);
+    this.applyingRemote = true;
+    try {
+      return fn();
+    } finally {
+      this.applyingRemote = false;
+      if (previous) state.setAuthorContext(previous.author, previous.opId);
+      else state.clearAuthorContext();
+    }
+  }
+}
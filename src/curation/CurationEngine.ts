@@ -1,7 +1,9 @@
 /**
  * CurationEngine - Core curation operations for genome assembly.
  *
- * Implements cut, join, invert, and move operations on contigs.
+ * Implements cut, join, invert, and move operations on contigs, plus the
+ * meta-tag and exclusion annotations (which live in MetaTagManager and
+ * ContigExclusion but are recorded here so they undo like any other edit).
  * Each operation validates inputs, modifies contig order/orientation in state,
  * records the operation for undo/redo, and emits events via the EventBus.
  *
@@ -11,6 +13,8 @@
 import { state, ContigInfo, CurationOperation, SequenceSegment } from '../core/State';
 import { events } from '../core/EventBus';
 import type { ScaffoldManager } from './ScaffoldManager';
+import { metaTags, type MetaTagInfo, type MetaTagType } from './MetaTagManager';
+import { contigExclusion } from './ContigExclusion';
 
 /**
  * Optional ScaffoldManager reference for scaffold_paint undo/redo.
@@ -136,6 +140,9 @@ function flipSegments(
  * is replaced by two new contigs whose pixel ranges partition the
  * original span at `pixelOffset`.
  *
+ * The base-pair split is the pixel's proportional position, so it is only
+ * as precise as one texture pixel. Use `cutAtBp` to cut at an exact base.
+ *
  * @param contigOrderIndex - Index in the current contigOrder array.
  * @param pixelOffset - Pixel offset within the contig at which to cut.
  *   Must be > 0 and < contig pixel length.
@@ -145,10 +152,7 @@ export function cut(contigOrderIndex: number, pixelOffset: number): void {
   requireValidIndex(contigOrderIndex);
 
   const s = state.get();
-  const map = s.map!;
-  const contigId = s.contigOrder[contigOrderIndex];
-  const contig = map.contigs[contigId];
-
+  const contig = s.map!.contigs[s.contigOrder[contigOrderIndex]];
   const contigPixelLength = contig.pixelEnd - contig.pixelStart;
 
   if (!Number.isInteger(pixelOffset) || pixelOffset <= 0 || pixelOffset >= contigPixelLength) {
@@ -160,6 +164,77 @@ export function cut(contigOrderIndex: number, pixelOffset: number): void {
   // Calculate the proportional split for base-pair length
   const fraction = pixelOffset / contigPixelLength;
   const leftBpLength = Math.round(contig.length * fraction);
+
+  splitContig(
+    contigOrderIndex,
+    pixelOffset,
+    leftBpLength,
+    `Cut contig "${contig.name}" at pixel offset ${pixelOffset}`,
+    {},
+  );
+}
+
+/**
+ * Cut a contig at an exact base-pair position.
+ *
+ * `bpOffset` is measured in display order from the contig's left end, so on
+ * an inverted contig it counts from the source sequence's 3' end. The two
+ * fragments get exactly `bpOffset` and `length - bpOffset` bases, and their
+ * sequence provenance is split at that base. The map itself can only be split
+ * on a texture pixel, so the pixel boundary is the nearest one to the cut,
+ * kept at least one pixel in from either end.
+ *
+ * @param contigOrderIndex - Index in the current contigOrder array.
+ * @param bpOffset - Base-pair offset within the contig at which to cut.
+ *   Must be > 0 and < contig length.
+ */
+export function cutAtBp(contigOrderIndex: number, bpOffset: number): void {
+  requireMap();
+  requireValidIndex(contigOrderIndex);
+
+  const s = state.get();
+  const contig = s.map!.contigs[s.contigOrder[contigOrderIndex]];
+  const contigPixelLength = contig.pixelEnd - contig.pixelStart;
+
+  if (!Number.isInteger(bpOffset) || bpOffset <= 0 || bpOffset >= contig.length) {
+    throw new Error(
+      `Invalid bpOffset: ${bpOffset}. Must be an integer in (0, ${contig.length})`
+    );
+  }
+  if (contigPixelLength < 2) {
+    throw new Error(`Cannot cut contig "${contig.name}": it spans a single pixel`);
+  }
+
+  const pixelOffset = Math.min(
+    contigPixelLength - 1,
+    Math.max(1, Math.round((bpOffset / contig.length) * contigPixelLength)),
+  );
+
+  splitContig(
+    contigOrderIndex,
+    pixelOffset,
+    bpOffset,
+    `Cut contig "${contig.name}" at ${bpOffset} bp`,
+    { bpOffset },
+  );
+}
+
+/**
+ * Replace the contig at `contigOrderIndex` with two fragments split at
+ * `pixelOffset` pixels and `leftBpLength` base pairs (both in display order),
+ * and record the cut for undo. Inputs are validated by the callers.
+ */
+function splitContig(
+  contigOrderIndex: number,
+  pixelOffset: number,
+  leftBpLength: number,
+  description: string,
+  extraData: Record<string, unknown>,
+): void {
+  const s = state.get();
+  const map = s.map!;
+  const contigId = s.contigOrder[contigOrderIndex];
+  const contig = map.contigs[contigId];
   const rightBpLength = contig.length - leftBpLength;
 
   // Partition the source-sequence provenance at the same display offset so
@@ -214,10 +289,11 @@ export function cut(contigOrderIndex: number, pixelOffset: number): void {
   const op: CurationOperation = {
     type: 'cut',
     timestamp: Date.now(),
-    description: `Cut contig "${contig.name}" at pixel offset ${pixelOffset}`,
+    description,
     data: {
       contigOrderIndex,
       pixelOffset,
+      ...extraData,
       originalContigId: contigId,
       leftId,
       rightId,
@@ -455,6 +531,147 @@ export function undoMove(op: CurationOperation): void {
   events.emit('render:request', {});
 }
 
+// ---------------------------------------------------------------------------
+// META TAGS / EXCLUSION
+//
+// Both managers are keyed by contig ID, so the operations record contig IDs
+// and the per-contig state they replaced. Undo restores that state verbatim;
+// redo re-applies the recorded new state.
+// ---------------------------------------------------------------------------
+
+/** Contig IDs at the given order positions, validated and de-duplicated. */
+function contigIdsAt(orderIndices: number[]): number[] {
+  requireMap();
+  const order = state.get().contigOrder;
+  const ids: number[] = [];
+  for (const index of orderIndices) {
+    requireValidIndex(index);
+    if (!ids.includes(order[index])) ids.push(order[index]);
+  }
+  return ids;
+}
+
+function describeContigs(contigIds: number[]): string {
+  const contigs = state.get().map!.contigs;
+  return contigIds.length === 1
+    ? `contig "${contigs[contigIds[0]].name}"`
+    : `${contigIds.length} contigs`;
+}
+
+function writeTags(contigIds: number[], infos: (MetaTagInfo | null)[]): void {
+  contigIds.forEach((id, i) => {
+    const info = infos[i];
+    if (info) metaTags.setTag(id, info.tag, info.notes);
+    else metaTags.removeTag(id);
+  });
+}
+
+function writeExclusion(contigIds: number[], excluded: boolean[]): void {
+  contigIds.forEach((id, i) => contigExclusion.set(id, excluded[i]));
+}
+
+function recordTagChange(contigIds: number[], next: MetaTagInfo | null, description: string): void {
+  if (contigIds.length === 0) return;
+  const previous = contigIds.map((id) => metaTags.getTag(id));
+  writeTags(contigIds, contigIds.map(() => next));
+
+  state.pushOperation({
+    type: 'meta_tag',
+    timestamp: Date.now(),
+    description,
+    data: { contigIds, previous, next },
+  });
+  events.emit('curation:tag', { count: contigIds.length });
+  events.emit('render:request', {});
+}
+
+function recordExclusionChange(contigIds: number[], next: boolean[], description: string): void {
+  if (contigIds.length === 0) return;
+  const previous = contigIds.map((id) => contigExclusion.isExcluded(id));
+  writeExclusion(contigIds, next);
+
+  state.pushOperation({
+    type: 'exclude',
+    timestamp: Date.now(),
+    description,
+    data: { contigIds, previous, next },
+  });
+  events.emit('curation:exclude', { count: contigIds.length });
+  events.emit('render:request', {});
+}
+
+/**
+ * Tag contigs with a classification (haplotig, contaminant, ...), replacing
+ * any tag they already carry.
+ *
+ * @param orderIndices - Positions in the current contigOrder array.
+ * @param metaTag - The classification to apply.
+ * @param notes - Optional free-text notes stored with the tag.
+ */
+export function tag(orderIndices: number[], metaTag: MetaTagType, notes?: string): void {
+  const contigIds = contigIdsAt(orderIndices);
+  const info: MetaTagInfo = notes !== undefined ? { tag: metaTag, notes } : { tag: metaTag };
+  recordTagChange(contigIds, info, `Tagged ${describeContigs(contigIds)} as ${metaTag}`);
+}
+
+/**
+ * Remove classification tags from contigs.
+ *
+ * @param orderIndices - Positions in the current contigOrder array.
+ */
+export function untag(orderIndices: number[]): void {
+  const contigIds = contigIdsAt(orderIndices);
+  recordTagChange(contigIds, null, `Removed tag from ${describeContigs(contigIds)}`);
+}
+
+/**
+ * Exclude contigs from exports (or include them again).
+ *
+ * @param orderIndices - Positions in the current contigOrder array.
+ * @param excluded - True to exclude, false to include.
+ */
+export function setExcluded(orderIndices: number[], excluded: boolean): void {
+  const contigIds = contigIdsAt(orderIndices);
+  recordExclusionChange(
+    contigIds,
+    contigIds.map(() => excluded),
+    `${excluded ? 'Excluded' : 'Included'} ${describeContigs(contigIds)}`,
+  );
+}
+
+/**
+ * Flip the exclusion of each contig independently.
+ *
+ * @param orderIndices - Positions in the current contigOrder array.
+ */
+export function toggleExcluded(orderIndices: number[]): void {
+  const contigIds = contigIdsAt(orderIndices);
+  const next = contigIds.map((id) => !contigExclusion.isExcluded(id));
+  recordExclusionChange(
+    contigIds,
+    next,
+    contigIds.length === 1
+      ? `${next[0] ? 'Excluded' : 'Included'} ${describeContigs(contigIds)}`
+      : `Toggled exclusion on ${describeContigs(contigIds)}`,
+  );
+}
+
+/**
+ * Undo a meta tag change: restore each contig's previous tag.
+ */
+export function undoTag(op: CurationOperation): void {
+  writeTags(op.data.contigIds as number[], op.data.previous as (MetaTagInfo | null)[]);
+  events.emit('render:request', {});
+}
+
+/**
+ * Undo an exclusion change: restore each contig's previous exclusion.
+ */
+export function undoExclude(op: CurationOperation): void {
+  writeExclusion(op.data.contigIds as number[], op.data.previous as boolean[]);
+  events.emit('render:request', {});
+}
+
 // ---------------------------------------------------------------------------
 // UNDO / REDO
 // ---------------------------------------------------------------------------
@@ -464,6 +681,8 @@ const undoHandlers: Record<CurationOperation['type'], (op: CurationOperation) =>
   join: undoJoin,
   invert: undoInvert,
   move: undoMove,
+  meta_tag: undoTag,
+  exclude: undoExclude,
   scaffold_paint: (op) => {
     if (scaffoldManager) {
       scaffoldManager.undoPaint(op);
@@ -542,6 +761,12 @@ export function redo(): boolean {
     case 'move':
       reapplyMove(op);
       break;
+    case 'meta_tag':
+      reapplyTag(op);
+      break;
+    case 'exclude':
+      reapplyExclude(op);
+      break;
     case 'scaffold_paint':
       if (scaffoldManager) {
         scaffoldManager.reapplyPaint(op);
@@ -687,15 +912,39 @@ function reapplyMove(op: CurationOperation): void {
   events.emit('render:request', {});
 }
 
+function reapplyTag(op: CurationOperation): void {
+  const contigIds = op.data.contigIds as number[];
+  const next = op.data.next as MetaTagInfo | null;
+  writeTags(contigIds, contigIds.map(() => next));
+
+  state.pushOperation({ ...op, timestamp: Date.now() });
+  events.emit('curation:tag', { count: contigIds.length });
+  events.emit('render:request', {});
+}
+
+function reapplyExclude(op: CurationOperation): void {
+  const contigIds = op.data.contigIds as number[];
+  writeExclusion(contigIds, op.data.next as boolean[]);
+
+  state.pushOperation({ ...op, timestamp: Date.now() });
+  events.emit('curation:exclude', { count: contigIds.length });
+  events.emit('render:request', {});
+}
+
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
 export const CurationEngine = {
   cut,
+  cutAtBp,
   join,
   invert,
   move,
+  tag,
+  untag,
+  setExcluded,
+  toggleExcluded,
   undo,
   redo,
   undoBatch,
@@ -0,0 +1,104 @@
+/**
+ * GapSnap - move a base-pair cut position onto a nearby assembly gap.
+ *
+ * The contact map only locates a breakpoint to within a texture pixel, which
+ * can span tens of kilobases, while a misjoin in a scaffolded assembly almost
+ * always lies at one of its N-runs. When the reference FASTA is loaded, a cut
+ * requested within `maxDistance` bp of an N-run is moved to that run's nearer
+ * edge, so the cut falls between sequence and gap rather than inside real
+ * sequence. The N-run stays whole on one fragment.
+ *
+ * Positions are display-order offsets within the contig, the same frame
+ * `CurationEngine.cutAtBp` takes, so inverted and cut/join-derived contigs are
+ * handled through their sequence provenance.
+ */
+
+import type { ContigInfo } from '../core/State';
+import { resolveContigSubsequence } from '../export/FASTAWriter';
+
+/** Outcome of a snap attempt. */
+export interface GapSnapResult {
+  /** The (possibly moved) cut position, in display-order bp. */
+  bpOffset: number;
+  /** The N-run the cut was moved to, as display-order [start, end), or null. */
+  gap: { start: number; end: number } | null;
+}
+
+/** Base pairs covered by one texture pixel of a contig. */
+export function bpPerPixel(contig: ContigInfo): number {
+  const span = contig.pixelEnd - contig.pixelStart;
+  return span > 0 ? contig.length / span : contig.length;
+}
+
+/**
+ * Snap `bpOffset` to the nearest N-run edge within `maxDistance` bp. Edges at
+ * the contig's own ends are not valid cut points and are ignored. Returns the
+ * position unchanged (with `gap: null`) when no edge is in range or the
+ * contig's sequence is not in `sequences`.
+ *
+ * @param maxDistance - Search radius in bp. Defaults to one texture pixel,
+ *   the precision the map itself gives the cut.
+ */
+export function snapCutToGap(
+  contig: ContigInfo,
+  bpOffset: number,
+  sequences: Map<string, string>,
+  maxDistance: number = bpPerPixel(contig),
+): GapSnapResult {
+  const unsnapped: GapSnapResult = { bpOffset, gap: null };
+  const radius = Math.ceil(maxDistance);
+  // One extra base each side tells a run that really starts/ends at the
+  // window edge from one that merely continues past it.
+  const lo = Math.max(0, bpOffset - radius - 1);
+  const hi = Math.min(contig.length, bpOffset + radius + 1);
+  if (hi <= lo) return unsnapped;
+
+  const window = resolveContigSubsequence(contig, sequences, lo, hi);
+  if (window === undefined) return unsnapped;
+
+  let best: GapSnapResult = unsnapped;
+  let bestDistance = Infinity;
+  const consider = (edge: number, start: number, end: number) => {
+    if (edge <= 0 || edge >= contig.length) return;
+    const distance = Math.abs(edge - bpOffset);
+    if (distance <= maxDistance && distance < bestDistance) {
+      bestDistance = distance;
+      best = { bpOffset: edge, gap: { start, end } };
+    }
+  };
+
+  const re = /[Nn]+/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(window)) !== null) {
+    const start = lo + m.index;
+    const end = start + m[0].length;
+    if (m.index > 0 || lo === 0) consider(start, start, end);
+    if (m.index + m[0].length < window.length || hi === contig.length) consider(end, start, end);
+  }
+  if (best.gap) best.gap = extendRun(contig, sequences, best.gap.start, best.gap.end);
+  return best;
+}
+
+const EXTEND_CHUNK = 4096;
+
+/** Grow an N-run found in a window to its full extent in the contig. */
+function extendRun(
+  contig: ContigInfo,
+  sequences: Map<string, string>,
+  start: number,
+  end: number,
+): { start: number; end: number } {
+  while (start > 0) {
+    const chunk = resolveContigSubsequence(contig, sequences, Math.max(0, start - EXTEND_CHUNK), start) ?? '';
+    const run = chunk.length - chunk.search(/[Nn]*$/);
+    start -= run;
+    if (run < chunk.length || run === 0) break;
+  }
+  while (end < contig.length) {
+    const chunk = resolveContigSubsequence(contig, sequences, end, Math.min(contig.length, end + EXTEND_CHUNK)) ?? '';
+    const run = chunk.search(/[^Nn]|$/);
+    end += run;
+    if (run < chunk.length || run === 0) break;
+  }
+  return { start, end };
+}
@@ -5,8 +5,9 @@
  * sex chromosome contigs. Mirrors the ContigExclusion / MisassemblyFlags
  * singleton pattern.
  *
- * Indices refer to positions in the contigOrder array (order indices),
- * not to contig IDs in the map.contigs array.
+ * Callers key tags by contig ID (the values in the contigOrder array), as
+ * ContigExclusion does, so a tag follows its contig across reorders. Edits
+ * made through CurationEngine.tag/untag are undoable.
  */
 
 import { events } from '../core/EventBus';
@@ -0,0 +1,345 @@
+/**
+ * ReferenceSort — Reference-guided contig ordering from a PAF alignment of
+ * the contigs against a related chromosome-level genome.
+ *
+ * 1. Each contig is placed on the reference chromosome holding most of its
+ *    aligned bases (weighted by matches), at the mean reference position of
+ *    those alignments, and oriented by their strand vote. Contigs with too
+ *    little alignment, or split between chromosomes, stay unplaced.
+ * 2. Contigs are ordered by chromosome (natural name order), then position,
+ *    and each chromosome becomes one scaffold named after it.
+ * 3. Hi-C link scores (computeAllLinkScores) can overrule the reference:
+ *    - a contig whose flipped orientation links clearly better to its
+ *      neighbours is flipped;
+ *    - a junction whose contigs link clearly better to some other contig
+ *      than to each other splits the scaffold there, leaving the contigs
+ *      in reference order for the curator to review.
+ *
+ * Pure algorithm — no side effects or state mutations.
+ */
+
+import type { ContigInfo } from '../core/State';
+import type { PAFRecord } from '../formats/PAFParser';
+import { displaySegments } from '../core/GenomeCoordinates';
+import {
+  alignmentsByQuery,
+  referenceChromosomes,
+  targetPosition,
+  type AlignmentFilter,
+} from '../analysis/Synteny';
+import { computeAllLinkScores, type ChainEntry } from './AutoSort';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ReferenceSortParams extends AlignmentFilter {
+  /** Share of a contig's aligned bases that must fall on one chromosome. Default: 0.6. */
+  minConfidence: number;
+  /** Fraction of a contig's length that must align to that chromosome. Default: 0.05. */
+  minAlignedFraction: number;
+  /** Let Hi-C link scores overrule the reference. Default: true. */
+  hicOverrule: boolean;
+  /** Hi-C link score an overruling arrangement must reach. Default: 0.2. */
+  minLinkScore: number;
+  /** How much better than the reference's arrangement it must score. Default: 0.2. */
+  overruleMargin: number;
+  /** Max diagonal distance sampled for link scores. Default: 50. */
+  maxDiagonalDistance: number;
+}
+
+export interface ReferencePlacement {
+  /** Index in contigOrder. */
+  orderIndex: number;
+  /** Reference chromosome, or null when the contig stays unplaced. */
+  chrom: string | null;
+  /** Mean reference position of the contig's alignments to `chrom`, in bp. */
+  position: number;
+  /** True when the contig, as displayed now, runs against the reference. */
+  reverse: boolean;
+  /** Matching bases aligned to `chrom`. */
+  alignedBp: number;
+  /** Share of the contig's aligned bases on `chrom`. */
+  confidence: number;
+}
+
+export interface ReferenceScaffold {
+  /** Scaffold name: the chromosome, with a suffix for pieces split by Hi-C. */
+  name: string;
+  chrom: string;
+  /** Contigs in order; `inverted` is the orientation to set. */
+  entries: ChainEntry[];
+}
+
+/** A reference decision Hi-C overruled. */
+export interface ReferenceOverrule {
+  kind: 'orientation' | 'junction';
+  /** The flipped contig, or the upstream contig of a split junction (contigOrder index). */
+  orderIndex: number;
+  /** The downstream contig of a split junction. */
+  nextOrderIndex?: number;
+  /** The contig Hi-C links better to, for a split junction. */
+  partnerOrderIndex?: number;
+  chrom: string;
+  /** Hi-C score of the reference's arrangement. */
+  referenceScore: number;
+  /** Hi-C score of the arrangement Hi-C prefers. */
+  hicScore: number;
+}
+
+export interface ReferenceSortResult {
+  /** Scaffolds in reference order. */
+  scaffolds: ReferenceScaffold[];
+  /** Contigs left unplaced, in their current order and orientation. */
+  unplaced: ChainEntry[];
+  /** One per contig, by contigOrder index. */
+  placements: ReferencePlacement[];
+  overrules: ReferenceOverrule[];
+}
+
+/** The overview contact map, for Hi-C overrules. */
+export interface ReferenceSortHiC {
+  contactMap: Float32Array;
+  size: number;
+  textureSize: number;
+}
+
+const DEFAULT_PARAMS: ReferenceSortParams = {
+  minMapq: 10,
+  minAlignmentLength: 1000,
+  minConfidence: 0.6,
+  minAlignedFraction: 0.05,
+  hicOverrule: true,
+  minLinkScore: 0.2,
+  overruleMargin: 0.2,
+  maxDiagonalDistance: 50,
+};
+
+// ---------------------------------------------------------------------------
+// Placement
+// ---------------------------------------------------------------------------
+
+/**
+ * Place every contig in `contigOrder` on the reference. Alignments are
+ * looked up through each contig's source segments, so cut and joined
+ * contigs take the part of each alignment they hold.
+ */
+export function placeContigs(
+  contigs: ContigInfo[],
+  contigOrder: number[],
+  records: PAFRecord[],
+  params?: Partial<ReferenceSortParams>,
+): ReferencePlacement[] {
+  const p = { ...DEFAULT_PARAMS, ...params };
+  const byQuery = alignmentsByQuery(records, p);
+
+  return contigOrder.map((id, orderIndex) => {
+    const c = contigs[id];
+    const perChrom = new Map<string, { weight: number; position: number; reverse: number }>();
+    let total = 0;
+
+    for (const seg of displaySegments(c)) {
+      for (const r of byQuery.get(seg.sourceName) ?? []) {
+        const lo = Math.max(r.queryStart, seg.start);
+        const hi = Math.min(r.queryEnd, seg.end);
+        if (hi <= lo) continue;
+        const weight = (r.matches * (hi - lo)) / (r.queryEnd - r.queryStart);
+        let acc = perChrom.get(r.targetName);
+        if (!acc) perChrom.set(r.targetName, (acc = { weight: 0, position: 0, reverse: 0 }));
+        acc.weight += weight;
+        acc.position += weight * targetPosition(r, (lo + hi) / 2);
+        // Against the reference as displayed: the alignment's strand, flipped
+        // again where the contig shows this segment reverse-complemented.
+        if (r.reverse !== seg.revComp) acc.reverse += weight;
+        total += weight;
+      }
+    }
+
+    let chrom: string | null = null;
+    let best = { weight: 0, position: 0, reverse: 0 };
+    for (const [name, acc] of perChrom) {
+      if (acc.weight > best.weight) {
+        chrom = name;
+        best = acc;
+      }
+    }
+    const confidence = total > 0 ? best.weight / total : 0;
+    const placed = chrom !== null
+      && confidence >= p.minConfidence
+      && best.weight >= p.minAlignedFraction * c.length;
+
+    return {
+      orderIndex,
+      chrom: placed ? chrom : null,
+      position: best.weight > 0 ? best.position / best.weight : 0,
+      reverse: best.reverse > best.weight / 2,
+      alignedBp: best.weight,
+      confidence,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Hi-C link lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Hi-C score for contig `a` directly followed by contig `b`, each flipped
+ * (relative to its current orientation) as given. Indices are contigOrder
+ * indices; `scores` holds computeAllLinkScores' allScores by "i,j", i < j.
+ */
+function junctionScore(
+  scores: Map<string, [number, number, number, number]>,
+  a: number,
+  flipA: boolean,
+  b: number,
+  flipB: boolean,
+): number {
+  // allScores are [HH, HT, TH, TT] for i before j: the first letter is H
+  // when i's tail meets j, the second H when j's head meets i.
+  if (a < b) {
+    const all = scores.get(`${a},${b}`);
+    return all ? all[(flipA ? 2 : 0) + (flipB ? 1 : 0)] : 0;
+  }
+  const all = scores.get(`${b},${a}`);
+  return all ? all[(flipB ? 0 : 2) + (flipA ? 0 : 1)] : 0;
+}
+
+/** Relative flip of an entry: the orientation it gets against the one it has. */
+function flipOf(entry: ChainEntry, contigs: ContigInfo[], contigOrder: number[]): boolean {
+  return entry.inverted !== contigs[contigOrder[entry.orderIndex]].inverted;
+}
+
+// ---------------------------------------------------------------------------
+// Main entry point
+// ---------------------------------------------------------------------------
+
+/**
+ * Order, orient and group the contigs by the reference. With `hic` given
+ * (and `params.hicOverrule` on), Hi-C link scores may flip contigs and
+ * split scaffolds where they disagree with the reference.
+ */
+export function referenceGuidedSort(
+  contigs: ContigInfo[],
+  contigOrder: number[],
+  records: PAFRecord[],
+  hic?: ReferenceSortHiC,
+  params?: Partial<ReferenceSortParams>,
+): ReferenceSortResult {
+  const p = { ...DEFAULT_PARAMS, ...params };
+  const placements = placeContigs(contigs, contigOrder, records, p);
+
+  const chains: Array<{ chrom: string; entries: ChainEntry[] }> = [];
+  for (const chrom of referenceChromosomes(records)) {
+    const placed = placements
+      .filter((pl) => pl.chrom === chrom.name)
+      .sort((a, b) => a.position - b.position);
+    if (placed.length === 0) continue;
+    chains.push({
+      chrom: chrom.name,
+      entries: placed.map((pl) => ({
+        orderIndex: pl.orderIndex,
+        inverted: contigs[contigOrder[pl.orderIndex]].inverted !== pl.reverse,
+      })),
+    });
+  }
+  const unplaced = placements
+    .filter((pl) => pl.chrom === null)
+    .map((pl) => ({ orderIndex: pl.orderIndex, inverted: contigs[contigOrder[pl.orderIndex]].inverted }));
+
+  const overrules: ReferenceOverrule[] = [];
+  const splits = new Map<string, Set<number>>();
+  if (hic && p.hicOverrule) {
+    const links = computeAllLinkScores(hic.contactMap, hic.size, contigs, contigOrder, hic.textureSize, {
+      maxDiagonalDistance: p.maxDiagonalDistance,
+      signalCutoff: 0,
+      hardThreshold: p.minLinkScore,
+      minChainSize: 3,
+      mergeThreshold: p.minLinkScore,
+    });
+    const scores = new Map(links.map((l) => [`${l.i},${l.j}`, l.allScores]));
+    const flip = (e: ChainEntry) => flipOf(e, contigs, contigOrder);
+
+    for (const chain of chains) {
+      const entries = chain.entries;
+
+      // Orientation: flip a contig whose flipped junctions score clearly better.
+      for (let k = 0; k < entries.length; k++) {
+        const prev = entries[k - 1];
+        const next = entries[k + 1];
+        if (!prev && !next) continue;
+        const e = entries[k];
+        const mean = (f: boolean) => {
+          let sum = 0;
+          if (prev) sum += junctionScore(scores, prev.orderIndex, flip(prev), e.orderIndex, f);
+          if (next) sum += junctionScore(scores, e.orderIndex, f, next.orderIndex, flip(next));
+          return sum / ((prev ? 1 : 0) + (next ? 1 : 0));
+        };
+        const referenceScore = mean(flip(e));
+        const hicScore = mean(!flip(e));
+        if (hicScore >= p.minLinkScore && hicScore - referenceScore >= p.overruleMargin) {
+          entries[k] = { orderIndex: e.orderIndex, inverted: !e.inverted };
+          overrules.push({ kind: 'orientation', orderIndex: e.orderIndex, chrom: chain.chrom, referenceScore, hicScore });
+        }
+      }
+
+      // Junctions: split where either side links clearly better elsewhere.
+      const cuts = new Set<number>();
+      for (let k = 0; k + 1 < entries.length; k++) {
+        const a = entries[k];
+        const b = entries[k + 1];
+        // No signal either way (e.g. a contig too small to score): no evidence.
+        const pair = scores.get(`${Math.min(a.orderIndex, b.orderIndex)},${Math.max(a.orderIndex, b.orderIndex)}`);
+        if (!pair || pair.every((v) => v === 0)) continue;
+        const referenceScore = junctionScore(scores, a.orderIndex, flip(a), b.orderIndex, flip(b));
+        let hicScore = 0;
+        let partner = -1;
+        for (let c = 0; c < contigOrder.length; c++) {
+          if (c === a.orderIndex || c === b.orderIndex) continue;
+          for (const fc of [false, true]) {
+            const score = Math.max(
+              junctionScore(scores, a.orderIndex, flip(a), c, fc),
+              junctionScore(scores, c, fc, b.orderIndex, flip(b)),
+            );
+            if (score > hicScore) {
+              hicScore = score;
+              partner = c;
+            }
+          }
+        }
+        if (hicScore >= p.minLinkScore && hicScore - referenceScore >= p.overruleMargin) {
+          cuts.add(k + 1);
+          overrules.push({
+            kind: 'junction',
+            orderIndex: a.orderIndex,
+            nextOrderIndex: b.orderIndex,
+            partnerOrderIndex: partner,
+            chrom: chain.chrom,
+            referenceScore,
+            hicScore,
+          });
+        }
+      }
+      splits.set(chain.chrom, cuts);
+    }
+  }
+
+  const scaffolds: ReferenceScaffold[] = [];
+  for (const chain of chains) {
+    const cuts = splits.get(chain.chrom) ?? new Set<number>();
+    let piece: ChainEntry[] = [];
+    let pieces = 0;
+    const flush = () => {
+      pieces++;
+      scaffolds.push({ name: pieces === 1 ? chain.chrom : `${chain.chrom}_${pieces}`, chrom: chain.chrom, entries: piece });
+      piece = [];
+    };
+    chain.entries.forEach((e, k) => {
+      if (cuts.has(k)) flush();
+      piece.push(e);
+    });
+    flush();
+  }
+
+  return { scaffolds, unplaced, placements, overrules };
+}
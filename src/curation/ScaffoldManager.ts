@@ -394,6 +394,19 @@ export class ScaffoldManager {
     }
   }
 
+  /**
+   * Replace the scaffold set with `scaffolds`, keeping their ids and colors,
+   * without recording an undo operation or touching contig assignments. Used
+   * when restoring a saved session whose contigs and history refer to these
+   * ids.
+   */
+  restoreScaffolds(scaffolds: Scaffold[]): void {
+    this.scaffolds.clear();
+    this.activeScaffoldId = null;
+    this.nextId = 1;
+    for (const sc of scaffolds) this.restoreScaffold(sc);
+  }
+
   /** Capture the full scaffold state (scaffolds + every contig assignment). */
   private snapshotState(): ScaffoldSnapshot {
     const s = state.get();
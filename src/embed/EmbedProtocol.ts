@@ -0,0 +1,158 @@
+/**
+ * EmbedProtocol — the messages between an embedded viewer and its host page.
+ *
+ * An embedded viewer is the full app running in an iframe in embed mode
+ * (`?embed=<host origin>`). The host page drives it with request/response
+ * messages over postMessage and receives a subset of the app's events. Both
+ * sides import these types: the host through src/embed/Viewer.ts, the frame
+ * through src/ui/EmbedBridge.ts.
+ *
+ * Every message carries `source: 'openpretext'` so either side can ignore
+ * unrelated traffic on the same window. Everything in a payload is
+ * structured-clonable (no class instances, no functions).
+ *
+ * No runtime dependencies.
+ */
+
+import type { AppEvents } from '../core/EventBus';
+import type { ParseError } from '../scripting/ScriptParser';
+import type { ScriptResult } from '../scripting/ScriptExecutor';
+
+export const EMBED_SOURCE = 'openpretext';
+
+/** URL search parameter that puts the app in embed mode; its value is the host origin. */
+export const EMBED_PARAM = 'embed';
+
+// ---------------------------------------------------------------------------
+// Payloads
+// ---------------------------------------------------------------------------
+
+/** What a successful `load` reports; the same fields as the `file:loaded` event. */
+export interface ViewerFileInfo {
+  filename: string;
+  contigs: number;
+  textureSize: number;
+}
+
+/** One contig of the current assembly, in display order. */
+export interface ViewerContig {
+  name: string;
+  /** Length in base pairs. */
+  length: number;
+  inverted: boolean;
+  /** Name of the scaffold the contig is painted into, or null. */
+  scaffold: string | null;
+  excluded: boolean;
+}
+
+/** A serializable snapshot of the viewer, returned by `getState`. */
+export interface ViewerState {
+  /** Null until a map is loaded (then `contigs` is empty). */
+  filename: string | null;
+  contigs: ViewerContig[];
+  scaffolds: { id: number; name: string }[];
+  camera: { x: number; y: number; zoom: number };
+  /** Number of operations `undo` can revert / `redo` can reapply. */
+  undoDepth: number;
+  redoDepth: number;
+}
+
+/** The result of `runScript`: the DSL runner's outcome, with an overall verdict. */
+export interface ViewerScriptOutcome {
+  /** True when every line parsed and every command succeeded. */
+  ok: boolean;
+  parseErrors: ParseError[];
+  results: ScriptResult[];
+  echoMessages: string[];
+  commandCount: number;
+  notRun: number;
+}
+
+/** Events forwarded to the host, with the app's own payload types. */
+export type ViewerEvents = Pick<
+  AppEvents,
+  | 'file:loaded'
+  | 'file:error'
+  | 'camera:changed'
+  | 'scaffold:changed'
+  | 'curation:cut'
+  | 'curation:invert'
+  | 'curation:move'
+  | 'curation:join'
+  | 'curation:undo'
+  | 'curation:redo'
+  | 'curation:tag'
+  | 'curation:exclude'
+>;
+
+export type ViewerEventName = keyof ViewerEvents;
+
+export const VIEWER_EVENTS: readonly ViewerEventName[] = [
+  'file:loaded',
+  'file:error',
+  'camera:changed',
+  'scaffold:changed',
+  'curation:cut',
+  'curation:invert',
+  'curation:move',
+  'curation:join',
+  'curation:undo',
+  'curation:redo',
+  'curation:tag',
+  'curation:exclude',
+];
+
+/**
+ * The methods a host can call. `load` takes a URL (resolved by the host
+ * against its own page) or the file's bytes; `goto` takes a contig name or
+ * display-order index, as the DSL's `zoom` does.
+ */
+export interface ViewerMethods {
+  load: { args: [source: string | ArrayBuffer, filename?: string]; result: ViewerFileInfo };
+  goto: { args: [contig: string | number]; result: void };
+  getState: { args: []; result: ViewerState };
+  runScript: { args: [text: string]; result: ViewerScriptOutcome };
+}
+
+export type ViewerMethod = keyof ViewerMethods;
+
+// ---------------------------------------------------------------------------
+// Messages
+// ---------------------------------------------------------------------------
+
+/** Host → frame: call a method. `id` pairs the response with the request. */
+export interface EmbedRequest<M extends ViewerMethod = ViewerMethod> {
+  source: typeof EMBED_SOURCE;
+  kind: 'request';
+  id: number;
+  method: M;
+  args: ViewerMethods[M]['args'];
+}
+
+/** Frame → host: a method's result, or the message of the error it threw. */
+export type EmbedResponse =
+  | { source: typeof EMBED_SOURCE; kind: 'response'; id: number; ok: true; result: unknown }
+  | { source: typeof EMBED_SOURCE; kind: 'response'; id: number; ok: false; error: string };
+
+/** Frame → host: an app event. */
+export interface EmbedEvent<K extends ViewerEventName = ViewerEventName> {
+  source: typeof EMBED_SOURCE;
+  kind: 'event';
+  name: K;
+  payload: ViewerEvents[K];
+}
+
+/** Frame → host: the bridge is listening; requests sent earlier were lost. */
+export interface EmbedReady {
+  source: typeof EMBED_SOURCE;
+  kind: 'ready';
+}
+
+export type EmbedMessage = EmbedRequest | EmbedResponse | EmbedEvent | EmbedReady;
+
+/** Whether `data` (a MessageEvent's) is one of ours. */
+export function isEmbedMessage(data: unknown): data is EmbedMessage {
+  return typeof data === 'object' && data !== null &&
+    (data as { source?: unknown }).source === EMBED_SOURCE &&
+    typeof (data as { kind?: unknown }).kind === 'string';
+}
@@ -0,0 +1,260 @@
+/**
+ * Viewer — mount OpenPretext in another page.
+ *
+ *   const viewer = createViewer(document.querySelector('#map')!, {
+ *     appUrl: 'https://tools.example.org/openpretext/',
+ *   });
+ *   await viewer.load('/data/fAstCal1.pretext');
+ *   await viewer.goto('SUPER_3');
+ *   viewer.on('curation:*', (payload, name) => console.log(name, payload));
+ *   const { contigs } = await viewer.getState();
+ *
+ * or, after `defineViewerElement()`:
+ *
+ *   <openpretext-viewer app="https://…/openpretext/" src="/data/map.pretext"></openpretext-viewer>
+ *
+ * Each viewer is the app in its own iframe, driven over postMessage (see
+ * EmbedProtocol). The app keeps its state in module singletons and still
+ * owns its document's element ids, so a frame per viewer is what keeps those
+ * ids away from the host page and gives two viewers on one page separate
+ * maps, undo histories and cameras.
+ *
+ * The app should be your own deployment: by default it is looked up next to
+ * this script (the embed build is served from `<app>/embed/`). URLs passed to
+ * `load` are resolved against the host page, but the app fetches them from
+ * the frame, on the app's origin and without the host's cookies. A data
+ * server on another origin than the app must therefore allow CORS from the
+ * app's origin (and, for streaming, expose range requests). For anything
+ * else (same-origin or cookie-authenticated data) fetch the file in the page
+ * and pass its bytes.
+ *
+ * This module is the host-side entry of the embed build (`npm run
+ * build:embed`) and imports nothing from the app at runtime.
+ */
+
+import {
+  EMBED_PARAM,
+  EMBED_SOURCE,
+  isEmbedMessage,
+  type EmbedRequest,
+  type ViewerEventName,
+  type ViewerEvents,
+  type ViewerFileInfo,
+  type ViewerMethod,
+  type ViewerMethods,
+  type ViewerScriptOutcome,
+  type ViewerState,
+} from './EmbedProtocol';
+
+export type {
+  ViewerContig,
+  ViewerEventName,
+  ViewerEvents,
+  ViewerFileInfo,
+  ViewerScriptOutcome,
+  ViewerState,
+} from './EmbedProtocol';
+
+/** The app this script was deployed with: the embed build sits in its `embed/` directory. */
+export function defaultAppUrl(): string {
+  return new URL('../', import.meta.url).href;
+}
+
+export interface ViewerOptions {
+  /** Where the OpenPretext app is served. Default: defaultAppUrl(). */
+  appUrl?: string;
+  /** A map to load as soon as the viewer is ready (URL or bytes). */
+  source?: string | ArrayBuffer;
+  /** Accessible title for the frame. Default 'OpenPretext viewer'. */
+  title?: string;
+}
+
+/** `on('curation:*')` matches every event with that prefix; `'*'` matches all. */
+export type ViewerEventPattern = ViewerEventName | `${string}:*` | '*';
+
+type PatternHandler = (payload: ViewerEvents[ViewerEventName], name: ViewerEventName) => void;
+
+export interface Viewer {
+  /** The frame the viewer runs in (style or size it freely). */
+  readonly frame: HTMLIFrameElement;
+  /** Resolves once the app in the frame is listening. Calls made before that are queued. */
+  readonly ready: Promise<void>;
+  /**
+   * Load a contact map from a URL (relative to this page; the app fetches it,
+   * so it needs CORS from the app's origin) or from its bytes. Bytes are
+   * transferred, not copied.
+   */
+  load(source: string | ArrayBuffer, filename?: string): Promise<ViewerFileInfo>;
+  /** Zoom to a contig by name or display-order index. */
+  goto(contig: string | number): Promise<void>;
+  getState(): Promise<ViewerState>;
+  /** Run a curation DSL script; it is one undo step, as in the script console. */
+  runScript(text: string): Promise<ViewerScriptOutcome>;
+  /** Subscribe to an event or a pattern. Returns an unsubscribe function. */
+  on<K extends ViewerEventName>(name: K, handler: (payload: ViewerEvents[K], name: K) => void): () => void;
+  on(pattern: ViewerEventPattern, handler: PatternHandler): () => void;
+  /** Remove the frame and reject calls still pending. */
+  destroy(): void;
+}
+
+function matches(pattern: ViewerEventPattern, name: ViewerEventName): boolean {
+  if (pattern === '*') return true;
+  if (pattern.endsWith(':*')) return name.startsWith(pattern.slice(0, -1));
+  return pattern === name;
+}
+
+/** The frame URL: the app in embed mode, told which origin may drive it. */
+function frameUrl(appUrl: string): string {
+  const url = new URL(appUrl, document.baseURI);
+  url.searchParams.set(EMBED_PARAM, window.location.origin);
+  return url.href;
+}
+
+/** Mount a viewer in `container` (appended as an iframe filling it). */
+export function createViewer(container: HTMLElement, options: ViewerOptions = {}): Viewer {
+  const src = frameUrl(options.appUrl ?? defaultAppUrl());
+  const appOrigin = new URL(src).origin;
+
+  const frame = document.createElement('iframe');
+  frame.title = options.title ?? 'OpenPretext viewer';
+  frame.style.border = '0';
+  frame.style.width = '100%';
+  frame.style.height = '100%';
+
+  let nextId = 1;
+  let destroyed = false;
+  const pending = new Map<number, { resolve: (v: unknown) => void; reject: (e: Error) => void }>();
+  const listeners = new Set<{ pattern: ViewerEventPattern; handler: PatternHandler }>();
+
+  let markReady!: () => void;
+  const ready = new Promise<void>((resolve) => { markReady = resolve; });
+
+  const onMessage = (e: MessageEvent) => {
+    if (e.source !== frame.contentWindow || e.origin !== appOrigin) return;
+    const msg = e.data;
+    if (!isEmbedMessage(msg)) return;
+    switch (msg.kind) {
+      case 'ready':
+        markReady();
+        break;
+      case 'response': {
+        const call = pending.get(msg.id);
+        if (!call) return;
+        pending.delete(msg.id);
+        if (msg.ok) call.resolve(msg.result);
+        else call.reject(new Error(msg.error));
+        break;
+      }
+      case 'event':
+        for (const l of [...listeners]) {
+          if (matches(l.pattern, msg.name)) l.handler(msg.payload, msg.name);
+        }
+        break;
+    }
+  };
+  window.addEventListener('message', onMessage);
+
+  function call<M extends ViewerMethod>(
+    method: M,
+    args: ViewerMethods[M]['args'],
+    transfer: Transferable[] = [],
+  ): Promise<ViewerMethods[M]['result']> {
+    if (destroyed) return Promise.reject(new Error('Viewer has been destroyed'));
+    return ready.then(() => new Promise((resolve, reject) => {
+      if (destroyed) { reject(new Error('Viewer has been destroyed')); return; }
+      const id = nextId++;
+      pending.set(id, { resolve: resolve as (v: unknown) => void, reject });
+      const request: EmbedRequest<M> = { source: EMBED_SOURCE, kind: 'request', id, method, args };
+      frame.contentWindow!.postMessage(request, appOrigin, transfer);
+    }));
+  }
+
+  const viewer: Viewer = {
+    frame,
+    ready,
+    load(source, filename) {
+      if (typeof source === 'string') {
+        return call('load', [new URL(source, document.baseURI).href, filename]);
+      }
+      return call('load', [source, filename], [source]);
+    },
+    goto: (contig) => call('goto', [contig]),
+    getState: () => call('getState', []),
+    runScript: (text) => call('runScript', [text]),
+    on(pattern: ViewerEventPattern, handler: PatternHandler) {
+      const entry = { pattern, handler };
+      listeners.add(entry);
+      return () => { listeners.delete(entry); };
+    },
+    destroy() {
+      if (destroyed) return;
+      destroyed = true;
+      window.removeEventListener('message', onMessage);
+      for (const { reject } of pending.values()) reject(new Error('Viewer has been destroyed'));
+      pending.clear();
+      listeners.clear();
+      frame.remove();
+    },
+  };
+
+  frame.src = src;
+  container.appendChild(frame);
+  if (options.source !== undefined) void viewer.load(options.source).catch(() => {});
+  return viewer;
+}
+
+// ---------------------------------------------------------------------------
+// Custom element
+// ---------------------------------------------------------------------------
+
+/**
+ * Register `<openpretext-viewer>` (or `tagName`). Attributes: `app` (the app
+ * URL, default defaultAppUrl()) and `src` (a map to load, as for `load`). The element forwards the Viewer methods and
+ * re-dispatches viewer events as DOM CustomEvents (`detail` is the payload),
+ * so `el.addEventListener('curation:cut', …)` works too. The viewer is created
+ * when the element is connected and destroyed when it is removed.
+ */
+export function defineViewerElement(tagName = 'openpretext-viewer'): void {
+  if (customElements.get(tagName)) return;
+
+  class OpenPretextViewerElement extends HTMLElement {
+    static observedAttributes = ['src'];
+    private viewer: Viewer | null = null;
+
+    connectedCallback(): void {
+      if (this.viewer) return;
+      if (!this.style.display) this.style.display = 'block';
+      const src = this.getAttribute('src');
+      this.viewer = createViewer(this, {
+        appUrl: this.getAttribute('app') ?? undefined,
+        source: src ?? undefined,
+        title: this.getAttribute('title') ?? undefined,
+      });
+      this.viewer.on('*', (payload, name) => {
+        this.dispatchEvent(new CustomEvent(name, { detail: payload }));
+      });
+    }
+
+    disconnectedCallback(): void {
+      this.viewer?.destroy();
+      this.viewer = null;
+    }
+
+    attributeChangedCallback(name: string, previous: string | null, value: string | null): void {
+      if (name === 'src' && this.viewer && value && value !== previous) void this.load(value).catch(() => {});
+    }
+
+    private get api(): Viewer {
+      if (!this.viewer) throw new Error(`<${tagName}> is not connected`);
+      return this.viewer;
+    }
+
+    get ready(): Promise<void> { return this.api.ready; }
+    load(source: string | ArrayBuffer, filename?: string): Promise<ViewerFileInfo> { return this.api.load(source, filename); }
+    goto(contig: string | number): Promise<void> { return this.api.goto(contig); }
+    getState(): Promise<ViewerState> { return this.api.getState(); }
+    runScript(text: string): Promise<ViewerScriptOutcome> { return this.api.runScript(text); }
+  }
+
+  customElements.define(tagName, OpenPretextViewerElement);
+}
@@ -16,14 +16,15 @@
  *   8. component_end (contigs) / linkage (gaps)
  *   9. orientation (contigs) / linkage_evidence (gaps)
  *
- * Several columns carry defaults rather than measurements, object names are
- * positional, and the orientation column cannot be applied to cut/join-derived
- * components. `docs/AGP_EXPORT.md` states all of this for downstream users;
+ * Several columns carry defaults rather than measurements and object names are
+ * positional. Cut/join-derived contigs are written as intervals of the source
+ * contigs they came from. `docs/AGP_EXPORT.md` states all of this for downstream users;
  * keep it in step with any change here.
  */
 
 import type { AppState, ContigInfo } from '../core/State';
 import { contigExclusion } from '../curation/ContigExclusion';
+import { stripContactMapExtension } from '../formats/ContactMapExtensions';
 
 /** Configuration for AGP export. */
 export interface AGPExportOptions {
@@ -154,44 +155,96 @@ export function buildScaffoldAGPLines(
       partNumber++;
     }
 
-    // Contig component line.
-    // componentBeg/componentEnd are always 1..length: a fragment produced by a
-    // cut is described as a whole component under a synthesized name
-    // (`<name>_L`/`<name>_R`, or `<a>+<b>` for a join), not as an interval of
-    // its parent, so the cut point is not recorded here. componentType is
-    // always 'W', which asserts the component is gap-free even when the input
-    // "contig" is really a scaffold with internal N-runs.
+    // Contig component lines.
+    // A contig loaded from the map is one component spanning 1..length. A
+    // contig produced by cut or join is written as its sequenceSegments: one
+    // abutting row per segment, naming the SOURCE contig with the exact
+    // base-pair interval and strand it contributes. Those rows resolve against
+    // the input assembly FASTA directly and carry cut points at base
+    // resolution, and each piece of a join keeps its own orientation.
+    // componentType is always 'W', which asserts the component is gap-free
+    // even when the input "contig" is really a scaffold with internal N-runs.
     //
     // The orientation column is relative to the INPUT contig sequence, so it
     // must not be re-applied on top of OpenPretext's own FASTA export, which
-    // writes each record already reverse-complemented. Joins break it outright:
-    // a join of contigs with DIFFERING orientation collapses to '+' here (see
-    // CurationEngine.join), and a join of two INVERTED contigs writes '-', which
-    // would reverse the order of the two halves, while the join does not. One
-    // strand flag cannot describe a two-part component; the FASTA stays correct
-    // via sequenceSegments.
-    const contigLength = contig.length;
-    const contigEnd = objectPos + contigLength - 1;
-
-    lines.push({
-      object: scaffoldName,
-      objectBeg: objectPos,
-      objectEnd: contigEnd,
-      partNumber,
-      componentType: 'W',
-      componentId: contig.name,
-      componentBeg: 1,
-      componentEnd: contigLength,
-      orientation: contig.inverted ? '-' : '+',
-    });
+    // writes each record already reverse-complemented.
+    const components = contig.sequenceSegments && contig.sequenceSegments.length > 0
+      ? contig.sequenceSegments.map((seg) => ({
+          id: seg.sourceName,
+          beg: seg.start + 1,
+          end: seg.end,
+          orientation: (seg.revComp ? '-' : '+') as '+' | '-',
+        }))
+      : [{
+          id: contig.name,
+          beg: 1,
+          end: contig.length,
+          orientation: (contig.inverted ? '-' : '+') as '+' | '-',
+        }];
 
-    objectPos = contigEnd + 1;
-    partNumber++;
+    for (const component of components) {
+      const componentEnd = objectPos + (component.end - component.beg);
+      lines.push({
+        object: scaffoldName,
+        objectBeg: objectPos,
+        objectEnd: componentEnd,
+        partNumber,
+        componentType: 'W',
+        componentId: component.id,
+        componentBeg: component.beg,
+        componentEnd: component.end,
+        orientation: component.orientation,
+      });
+      objectPos = componentEnd + 1;
+      partNumber++;
+    }
   }
 
   return lines;
 }
 
+/** Where a contig lies in the AGP export: its object and 1-based, inclusive object coordinates. */
+export interface AGPContigPlacement {
+  /** Display-order index of the contig. */
+  orderIndex: number;
+  object: string;
+  objectBeg: number;
+  objectEnd: number;
+}
+
+/**
+ * Object coordinates of every included contig, as `exportAGP` with the same
+ * options would write them: grouped by `groupContigsByScaffold`, each contig
+ * following the previous one in its object after a gap of `gapSize`. In
+ * display order; excluded contigs have no placement.
+ */
+export function agpContigPlacements(
+  appState: AppState,
+  options: AGPExportOptions = {}
+): AGPContigPlacement[] {
+  if (!appState.map) return [];
+  const { gapSize } = { ...DEFAULT_OPTIONS, ...options };
+  const included = contigExclusion.getIncludedOrder(appState.contigOrder);
+  const groups = groupContigsByScaffold(appState.map.contigs, included);
+
+  const orderIndexOf = new Map(appState.contigOrder.map((id, i) => [appState.map!.contigs[id], i]));
+  const placements: AGPContigPlacement[] = [];
+  for (const [object, contigs] of groups) {
+    let objectPos = 1;
+    contigs.forEach((contig, i) => {
+      if (i > 0 && gapSize > 0) objectPos += gapSize;
+      placements.push({
+        orderIndex: orderIndexOf.get(contig)!,
+        object,
+        objectBeg: objectPos,
+        objectEnd: objectPos + contig.length - 1,
+      });
+      objectPos += contig.length;
+    });
+  }
+  return placements.sort((a, b) => a.orderIndex - b.orderIndex);
+}
+
 /**
  * Formats an AGPLine into a tab-separated string.
  */
@@ -313,7 +366,7 @@ export function downloadAGP(
 ): void {
   const content = exportAGP(appState, options);
   const defaultFilename = appState.map?.filename
-    ? appState.map.filename.replace(/\.pretext$/i, '.agp')
+    ? `${stripContactMapExtension(appState.map.filename)}.agp`
     : 'assembly.agp';
 
   const blob = new Blob([content], { type: 'text/plain' });
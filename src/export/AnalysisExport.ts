@@ -3,7 +3,9 @@
  *
  * Insulation scores and compartment eigenvectors export as BedGraph
  * (standard genomic interval format for IGV, UCSC, etc.).
- * P(s) decay curves export as TSV with a comment header.
+ * P(s) decay curves export as TSV with a comment header. Loop calls export
+ * as BEDPE (paired intervals, as Juicer and HiGlass read them), and pileups
+ * as a TSV matrix of mean O/E by offset from the anchor.
  *
  * Pure functions (exportXXX → string) plus download triggers (downloadXXX).
  */
@@ -17,6 +19,9 @@ import type { ICEResult } from '../analysis/ICENormalization';
 import type { KRResult } from '../analysis/KRNormalization';
 import type { HiCQualityResult } from '../analysis/HiCQualityMetrics';
 import type { SaddleResult } from '../analysis/SaddlePlot';
+import type { LoopResult } from '../analysis/LoopCaller';
+import type { PileupResult } from '../analysis/Pileup';
+import { stripContactMapExtension } from '../formats/ContactMapExtensions';
 
 // ---------------------------------------------------------------------------
 // Coordinate mapping
@@ -255,6 +260,65 @@ export function exportQualityTSV(
   return lines.join('\n') + '\n';
 }
 
+/**
+ * Export loop calls as BEDPE: the two anchor bins as intervals, then name,
+ * score (enrichment x 100, capped at 1000), strands, and the peak's observed
+ * and local expected values.
+ */
+export function exportLoopsBEDPE(
+  result: LoopResult,
+  appState: AppState,
+  overviewSize: number,
+): string {
+  const pixelMap = buildPixelToContigMap(appState, overviewSize);
+  const lines: string[] = [
+    `# Loop calls (HiCCUPS-style, ${result.balance === 'none' ? 'unbalanced' : `${result.balance.toUpperCase()}-balanced`})`,
+    '#chrom1\tstart1\tend1\tchrom2\tstart2\tend2\tname\tscore\tstrand1\tstrand2\tobserved\texpected_donut\texpected_lowerleft\tcluster_size',
+  ];
+  let loopIdx = 0;
+  for (const loop of result.loops) {
+    if (loop.row >= pixelMap.length || loop.col >= pixelMap.length) continue;
+    const a = pixelMap[loop.row];
+    const b = pixelMap[loop.col];
+    loopIdx++;
+    const score = Math.min(1000, Math.round(loop.enrichment * 100));
+    lines.push([
+      a.contigName, a.bpStart, a.bpEnd,
+      b.contigName, b.bpStart, b.bpEnd,
+      `loop_${loopIdx}`, score, '.', '.',
+      loop.observed.toPrecision(6), loop.donutExpected.toPrecision(6), loop.lowerLeftExpected.toPrecision(6),
+      loop.clusterSize,
+    ].join('\t'));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Export a pileup's mean O/E matrix as TSV, rows and columns labelled by
+ * their offset from the anchor in bins, with the anchors and scores in a
+ * comment header.
+ */
+export function exportPileupTSV(result: PileupResult, anchorsLabel: string): string {
+  const lines: string[] = [
+    `# Pileup: ${anchorsLabel} (${result.kind === 'diagonal' ? 'on the diagonal' : 'off the diagonal'})`,
+    `# Anchors: ${result.count} (${result.skipped} skipped at the map edge)`,
+    ...result.scores.map((sc) => `# ${sc.name}: ${sc.value.toFixed(4)}`),
+  ];
+
+  const offsets: number[] = [];
+  for (let k = -result.flank; k <= result.flank; k++) offsets.push(k);
+  lines.push(['offset', ...offsets].join('\t'));
+  for (let r = 0; r < result.width; r++) {
+    const row = [String(offsets[r])];
+    for (let c = 0; c < result.width; c++) {
+      row.push(result.matrix[r * result.width + c].toFixed(4));
+    }
+    lines.push(row.join('\t'));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
 /**
  * Export saddle plot matrix as TSV.
  */
@@ -306,7 +370,7 @@ function triggerDownload(content: string, filename: string): void {
 
 function defaultBasename(appState: AppState): string {
   if (appState.map?.filename) {
-    return appState.map.filename.replace(/\.pretext$/i, '');
+    return stripContactMapExtension(appState.map.filename);
   }
   return 'analysis';
 }
@@ -388,6 +452,26 @@ export function downloadQualityTSV(
   triggerDownload(content, filename ?? `${defaultBasename(appState)}_quality.tsv`);
 }
 
+export function downloadLoopsBEDPE(
+  result: LoopResult,
+  appState: AppState,
+  overviewSize: number,
+  filename?: string,
+): void {
+  const content = exportLoopsBEDPE(result, appState, overviewSize);
+  triggerDownload(content, filename ?? `${defaultBasename(appState)}_loops.bedpe`);
+}
+
+export function downloadPileupTSV(
+  result: PileupResult,
+  anchorsLabel: string,
+  appState: AppState,
+  filename?: string,
+): void {
+  const content = exportPileupTSV(result, anchorsLabel);
+  triggerDownload(content, filename ?? `${defaultBasename(appState)}_pileup.tsv`);
+}
+
 export function downloadSaddleTSV(
   result: SaddleResult,
   filename?: string,
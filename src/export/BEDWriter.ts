@@ -18,6 +18,7 @@
 import type { AppState, ContigInfo } from '../core/State';
 import { groupContigsByScaffold } from './AGPWriter';
 import { contigExclusion } from '../curation/ContigExclusion';
+import { stripContactMapExtension } from '../formats/ContactMapExtensions';
 
 /** Configuration for BED export. */
 export interface BEDExportOptions {
@@ -153,7 +154,7 @@ export function downloadBED(
 ): void {
   const content = exportBED(appState, options);
   const defaultFilename = appState.map?.filename
-    ? appState.map.filename.replace(/\.pretext$/i, '.bed')
+    ? `${stripContactMapExtension(appState.map.filename)}.bed`
     : 'assembly.bed';
 
   const blob = new Blob([content], { type: 'text/plain' });
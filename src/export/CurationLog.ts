@@ -12,6 +12,7 @@
  */
 
 import type { AppState, ContigInfo, CurationOperation } from '../core/State';
+import { stripContactMapExtension } from '../formats/ContactMapExtensions';
 
 /**
  * Minimal snapshot of the assembly state for before/after comparison.
@@ -228,7 +229,7 @@ export class CurationLog {
   download(filename?: string): void {
     const content = this.toJSON();
     const defaultFilename = this.sourceFile
-      ? this.sourceFile.replace(/\.pretext$/i, '_curation_log.json')
+      ? `${stripContactMapExtension(this.sourceFile)}_curation_log.json`
       : 'curation_log.json';
 
     const blob = new Blob([content], { type: 'application/json' });
@@ -10,10 +10,12 @@
  * - Reverse-complements sequences for inverted contigs
  * - Wraps sequence lines at a configurable width (default 80)
  * - Skips contigs whose sequence is not in the provided map
+ * - Annotates cut/join-derived records with their exact source intervals
  */
 
-import type { AppState, ContigInfo } from '../core/State';
+import type { AppState, ContigInfo, SequenceSegment } from '../core/State';
 import { contigExclusion } from '../curation/ContigExclusion';
+import { stripContactMapExtension } from '../formats/ContactMapExtensions';
 
 /** Configuration for FASTA export. */
 export interface FASTAExportOptions {
@@ -117,6 +119,58 @@ export function resolveContigSequence(
   return contig.inverted ? reverseComplement(raw) : raw;
 }
 
+/**
+ * Resolve display-order bases [start, end) of a contig without building its
+ * whole sequence, so callers can inspect a window of a chromosome-scale
+ * contig cheaply. Uses the same provenance rules as `resolveContigSequence`.
+ *
+ * @returns the subsequence (clamped to the contig), or `undefined` if a
+ *   required source sequence is missing from the map.
+ */
+export function resolveContigSubsequence(
+  contig: ContigInfo,
+  sequences: Map<string, string>,
+  start: number,
+  end: number
+): string | undefined {
+  let segments: SequenceSegment[];
+  if (contig.sequenceSegments && contig.sequenceSegments.length > 0) {
+    segments = contig.sequenceSegments;
+  } else {
+    const raw = sequences.get(contig.name);
+    if (raw === undefined) return undefined;
+    segments = [{ sourceName: contig.name, start: 0, end: raw.length, revComp: contig.inverted }];
+  }
+
+  const parts: string[] = [];
+  let acc = 0;
+  for (const seg of segments) {
+    const segLen = seg.end - seg.start;
+    const d0 = Math.max(start, acc) - acc;
+    const d1 = Math.min(end, acc + segLen) - acc;
+    acc += segLen;
+    if (d1 <= d0) continue;
+    const src = sequences.get(seg.sourceName);
+    if (src === undefined) return undefined;
+    parts.push(seg.revComp
+      ? reverseComplement(src.substring(seg.end - d1, seg.end - d0))
+      : src.substring(seg.start + d0, seg.start + d1));
+  }
+  return parts.join('');
+}
+
+/**
+ * Describe a derived contig's provenance as `source:start-end:strand` entries
+ * (1-based, inclusive), comma-separated in display order. Empty for contigs
+ * loaded directly from the map file.
+ */
+export function formatSegmentProvenance(contig: ContigInfo): string {
+  if (!contig.sequenceSegments || contig.sequenceSegments.length === 0) return '';
+  return contig.sequenceSegments
+    .map((seg) => `${seg.sourceName}:${seg.start + 1}-${seg.end}:${seg.revComp ? '-' : '+'}`)
+    .join(',');
+}
+
 /**
  * Export the curated assembly as a FASTA format string.
  *
@@ -157,7 +211,8 @@ export function exportFASTA(
     }
 
     const orientation = contig.inverted ? '-' : '+';
-    parts.push(`>${contig.name} orientation=${orientation}`);
+    const provenance = formatSegmentProvenance(contig);
+    parts.push(`>${contig.name} orientation=${orientation}${provenance ? ` source=${provenance}` : ''}`);
     parts.push(wrapSequence(sequence, opts.lineWidth));
   }
 
@@ -175,7 +230,7 @@ export function downloadFASTA(
 ): void {
   const content = exportFASTA(appState, sequences, options);
   const defaultFilename = appState.map?.filename
-    ? appState.map.filename.replace(/\.pretext$/i, '.fasta')
+    ? `${stripContactMapExtension(appState.map.filename)}.fasta`
     : 'assembly.fasta';
 
   const blob = new Blob([content], { type: 'text/plain' });
@@ -0,0 +1,441 @@
+/**
+ * Writer for the .pretext binary file format.
+ *
+ * Re-emits the loaded contact map in the curated layout so the result opens
+ * in PretextView (and in `parsePretextFile`) without regenerating the map
+ * from an AGP with PretextMap. The layout follows `contigOrder`; inverted
+ * contigs have their pixel rows/columns reversed, and cut/join-derived
+ * contigs are written under their synthesized names. A joined contig is
+ * resampled segment by segment from the loaded contigs it was built from,
+ * each segment in its own orientation.
+ *
+ * Pipeline per output tile:
+ *   1. Resample the finest mip from the source tiles through a
+ *      display-pixel -> source-pixel remap table (nearest neighbour).
+ *   2. Build the coarser mips by 2x2 averaging.
+ *   3. BC4-encode every level (block and in-block order as PretextMap writes
+ *      them, see docs/PRETEXT_FORMAT.md section 5) and raw-DEFLATE the lot.
+ *
+ * The header's contig records carry only fractional lengths, and the reader
+ * derives pixel spans by accumulating them. The output spans are therefore
+ * computed the same way the reader will compute them, and each contig's
+ * source span is resampled onto that span, so the written pixels line up
+ * with the boundaries a reader reconstructs.
+ *
+ * `psgh` graph extensions are carried over, remapped with the same table.
+ *
+ * The texture is lossy (BC4 quantises to 8 intensity levels per 4x4 block),
+ * so every re-write re-quantises; constant blocks survive exactly.
+ */
+
+import pako from 'pako';
+import type { AppState, ContigInfo } from '../core/State';
+import {
+  decodeBC4Block,
+  tileLinearIndex,
+  type PretextExtension,
+  type PretextHeader,
+} from '../formats/PretextParser';
+import { encodeTileMipChain } from '../formats/BC4Encoder';
+import { stripContactMapExtension } from '../formats/ContactMapExtensions';
+
+/** Everything needed to write a file; mirrors what `MapData` keeps after load. */
+export interface PretextWriteInput {
+  header: PretextHeader;
+  /** Raw inflated BC4 bytes per upper-triangular tile, in the source layout. */
+  rawTiles: Uint8Array[];
+  /** Full contigs array (indexed by contig ID), as in `MapData.contigs`. */
+  contigs: ContigInfo[];
+  /** Output order: contigOrder[displayPos] = contig ID. */
+  contigOrder: number[];
+  /** Graph extensions in the source pixel layout. */
+  extensions?: Map<string, Int32Array> | PretextExtension[];
+}
+
+/** Configuration for .pretext export. */
+export interface PretextWriteOptions {
+  /** Progress callback on a 0–100 scale. */
+  onProgress?: (message: string, percent: number) => void;
+  /** Decoded source tiles kept in memory at once. Defaults to 64. */
+  maxCachedTiles?: number;
+}
+
+const MAGIC = [0x70, 0x73, 0x74, 0x6d]; // 'pstm'
+const GRAPH_MAGIC = [0x70, 0x73, 0x67, 0x68]; // 'psgh'
+const NAME_BYTES = 64;
+
+/** Decode one BC4 level to raw u08 intensities (row-major). */
+function decodeBC4LevelBytes(bc4Data: Uint8Array, bc4Offset: number, resolution: number): Uint8Array {
+  const output = new Uint8Array(resolution * resolution);
+  const blocksPerDim = resolution >> 2;
+  const palette = new Uint8Array(8);
+  const pixels = new Uint8Array(16);
+  let ptr = bc4Offset;
+  for (let bx = 0; bx < blocksPerDim; bx++) {
+    for (let by = 0; by < blocksPerDim; by++) {
+      decodeBC4Block(bc4Data, ptr, palette, pixels);
+      ptr += 8;
+      for (let dx = 0; dx < 4; dx++) {
+        for (let dy = 0; dy < 4; dy++) {
+          output[(by * 4 + dy) * resolution + bx * 4 + dx] = pixels[dx * 4 + dy];
+        }
+      }
+    }
+  }
+  return output;
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+/** A contig as it will be laid out in the written file. */
+export interface PretextOutputContig {
+  name: string;
+  length: number;
+  /** Stored f32 fractional length. */
+  fractionalLength: number;
+  /** Output pixel span, exactly as `parsePretextFile` will reconstruct it. */
+  pixelStart: number;
+  pixelEnd: number;
+}
+
+/** A run of source pixels making up (part of) an output contig. */
+interface SourcePart {
+  pixelStart: number;
+  pixelEnd: number;
+  reversed: boolean;
+  /** Base pairs, for sharing out the output span. */
+  length: number;
+}
+
+/**
+ * The source pixel runs of `c` in display order. A contig with a single
+ * provenance segment keeps its own span and orientation. A join product's
+ * pixel span is only the hull of its inputs, so it is expanded into its
+ * segments instead, each placed within the loaded contig it came from and
+ * oriented by its own strand. Throws when a segment's source contig is not
+ * in `contigs`.
+ */
+function sourceParts(c: ContigInfo, contigs: ContigInfo[]): SourcePart[] {
+  const segments = c.sequenceSegments;
+  if (!segments || segments.length <= 1) {
+    return [{ pixelStart: c.pixelStart, pixelEnd: c.pixelEnd, reversed: c.inverted, length: c.length }];
+  }
+  return segments.map((seg) => {
+    const src = contigs.find((o) => !o.sequenceSegments && o.name === seg.sourceName);
+    if (!src || src.length <= 0) {
+      throw new Error(`Cannot place "${c.name}": source contig "${seg.sourceName}" is not in the map`);
+    }
+    const scale = (src.pixelEnd - src.pixelStart) / src.length;
+    return {
+      pixelStart: src.pixelStart + Math.round(seg.start * scale),
+      pixelEnd: src.pixelStart + Math.round(seg.end * scale),
+      reversed: seg.revComp,
+      length: seg.end - seg.start,
+    };
+  });
+}
+
+/**
+ * Compute the output contig records and the display-pixel -> source-pixel
+ * remap table (-1 where a contig has no source pixels).
+ */
+export function buildOutputLayout(
+  contigs: ContigInfo[],
+  contigOrder: number[],
+  numberOfPixels1D: number,
+): { outputContigs: PretextOutputContig[]; remap: Int32Array; totalLength: number } {
+  const ordered = contigOrder.map((id) => {
+    const c = contigs[id];
+    if (!c) throw new Error(`Contig ${id} in contigOrder does not exist`);
+    return c;
+  });
+  const totalLength = ordered.reduce((sum, c) => sum + c.length, 0);
+  if (totalLength <= 0) throw new Error('Cannot write a .pretext file with no sequence length');
+
+  // Replicate the reader's reconstruction: f32 fractions summed in double,
+  // floored against the 1-D pixel count, last contig pinned to the end.
+  const outputContigs: PretextOutputContig[] = [];
+  let cumulative = 0;
+  for (const c of ordered) {
+    const fractionalLength = Math.fround(c.length / totalLength);
+    const start = cumulative;
+    cumulative += fractionalLength;
+    outputContigs.push({
+      name: c.name,
+      length: c.length,
+      fractionalLength,
+      pixelStart: Math.floor(start * numberOfPixels1D),
+      pixelEnd: Math.floor(cumulative * numberOfPixels1D),
+    });
+  }
+  if (outputContigs.length > 0) {
+    outputContigs[outputContigs.length - 1].pixelEnd = numberOfPixels1D;
+  }
+
+  const remap = new Int32Array(numberOfPixels1D).fill(-1);
+  for (let i = 0; i < ordered.length; i++) {
+    const dst = outputContigs[i];
+    const dstSpan = dst.pixelEnd - dst.pixelStart;
+    const parts = sourceParts(ordered[i], contigs);
+    const partsLength = parts.reduce((sum, p) => sum + p.length, 0);
+    let acc = 0;
+    for (const part of parts) {
+      // Each part gets its share of the output span, by base pairs.
+      const from = dst.pixelStart + Math.round((acc * dstSpan) / partsLength);
+      acc += part.length;
+      const to = dst.pixelStart + Math.round((acc * dstSpan) / partsLength);
+      const srcSpan = part.pixelEnd - part.pixelStart;
+      if (srcSpan <= 0 || to <= from) continue;
+      for (let j = 0; j < to - from; j++) {
+        const k = Math.min(srcSpan - 1, Math.floor((j * srcSpan) / (to - from)));
+        remap[from + j] = part.reversed
+          ? part.pixelEnd - 1 - k
+          : part.pixelStart + k;
+      }
+    }
+  }
+
+  return { outputContigs, remap, totalLength };
+}
+
+// ---------------------------------------------------------------------------
+// Binary assembly helpers
+// ---------------------------------------------------------------------------
+
+function writeName(name: string, out: Uint8Array, offset: number): void {
+  // 63 chars max so the record always keeps its null terminator.
+  const n = Math.min(name.length, NAME_BYTES - 1);
+  for (let i = 0; i < n; i++) out[offset + i] = name.charCodeAt(i) & 0xff;
+}
+
+function u32(value: number): Uint8Array {
+  const b = new Uint8Array(4);
+  new DataView(b.buffer).setUint32(0, value, true);
+  return b;
+}
+
+function buildHeaderBytes(
+  outputContigs: PretextOutputContig[],
+  totalLength: number,
+  header: PretextHeader,
+): Uint8Array {
+  const n = outputContigs.length;
+  const bytes = new Uint8Array(15 + 68 * n);
+  const view = new DataView(bytes.buffer);
+  view.setBigUint64(0, BigInt(totalLength), true);
+  view.setUint32(8, n, true);
+  let off = 12;
+  for (const c of outputContigs) {
+    view.setFloat32(off, c.fractionalLength, true);
+    writeName(c.name, bytes, off + 4);
+    off += 68;
+  }
+  bytes[off++] = header.textureRes;
+  bytes[off++] = header.nTextRes;
+  bytes[off] = header.mipMapLevels;
+  return bytes;
+}
+
+function buildExtensionBlock(name: string, values: Int32Array, remap: Int32Array): Uint8Array[] {
+  const n = remap.length;
+  const raw = new Uint8Array(NAME_BYTES + 4 * n);
+  writeName(name, raw, 0);
+  const view = new DataView(raw.buffer);
+  for (let i = 0; i < n; i++) {
+    const src = remap[i];
+    view.setInt32(NAME_BYTES + 4 * i, src >= 0 && src < values.length ? values[src] : 0, true);
+  }
+  const comp = pako.deflateRaw(raw, { level: 9 });
+  return [new Uint8Array(GRAPH_MAGIC), u32(comp.length), comp];
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  let total = 0;
+  for (const c of chunks) total += c.length;
+  const out = new Uint8Array(total);
+  let off = 0;
+  for (const c of chunks) {
+    out.set(c, off);
+    off += c.length;
+  }
+  return out;
+}
+
+/** Yield to the event loop so long exports keep the page responsive. */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+// ---------------------------------------------------------------------------
+// Main writer
+// ---------------------------------------------------------------------------
+
+/**
+ * Write a .pretext file for the given contig layout. Resolves to the
+ * complete file bytes.
+ */
+export async function writePretextFile(
+  input: PretextWriteInput,
+  options?: PretextWriteOptions,
+): Promise<Uint8Array> {
+  const { header, rawTiles, contigs, contigOrder } = input;
+  const onProgress = options?.onProgress;
+  const maxCached = Math.max(1, options?.maxCachedTiles ?? 64);
+
+  const N = header.numberOfTextures1D;
+  const res = header.textureResolution;
+  const { outputContigs, remap, totalLength } = buildOutputLayout(
+    contigs,
+    contigOrder,
+    header.numberOfPixels1D,
+  );
+
+  onProgress?.('Writing header...', 0);
+  const headerBytes = buildHeaderBytes(outputContigs, totalLength, header);
+  const headerComp = pako.deflateRaw(headerBytes, { level: 9 });
+  const chunks: Uint8Array[] = [
+    new Uint8Array(MAGIC),
+    u32(headerComp.length),
+    u32(headerBytes.length),
+    headerComp,
+  ];
+
+  // Finest-mip source tiles, decoded on demand and kept in a small LRU.
+  const cache = new Map<number, Uint8Array>();
+  const zeroTile = new Uint8Array(res * res);
+  const sourceTile = (linIdx: number): Uint8Array => {
+    const hit = cache.get(linIdx);
+    if (hit) {
+      cache.delete(linIdx);
+      cache.set(linIdx, hit);
+      return hit;
+    }
+    const raw = rawTiles[linIdx];
+    const decoded = raw && raw.length >= (res * res) >> 1
+      ? decodeBC4LevelBytes(raw, 0, res)
+      : zeroTile;
+    cache.set(linIdx, decoded);
+    if (cache.size > maxCached) {
+      cache.delete(cache.keys().next().value as number);
+    }
+    return decoded;
+  };
+
+  const srcTileOf = new Int32Array(remap.length);
+  const srcInTile = new Int32Array(remap.length);
+  for (let i = 0; i < remap.length; i++) {
+    srcTileOf[i] = remap[i] >= 0 ? Math.floor(remap[i] / res) : -1;
+    srcInTile[i] = remap[i] >= 0 ? remap[i] - srcTileOf[i] * res : 0;
+  }
+
+  const totalTiles = header.numberOfTextureBlocks;
+  let tilesDone = 0;
+  const image = new Uint8Array(res * res);
+
+  for (let tx = 0; tx < N; tx++) {
+    for (let ty = tx; ty < N; ty++) {
+      // 1. Finest level: pixel (px, py) is global (tx*res + px, ty*res + py).
+      image.fill(0);
+      for (let py = 0; py < res; py++) {
+        const gy = ty * res + py;
+        const bTile = srcTileOf[gy];
+        if (bTile < 0) continue;
+        const bIn = srcInTile[gy];
+        let lastLin = -1;
+        let lastData: Uint8Array = zeroTile;
+        for (let px = 0; px < res; px++) {
+          const gx = tx * res + px;
+          const aTile = srcTileOf[gx];
+          if (aTile < 0) continue;
+          const aIn = srcInTile[gx];
+          // Stored as the upper triangle: column tile <= row tile.
+          let colTile = aTile, rowTile = bTile, colIn = aIn, rowIn = bIn;
+          if (colTile > rowTile) {
+            colTile = bTile; rowTile = aTile; colIn = bIn; rowIn = aIn;
+          }
+          const lin = tileLinearIndex(colTile, rowTile, N);
+          if (lin !== lastLin) {
+            lastData = sourceTile(lin);
+            lastLin = lin;
+          }
+          image[py * res + px] = lastData[rowIn * res + colIn];
+        }
+      }
+
+      // 2 + 3. Mip chain, BC4, deflate.
+      const bc4 = encodeTileMipChain(image, res, header.mipMapLevels);
+      const comp = pako.deflateRaw(bc4, { level: 9 });
+      chunks.push(u32(comp.length), comp);
+
+      tilesDone++;
+      if (tilesDone % Math.max(1, Math.floor(totalTiles / 20)) === 0) {
+        onProgress?.(
+          `Encoding tiles... (${tilesDone}/${totalTiles})`,
+          Math.round((tilesDone / totalTiles) * 95),
+        );
+      }
+    }
+    await yieldToEventLoop();
+  }
+
+  onProgress?.('Writing graph extensions...', 95);
+  const extensions = input.extensions instanceof Map
+    ? [...input.extensions].map(([name, data]) => ({ name, data }))
+    : input.extensions ?? [];
+  for (const ext of extensions) {
+    chunks.push(...buildExtensionBlock(ext.name, ext.data, remap));
+  }
+
+  onProgress?.('Done', 100);
+  return concat(chunks);
+}
+
+/**
+ * Write the current curated assembly as a .pretext file. Requires a map
+ * loaded from a .pretext file (synthetic/demo maps carry no tiles).
+ */
+export async function exportPretext(
+  appState: AppState,
+  options?: PretextWriteOptions,
+): Promise<Uint8Array> {
+  const map = appState.map;
+  if (!map || !map.rawTiles || !map.parsedHeader) {
+    throw new Error('No .pretext tile data loaded');
+  }
+  return writePretextFile(
+    {
+      header: map.parsedHeader,
+      rawTiles: map.rawTiles,
+      contigs: map.contigs,
+      contigOrder: appState.contigOrder,
+      extensions: map.extensions,
+    },
+    options,
+  );
+}
+
+/**
+ * Trigger a browser download of the curated .pretext file.
+ */
+export async function downloadPretext(
+  appState: AppState,
+  filename?: string,
+  options?: PretextWriteOptions,
+): Promise<void> {
+  const bytes = await exportPretext(appState, options);
+  const defaultFilename = appState.map?.filename
+    ? `${stripContactMapExtension(appState.map.filename)}.curated.pretext`
+    : 'assembly.pretext';
+
+  const blob = new Blob([bytes as BlobPart], { type: 'application/octet-stream' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename ?? defaultFilename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
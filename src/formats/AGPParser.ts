@@ -24,6 +24,13 @@
 export interface AGPImportRow {
   /** The contig name (AGP componentId), used to match loaded contigs. */
   contigName: string;
+  /**
+   * 1-based, inclusive interval of the component within `contigName`. A contig
+   * cut by OpenPretext is written as several rows naming the same source
+   * contig with different intervals.
+   */
+  componentBeg: number;
+  componentEnd: number;
   /** True when the orientation column is '-'. */
   inverted: boolean;
   /** The AGP object name (scaffold name). */
@@ -61,6 +68,8 @@ export function parseAGP(text: string): ParsedAGP {
 
     rows.push({
       contigName,
+      componentBeg: parseInt(cols[6], 10),
+      componentEnd: parseInt(cols[7], 10),
       inverted: cols[8] === '-',
       objectName,
       isUnplaced: objectName.startsWith('unplaced_'),
@@ -0,0 +1,189 @@
+/**
+ * BC4 (RGTC1) encoder — the inverse of the decoder in PretextParser.
+ *
+ * Produces tile payloads byte-compatible with what PretextMap writes: 4x4
+ * blocks column-major over the tile, texels column-major within a block, all
+ * mip levels concatenated finest-first (docs/PRETEXT_FORMAT.md sections 4–5).
+ * Used to write .pretext files and to lay other contact-matrix formats out as
+ * .pretext-style tiles.
+ */
+
+/** Fill the 8-entry palette a decoder derives from two endpoints. */
+function buildPalette(alpha0: number, alpha1: number, palette: Uint8Array): void {
+  palette[0] = alpha0;
+  palette[1] = alpha1;
+  if (alpha0 > alpha1) {
+    for (let i = 1; i <= 6; i++) {
+      palette[i + 1] = Math.round(((7 - i) * alpha0 + i * alpha1) / 7);
+    }
+  } else {
+    for (let i = 1; i <= 4; i++) {
+      palette[i + 1] = Math.round(((5 - i) * alpha0 + i * alpha1) / 5);
+    }
+    palette[6] = 0;
+    palette[7] = 255;
+  }
+}
+
+/** Choose the nearest palette entry per pixel; returns the summed squared error. */
+function assignCodes(pixels: Uint8Array, palette: Uint8Array, codes: Uint8Array): number {
+  let total = 0;
+  for (let k = 0; k < 16; k++) {
+    const v = pixels[k];
+    let best = 0;
+    let bestErr = Infinity;
+    for (let c = 0; c < 8; c++) {
+      const d = palette[c] - v;
+      const e = d * d;
+      if (e < bestErr) { bestErr = e; best = c; }
+    }
+    codes[k] = best;
+    total += bestErr;
+  }
+  return total;
+}
+
+/**
+ * Encode 16 u08 pixels into one 8-byte BC4 block at `out[offset]`.
+ *
+ * `pixels[k]` is the k-th texel handed to the encoder, i.e. the same order
+ * `decodeBC4Block` returns. Both endpoint modes are tried: the 8-value ramp
+ * between the block's extremes, and (when the block contains 0 or 255) the
+ * 6-value ramp over the remaining values with exact 0/255 entries — sparse
+ * Hi-C blocks are mostly zeros, where the second mode is usually tighter.
+ */
+export function encodeBC4Block(pixels: Uint8Array, out: Uint8Array, offset: number): void {
+  let lo = 255;
+  let hi = 0;
+  let innerLo = 255;
+  let innerHi = 0;
+  let hasExtreme = false;
+  for (let k = 0; k < 16; k++) {
+    const v = pixels[k];
+    if (v < lo) lo = v;
+    if (v > hi) hi = v;
+    if (v === 0 || v === 255) {
+      hasExtreme = true;
+    } else {
+      if (v < innerLo) innerLo = v;
+      if (v > innerHi) innerHi = v;
+    }
+  }
+
+  const palette = new Uint8Array(8);
+  const codes = new Uint8Array(16);
+  let alpha0: number;
+  let alpha1: number;
+
+  if (lo === hi) {
+    // Constant block: alpha0 == alpha1 selects the 6-value table, entry 0 exact.
+    alpha0 = hi;
+    alpha1 = lo;
+    codes.fill(0);
+  } else {
+    alpha0 = hi;
+    alpha1 = lo;
+    buildPalette(alpha0, alpha1, palette);
+    const err = assignCodes(pixels, palette, codes);
+
+    if (hasExtreme && err > 0) {
+      const a0 = innerLo <= innerHi ? innerLo : 0;
+      const a1 = innerLo <= innerHi ? innerHi : 0;
+      const altPalette = new Uint8Array(8);
+      const altCodes = new Uint8Array(16);
+      buildPalette(a0, a1, altPalette);
+      const altErr = assignCodes(pixels, altPalette, altCodes);
+      if (altErr < err) {
+        alpha0 = a0;
+        alpha1 = a1;
+        codes.set(altCodes);
+      }
+    }
+  }
+
+  out[offset] = alpha0;
+  out[offset + 1] = alpha1;
+  // 16 x 3-bit codes, little-endian, written as two 24-bit halves.
+  let lo24 = 0;
+  let hi24 = 0;
+  for (let k = 0; k < 8; k++) lo24 |= codes[k] << (3 * k);
+  for (let k = 0; k < 8; k++) hi24 |= codes[8 + k] << (3 * k);
+  out[offset + 2] = lo24 & 0xff;
+  out[offset + 3] = (lo24 >> 8) & 0xff;
+  out[offset + 4] = (lo24 >> 16) & 0xff;
+  out[offset + 5] = hi24 & 0xff;
+  out[offset + 6] = (hi24 >> 8) & 0xff;
+  out[offset + 7] = (hi24 >> 16) & 0xff;
+}
+
+/**
+ * BC4-encode a row-major `resolution x resolution` u08 image into
+ * `out[offset..offset + resolution*resolution/2)`, in PretextMap's order:
+ * blocks column-major over the tile, texels column-major within a block.
+ */
+export function encodeBC4Level(
+  image: Uint8Array,
+  resolution: number,
+  out: Uint8Array,
+  offset: number,
+): void {
+  const blocksPerDim = resolution >> 2;
+  const pixels = new Uint8Array(16);
+  let ptr = offset;
+  for (let bx = 0; bx < blocksPerDim; bx++) {
+    for (let by = 0; by < blocksPerDim; by++) {
+      for (let dx = 0; dx < 4; dx++) {
+        for (let dy = 0; dy < 4; dy++) {
+          pixels[dx * 4 + dy] = image[(by * 4 + dy) * resolution + bx * 4 + dx];
+        }
+      }
+      encodeBC4Block(pixels, out, ptr);
+      ptr += 8;
+    }
+  }
+}
+
+/** Halve a row-major u08 image by 2x2 averaging (rounded). */
+function downsample2x(image: Uint8Array, resolution: number): Uint8Array {
+  const half = resolution >> 1;
+  const out = new Uint8Array(half * half);
+  for (let y = 0; y < half; y++) {
+    const r0 = 2 * y * resolution;
+    const r1 = r0 + resolution;
+    for (let x = 0; x < half; x++) {
+      const c = 2 * x;
+      out[y * half + x] =
+        (image[r0 + c] + image[r0 + c + 1] + image[r1 + c] + image[r1 + c + 1] + 2) >> 2;
+    }
+  }
+  return out;
+}
+
+/**
+ * Build a tile's full BC4 payload from its finest-level u08 image: the finest
+ * level as given, each coarser level by 2x2 averaging of the one above,
+ * concatenated finest-first as the format stores them.
+ */
+export function encodeTileMipChain(
+  image: Uint8Array,
+  resolution: number,
+  mipMapLevels: number,
+): Uint8Array {
+  let bytes = 0;
+  for (let lev = 0, r = resolution; lev < mipMapLevels; lev++, r >>= 1) {
+    bytes += (r * r) >> 1;
+  }
+  const bc4 = new Uint8Array(bytes);
+  let level: Uint8Array = image;
+  let levelRes = resolution;
+  let offset = 0;
+  for (let lev = 0; lev < mipMapLevels; lev++) {
+    encodeBC4Level(level, levelRes, bc4, offset);
+    offset += (levelRes * levelRes) >> 1;
+    if (lev + 1 < mipMapLevels) {
+      level = downsample2x(level, levelRes);
+      levelRes >>= 1;
+    }
+  }
+  return bc4;
+}
@@ -0,0 +1,80 @@
+/**
+ * BED and BEDPE feature parsers, for user-supplied features such as pileup
+ * anchors.
+ *
+ * BED format reference:
+ *   - Header lines start with "track", "browser", or "#"
+ *   - Data lines: chrom  chromStart  chromEnd  [name  ...]
+ *
+ * BEDPE format reference:
+ *   - Data lines: chrom1  start1  end1  chrom2  start2  end2  [name  ...]
+ *
+ * Coordinates are 0-based, half-open. Fields are tab-separated; lines with
+ * too few fields or non-numeric coordinates are skipped.
+ */
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+export interface BEDFeature {
+  chrom: string;
+  start: number;   // 0-based
+  end: number;     // exclusive
+  name: string | null;
+}
+
+export interface BEDPEFeature {
+  chrom1: string;
+  start1: number;
+  end1: number;
+  chrom2: string;
+  start2: number;
+  end2: number;
+  name: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/** Data lines of a BED-like file, split into fields. */
+function dataLines(text: string): string[][] {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith('#') && !line.startsWith('track') && !line.startsWith('browser'))
+    .map((line) => line.split('\t'));
+}
+
+function coordinate(field: string | undefined): number {
+  return /^\d+$/.test(field ?? '') ? parseInt(field!, 10) : NaN;
+}
+
+/** Parse BED text into features. */
+export function parseBED(text: string): BEDFeature[] {
+  const features: BEDFeature[] = [];
+  for (const fields of dataLines(text)) {
+    const start = coordinate(fields[1]);
+    const end = coordinate(fields[2]);
+    if (isNaN(start) || isNaN(end)) continue;
+    features.push({ chrom: fields[0], start, end, name: fields[3] || null });
+  }
+  return features;
+}
+
+/** Parse BEDPE text into paired features. */
+export function parseBEDPE(text: string): BEDPEFeature[] {
+  const features: BEDPEFeature[] = [];
+  for (const fields of dataLines(text)) {
+    const [start1, end1, start2, end2] = [1, 2, 4, 5].map((k) => coordinate(fields[k]));
+    if ([start1, end1, start2, end2].some(isNaN)) continue;
+    features.push({
+      chrom1: fields[0], start1, end1,
+      chrom2: fields[3], start2, end2,
+      name: fields[6] || null,
+    });
+  }
+  return features;
+}
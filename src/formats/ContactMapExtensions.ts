@@ -0,0 +1,17 @@
+/**
+ * Contact map filename extensions.
+ *
+ * Kept apart from ContactMapFormats, which imports every parser, so that
+ * exporters and session I/O can name their output files without pulling in
+ * the parser graph. Format detection never uses these.
+ */
+
+const CONTACT_MAP_EXTENSION = /\.(pretext|hic|m?cool|pairs(\.gz)?)$/i;
+
+/**
+ * A contact map filename without its format extension, the base that export
+ * and session filenames are built on. Other names are returned unchanged.
+ */
+export function stripContactMapExtension(filename: string): string {
+  return filename.replace(CONTACT_MAP_EXTENSION, '');
+}
@@ -0,0 +1,48 @@
+/**
+ * Contact map format detection and dispatch.
+ *
+ * Every supported input is assembled into the same `AssembledPretext` shape
+ * (header, contigs, raw BC4 tiles, overview), so the loader, tile streaming
+ * and everything downstream stay format-agnostic. Coolers are the exception
+ * for tiles: they carry a `source` that detail tiles are read from lazily.
+ * Detection is by magic bytes, never by file extension.
+ */
+
+import { isPretextFile, parseAndAssemble, type AssembledPretext } from './PretextParser';
+import { isHiCFile, parseAndAssembleHiC } from './HiCParser';
+import { isCoolerFile, parseAndAssembleCooler } from './CoolerParser';
+import { isPairsFile, parseAndAssemblePairs } from './PairsParser';
+
+export type ContactMapFormat = 'pretext' | 'hic' | 'cooler' | 'pairs';
+
+/** Identify a contact map buffer, or null if it is not a supported format. */
+export function detectContactMapFormat(buffer: ArrayBuffer): ContactMapFormat | null {
+  if (isPretextFile(buffer)) return 'pretext';
+  if (isHiCFile(buffer)) return 'hic';
+  if (isCoolerFile(buffer)) return 'cooler';
+  if (isPairsFile(buffer)) return 'pairs';
+  return null;
+}
+
+/**
+ * Parse any supported contact map and assemble its overview. Pure (no
+ * DOM/GPU), so it runs in the parse worker as well as on the main thread.
+ */
+export async function parseAndAssembleContactMap(
+  buffer: ArrayBuffer,
+  onProgress?: (message: string, percent: number) => void,
+): Promise<AssembledPretext> {
+  const format = detectContactMapFormat(buffer);
+  switch (format) {
+    case 'pretext':
+      return parseAndAssemble(buffer, onProgress);
+    case 'hic':
+      return parseAndAssembleHiC(buffer, { onProgress });
+    case 'cooler':
+      return parseAndAssembleCooler(buffer, { onProgress });
+    case 'pairs':
+      return parseAndAssemblePairs(buffer, { onProgress });
+    default:
+      throw new Error('Unrecognized contact map format (expected .pretext, .hic, .cool, .mcool or .pairs)');
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Shared layout helpers for contact map formats that are not stored as
+ * .pretext (Juicer .hic, cooler/mcool, 4DN .pairs).
+ *
+ * These formats describe contacts between genomic bins or positions. To reuse the .pretext
+ * pipeline they are placed on a square pixel map with the same tile grid, mip
+ * chain and contig pixel spans a .pretext file of that size would have, so the
+ * reader, TileManager and curation code cannot tell the difference.
+ */
+
+import { tileLinearIndex, type PretextContig, type PretextHeader } from './PretextParser';
+import { encodeTileMipChain } from './BC4Encoder';
+
+const MAX_TEXTURE_RES = 10; // 1024 px tiles, as PretextMap writes them
+const MAX_MIP_LEVELS = 6;
+
+/** A named sequence with its length in base pairs. */
+export interface LayoutChromosome {
+  name: string;
+  length: number;
+}
+
+export function nextPow2(n: number): number {
+  let p = 1;
+  while (p < n) p <<= 1;
+  return p;
+}
+
+/**
+ * Build the PretextHeader for a map `numberOfPixels1D` wide and the contig
+ * list with pixel spans reconstructed exactly as the .pretext reader does.
+ */
+export function buildContactMapLayout(
+  chromosomes: LayoutChromosome[],
+  numberOfPixels1D: number,
+): { header: PretextHeader; contigs: PretextContig[] } {
+  const log2Pixels = Math.round(Math.log2(numberOfPixels1D));
+  const textureRes = Math.min(MAX_TEXTURE_RES, log2Pixels);
+  const nTextRes = log2Pixels - textureRes;
+  // Coarsest mip must still hold one 4x4 BC4 block.
+  const mipMapLevels = Math.max(1, Math.min(MAX_MIP_LEVELS, textureRes - 1));
+  const textureResolution = 1 << textureRes;
+  const numberOfTextures1D = 1 << nTextRes;
+  let bytesPerTexture = 0;
+  for (let i = 0, r = textureResolution; i < mipMapLevels; i++, r >>= 1) {
+    bytesPerTexture += (r * r) >> 1;
+  }
+
+  const total = chromosomes.reduce((sum, chr) => sum + chr.length, 0);
+  const header: PretextHeader = {
+    totalGenomeLength: BigInt(total),
+    numberOfContigs: chromosomes.length,
+    textureRes,
+    nTextRes,
+    mipMapLevels,
+    textureResolution,
+    numberOfTextures1D,
+    numberOfPixels1D,
+    numberOfTextureBlocks: ((numberOfTextures1D + 1) * numberOfTextures1D) >> 1,
+    bytesPerTexture,
+  };
+
+  const contigs: PretextContig[] = [];
+  let cumulative = 0;
+  for (const chr of chromosomes) {
+    const fractionalLength = Math.fround(chr.length / total);
+    const start = cumulative;
+    cumulative += fractionalLength;
+    contigs.push({
+      name: chr.name,
+      fractionalLength,
+      length: chr.length,
+      pixelStart: Math.floor(start * numberOfPixels1D),
+      pixelEnd: Math.floor(cumulative * numberOfPixels1D),
+    });
+  }
+  if (contigs.length > 0) contigs[contigs.length - 1].pixelEnd = numberOfPixels1D;
+
+  return { header, contigs };
+}
+
+/**
+ * Pixel range [start, end) covered by the base-pair interval [bpStart, bpEnd)
+ * of a contig. Always at least one pixel, clamped to the contig's span.
+ */
+export function bpRangeToPixels(
+  contig: PretextContig,
+  bpStart: number,
+  bpEnd: number,
+): [number, number] {
+  const span = contig.pixelEnd - contig.pixelStart;
+  const p0 = contig.pixelStart + Math.floor((bpStart / contig.length) * span);
+  const p1 = contig.pixelStart + Math.floor((Math.min(contig.length, bpEnd) / contig.length) * span);
+  const start = Math.min(p0, contig.pixelEnd - 1);
+  return [start, Math.max(start + 1, Math.min(p1, contig.pixelEnd))];
+}
+
+const HISTOGRAM_BINS = 4096;
+
+/** The `q` quantile of log1p(value) over all nonzero pixels (1 when empty). */
+export function nonzeroLogPercentile(tiles: (Float32Array | null)[], q: number): number {
+  let maxLog = 0;
+  let n = 0;
+  for (const tile of tiles) {
+    if (!tile) continue;
+    for (let i = 0; i < tile.length; i++) {
+      if (tile[i] > 0) {
+        n++;
+        const l = Math.log1p(tile[i]);
+        if (l > maxLog) maxLog = l;
+      }
+    }
+  }
+  if (n === 0 || maxLog === 0) return 1;
+
+  const hist = new Uint32Array(HISTOGRAM_BINS);
+  const scale = (HISTOGRAM_BINS - 1) / maxLog;
+  for (const tile of tiles) {
+    if (!tile) continue;
+    for (let i = 0; i < tile.length; i++) {
+      if (tile[i] > 0) hist[Math.floor(Math.log1p(tile[i]) * scale)]++;
+    }
+  }
+  const target = Math.ceil(n * q);
+  let seen = 0;
+  for (let b = 0; b < HISTOGRAM_BINS; b++) {
+    seen += hist[b];
+    if (seen >= target) return Math.max((b + 1) / scale, Number.EPSILON);
+  }
+  return maxLog;
+}
+
+// ---------------------------------------------------------------------------
+// Count accumulation and tile encoding
+// ---------------------------------------------------------------------------
+
+/**
+ * Accumulates raw contact counts into a map's upper-triangular tile grid and
+ * encodes them as BC4 tiles with the full mip chain, the way PretextMap would.
+ * Tiles are allocated when first touched, so memory follows the occupied grid.
+ */
+export class ContactTileAccumulator {
+  private counts: (Float32Array | null)[];
+  private readonly res: number;
+  private readonly n: number;
+
+  constructor(private readonly header: PretextHeader) {
+    this.counts = new Array(header.numberOfTextureBlocks).fill(null);
+    this.res = header.textureResolution;
+    this.n = header.numberOfTextures1D;
+  }
+
+  /**
+   * Add `v` contacts between map pixels gx and gy. Each unordered pixel pair
+   * is stored once off the tile diagonal; diagonal tiles hold both triangles
+   * explicitly, so call this once per contact, not once per orientation.
+   */
+  addContact(gx: number, gy: number, v: number): void {
+    this.add(gx, gy, v);
+    if (gx !== gy && Math.floor(gx / this.res) === Math.floor(gy / this.res)) this.add(gy, gx, v);
+  }
+
+  /**
+   * Scale counts to 8-bit intensities on a log scale saturating at the 99.9th
+   * percentile of nonzero pixels, then BC4-encode every tile. Releases the
+   * counts as it goes.
+   */
+  encodeTiles(onProgress?: (done: number, total: number) => void): Uint8Array[] {
+    const { res, header, counts } = this;
+    const logCeil = nonzeroLogPercentile(counts, 0.999);
+    const tiles: Uint8Array[] = new Array(counts.length);
+    const image = new Uint8Array(res * res);
+    let emptyTile: Uint8Array | null = null;
+    for (let lin = 0; lin < counts.length; lin++) {
+      const tile = counts[lin];
+      if (!tile) {
+        emptyTile ??= encodeTileMipChain(new Uint8Array(res * res), res, header.mipMapLevels);
+        tiles[lin] = emptyTile;
+        continue;
+      }
+      for (let i = 0; i < tile.length; i++) {
+        const v = tile[i] > 0 ? Math.log1p(tile[i]) / logCeil : 0;
+        image[i] = Math.min(255, Math.round(v * 255));
+      }
+      tiles[lin] = encodeTileMipChain(image, res, header.mipMapLevels);
+      counts[lin] = null;
+      if (lin % Math.max(1, Math.floor(counts.length / 10)) === 0) onProgress?.(lin, counts.length);
+    }
+    // Empty tiles share one buffer; give each its own so the tile array can be
+    // transferred out of a worker buffer by buffer.
+    for (let lin = 0; lin < tiles.length; lin++) {
+      if (tiles[lin] === emptyTile) tiles[lin] = new Uint8Array(emptyTile);
+    }
+    return tiles;
+  }
+
+  private add(gx: number, gy: number, v: number): void {
+    const res = this.res;
+    let tx = Math.floor(gx / res);
+    let ty = Math.floor(gy / res);
+    let x = gx, y = gy;
+    if (tx > ty) { [tx, ty] = [ty, tx]; [x, y] = [y, x]; }
+    const lin = tileLinearIndex(tx, ty, this.n);
+    let tile = this.counts[lin];
+    if (!tile) { tile = new Float32Array(res * res); this.counts[lin] = tile; }
+    tile[(y - ty * res) * res + (x - tx * res)] += v;
+  }
+}
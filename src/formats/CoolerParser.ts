@@ -0,0 +1,608 @@
+/**
+ * Reader for cooler (.cool) and multi-resolution cooler (.mcool) contact
+ * matrices.
+ *
+ * Cooler files are HDF5 containers (read here with h5wasm). A single-resolution
+ * cooler stores, under its root group:
+ *
+ * - `chroms/name`, `chroms/length`: the sequences, in genome order.
+ * - `bins/start`, `bins/end`: one row per genomic bin, grouped by chromosome.
+ * - `pixels/bin1_id`, `pixels/bin2_id`, `pixels/count`: the upper triangle
+ *   (bin1 <= bin2) as a sparse table sorted by bin1 then bin2.
+ * - `indexes/chrom_offset`: first bin of each chromosome (+ end sentinel).
+ * - `indexes/bin1_offset`: first pixel row of each bin1 (+ end sentinel), i.e.
+ *   a CSR row index into `pixels`.
+ *
+ * An .mcool holds one such cooler per bin size under `resolutions/<binSize>`.
+ *
+ * Unlike .hic, a cooler is not assembled into BC4 tiles up front. The map is
+ * laid out exactly like the .pretext/.hic path (same header, contig pixel
+ * spans and tile grid), and each mip level is backed by the stored resolution
+ * closest to that level's pixel size. A `CoolerTileSource` then reads only the
+ * pixel rows a requested tile covers, so large .mcool files are decoded lazily
+ * as the user zooms. At load time only the coarsest level is read, for the
+ * overview.
+ *
+ * Counts are observed (unnormalised). A pixel's value is the mean count per
+ * finest-level map pixel, so every mip level shares one display scale: log
+ * scale saturating at the 99.9th percentile of nonzero overview pixels.
+ */
+
+import type { Dataset, File as H5File, Group } from 'h5wasm';
+import {
+  overviewMipLevel,
+  type AssembledPretext,
+  type OverviewMode,
+  type PretextContig,
+  type PretextHeader,
+} from './PretextParser';
+import {
+  bpRangeToPixels,
+  buildContactMapLayout,
+  nextPow2,
+  nonzeroLogPercentile,
+  type LayoutChromosome,
+} from './ContactMapLayout';
+import type { TileKey } from '../renderer/TileManager';
+
+// ---------------------------------------------------------------------------
+// Public interfaces
+// ---------------------------------------------------------------------------
+
+/** One cooler group: a full contact matrix at a single bin size. */
+export interface CoolerResolution {
+  /** Bin size in bp (mean bin size for variable-width coolers). */
+  binSize: number;
+  /** HDF5 group path of the cooler ('/' for a single-resolution file). */
+  group: string;
+  /** Number of bins (rows of `bins`). */
+  nBins: number;
+}
+
+export interface CoolerParseOptions {
+  /** Largest map dimension in pixels (power of two). Defaults to 32768.
+   *  Tiles are read on demand, so this bounds detail, not load-time memory. */
+  maxPixels?: number;
+  /** Use this bin size for the finest mip level (must be stored in the file). */
+  resolution?: number;
+  onProgress?: (message: string, percent: number) => void;
+}
+
+/**
+ * Everything a tile source needs besides the file bytes and the map layout.
+ * Structured-cloneable, so it travels from the parse worker to the tile
+ * decode worker.
+ */
+export interface CoolerLayout {
+  /** Cooler group backing each parser mip level (index 0 = finest). */
+  levelGroups: string[];
+  /** Bin size of each level's group, parallel to `levelGroups`. */
+  levelBinSizes: number[];
+  /** log1p value that maps to full intensity. */
+  logCeil: number;
+}
+
+/** A lazily read cooler, handed from the parser to the tile decoder. */
+export interface CoolerSource {
+  format: 'cooler';
+  /** The original file bytes. */
+  buffer: ArrayBuffer;
+  layout: CoolerLayout;
+}
+
+const DEFAULT_MAX_PIXELS = 32768;
+const MIN_PIXELS = 256;
+/** Pixel-table rows read per HDF5 slice when scanning a tile's rows. */
+const PIXEL_CHUNK = 1 << 20;
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+const HDF5_SIGNATURE = [0x89, 0x48, 0x44, 0x46, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Quick validation: is this likely a cooler file? Checks for the HDF5
+ * signature; the cooler layout itself is validated when the file is opened.
+ */
+export function isCoolerFile(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < HDF5_SIGNATURE.length) return false;
+  const bytes = new Uint8Array(buffer, 0, HDF5_SIGNATURE.length);
+  return HDF5_SIGNATURE.every((b, i) => bytes[i] === b);
+}
+
+// ---------------------------------------------------------------------------
+// HDF5 access
+// ---------------------------------------------------------------------------
+
+type H5Wasm = typeof import('h5wasm');
+
+let h5wasmModule: Promise<H5Wasm> | null = null;
+
+/**
+ * h5wasm (~4 MB with its embedded wasm) is loaded on first use so it stays
+ * out of the main bundle for users who never open a cooler.
+ */
+function loadH5Wasm(): Promise<H5Wasm> {
+  return (h5wasmModule ??= import('h5wasm').then(async (mod) => {
+    await mod.ready;
+    return mod;
+  }));
+}
+
+/** The slice of Emscripten's FS API used to stage files for h5wasm. */
+interface StagingFS {
+  writeFile(path: string, data: Uint8Array, opts?: { canOwn?: boolean }): void;
+  unlink(path: string): void;
+}
+
+let nextFileId = 0;
+
+/** Convert any numeric HDF5 output (including int64 as BigInt) to numbers. */
+function toNumbers(data: unknown, what: string): Float64Array | Int32Array {
+  if (data instanceof Int32Array) return data;
+  if (data instanceof BigInt64Array || data instanceof BigUint64Array) {
+    const out = new Float64Array(data.length);
+    for (let i = 0; i < data.length; i++) out[i] = Number(data[i]);
+    return out;
+  }
+  if (ArrayBuffer.isView(data) && !(data instanceof DataView)) {
+    return Float64Array.from(data as unknown as ArrayLike<number>);
+  }
+  throw new Error(`Cooler dataset ${what} is not numeric`);
+}
+
+/**
+ * An open cooler/mcool file. Holds the HDF5 handle; call `close()` to release
+ * it (and unstage the file bytes).
+ */
+export class CoolerFile {
+  readonly chromosomes: LayoutChromosome[];
+  /** Stored resolutions, finest first. */
+  readonly resolutions: CoolerResolution[];
+
+  private constructor(
+    private readonly h5: H5Wasm,
+    private readonly file: H5File,
+    private readonly fs: StagingFS,
+    private readonly path: string,
+  ) {
+    this.resolutions = this.findResolutions();
+    if (this.resolutions.length === 0) {
+      this.close();
+      throw new Error('Not a cooler file (no bins/pixels tables found)');
+    }
+    const first = this.resolutions[0].group;
+    const names = this.dataset(first, 'chroms/name').value;
+    const lengths = toNumbers(this.dataset(first, 'chroms/length').value, 'chroms/length');
+    if (!Array.isArray(names) || names.length !== lengths.length) {
+      this.close();
+      throw new Error('Cooler chroms table is malformed');
+    }
+    this.chromosomes = names.map((name, i) => ({ name: String(name), length: lengths[i] }));
+  }
+
+  /**
+   * Open a cooler from its bytes. The buffer is handed to the HDF5 file system
+   * without copying, so it must not be transferred while the file is open.
+   */
+  static async open(buffer: ArrayBuffer): Promise<CoolerFile> {
+    const h5 = await loadH5Wasm();
+    const fs = h5.FS as unknown as StagingFS;
+    const path = `/cooler-${++nextFileId}.h5`;
+    fs.writeFile(path, new Uint8Array(buffer), { canOwn: true });
+    let file: H5File;
+    try {
+      file = new h5.File(path, 'r');
+    } catch (err) {
+      fs.unlink(path);
+      throw err;
+    }
+    return new CoolerFile(h5, file, fs, path);
+  }
+
+  /** Release the HDF5 handle and the staged file. Safe to call twice. */
+  close(): void {
+    try {
+      this.file.close();
+      this.fs.unlink(this.path);
+    } catch {
+      // Already closed.
+    }
+  }
+
+  /** Bin start/end (bp) and per-chromosome bin offsets of a cooler group. */
+  readBins(group: string): { start: ArrayLike<number>; end: ArrayLike<number>; chromOffset: ArrayLike<number> } {
+    return {
+      start: toNumbers(this.dataset(group, 'bins/start').value, 'bins/start'),
+      end: toNumbers(this.dataset(group, 'bins/end').value, 'bins/end'),
+      chromOffset: toNumbers(this.dataset(group, 'indexes/chrom_offset').value, 'indexes/chrom_offset'),
+    };
+  }
+
+  /**
+   * Visit every stored pixel with bin1 in [row0, row1) and bin2 in
+   * [col0, col1). Rows are read in bounded chunks through the bin1 CSR index;
+   * only the matching span of each chunk has its bin1/count columns read.
+   */
+  forEachPixel(
+    group: string,
+    row0: number,
+    row1: number,
+    col0: number,
+    col1: number,
+    visit: (bin1: number, bin2: number, count: number) => void,
+  ): void {
+    if (row1 <= row0 || col1 <= col0) return;
+    const offsets = toNumbers(
+      this.dataset(group, 'indexes/bin1_offset').slice([[row0, row1 + 1]]),
+      'indexes/bin1_offset',
+    );
+    const first = offsets[0];
+    const last = offsets[offsets.length - 1];
+    const bin1Ds = this.dataset(group, 'pixels/bin1_id');
+    const bin2Ds = this.dataset(group, 'pixels/bin2_id');
+    const countDs = this.dataset(group, 'pixels/count');
+
+    for (let s = first; s < last; s += PIXEL_CHUNK) {
+      const e = Math.min(last, s + PIXEL_CHUNK);
+      const bin2 = toNumbers(bin2Ds.slice([[s, e]]), 'pixels/bin2_id');
+      let lo = -1;
+      let hi = -1;
+      for (let i = 0; i < bin2.length; i++) {
+        if (bin2[i] >= col0 && bin2[i] < col1) {
+          if (lo < 0) lo = i;
+          hi = i + 1;
+        }
+      }
+      if (lo < 0) continue;
+      const bin1 = toNumbers(bin1Ds.slice([[s + lo, s + hi]]), 'pixels/bin1_id');
+      const counts = toNumbers(countDs.slice([[s + lo, s + hi]]), 'pixels/count');
+      for (let i = lo; i < hi; i++) {
+        const b2 = bin2[i];
+        if (b2 < col0 || b2 >= col1) continue;
+        const c = counts[i - lo];
+        if (c > 0) visit(bin1[i - lo], b2, c);
+      }
+    }
+  }
+
+  private dataset(group: string, name: string): Dataset {
+    const path = group === '/' ? name : `${group}/${name}`;
+    const entity = this.file.get(path);
+    if (!(entity instanceof this.h5.Dataset)) {
+      throw new Error(`Cooler file is missing ${path}`);
+    }
+    return entity;
+  }
+
+  private isCoolerGroup(group: Group): boolean {
+    const keys = group.keys();
+    return keys.includes('bins') && keys.includes('pixels') && keys.includes('chroms');
+  }
+
+  private findResolutions(): CoolerResolution[] {
+    const found: CoolerResolution[] = [];
+    const describe = (group: Group, path: string, fallbackSize: number) => {
+      const starts = group.get('bins/start');
+      const nBins = starts instanceof this.h5.Dataset ? starts.shape?.[0] ?? 0 : 0;
+      const attr = group.attrs['bin-size']?.value;
+      let binSize = typeof attr === 'bigint' ? Number(attr) : typeof attr === 'number' ? attr : fallbackSize;
+      if (!(binSize > 0) && nBins > 0) {
+        // Variable-width bins: use the mean bin size.
+        const lengths = toNumbers(this.dataset(path, 'chroms/length').value, 'chroms/length');
+        let total = 0;
+        for (let i = 0; i < lengths.length; i++) total += lengths[i];
+        binSize = total / nBins;
+      }
+      found.push({ binSize, group: path, nBins });
+    };
+
+    const resolutions = this.file.get('resolutions');
+    if (resolutions instanceof this.h5.Group) {
+      for (const key of resolutions.keys()) {
+        const group = resolutions.get(key);
+        if (group instanceof this.h5.Group && this.isCoolerGroup(group)) {
+          describe(group, `resolutions/${key}`, Number(key));
+        }
+      }
+    } else if (this.isCoolerGroup(this.file)) {
+      describe(this.file, '/', NaN);
+    }
+    return found.sort((a, b) => a.binSize - b.binSize);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Level planning
+// ---------------------------------------------------------------------------
+
+/**
+ * Pick the finest resolution whose bin count fits in `maxPixels`, or the
+ * coarsest one if none fits.
+ */
+export function chooseCoolerResolution(resolutions: CoolerResolution[], maxPixels: number): CoolerResolution {
+  if (resolutions.length === 0) throw new Error('Cooler file stores no resolutions');
+  for (const res of resolutions) {
+    if (res.nBins <= maxPixels) return res;
+  }
+  return resolutions[resolutions.length - 1];
+}
+
+/**
+ * Assign a stored resolution to every parser mip level (0 = finest). Level 0
+ * uses `finest`; each coarser level uses the coarsest stored resolution that
+ * still has at least one bin per level pixel, so a tile never reads many more
+ * bins than it has pixels.
+ */
+export function planCoolerLevels(
+  resolutions: CoolerResolution[],
+  finest: CoolerResolution,
+  header: PretextHeader,
+): CoolerResolution[] {
+  const candidates = resolutions.filter(r => r.binSize >= finest.binSize);
+  const bpPerPixel = Number(header.totalGenomeLength) / header.numberOfPixels1D;
+  const levels: CoolerResolution[] = [];
+  for (let level = 0; level < header.mipMapLevels; level++) {
+    const target = Math.max(finest.binSize, bpPerPixel * (1 << level));
+    let pick = finest;
+    for (const r of candidates) {
+      if (r.binSize <= target) pick = r;
+    }
+    levels.push(pick);
+  }
+  return levels;
+}
+
+// ---------------------------------------------------------------------------
+// On-demand tile source
+// ---------------------------------------------------------------------------
+
+/** Finest-level pixel span [start, end) of every bin in one cooler group. */
+interface BinPixels {
+  start: Int32Array;
+  end: Int32Array;
+}
+
+/** Display intensity [0, 1] for a mean count per map pixel. */
+function intensity(value: number, logCeil: number): number {
+  return value > 0 ? Math.min(1, Math.log1p(value) / logCeil) : 0;
+}
+
+/** First index in the non-decreasing array `a` with a[i] > v. */
+function upperBound(a: Int32Array, v: number): number {
+  let lo = 0;
+  let hi = a.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (a[mid] > v) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+/**
+ * Reads detail tiles straight from a cooler, one mip level per stored
+ * resolution. Used by the tile decode worker in place of raw BC4 bytes.
+ */
+export class CoolerTileSource {
+  private binPixels = new Map<string, BinPixels>();
+
+  constructor(
+    private readonly file: CoolerFile,
+    private readonly header: PretextHeader,
+    private readonly contigs: PretextContig[],
+    readonly layout: CoolerLayout,
+  ) {}
+
+  /** Open the cooler in `source` for the map described by `header`/`contigs`. */
+  static async open(
+    source: CoolerSource,
+    header: PretextHeader,
+    contigs: PretextContig[],
+  ): Promise<CoolerTileSource> {
+    const file = await CoolerFile.open(source.buffer);
+    return new CoolerTileSource(file, header, contigs, source.layout);
+  }
+
+  close(): void {
+    this.file.close();
+  }
+
+  /**
+   * Mean count per finest map pixel for the upper-triangular tile (tx <= ty)
+   * at a parser mip level, row-major with x along tile column tx.
+   */
+  readTileValues(parserLevel: number, tx: number, ty: number): Float32Array {
+    const res = this.header.textureResolution >> parserLevel;
+    const out = new Float32Array(res * res);
+    const group = this.layout.levelGroups[parserLevel];
+    const bins = this.getBinPixels(group);
+
+    const T = this.header.textureResolution;
+    const x0 = tx * T, x1 = x0 + T;
+    const y0 = ty * T, y1 = y0 + T;
+    const area = 1 << (2 * parserLevel); // finest pixels per level pixel
+
+    // Bins overlapping each axis: end > start of range and start < end of range.
+    const rowStart = upperBound(bins.end, x0);
+    const rowEnd = upperBound(bins.start, x1 - 1);
+    const colStart = upperBound(bins.end, y0);
+    const colEnd = upperBound(bins.start, y1 - 1);
+
+    // Spread one bin-pair rectangle over the level pixels it overlaps,
+    // weighted by overlap area so a level pixel holds the mean per finest pixel.
+    const addRect = (xs: number, xe: number, ys: number, ye: number, count: number) => {
+      const cx0 = Math.max(xs, x0), cx1 = Math.min(xe, x1);
+      const cy0 = Math.max(ys, y0), cy1 = Math.min(ye, y1);
+      if (cx0 >= cx1 || cy0 >= cy1) return;
+      const density = count / ((xe - xs) * (ye - ys) * area);
+      const lx0 = (cx0 - x0) >> parserLevel, lx1 = ((cx1 - 1 - x0) >> parserLevel) + 1;
+      const ly0 = (cy0 - y0) >> parserLevel, ly1 = ((cy1 - 1 - y0) >> parserLevel) + 1;
+      for (let ly = ly0; ly < ly1; ly++) {
+        const py0 = Math.max(cy0, y0 + (ly << parserLevel));
+        const py1 = Math.min(cy1, y0 + ((ly + 1) << parserLevel));
+        for (let lx = lx0; lx < lx1; lx++) {
+          const px0 = Math.max(cx0, x0 + (lx << parserLevel));
+          const px1 = Math.min(cx1, x0 + ((lx + 1) << parserLevel));
+          out[ly * res + lx] += density * (px1 - px0) * (py1 - py0);
+        }
+      }
+    };
+
+    this.file.forEachPixel(group, rowStart, rowEnd, colStart, colEnd, (b1, b2, count) => {
+      addRect(bins.start[b1], bins.end[b1], bins.start[b2], bins.end[b2], count);
+      // The matrix is symmetric; add the mirrored rectangle where it falls in
+      // this tile (the whole lower triangle of diagonal tiles).
+      if (b1 !== b2) addRect(bins.start[b2], bins.end[b2], bins.start[b1], bins.end[b1], count);
+    });
+    return out;
+  }
+
+  /**
+   * Decode a tile for the renderer. Same contract as `decodeTile` in
+   * TileDecoder: TileManager level convention, mirrored below the diagonal,
+   * intensities in [0, 1].
+   */
+  decodeTile(key: TileKey): Float32Array {
+    const parserLevel = (this.header.mipMapLevels - 1) - key.level;
+    const res = this.header.textureResolution >> parserLevel;
+    const transpose = key.col > key.row;
+    const tx = transpose ? key.row : key.col;
+    const ty = transpose ? key.col : key.row;
+    const values = this.readTileValues(parserLevel, tx, ty);
+
+    const out = new Float32Array(res * res);
+    const logCeil = this.layout.logCeil;
+    for (let y = 0; y < res; y++) {
+      for (let x = 0; x < res; x++) {
+        const v = transpose ? values[x * res + y] : values[y * res + x];
+        out[y * res + x] = intensity(v, logCeil);
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Assemble the whole map at one parser mip level as mean counts per finest
+   * map pixel (symmetric, row-major).
+   */
+  assembleLevelValues(parserLevel: number): { values: Float32Array; size: number } {
+    const N = this.header.numberOfTextures1D;
+    const res = this.header.textureResolution >> parserLevel;
+    const size = N * res;
+    const values = new Float32Array(size * size);
+    for (let tx = 0; tx < N; tx++) {
+      for (let ty = tx; ty < N; ty++) {
+        const tile = this.readTileValues(parserLevel, tx, ty);
+        for (let py = 0; py < res; py++) {
+          for (let px = 0; px < res; px++) {
+            const v = tile[py * res + px];
+            const gx = tx * res + px;
+            const gy = ty * res + py;
+            values[gy * size + gx] = v;
+            values[gx * size + gy] = v;
+          }
+        }
+      }
+    }
+    return { values, size };
+  }
+
+  /** The whole map at one parser mip level as display intensities. */
+  assembleLevel(parserLevel: number): { overview: Float32Array; overviewSize: number } {
+    const { values, size } = this.assembleLevelValues(parserLevel);
+    const logCeil = this.layout.logCeil;
+    for (let i = 0; i < values.length; i++) values[i] = intensity(values[i], logCeil);
+    return { overview: values, overviewSize: size };
+  }
+
+  /** Overview texture in the given mode, matching `assembleOverview`. */
+  assembleOverview(mode: OverviewMode): { overview: Float32Array; overviewSize: number } {
+    return this.assembleLevel(overviewMipLevel(this.header, mode));
+  }
+
+  private getBinPixels(group: string): BinPixels {
+    let cached = this.binPixels.get(group);
+    if (cached) return cached;
+
+    const bins = this.file.readBins(group);
+    const nBins = bins.start.length;
+    const start = new Int32Array(nBins);
+    const end = new Int32Array(nBins);
+    const nChroms = Math.min(this.contigs.length, bins.chromOffset.length - 1);
+    for (let c = 0; c < nChroms; c++) {
+      for (let b = bins.chromOffset[c]; b < bins.chromOffset[c + 1] && b < nBins; b++) {
+        [start[b], end[b]] = bpRangeToPixels(this.contigs[c], bins.start[b], bins.end[b]);
+      }
+    }
+    cached = { start, end };
+    this.binPixels.set(group, cached);
+    return cached;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Parse + overview assembly
+// ---------------------------------------------------------------------------
+
+/**
+ * Open a cooler/mcool, lay it out as a .pretext-shaped map and assemble the
+ * overview from its coarsest level. Detail tiles are not read here: the
+ * result's `source` carries the file to a `CoolerTileSource`. Pure (no
+ * DOM/GPU), so it runs in the parse worker.
+ */
+export async function parseAndAssembleCooler(
+  buffer: ArrayBuffer,
+  options?: CoolerParseOptions,
+): Promise<AssembledPretext> {
+  const onProgress = options?.onProgress;
+  onProgress?.('Opening cooler file...', 5);
+  const file = await CoolerFile.open(buffer);
+  try {
+    if (file.chromosomes.length === 0) {
+      throw new Error('Cooler file lists no chromosomes');
+    }
+
+    const maxPixels = nextPow2(options?.maxPixels ?? DEFAULT_MAX_PIXELS);
+    let finest: CoolerResolution;
+    if (options?.resolution !== undefined) {
+      const forced = file.resolutions.find(r => r.binSize === options.resolution);
+      if (!forced) throw new Error(`Resolution ${options.resolution} bp is not stored in this cooler file`);
+      finest = forced;
+    } else {
+      finest = chooseCoolerResolution(file.resolutions, maxPixels);
+    }
+    const mapSize = Math.min(maxPixels, Math.max(MIN_PIXELS, nextPow2(finest.nBins)));
+    const { header, contigs } = buildContactMapLayout(file.chromosomes, mapSize);
+    const levels = planCoolerLevels(file.resolutions, finest, header);
+    const layout: CoolerLayout = {
+      levelGroups: levels.map(r => r.group),
+      levelBinSizes: levels.map(r => r.binSize),
+      logCeil: 1,
+    };
+
+    onProgress?.(`Reading ${levels[levels.length - 1].binSize} bp contacts...`, 20);
+    const source = new CoolerTileSource(file, header, contigs, layout);
+    const { values, size } = source.assembleLevelValues(header.mipMapLevels - 1);
+
+    // Log scale saturating at the 99.9th percentile of nonzero overview pixels.
+    onProgress?.('Scaling intensities...', 85);
+    layout.logCeil = nonzeroLogPercentile([values], 0.999);
+    for (let i = 0; i < values.length; i++) values[i] = intensity(values[i], layout.logCeil);
+
+    return {
+      header,
+      contigs,
+      extensions: [],
+      tiles: [],
+      overview: values,
+      overviewSize: size,
+      mapSize,
+      source: { format: 'cooler', buffer, layout },
+    };
+  } finally {
+    // Unstage before the buffer is handed on (and possibly transferred).
+    file.close();
+  }
+}
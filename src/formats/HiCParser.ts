@@ -0,0 +1,439 @@
+/**
+ * Parser for Juicer .hic contact matrix files (format versions 7–9).
+ *
+ * A .hic file is read into the same shape a .pretext file is: a tile grid of
+ * BC4-encoded textures with mip levels, a PretextHeader describing it, and a
+ * contig list with pixel spans. Everything downstream (overview, detail tile
+ * streaming, curation, analysis, export including .pretext) then works on it
+ * unchanged.
+ *
+ * File layout (see https://github.com/aidenlab/hic-format):
+ *
+ * 1. Magic 'HIC\0', version (i32), master index position (i64), genome id
+ *    (string). Version 9 adds the normalization vector index position and
+ *    length (i64, i64).
+ * 2. Attributes: count (i32) + key/value string pairs.
+ * 3. Chromosomes: count (i32) + name (string) and length (i32; i64 in v9).
+ *    Index 0 is the synthetic whole-genome "All" entry.
+ * 4. Base-pair resolutions: count (i32) + bin sizes (i32).
+ * 5. Master index (at its position): byte count (i32; i64 in v9), entry count
+ *    (i32), then per entry key "<chr1>_<chr2>", position (i64) and size (i32).
+ * 6. Per chromosome pair, a matrix record: chr indices, then one zoom record per
+ *    resolution listing its blocks (number, position, size).
+ * 7. Blocks are zlib-compressed contact records (sparse rows or dense).
+ *
+ * Strings are null-terminated; all integers little-endian.
+ *
+ * Counts are observed (unnormalised). The finest resolution whose total bin
+ * count fits the target map size is used; the map dimension is the next power
+ * of two at or above that bin count, so each bin covers one or a few pixels.
+ * Counts become 8-bit intensities on a log scale saturating at the 99.9th
+ * percentile of nonzero pixels.
+ */
+
+import pako from 'pako';
+import {
+  assembleOverview,
+  type AssembledPretext,
+} from './PretextParser';
+import {
+  bpRangeToPixels,
+  buildContactMapLayout,
+  nextPow2,
+  ContactTileAccumulator,
+} from './ContactMapLayout';
+
+// ---------------------------------------------------------------------------
+// Public interfaces
+// ---------------------------------------------------------------------------
+
+export interface HiCChromosome {
+  /** Index used in master-index keys and matrix records. */
+  index: number;
+  name: string;
+  length: number;
+}
+
+export interface HiCHeader {
+  version: number;
+  genomeId: string;
+  attributes: Map<string, string>;
+  /** Chromosomes excluding the whole-genome "All" entry. */
+  chromosomes: HiCChromosome[];
+  /** Base-pair bin sizes as listed in the file (usually coarsest first). */
+  bpResolutions: number[];
+  /** Master index: "<chr1>_<chr2>" -> matrix record location. */
+  masterIndex: Map<string, { position: number; size: number }>;
+}
+
+export interface HiCBlockIndexEntry {
+  blockNumber: number;
+  position: number;
+  size: number;
+}
+
+export interface HiCZoomData {
+  unit: string;
+  binSize: number;
+  blockBinCount: number;
+  blockColumnCount: number;
+  blocks: HiCBlockIndexEntry[];
+}
+
+export interface HiCContactRecord {
+  binX: number;
+  binY: number;
+  counts: number;
+}
+
+export interface HiCParseOptions {
+  /** Largest map dimension in pixels (power of two). Defaults to 8192.
+   *  Tiles are accumulated densely, so memory grows with its square. */
+  maxPixels?: number;
+  /** Force a bin size instead of picking one (must be listed in the file). */
+  resolution?: number;
+  onProgress?: (message: string, percent: number) => void;
+}
+
+const DEFAULT_MAX_PIXELS = 8192;
+const MIN_PIXELS = 256;
+
+// ---------------------------------------------------------------------------
+// Binary cursor
+// ---------------------------------------------------------------------------
+
+class Cursor {
+  private view: DataView;
+  private bytes: Uint8Array;
+  offset: number;
+
+  constructor(bytes: Uint8Array, offset = 0) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.offset = offset;
+  }
+
+  private need(n: number): void {
+    if (this.offset + n > this.bytes.length) {
+      throw new Error(`Unexpected end of .hic data at byte ${this.offset}`);
+    }
+  }
+
+  byte(): number { this.need(1); return this.bytes[this.offset++]; }
+  i16(): number { this.need(2); const v = this.view.getInt16(this.offset, true); this.offset += 2; return v; }
+  i32(): number { this.need(4); const v = this.view.getInt32(this.offset, true); this.offset += 4; return v; }
+  f32(): number { this.need(4); const v = this.view.getFloat32(this.offset, true); this.offset += 4; return v; }
+  i64(): number {
+    this.need(8);
+    const v = this.view.getBigInt64(this.offset, true);
+    this.offset += 8;
+    return Number(v);
+  }
+  string(): string {
+    let end = this.offset;
+    while (end < this.bytes.length && this.bytes[end] !== 0) end++;
+    if (end >= this.bytes.length) throw new Error('Unterminated string in .hic data');
+    const s = new TextDecoder().decode(this.bytes.subarray(this.offset, end));
+    this.offset = end + 1;
+    return s;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Header, master index, matrix records, blocks
+// ---------------------------------------------------------------------------
+
+/**
+ * Quick validation: is this likely a .hic file?
+ * Checks for the 'HIC\0' magic bytes.
+ */
+export function isHiCFile(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < 4) return false;
+  const b = new Uint8Array(buffer, 0, 4);
+  return b[0] === 0x48 && b[1] === 0x49 && b[2] === 0x43 && b[3] === 0x00;
+}
+
+/**
+ * Parse the .hic header and master index.
+ */
+export function parseHiCHeader(buffer: ArrayBuffer): HiCHeader {
+  if (!isHiCFile(buffer)) {
+    throw new Error("Invalid .hic file: expected magic 'HIC'");
+  }
+  const bytes = new Uint8Array(buffer);
+  const c = new Cursor(bytes, 4);
+
+  const version = c.i32();
+  if (version < 7 || version > 9) {
+    throw new Error(`Unsupported .hic version ${version} (7–9 are supported)`);
+  }
+  const masterIndexPosition = c.i64();
+  const genomeId = c.string();
+  if (version >= 9) {
+    c.i64(); // normVectorIndexPosition
+    c.i64(); // normVectorIndexLength
+  }
+
+  const attributes = new Map<string, string>();
+  const nAttributes = c.i32();
+  for (let i = 0; i < nAttributes; i++) {
+    const key = c.string();
+    attributes.set(key, c.string());
+  }
+
+  const chromosomes: HiCChromosome[] = [];
+  const nChrs = c.i32();
+  for (let i = 0; i < nChrs; i++) {
+    const name = c.string();
+    const length = version >= 9 ? c.i64() : c.i32();
+    if (name.toLowerCase() === 'all') continue;
+    chromosomes.push({ index: i, name, length });
+  }
+
+  const bpResolutions: number[] = [];
+  const nBpRes = c.i32();
+  for (let i = 0; i < nBpRes; i++) bpResolutions.push(c.i32());
+
+  const masterIndex = new Map<string, { position: number; size: number }>();
+  const mi = new Cursor(bytes, masterIndexPosition);
+  if (version >= 9) mi.i64(); else mi.i32(); // nBytes
+  const nEntries = mi.i32();
+  for (let i = 0; i < nEntries; i++) {
+    const key = mi.string();
+    const position = mi.i64();
+    const size = mi.i32();
+    masterIndex.set(key, { position, size });
+  }
+
+  return { version, genomeId, attributes, chromosomes, bpResolutions, masterIndex };
+}
+
+/**
+ * Read the zoom record for one chromosome pair at a base-pair bin size.
+ * Returns null when the pair has no matrix or no data at that resolution.
+ */
+export function readHiCZoomData(
+  buffer: ArrayBuffer,
+  header: HiCHeader,
+  chr1Index: number,
+  chr2Index: number,
+  binSize: number,
+): HiCZoomData | null {
+  const lo = Math.min(chr1Index, chr2Index);
+  const hi = Math.max(chr1Index, chr2Index);
+  const entry = header.masterIndex.get(`${lo}_${hi}`);
+  if (!entry) return null;
+
+  const c = new Cursor(new Uint8Array(buffer), entry.position);
+  c.i32(); // chr1
+  c.i32(); // chr2
+  const nResolutions = c.i32();
+  for (let r = 0; r < nResolutions; r++) {
+    const unit = c.string();
+    c.i32(); // zoom index
+    c.f32(); // sumCounts
+    c.f32(); // occupiedCellCount
+    c.f32(); // stdDev
+    c.f32(); // percent95
+    const zoomBinSize = c.i32();
+    const blockBinCount = c.i32();
+    const blockColumnCount = c.i32();
+    const nBlocks = c.i32();
+    const blocks: HiCBlockIndexEntry[] = [];
+    for (let b = 0; b < nBlocks; b++) {
+      blocks.push({ blockNumber: c.i32(), position: c.i64(), size: c.i32() });
+    }
+    if (unit === 'BP' && zoomBinSize === binSize) {
+      return { unit, binSize: zoomBinSize, blockBinCount, blockColumnCount, blocks };
+    }
+  }
+  return null;
+}
+
+/**
+ * Decompress and decode one contact block.
+ */
+export function readHiCBlock(
+  buffer: ArrayBuffer,
+  block: HiCBlockIndexEntry,
+  version: number,
+): HiCContactRecord[] {
+  if (block.size <= 0) return [];
+  const compressed = new Uint8Array(buffer, block.position, block.size);
+  let data: Uint8Array;
+  try {
+    data = pako.inflate(compressed);
+  } catch (e) {
+    throw new Error(`Failed to decompress .hic block ${block.blockNumber}: ${e}`);
+  }
+
+  const c = new Cursor(data);
+  const nRecords = c.i32();
+  const records: HiCContactRecord[] = [];
+
+  if (version < 7) {
+    for (let i = 0; i < nRecords; i++) {
+      records.push({ binX: c.i32(), binY: c.i32(), counts: c.f32() });
+    }
+    return records;
+  }
+
+  const binXOffset = c.i32();
+  const binYOffset = c.i32();
+  const useShortCounts = c.byte() === 0;
+  let useIntX = false;
+  let useIntY = false;
+  if (version >= 9) {
+    useIntX = c.byte() === 1;
+    useIntY = c.byte() === 1;
+  }
+  const type = c.byte();
+
+  if (type === 1) {
+    // Sparse: list of rows, each a list of (column, count).
+    const rowCount = useIntY ? c.i32() : c.i16();
+    for (let i = 0; i < rowCount; i++) {
+      const binY = binYOffset + (useIntY ? c.i32() : c.i16());
+      const colCount = useIntX ? c.i32() : c.i16();
+      for (let j = 0; j < colCount; j++) {
+        const binX = binXOffset + (useIntX ? c.i32() : c.i16());
+        const counts = useShortCounts ? c.i16() : c.f32();
+        records.push({ binX, binY, counts });
+      }
+    }
+  } else if (type === 2) {
+    // Dense: row-major values of width w; sentinel marks empty cells.
+    const nPts = c.i32();
+    const w = c.i16();
+    for (let i = 0; i < nPts; i++) {
+      const row = Math.floor(i / w);
+      const col = i - row * w;
+      if (useShortCounts) {
+        const counts = c.i16();
+        if (counts !== -32768) records.push({ binX: binXOffset + col, binY: binYOffset + row, counts });
+      } else {
+        const counts = c.f32();
+        if (!Number.isNaN(counts)) records.push({ binX: binXOffset + col, binY: binYOffset + row, counts });
+      }
+    }
+  } else {
+    throw new Error(`Unknown .hic block type ${type}`);
+  }
+
+  return records;
+}
+
+/**
+ * Pick the finest base-pair resolution whose total bin count fits in
+ * `maxPixels`, or the coarsest one if none fits.
+ */
+export function chooseHiCResolution(header: HiCHeader, maxPixels: number): number {
+  if (header.bpResolutions.length === 0) {
+    throw new Error('.hic file lists no base-pair resolutions');
+  }
+  const totalBins = (binSize: number) =>
+    header.chromosomes.reduce((sum, chr) => sum + Math.ceil(chr.length / binSize), 0);
+  const sorted = [...header.bpResolutions].sort((a, b) => a - b);
+  for (const binSize of sorted) {
+    if (totalBins(binSize) <= maxPixels) return binSize;
+  }
+  return sorted[sorted.length - 1];
+}
+
+// ---------------------------------------------------------------------------
+// Assembly into the .pretext tile layout
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a .hic file and assemble it into the .pretext tile layout plus the
+ * downsampled overview. Pure (no DOM/GPU), so it runs in the parse worker.
+ */
+export async function parseAndAssembleHiC(
+  buffer: ArrayBuffer,
+  options?: HiCParseOptions,
+): Promise<AssembledPretext> {
+  const onProgress = options?.onProgress;
+  onProgress?.('Reading .hic header...', 5);
+  const hic = parseHiCHeader(buffer);
+  if (hic.chromosomes.length === 0) {
+    throw new Error('.hic file lists no chromosomes');
+  }
+
+  const maxPixels = nextPow2(options?.maxPixels ?? DEFAULT_MAX_PIXELS);
+  const binSize = options?.resolution ?? chooseHiCResolution(hic, maxPixels);
+  if (!hic.bpResolutions.includes(binSize)) {
+    throw new Error(`Resolution ${binSize} bp is not stored in this .hic file`);
+  }
+  const totalBins = hic.chromosomes.reduce((s, chr) => s + Math.ceil(chr.length / binSize), 0);
+  const mapSize = Math.min(maxPixels, Math.max(MIN_PIXELS, nextPow2(totalBins)));
+  const { header, contigs } = buildContactMapLayout(hic.chromosomes, mapSize);
+
+  // Per-chromosome bin -> pixel range tables ([start, end) per bin).
+  const binPixelStart = new Map<number, Int32Array>();
+  const binPixelEnd = new Map<number, Int32Array>();
+  hic.chromosomes.forEach((chr, i) => {
+    const nBins = Math.ceil(chr.length / binSize);
+    const starts = new Int32Array(nBins);
+    const ends = new Int32Array(nBins);
+    for (let b = 0; b < nBins; b++) {
+      [starts[b], ends[b]] = bpRangeToPixels(contigs[i], b * binSize, (b + 1) * binSize);
+    }
+    binPixelStart.set(chr.index, starts);
+    binPixelEnd.set(chr.index, ends);
+  });
+
+  const counts = new ContactTileAccumulator(header);
+
+  const pairs: Array<[HiCChromosome, HiCChromosome]> = [];
+  for (let i = 0; i < hic.chromosomes.length; i++) {
+    for (let j = i; j < hic.chromosomes.length; j++) {
+      pairs.push([hic.chromosomes[i], hic.chromosomes[j]]);
+    }
+  }
+
+  let pairsDone = 0;
+  for (const [chrA, chrB] of pairs) {
+    const zoom = readHiCZoomData(buffer, hic, chrA.index, chrB.index, binSize);
+    if (zoom) {
+      const startsA = binPixelStart.get(chrA.index)!, endsA = binPixelEnd.get(chrA.index)!;
+      const startsB = binPixelStart.get(chrB.index)!, endsB = binPixelEnd.get(chrB.index)!;
+      for (const block of zoom.blocks) {
+        for (const rec of readHiCBlock(buffer, block, hic.version)) {
+          if (!(rec.counts > 0)) continue;
+          if (rec.binX < 0 || rec.binX >= startsA.length || rec.binY < 0 || rec.binY >= startsB.length) continue;
+          const x0 = startsA[rec.binX], x1 = endsA[rec.binX];
+          const y0 = startsB[rec.binY], y1 = endsB[rec.binY];
+          for (let gy = y0; gy < y1; gy++) {
+            for (let gx = x0; gx < x1; gx++) counts.addContact(gx, gy, rec.counts);
+          }
+        }
+      }
+    }
+    pairsDone++;
+    if (pairsDone % Math.max(1, Math.floor(pairs.length / 20)) === 0) {
+      onProgress?.(
+        `Reading contacts... (${pairsDone}/${pairs.length} chromosome pairs)`,
+        5 + Math.round((pairsDone / pairs.length) * 55),
+      );
+    }
+  }
+
+  // Log scale saturating at the 99.9th percentile of nonzero pixels.
+  onProgress?.('Encoding tiles...', 62);
+  const tiles = counts.encodeTiles((done, total) => {
+    onProgress?.('Encoding tiles...', 62 + Math.round((done / total) * 28));
+  });
+
+  onProgress?.('Assembling contact map...', 92);
+  const { overview, overviewSize } = assembleOverview(tiles, header, 'clean');
+
+  return {
+    header,
+    contigs,
+    extensions: [],
+    tiles,
+    overview,
+    overviewSize,
+    mapSize,
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * PAF (Pairwise mApping Format) parser, for alignments of the assembly's
+ * contigs (queries) against a related reference genome (targets), as
+ * minimap2 writes them.
+ *
+ * PAF columns, tab-separated (0-based, half-open coordinates):
+ *   0 queryName   1 queryLength   2 queryStart   3 queryEnd   4 strand (+/-)
+ *   5 targetName  6 targetLength  7 targetStart  8 targetEnd
+ *   9 matches     10 blockLength  11 mapq        12+ SAM-like tags (ignored)
+ *
+ * Pure: no DOM or app-state dependencies. Malformed lines are skipped.
+ */
+
+// ---------------------------------------------------------------------------
+// Public types
+// ---------------------------------------------------------------------------
+
+export interface PAFRecord {
+  queryName: string;
+  queryLength: number;
+  queryStart: number;
+  queryEnd: number;
+  /** True when the query aligns to the reverse strand of the target. */
+  reverse: boolean;
+  targetName: string;
+  targetLength: number;
+  targetStart: number;
+  targetEnd: number;
+  /** Matching bases in the alignment. */
+  matches: number;
+  /** Alignment block length, gaps included. */
+  blockLength: number;
+  /** Mapping quality (0-255; 255 when missing). */
+  mapq: number;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function integer(field: string | undefined): number {
+  return /^\d+$/.test(field ?? '') ? parseInt(field!, 10) : NaN;
+}
+
+/** Parse PAF text into alignment records. */
+export function parsePAF(text: string): PAFRecord[] {
+  const records: PAFRecord[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (line.length === 0 || line.startsWith('#')) continue;
+
+    const cols = line.split('\t');
+    if (cols.length < 12) continue;
+    if (cols[4] !== '+' && cols[4] !== '-') continue;
+
+    const [queryLength, queryStart, queryEnd] = [1, 2, 3].map((k) => integer(cols[k]));
+    const [targetLength, targetStart, targetEnd, matches, blockLength, mapq] =
+      [6, 7, 8, 9, 10, 11].map((k) => integer(cols[k]));
+    if ([queryLength, queryStart, queryEnd, targetLength, targetStart, targetEnd, matches, blockLength, mapq].some(isNaN)) {
+      continue;
+    }
+    if (queryEnd <= queryStart || targetEnd <= targetStart) continue;
+
+    records.push({
+      queryName: cols[0],
+      queryLength, queryStart, queryEnd,
+      reverse: cols[4] === '-',
+      targetName: cols[5],
+      targetLength, targetStart, targetEnd,
+      matches, blockLength, mapq,
+    });
+  }
+  return records;
+}
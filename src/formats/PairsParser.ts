@@ -0,0 +1,266 @@
+/**
+ * Parser for 4DN .pairs files (plain or gzip/bgzip compressed).
+ *
+ * A .pairs file is a tab-separated list of read pairs, one per line, preceded
+ * by '#' header lines (see https://github.com/4dn-dcic/pairix/blob/master/pairs_format_specification.md):
+ *
+ * - `## pairs format v1.0` — required first line.
+ * - `#chromsize: <name> <length>` — one per sequence, in genome order. These
+ *   define the contig layout of the map.
+ * - `#columns: readID chr1 pos1 chr2 pos2 ...` — column names; the reserved
+ *   first five columns are used when this line is absent.
+ *
+ * Positions are 1-based. Pairs whose chromosome is not listed in a
+ * `#chromsize` line (e.g. '!' for unmapped ends) are skipped.
+ *
+ * There are no bins to choose from, so the map dimension is the next power of
+ * two at or above one pixel per kilobase, capped at `maxPixels`. Each pair adds
+ * one contact to the pixel pair its two ends fall in; the counts are then
+ * encoded into the same BC4 tile/mip layout PretextMap writes. Every read end
+ * also counts towards a per-pixel 'coverage' graph extension, which
+ * EmbeddedTracks shows as the coverage track.
+ */
+
+import pako from 'pako';
+import {
+  assembleOverview,
+  type AssembledPretext,
+  type PretextContig,
+} from './PretextParser';
+import {
+  bpRangeToPixels,
+  buildContactMapLayout,
+  nextPow2,
+  ContactTileAccumulator,
+  type LayoutChromosome,
+} from './ContactMapLayout';
+
+// ---------------------------------------------------------------------------
+// Public interfaces
+// ---------------------------------------------------------------------------
+
+export interface PairsHeader {
+  /** Sequences from `#chromsize` lines, in file order. */
+  chromosomes: LayoutChromosome[];
+  /** Column names from `#columns`, or the reserved 4DN defaults. */
+  columns: string[];
+}
+
+export interface PairsParseOptions {
+  /** Largest map dimension in pixels (power of two). Defaults to 8192.
+   *  Tiles are accumulated densely, so memory grows with its square. */
+  maxPixels?: number;
+  onProgress?: (message: string, percent: number) => void;
+}
+
+const DEFAULT_MAX_PIXELS = 8192;
+const MIN_PIXELS = 256;
+/** Finest pixel size (bp) worth building; smaller maps are just sparse. */
+const MIN_BP_PER_PIXEL = 1000;
+/** Compressed/plain bytes fed to the line splitter per step. */
+const READ_CHUNK = 1 << 20;
+
+const PAIRS_MAGIC = '## pairs format';
+const DEFAULT_COLUMNS = ['readID', 'chr1', 'pos1', 'chr2', 'pos2'];
+
+// ---------------------------------------------------------------------------
+// Detection
+// ---------------------------------------------------------------------------
+
+function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+}
+
+/** The first few KB of the (decompressed) file as text. */
+function peekText(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 64 * 1024));
+  if (!isGzip(bytes)) return new TextDecoder().decode(bytes);
+  const chunks: Uint8Array[] = [];
+  const inflator = new pako.Inflate();
+  inflator.onData = (chunk) => chunks.push(chunk as Uint8Array);
+  inflator.push(bytes, false);
+  return chunks.length > 0 ? new TextDecoder().decode(chunks[0]) : '';
+}
+
+/**
+ * Quick validation: is this a .pairs file? Checks for the required
+ * `## pairs format` first line, decompressing the start of gzipped input.
+ */
+export function isPairsFile(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < PAIRS_MAGIC.length) return false;
+  try {
+    return peekText(buffer).startsWith(PAIRS_MAGIC);
+  } catch {
+    return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Line reading
+// ---------------------------------------------------------------------------
+
+/**
+ * Call `onLine` for every line of a plain or gzip-compressed text buffer,
+ * decompressing and decoding in bounded chunks so the whole text never has to
+ * exist as one string. `onProgress` receives the fraction of input consumed.
+ */
+export function forEachLine(
+  buffer: ArrayBuffer,
+  onLine: (line: string) => void,
+  onProgress?: (fraction: number) => void,
+): void {
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  const consume = (chunk: Uint8Array, final: boolean) => {
+    const text = pending + decoder.decode(chunk, { stream: !final });
+    let start = 0;
+    for (let nl = text.indexOf('\n'); nl >= 0; nl = text.indexOf('\n', start)) {
+      const end = nl > start && text.charCodeAt(nl - 1) === 13 ? nl - 1 : nl;
+      onLine(text.slice(start, end));
+      start = nl + 1;
+    }
+    pending = text.slice(start);
+  };
+
+  if (isGzip(bytes)) {
+    const inflator = new pako.Inflate();
+    inflator.onData = (chunk) => consume(chunk as Uint8Array, false);
+    for (let offset = 0; offset < bytes.length; offset += READ_CHUNK) {
+      const end = Math.min(bytes.length, offset + READ_CHUNK);
+      inflator.push(bytes.subarray(offset, end), end === bytes.length);
+      if (inflator.err) throw new Error(`Corrupt gzip data in .pairs file: ${inflator.msg}`);
+      onProgress?.(end / bytes.length);
+    }
+  } else {
+    for (let offset = 0; offset < bytes.length; offset += READ_CHUNK) {
+      const end = Math.min(bytes.length, offset + READ_CHUNK);
+      consume(bytes.subarray(offset, end), false);
+      onProgress?.(end / bytes.length);
+    }
+  }
+  consume(new Uint8Array(0), true);
+  if (pending.length > 0) onLine(pending);
+}
+
+// ---------------------------------------------------------------------------
+// Header
+// ---------------------------------------------------------------------------
+
+/**
+ * Interpret one '#' header line, updating `header` in place. Returns false
+ * for lines that are not header lines.
+ */
+function readHeaderLine(line: string, header: PairsHeader): boolean {
+  if (!line.startsWith('#')) return false;
+  if (line.startsWith('#chromsize:')) {
+    const [name, length] = line.slice('#chromsize:'.length).trim().split(/\s+/);
+    const bp = Number(length);
+    if (name && bp > 0) header.chromosomes.push({ name, length: bp });
+  } else if (line.startsWith('#columns:')) {
+    header.columns = line.slice('#columns:'.length).trim().split(/\s+/);
+  }
+  return true;
+}
+
+/** Read just the header lines of a .pairs file. */
+export function parsePairsHeader(buffer: ArrayBuffer): PairsHeader {
+  const header: PairsHeader = { chromosomes: [], columns: DEFAULT_COLUMNS };
+  const text = peekText(buffer);
+  for (const line of text.split('\n')) {
+    if (!readHeaderLine(line.replace(/\r$/, ''), header)) break;
+  }
+  return header;
+}
+
+// ---------------------------------------------------------------------------
+// Parse + assembly
+// ---------------------------------------------------------------------------
+
+/**
+ * Bin a .pairs file into the .pretext tile layout, assemble the overview and
+ * derive a coverage extension. Pure (no DOM/GPU), so it runs in the parse
+ * worker.
+ */
+export async function parseAndAssemblePairs(
+  buffer: ArrayBuffer,
+  options?: PairsParseOptions,
+): Promise<AssembledPretext> {
+  const onProgress = options?.onProgress;
+  onProgress?.('Reading .pairs header...', 5);
+
+  const header: PairsHeader = { chromosomes: [], columns: DEFAULT_COLUMNS };
+  let inHeader = true;
+  let layout: ReturnType<typeof buildContactMapLayout> | null = null;
+  let counts: ContactTileAccumulator | null = null;
+  let coverage: Int32Array | null = null;
+  let contigByName = new Map<string, PretextContig>();
+  let cols = { chr1: 1, pos1: 2, chr2: 3, pos2: 4 };
+  let pairsRead = 0;
+
+  const startBody = () => {
+    inHeader = false;
+    if (header.chromosomes.length === 0) {
+      throw new Error('.pairs file has no #chromsize header lines');
+    }
+    const maxPixels = nextPow2(options?.maxPixels ?? DEFAULT_MAX_PIXELS);
+    const total = header.chromosomes.reduce((s, c) => s + c.length, 0);
+    const mapSize = Math.min(maxPixels, Math.max(MIN_PIXELS, nextPow2(Math.ceil(total / MIN_BP_PER_PIXEL))));
+    layout = buildContactMapLayout(header.chromosomes, mapSize);
+    counts = new ContactTileAccumulator(layout.header);
+    coverage = new Int32Array(mapSize);
+    contigByName = new Map(layout.contigs.map(c => [c.name, c]));
+    const index = (name: string) => {
+      const i = header.columns.indexOf(name);
+      if (i < 0) throw new Error(`.pairs #columns line has no ${name} column`);
+      return i;
+    };
+    cols = { chr1: index('chr1'), pos1: index('pos1'), chr2: index('chr2'), pos2: index('pos2') };
+  };
+
+  forEachLine(
+    buffer,
+    (line) => {
+      if (inHeader) {
+        if (readHeaderLine(line, header)) return;
+        startBody();
+      }
+      if (line.length === 0 || line.startsWith('#')) return;
+      const fields = line.split('\t');
+      const c1 = contigByName.get(fields[cols.chr1]);
+      const c2 = contigByName.get(fields[cols.chr2]);
+      if (!c1 || !c2) return;
+      const pos1 = Number(fields[cols.pos1]) - 1;
+      const pos2 = Number(fields[cols.pos2]) - 1;
+      if (!(pos1 >= 0 && pos2 >= 0)) return;
+      const p1 = bpRangeToPixels(c1, pos1, pos1 + 1)[0];
+      const p2 = bpRangeToPixels(c2, pos2, pos2 + 1)[0];
+      counts!.addContact(p1, p2, 1);
+      coverage![p1]++;
+      coverage![p2]++;
+      pairsRead++;
+    },
+    (fraction) => onProgress?.('Binning read pairs...', 5 + Math.round(fraction * 70)),
+  );
+  if (inHeader) startBody();
+
+  const { header: h, contigs } = layout!;
+  onProgress?.(`Encoding tiles (${pairsRead.toLocaleString()} pairs)...`, 76);
+  const tiles = counts!.encodeTiles((done, total) => {
+    onProgress?.('Encoding tiles...', 76 + Math.round((done / total) * 14));
+  });
+
+  onProgress?.('Assembling contact map...', 92);
+  const { overview, overviewSize } = assembleOverview(tiles, h, 'clean');
+
+  return {
+    header: h,
+    contigs,
+    extensions: [{ name: 'coverage', data: coverage! }],
+    tiles,
+    overview,
+    overviewSize,
+    mapSize: h.numberOfPixels1D,
+  };
+}
@@ -1,13 +1,14 @@
 /**
- * ParseWorker — parses a .pretext file off the main thread.
+ * ParseWorker — parses a contact map file (.pretext, .hic, .cool/.mcool,
+ * .pairs) off the main thread.
  *
  * Parsing a 30–200 MB file (full-file inflate + BC4 overview decode) blocks the
  * UI for seconds when done on the main thread. This worker runs the heavy
- * `parseAndAssemble` and transfers the overview + raw tile buffers back
+ * `parseAndAssembleContactMap` and transfers the overview + raw tile buffers back
  * zero-copy, so the only thing the main thread does is upload to the GPU.
  */
 
-import { parseAndAssemble } from './PretextParser';
+import { parseAndAssembleContactMap } from './ContactMapFormats';
 
 interface ParseRequest {
   buffer: ArrayBuffer;
@@ -17,7 +18,7 @@ self.onmessage = async (event: MessageEvent<ParseRequest>) => {
   const { buffer } = event.data;
   const post = (self as unknown as Worker).postMessage.bind(self);
   try {
-    const result = await parseAndAssemble(buffer, (message, percent) => {
+    const result = await parseAndAssembleContactMap(buffer, (message, percent) => {
       post({ type: 'progress', message, percent });
     });
     // Transfer the large buffers (overview + raw tiles) back zero-copy.
@@ -25,6 +26,8 @@ self.onmessage = async (event: MessageEvent<ParseRequest>) => {
     const buffers = new Set<ArrayBufferLike>();
     buffers.add(result.overview.buffer);
     for (const t of result.tiles) buffers.add(t.buffer);
+    // Lazily read formats hand the file bytes back for the tile decoder.
+    if (result.source) buffers.add(result.source.buffer);
     post({ type: 'result', result }, Array.from(buffers) as Transferable[]);
   } catch (e) {
     post({ type: 'error', message: (e as Error).message });
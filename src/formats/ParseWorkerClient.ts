@@ -1,12 +1,13 @@
 /**
- * ParseWorkerClient — main-thread client for the .pretext parse worker.
+ * ParseWorkerClient — main-thread client for the contact map parse worker.
  *
- * Runs `parseAndAssemble` in a worker (transferring the input buffer in and the
+ * Runs `parseAndAssembleContactMap` in a worker (transferring the input buffer in and the
  * overview + raw tiles back), with a synchronous fallback for environments
  * without Web Workers (tests, file:// protocol).
  */
 
-import { parseAndAssemble, type AssembledPretext } from './PretextParser';
+import type { AssembledPretext } from './PretextParser';
+import { parseAndAssembleContactMap } from './ContactMapFormats';
 
 type ProgressCb = (message: string, percent: number) => void;
 
@@ -25,14 +26,14 @@ export class ParseWorkerClient {
   }
 
   /**
-   * Parse a .pretext buffer. When a worker is available the buffer is
+   * Parse a .pretext, .hic, cooler or .pairs buffer. When a worker is available the buffer is
    * transferred to it (the main thread no longer needs the raw bytes); otherwise
    * parsing runs synchronously on the main thread.
    */
   parse(buffer: ArrayBuffer, onProgress?: ProgressCb): Promise<AssembledPretext> {
     const worker = this.worker;
     if (!worker) {
-      return parseAndAssemble(buffer, onProgress);
+      return parseAndAssembleContactMap(buffer, onProgress);
     }
 
     return new Promise<AssembledPretext>((resolve, reject) => {
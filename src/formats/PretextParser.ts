@@ -27,6 +27,7 @@
  */
 
 import pako from 'pako';
+import type { CoolerSource } from './CoolerParser';
 
 // ---------------------------------------------------------------------------
 // Public interfaces
@@ -213,7 +214,7 @@ function decodeBC4Level(
  *  large files instead of arriving in one burst when a single Promise.all settles. */
 const INFLATE_BATCH = 128;
 
-async function inflateRawTiles(
+export async function inflateRawTiles(
   comps: (Uint8Array | null)[],
   fallbackLen: number,
   onTileDone?: () => void,
@@ -287,9 +288,17 @@ export interface ParseOptions {
   onProgress?: (message: string, percent: number) => void;
 }
 
-export async function parsePretextFile(buffer: ArrayBuffer, options?: ParseOptions): Promise<PretextFile> {
-  const bytes = new Uint8Array(buffer);
-  const view = new DataView(buffer);
+/**
+ * Parse the magic, header sizes and compressed header at the start of a
+ * .pretext file. `tileSectionOffset` is where the first texture block starts.
+ * Throws if the magic is wrong or `bytes` ends before the header does.
+ */
+export function parsePretextHeader(bytes: Uint8Array): {
+  header: PretextHeader;
+  contigs: PretextContig[];
+  tileSectionOffset: number;
+} {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
   let offset = 0;
 
   // ---- 1. Validate magic bytes ----
@@ -429,6 +438,16 @@ export async function parsePretextFile(buffer: ArrayBuffer, options?: ParseOptio
     bytesPerTexture,
   };
 
+  return { header, contigs, tileSectionOffset: offset };
+}
+
+export async function parsePretextFile(buffer: ArrayBuffer, options?: ParseOptions): Promise<PretextFile> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const { header, contigs, tileSectionOffset } = parsePretextHeader(bytes);
+  const { mipMapLevels, textureResolution, numberOfTextureBlocks, bytesPerTexture } = header;
+  let offset = tileSectionOffset;
+
   // Resolve coarsestOnly into decodeLevels
   if (options?.coarsestOnly && !options.decodeLevels) {
     options = { ...options, decodeLevels: [mipMapLevels - 1] };
@@ -509,6 +528,27 @@ export async function parsePretextFile(buffer: ArrayBuffer, options?: ParseOptio
   }
 
   // ---- 7. Read extensions ----
+  const extensions = parsePretextExtensions(bytes, offset, header.numberOfPixels1D);
+
+  return {
+    header,
+    contigs,
+    tiles,
+    tilesDecoded,
+    extensions,
+  };
+}
+
+/**
+ * Read the graph extensions that follow the tile section, starting at
+ * `offset`. Unknown bytes are skipped.
+ */
+export function parsePretextExtensions(
+  bytes: Uint8Array,
+  offset: number,
+  numberOfPixels1D: number,
+): PretextExtension[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
   const extensions: PretextExtension[] = [];
   const GRAPH_MAGIC = [0x70, 0x73, 0x67, 0x68]; // 'psgh'
 
@@ -578,13 +618,7 @@ export async function parsePretextFile(buffer: ArrayBuffer, options?: ParseOptio
     }
   }
 
-  return {
-    header,
-    contigs,
-    tiles,
-    tilesDecoded,
-    extensions,
-  };
+  return extensions;
 }
 
 // ---------------------------------------------------------------------------
@@ -603,6 +637,11 @@ export interface AssembledPretext {
   overviewSize: number;
   /** Full-resolution map dimension (numberOfPixels1D). */
   mapSize: number;
+  /**
+   * Set when detail tiles are read lazily from the source file rather than
+   * from `tiles` (which is then empty), e.g. for cooler/mcool input.
+   */
+  source?: CoolerSource;
 }
 
 /**
@@ -682,6 +721,22 @@ export type OverviewMode = 'clean' | 'faithful';
  *  compute. The finest mip whose full overview fits this cap is used. */
 const FAITHFUL_MAX_SIZE = 2048;
 
+/**
+ * The parser mip level (0 = finest) an overview of the given mode is built
+ * from. Clean uses the coarsest mip; faithful steps to the finest mip whose
+ * full overview still fits FAITHFUL_MAX_SIZE.
+ */
+export function overviewMipLevel(header: PretextHeader, mode: OverviewMode): number {
+  let srcMip = header.mipMapLevels - 1;
+  if (mode === 'faithful') {
+    const N = header.numberOfTextures1D;
+    while (srcMip > 0 && N * (header.textureResolution >> (srcMip - 1)) <= FAITHFUL_MAX_SIZE) {
+      srcMip--;
+    }
+  }
+  return srcMip;
+}
+
 /**
  * Re-assemble the overview texture from already-inflated raw BC4 tile bytes,
  * in the file's original contig order.
@@ -704,47 +759,70 @@ export function assembleOverview(
   mode: OverviewMode,
 ): { overview: Float32Array; overviewSize: number } {
   const N = header.numberOfTextures1D;
-  const coarsestMip = header.mipMapLevels - 1;
-
-  // Clean uses the coarsest mip; faithful steps to the finest mip whose full
-  // overview still fits FAITHFUL_MAX_SIZE.
-  let srcMip = coarsestMip;
-  if (mode === 'faithful') {
-    while (srcMip > 0 && N * (header.textureResolution >> (srcMip - 1)) <= FAITHFUL_MAX_SIZE) {
-      srcMip--;
-    }
-  }
+  const srcMip = overviewMipLevel(header, mode);
   const srcRes = header.textureResolution >> srcMip;
   const overviewSize = N * srcRes;
   const overview = new Float32Array(overviewSize * overviewSize);
 
+  for (let tx = 0; tx < N; tx++) {
+    for (let ty = tx; ty < N; ty++) {
+      const tile = rawTiles[tileLinearIndex(tx, ty, N)];
+      if (tile) paintOverviewTile(overview, overviewSize, tile, tx, ty, header, srcMip);
+    }
+  }
+
+  return { overview, overviewSize };
+}
+
+/**
+ * Decode parser mip `srcMip` of one raw tile (upper-triangular, tx <= ty) and
+ * write it into an overview at that mip's resolution, mirrored across the
+ * diagonal. Does nothing if the tile is too short to hold the level. Returns
+ * the decoded level, or null.
+ */
+export function paintOverviewTile(
+  overview: Float32Array,
+  overviewSize: number,
+  tile: Uint8Array,
+  tx: number,
+  ty: number,
+  header: PretextHeader,
+  srcMip: number,
+): Float32Array | null {
+  const srcRes = header.textureResolution >> srcMip;
   // BC4 byte offset of srcMip within a tile (sum of finer levels' sizes).
   let srcOffset = 0;
   for (let lev = 0, r = header.textureResolution; lev < srcMip; lev++) {
     srcOffset += (r * r) >> 1;
     r >>= 1;
   }
-  const srcBytes = (srcRes * srcRes) >> 1;
+  if (srcOffset + ((srcRes * srcRes) >> 1) > tile.length) return null;
+  const src = decodeBC4Level(tile, srcOffset, srcRes);
+  blitOverviewTile(overview, overviewSize, src, srcRes, tx, ty);
+  return src;
+}
 
-  for (let tx = 0; tx < N; tx++) {
-    for (let ty = tx; ty < N; ty++) {
-      const tile = rawTiles[tileLinearIndex(tx, ty, N)];
-      if (!tile || srcOffset + srcBytes > tile.length) continue;
-      const src = decodeBC4Level(tile, srcOffset, srcRes);
-
-      for (let py = 0; py < srcRes; py++) {
-        for (let px = 0; px < srcRes; px++) {
-          const val = src[py * srcRes + px];
-          const gx = tx * srcRes + px;
-          const gy = ty * srcRes + py;
-          overview[gy * overviewSize + gx] = val;
-          overview[gx * overviewSize + gy] = val;
-        }
-      }
+/**
+ * Write one decoded tile level (`srcRes`², row-major, tx <= ty) into an
+ * overview at that resolution, mirrored across the diagonal.
+ */
+export function blitOverviewTile(
+  overview: Float32Array,
+  overviewSize: number,
+  src: Float32Array,
+  srcRes: number,
+  tx: number,
+  ty: number,
+): void {
+  for (let py = 0; py < srcRes; py++) {
+    for (let px = 0; px < srcRes; px++) {
+      const val = src[py * srcRes + px];
+      const gx = tx * srcRes + px;
+      const gy = ty * srcRes + py;
+      overview[gy * overviewSize + gx] = val;
+      overview[gx * overviewSize + gy] = val;
     }
   }
-
-  return { overview, overviewSize };
 }
 
 // ---------------------------------------------------------------------------
@@ -0,0 +1,363 @@
+/**
+ * Stream a remote .pretext file over HTTP range requests instead of
+ * downloading it whole before parsing.
+ *
+ * A .pretext file has no table of tile offsets: the tile section is a run of
+ * length-prefixed raw-deflate blocks (docs/PRETEXT_FORMAT.md), and each block
+ * holds every mip level of its tile, coarsest last. So loading goes:
+ *
+ * 1. `openRemotePretext` range-requests the first 64 KiB and parses the
+ *    header (contigs and tile grid) from it, so the map can be laid out
+ *    before any tiles arrive.
+ * 2. `PretextStreamSource.stream` reads the tile section once, front to back.
+ *    Each block's offset goes into the tile index as it passes, its coarse
+ *    mip is painted into the overview (reported per tile, so the overview
+ *    fills in progressively) and its bytes are dropped. The graph extensions
+ *    after the tiles are read at the end.
+ * 3. `PretextStreamSource.decodeTile` range-requests single blocks by index
+ *    for the detail tiles TileManager asks for. A tile the stream has not
+ *    reached yet is taken from the stream when it gets there.
+ *
+ * Only the overview, the index and a few inflated tiles stay in memory,
+ * whatever the file size. Servers that ignore `Range` get the whole-file
+ * download instead (`openRemotePretext` resolves null).
+ */
+
+import {
+  inflateRawTiles,
+  isPretextFile,
+  overviewMipLevel,
+  paintOverviewTile,
+  parsePretextExtensions,
+  parsePretextHeader,
+  tileLinearIndex,
+  type OverviewMode,
+  type PretextContig,
+  type PretextExtension,
+  type PretextHeader,
+} from './PretextParser';
+import { decodeTileData } from '../renderer/TileDecoder';
+import type { TileKey } from '../renderer/TileManager';
+
+/** Bytes requested up front: the header, and the span the autosave fingerprint hashes. */
+const HEAD_BYTES = 64 * 1024;
+
+/** Inflated tiles kept for detail decoding (each is ~0.7 MB at 1024 px). */
+const MAX_CACHED_TILES = 16;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A remote .pretext whose header has been read. Structured-cloneable. */
+export interface RemotePretextInfo {
+  url: string;
+  header: PretextHeader;
+  contigs: PretextContig[];
+  /** Byte offset of the first texture block. */
+  tileSectionOffset: number;
+  /** Size of the whole file in bytes. */
+  fileSize: number;
+  /** The first bytes of the file (up to 64 KiB), for fingerprinting. */
+  head: Uint8Array;
+}
+
+/** One tile as the stream passes it. */
+export interface StreamedTile {
+  /** Upper-triangular tile coordinates (col <= row). */
+  col: number;
+  row: number;
+  /** The tile's coarsest mip, row-major, at `overviewMipLevel(header, 'clean')` resolution. */
+  data: Float32Array;
+}
+
+export interface StreamProgress {
+  tilesRead: number;
+  totalTiles: number;
+  bytesRead: number;
+  totalBytes: number;
+}
+
+// ---------------------------------------------------------------------------
+// HTTP
+// ---------------------------------------------------------------------------
+
+function fetchRange(url: string, start: number, end?: number, signal?: AbortSignal): Promise<Response> {
+  return fetch(url, {
+    headers: { Range: `bytes=${start}-${end ?? ''}` },
+    signal,
+  });
+}
+
+/** Total size from a `Content-Range: bytes a-b/total` header, or null. */
+export function contentRangeTotal(header: string | null): number | null {
+  const match = header?.match(/\/(\d+)\s*$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Read the header of the .pretext at `url` with a range request. Resolves
+ * null when the server does not serve ranges or the file is not a .pretext
+ * (callers then download it whole); rejects on HTTP errors.
+ */
+export async function openRemotePretext(url: string): Promise<RemotePretextInfo | null> {
+  const response = await fetchRange(url, 0, HEAD_BYTES - 1);
+  if (!response.ok) throw new Error(`Download failed: ${response.status}`);
+  const fileSize = contentRangeTotal(response.headers.get('content-range'));
+  if (response.status !== 206 || fileSize === null) {
+    // A 200 is the whole file; leave that download to the caller.
+    void response.body?.cancel();
+    return null;
+  }
+
+  let head = new Uint8Array(await response.arrayBuffer());
+  if (head.length < 12 || !isPretextFile(head.buffer)) return null;
+
+  // Very large assemblies can have a header longer than the first request.
+  const headerEnd = 12 + new DataView(head.buffer).getUint32(4, true);
+  if (headerEnd > head.length) {
+    const rest = await fetchRange(url, 0, headerEnd - 1);
+    if (rest.status !== 206) throw new Error(`Download failed: ${rest.status}`);
+    head = new Uint8Array(await rest.arrayBuffer());
+  }
+
+  const { header, contigs, tileSectionOffset } = parsePretextHeader(head);
+  return { url, header, contigs, tileSectionOffset, fileSize, head: head.slice(0, HEAD_BYTES) };
+}
+
+// ---------------------------------------------------------------------------
+// Byte queue
+// ---------------------------------------------------------------------------
+
+/**
+ * The stream's unread bytes, kept as the chunks the network delivered so a
+ * block is copied once, when it is complete, however many chunks it spans.
+ */
+class ByteQueue {
+  private chunks: Uint8Array[] = [];
+  /** Read position in chunks[0]. */
+  private head = 0;
+  length = 0;
+
+  push(chunk: Uint8Array): void {
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  /** The little-endian u32 at the read position (length >= 4), without consuming it. */
+  peekUint32(): number {
+    let value = 0;
+    let chunk = 0;
+    let at = this.head;
+    for (let i = 0; i < 4; i++) {
+      while (at === this.chunks[chunk].length) { chunk++; at = 0; }
+      value |= this.chunks[chunk][at++] << (8 * i);
+    }
+    return value >>> 0;
+  }
+
+  /** Remove and return the next `n` bytes (n <= length). */
+  take(n: number): Uint8Array {
+    const first = this.chunks[0];
+    if (first && first.length - this.head >= n) {
+      const out = first.subarray(this.head, this.head + n);
+      this.advance(n);
+      return out;
+    }
+    const out = new Uint8Array(n);
+    let filled = 0;
+    while (filled < n) {
+      const chunk = this.chunks[0];
+      const count = Math.min(n - filled, chunk.length - this.head);
+      out.set(chunk.subarray(this.head, this.head + count), filled);
+      filled += count;
+      this.advance(count);
+    }
+    return out;
+  }
+
+  private advance(n: number): void {
+    this.head += n;
+    this.length -= n;
+    if (this.head === this.chunks[0].length) {
+      this.chunks.shift();
+      this.head = 0;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Source
+// ---------------------------------------------------------------------------
+
+/**
+ * Tiles of a remote .pretext, streamed once for the overview and fetched one
+ * by one for detail. Used by the tile decode worker in place of raw BC4 bytes.
+ */
+export class PretextStreamSource {
+  readonly header: PretextHeader;
+  /** Data offset (after the size prefix) and compressed size per tile; -1 until indexed. */
+  private offsets: Float64Array;
+  private sizes: Uint32Array;
+  private indexed = 0;
+  private streaming = false;
+  /** Detail requests for tiles the stream has not reached yet. */
+  private waiting = new Map<number, ((tile: Uint8Array | undefined) => void)[]>();
+  /** Inflated tiles, oldest first. */
+  private cache = new Map<number, Promise<Uint8Array | undefined>>();
+  private controller = new AbortController();
+
+  private cleanMip: number;
+  private clean: { overview: Float32Array; overviewSize: number };
+  private faithfulMip: number;
+  private faithful: { overview: Float32Array; overviewSize: number };
+
+  constructor(readonly info: RemotePretextInfo) {
+    const h = info.header;
+    this.header = h;
+    this.offsets = new Float64Array(h.numberOfTextureBlocks).fill(-1);
+    this.sizes = new Uint32Array(h.numberOfTextureBlocks);
+    const overview = (mip: number) => {
+      const overviewSize = h.numberOfTextures1D * (h.textureResolution >> mip);
+      return { overview: new Float32Array(overviewSize * overviewSize), overviewSize };
+    };
+    this.cleanMip = overviewMipLevel(h, 'clean');
+    this.clean = overview(this.cleanMip);
+    this.faithfulMip = overviewMipLevel(h, 'faithful');
+    this.faithful = this.faithfulMip === this.cleanMip ? this.clean : overview(this.faithfulMip);
+  }
+
+  /**
+   * Read the tile section front to back, indexing every block and calling
+   * `onTile` with its coarse mip. Resolves with the graph extensions once the
+   * whole file has been read; rejects with an `AbortError` after `close()`.
+   */
+  async stream(onTile: (tile: StreamedTile, progress: StreamProgress) => void): Promise<PretextExtension[]> {
+    const { header: h, info } = this;
+    const N = h.numberOfTextures1D;
+    const total = h.numberOfTextureBlocks;
+
+    // Tile coordinates in file order.
+    const coords: [number, number][] = [];
+    for (let tx = 0; tx < N; tx++) for (let ty = tx; ty < N; ty++) coords.push([tx, ty]);
+
+    // Detail requests from here on wait for the stream.
+    this.streaming = true;
+    try {
+      const response = await fetchRange(info.url, info.tileSectionOffset, undefined, this.controller.signal);
+      if (response.status !== 206) throw new Error(`Range request failed: ${response.status}`);
+
+      const queue = new ByteQueue();
+      const reader = response.body!.getReader();
+      let offset = info.tileSectionOffset;
+      let bytesRead = info.tileSectionOffset;
+      let done = false;
+
+      while (this.indexed < total && !done) {
+        const next = await reader.read();
+        done = next.done;
+        if (next.value) {
+          queue.push(next.value);
+          bytesRead += next.value.length;
+        }
+
+        // Every block completed by this chunk.
+        const blocks: { index: number; comp: Uint8Array }[] = [];
+        while (this.indexed < total && queue.length >= 4) {
+          const size = queue.peekUint32();
+          if (queue.length < 4 + size) break;
+          queue.take(4);
+          const index = this.indexed++;
+          this.offsets[index] = offset + 4;
+          this.sizes[index] = size;
+          offset += 4 + size;
+          blocks.push({ index, comp: queue.take(size) });
+        }
+
+        const inflated = await inflateRawTiles(blocks.map((b) => b.comp), h.bytesPerTexture);
+        blocks.forEach(({ index }, k) => {
+          const tile = inflated[k];
+          const [col, row] = coords[index];
+          const data = paintOverviewTile(this.clean.overview, this.clean.overviewSize, tile, col, row, h, this.cleanMip)
+            ?? new Float32Array((h.textureResolution >> this.cleanMip) ** 2);
+          if (this.faithful !== this.clean) {
+            paintOverviewTile(this.faithful.overview, this.faithful.overviewSize, tile, col, row, h, this.faithfulMip);
+          }
+          this.resolveWaiting(index, tile);
+          onTile({ col, row, data }, { tilesRead: index + 1, totalTiles: total, bytesRead, totalBytes: info.fileSize });
+        });
+      }
+      if (this.indexed < total) {
+        console.warn(`Unexpected end of file at texture block ${this.indexed}/${total}`);
+      }
+
+      // The rest of the file is the graph extensions.
+      while (!done) {
+        const next = await reader.read();
+        done = next.done;
+        if (next.value) queue.push(next.value);
+      }
+      return parsePretextExtensions(queue.take(queue.length), 0, h.numberOfPixels1D);
+    } finally {
+      this.streaming = false;
+      // Tiles past a truncated end, or requested when the stream was cancelled.
+      for (const index of [...this.waiting.keys()]) this.resolveWaiting(index, undefined);
+    }
+  }
+
+  private resolveWaiting(index: number, tile: Uint8Array | undefined): void {
+    const waiters = this.waiting.get(index);
+    if (!waiters) return;
+    this.waiting.delete(index);
+    for (const resolve of waiters) resolve(tile);
+  }
+
+  /** Inflated BC4 bytes of tile `index`, or undefined if the file does not have it. */
+  readTile(index: number): Promise<Uint8Array | undefined> {
+    let tile = this.cache.get(index);
+    if (tile) {
+      // Most recently used goes last.
+      this.cache.delete(index);
+    } else if (this.offsets[index] >= 0) {
+      const start = this.offsets[index];
+      tile = fetchRange(this.info.url, start, start + this.sizes[index] - 1, this.controller.signal)
+        .then(async (response) => {
+          if (response.status !== 206) throw new Error(`Range request failed: ${response.status}`);
+          const comp = new Uint8Array(await response.arrayBuffer());
+          return (await inflateRawTiles([comp], this.header.bytesPerTexture))[0];
+        });
+    } else if (this.streaming) {
+      tile = new Promise((resolve) => {
+        const waiters = this.waiting.get(index) ?? [];
+        waiters.push(resolve);
+        this.waiting.set(index, waiters);
+      });
+    } else {
+      return Promise.resolve(undefined);
+    }
+    // A failed read is retried next time rather than cached.
+    tile.catch(() => this.cache.delete(index));
+    this.cache.set(index, tile);
+    if (this.cache.size > MAX_CACHED_TILES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return tile;
+  }
+
+  /** Decode a detail tile (TileManager convention), fetching its block if needed. */
+  async decodeTile(key: TileKey): Promise<Float32Array> {
+    const index = tileLinearIndex(key.col, key.row, this.header.numberOfTextures1D);
+    return decodeTileData(key, await this.readTile(index), this.header);
+  }
+
+  /** The overview of the given mode, as far as the stream has painted it. */
+  assembleOverview(mode: OverviewMode): { overview: Float32Array; overviewSize: number } {
+    const { overview, overviewSize } = mode === 'faithful' ? this.faithful : this.clean;
+    return { overview: overview.slice(), overviewSize };
+  }
+
+  /** Stop the stream and any detail reads. */
+  close(): void {
+    this.controller.abort();
+  }
+}
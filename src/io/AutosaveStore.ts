@@ -0,0 +1,238 @@
+/**
+ * Autosave snapshots of curation sessions, kept in IndexedDB.
+ *
+ * Snapshots are SessionData objects (see SessionManager.exportSession) keyed
+ * by a fingerprint of the contact map file they belong to: its name, its size
+ * and a hash of its first bytes (the header). Reopening the same file finds
+ * its snapshots again; a different file with the same name does not.
+ *
+ * Retention, per file:
+ * - The newest snapshot of the current run (one file load) is replaced by
+ *   each save, so a burst of edits produces one record, not hundreds.
+ * - A replaced snapshot is kept as a checkpoint instead when it is at least
+ *   `checkpointIntervalMs` newer than the previous kept snapshot.
+ * - The last snapshot of every earlier run is kept (that is what a crash
+ *   leaves behind).
+ * - At most `maxSnapshots` are kept; the oldest go first.
+ *
+ * The storage backend is an interface so tests (and browsers without
+ * IndexedDB) can use the in-memory one.
+ *
+ * No external dependencies.
+ */
+
+import type { SessionData } from './SessionManager';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Identifies a contact map file across page loads. */
+export interface FileFingerprint {
+  name: string;
+  size: number;
+  /** FNV-1a hash (hex) of the first FINGERPRINT_HEADER_BYTES of the file. */
+  headerHash: string;
+}
+
+/** One stored snapshot. */
+export interface AutosaveRecord {
+  /** Unique record id. */
+  id: string;
+  /** fingerprintKey() of the file the snapshot belongs to. */
+  key: string;
+  /** Identifies the file load that wrote the snapshot. */
+  runId: string;
+  fingerprint: FileFingerprint;
+  savedAt: number;
+  /** Curation operations applied when the snapshot was taken. */
+  operationCount: number;
+  session: SessionData;
+}
+
+/** Minimal storage interface the store needs. */
+export interface AutosaveBackend {
+  put(record: AutosaveRecord): Promise<void>;
+  /** All records for one fingerprint key, in any order. */
+  list(key: string): Promise<AutosaveRecord[]>;
+  delete(id: string): Promise<void>;
+}
+
+export interface AutosaveStoreOptions {
+  /** Minimum spacing between kept checkpoints. Default: 5 minutes. */
+  checkpointIntervalMs?: number;
+  /** Maximum snapshots kept per file. Default: 6. */
+  maxSnapshots?: number;
+}
+
+/** Bytes of the file start that go into the fingerprint hash. */
+export const FINGERPRINT_HEADER_BYTES = 64 * 1024;
+
+const DEFAULT_CHECKPOINT_INTERVAL_MS = 5 * 60_000;
+const DEFAULT_MAX_SNAPSHOTS = 6;
+
+// ---------------------------------------------------------------------------
+// Fingerprinting
+// ---------------------------------------------------------------------------
+
+/**
+ * Fingerprint a file from its name, total size and leading bytes. Pass the
+ * whole buffer or just its first FINGERPRINT_HEADER_BYTES; only those are read.
+ */
+export function computeFileFingerprint(name: string, size: number, bytes: ArrayBuffer | Uint8Array): FileFingerprint {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  const n = Math.min(view.length, FINGERPRINT_HEADER_BYTES);
+  let h = 0x811c9dc5;
+  for (let i = 0; i < n; i++) {
+    h ^= view[i];
+    h = Math.imul(h, 0x01000193);
+  }
+  return { name, size, headerHash: (h >>> 0).toString(16).padStart(8, '0') };
+}
+
+/** The storage key for a fingerprint. */
+export function fingerprintKey(fp: FileFingerprint): string {
+  return `${fp.name}|${fp.size}|${fp.headerHash}`;
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+export class AutosaveStore {
+  private backend: AutosaveBackend;
+  private checkpointIntervalMs: number;
+  private maxSnapshots: number;
+  private seq = 0;
+
+  constructor(backend: AutosaveBackend, options: AutosaveStoreOptions = {}) {
+    this.backend = backend;
+    this.checkpointIntervalMs = options.checkpointIntervalMs ?? DEFAULT_CHECKPOINT_INTERVAL_MS;
+    this.maxSnapshots = options.maxSnapshots ?? DEFAULT_MAX_SNAPSHOTS;
+  }
+
+  /**
+   * Store a snapshot for `fingerprint` written by run `runId`, then apply the
+   * retention rules above.
+   */
+  async save(
+    fingerprint: FileFingerprint,
+    runId: string,
+    session: SessionData,
+    operationCount: number,
+    now: number = Date.now(),
+  ): Promise<AutosaveRecord> {
+    const key = fingerprintKey(fingerprint);
+    const existing = sortNewestFirst(await this.backend.list(key));
+
+    const record: AutosaveRecord = {
+      id: `${key}@${now}-${this.seq++}`,
+      key,
+      runId,
+      fingerprint,
+      savedAt: now,
+      operationCount,
+      session,
+    };
+    await this.backend.put(record);
+
+    // Replace this run's previous snapshot unless it is far enough from the
+    // snapshot before it to be worth keeping as a checkpoint.
+    const previous = existing.find(r => r.runId === runId);
+    let kept = existing;
+    if (previous) {
+      const older = existing[existing.indexOf(previous) + 1];
+      if (older && previous.savedAt - older.savedAt < this.checkpointIntervalMs) {
+        await this.backend.delete(previous.id);
+        kept = existing.filter(r => r !== previous);
+      }
+    }
+
+    // Cap the total, counting the record just written.
+    for (const stale of kept.slice(Math.max(0, this.maxSnapshots - 1))) {
+      await this.backend.delete(stale.id);
+    }
+    return record;
+  }
+
+  /** Snapshots for `fingerprint`, newest first. */
+  async list(fingerprint: FileFingerprint): Promise<AutosaveRecord[]> {
+    return sortNewestFirst(await this.backend.list(fingerprintKey(fingerprint)));
+  }
+
+  /** Delete every snapshot for `fingerprint`. */
+  async clear(fingerprint: FileFingerprint): Promise<void> {
+    for (const record of await this.backend.list(fingerprintKey(fingerprint))) {
+      await this.backend.delete(record.id);
+    }
+  }
+}
+
+function sortNewestFirst(records: AutosaveRecord[]): AutosaveRecord[] {
+  return [...records].sort((a, b) => b.savedAt - a.savedAt || (b.id < a.id ? -1 : b.id > a.id ? 1 : 0));
+}
+
+// ---------------------------------------------------------------------------
+// Backends
+// ---------------------------------------------------------------------------
+
+/** Non-persistent backend for tests and browsers without IndexedDB. */
+export class MemoryAutosaveBackend implements AutosaveBackend {
+  private records: Map<string, AutosaveRecord> = new Map();
+
+  async put(record: AutosaveRecord): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  async list(key: string): Promise<AutosaveRecord[]> {
+    return [...this.records.values()].filter(r => r.key === key).map(r => structuredClone(r));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+}
+
+const DB_NAME = 'openpretext-autosave';
+const DB_VERSION = 1;
+const STORE_NAME = 'snapshots';
+
+/** IndexedDB backend: one object store keyed by record id, indexed by file key. */
+export class IndexedDBAutosaveBackend implements AutosaveBackend {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    return (this.db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('key', 'key', { unique: false });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Failed to open autosave database'));
+    }));
+  }
+
+  private async run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = fn(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error ?? new Error('Autosave transaction failed'));
+      tx.onabort = () => reject(tx.error ?? new Error('Autosave transaction aborted'));
+    });
+  }
+
+  async put(record: AutosaveRecord): Promise<void> {
+    await this.run('readwrite', store => store.put(record));
+  }
+
+  async list(key: string): Promise<AutosaveRecord[]> {
+    return this.run('readonly', store => store.index('key').getAll(key) as IDBRequest<AutosaveRecord[]>);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(id));
+  }
+}
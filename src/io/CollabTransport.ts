@@ -0,0 +1,226 @@
+/**
+ * Message transports for collaborative curation sessions.
+ *
+ * A CollabSession (src/curation/CollabSession.ts) only needs to broadcast a
+ * JSON message to every other member of a room and hear theirs, so the
+ * transport is a small interface with two implementations:
+ *
+ * - WebSocketTransport connects to a relay that forwards each text frame to
+ *   the other sockets in the same room. `server/collab_relay` is such a relay;
+ *   any server with the same behaviour works.
+ * - LoopbackHub connects transports in memory, for tests and for driving a
+ *   session without a server.
+ *
+ * Transports do not echo a client's own messages back to it and make no
+ * ordering promise across senders. Messages from one sender arrive in order.
+ */
+
+import type { MetaTagInfo } from '../curation/MetaTagManager';
+
+// ---------------------------------------------------------------------------
+// Wire protocol
+// ---------------------------------------------------------------------------
+
+/**
+ * A curation operation expressed by contig and scaffold *name* rather than by
+ * index, so a peer whose contigs array was built in a different order can
+ * still resolve it.
+ */
+export type CollabIntent =
+  /** `inverted`: the contig's orientation when it was cut, which the offsets assume. */
+  | { kind: 'cut'; contig: string; pixelOffset: number; bpOffset?: number; inverted: boolean }
+  /** `inverted`: the two contigs' orientations when they were joined. */
+  | { kind: 'join'; first: string; second: string; inverted: [boolean, boolean] }
+  | { kind: 'invert'; contig: string; inverted: boolean }
+  /**
+   * Place `contig` immediately before `before` (CurationEngine.move
+   * semantics). `after` is the contig it landed behind, null at the start.
+   */
+  | { kind: 'move'; contig: string; before: string; after: string | null }
+  | { kind: 'scaffold_create'; name: string }
+  | { kind: 'scaffold_paint'; contigs: string[]; scaffold: string | null }
+  | { kind: 'scaffold_delete'; name: string }
+  /** `tag`: the tag every named contig now carries, null when untagged. */
+  | { kind: 'meta_tag'; contigs: string[]; tag: MetaTagInfo | null }
+  /** `excluded`: each named contig's exclusion afterwards. */
+  | { kind: 'exclude'; contigs: string[]; excluded: boolean[] };
+
+/** An operation as broadcast by its author. */
+export interface SharedOperation {
+  /** The opId the author's StateManager stamped on the operation. */
+  id: string;
+  author: string;
+  description: string;
+  /**
+   * orderHash() of the author's contigOrder just before the operation. A
+   * receiver whose own hash differs checks the intent still means the same
+   * before applying it (see CollabSession).
+   */
+  baseHash: string;
+  intent: CollabIntent;
+}
+
+/** What each peer shows the others about itself. */
+export interface PeerPresence {
+  id: string;
+  name: string;
+  color: string;
+  /** Normalized map position (0-1) of the pointer, or null when off the map. */
+  cursor: { x: number; y: number } | null;
+  /** Names of the selected contigs. */
+  selection: string[];
+  /** orderHash() of the peer's current contigOrder. */
+  orderHash: string;
+}
+
+export type CollabMessage =
+  | { type: 'hello'; peer: PeerPresence }
+  | { type: 'presence'; peer: PeerPresence }
+  | { type: 'bye'; peerId: string }
+  | { type: 'op'; peerId: string; op: SharedOperation }
+  | { type: 'undo'; peerId: string; opId: string }
+  | { type: 'redo'; peerId: string; opId: string }
+  /** Sent by a peer that could not apply `opId`, so its author can react. */
+  | { type: 'conflict'; peerId: string; opId: string; reason: string }
+  /** Replies to `hello`: the ops/undo/redo log so a late joiner can catch up. */
+  | { type: 'history'; to: string; entries: CollabMessage[] };
+
+// ---------------------------------------------------------------------------
+// Transport interface
+// ---------------------------------------------------------------------------
+
+export type TransportStatus = 'connecting' | 'open' | 'closed';
+
+export interface CollabTransport {
+  /** Broadcast a message to every other member of the room. */
+  send(message: CollabMessage): void;
+  /** Register the handler for incoming messages (one per transport). */
+  onMessage(handler: (message: CollabMessage) => void): void;
+  /** Register the handler for connection status changes. */
+  onStatus(handler: (status: TransportStatus) => void): void;
+  close(): void;
+}
+
+// ---------------------------------------------------------------------------
+// WebSocket
+// ---------------------------------------------------------------------------
+
+/**
+ * Transport over a WebSocket relay. `url` is the relay's base URL
+ * (e.g. `ws://localhost:8765`); the room is appended as a path segment.
+ * Messages sent before the socket opens are queued.
+ */
+export class WebSocketTransport implements CollabTransport {
+  private socket: WebSocket;
+  private queue: string[] = [];
+  private messageHandler: ((message: CollabMessage) => void) | null = null;
+  private statusHandler: ((status: TransportStatus) => void) | null = null;
+
+  constructor(url: string, room: string) {
+    const base = url.replace(/\/+$/, '');
+    this.socket = new WebSocket(`${base}/${encodeURIComponent(room)}`);
+    this.socket.addEventListener('open', () => {
+      for (const frame of this.queue) this.socket.send(frame);
+      this.queue = [];
+      this.statusHandler?.('open');
+    });
+    this.socket.addEventListener('close', () => this.statusHandler?.('closed'));
+    this.socket.addEventListener('message', (event: MessageEvent) => {
+      if (typeof event.data !== 'string') return;
+      let message: CollabMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        return;
+      }
+      if (message && typeof message.type === 'string') this.messageHandler?.(message);
+    });
+  }
+
+  send(message: CollabMessage): void {
+    const frame = JSON.stringify(message);
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(frame);
+    } else if (this.socket.readyState === WebSocket.CONNECTING) {
+      this.queue.push(frame);
+    }
+  }
+
+  onMessage(handler: (message: CollabMessage) => void): void {
+    this.messageHandler = handler;
+  }
+
+  onStatus(handler: (status: TransportStatus) => void): void {
+    this.statusHandler = handler;
+    handler(this.socket.readyState === WebSocket.OPEN ? 'open' : 'connecting');
+  }
+
+  close(): void {
+    this.queue = [];
+    this.socket.close();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// In-memory loopback
+// ---------------------------------------------------------------------------
+
+/**
+ * An in-memory room. Each `connect()` returns a transport whose messages are
+ * delivered synchronously to every other connected transport, as a round
+ * trip through JSON so nothing is shared by reference.
+ */
+export class LoopbackHub {
+  private members: Set<LoopbackTransport> = new Set();
+
+  connect(): CollabTransport {
+    const transport = new LoopbackTransport(this);
+    this.members.add(transport);
+    return transport;
+  }
+
+  /** @internal */
+  deliver(from: LoopbackTransport, message: CollabMessage): void {
+    const frame = JSON.stringify(message);
+    for (const member of this.members) {
+      if (member !== from) member.receive(JSON.parse(frame));
+    }
+  }
+
+  /** @internal */
+  leave(member: LoopbackTransport): void {
+    this.members.delete(member);
+  }
+}
+
+class LoopbackTransport implements CollabTransport {
+  private messageHandler: ((message: CollabMessage) => void) | null = null;
+  private statusHandler: ((status: TransportStatus) => void) | null = null;
+  private closed = false;
+
+  constructor(private hub: LoopbackHub) {}
+
+  send(message: CollabMessage): void {
+    if (!this.closed) this.hub.deliver(this, message);
+  }
+
+  receive(message: CollabMessage): void {
+    this.messageHandler?.(message);
+  }
+
+  onMessage(handler: (message: CollabMessage) => void): void {
+    this.messageHandler = handler;
+  }
+
+  onStatus(handler: (status: TransportStatus) => void): void {
+    this.statusHandler = handler;
+    handler(this.closed ? 'closed' : 'open');
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.hub.leave(this);
+    this.statusHandler?.('closed');
+  }
+}
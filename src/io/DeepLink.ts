@@ -0,0 +1,187 @@
+/**
+ * DeepLink — the view encoded in the URL hash, for shareable links.
+ *
+ *   #specimen=koala&locus=chr7:40000000&zoom=12&colormap=viridis&gamma=0.5&overview=faithful
+ *   #url=https://example.org/asm.pretext&x=chr1:10000000&y=chr5:3000000&zoom=30
+ *
+ * Keys:
+ * - `specimen` — a SpecimenCatalog id, or `url` — a contact map to fetch.
+ *   Neither: the view applies to whatever file is opened next.
+ * - `locus` — a point (or range) on the diagonal, `contig[:start[-end]]`.
+ *   `x` and `y` instead give the column and row loci of an off-diagonal view.
+ *   Positions are bp, with optional separators and units when typed by hand
+ *   (`40,000,000`, `40Mb`).
+ * - `zoom` — Camera zoom. Without it a range fits the view; a point keeps
+ *   the current zoom.
+ * - `colormap`, `gamma`, `overview` — display settings.
+ *
+ * Unknown keys and malformed values are ignored, so a damaged link still
+ * opens what it can. Pure: parsing and formatting only; src/ui/DeepLinks.ts
+ * applies links and keeps the hash current.
+ */
+
+import type { AppState } from '../core/State';
+import type { CameraState } from '../renderer/Camera';
+import type { ColorMapName } from '../renderer/ColorMaps';
+import { genomeToMap, mapToGenome, parseBp } from '../core/GenomeCoordinates';
+
+const COLOR_MAPS: readonly ColorMapName[] = ['red-white', 'blue-white-red', 'viridis', 'hot', 'cool', 'grayscale'];
+
+/** A contig, a point on it (`start` only) or a range (`start` and `end`). */
+export interface LocusSpec {
+  contig: string;
+  start?: number;
+  end?: number;
+}
+
+export interface DeepLink {
+  specimen?: string;
+  url?: string;
+  /** Column locus; also the row locus when `y` is absent (a diagonal view). */
+  x?: LocusSpec;
+  y?: LocusSpec;
+  zoom?: number;
+  colormap?: ColorMapName;
+  gamma?: number;
+  overview?: 'clean' | 'faithful';
+}
+
+// ---------------------------------------------------------------------------
+// Loci
+// ---------------------------------------------------------------------------
+
+/** Parse `contig`, `contig:pos` or `contig:start-end`. Null when malformed. */
+export function parseLocusSpec(text: string): LocusSpec | null {
+  const trimmed = text.trim();
+  const colon = trimmed.lastIndexOf(':');
+  // No position (or a colon that is part of the name): the whole contig.
+  const range = colon > 0 ? trimmed.slice(colon + 1).match(/^([^-]+)(?:-(.+))?$/) : null;
+  const start = range ? parseBp(range[1]) : null;
+  if (!range || start === null) return trimmed ? { contig: trimmed } : null;
+  const contig = trimmed.slice(0, colon);
+  if (range[2] === undefined) return { contig, start };
+  const end = parseBp(range[2]);
+  if (end === null) return null;
+  return { contig, start: Math.min(start, end), end: Math.max(start, end) };
+}
+
+export function formatLocusSpec(spec: LocusSpec): string {
+  if (spec.start === undefined) return spec.contig;
+  return spec.end === undefined ? `${spec.contig}:${spec.start}` : `${spec.contig}:${spec.start}-${spec.end}`;
+}
+
+// ---------------------------------------------------------------------------
+// Hash
+// ---------------------------------------------------------------------------
+
+/** Parse a location hash (with or without the leading `#`). */
+export function parseDeepLink(hash: string): DeepLink {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const link: DeepLink = {};
+
+  const specimen = params.get('specimen');
+  const url = params.get('url');
+  if (specimen) link.specimen = specimen;
+  else if (url) link.url = url;
+
+  const locus = params.get('locus') ?? params.get('x');
+  const x = locus !== null ? parseLocusSpec(locus) : null;
+  if (x) {
+    link.x = x;
+    const yText = params.get('locus') === null ? params.get('y') : null;
+    const y = yText !== null ? parseLocusSpec(yText) : null;
+    if (y) link.y = y;
+  }
+
+  const zoom = Number(params.get('zoom'));
+  if (params.has('zoom') && Number.isFinite(zoom) && zoom > 0) link.zoom = zoom;
+
+  const colormap = params.get('colormap');
+  if (colormap && (COLOR_MAPS as readonly string[]).includes(colormap)) link.colormap = colormap as ColorMapName;
+
+  const gamma = Number(params.get('gamma'));
+  if (params.has('gamma') && Number.isFinite(gamma) && gamma > 0) link.gamma = gamma;
+
+  const overview = params.get('overview');
+  if (overview === 'clean' || overview === 'faithful') link.overview = overview;
+
+  return link;
+}
+
+/** Percent-encode a value, leaving the characters a fragment allows as-is for readability. */
+function encodeValue(value: string): string {
+  return encodeURIComponent(value).replace(/%3A/gi, ':').replace(/%2F/gi, '/');
+}
+
+/** Format a link as a hash body (no leading `#`). Keys come in a fixed order. */
+export function formatDeepLink(link: DeepLink): string {
+  const parts: [string, string][] = [];
+  if (link.specimen) parts.push(['specimen', link.specimen]);
+  else if (link.url) parts.push(['url', link.url]);
+  if (link.x && link.y) {
+    parts.push(['x', formatLocusSpec(link.x)], ['y', formatLocusSpec(link.y)]);
+  } else if (link.x) {
+    parts.push(['locus', formatLocusSpec(link.x)]);
+  }
+  if (link.zoom !== undefined) parts.push(['zoom', String(Number(link.zoom.toPrecision(3)))]);
+  if (link.colormap) parts.push(['colormap', link.colormap]);
+  if (link.gamma !== undefined) parts.push(['gamma', String(Number(link.gamma.toFixed(2)))]);
+  if (link.overview) parts.push(['overview', link.overview]);
+  return parts.map(([k, v]) => `${k}=${encodeValue(v)}`).join('&');
+}
+
+// ---------------------------------------------------------------------------
+// Camera
+// ---------------------------------------------------------------------------
+
+/** Where a link puts the camera: a center (and zoom), or a region to fit. */
+export type LinkView =
+  | { kind: 'center'; x: number; y: number; zoom?: number }
+  | { kind: 'region'; x1: number; y1: number; x2: number; y2: number };
+
+/** Map-space extent of a locus on one axis, or null when its contig is not loaded. */
+function locusExtent(s: AppState, spec: LocusSpec): [number, number] | null {
+  if (spec.start === undefined) {
+    const a = genomeToMap(s, spec.contig, 0);
+    const b = genomeToMap(s, spec.contig, Infinity);
+    return a === null || b === null ? null : [Math.min(a, b), Math.max(a, b)];
+  }
+  const a = genomeToMap(s, spec.contig, spec.start);
+  const b = genomeToMap(s, spec.contig, spec.end ?? spec.start);
+  return a === null || b === null ? null : [Math.min(a, b), Math.max(a, b)];
+}
+
+/**
+ * Resolve a link's loci against the loaded map. Returns null when the link
+ * has no locus; throws when a locus names a contig that is not loaded.
+ */
+export function resolveLinkView(link: DeepLink, s: AppState): LinkView | null {
+  if (!link.x) return null;
+  const xs = locusExtent(s, link.x);
+  if (!xs) throw new Error(`Contig '${link.x.contig}' is not in this map`);
+  const ys = link.y ? locusExtent(s, link.y) : xs;
+  if (!ys) throw new Error(`Contig '${link.y!.contig}' is not in this map`);
+
+  const x = (xs[0] + xs[1]) / 2;
+  const y = (ys[0] + ys[1]) / 2;
+  const isPoint = xs[0] === xs[1] && ys[0] === ys[1];
+  if (link.zoom !== undefined || isPoint) return { kind: 'center', x, y, zoom: link.zoom };
+  return { kind: 'region', x1: xs[0], y1: ys[0], x2: xs[1], y2: ys[1] };
+}
+
+/**
+ * The loci and zoom describing a camera view: the genome position under the
+ * center, one locus when the center is on the diagonal (within 5% of the
+ * visible width), else an x/y pair. Empty at the full-map view.
+ */
+export function cameraToLink(cam: CameraState, s: AppState): Pick<DeepLink, 'x' | 'y' | 'zoom'> {
+  if (!s.map || cam.zoom <= 1) return {};
+  if (Math.abs(cam.x - cam.y) * cam.zoom < 0.05) {
+    const at = mapToGenome(s, (cam.x + cam.y) / 2);
+    return at ? { x: { contig: at.contig, start: at.bp }, zoom: cam.zoom } : {};
+  }
+  const ax = mapToGenome(s, cam.x);
+  const ay = mapToGenome(s, cam.y);
+  if (!ax || !ay) return {};
+  return { x: { contig: ax.contig, start: ax.bp }, y: { contig: ay.contig, start: ay.bp }, zoom: cam.zoom };
+}
@@ -6,6 +6,16 @@
  * and reload it later. The session file captures a complete snapshot of the
  * working state without including the raw contact map data itself.
  *
+ * Format versions:
+ * - v1 stored the operation log as descriptions only, so undo history could
+ *   not be rebuilt and cut/join products were lost on reload.
+ * - v2 adds the full contig table (including cut/join products) and the undo
+ *   and redo stacks with every operation's `data` encoded losslessly, batch
+ *   ids included. v1 files are migrated on import (see MIGRATIONS). A v2
+ *   file may also carry named branches and checkpoints (BranchManager), each
+ *   with its own contig table, order, scaffolds, annotations and history,
+ *   and the meta tags and exclusions of the contig table (annotations).
+ *
  * Design principles:
  * - The session manager never modifies application state directly; it returns
  *   typed data that the caller (e.g. main.ts) applies.
@@ -13,15 +23,19 @@
  * - No external dependencies.
  */
 
-import type { AppState, ContigInfo, CurationOperation } from '../core/State';
+import type { AppState, ContigInfo, CurationOperation, SequenceSegment } from '../core/State';
 import type { ScaffoldManager, Scaffold } from '../curation/ScaffoldManager';
+import { stripContactMapExtension } from '../formats/ContactMapExtensions';
 
 // ---------------------------------------------------------------------------
 // Session data types
 // ---------------------------------------------------------------------------
 
 /** Current session format version. Increment on breaking changes. */
-export const SESSION_VERSION = 1;
+export const SESSION_VERSION = 2;
+
+/** Oldest session format version that can still be imported (via migration). */
+export const MIN_SESSION_VERSION = 1;
 
 /**
  * A waypoint bookmark in the contact map.
@@ -74,6 +88,100 @@ export interface SessionOperationLogEntry {
   description: string;
 }
 
+/**
+ * A curation operation with its undo data, as stored in a v2 session.
+ * `data` is CurationOperation.data encoded with encodeOperationData().
+ */
+export interface SessionOperation {
+  type: CurationOperation['type'];
+  timestamp: number;
+  description: string;
+  data: Record<string, unknown>;
+  batchId?: string;
+  author?: string;
+  opId?: string;
+}
+
+/**
+ * Undo and redo stacks as stored in a v2 session (oldest first, like the
+ * stacks in AppState).
+ */
+export interface SessionHistory {
+  undoStack: SessionOperation[];
+  redoStack: SessionOperation[];
+}
+
+/**
+ * A contig as stored in a v2 session. The table is the whole `map.contigs`
+ * array, so cut and join products (appended after the file's own contigs)
+ * keep the ids that contigOrder and the history refer to.
+ */
+export interface SessionContig {
+  name: string;
+  originalIndex: number;
+  length: number;
+  pixelStart: number;
+  pixelEnd: number;
+  inverted: boolean;
+  scaffoldId: number | null;
+  sequenceSegments?: SequenceSegment[];
+}
+
+/**
+ * The curation state of one branch or checkpoint: everything that differs
+ * between alternative arrangements of the same map.
+ */
+export interface SessionBranchState {
+  contigs: SessionContig[];
+  contigOrder: number[];
+  scaffolds: SessionScaffold[];
+  /** Meta tags and exclusions of this state, when it has any. */
+  annotations?: SessionAnnotations;
+  history: SessionHistory;
+}
+
+/** A named line of curation (see BranchManager). */
+export interface SessionBranch {
+  id: number;
+  name: string;
+  parentId: number | null;
+  createdAt: number;
+  /** Name of the checkpoint the branch was forked from, if any. */
+  forkedFrom: string | null;
+  /** The branch's latest state. Absent for the active branch, whose state is the session itself. */
+  state?: SessionBranchState;
+}
+
+/** A named snapshot on a branch. */
+export interface SessionCheckpoint {
+  id: number;
+  name: string;
+  branchId: number;
+  createdAt: number;
+  operationCount: number;
+  state: SessionBranchState;
+}
+
+/** Branches and checkpoints as stored in a session. */
+export interface SessionBranches {
+  activeBranchId: number;
+  branches: SessionBranch[];
+  checkpoints: SessionCheckpoint[];
+}
+
+/**
+ * What import changed to make a session loadable, filled in by
+ * validateSession(). Entries read `field: what happened`.
+ */
+export interface SessionValidationReport {
+  /** Format version of the input, before migration (null if unreadable). */
+  sourceVersion: number | null;
+  /** Fields added or rewritten by migrating from an older format. */
+  upgraded: string[];
+  /** Fields removed because they were unknown or malformed. */
+  dropped: string[];
+}
+
 /**
  * Scaffold definition as stored in the session file.
  */
@@ -217,6 +325,23 @@ export interface SessionAnalysisData {
   predictedHiC?: SessionPredictedHiC;
 }
 
+/** A meta tag on one contig, keyed by contig ID (index into the contig table). */
+export interface SessionMetaTag {
+  contigId: number;
+  tag: 'haplotig' | 'contaminant' | 'unlocalised' | 'sex_chromosome';
+  notes?: string;
+}
+
+/**
+ * Contig annotations that live outside the contig table (MetaTagManager and
+ * ContigExclusion). Contig IDs refer to the session's own contig table, so
+ * they are only meaningful alongside it.
+ */
+export interface SessionAnnotations {
+  metaTags: SessionMetaTag[];
+  excluded: number[];
+}
+
 /**
  * Complete session data structure.
  *
@@ -233,6 +358,14 @@ export interface SessionData {
   camera: SessionCamera;
   settings: SessionSettings;
   operationLog: SessionOperationLogEntry[];
+  /** Full contig table (v2). Absent in sessions migrated from v1. */
+  contigs?: SessionContig[];
+  /** Undo/redo stacks with operation data (v2). Absent in sessions migrated from v1. */
+  history?: SessionHistory;
+  /** Curation branches and checkpoints (v2, optional). */
+  branches?: SessionBranches;
+  /** Meta tags and contig exclusions (v2, optional). */
+  annotations?: SessionAnnotations;
   /** Optional persisted analysis results (added post-v1, backward compatible). */
   analysis?: SessionAnalysisData;
 }
@@ -435,6 +568,399 @@ function validateSessionAnalysis(v: unknown): boolean {
   return true;
 }
 
+/**
+ * Validate the v2 contig table. Returns a reason string, or null if valid.
+ */
+function checkSessionContigs(v: unknown): string | null {
+  if (!Array.isArray(v)) return 'not an array';
+  for (let i = 0; i < v.length; i++) {
+    const c = v[i];
+    if (!isObject(c)) return `entry ${i} is not an object`;
+    if (typeof c.name !== 'string') return `entry ${i} has no name`;
+    if (!Number.isInteger(c.originalIndex) || (c.originalIndex as number) < 0) return `entry ${i} has a bad originalIndex`;
+    if (!isFiniteNumber(c.length) || c.length < 0) return `entry ${i} has a bad length`;
+    if (!isFiniteNumber(c.pixelStart) || !isFiniteNumber(c.pixelEnd) || c.pixelEnd < c.pixelStart) {
+      return `entry ${i} has a bad pixel range`;
+    }
+    if (typeof c.inverted !== 'boolean') return `entry ${i} has a bad inverted flag`;
+    if (c.scaffoldId !== null && !Number.isInteger(c.scaffoldId)) return `entry ${i} has a bad scaffoldId`;
+    if (c.sequenceSegments !== undefined) {
+      if (!Array.isArray(c.sequenceSegments)) return `entry ${i} has bad sequenceSegments`;
+      for (const seg of c.sequenceSegments) {
+        if (!isObject(seg) || typeof seg.sourceName !== 'string' ||
+            !isFiniteNumber(seg.start) || !isFiniteNumber(seg.end) || typeof seg.revComp !== 'boolean') {
+          return `entry ${i} has bad sequenceSegments`;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+const SESSION_META_TAGS: ReadonlySet<string> = new Set<SessionMetaTag['tag']>([
+  'haplotig', 'contaminant', 'unlocalised', 'sex_chromosome',
+]);
+
+/**
+ * Validate the optional annotations field against the session's contig table.
+ * Returns a reason string, or null if valid.
+ */
+function checkSessionAnnotations(v: unknown, contigCount: number): string | null {
+  if (!isObject(v)) return 'not an object';
+  const isContigId = (id: unknown) => Number.isInteger(id) && (id as number) >= 0 && (id as number) < contigCount;
+  if (!Array.isArray(v.metaTags)) return 'metaTags is not an array';
+  for (let i = 0; i < v.metaTags.length; i++) {
+    const t = v.metaTags[i];
+    if (!isObject(t) || !isContigId(t.contigId)) return `meta tag ${i} has a bad contigId`;
+    if (typeof t.tag !== 'string' || !SESSION_META_TAGS.has(t.tag)) return `meta tag ${i} has an unknown tag`;
+    if (t.notes !== undefined && typeof t.notes !== 'string') return `meta tag ${i} has bad notes`;
+  }
+  if (!Array.isArray(v.excluded) || !v.excluded.every(isContigId)) return 'excluded has a bad contigId';
+  return null;
+}
+
+/**
+ * Build the annotations field from the meta tag and exclusion managers'
+ * contents. Returns undefined when there is nothing to store.
+ */
+export function exportSessionAnnotations(
+  tags: Map<number, { tag: SessionMetaTag['tag']; notes?: string }>,
+  excluded: Set<number>,
+): SessionAnnotations | undefined {
+  if (tags.size === 0 && excluded.size === 0) return undefined;
+  const metaTags: SessionMetaTag[] = [];
+  for (const [contigId, info] of tags) {
+    metaTags.push(info.notes !== undefined
+      ? { contigId, tag: info.tag, notes: info.notes }
+      : { contigId, tag: info.tag });
+  }
+  return { metaTags, excluded: [...excluded].sort((a, b) => a - b) };
+}
+
+/** Operation types a v2 session may contain (CurationOperation['type']). */
+const SESSION_OPERATION_TYPES: ReadonlySet<string> = new Set<CurationOperation['type']>([
+  'cut', 'invert', 'move', 'join',
+  'scaffold_paint', 'scaffold_create', 'scaffold_delete', 'scaffold_bulk', 'meta_tag', 'exclude',
+]);
+
+/**
+ * Validate one stored operation, including that its data decodes.
+ * Returns a reason string, or null if valid.
+ */
+function checkSessionOperation(op: unknown): string | null {
+  if (!isObject(op)) return 'not an object';
+  if (typeof op.type !== 'string' || !SESSION_OPERATION_TYPES.has(op.type)) return `unknown type "${String(op.type)}"`;
+  if (!isFiniteNumber(op.timestamp) || op.timestamp < 0) return 'bad timestamp';
+  if (typeof op.description !== 'string') return 'no description';
+  if (!isObject(op.data)) return 'no data';
+  for (const key of ['batchId', 'author', 'opId'] as const) {
+    if (op[key] !== undefined && typeof op[key] !== 'string') return `bad ${key}`;
+  }
+  try {
+    decodeOperationData(op.data);
+  } catch (err) {
+    return (err as Error).message;
+  }
+  return null;
+}
+
+/**
+ * Validate the v2 undo/redo history. Returns a reason string, or null if valid.
+ */
+function checkSessionHistory(v: unknown): string | null {
+  if (!isObject(v)) return 'not an object';
+  for (const stack of ['undoStack', 'redoStack'] as const) {
+    const ops = v[stack];
+    if (!Array.isArray(ops)) return `${stack} is not an array`;
+    for (let i = 0; i < ops.length; i++) {
+      const reason = checkSessionOperation(ops[i]);
+      if (reason) return `${stack} entry ${i}: ${reason}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validate one branch or checkpoint state. Returns a reason string, or null
+ * if valid.
+ */
+function checkSessionBranchState(v: unknown): string | null {
+  if (!isObject(v)) return 'no state';
+  const contigsReason = checkSessionContigs(v.contigs);
+  if (contigsReason) return `contigs ${contigsReason}`;
+  if (!Array.isArray(v.contigOrder)) return 'no contigOrder';
+  const contigCount = (v.contigs as unknown[]).length;
+  for (const id of v.contigOrder) {
+    if (!Number.isInteger(id) || id < 0 || id >= contigCount) return 'contigOrder refers to a missing contig';
+  }
+  if (!Array.isArray(v.scaffolds)) return 'no scaffolds';
+  for (const sc of v.scaffolds) {
+    if (!isObject(sc) || !Number.isInteger(sc.id) || typeof sc.name !== 'string' || typeof sc.color !== 'string') {
+      return 'malformed scaffold';
+    }
+  }
+  if (v.annotations !== undefined) {
+    const reason = checkSessionAnnotations(v.annotations, contigCount);
+    if (reason) return `annotations ${reason}`;
+  }
+  return checkSessionHistory(v.history);
+}
+
+/**
+ * Validate the stored branches and checkpoints. Returns a reason string, or
+ * null if valid.
+ */
+function checkSessionBranches(v: unknown): string | null {
+  if (!isObject(v)) return 'not an object';
+  if (!Array.isArray(v.branches) || v.branches.length === 0) return 'no branches';
+  if (!Array.isArray(v.checkpoints)) return 'checkpoints is not an array';
+  const ids = new Set<number>();
+  for (const b of v.branches) {
+    if (!isObject(b) || !Number.isInteger(b.id) || typeof b.name !== 'string') return 'malformed branch';
+    if (ids.has(b.id as number)) return `duplicate branch id ${b.id}`;
+    ids.add(b.id as number);
+    if (b.parentId !== null && !Number.isInteger(b.parentId)) return `branch "${b.name}" has a bad parentId`;
+    if (!isFiniteNumber(b.createdAt)) return `branch "${b.name}" has a bad createdAt`;
+    if (b.forkedFrom !== null && typeof b.forkedFrom !== 'string') return `branch "${b.name}" has a bad forkedFrom`;
+    const isActive = b.id === v.activeBranchId;
+    if (isActive !== (b.state === undefined)) {
+      return isActive ? `active branch "${b.name}" stores its own state` : `branch "${b.name}" has no state`;
+    }
+    if (!isActive) {
+      const reason = checkSessionBranchState(b.state);
+      if (reason) return `branch "${b.name}": ${reason}`;
+    }
+  }
+  if (!ids.has(v.activeBranchId as number)) return 'active branch is missing';
+  for (const c of v.checkpoints) {
+    if (!isObject(c) || !Number.isInteger(c.id) || typeof c.name !== 'string') return 'malformed checkpoint';
+    if (!ids.has(c.branchId as number)) return `checkpoint "${c.name}" belongs to a missing branch`;
+    if (!isFiniteNumber(c.createdAt)) return `checkpoint "${c.name}" has a bad createdAt`;
+    if (!Number.isInteger(c.operationCount) || (c.operationCount as number) < 0) {
+      return `checkpoint "${c.name}" has a bad operationCount`;
+    }
+    const reason = checkSessionBranchState(c.state);
+    if (reason) return `checkpoint "${c.name}": ${reason}`;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Operation data encoding
+// ---------------------------------------------------------------------------
+
+/** Tag key marking a value JSON cannot represent directly. */
+const TYPE_TAG = '$type';
+
+type TypedArrayConstructor =
+  | Float32ArrayConstructor | Float64ArrayConstructor
+  | Int8ArrayConstructor | Int16ArrayConstructor | Int32ArrayConstructor
+  | Uint8ArrayConstructor | Uint8ClampedArrayConstructor | Uint16ArrayConstructor | Uint32ArrayConstructor;
+
+const TYPED_ARRAYS: Record<string, TypedArrayConstructor> = {
+  Float32Array, Float64Array, Int8Array, Int16Array, Int32Array,
+  Uint8Array, Uint8ClampedArray, Uint16Array, Uint32Array,
+};
+
+function encodeValue(v: unknown): unknown {
+  if (v === undefined) return { [TYPE_TAG]: 'undefined' };
+  if (typeof v === 'number') {
+    return Number.isFinite(v) ? v : { [TYPE_TAG]: 'number', value: String(v) };
+  }
+  if (v === null || typeof v !== 'object') return v;
+  if (Array.isArray(v)) return v.map(encodeValue);
+  if (ArrayBuffer.isView(v) && !(v instanceof DataView)) {
+    const name = v.constructor.name;
+    if (!(name in TYPED_ARRAYS)) throw new Error(`cannot encode ${name}`);
+    return { [TYPE_TAG]: name, values: Array.from(v as unknown as ArrayLike<number>, encodeValue) };
+  }
+  if (v instanceof Map) {
+    return { [TYPE_TAG]: 'Map', entries: [...v].map(([k, val]) => [encodeValue(k), encodeValue(val)]) };
+  }
+  if (v instanceof Set) return { [TYPE_TAG]: 'Set', values: [...v].map(encodeValue) };
+  const out: Record<string, unknown> = {};
+  for (const [k, val] of Object.entries(v)) out[k] = encodeValue(val);
+  // An object that happens to use the tag key is wrapped so it is not
+  // mistaken for a tagged value on decode.
+  return TYPE_TAG in out ? { [TYPE_TAG]: 'object', value: out } : out;
+}
+
+function decodeValue(v: unknown): unknown {
+  if (Array.isArray(v)) return v.map(decodeValue);
+  if (!isObject(v)) return v;
+  if (!(TYPE_TAG in v)) {
+    const out: Record<string, unknown> = {};
+    for (const [k, val] of Object.entries(v)) out[k] = decodeValue(val);
+    return out;
+  }
+  const tag = v[TYPE_TAG];
+  switch (tag) {
+    case 'undefined':
+      return undefined;
+    case 'number':
+      return Number(v.value);
+    case 'Map':
+      if (!Array.isArray(v.entries)) throw new Error('malformed Map');
+      return new Map((v.entries as unknown[]).map(e => {
+        if (!Array.isArray(e) || e.length !== 2) throw new Error('malformed Map entry');
+        return [decodeValue(e[0]), decodeValue(e[1])] as [unknown, unknown];
+      }));
+    case 'Set':
+      if (!Array.isArray(v.values)) throw new Error('malformed Set');
+      return new Set((v.values as unknown[]).map(decodeValue));
+    case 'object': {
+      if (!isObject(v.value)) throw new Error('malformed tagged object');
+      const out: Record<string, unknown> = {};
+      for (const [k, val] of Object.entries(v.value)) out[k] = decodeValue(val);
+      return out;
+    }
+    default: {
+      const ctor = typeof tag === 'string' ? TYPED_ARRAYS[tag] : undefined;
+      if (!ctor) throw new Error(`unknown value type "${String(tag)}"`);
+      if (!Array.isArray(v.values)) throw new Error(`malformed ${tag}`);
+      return ctor.from((v.values as unknown[]).map(x => decodeValue(x) as number));
+    }
+  }
+}
+
+/**
+ * Encode CurationOperation.data as JSON-safe values. Plain JSON values pass
+ * through unchanged; `undefined`, non-finite numbers, typed arrays, Maps and
+ * Sets are written as `{ "$type": ... }` objects so decodeOperationData() can
+ * rebuild them exactly.
+ */
+export function encodeOperationData(data: Record<string, unknown>): Record<string, unknown> {
+  return encodeValue(data) as Record<string, unknown>;
+}
+
+/**
+ * Inverse of encodeOperationData().
+ *
+ * @throws Error if a tagged value is malformed or of an unknown type
+ */
+export function decodeOperationData(data: Record<string, unknown>): Record<string, any> {
+  return decodeValue(data) as Record<string, any>;
+}
+
+/** Convert a CurationOperation into its stored form. */
+function encodeOperation(op: CurationOperation): SessionOperation {
+  const out: SessionOperation = {
+    type: op.type,
+    timestamp: op.timestamp,
+    description: op.description,
+    data: encodeOperationData(op.data),
+  };
+  if (op.batchId !== undefined) out.batchId = op.batchId;
+  if (op.author !== undefined) out.author = op.author;
+  if (op.opId !== undefined) out.opId = op.opId;
+  return out;
+}
+
+/** Convert a stored operation back into a CurationOperation. */
+function decodeOperation(op: SessionOperation): CurationOperation {
+  const out: CurationOperation = {
+    type: op.type,
+    timestamp: op.timestamp,
+    description: op.description,
+    data: decodeOperationData(op.data),
+  };
+  if (op.batchId !== undefined) out.batchId = op.batchId;
+  if (op.author !== undefined) out.author = op.author;
+  if (op.opId !== undefined) out.opId = op.opId;
+  return out;
+}
+
+/** Encode undo and redo stacks for storage. */
+export function encodeSessionHistory(
+  undoStack: CurationOperation[],
+  redoStack: CurationOperation[]
+): SessionHistory {
+  return { undoStack: undoStack.map(encodeOperation), redoStack: redoStack.map(encodeOperation) };
+}
+
+/**
+ * Rebuild the undo and redo stacks stored in a session (or a branch state),
+ * ready for `state.restoreHistory`. Returns null when there is no history
+ * (v1 files and sessions migrated from them).
+ */
+export function decodeSessionHistory(
+  source: { history?: SessionHistory }
+): { undoStack: CurationOperation[]; redoStack: CurationOperation[] } | null {
+  if (!source.history) return null;
+  return {
+    undoStack: source.history.undoStack.map(decodeOperation),
+    redoStack: source.history.redoStack.map(decodeOperation),
+  };
+}
+
+/** Copy a contig table into its stored form. */
+export function toSessionContigs(contigs: ContigInfo[]): SessionContig[] {
+  return contigs.map((c) => {
+    const out: SessionContig = {
+      name: c.name,
+      originalIndex: c.originalIndex,
+      length: c.length,
+      pixelStart: c.pixelStart,
+      pixelEnd: c.pixelEnd,
+      inverted: c.inverted,
+      scaffoldId: c.scaffoldId,
+    };
+    if (c.sequenceSegments) out.sequenceSegments = c.sequenceSegments.map((seg) => ({ ...seg }));
+    return out;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Migration
+// ---------------------------------------------------------------------------
+
+/**
+ * Upgrade steps, keyed by the version they upgrade FROM. Each step mutates
+ * the raw object to the next version's shape and records what it changed.
+ */
+const MIGRATIONS: Record<number, (data: Record<string, unknown>, report: SessionValidationReport) => void> = {
+  1: (data, report) => {
+    // v1 kept descriptions only; there is no undo data to recover, so the
+    // session loads with an empty history and the log stays for reference.
+    report.upgraded.push('operationLog: kept as a description-only log; undo history starts empty');
+    data.version = 2;
+  },
+};
+
+/**
+ * Create an empty validation report for validateSession()/importSession().
+ */
+export function createValidationReport(): SessionValidationReport {
+  return { sourceVersion: null, upgraded: [], dropped: [] };
+}
+
+/**
+ * Upgrade a raw session object in place from its version to SESSION_VERSION.
+ * Returns false (and leaves the object alone) if the version is not one this
+ * build can read.
+ */
+export function migrateSession(
+  data: Record<string, unknown>,
+  report: SessionValidationReport = createValidationReport()
+): boolean {
+  const from = data.version;
+  if (!Number.isInteger(from) || (from as number) < MIN_SESSION_VERSION || (from as number) > SESSION_VERSION) {
+    return false;
+  }
+  for (let v = from as number; v < SESSION_VERSION; v++) {
+    MIGRATIONS[v](data, report);
+  }
+  if (from !== SESSION_VERSION) report.upgraded.push(`version: ${from} → ${SESSION_VERSION}`);
+  return true;
+}
+
+/** Top-level fields of the current format; anything else is dropped on import. */
+const SESSION_FIELDS: ReadonlySet<string> = new Set([
+  'version', 'filename', 'timestamp', 'contigOrder', 'contigStates', 'scaffolds',
+  'waypoints', 'camera', 'settings', 'operationLog', 'contigs', 'history', 'branches', 'annotations',
+  'analysis',
+]);
+
 // ---------------------------------------------------------------------------
 // Core functions
 // ---------------------------------------------------------------------------
@@ -508,17 +1034,22 @@ export function exportSession(
       showGrid: appState.showGrid,
     },
     operationLog,
+    // Full contig table, so cut/join products survive the reload.
+    contigs: toSessionContigs(contigs),
+    history: encodeSessionHistory(appState.undoStack, appState.redoStack),
   };
 }
 
 /**
- * Parse a JSON string into a validated SessionData object.
+ * Parse a JSON string into a validated SessionData object, migrating older
+ * formats to the current one.
  *
- * @param json - The raw JSON string to parse
+ * @param json   - The raw JSON string to parse
+ * @param report - Optional report that receives the upgraded and dropped fields
  * @returns A validated SessionData object
  * @throws Error if the JSON is invalid or the data fails validation
  */
-export function importSession(json: string): SessionData {
+export function importSession(json: string, report?: SessionValidationReport): SessionData {
   let parsed: unknown;
   try {
     parsed = JSON.parse(json);
@@ -526,7 +1057,7 @@ export function importSession(json: string): SessionData {
     throw new Error('Session import failed: invalid JSON');
   }
 
-  if (!validateSession(parsed)) {
+  if (!validateSession(parsed, report)) {
     throw new Error('Session import failed: data did not pass validation');
   }
 
@@ -543,7 +1074,7 @@ export function importSession(json: string): SessionData {
 export function downloadSession(sessionData: SessionData): void {
   const content = JSON.stringify(sessionData, null, 2);
   const dateStr = formatDateForFilename(new Date(sessionData.timestamp));
-  const baseName = sessionData.filename.replace(/\.pretext$/i, '');
+  const baseName = stripContactMapExtension(sessionData.filename);
   const downloadFilename = `${baseName}_session_${dateStr}.json`;
 
   const blob = new Blob([content], { type: 'application/json' });
@@ -561,15 +1092,24 @@ export function downloadSession(sessionData: SessionData): void {
  * Validate that an unknown value conforms to the SessionData structure.
  *
  * Performs thorough structural and type checking without trusting any input.
+ * Sessions from an older supported version are migrated in place first.
+ * Malformed v2 sections (contig table, history) and unknown top-level fields
+ * are removed rather than failing the whole session, since the rest still
+ * restores the assembly; each upgrade and removal is recorded in `report`.
  *
- * @param data - The unknown value to validate
+ * @param data   - The unknown value to validate (normalized in place)
+ * @param report - Optional report that receives the upgraded and dropped fields
  * @returns True if the data is a valid SessionData object
  */
-export function validateSession(data: unknown): data is SessionData {
+export function validateSession(
+  data: unknown,
+  report: SessionValidationReport = createValidationReport()
+): data is SessionData {
   if (!isObject(data)) return false;
 
   // -- version --
-  if (data.version !== SESSION_VERSION) return false;
+  report.sourceVersion = Number.isInteger(data.version) ? (data.version as number) : null;
+  if (!migrateSession(data, report)) return false;
 
   // -- filename --
   if (typeof data.filename !== 'string') return false;
@@ -648,6 +1188,50 @@ export function validateSession(data: unknown): data is SessionData {
     if (!validateSessionAnalysis(data.analysis)) return false;
   }
 
+  // -- contigs, history, branches (v2; dropped rather than rejected when malformed) --
+  if (data.contigs !== undefined) {
+    const reason = checkSessionContigs(data.contigs);
+    if (reason) {
+      delete data.contigs;
+      report.dropped.push(`contigs: ${reason}`);
+    }
+  }
+  if (data.history !== undefined) {
+    const reason = data.contigs === undefined
+      ? 'no contig table to resolve its contig ids against'
+      : checkSessionHistory(data.history);
+    if (reason) {
+      delete data.history;
+      report.dropped.push(`history: ${reason}`);
+    }
+  }
+  if (data.branches !== undefined) {
+    const reason = data.history === undefined
+      ? 'the active branch has no history to attach to'
+      : checkSessionBranches(data.branches);
+    if (reason) {
+      delete data.branches;
+      report.dropped.push(`branches: ${reason}`);
+    }
+  }
+  if (data.annotations !== undefined) {
+    const reason = Array.isArray(data.contigs)
+      ? checkSessionAnnotations(data.annotations, data.contigs.length)
+      : 'no contig table to resolve its contig ids against';
+    if (reason) {
+      delete data.annotations;
+      report.dropped.push(`annotations: ${reason}`);
+    }
+  }
+
+  // -- unknown fields --
+  for (const key of Object.keys(data)) {
+    if (!SESSION_FIELDS.has(key)) {
+      delete data[key];
+      report.dropped.push(`${key}: not part of the session format`);
+    }
+  }
+
   return true;
 }
 
@@ -680,6 +1264,6 @@ export function buildSessionFilename(
   timestamp: number
 ): string {
   const dateStr = formatDateForFilename(new Date(timestamp));
-  const baseName = originalFilename.replace(/\.pretext$/i, '');
+  const baseName = stripContactMapExtension(originalFilename);
   return `${baseName}_session_${dateStr}.json`;
 }
@@ -13,10 +13,13 @@ import { Minimap } from './renderer/Minimap';
 import { TrackRenderer } from './renderer/TrackRenderer';
 import { ScaffoldOverlay } from './renderer/ScaffoldOverlay';
 import { WaypointOverlay } from './renderer/WaypointOverlay';
+import { PeerOverlay } from './renderer/PeerOverlay';
+import { RulerRenderer } from './renderer/RulerRenderer';
 import { TileDecodeWorkerClient } from './renderer/TileDecodeWorkerClient';
 import { DragReorder } from './curation/DragReorder';
 import { ScaffoldManager } from './curation/ScaffoldManager';
 import { WaypointManager } from './curation/WaypointManager';
+import { BranchManager } from './curation/BranchManager';
 import { CurationEngine } from './curation/CurationEngine';
 import { MetricsTracker } from './curation/QualityMetrics';
 import { TutorialManager } from './ui/TutorialManager';
@@ -44,12 +47,16 @@ import {
   setupFastaUpload,
   setupTrackUpload,
   setupAGPImport,
+  setupReferenceAlignmentInput,
   setupFileDrop,
   setupFileInput,
   startRenderLoop,
   onCameraChange,
   setupScriptConsole,
   setupCommandPalette,
+  setupLocusSearch,
+  setupRulers,
+  setupRegionAnalysis,
   setupKeyboardShortcuts,
   setupToolbar,
   boot,
@@ -59,6 +66,13 @@ import {
   setupAnalysisPanel,
   setupStatsPanel,
   setupOEToggle,
+  setupCollabPanel,
+  setupAutosave,
+  setupBranchPanel,
+  setupMapCompare,
+  setupEmbedBridge,
+  isEmbedMode,
+  setupDeepLinks,
 } from './ui';
 
 class OpenPretextApp {
@@ -88,6 +102,12 @@ class OpenPretextApp {
     const waypointCanvas = document.getElementById('waypoint-canvas') as HTMLCanvasElement;
     const waypointOverlay = waypointCanvas ? new WaypointOverlay(waypointCanvas) : null!;
 
+    const peerCanvas = document.getElementById('peer-canvas') as HTMLCanvasElement;
+    const peerOverlay = peerCanvas ? new PeerOverlay(peerCanvas) : null!;
+
+    const rulerCanvas = document.getElementById('ruler-canvas') as HTMLCanvasElement;
+    const rulerRenderer = rulerCanvas ? new RulerRenderer(rulerCanvas) : null!;
+
     const scaffoldManager = new ScaffoldManager();
     const waypointManager = new WaypointManager();
     CurationEngine.setScaffoldManager(scaffoldManager);
@@ -110,11 +130,14 @@ class OpenPretextApp {
       trackRenderer,
       scaffoldOverlay,
       waypointOverlay,
+      peerOverlay,
+      rulerRenderer,
       minimap,
       camera: null!, // set below after Camera is created
       dragReorder: new DragReorder(),
       scaffoldManager,
       waypointManager,
+      branchManager: new BranchManager(scaffoldManager),
       metricsTracker: new MetricsTracker(),
       tileManager: null,
       tileDecoder: null,
@@ -128,12 +151,14 @@ class OpenPretextApp {
       currentWaypointId: null,
       animFrameId: 0,
       referenceSequences: null,
+      fileFingerprint: null,
       fastaTrackData: null,
       faithfulOverviewOriginal: null,
       comparisonSnapshot: null,
       comparisonInvertedSnapshot: null,
       comparisonVisible: false,
       tutorialManager: null,
+      collab: null,
       progressReference: null,
       previousProgress: null,
       flashHighlightStart: 0,
@@ -187,6 +212,9 @@ class OpenPretextApp {
     setupFileDrop(ctx);
     setupFileInput(ctx);
     setupCommandPalette(ctx);
+    setupLocusSearch(ctx);
+    setupRulers(ctx);
+    setupRegionAnalysis(ctx);
     setupMouseTracking(ctx, canvas);
     setupClickInteractions(ctx, canvas);
     setupEventListeners(ctx);
@@ -197,6 +225,7 @@ class OpenPretextApp {
     setupTrackUpload(ctx);
     setupFastaUpload(ctx);
     setupAGPImport(ctx);
+    setupReferenceAlignmentInput(ctx);
     startRenderLoop(ctx);
     setupSpecimenPicker(ctx);
 
@@ -215,6 +244,14 @@ class OpenPretextApp {
     setupAnalysisPanel(ctx);
     setupStatsPanel();
     setupOEToggle(ctx);
+    setupCollabPanel(ctx);
+    // An embedded viewer's host owns persistence; several on one page would
+    // also share (and fight over) the same autosave store.
+    if (!isEmbedMode()) setupAutosave(ctx);
+    setupBranchPanel(ctx);
+    setupMapCompare(ctx);
+    setupEmbedBridge(ctx);
+    setupDeepLinks(ctx);
 
     console.log('OpenPretext initialized');
   }
@@ -28,6 +28,8 @@ export class Camera {
 
   // Drag state (mouse)
   private isDragging: boolean = false;
+  /** Canvas the current drag started on (the main one or a linked one). */
+  private dragCanvas: HTMLCanvasElement | null = null;
   private dragStartX: number = 0;
   private dragStartY: number = 0;
   private dragStartCamX: number = 0;
@@ -58,25 +60,20 @@ export class Camera {
     this.setupEventListeners();
   }
 
-  private setupEventListeners(): void {
-    const canvas = this.canvas;
+  /**
+   * Let another canvas of the same size drive this camera too (pan, zoom,
+   * touch), so two views of different maps stay linked.
+   */
+  linkCanvas(canvas: HTMLCanvasElement): void {
+    this.attachCanvas(canvas);
+  }
 
-    // Mouse drag for panning
-    canvas.addEventListener('mousedown', (e) => {
-      // In non-navigate modes, left-click is for interactions, not panning
-      if (e.button === 0 && this.leftClickBlocked) return;
-      if (e.button === 0 || e.button === 2) { // left or right click
-        this.isDragging = true;
-        this.dragStartX = e.clientX;
-        this.dragStartY = e.clientY;
-        this.dragStartCamX = this.x;
-        this.dragStartCamY = this.y;
-        canvas.style.cursor = 'grabbing';
-      }
-    });
+  private setupEventListeners(): void {
+    this.attachCanvas(this.canvas);
 
     window.addEventListener('mousemove', (e) => {
-      if (!this.isDragging) return;
+      const canvas = this.dragCanvas;
+      if (!this.isDragging || !canvas) return;
 
       const dx = (e.clientX - this.dragStartX) / canvas.clientWidth;
       const dy = (e.clientY - this.dragStartY) / canvas.clientHeight;
@@ -96,7 +93,34 @@ export class Camera {
     window.addEventListener('mouseup', () => {
       if (this.isDragging) {
         this.isDragging = false;
-        canvas.style.cursor = 'grab';
+        if (this.dragCanvas) this.dragCanvas.style.cursor = 'grab';
+        this.dragCanvas = null;
+      }
+    });
+
+    // Keyboard shortcuts (J key handled in main.ts to support mode-aware routing)
+    window.addEventListener('keydown', (e) => {
+      // Reset view (Home)
+      if (e.key === 'Home') {
+        this.resetView();
+      }
+    });
+  }
+
+  /** Pointer, wheel and touch handlers for one canvas. */
+  private attachCanvas(canvas: HTMLCanvasElement): void {
+    // Mouse drag for panning
+    canvas.addEventListener('mousedown', (e) => {
+      // In non-navigate modes, left-click is for interactions, not panning
+      if (e.button === 0 && this.leftClickBlocked && canvas === this.canvas) return;
+      if (e.button === 0 || e.button === 2) { // left or right click
+        this.isDragging = true;
+        this.dragCanvas = canvas;
+        this.dragStartX = e.clientX;
+        this.dragStartY = e.clientY;
+        this.dragStartCamX = this.x;
+        this.dragStartCamY = this.y;
+        canvas.style.cursor = 'grabbing';
       }
     });
 
@@ -142,14 +166,6 @@ export class Camera {
     // Prevent context menu
     canvas.addEventListener('contextmenu', (e) => e.preventDefault());
 
-    // Keyboard shortcuts (J key handled in main.ts to support mode-aware routing)
-    window.addEventListener('keydown', (e) => {
-      // Reset view (Home)
-      if (e.key === 'Home') {
-        this.resetView();
-      }
-    });
-
     // Touch events for mobile/tablet and trackpad gestures
     canvas.addEventListener('touchstart', (e) => {
       e.preventDefault();
@@ -323,6 +339,20 @@ export class Camera {
     this.emitChange();
   }
 
+  /**
+   * Snap instantly to a view, without animating (used to restore a view from
+   * a link). Omitted fields keep their current value; zoom is kept within
+   * the camera's limits.
+   */
+  jumpTo(target: Partial<CameraState>): void {
+    this.animating = false;
+    this.x = target.x ?? this.x;
+    this.y = target.y ?? this.y;
+    this.zoom = Math.max(this.minZoom, Math.min(this.maxZoom, target.zoom ?? this.zoom));
+    this.clamp();
+    this.emitChange();
+  }
+
   /**
    * Zoom to fit a specific region (in map coordinates 0-1).
    */
@@ -23,6 +23,9 @@ export interface LabelRenderOptions {
    *  canvas, so a label drawn there sits on top of the block instead of being
    *  hidden by it. Default 0. */
   trackLabelBlockPx?: number;
+  /** Thickness (CSS px) of the coordinate rulers pinned to the canvas's top
+   *  and left edges; labels clamped to the edge stay clear of them. Default 0. */
+  rulerPx?: number;
 }
 
 export class LabelRenderer {
@@ -102,15 +105,16 @@ export class LabelRenderer {
     // top/left edge so labels move with pan/zoom instead of floating at the
     // fixed canvas corner. Clamp to stay on-screen when the map fills/overflows.
     const gutter = opts.trackGutterPx ?? 0;
+    const ruler = opts.rulerPx ?? 0;
     const mapTop = this.mapToScreenY(0, camera, canvasWidth, canvasHeight);
     const mapLeft = this.mapToScreenX(0, camera, canvasWidth, canvasHeight);
     const topLabelY = Math.min(
       canvasHeight - fontSize / 2,
-      Math.max(fontSize / 2 + labelMargin, mapTop - gutter - labelMargin - fontSize / 2),
+      Math.max(ruler + fontSize / 2 + labelMargin, mapTop - gutter - labelMargin - fontSize / 2),
     );
     const leftLabelX = Math.min(
       canvasWidth - fontSize / 2,
-      Math.max(fontSize / 2 + labelMargin, mapLeft - gutter - labelMargin - fontSize / 2),
+      Math.max(ruler + fontSize / 2 + labelMargin, mapLeft - gutter - labelMargin - fontSize / 2),
     );
 
     // The track gutter's own extent, derived the same way TrackRenderer places
@@ -118,7 +122,7 @@ export class LabelRenderer {
     // canvas is layered above the track canvas, so anything drawn inside the
     // gutter lands on top of the track names rather than behind them.
     const gutterBottom = gutter > 0
-      ? TrackRenderer.gutterOffset(mapTop, gutter, canvasHeight) + gutter
+      ? TrackRenderer.gutterOffset(mapTop, gutter, canvasHeight, ruler) + gutter
       : 0;
     const nameBlockRight = gutter > 0 ? (opts.trackLabelBlockPx ?? 0) : 0;
 
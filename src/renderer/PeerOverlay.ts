@@ -0,0 +1,172 @@
+/**
+ * PeerOverlay - Renders other curators' cursors and selections in a
+ * collaborative session on the 2D overlay canvas.
+ *
+ * Each peer's pointer is drawn as a coloured dot with the curator's name, and
+ * each contig they have selected as an outlined block on the diagonal in the
+ * same colour.
+ *
+ * Uses the same camera coordinate transforms as WaypointOverlay to convert
+ * normalized map coordinates (0-1) to screen pixel positions.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A peer as the overlay draws it, already resolved to map coordinates. */
+export interface PeerMarker {
+  name: string;
+  color: string;
+  /** Normalized map position of the pointer, or null when off the map. */
+  cursor: { x: number; y: number } | null;
+  /** Selected contigs as normalized [start, end) spans along the diagonal. */
+  selection: Array<{ start: number; end: number }>;
+}
+
+export interface PeerOverlayOptions {
+  /** Camera state for coordinate transforms. */
+  camera: { x: number; y: number; zoom: number };
+  /** Canvas dimensions in CSS pixels. */
+  canvasWidth: number;
+  canvasHeight: number;
+  peers: PeerMarker[];
+  /** Radius of the cursor dot in CSS pixels. Default: 5. */
+  cursorRadius?: number;
+  /** Font size for labels in CSS pixels. Default: 11. */
+  fontSize?: number;
+}
+
+// ---------------------------------------------------------------------------
+// PeerOverlay
+// ---------------------------------------------------------------------------
+
+export class PeerOverlay {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get 2D context for peer overlay canvas');
+    this.ctx = ctx;
+  }
+
+  // -----------------------------------------------------------------------
+  // Coordinate transforms (same as WaypointOverlay / ScaffoldOverlay)
+  // -----------------------------------------------------------------------
+
+  private mapToScreenX(
+    mapX: number,
+    cam: { x: number; y: number; zoom: number },
+    w: number,
+    h: number,
+  ): number {
+    const aspect = w / h;
+    let screenX = (mapX - cam.x) * cam.zoom;
+    if (aspect > 1) {
+      screenX /= aspect;
+    }
+    return (screenX + 0.5) * w;
+  }
+
+  private mapToScreenY(
+    mapY: number,
+    cam: { x: number; y: number; zoom: number },
+    w: number,
+    h: number,
+  ): number {
+    const aspect = w / h;
+    let screenY = (mapY - cam.y) * cam.zoom;
+    if (aspect <= 1) {
+      screenY *= aspect;
+    }
+    return (screenY + 0.5) * h;
+  }
+
+  // -----------------------------------------------------------------------
+  // Rendering
+  // -----------------------------------------------------------------------
+
+  /** Blank the peer overlay canvas (used when no session is active). */
+  clear(): void {
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  render(opts: PeerOverlayOptions): void {
+    const {
+      camera,
+      canvasWidth,
+      canvasHeight,
+      peers,
+      cursorRadius = 5,
+      fontSize = 11,
+    } = opts;
+
+    const ctx = this.ctx;
+
+    // Resize canvas to match display (retina-aware)
+    const dpr = (typeof window !== 'undefined' ? window.devicePixelRatio : 1) || 1;
+    const displayW = Math.floor(canvasWidth * dpr);
+    const displayH = Math.floor(canvasHeight * dpr);
+
+    if (this.canvas.width !== displayW || this.canvas.height !== displayH) {
+      this.canvas.width = displayW;
+      this.canvas.height = displayH;
+    }
+
+    ctx.clearRect(0, 0, displayW, displayH);
+    if (peers.length === 0) return;
+
+    ctx.save();
+    ctx.scale(dpr, dpr);
+    ctx.textBaseline = 'middle';
+    ctx.font = `${fontSize}px sans-serif`;
+
+    const toX = (x: number) => this.mapToScreenX(x, camera, canvasWidth, canvasHeight);
+    const toY = (y: number) => this.mapToScreenY(y, camera, canvasWidth, canvasHeight);
+
+    // --- Selections: dashed outline around each selected diagonal block ---
+    ctx.lineWidth = 2;
+    ctx.setLineDash([6, 4]);
+    for (const peer of peers) {
+      ctx.strokeStyle = peer.color;
+      for (const span of peer.selection) {
+        const x0 = toX(span.start);
+        const y0 = toY(span.start);
+        const x1 = toX(span.end);
+        const y1 = toY(span.end);
+        if (x1 < 0 || x0 > canvasWidth || y1 < 0 || y0 > canvasHeight) continue;
+        ctx.strokeRect(x0, y0, x1 - x0, y1 - y0);
+      }
+    }
+    ctx.setLineDash([]);
+
+    // --- Cursors: dot plus name label ---
+    for (const peer of peers) {
+      if (!peer.cursor) continue;
+      const sx = toX(peer.cursor.x);
+      const sy = toY(peer.cursor.y);
+      if (sx < -cursorRadius || sx > canvasWidth + cursorRadius) continue;
+      if (sy < -cursorRadius || sy > canvasHeight + cursorRadius) continue;
+
+      ctx.beginPath();
+      ctx.arc(sx, sy, cursorRadius, 0, Math.PI * 2);
+      ctx.fillStyle = peer.color;
+      ctx.fill();
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 1.5;
+      ctx.stroke();
+
+      const labelX = sx + cursorRadius + 4;
+      const labelY = sy - cursorRadius - 4;
+      const textW = ctx.measureText(peer.name).width;
+      ctx.fillStyle = peer.color;
+      ctx.fillRect(labelX - 3, labelY - fontSize / 2 - 2, textW + 6, fontSize + 4);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(peer.name, labelX, labelY);
+    }
+
+    ctx.restore();
+  }
+}
@@ -0,0 +1,264 @@
+/**
+ * RulerRenderer — genome-coordinate rulers along the top and left edges of
+ * the contact map, drawn on their own 2D canvas overlay.
+ *
+ * The axis is described as spans: stretches of the map over which a bp
+ * coordinate runs linearly, such as one contig in its own coordinates
+ * (running backwards when it is inverted) or in the coordinates of the
+ * scaffold it belongs to. Ticks fall on round values of a 1-2-5 step chosen
+ * from the current zoom, with kb/Mb labels; each span starts with a taller
+ * boundary tick. The rulers are pinned to the canvas edges and use the same
+ * camera transforms as LabelRenderer, so they follow every pan and zoom.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A stretch of the axis: map positions `start..end` carry bp `bpStart..bpEnd`. */
+export interface RulerSpan {
+  start: number;
+  end: number;
+  /** Coordinate at `start`; greater than `bpEnd` on a reversed span. */
+  bpStart: number;
+  bpEnd: number;
+}
+
+export interface RulerTick {
+  /** Map position (0-1). */
+  pos: number;
+  /** Coordinate at the tick, in bp. */
+  bp: number;
+  /** Major ticks are labelled; minor ones are not. */
+  major: boolean;
+}
+
+export interface RulerRenderOptions {
+  spans: RulerSpan[];
+  camera: { x: number; y: number; zoom: number };
+  canvasWidth: number;
+  canvasHeight: number;
+  /** Short tag drawn in the corner where the rulers meet (e.g. the frame). */
+  cornerLabel?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Tick math
+// ---------------------------------------------------------------------------
+
+/** Minimum spacing between labelled ticks, in CSS px. */
+const MIN_MAJOR_SPACING_PX = 80;
+/** Minimum spacing between minor ticks, in CSS px. */
+const MIN_MINOR_SPACING_PX = 8;
+
+/** The smallest step of the form {1, 2, 5} x 10^k that is at least `minStep` bp (and at least 1). */
+export function niceTickStep(minStep: number): number {
+  if (!(minStep > 1)) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(minStep)));
+  for (const m of [1, 2, 5, 10]) {
+    if (m * magnitude >= minStep) return m * magnitude;
+  }
+  return 10 * magnitude;
+}
+
+/**
+ * Label for a tick at `bp` with ticks every `step` bp: in Mb once the step
+ * reaches 100 kb, kb once it reaches 100 bp, else bp, with as many decimals
+ * as the step needs.
+ */
+export function formatRulerTick(bp: number, step: number): string {
+  const [unit, suffix] = step >= 1e5 ? [1e6, 'Mb'] : step >= 100 ? [1e3, 'kb'] : [1, 'bp'];
+  const decimals = Math.max(0, Math.ceil(Math.log10(unit / step) - 1e-9));
+  return `${(bp / unit).toFixed(decimals)} ${suffix}`;
+}
+
+/**
+ * Ticks on the spans within map positions `from..to`, every `step` bp, with
+ * minor ticks every `minorStep` (0 for none). A span's coordinates are
+ * interpolated linearly between its ends.
+ */
+export function rulerTicks(
+  spans: RulerSpan[],
+  from: number,
+  to: number,
+  step: number,
+  minorStep = 0,
+): RulerTick[] {
+  const ticks: RulerTick[] = [];
+  const every = minorStep > 0 ? minorStep : step;
+  for (const span of spans) {
+    if (span.end <= from || span.start >= to || span.end <= span.start) continue;
+    const perPos = (span.bpEnd - span.bpStart) / (span.end - span.start);
+    const at = (pos: number) => span.bpStart + (pos - span.start) * perPos;
+    // Visible coordinate range of this span.
+    const a = at(Math.max(from, span.start));
+    const b = at(Math.min(to, span.end));
+    const lo = Math.min(a, b), hi = Math.max(a, b);
+    for (let v = Math.ceil(lo / every) * every; v <= hi; v += every) {
+      const bp = Math.round(v);
+      ticks.push({
+        pos: perPos === 0 ? span.start : span.start + (bp - span.bpStart) / perPos,
+        bp,
+        major: bp % step === 0,
+      });
+    }
+  }
+  return ticks;
+}
+
+// ---------------------------------------------------------------------------
+// RulerRenderer
+// ---------------------------------------------------------------------------
+
+export class RulerRenderer {
+  /** Thickness of each ruler, in CSS px. Overlays keep clear of it. */
+  static readonly THICKNESS = 18;
+
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get 2D context for ruler canvas');
+    this.ctx = ctx;
+  }
+
+  // -----------------------------------------------------------------------
+  // Coordinate transforms (same as LabelRenderer / ScaffoldOverlay)
+  // -----------------------------------------------------------------------
+
+  private mapToScreenX(mapX: number, cam: { x: number; y: number; zoom: number }, w: number, h: number): number {
+    const aspect = w / h;
+    let screenX = (mapX - cam.x) * cam.zoom;
+    if (aspect > 1) screenX /= aspect;
+    return (screenX + 0.5) * w;
+  }
+
+  private mapToScreenY(mapY: number, cam: { x: number; y: number; zoom: number }, w: number, h: number): number {
+    const aspect = w / h;
+    let screenY = (mapY - cam.y) * cam.zoom;
+    if (aspect <= 1) screenY *= aspect;
+    return (screenY + 0.5) * h;
+  }
+
+  /** Blank the ruler canvas (rulers off, or no assembly loaded). */
+  clear(): void {
+    this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+  }
+
+  render(opts: RulerRenderOptions): void {
+    const { spans, camera, canvasWidth: w, canvasHeight: h } = opts;
+    const ctx = this.ctx;
+
+    const dpr = window.devicePixelRatio || 1;
+    const displayW = Math.floor(w * dpr);
+    const displayH = Math.floor(h * dpr);
+    if (this.canvas.width !== displayW || this.canvas.height !== displayH) {
+      this.canvas.width = displayW;
+      this.canvas.height = displayH;
+    }
+    ctx.clearRect(0, 0, displayW, displayH);
+    if (spans.length === 0) return;
+
+    ctx.save();
+    ctx.scale(dpr, dpr);
+    const size = RulerRenderer.THICKNESS;
+
+    // Screen px per unit of map position (the same along both axes).
+    const pxPerPos = this.mapToScreenX(1, camera, w, h) - this.mapToScreenX(0, camera, w, h);
+    const totalPos = spans.reduce((sum, sp) => sum + (sp.end - sp.start), 0);
+    const totalBp = spans.reduce((sum, sp) => sum + Math.abs(sp.bpEnd - sp.bpStart), 0);
+    if (pxPerPos <= 0 || totalPos <= 0 || totalBp <= 0) {
+      ctx.restore();
+      return;
+    }
+    // One step for the whole axis, from the average density, so ticks keep
+    // the same spacing across span boundaries.
+    const bpPerPx = totalBp / totalPos / pxPerPos;
+    const step = niceTickStep(bpPerPx * MIN_MAJOR_SPACING_PX);
+    const minor = step / (String(step)[0] === '2' ? 4 : 5);
+    const minorStep = minor >= 1 && Number.isInteger(minor) && minor / bpPerPx >= MIN_MINOR_SPACING_PX ? minor : 0;
+
+    // Visible map range along each axis.
+    const xFrom = camera.x - (0.5 / pxPerPos) * w, xTo = camera.x + (0.5 / pxPerPos) * w;
+    const yFrom = camera.y - (0.5 / pxPerPos) * h, yTo = camera.y + (0.5 / pxPerPos) * h;
+
+    ctx.fillStyle = 'rgba(20, 20, 30, 0.85)';
+    ctx.fillRect(0, 0, w, size);
+    ctx.fillRect(0, size, size, h - size);
+    ctx.font = `10px -apple-system, BlinkMacSystemFont, 'Segoe UI', system-ui, sans-serif`;
+    ctx.textBaseline = 'middle';
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.lineWidth = 1;
+
+    // Top ruler
+    this.drawAxis(spans, rulerTicks(spans, xFrom, xTo, step, minorStep), step,
+      (pos) => this.mapToScreenX(pos, camera, w, h), size, w);
+
+    // Left ruler, labels rotated to read bottom-to-top like the contig names.
+    ctx.save();
+    ctx.translate(0, h);
+    ctx.rotate(-Math.PI / 2);
+    this.drawAxis(spans, rulerTicks(spans, yFrom, yTo, step, minorStep), step,
+      (pos) => h - this.mapToScreenY(pos, camera, w, h), size, h);
+    ctx.restore();
+
+    // Corner
+    ctx.fillStyle = 'rgba(20, 20, 30, 1)';
+    ctx.fillRect(0, 0, size, size);
+    if (opts.cornerLabel) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+      ctx.textAlign = 'center';
+      ctx.fillText(opts.cornerLabel, size / 2, size / 2, size - 2);
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Draw one ruler along the x axis of the current transform: span
+   * boundaries, ticks hanging from the inner edge, and labels that do not
+   * overlap. `toScreen` maps a map position to a distance along the ruler.
+   */
+  private drawAxis(
+    spans: RulerSpan[],
+    ticks: RulerTick[],
+    step: number,
+    toScreen: (pos: number) => number,
+    size: number,
+    length: number,
+  ): void {
+    const ctx = this.ctx;
+    ctx.beginPath();
+    for (const span of spans) {
+      const x = toScreen(span.start);
+      if (x < size || x > length) continue;
+      ctx.moveTo(Math.round(x) + 0.5, 0);
+      ctx.lineTo(Math.round(x) + 0.5, size);
+    }
+    for (const tick of ticks) {
+      const x = Math.round(toScreen(tick.pos)) + 0.5;
+      const len = tick.major ? 6 : 3;
+      ctx.moveTo(x, size - len);
+      ctx.lineTo(x, size);
+    }
+    ctx.stroke();
+
+    // Labels left of their tick, skipping any that would collide. Inverted
+    // spans and the left ruler run against span order, so go by position.
+    ctx.textAlign = 'right';
+    let lastEdge = -Infinity;
+    const labelled = ticks
+      .filter((tick) => tick.major && tick.bp !== 0)
+      .map((tick) => ({ x: toScreen(tick.pos), bp: tick.bp }))
+      .sort((a, b) => a.x - b.x);
+    for (const { x, bp } of labelled) {
+      const text = formatRulerTick(bp, step);
+      const width = ctx.measureText(text).width;
+      if (x - width - 2 < Math.max(lastEdge + 6, size) || x > length) continue;
+      ctx.fillText(text, x - 2, (size - 6) / 2 + 1);
+      lastEdge = x;
+    }
+  }
+}
@@ -6,6 +6,12 @@
  * the main thread on load) and decodes requested tiles off the main thread,
  * transferring the decoded Float32Array back zero-copy.
  *
+ * Cooler/mcool maps have no BC4 bytes: the worker is handed the cooler file
+ * instead and reads each requested tile from it on demand. A remote .pretext
+ * is streamed here over range requests (formats/PretextStream.ts): the worker
+ * reports each tile's coarse mip as the stream passes it, and fetches detail
+ * tiles by range as they are requested.
+ *
  * Cancellation uses a monotonically increasing `generation` counter. A decode
  * task yields between small chunks (via setTimeout) so a newer request can
  * supersede it: the task stops as soon as its generation is no longer current.
@@ -14,7 +20,14 @@
 import { decodeTile } from './TileDecoder';
 import { assembleOverview, type OverviewMode } from '../formats/PretextParser';
 import type { TileKey } from './TileManager';
-import type { PretextHeader } from '../formats/PretextParser';
+import type { PretextContig, PretextExtension, PretextHeader } from '../formats/PretextParser';
+import { CoolerTileSource, type CoolerSource } from '../formats/CoolerParser';
+import {
+  PretextStreamSource,
+  type RemotePretextInfo,
+  type StreamedTile,
+  type StreamProgress,
+} from '../formats/PretextStream';
 
 // ---------------------------------------------------------------------------
 // Message protocol
@@ -27,6 +40,26 @@ export interface TileInitMessage {
   header: PretextHeader;
 }
 
+/** main → worker: read detail tiles lazily from a cooler file (buffer transferred). */
+export interface TileInitCoolerMessage {
+  type: 'initCooler';
+  source: CoolerSource;
+  header: PretextHeader;
+  contigs: PretextContig[];
+}
+
+/** main → worker: stream a remote .pretext and read its detail tiles by range. */
+export interface TileInitRemoteMessage {
+  type: 'initRemote';
+  info: RemotePretextInfo;
+  streamId: number;
+}
+
+/** main → worker: drop the current map's tiles (and stop any stream). */
+export interface TileClearMessage {
+  type: 'clear';
+}
+
 /** main → worker: decode these tiles at the given generation. */
 export interface TileDecodeMessage {
   type: 'decode';
@@ -51,11 +84,26 @@ export interface TileAssembleOverviewMessage {
   requestId: number;
 }
 
+/**
+ * main → worker: decode these tiles and send them back together, outside the
+ * generation scheme (a decode for display does not supersede it). Used to
+ * read a region at full resolution for analysis.
+ */
+export interface TileFetchMessage {
+  type: 'fetch';
+  keys: TileKey[];
+  requestId: number;
+}
+
 export type TileWorkerRequest =
   | TileInitMessage
+  | TileInitCoolerMessage
+  | TileInitRemoteMessage
+  | TileClearMessage
   | TileDecodeMessage
   | TileCancelMessage
-  | TileAssembleOverviewMessage;
+  | TileAssembleOverviewMessage
+  | TileFetchMessage;
 
 /** worker → main: a single tile finished decoding. `data.buffer` is transferred. */
 export interface TileDecodedMessage {
@@ -79,10 +127,43 @@ export interface TileOverviewAssembledMessage {
   overviewSize: number;
 }
 
+/** worker → main: the tiles of a fetch, null where one could not be read. Buffers are transferred. */
+export interface TileFetchedMessage {
+  type: 'fetched';
+  requestId: number;
+  tiles: (Float32Array | null)[];
+}
+
+/** worker → main: the stream passed a tile. `tile.data.buffer` is transferred. */
+export interface TileStreamTileMessage {
+  type: 'streamTile';
+  streamId: number;
+  tile: StreamedTile;
+  progress: StreamProgress;
+}
+
+/** worker → main: the stream read the whole file. */
+export interface TileStreamEndMessage {
+  type: 'streamEnd';
+  streamId: number;
+  extensions: PretextExtension[];
+}
+
+/** worker → main: the stream failed. */
+export interface TileStreamErrorMessage {
+  type: 'streamError';
+  streamId: number;
+  message: string;
+}
+
 export type TileWorkerResponse =
   | TileDecodedMessage
   | TileBatchCompleteMessage
-  | TileOverviewAssembledMessage;
+  | TileOverviewAssembledMessage
+  | TileFetchedMessage
+  | TileStreamTileMessage
+  | TileStreamEndMessage
+  | TileStreamErrorMessage;
 
 // ---------------------------------------------------------------------------
 // Worker state
@@ -90,44 +171,164 @@ export type TileWorkerResponse =
 
 /** Tiles to decode per chunk before yielding to check for newer requests. */
 const CHUNK_SIZE = 2;
+/** Remote tiles fetched at once (browsers open ~6 connections per host). */
+const REMOTE_CHUNK_SIZE = 6;
 
 let rawTiles: Uint8Array[] | null = null;
 let header: PretextHeader | null = null;
+/** Set instead of rawTiles when the current map is a cooler. */
+let cooler: CoolerTileSource | null = null;
+/** Set instead of rawTiles when the current map is a streamed remote .pretext. */
+let remote: PretextStreamSource | null = null;
+/** Resolves once the current map's cooler (if any) is open. */
+let coolerReady: Promise<void> = Promise.resolve();
 /** The highest generation seen; a task is stale once its gen is below this. */
 let currentGeneration = 0;
 
+function clearSource(): void {
+  cooler?.close();
+  cooler = null;
+  remote?.close();
+  remote = null;
+  rawTiles = null;
+  header = null;
+}
+
+function initCooler(msg: TileInitCoolerMessage): void {
+  clearSource();
+  header = msg.header;
+  const opening = CoolerTileSource.open(msg.source, msg.header, msg.contigs);
+  coolerReady = opening.then(
+    (source) => {
+      // A newer map may have arrived while this one was opening.
+      if (header === msg.header) cooler = source;
+      else source.close();
+    },
+    (err) => console.warn('Could not open cooler for detail tiles:', err),
+  );
+}
+
+function initRemote(msg: TileInitRemoteMessage): void {
+  clearSource();
+  header = msg.info.header;
+  const source = new PretextStreamSource(msg.info);
+  remote = source;
+  const w = self as unknown as Worker;
+  source.stream((tile, progress) => {
+    const resp: TileStreamTileMessage = { type: 'streamTile', streamId: msg.streamId, tile, progress };
+    w.postMessage(resp, [tile.data.buffer]);
+  }).then(
+    (extensions) => {
+      w.postMessage({ type: 'streamEnd', streamId: msg.streamId, extensions } as TileStreamEndMessage);
+    },
+    (err: Error) => {
+      // A newer map closed this stream; nobody is waiting for it.
+      if (remote !== source) return;
+      w.postMessage({ type: 'streamError', streamId: msg.streamId, message: err.message } as TileStreamErrorMessage);
+    },
+  );
+}
+
+/** Decoder for the current map, or null if no tiles are available. */
+function currentDecoder(): ((key: TileKey) => Float32Array | Promise<Float32Array>) | null {
+  if (remote) {
+    const source = remote;
+    return (key) => source.decodeTile(key);
+  }
+  if (cooler) {
+    const source = cooler;
+    return (key) => source.decodeTile(key);
+  }
+  if (rawTiles && header) {
+    const tiles = rawTiles, h = header;
+    return (key) => decodeTile(key, tiles, h);
+  }
+  return null;
+}
+
 function runDecode(keys: TileKey[], generation: number): void {
-  if (!rawTiles || !header) {
+  const decode = currentDecoder();
+  if (!decode) {
     postBatchComplete(generation);
     return;
   }
 
+  const chunkSize = remote ? REMOTE_CHUNK_SIZE : CHUNK_SIZE;
   let index = 0;
 
-  const step = (): void => {
+  const post = (key: TileKey, data: Float32Array): void => {
+    const msg: TileDecodedMessage = { type: 'decoded', key, data, generation };
+    // Transfer the decoded buffer to the main thread (zero-copy).
+    (self as unknown as Worker).postMessage(msg, [data.buffer]);
+  };
+
+  const step = async (): Promise<void> => {
     // Superseded by a newer decode/cancel request — abandon quietly.
     if (generation !== currentGeneration) {
       postBatchComplete(generation);
       return;
     }
 
-    const end = Math.min(index + CHUNK_SIZE, keys.length);
-    for (; index < end; index++) {
-      const key = keys[index];
-      const data = decodeTile(key, rawTiles!, header!);
-      const msg: TileDecodedMessage = { type: 'decoded', key, data, generation };
-      // Transfer the decoded buffer to the main thread (zero-copy).
-      (self as unknown as Worker).postMessage(msg, [data.buffer]);
+    const chunk = keys.slice(index, index + chunkSize);
+    index += chunk.length;
+    const results = chunk.map(decode);
+    if (results.some((r) => r instanceof Promise)) {
+      // Remote tiles: fetched together, posted unless superseded meanwhile.
+      const settled = await Promise.allSettled(results);
+      if (generation !== currentGeneration) {
+        postBatchComplete(generation);
+        return;
+      }
+      settled.forEach((r, k) => {
+        if (r.status === 'fulfilled') post(chunk[k], r.value);
+        else console.warn('Could not read detail tile:', r.reason);
+      });
+    } else {
+      chunk.forEach((key, k) => post(key, results[k] as Float32Array));
     }
 
     if (index < keys.length) {
-      setTimeout(step, 0);
+      setTimeout(() => void step(), 0);
     } else {
       postBatchComplete(generation);
     }
   };
 
-  step();
+  void step();
+}
+
+function postOverview(msg: TileAssembleOverviewMessage): void {
+  const w = self as unknown as Worker;
+  const assembled = remote
+    ? remote.assembleOverview(msg.mode)
+    : cooler
+      ? cooler.assembleOverview(msg.mode)
+      : rawTiles && header
+        ? assembleOverview(rawTiles, header, msg.mode)
+        : null;
+  if (!assembled) {
+    w.postMessage({ type: 'overviewAssembled', requestId: msg.requestId, overview: new Float32Array(0), overviewSize: 0 } as TileOverviewAssembledMessage);
+    return;
+  }
+  const { overview, overviewSize } = assembled;
+  const resp: TileOverviewAssembledMessage = { type: 'overviewAssembled', requestId: msg.requestId, overview, overviewSize };
+  w.postMessage(resp, [overview.buffer]);
+}
+
+async function postFetched(msg: TileFetchMessage): Promise<void> {
+  const decode = currentDecoder();
+  const tiles = await Promise.all(msg.keys.map(async (key) => {
+    if (!decode) return null;
+    try {
+      return await decode(key);
+    } catch (err) {
+      console.warn('Could not read detail tile:', err);
+      return null;
+    }
+  }));
+  const resp: TileFetchedMessage = { type: 'fetched', requestId: msg.requestId, tiles };
+  const buffers = tiles.filter((t): t is Float32Array => t !== null).map((t) => t.buffer);
+  (self as unknown as Worker).postMessage(resp, Array.from(new Set(buffers)));
 }
 
 function postBatchComplete(generation: number): void {
@@ -139,28 +340,38 @@ self.onmessage = (event: MessageEvent<TileWorkerRequest>) => {
   const msg = event.data;
   switch (msg.type) {
     case 'init':
+      clearSource();
       rawTiles = msg.rawTiles;
       header = msg.header;
+      coolerReady = Promise.resolve();
+      currentGeneration = 0;
+      break;
+    case 'initCooler':
+      initCooler(msg);
       currentGeneration = 0;
       break;
+    case 'initRemote':
+      initRemote(msg);
+      coolerReady = Promise.resolve();
+      currentGeneration = 0;
+      break;
+    case 'clear':
+      clearSource();
+      coolerReady = Promise.resolve();
+      break;
     case 'cancel':
       // Bump the generation so any in-flight task sees itself as stale.
       if (msg.generation > currentGeneration) currentGeneration = msg.generation;
       break;
     case 'decode':
       currentGeneration = msg.generation;
-      runDecode(msg.keys, msg.generation);
+      void coolerReady.then(() => runDecode(msg.keys, msg.generation));
       break;
-    case 'assembleOverview': {
-      const w = self as unknown as Worker;
-      if (!rawTiles || !header) {
-        w.postMessage({ type: 'overviewAssembled', requestId: msg.requestId, overview: new Float32Array(0), overviewSize: 0 } as TileOverviewAssembledMessage);
-        break;
-      }
-      const { overview, overviewSize } = assembleOverview(rawTiles, header, msg.mode);
-      const resp: TileOverviewAssembledMessage = { type: 'overviewAssembled', requestId: msg.requestId, overview, overviewSize };
-      w.postMessage(resp, [overview.buffer]);
+    case 'assembleOverview':
+      void coolerReady.then(() => postOverview(msg));
+      break;
+    case 'fetch':
+      void coolerReady.then(() => postFetched(msg));
       break;
-    }
   }
 };
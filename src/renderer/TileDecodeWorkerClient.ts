@@ -6,21 +6,47 @@
  * main-thread decoding when Web Workers are unavailable (test environments,
  * file:// protocol).
  *
+ * A remote .pretext is streamed by the worker (or, without one, here) and
+ * its detail tiles range-requested; see setRemoteSource.
+ *
  * Cancellation/staleness is tracked with a `generation` counter shared with the
  * worker: every new source or decode request bumps the generation, and decoded
  * tiles tagged with an older generation are dropped.
  */
 
-import { decodeTileBatch } from './TileDecoder';
+import { decodeTile, decodeTileBatch, decodeTileBatchWith } from './TileDecoder';
 import { assembleOverview as assembleOverviewSync, type OverviewMode } from '../formats/PretextParser';
 import type { TileKey } from './TileManager';
-import type { PretextHeader } from '../formats/PretextParser';
+import type { PretextContig, PretextExtension, PretextHeader } from '../formats/PretextParser';
+import { CoolerTileSource, type CoolerSource } from '../formats/CoolerParser';
+import {
+  PretextStreamSource,
+  type RemotePretextInfo,
+  type StreamedTile,
+  type StreamProgress,
+} from '../formats/PretextStream';
 import type { TileWorkerResponse } from './TileDecodeWorker';
 
 export interface AssembledOverview { overview: Float32Array; overviewSize: number }
 
 export type TileDecodedCallback = (key: TileKey, data: Float32Array) => void;
 
+export type StreamedTileCallback = (tile: StreamedTile, progress: StreamProgress) => void;
+
+/** The remote stream the current map is loading from, until it ends. */
+interface ActiveStream {
+  id: number;
+  onTile: StreamedTileCallback;
+  resolve: (extensions: PretextExtension[]) => void;
+  reject: (err: Error) => void;
+}
+
+function abortError(): Error {
+  const err = new Error('Stream replaced by another map');
+  err.name = 'AbortError';
+  return err;
+}
+
 export class TileDecodeWorkerClient {
   private worker: Worker | null = null;
   private usingWorker = false;
@@ -30,6 +56,11 @@ export class TileDecodeWorkerClient {
   /** Retained ONLY for the synchronous fallback (no worker available). */
   private rawTiles: Uint8Array[] | null = null;
   private header: PretextHeader | null = null;
+  private cooler: CoolerTileSource | null = null;
+  private remote: PretextStreamSource | null = null;
+
+  private streamId = 0;
+  private stream: ActiveStream | null = null;
 
   private generation = 0;
   private onDecoded: TileDecodedCallback | null = null;
@@ -39,6 +70,10 @@ export class TileDecodeWorkerClient {
   private overviewReqId = 0;
   private pendingOverview = new Map<number, (r: AssembledOverview) => void>();
 
+  /** Pending fetchTiles() requests, keyed by request id. */
+  private fetchReqId = 0;
+  private pendingFetch = new Map<number, (tiles: (Float32Array | null)[]) => void>();
+
   constructor() {
     this.tryInitWorker();
   }
@@ -77,6 +112,8 @@ export class TileDecodeWorkerClient {
    */
   setSource(rawTiles: Uint8Array[], header: PretextHeader): void {
     this.cancel();
+    this.closeCooler();
+    this.endStream();
     this.header = header;
 
     if (this.usingWorker && this.worker && !this.workerDead) {
@@ -90,6 +127,78 @@ export class TileDecodeWorkerClient {
     }
   }
 
+  /**
+   * Read detail tiles lazily from a cooler/mcool file instead of raw BC4
+   * bytes. The file buffer is transferred to the worker when one is available;
+   * otherwise the cooler is opened on the main thread.
+   */
+  setCoolerSource(source: CoolerSource, header: PretextHeader, contigs: PretextContig[]): void {
+    this.cancel();
+    this.closeCooler();
+    this.endStream();
+    this.header = header;
+    this.rawTiles = null;
+
+    if (this.usingWorker && this.worker && !this.workerDead) {
+      this.worker.postMessage({ type: 'initCooler', source, header, contigs }, [source.buffer]);
+      return;
+    }
+    void CoolerTileSource.open(source, header, contigs).then(
+      (cooler) => {
+        if (this.header === header) this.cooler = cooler;
+        else cooler.close();
+      },
+      (err) => console.warn('Could not open cooler for detail tiles:', err),
+    );
+  }
+
+  /**
+   * Stream a remote .pretext over range requests (formats/PretextStream.ts).
+   * `onTile` receives each tile's coarse mip as the stream passes it, for the
+   * progressive overview; detail tiles are range-requested by the tile index
+   * the stream builds. Resolves with the file's graph extensions once the
+   * whole file has been read. Rejects with an `AbortError` if another source
+   * replaces this one first.
+   */
+  setRemoteSource(info: RemotePretextInfo, onTile: StreamedTileCallback): Promise<PretextExtension[]> {
+    this.cancel();
+    this.closeCooler();
+    this.endStream();
+    this.header = info.header;
+    this.rawTiles = null;
+
+    const id = ++this.streamId;
+    const done = new Promise<PretextExtension[]>((resolve, reject) => {
+      this.stream = { id, onTile, resolve, reject };
+    });
+
+    if (this.usingWorker && this.worker && !this.workerDead) {
+      this.worker.postMessage({ type: 'initRemote', info, streamId: id });
+      return done;
+    }
+    const source = new PretextStreamSource(info);
+    this.remote = source;
+    source.stream((tile, progress) => {
+      if (this.stream?.id === id) onTile(tile, progress);
+    }).then(
+      (extensions) => this.finishStream(id, extensions),
+      (err: Error) => this.failStream(id, err),
+    );
+    return done;
+  }
+
+  /** Drop the current map's tiles, stopping any stream (back to the landing screen). */
+  clearSource(): void {
+    this.cancel();
+    this.closeCooler();
+    this.endStream();
+    this.rawTiles = null;
+    this.header = null;
+    if (this.usingWorker && this.worker && !this.workerDead) {
+      this.worker.postMessage({ type: 'clear' });
+    }
+  }
+
   /**
    * Request decoding of the given tiles. Any previously in-flight request is
    * superseded.
@@ -105,19 +214,26 @@ export class TileDecodeWorkerClient {
     }
 
     // Synchronous fallback (no worker). Chunked across frames to limit jank.
+    const onDecoded = (key: TileKey, data: Float32Array) => {
+      if (gen === this.generation) this.onDecoded?.(key, data);
+    };
+    const onComplete = () => {
+      this.cancelSync = null;
+    };
+    if (this.remote) {
+      if (this.cancelSync) this.cancelSync();
+      this.cancelSync = this.decodeRemote(keys, this.remote, onDecoded, onComplete);
+      return;
+    }
+    if (this.cooler) {
+      if (this.cancelSync) this.cancelSync();
+      const cooler = this.cooler;
+      this.cancelSync = decodeTileBatchWith(keys, (key) => cooler.decodeTile(key), onDecoded, onComplete);
+      return;
+    }
     if (!this.rawTiles || !this.header) return;
     if (this.cancelSync) this.cancelSync();
-    this.cancelSync = decodeTileBatch(
-      keys,
-      this.rawTiles,
-      this.header,
-      (key, data) => {
-        if (gen === this.generation) this.onDecoded?.(key, data);
-      },
-      () => {
-        this.cancelSync = null;
-      },
-    );
+    this.cancelSync = decodeTileBatch(keys, this.rawTiles, this.header, onDecoded, onComplete);
   }
 
   /**
@@ -136,12 +252,52 @@ export class TileDecodeWorkerClient {
       });
     }
     // Synchronous fallback (no worker) — tiles are retained on the main thread.
+    if (this.remote) {
+      return Promise.resolve(this.remote.assembleOverview(mode));
+    }
+    if (this.cooler) {
+      return Promise.resolve(this.cooler.assembleOverview(mode));
+    }
     if (this.rawTiles && this.header) {
       return Promise.resolve(assembleOverviewSync(this.rawTiles, this.header, mode));
     }
     return Promise.resolve({ overview: new Float32Array(0), overviewSize: 0 });
   }
 
+  /**
+   * Decode the given tiles and resolve with them, in order (null for a tile
+   * that could not be read). Unlike `decode`, nothing goes to the display
+   * callback and in-flight display decodes are left alone. Used to read a
+   * region at full resolution for analysis.
+   */
+  fetchTiles(keys: TileKey[]): Promise<(Float32Array | null)[]> {
+    if (this.usingWorker && this.worker && !this.workerDead) {
+      return new Promise((resolve) => {
+        const requestId = ++this.fetchReqId;
+        this.pendingFetch.set(requestId, resolve);
+        this.worker!.postMessage({ type: 'fetch', keys, requestId });
+      });
+    }
+    // Synchronous fallback (no worker) — tiles are retained on the main thread.
+    const remote = this.remote, cooler = this.cooler, rawTiles = this.rawTiles, header = this.header;
+    const read = remote
+      ? (key: TileKey) => remote.decodeTile(key)
+      : cooler
+        ? (key: TileKey) => cooler.decodeTile(key)
+        : rawTiles && header
+          ? (key: TileKey) => decodeTile(key, rawTiles, header)
+          : null;
+    return Promise.all(keys.map(async (key) => {
+      if (!read) return null;
+      try {
+        return await read(key);
+      } catch (err) {
+        console.warn('Could not read detail tile:', err);
+        return null;
+      }
+    }));
+  }
+
   /** Abandon any in-flight decode. */
   cancel(): void {
     this.generation++;
@@ -162,10 +318,64 @@ export class TileDecodeWorkerClient {
       this.worker = null;
     }
     this.usingWorker = false;
+    this.closeCooler();
+    this.endStream();
     this.rawTiles = null;
     this.header = null;
     this.onDecoded = null;
     this.pendingOverview.clear();
+    this.pendingFetch.clear();
+  }
+
+  private closeCooler(): void {
+    this.cooler?.close();
+    this.cooler = null;
+  }
+
+  /** Fetch and decode remote tiles one after another (no-worker fallback). */
+  private decodeRemote(
+    keys: TileKey[],
+    remote: PretextStreamSource,
+    onDecoded: TileDecodedCallback,
+    onComplete: () => void,
+  ): () => void {
+    let cancelled = false;
+    void (async () => {
+      for (const key of keys) {
+        if (cancelled) break;
+        try {
+          const data = await remote.decodeTile(key);
+          if (!cancelled) onDecoded(key, data);
+        } catch (err) {
+          console.warn('Could not read detail tile:', err);
+        }
+      }
+      onComplete();
+    })();
+    return () => { cancelled = true; };
+  }
+
+  /** Stop the current stream; whoever awaits it gets an AbortError. */
+  private endStream(): void {
+    this.remote?.close();
+    this.remote = null;
+    const stream = this.stream;
+    this.stream = null;
+    stream?.reject(abortError());
+  }
+
+  private finishStream(id: number, extensions: PretextExtension[]): void {
+    if (this.stream?.id !== id) return;
+    const { resolve } = this.stream;
+    this.stream = null;
+    resolve(extensions);
+  }
+
+  private failStream(id: number, err: Error): void {
+    if (this.stream?.id !== id) return;
+    const { reject } = this.stream;
+    this.stream = null;
+    reject(err);
   }
 
   private handleResponse(msg: TileWorkerResponse): void {
@@ -177,6 +387,26 @@ export class TileDecodeWorkerClient {
       }
       return;
     }
+    if (msg.type === 'fetched') {
+      const resolve = this.pendingFetch.get(msg.requestId);
+      if (resolve) {
+        this.pendingFetch.delete(msg.requestId);
+        resolve(msg.tiles);
+      }
+      return;
+    }
+    if (msg.type === 'streamTile') {
+      if (this.stream?.id === msg.streamId) this.stream.onTile(msg.tile, msg.progress);
+      return;
+    }
+    if (msg.type === 'streamEnd') {
+      this.finishStream(msg.streamId, msg.extensions);
+      return;
+    }
+    if (msg.type === 'streamError') {
+      this.failStream(msg.streamId, new Error(msg.message));
+      return;
+    }
     if (msg.type !== 'decoded') return;
     // Drop tiles from a superseded request.
     if (msg.generation !== this.generation) return;
@@ -86,17 +86,29 @@ export function decodeTile(
   rawTiles: Uint8Array[],
   header: PretextHeader,
 ): Float32Array {
-  const parserLevel = tileManagerLevelToParserLevel(key.level, header.mipMapLevels);
-  const res = levelResolution(parserLevel, header.textureResolution);
-  const offset = bc4LevelOffset(parserLevel, header.textureResolution);
-
   // Upper-triangular: always read the tile with smaller index first
   const needsTranspose = key.col > key.row;
   const readCol = needsTranspose ? key.row : key.col;
   const readRow = needsTranspose ? key.col : key.row;
 
   const linearIdx = tileLinearIndex(readCol, readRow, header.numberOfTextures1D);
-  const tileData = rawTiles[linearIdx];
+  return decodeTileData(key, rawTiles[linearIdx], header);
+}
+
+/**
+ * Decode a tile from the raw BC4 bytes of its upper-triangular source tile
+ * (already looked up, e.g. fetched on its own from a remote file). Missing
+ * bytes decode to an empty tile.
+ */
+export function decodeTileData(
+  key: TileKey,
+  tileData: Uint8Array | undefined,
+  header: PretextHeader,
+): Float32Array {
+  const parserLevel = tileManagerLevelToParserLevel(key.level, header.mipMapLevels);
+  const res = levelResolution(parserLevel, header.textureResolution);
+  const offset = bc4LevelOffset(parserLevel, header.textureResolution);
+  const needsTranspose = key.col > key.row;
 
   if (!tileData) {
     return new Float32Array(res * res);
@@ -140,6 +152,26 @@ export function decodeTileBatch(
   onDecoded: (key: TileKey, data: Float32Array) => void,
   onComplete: () => void,
   batchSize: number = 4,
+): () => void {
+  return decodeTileBatchWith(
+    keys,
+    (key) => decodeTile(key, rawTiles, header),
+    onDecoded,
+    onComplete,
+    batchSize,
+  );
+}
+
+/**
+ * Same as `decodeTileBatch`, but tiles come from an arbitrary decode function
+ * (e.g. a lazily read cooler) instead of raw BC4 bytes.
+ */
+export function decodeTileBatchWith(
+  keys: TileKey[],
+  decode: (key: TileKey) => Float32Array,
+  onDecoded: (key: TileKey, data: Float32Array) => void,
+  onComplete: () => void,
+  batchSize: number = 4,
 ): () => void {
   let cancelled = false;
   let index = 0;
@@ -153,7 +185,7 @@ export function decodeTileBatch(
     const end = Math.min(index + batchSize, keys.length);
     for (let i = index; i < end; i++) {
       if (cancelled) break;
-      const data = decodeTile(keys[i], rawTiles, header);
+      const data = decode(keys[i]);
       onDecoded(keys[i], data);
     }
     index = end;
@@ -37,6 +37,9 @@ export interface TrackConfig {
   height: number;
   /** Whether this track is currently drawn. */
   visible: boolean;
+  /** Texture pixels the data covers (`end` exclusive), for a track computed
+   *  on part of the map; nothing is drawn outside them. Default: all of them. */
+  range?: { start: number; end: number };
 }
 
 export interface TrackRenderOptions {
@@ -44,6 +47,9 @@ export interface TrackRenderOptions {
   canvasWidth: number;
   canvasHeight: number;
   textureSize: number;
+  /** Thickness (CSS px) of the coordinate rulers pinned to the canvas's top
+   *  and left edges; the gutters pin below/right of them. Default 0. */
+  rulerPx?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -198,16 +204,18 @@ export class TrackRenderer {
    * Outer offset (CSS px from the canvas top/left) where the track gutter
    * should begin so its inner edge sits flush against the map's on-screen
    * edge. When the map edge is off the near side (the map fills or overflows
-   * the viewport), the gutter pins to the canvas edge (offset 0), keeping the
-   * tracks visible. This is what keeps the gutters attached to the map when it
-   * is letterboxed (zoomed below fill) or panned.
+   * the viewport), the gutter pins to the canvas edge (offset `inset`, the
+   * rulers' thickness when they are shown), keeping the tracks visible. This
+   * is what keeps the gutters attached to the map when it is letterboxed
+   * (zoomed below fill) or panned.
    *
    * @param mapEdge - the map's top (or left) edge, in screen CSS px
    * @param totalTrackHeight - stacked thickness of all visible tracks
    * @param canvasExtent - canvas height (for top tracks) or width (for left)
+   * @param inset - space kept clear at the canvas edge (default 0)
    */
-  static gutterOffset(mapEdge: number, totalTrackHeight: number, canvasExtent: number): number {
-    return Math.max(0, Math.min(mapEdge, canvasExtent) - totalTrackHeight);
+  static gutterOffset(mapEdge: number, totalTrackHeight: number, canvasExtent: number, inset = 0): number {
+    return Math.max(inset, Math.min(mapEdge, canvasExtent) - totalTrackHeight);
   }
 
   // ─── Rendering ──────────────────────────────────────────────
@@ -244,8 +252,9 @@ export class TrackRenderer {
     const trackH = this.getVisibleTrackHeight();
     const mapTop = this.mapToScreenY(0, camera, canvasWidth, canvasHeight);
     const mapLeft = this.mapToScreenX(0, camera, canvasWidth, canvasHeight);
-    const topStart = TrackRenderer.gutterOffset(mapTop, trackH, canvasHeight);
-    const leftStart = TrackRenderer.gutterOffset(mapLeft, trackH, canvasWidth);
+    const inset = opts.rulerPx ?? 0;
+    const topStart = TrackRenderer.gutterOffset(mapTop, trackH, canvasHeight, inset);
+    const leftStart = TrackRenderer.gutterOffset(mapLeft, trackH, canvasWidth, inset);
 
     // The gutters cross: top bands run the full canvas width and left columns
     // the full height, so they contest the top-left corner and paint order
@@ -425,6 +434,7 @@ export class TrackRenderer {
     textureSize: number,
   ): void {
     const data = track.data;
+    const [lo, hi] = this.dataBounds(track);
     const bottom = top + height;
 
     ctx.fillStyle = track.color.replace(')', ', 0.3)').replace('rgb(', 'rgba(');
@@ -439,7 +449,7 @@ export class TrackRenderer {
 
     for (let sx = 0; sx < w; sx++) {
       const dataIdx = this.screenXToDataIndex(sx, cam, w, h, textureSize);
-      if (dataIdx < 0 || dataIdx >= data.length) continue;
+      if (dataIdx < lo || dataIdx >= hi) continue;
 
       const value = data[dataIdx];
       const y = bottom - value * height;
@@ -477,6 +487,7 @@ export class TrackRenderer {
     textureSize: number,
   ): void {
     const data = track.data;
+    const [lo, hi] = this.dataBounds(track);
     const right = left + width;
 
     ctx.fillStyle = track.color.replace(')', ', 0.3)').replace('rgb(', 'rgba(');
@@ -490,7 +501,7 @@ export class TrackRenderer {
 
     for (let sy = 0; sy < h; sy++) {
       const dataIdx = this.screenYToDataIndex(sy, cam, w, h, textureSize);
-      if (dataIdx < 0 || dataIdx >= data.length) continue;
+      if (dataIdx < lo || dataIdx >= hi) continue;
 
       const value = data[dataIdx];
       const x = right - value * width;
@@ -529,10 +540,11 @@ export class TrackRenderer {
     textureSize: number,
   ): void {
     const data = track.data;
+    const [lo, hi] = this.dataBounds(track);
 
     for (let sx = 0; sx < w; sx++) {
       const dataIdx = this.screenXToDataIndex(sx, cam, w, h, textureSize);
-      if (dataIdx < 0 || dataIdx >= data.length) continue;
+      if (dataIdx < lo || dataIdx >= hi) continue;
 
       const value = data[dataIdx];
       ctx.fillStyle = this.valueToHeatmapColor(value);
@@ -551,10 +563,11 @@ export class TrackRenderer {
     textureSize: number,
   ): void {
     const data = track.data;
+    const [lo, hi] = this.dataBounds(track);
 
     for (let sy = 0; sy < h; sy++) {
       const dataIdx = this.screenYToDataIndex(sy, cam, w, h, textureSize);
-      if (dataIdx < 0 || dataIdx >= data.length) continue;
+      if (dataIdx < lo || dataIdx >= hi) continue;
 
       const value = data[dataIdx];
       ctx.fillStyle = this.valueToHeatmapColor(value);
@@ -575,13 +588,14 @@ export class TrackRenderer {
     textureSize: number,
   ): void {
     const data = track.data;
+    const [lo, hi] = this.dataBounds(track);
     const midY = top + height / 2;
     const markerSize = Math.min(height * 0.4, 6);
 
     ctx.fillStyle = track.color;
 
     // Instead of checking every screen pixel, iterate data to find non-zero markers
-    for (let di = 0; di < data.length; di++) {
+    for (let di = lo; di < hi; di++) {
       if (data[di] <= 0) continue;
 
       const mapCoord = di / textureSize;
@@ -610,12 +624,13 @@ export class TrackRenderer {
     textureSize: number,
   ): void {
     const data = track.data;
+    const [lo, hi] = this.dataBounds(track);
     const midX = left + width / 2;
     const markerSize = Math.min(width * 0.4, 6);
 
     ctx.fillStyle = track.color;
 
-    for (let di = 0; di < data.length; di++) {
+    for (let di = lo; di < hi; di++) {
       if (data[di] <= 0) continue;
 
       const mapCoord = di / textureSize;
@@ -635,6 +650,13 @@ export class TrackRenderer {
 
   // ─── Utility ───────────────────────────────────────────────
 
+  /** Data indices to draw: the track's range, clamped to its data. */
+  private dataBounds(track: TrackConfig): [number, number] {
+    const n = track.data.length;
+    if (!track.range) return [0, n];
+    return [Math.max(0, track.range.start), Math.min(n, track.range.end)];
+  }
+
   /**
    * Map a screen X pixel back to a data array index.
    * Returns -1 if out of range.
@@ -2,28 +2,30 @@
  * DSLReference - Authoritative, machine-usable reference for the curation DSL.
  *
  * Each entry documents one distinct command form accepted by the parser in
- * `ScriptParser.ts` (`parseLine`). The script console renders an in-panel
+ * `ScriptParser.ts` (`parseLine`, and `parseScript` for blocks). The script console renders an in-panel
  * help/cheat-sheet from this data, and it can later feed the AI assist prompt.
  *
  * INVARIANT: this reference must stay in sync with what `parseLine` actually
  * accepts. `tests/unit/dsl-reference.test.ts` enforces that by parsing every
- * `example` and by checking that every parser keyword is documented. If you
+ * `example` as a script and by checking that every parser keyword is documented. If you
  * add or change a command in `ScriptParser.ts`, update this file too.
  *
  * Contig references accept a name (e.g. `chr1`) or a 0-based order index using
  * the `#N` syntax (e.g. `#0`). Names containing spaces can be quoted (e.g.
- * `"super scaffold 1"`).
+ * `"super scaffold 1"`). Any argument can be a `$variable` set by `let`,
+ * `for each` or a procedure parameter.
  */
 
 /** A single documented command form. */
 export interface DSLCommandDoc {
   /** Category for grouping in the help panel. */
-  category: 'Curation' | 'Selection' | 'Scaffold' | 'Navigation' | 'Meta';
+  category: 'Curation' | 'Selection' | 'Scaffold' | 'Annotation' | 'Analysis' | 'Navigation' | 'Meta' | 'Control';
   /** Canonical command form, e.g. 'move <contig> before <target>'. */
   syntax: string;
   /** One-line description of what it does. */
   summary: string;
-  /** A concrete, runnable example, e.g. 'move chr3 before chr1'. */
+  /** A concrete, runnable example, e.g. 'move chr3 before chr1'. Block
+   *  statements span several lines. */
   example: string;
 }
 
@@ -41,6 +43,12 @@ export const DSL_REFERENCE: DSLCommandDoc[] = [
     summary: 'Split a contig into two at the given pixel offset from its start.',
     example: 'cut chr1 512',
   },
+  {
+    category: 'Curation',
+    syntax: 'cut <contig> <position>[bp|kb|Mb|Gb] [exact]',
+    summary: 'Split a contig at an exact base-pair position; with a FASTA loaded it snaps to an N-gap within one pixel unless `exact`.',
+    example: 'cut chr1 12.4Mb',
+  },
   {
     category: 'Curation',
     syntax: 'join <contig1> <contig2>',
@@ -55,8 +63,8 @@ export const DSL_REFERENCE: DSLCommandDoc[] = [
   },
   {
     category: 'Curation',
-    syntax: 'move <contig> to <position>',
-    summary: 'Move a contig to an absolute 0-based order position.',
+    syntax: 'move <contig> to <position>|end',
+    summary: 'Move a contig to an absolute 0-based order position, or to the end of the order.',
     example: 'move chr5 to 0',
   },
   {
@@ -117,6 +125,18 @@ export const DSL_REFERENCE: DSLCommandDoc[] = [
     summary: 'Select contigs by flag: misassembled, unscaffolded, scaffolded, inverted, or excluded.',
     example: 'select where unscaffolded',
   },
+  {
+    category: 'Selection',
+    syntax: 'select where weakjoin|haplotig|telomere5p',
+    summary: 'Select contigs by analysis result: either side of a weak join, flagged haplotig candidates, or telomeric repeat at the displayed 5\' end (needs a FASTA).',
+    example: 'select where weakjoin',
+  },
+  {
+    category: 'Selection',
+    syntax: 'select where <predicate> and <predicate> ...',
+    summary: 'Select contigs matching every predicate (length comparisons and flags).',
+    example: 'select where unscaffolded and length < 1Mb',
+  },
   {
     category: 'Selection',
     syntax: 'deselect',
@@ -147,11 +167,61 @@ export const DSL_REFERENCE: DSLCommandDoc[] = [
   },
   {
     category: 'Scaffold',
-    syntax: 'scaffold delete <name>',
+    syntax: 'scaffold delete <scaffold_name>',
     summary: 'Delete a scaffold by name.',
     example: 'scaffold delete chromosome_1',
   },
 
+  // --------------------------------------------------------------------- //
+  // Annotation
+  // --------------------------------------------------------------------- //
+  {
+    category: 'Annotation',
+    syntax: 'tag <contig> haplotig|contaminant|unlocalised|sex_chromosome [notes]',
+    summary: 'Classify a contig, replacing any tag it has; optional notes are kept with the tag. Undoable.',
+    example: 'tag ctg12 haplotig "partner of ctg3"',
+  },
+  {
+    category: 'Annotation',
+    syntax: 'untag <contig>',
+    summary: 'Remove a contig\'s classification tag. Undoable.',
+    example: 'untag ctg12',
+  },
+  {
+    category: 'Annotation',
+    syntax: 'exclude <contig>',
+    summary: 'Leave a contig out of AGP, BED and FASTA exports; it stays in the map. Undoable.',
+    example: 'exclude ctg40',
+  },
+  {
+    category: 'Annotation',
+    syntax: 'include <contig>',
+    summary: 'Bring an excluded contig back into exports. Undoable.',
+    example: 'include ctg40',
+  },
+
+  // --------------------------------------------------------------------- //
+  // Analysis
+  // --------------------------------------------------------------------- //
+  {
+    category: 'Analysis',
+    syntax: 'analyze insulation',
+    summary: 'Compute insulation scores on the current order and report the TAD boundaries found.',
+    example: 'analyze insulation',
+  },
+  {
+    category: 'Analysis',
+    syntax: 'analyze joinsupport',
+    summary: 'Score every contig junction by its Hi-C support and report the weak joins.',
+    example: 'analyze joinsupport',
+  },
+  {
+    category: 'Analysis',
+    syntax: 'analyze haplotigs',
+    summary: 'Flag contigs that look like retained haplotigs (contact enrichment, confirmed by coverage when present).',
+    example: 'analyze haplotigs',
+  },
+
   // --------------------------------------------------------------------- //
   // Navigation
   // --------------------------------------------------------------------- //
@@ -173,6 +243,30 @@ export const DSL_REFERENCE: DSLCommandDoc[] = [
     summary: 'Center the view on normalized map coordinates (0..1 on each axis).',
     example: 'goto 0.5 0.5',
   },
+  {
+    category: 'Navigation',
+    syntax: 'waypoint add <contig> [label]',
+    summary: 'Drop a waypoint on the diagonal at the center of a contig.',
+    example: 'waypoint add chr2 breakpoint',
+  },
+  {
+    category: 'Navigation',
+    syntax: 'waypoint add <x> <y> [label]',
+    summary: 'Drop a waypoint at normalized map coordinates (0..1 on each axis).',
+    example: 'waypoint add 0.25 0.4 "odd block"',
+  },
+  {
+    category: 'Navigation',
+    syntax: 'waypoint remove <label>',
+    summary: 'Delete the waypoint with this label.',
+    example: 'waypoint remove breakpoint',
+  },
+  {
+    category: 'Navigation',
+    syntax: 'waypoint goto <label>',
+    summary: 'Center the view on the waypoint with this label.',
+    example: 'waypoint goto breakpoint',
+  },
 
   // --------------------------------------------------------------------- //
   // Meta
@@ -189,4 +283,44 @@ export const DSL_REFERENCE: DSLCommandDoc[] = [
     summary: 'Halt the script unless an assembly metric holds (metric: contigs, scaffolds, n50, length, misassemblies). Makes a script a self-checking protocol.',
     example: 'assert n50 > 10Mb',
   },
+  {
+    category: 'Meta',
+    syntax: 'assert weakjoins|haplotigs|health <op> <value>',
+    summary: 'Halt the script unless an analysis result holds: weak-join or haplotig count, or the 0-100 health score.',
+    example: 'assert weakjoins <= 3',
+  },
+
+  // --------------------------------------------------------------------- //
+  // Control
+  // --------------------------------------------------------------------- //
+  {
+    category: 'Control',
+    syntax: 'let <name> = <value>',
+    summary: 'Set a variable, used later as $name; the value is a single token (quote it if it has spaces).',
+    example: 'let minlen = 1Mb',
+  },
+  {
+    category: 'Control',
+    syntax: 'for each <name> in (select ...) ... end',
+    summary: 'Run the block once per selected contig, with $name bound to it; the contigs are fixed when the loop starts and followed as they move.',
+    example: 'for each c in (select where unscaffolded and length < 1Mb)\n  move $c to end\nend',
+  },
+  {
+    category: 'Control',
+    syntax: 'if <metric> <op> <value> ... [else ...] end',
+    summary: 'Run the block only if the condition holds (same metrics as assert), otherwise the optional else block.',
+    example: 'if n50 < 10Mb\n  autosort\nelse\n  echo N50 already fine\nend',
+  },
+  {
+    category: 'Control',
+    syntax: 'proc <name> [params...] ... end',
+    summary: 'Define a procedure at the top level; it sees only its parameters, as $param.',
+    example: 'proc park c\n  scaffold unpaint $c\n  move $c to end\nend',
+  },
+  {
+    category: 'Control',
+    syntax: 'call <name> [args...]',
+    summary: 'Run a procedure; it may be defined anywhere in the script.',
+    example: 'call park chr9\nproc park c\n  move $c to end\nend',
+  },
 ];
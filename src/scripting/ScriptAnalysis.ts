@@ -0,0 +1,277 @@
+/**
+ * ScriptAnalysis - Hi-C analyses for the curation DSL, computed on demand.
+ *
+ * Backs `analyze`, the analysis predicates of `select where` (weakjoin,
+ * haplotig, telomere5p) and the analysis metrics of `assert` (weakjoins,
+ * haplotigs, health). It runs the pure analysis modules directly on the
+ * current curation state, so the browser (DSLRunner) and the headless CLI
+ * (the openpretext CLI) get identical answers from the same script.
+ *
+ * Results are cached per curation state: contig updates replace the contigs
+ * array and reorders replace contigOrder, so a change in either identity
+ * means the cache is stale. A `select where weakjoin` therefore scores the
+ * junctions once, not once per contig.
+ *
+ * The health score follows BranchComparison: the Hi-C components that do not
+ * move with contig order come from `shared` (the viewer's own analyses) and
+ * score neutral when absent, and its integrity component uses the weak-join
+ * count in place of the misassembly count.
+ */
+
+import type { ContigInfo, MapData } from '../core/State';
+import type { ContigRange } from '../curation/AutoSort';
+import { calculateMetrics } from '../curation/QualityMetrics';
+import { reorderContactMap } from '../renderer/ContactMapReorder';
+import { resolveContigSubsequence } from '../export/FASTAWriter';
+import { contigRangesFor, type SharedHealthInputs } from '../analysis/BranchComparison';
+import { computeJoinSupport, type JoinSupportResult } from '../analysis/JoinSupport';
+import { computeContigCoverageRatios, detectHaplotigs, type HaplotigResult } from '../analysis/HaplotigDetector';
+import { computeInsulation, type InsulationResult } from '../analysis/InsulationScore';
+import { computeContactDecay, type ContactDecayResult } from '../analysis/ContactDecay';
+import { detectTelomeres } from '../analysis/TelomereDetector';
+import { computeHealthScore, type HealthScoreResult } from '../analysis/HealthScore';
+import type { AnalysisKind } from './ScriptParser';
+import type { QueryAPI } from './ScriptExecutor';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Where the analyses read the assembly from. */
+export interface ScriptAnalysisSource {
+  /** The current curation state (map and display order). */
+  get(): { map: MapData | null; contigOrder: number[] };
+  /** Reference sequences keyed by contig name, for `telomere5p`. */
+  sequences?: () => Map<string, string> | null | undefined;
+  /** Order-independent health inputs from analyses already run, if any. */
+  shared?: () => SharedHealthInputs | null;
+}
+
+/** The analysis-backed part of QueryAPI. */
+export type AnalysisQueries = Pick<
+  QueryAPI,
+  'analyze' | 'weakJoinCount' | 'haplotigCount' | 'health' | 'isWeakJoin' | 'isHaplotig' | 'hasTelomere5p'
+>;
+
+/** Analysis results for one curation state. */
+export interface ScriptAnalyses extends AnalysisQueries {
+  /** Join support for the current order; null when there is nothing to score. */
+  joinSupport(): JoinSupportResult | null;
+  /** Haplotig candidates for the current order; null when there is nothing to score. */
+  haplotigs(): HaplotigResult | null;
+  /** Insulation scores and TAD boundaries for the current order. */
+  insulation(): InsulationResult | null;
+  /** P(s) contact decay over the current order's contigs. */
+  decay(): ContactDecayResult | null;
+  /** Health score for the current state. */
+  healthScore(): HealthScoreResult;
+}
+
+/** Window at the 5' end searched for telomeric repeat (TelomereDetector's default). */
+const TELOMERE_WINDOW_BP = 10000;
+
+/** Display-order view of the overview, shared by the contact-based analyses. */
+interface DisplayMatrix {
+  matrix: Float32Array;
+  size: number;
+  ranges: ContigRange[];
+}
+
+// ---------------------------------------------------------------------------
+// Factory
+// ---------------------------------------------------------------------------
+
+/**
+ * Create the analyses for a source. Each result is computed the first time it
+ * is asked for and reused until the contigs or their order change.
+ */
+export function createScriptAnalyses(source: ScriptAnalysisSource): ScriptAnalyses {
+  let cacheContigs: ContigInfo[] | null = null;
+  let cacheOrder: number[] | null = null;
+  const cache = new Map<string, unknown>();
+
+  /** Memoize `compute` under `key` for the current contigs and order. */
+  function cached<T>(key: string, compute: () => T): T {
+    const s = source.get();
+    const contigs = s.map?.contigs ?? null;
+    if (contigs !== cacheContigs || s.contigOrder !== cacheOrder) {
+      cache.clear();
+      cacheContigs = contigs;
+      cacheOrder = s.contigOrder;
+    }
+    if (!cache.has(key)) cache.set(key, compute());
+    return cache.get(key) as T;
+  }
+
+  function requireContactMap(what: string): MapData {
+    const map = source.get().map;
+    if (!map) throw new Error('No map loaded');
+    if (!map.originalContactMap) throw new Error(`${what} needs the Hi-C contact map, which is not loaded`);
+    return map;
+  }
+
+  /**
+   * The overview reordered into display order, or null below ~4 bins or with
+   * fewer than 2 contigs, where the geometry is too coarse to score.
+   */
+  function displayMatrix(what: string): DisplayMatrix | null {
+    const map = requireContactMap(what);
+    return cached('matrix', () => {
+      const { contigOrder } = source.get();
+      const original = map.originalContactMap!;
+      const size = Math.round(Math.sqrt(original.length));
+      if (size < 4 || contigOrder.length < 2) return null;
+      return {
+        matrix: reorderContactMap(original, map.contigs, contigOrder, size),
+        size,
+        ranges: contigRangesFor(map.contigs, contigOrder, map.textureSize, size),
+      };
+    });
+  }
+
+  function joinSupport(): JoinSupportResult | null {
+    const view = displayMatrix('Join support');
+    return cached('joinsupport', () => {
+      if (!view) return null;
+      const { map, contigOrder } = source.get();
+      // Junctions between different assigned scaffolds are intended chromosome
+      // boundaries and are not scored.
+      const scaffoldIds = contigOrder.map((id) => map!.contigs[id].scaffoldId);
+      return computeJoinSupport(view.matrix, view.size, view.ranges, undefined, scaffoldIds);
+    });
+  }
+
+  function haplotigs(): HaplotigResult | null {
+    const view = displayMatrix('Haplotig detection');
+    return cached('haplotigs', () => {
+      if (!view) return null;
+      const { map, contigOrder } = source.get();
+      // Coverage ratios are in file order; detectHaplotigs wants display order.
+      const ratiosByOriginal = computeContigCoverageRatios(map!);
+      const coverageRatioByOrder = ratiosByOriginal
+        ? Float32Array.from(contigOrder, (id) => ratiosByOriginal[id] ?? NaN)
+        : null;
+      return detectHaplotigs(view.matrix, view.size, view.ranges, {
+        coverageRatioByOrder,
+        originalIndexByOrder: Int32Array.from(contigOrder),
+      });
+    });
+  }
+
+  function insulation(): InsulationResult | null {
+    const view = displayMatrix('Insulation');
+    return cached('insulation', () =>
+      view ? computeInsulation(view.matrix, view.size, undefined, view.ranges) : null,
+    );
+  }
+
+  function decay(): ContactDecayResult | null {
+    const view = displayMatrix('Contact decay');
+    return cached('decay', () =>
+      view ? computeContactDecay(view.matrix, view.size, view.ranges) : null,
+    );
+  }
+
+  /** Order indices of contigs whose displayed 5' end carries telomeric repeat. */
+  function telomere5p(): Set<number> {
+    const sequences = source.sequences?.();
+    if (!sequences || sequences.size === 0) {
+      throw new Error('telomere5p needs reference sequences; load a FASTA first');
+    }
+    return cached('telomere5p', () => {
+      const { map, contigOrder } = source.get();
+      // Only the first window of each contig, read in display orientation, so
+      // an inverted contig is judged by the end that now faces 5'.
+      const heads = new Map<string, string>();
+      const names: string[] = [];
+      const lengths: number[] = [];
+      contigOrder.forEach((id, i) => {
+        const contig = map!.contigs[id];
+        const head = resolveContigSubsequence(contig, sequences, 0, TELOMERE_WINDOW_BP) ?? '';
+        const key = String(i);
+        heads.set(key, head);
+        names.push(key);
+        lengths.push(head.length);
+      });
+      const result = detectTelomeres(heads, names, lengths, { windowSize: TELOMERE_WINDOW_BP });
+      return new Set(result.hits.filter((h) => h.end === '5p').map((h) => h.contigIndex));
+    });
+  }
+
+  function weakJoinSides(): Set<number> {
+    const result = joinSupport();
+    return cached('weakjoinsides', () => {
+      const sides = new Set<number>();
+      for (const j of result?.junctions ?? []) {
+        if (!j.flagged) continue;
+        sides.add(j.orderIndex);
+        sides.add(j.orderIndex + 1);
+      }
+      return sides;
+    });
+  }
+
+  function healthScore(): HealthScoreResult {
+    const { map, contigOrder } = source.get();
+    const metrics = calculateMetrics(map?.contigs ?? [], contigOrder);
+    const weakJoins = map?.originalContactMap ? joinSupport() : null;
+    const shared = source.shared?.() ?? null;
+    return computeHealthScore({
+      n50: metrics.n50,
+      totalLength: metrics.totalLength,
+      contigCount: metrics.contigCount,
+      decayExponent: shared?.decayExponent ?? null,
+      decayRSquared: shared?.decayRSquared ?? null,
+      eigenvalue: shared?.eigenvalue ?? null,
+      cisTransRatio: shared?.cisTransRatio ?? null,
+      checkerboardScore: shared?.checkerboardScore ?? null,
+      misassemblyCount: weakJoins ? weakJoins.flaggedCount : null,
+    });
+  }
+
+  function contigName(orderIndex: number): string {
+    const { map, contigOrder } = source.get();
+    return map!.contigs[contigOrder[orderIndex]].name;
+  }
+
+  function analyze(kind: AnalysisKind): string {
+    switch (kind) {
+      case 'insulation': {
+        const result = insulation();
+        if (!result) return 'Insulation: map too small to analyze';
+        return `Insulation: ${result.boundaries.length} TAD boundaries detected`;
+      }
+      case 'joinsupport': {
+        const result = joinSupport();
+        if (!result) return 'Join support: no junctions to score';
+        return `Join support: ${result.flaggedCount} weak join(s) among ${result.junctions.length} scored junctions`;
+      }
+      case 'haplotigs': {
+        const result = haplotigs();
+        if (!result) return 'Haplotigs: no contigs to score';
+        const flagged = result.candidates.filter((c) => c.flagged).map((c) => contigName(c.orderIndex));
+        const coverage = result.coverageAvailable ? '' : ' (no coverage track; contact signal only)';
+        return `Haplotigs: ${result.flaggedCount} candidate(s) flagged` +
+          (flagged.length > 0 ? `: ${flagged.join(', ')}` : '') + coverage;
+      }
+      default:
+        throw new Error(`Unknown analysis '${kind}'`);
+    }
+  }
+
+  return {
+    joinSupport,
+    haplotigs,
+    insulation,
+    decay,
+    healthScore,
+    analyze,
+    weakJoinCount: () => joinSupport()?.flaggedCount ?? 0,
+    haplotigCount: () => haplotigs()?.flaggedCount ?? 0,
+    health: () => healthScore().overall,
+    isWeakJoin: (orderIndex) => weakJoinSides().has(orderIndex),
+    isHaplotig: (orderIndex) =>
+      haplotigs()?.candidates.some((c) => c.flagged && c.orderIndex === orderIndex) ?? false,
+    hasTelomere5p: (orderIndex) => telomere5p().has(orderIndex),
+  };
+}
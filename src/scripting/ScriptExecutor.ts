@@ -10,9 +10,12 @@
  * environments.
  */
 
-import type { ScriptCommand, ContigRef } from './ScriptParser';
+import { parseTemplate, VARIABLE_PATTERN, type ScriptCommand, type ContigRef, type AnalysisKind } from './ScriptParser';
 import type { ContigInfo, AppState, MapData } from '../core/State';
 import type { ScaffoldManager, Scaffold } from '../curation/ScaffoldManager';
+import type { MetaTagType } from '../curation/MetaTagManager';
+import type { Waypoint } from '../curation/WaypointManager';
+import { snapCutToGap } from '../curation/GapSnap';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -36,9 +39,13 @@ export interface ScriptResult {
  */
 export interface CurationEngineAPI {
   cut(contigOrderIndex: number, pixelOffset: number): void;
+  cutAtBp(contigOrderIndex: number, bpOffset: number): void;
   join(contigOrderIndex: number): void;
   invert(contigOrderIndex: number): void;
   move(fromIndex: number, toIndex: number): void;
+  tag(orderIndices: number[], tag: MetaTagType, notes?: string): void;
+  untag(orderIndices: number[]): void;
+  setExcluded(orderIndices: number[], excluded: boolean): void;
 }
 
 /**
@@ -94,10 +101,22 @@ export interface NavAPI {
   goto(x: number, y: number): void;
 }
 
+/**
+ * Abstraction over the WaypointManager. Optional: waypoint commands fail
+ * with a clear error when it is absent.
+ */
+export interface WaypointAPI {
+  addWaypoint(mapX: number, mapY: number, label?: string): Waypoint;
+  removeWaypoint(id: number): void;
+  getAllWaypoints(): Waypoint[];
+}
+
 /**
  * Read-only queries over assembly metrics and per-contig flags, used by
- * `assert` and `select where`. Optional: commands that need it report a clear
- * error when it is absent (e.g. a headless context without metrics wiring).
+ * `assert`, `select where` and `analyze`. Optional: commands that need it
+ * report a clear error when it is absent (e.g. a headless context without
+ * metrics wiring). The analysis members are usually backed by ScriptAnalysis
+ * and throw when their input (contact map, sequences) is missing.
  */
 export interface QueryAPI {
   contigCount(): number;
@@ -109,6 +128,20 @@ export interface QueryAPI {
   isMisassembled(orderIndex: number): boolean;
   /** Whether the contig at the given order index is excluded. */
   isExcluded(orderIndex: number): boolean;
+  /** Run an analysis on the current state and return a one-line summary. */
+  analyze(kind: AnalysisKind): string;
+  /** Junctions flagged as weak by join support. */
+  weakJoinCount(): number;
+  /** Contigs flagged as haplotig candidates. */
+  haplotigCount(): number;
+  /** Overall assembly health score, 0-100. */
+  health(): number;
+  /** Whether the contig at the given order index sits on either side of a weak join. */
+  isWeakJoin(orderIndex: number): boolean;
+  /** Whether the contig at the given order index is a flagged haplotig candidate. */
+  isHaplotig(orderIndex: number): boolean;
+  /** Whether the contig at the given order index has telomeric repeat at its displayed 5' end. */
+  hasTelomere5p(orderIndex: number): boolean;
 }
 
 /**
@@ -122,6 +155,10 @@ export interface ScriptContext {
   batch?: BatchAPI;
   nav?: NavAPI;
   query?: QueryAPI;
+  waypoints?: WaypointAPI;
+  /** Reference sequences from a loaded FASTA, keyed by contig name. When
+   *  present, base-pair cuts snap to a nearby N-gap (see GapSnap). */
+  sequences?: Map<string, string> | null;
   /** Optional callback for echo messages. Defaults to console.log. */
   onEcho?: (message: string) => void;
 }
@@ -140,7 +177,7 @@ function compareNumbers(a: number, op: string, b: number): boolean {
 }
 
 /** Format a base-pair count compactly for result messages. */
-function fmtBp(bp: number): string {
+export function fmtBp(bp: number): string {
   if (bp >= 1_000_000_000) return `${(bp / 1_000_000_000).toFixed(2)} Gb`;
   if (bp >= 1_000_000) return `${(bp / 1_000_000).toFixed(2)} Mb`;
   if (bp >= 1_000) return `${(bp / 1_000).toFixed(1)} kb`;
@@ -165,7 +202,7 @@ function fmtBp(bp: number): string {
  * @returns The 0-based order index.
  * @throws Error if the reference cannot be resolved.
  */
-export function resolveContigRef(ref: ContigRef, stateApi: StateAPI): number {
+export function resolveContigRef(ref: ContigRef, stateApi: Pick<StateAPI, 'get'>): number {
   const s = stateApi.get();
   if (!s.map) {
     throw new Error('No map loaded');
@@ -231,6 +268,144 @@ function findScaffoldByName(name: string, scaffoldApi: ScaffoldAPI): Scaffold {
   return match;
 }
 
+// ---------------------------------------------------------------------------
+// Selection and assertion evaluation
+// ---------------------------------------------------------------------------
+
+/** The predicates of a `select_where` command: the first in args, more in `args.and`. */
+function selectConditions(cmd: ScriptCommand): { field: string; op?: string; value?: number }[] {
+  const { field, op, value } = cmd.args;
+  return [{ field, op, value }, ...((cmd.args.and as { field: string; op?: string; value?: number }[]) ?? [])];
+}
+
+function describeConditions(cmd: ScriptCommand): string {
+  return selectConditions(cmd)
+    .map(c => (c.field === 'length' ? `length ${c.op} ${fmtBp(c.value!)}` : c.field))
+    .join(' and ');
+}
+
+/**
+ * Order indices a selection command picks, without changing the selection.
+ * Shared by the select commands and `for each`.
+ */
+function matchContigs(cmd: ScriptCommand, ctx: ScriptContext): number[] {
+  const s = ctx.state.get();
+  if (!s.map) throw new Error('No map loaded');
+  switch (cmd.type) {
+    case 'select':
+      return [resolveContigRef(cmd.args.contig, ctx.state)];
+    case 'select_all':
+      return s.contigOrder.map((_, i) => i);
+    case 'select_range': {
+      const from = resolveContigRef(cmd.args.from, ctx.state);
+      const to = resolveContigRef(cmd.args.to, ctx.state);
+      const indices: number[] = [];
+      for (let i = Math.min(from, to); i <= Math.max(from, to); i++) indices.push(i);
+      return indices;
+    }
+    case 'select_where':
+      break;
+    default:
+      throw new Error(`'${cmd.type}' does not select contigs`);
+  }
+
+  const conditions = selectConditions(cmd);
+  const matched: number[] = [];
+  for (let i = 0; i < s.contigOrder.length; i++) {
+    const contig = s.map.contigs[s.contigOrder[i]];
+    const keep = conditions.every(({ field, op, value }) => {
+      switch (field) {
+        case 'length': return compareNumbers(contig.length, op!, value!);
+        case 'inverted': return contig.inverted === true;
+        case 'unscaffolded': return contig.scaffoldId == null;
+        case 'scaffolded': return contig.scaffoldId != null;
+        case 'misassembled': return ctx.query?.isMisassembled(i) ?? false;
+        case 'excluded': return ctx.query?.isExcluded(i) ?? false;
+        case 'weakjoin': return analysisQuery(ctx, field).isWeakJoin(i);
+        case 'haplotig': return analysisQuery(ctx, field).isHaplotig(i);
+        case 'telomere5p': return analysisQuery(ctx, field).hasTelomere5p(i);
+        default: throw new Error(`Unknown selection field '${field}'`);
+      }
+    });
+    if (keep) matched.push(i);
+  }
+  return matched;
+}
+
+/**
+ * The query API for an analysis predicate. Unlike the flag fields, which read
+ * as false without one, an analysis cannot be answered at all without it.
+ */
+function analysisQuery(ctx: ScriptContext, field: string): QueryAPI {
+  if (!ctx.query) throw new Error(`'${field}' needs analyses, which are not available in this context`);
+  return ctx.query;
+}
+
+/** Normalized span (0..1 of the map) of the contig at an order index. */
+export function contigNormRange(orderIndex: number, s: AppState): { startNorm: number; endNorm: number } {
+  const map = s.map!;
+  // Cumulative pixel start of this contig in the current order
+  let cumulativePixels = 0;
+  for (let i = 0; i < orderIndex; i++) {
+    const c = map.contigs[s.contigOrder[i]];
+    cumulativePixels += c.pixelEnd - c.pixelStart;
+  }
+  const contig = map.contigs[s.contigOrder[orderIndex]];
+  return {
+    startNorm: cumulativePixels / map.textureSize,
+    endNorm: (cumulativePixels + contig.pixelEnd - contig.pixelStart) / map.textureSize,
+  };
+}
+
+/**
+ * Find a waypoint by label: exact match first, then case-insensitive (as
+ * scaffold names are looked up).
+ */
+function findWaypointByLabel(label: string, waypoints: WaypointAPI): Waypoint {
+  const all = waypoints.getAllWaypoints();
+  const found = all.find(w => w.label === label)
+    ?? all.find(w => w.label.toLowerCase() === label.toLowerCase());
+  if (!found) {
+    const labels = all.map(w => w.label);
+    throw new Error(
+      `Waypoint '${label}' not found.` + (labels.length > 0 ? ` Available: ${labels.join(', ')}` : ' No waypoints exist.')
+    );
+  }
+  return found;
+}
+
+/** Evaluate an `assert` command (also the condition of `if`). */
+function evaluateAssertion(
+  cmd: ScriptCommand,
+  query: QueryAPI,
+): { pass: boolean; description: string; actual: string } {
+  const metric = cmd.args.metric as string;
+  const op = cmd.args.op as string;
+  const value = cmd.args.value as number;
+
+  let actual: number;
+  let label: string;
+  let isBp = false;
+  switch (metric) {
+    case 'contigs': actual = query.contigCount(); label = 'contigs'; break;
+    case 'scaffolds': actual = query.scaffoldCount(); label = 'scaffolds'; break;
+    case 'misassemblies': actual = query.misassemblyCount(); label = 'misassemblies'; break;
+    case 'weakjoins': actual = query.weakJoinCount(); label = 'weak joins'; break;
+    case 'haplotigs': actual = query.haplotigCount(); label = 'haplotigs'; break;
+    case 'health': actual = query.health(); label = 'health'; break;
+    case 'n50': actual = query.n50(); label = 'N50'; isBp = true; break;
+    case 'length': actual = query.totalLength(); label = 'total length'; isBp = true; break;
+    default:
+      throw new Error(`Unknown assert metric '${metric}'`);
+  }
+
+  return {
+    pass: compareNumbers(actual, op, value),
+    description: `${label} ${op} ${isBp ? fmtBp(value) : String(value)}`,
+    actual: isBp ? fmtBp(actual) : String(actual),
+  };
+}
+
 // ---------------------------------------------------------------------------
 // Single-command executor
 // ---------------------------------------------------------------------------
@@ -243,16 +418,39 @@ function findScaffoldByName(name: string, scaffoldApi: ScaffoldAPI): Scaffold {
  * @returns A ScriptResult describing the outcome.
  */
 export function executeCommand(cmd: ScriptCommand, ctx: ScriptContext): ScriptResult {
+  if (cmd.template) {
+    return { success: false, message: 'This line uses variables; run it as part of a script', line: cmd.line };
+  }
   try {
     switch (cmd.type) {
 
-      // ----- cut <contig> <pixel_offset> -----
+      // ----- cut <contig> <pixel_offset> | cut <contig> <bp_position> [exact] -----
       case 'cut': {
         const orderIndex = resolveContigRef(cmd.args.contig, ctx.state);
+        const before = ctx.state.get();
+        const contig = before.map!.contigs[before.contigOrder[orderIndex]];
+        const contigName = contig?.name ?? `#${orderIndex}`;
+
+        if (cmd.args.bpOffset !== undefined) {
+          let bpOffset = cmd.args.bpOffset as number;
+          let snapNote = '';
+          if (!cmd.args.exact && ctx.sequences && contig && bpOffset > 0 && bpOffset < contig.length) {
+            const snap = snapCutToGap(contig, bpOffset, ctx.sequences);
+            if (snap.gap) {
+              snapNote = ` (snapped from ${bpOffset.toLocaleString('en-US')} bp to N-gap)`;
+              bpOffset = snap.bpOffset;
+            }
+          }
+          ctx.curation.cutAtBp(orderIndex, bpOffset);
+          return {
+            success: true,
+            message: `Cut contig '${contigName}' at ${bpOffset.toLocaleString('en-US')} bp${snapNote}`,
+            line: cmd.line,
+          };
+        }
+
         const pixelOffset = cmd.args.pixelOffset as number;
         ctx.curation.cut(orderIndex, pixelOffset);
-        const s = ctx.state.get();
-        const contigName = s.map!.contigs[s.contigOrder[orderIndex]]?.name ?? `#${orderIndex}`;
         return {
           success: true,
           message: `Cut contig '${contigName}' at pixel offset ${pixelOffset}`,
@@ -298,7 +496,9 @@ export function executeCommand(cmd: ScriptCommand, ctx: ScriptContext): ScriptRe
       // ----- move <contig> to <position> -----
       case 'move_to': {
         const fromIndex = resolveContigRef(cmd.args.contig, ctx.state);
-        const toIndex = cmd.args.position as number;
+        const toIndex = cmd.args.position === 'end'
+          ? ctx.state.get().contigOrder.length - 1
+          : cmd.args.position as number;
         ctx.curation.move(fromIndex, toIndex);
         return {
           success: true,
@@ -372,37 +572,13 @@ export function executeCommand(cmd: ScriptCommand, ctx: ScriptContext): ScriptRe
         };
       }
 
-      // ----- select where <field> [<op> <value>] -----
+      // ----- select where <field> [<op> <value>] [and ...] -----
       case 'select_where': {
-        const s = ctx.state.get();
-        if (!s.map) throw new Error('No map loaded');
-        const field = cmd.args.field as string;
-        const op = cmd.args.op as string | undefined;
-        const value = cmd.args.value as number | undefined;
-
-        const matched: number[] = [];
-        for (let i = 0; i < s.contigOrder.length; i++) {
-          const contig = s.map.contigs[s.contigOrder[i]];
-          let keep = false;
-          switch (field) {
-            case 'length': keep = compareNumbers(contig.length, op!, value!); break;
-            case 'inverted': keep = contig.inverted === true; break;
-            case 'unscaffolded': keep = contig.scaffoldId == null; break;
-            case 'scaffolded': keep = contig.scaffoldId != null; break;
-            case 'misassembled': keep = ctx.query?.isMisassembled(i) ?? false; break;
-            case 'excluded': keep = ctx.query?.isExcluded(i) ?? false; break;
-            default:
-              return { success: false, message: `Unknown selection field '${field}'`, line: cmd.line };
-          }
-          if (keep) matched.push(i);
-        }
-
+        const matched = matchContigs(cmd, ctx);
         ctx.selection.selectIndices(matched);
-        const criterion =
-          field === 'length' ? `length ${op} ${fmtBp(value!)}` : field;
         return {
           success: true,
-          message: `Selected ${matched.length} contig(s) where ${criterion}`,
+          message: `Selected ${matched.length} contig(s) where ${describeConditions(cmd)}`,
           line: cmd.line,
         };
       }
@@ -422,31 +598,12 @@ export function executeCommand(cmd: ScriptCommand, ctx: ScriptContext): ScriptRe
         if (!ctx.query) {
           return { success: false, message: 'Assertions are not available in this context', line: cmd.line };
         }
-        const metric = cmd.args.metric as string;
-        const op = cmd.args.op as string;
-        const value = cmd.args.value as number;
-
-        let actual: number;
-        let label: string;
-        let isBp = false;
-        switch (metric) {
-          case 'contigs': actual = ctx.query.contigCount(); label = 'contigs'; break;
-          case 'scaffolds': actual = ctx.query.scaffoldCount(); label = 'scaffolds'; break;
-          case 'misassemblies': actual = ctx.query.misassemblyCount(); label = 'misassemblies'; break;
-          case 'n50': actual = ctx.query.n50(); label = 'N50'; isBp = true; break;
-          case 'length': actual = ctx.query.totalLength(); label = 'total length'; isBp = true; break;
-          default:
-            return { success: false, message: `Unknown assert metric '${metric}'`, line: cmd.line };
-        }
-
-        const pass = compareNumbers(actual, op, value);
-        const shownActual = isBp ? fmtBp(actual) : String(actual);
-        const shownExpected = isBp ? fmtBp(value) : String(value);
+        const outcome = evaluateAssertion(cmd, ctx.query);
         return {
-          success: pass,
-          message: pass
-            ? `Assertion passed: ${label} ${op} ${shownExpected} (actual ${shownActual})`
-            : `Assertion FAILED: expected ${label} ${op} ${shownExpected}, actual ${shownActual}`,
+          success: outcome.pass,
+          message: outcome.pass
+            ? `Assertion passed: ${outcome.description} (actual ${outcome.actual})`
+            : `Assertion FAILED: expected ${outcome.description}, actual ${outcome.actual}`,
           line: cmd.line,
         };
       }
@@ -502,22 +659,8 @@ export function executeCommand(cmd: ScriptCommand, ctx: ScriptContext): ScriptRe
       case 'zoom': {
         const orderIndex = resolveContigRef(cmd.args.contig, ctx.state);
         const s = ctx.state.get();
-        const contigId = s.contigOrder[orderIndex];
-        const contig = s.map!.contigs[contigId];
-
-        // Calculate cumulative pixel start for this contig in current order
-        let cumulativePixels = 0;
-        for (let i = 0; i < orderIndex; i++) {
-          const cId = s.contigOrder[i];
-          const c = s.map!.contigs[cId];
-          cumulativePixels += c.pixelEnd - c.pixelStart;
-        }
-        const contigPixelLength = contig.pixelEnd - contig.pixelStart;
-        const textureSize = s.map!.textureSize;
-
-        // Frame the contig by its normalized span in the current order.
-        const startNorm = cumulativePixels / textureSize;
-        const endNorm = (cumulativePixels + contigPixelLength) / textureSize;
+        const contig = s.map!.contigs[s.contigOrder[orderIndex]];
+        const { startNorm, endNorm } = contigNormRange(orderIndex, s);
         ctx.nav?.zoomToContigRange(startNorm, endNorm);
         return {
           success: true,
@@ -575,6 +718,103 @@ export function executeCommand(cmd: ScriptCommand, ctx: ScriptContext): ScriptRe
         return { success: true, message: result.description, line: cmd.line };
       }
 
+      // ----- analyze insulation|joinsupport|haplotigs -----
+      case 'analyze': {
+        if (!ctx.query) {
+          return { success: false, message: 'Analyses are not available in this context', line: cmd.line };
+        }
+        return { success: true, message: ctx.query.analyze(cmd.args.kind as AnalysisKind), line: cmd.line };
+      }
+
+      // ----- tag <contig> <tag> [notes] -----
+      case 'tag': {
+        const orderIndex = resolveContigRef(cmd.args.contig, ctx.state);
+        const s = ctx.state.get();
+        const contigName = s.map!.contigs[s.contigOrder[orderIndex]].name;
+        ctx.curation.tag([orderIndex], cmd.args.tag as MetaTagType, cmd.args.notes as string | undefined);
+        return {
+          success: true,
+          message: `Tagged contig '${contigName}' as ${cmd.args.tag}`,
+          line: cmd.line,
+        };
+      }
+
+      // ----- untag <contig> -----
+      case 'untag': {
+        const orderIndex = resolveContigRef(cmd.args.contig, ctx.state);
+        const s = ctx.state.get();
+        const contigName = s.map!.contigs[s.contigOrder[orderIndex]].name;
+        ctx.curation.untag([orderIndex]);
+        return {
+          success: true,
+          message: `Removed tag from contig '${contigName}'`,
+          line: cmd.line,
+        };
+      }
+
+      // ----- exclude|include <contig> -----
+      case 'exclude':
+      case 'include': {
+        const orderIndex = resolveContigRef(cmd.args.contig, ctx.state);
+        const s = ctx.state.get();
+        const contigName = s.map!.contigs[s.contigOrder[orderIndex]].name;
+        const excluded = cmd.type === 'exclude';
+        ctx.curation.setExcluded([orderIndex], excluded);
+        return {
+          success: true,
+          message: `${excluded ? 'Excluded' : 'Included'} contig '${contigName}'`,
+          line: cmd.line,
+        };
+      }
+
+      // ----- waypoint add <contig>|<x> <y> [label] -----
+      case 'waypoint_add': {
+        if (!ctx.waypoints) return { success: false, message: 'Waypoints are not available in this context', line: cmd.line };
+        let x: number;
+        let y: number;
+        if (cmd.args.contig) {
+          // On the diagonal, at the contig's center.
+          const orderIndex = resolveContigRef(cmd.args.contig, ctx.state);
+          const { startNorm, endNorm } = contigNormRange(orderIndex, ctx.state.get());
+          x = y = (startNorm + endNorm) / 2;
+        } else {
+          x = cmd.args.x as number;
+          y = cmd.args.y as number;
+          if (x < 0 || x > 1 || y < 0 || y > 1) {
+            return { success: false, message: `Waypoint position (${x}, ${y}) is outside the map (0..1)`, line: cmd.line };
+          }
+        }
+        const wp = ctx.waypoints.addWaypoint(x, y, cmd.args.label as string | undefined);
+        return {
+          success: true,
+          message: `Added waypoint '${wp.label}' at (${x.toFixed(3)}, ${y.toFixed(3)})`,
+          line: cmd.line,
+        };
+      }
+
+      // ----- waypoint remove <label> -----
+      case 'waypoint_remove': {
+        if (!ctx.waypoints) return { success: false, message: 'Waypoints are not available in this context', line: cmd.line };
+        const wp = findWaypointByLabel(cmd.args.label as string, ctx.waypoints);
+        ctx.waypoints.removeWaypoint(wp.id);
+        return { success: true, message: `Removed waypoint '${wp.label}'`, line: cmd.line };
+      }
+
+      // ----- waypoint goto <label> -----
+      case 'waypoint_goto': {
+        if (!ctx.waypoints) return { success: false, message: 'Waypoints are not available in this context', line: cmd.line };
+        const wp = findWaypointByLabel(cmd.args.label as string, ctx.waypoints);
+        ctx.nav?.goto(wp.mapX, wp.mapY);
+        return { success: true, message: `Navigated to waypoint '${wp.label}'`, line: cmd.line };
+      }
+
+      case 'let':
+      case 'for_each':
+      case 'if':
+      case 'proc':
+      case 'call':
+        return { success: false, message: `'${cmd.type}' can only run as part of a script`, line: cmd.line };
+
       default: {
         return {
           success: false,
@@ -592,15 +832,187 @@ export function executeCommand(cmd: ScriptCommand, ctx: ScriptContext): ScriptRe
   }
 }
 
+// ---------------------------------------------------------------------------
+// Variables
+// ---------------------------------------------------------------------------
+
+/**
+ * A variable's value. Contigs bound by `for each` are held by contig id so
+ * they are followed through moves made in the loop body.
+ */
+type Binding =
+  | { kind: 'contig'; contigId: number }
+  | { kind: 'text'; text: string };
+
+/** Variables of one block; lookups fall back to the enclosing block. */
+interface Scope {
+  vars: Map<string, Binding>;
+  parent: Scope | null;
+}
+
+function childScope(parent: Scope | null): Scope {
+  return { vars: new Map(), parent };
+}
+
+function lookup(scope: Scope, name: string): Binding {
+  for (let s: Scope | null = scope; s; s = s.parent) {
+    const binding = s.vars.get(name);
+    if (binding) return binding;
+  }
+  throw new Error(`Undefined variable '$${name}'`);
+}
+
+/**
+ * Text substituted for a variable. A contig becomes `#index` at its current
+ * position, or its name when the text is read by people (echo, building a
+ * longer value).
+ */
+function bindingText(name: string, binding: Binding, ctx: ScriptContext, asName: boolean): string {
+  if (binding.kind === 'text') return binding.text;
+  const s = ctx.state.get();
+  const index = s.contigOrder.indexOf(binding.contigId);
+  if (index < 0 || !s.map) {
+    throw new Error(`The contig in '$${name}' is no longer in the assembly (it was cut or joined)`);
+  }
+  return asName ? s.map.contigs[binding.contigId].name : `#${index}`;
+}
+
+function substitute(text: string, scope: Scope, ctx: ScriptContext, asName: boolean): string {
+  return text.replace(VARIABLE_PATTERN, (_, name: string) => bindingText(name, lookup(scope, name), ctx, asName));
+}
+
+/** Value of a `let` or procedure argument: a lone `$name` copies its binding. */
+function bindValue(text: string, scope: Scope, ctx: ScriptContext): Binding {
+  const whole = text.match(/^\$([A-Za-z_][A-Za-z0-9_]*)$/);
+  if (whole) return lookup(scope, whole[1]);
+  return { kind: 'text', text: substitute(text, scope, ctx, true) };
+}
+
+/** The command to run for `cmd`, with its variables substituted. */
+function instantiate(cmd: ScriptCommand, scope: Scope, ctx: ScriptContext): ScriptCommand {
+  if (!cmd.template) return cmd;
+  const asName = cmd.type === 'echo';
+  return parseTemplate(cmd.template.map(t => substitute(t, scope, ctx, asName)), cmd.line);
+}
+
 // ---------------------------------------------------------------------------
 // Multi-command executor
 // ---------------------------------------------------------------------------
 
+/** Procedure calls may nest this deep before the script is stopped. */
+const MAX_CALL_DEPTH = 64;
+
+/** Statements a script may execute in total, so a runaway script cannot hang the page. */
+const MAX_STEPS = 100_000;
+
+interface ScriptRun {
+  ctx: ScriptContext;
+  continueOnError: boolean;
+  results: ScriptResult[];
+  procedures: Map<string, ScriptCommand>;
+  depth: number;
+  steps: number;
+}
+
+/** Run a list of statements; returns false when execution must stop. */
+function runBlock(commands: ScriptCommand[], scope: Scope, run: ScriptRun): boolean {
+  for (const cmd of commands) {
+    if (!runStatement(cmd, scope, run)) return false;
+  }
+  return true;
+}
+
+function runStatement(cmd: ScriptCommand, scope: Scope, run: ScriptRun): boolean {
+  const { ctx, results } = run;
+  const fail = (message: string): boolean => {
+    results.push({ success: false, message, line: cmd.line });
+    return run.continueOnError;
+  };
+  if (++run.steps > MAX_STEPS) {
+    results.push({ success: false, message: `Script stopped after ${MAX_STEPS.toLocaleString('en-US')} steps`, line: cmd.line });
+    return false;
+  }
+
+  try {
+    switch (cmd.type) {
+      // Procedures are collected before the script runs.
+      case 'proc':
+        return true;
+
+      case 'let':
+        scope.vars.set(cmd.args.name, bindValue(cmd.args.value, scope, ctx));
+        return true;
+
+      case 'for_each': {
+        const source = instantiate(cmd.args.source, scope, ctx);
+        const order = ctx.state.get().contigOrder;
+        // Bound by id up front, so moves in the body neither skip nor repeat contigs.
+        const ids = matchContigs(source, ctx).map(i => order[i]);
+        results.push({
+          success: true,
+          message: `for each ${cmd.args.variable}: ${ids.length} contig(s)`,
+          line: cmd.line,
+        });
+        for (const contigId of ids) {
+          const inner = childScope(scope);
+          inner.vars.set(cmd.args.variable, { kind: 'contig', contigId });
+          if (!runBlock(cmd.args.body, inner, run)) return false;
+        }
+        return true;
+      }
+
+      case 'if': {
+        if (!ctx.query) return fail('Conditions are not available in this context');
+        const outcome = evaluateAssertion(instantiate(cmd.args.condition, scope, ctx), ctx.query);
+        results.push({
+          success: true,
+          message: `if ${outcome.description}: ${outcome.pass ? 'true' : 'false'} (actual ${outcome.actual})`,
+          line: cmd.line,
+        });
+        return runBlock(outcome.pass ? cmd.args.body : cmd.args.elseBody, childScope(scope), run);
+      }
+
+      case 'call': {
+        const proc = run.procedures.get(cmd.args.name);
+        if (!proc) return fail(`Unknown procedure '${cmd.args.name}'`);
+        const params = proc.args.params as string[];
+        const values = cmd.args.params as string[];
+        if (params.length !== values.length) {
+          return fail(`Procedure '${cmd.args.name}' takes ${params.length} argument(s), got ${values.length}`);
+        }
+        if (run.depth >= MAX_CALL_DEPTH) {
+          return fail(`Procedure calls nested more than ${MAX_CALL_DEPTH} deep`);
+        }
+        // A procedure sees only its parameters, not the caller's variables.
+        const procScope = childScope(null);
+        params.forEach((p, i) => procScope.vars.set(p, bindValue(values[i], scope, ctx)));
+        run.depth++;
+        try {
+          return runBlock(proc.args.body, procScope, run);
+        } finally {
+          run.depth--;
+        }
+      }
+
+      default: {
+        const result = executeCommand(instantiate(cmd, scope, ctx), ctx);
+        results.push(result);
+        return result.success || run.continueOnError;
+      }
+    }
+  } catch (e: any) {
+    return fail(e.message ?? String(e));
+  }
+}
+
 /**
  * Execute a sequence of parsed commands.
  *
  * Commands are executed in order. Execution stops at the first failure
- * unless `continueOnError` is true.
+ * unless `continueOnError` is true. Block statements (`for each`, `if`,
+ * `call`) run their bodies here and report one result for the statement
+ * itself plus one per command run inside it, so a loop can produce more
+ * results than there are commands.
  *
  * @param commands - Array of parsed ScriptCommands.
  * @param ctx - The execution context.
@@ -612,17 +1024,17 @@ export function executeScript(
   ctx: ScriptContext,
   options?: { continueOnError?: boolean }
 ): ScriptResult[] {
-  const results: ScriptResult[] = [];
-  const continueOnError = options?.continueOnError ?? false;
-
+  const run: ScriptRun = {
+    ctx,
+    continueOnError: options?.continueOnError ?? false,
+    results: [],
+    procedures: new Map(),
+    depth: 0,
+    steps: 0,
+  };
   for (const cmd of commands) {
-    const result = executeCommand(cmd, ctx);
-    results.push(result);
-
-    if (!result.success && !continueOnError) {
-      break;
-    }
+    if (cmd.type === 'proc') run.procedures.set(cmd.args.name, cmd);
   }
-
-  return results;
+  runBlock(commands, childScope(null), run);
+  return run.results;
 }
@@ -0,0 +1,513 @@
+/**
+ * ScriptLanguage - Editor support for the curation DSL: completions, hover
+ * docs and inline diagnostics.
+ *
+ * DOM-free, so it runs under test as is; the Script Console wires it to its
+ * textarea (see ui/ScriptAssist). Offsets are 0-based character offsets into
+ * the whole script; diagnostics use the parser's 1-based line and column.
+ *
+ * Keyword completions are read from the syntax strings of DSL_REFERENCE: the
+ * tokens typed so far are matched against each documented form, and whatever
+ * comes next in the matching forms is offered. Literal words (`where`,
+ * `haplotig|contaminant`) are offered as is; placeholders are filled from the
+ * assembly (`<contig>` with contig names and `#N` indices, `<scaffold_name>`
+ * with scaffolds) or from the parser's own vocabularies (`<flag>`,
+ * `<metric>`, `<op>`). A command documented in DSL_REFERENCE therefore
+ * completes without changes here.
+ *
+ * Diagnostics are a dry run: `parseScript` errors, then every contig reference
+ * resolved with `resolveContigRef` against the current state. Nothing runs, so
+ * a name that an earlier cut or join in the same script would create cannot
+ * resolve yet; from such a line on, unresolved references are reported as
+ * warnings rather than errors.
+ */
+
+import type { AppState, ContigInfo } from '../core/State';
+import { DSL_REFERENCE, type DSLCommandDoc } from './DSLReference';
+import {
+  parseScript,
+  parseContigRef,
+  tokenize,
+  tokenizeWithColumns,
+  COMPARISON_OPS,
+  SELECT_FLAG_FIELDS,
+  ASSERT_METRICS,
+  type ContigRef,
+  type ScriptCommand,
+  type Token,
+} from './ScriptParser';
+import { resolveContigRef, fmtBp, type StateAPI } from './ScriptExecutor';
+import { quoteIfNeeded } from './ScriptReplay';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** What the editor features read about the loaded assembly. */
+export interface ScriptLanguageSource {
+  state: Pick<StateAPI, 'get'>;
+  /** Scaffolds by id, for scaffold-name completions and contig hovers. */
+  scaffolds(): { id: number; name: string }[];
+}
+
+export type CompletionKind = 'keyword' | 'contig' | 'index' | 'scaffold' | 'value' | 'variable' | 'procedure';
+
+export interface CompletionItem {
+  /** Text shown in the list. */
+  label: string;
+  /** Text inserted in place of the typed prefix (quoted when needed). */
+  insertText: string;
+  /** Secondary text: a contig name for `#N`, a syntax line for keywords. */
+  detail?: string;
+  kind: CompletionKind;
+}
+
+export interface CompletionResult {
+  /** Offset where the replaced prefix starts. */
+  from: number;
+  /** Offset where it ends (the cursor). */
+  to: number;
+  items: CompletionItem[];
+}
+
+export interface HoverInfo {
+  /** Offsets of the hovered token. */
+  from: number;
+  to: number;
+  title: string;
+  /** Further lines: syntax and summary for a command, facts for a contig. */
+  lines: string[];
+}
+
+export interface Diagnostic {
+  /** 1-based line. */
+  line: number;
+  /** 1-based column of the first underlined character. */
+  column: number;
+  /** Number of characters to underline (at least 1). */
+  length: number;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+/** Completion lists are cut off here; typing more narrows them. */
+export const MAX_COMPLETIONS = 50;
+
+// ---------------------------------------------------------------------------
+// Syntax forms from DSL_REFERENCE
+// ---------------------------------------------------------------------------
+
+/** One position in a documented command form. */
+interface SyntaxElement {
+  /** Literal words accepted here (lowercase). */
+  literals: string[];
+  /** Placeholder name accepted here (e.g. 'contig'), if any. */
+  placeholder: string | null;
+}
+
+interface SyntaxForm {
+  doc: DSLCommandDoc;
+  elements: SyntaxElement[];
+}
+
+/**
+ * Split a syntax string into positions. Stops at the first optional (`[...]`),
+ * repeated (`...`) or parenthesized part, past which the form no longer
+ * predicts a single next token.
+ */
+function syntaxElements(syntax: string): SyntaxElement[] {
+  const elements: SyntaxElement[] = [];
+  for (const part of syntax.split(/\s+/)) {
+    if (part.startsWith('[') || part.startsWith('(') || part === '...') break;
+    const placeholder = part.match(/<(\w+)>/)?.[1] ?? null;
+    const literals = part
+      .replace(/\[[^\]]*\]/g, '')
+      .split('|')
+      .filter((w) => w !== '' && !w.includes('<'))
+      .map((w) => w.toLowerCase());
+    elements.push({ literals, placeholder });
+  }
+  return elements;
+}
+
+let forms: SyntaxForm[] | null = null;
+
+function syntaxForms(): SyntaxForm[] {
+  if (!forms) forms = DSL_REFERENCE.map((doc) => ({ doc, elements: syntaxElements(doc.syntax) }));
+  return forms;
+}
+
+/** Block keywords that only appear mid-form in DSL_REFERENCE. */
+const BLOCK_CLOSERS = ['else', 'end'];
+
+/** Whether typed tokens match the start of a form, literal for literal. */
+function formMatches(form: SyntaxForm, tokens: string[]): boolean {
+  if (form.elements.length <= tokens.length) return false;
+  return tokens.every((t, i) => {
+    const el = form.elements[i];
+    return el.placeholder !== null || el.literals.includes(t.toLowerCase());
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function lineStartOf(text: string, offset: number): number {
+  return text.lastIndexOf('\n', offset - 1) + 1;
+}
+
+function isComment(line: string): boolean {
+  return line.trim().startsWith('#');
+}
+
+/** Contig at each order index, or [] with no map. */
+function orderedContigs(s: AppState): ContigInfo[] {
+  if (!s.map) return [];
+  return s.contigOrder.map((id) => s.map!.contigs[id]);
+}
+
+function filterByPrefix(words: string[], prefix: string, kind: CompletionKind): CompletionItem[] {
+  const lower = prefix.toLowerCase();
+  return words
+    .filter((w) => w.toLowerCase().startsWith(lower) && w !== prefix)
+    .map((w) => ({ label: w, insertText: w, kind }));
+}
+
+/** Contig names (prefix matches first, then substring matches) or `#N` indices. */
+function contigCompletions(prefix: string, s: AppState): CompletionItem[] {
+  const contigs = orderedContigs(s);
+  const items: CompletionItem[] = [];
+  if (prefix.startsWith('#')) {
+    const digits = prefix.slice(1);
+    if (!/^\d*$/.test(digits)) return [];
+    for (let i = 0; i < contigs.length && items.length < MAX_COMPLETIONS; i++) {
+      const label = `#${i}`;
+      if (String(i).startsWith(digits) && label !== prefix) {
+        items.push({ label, insertText: label, detail: contigs[i].name, kind: 'index' });
+      }
+    }
+    return items;
+  }
+  const lower = prefix.toLowerCase();
+  const later: CompletionItem[] = [];
+  for (let i = 0; i < contigs.length && items.length < MAX_COMPLETIONS; i++) {
+    const name = contigs[i].name;
+    if (name === prefix) continue;
+    const at = name.toLowerCase().indexOf(lower);
+    if (at < 0) continue;
+    const item: CompletionItem = {
+      label: name, insertText: quoteIfNeeded(name), detail: `#${i}, ${fmtBp(contigs[i].length)}`, kind: 'contig',
+    };
+    if (at === 0) items.push(item);
+    else if (later.length < MAX_COMPLETIONS) later.push(item);
+  }
+  return [...items, ...later].slice(0, MAX_COMPLETIONS);
+}
+
+/** Variables (`let`, `for each`, procedure parameters) and procedures defined anywhere in the script. */
+function scriptNames(text: string): { variables: string[]; procedures: string[] } {
+  const variables = new Set<string>();
+  const procedures = new Set<string>();
+  for (const line of text.split('\n')) {
+    const tokens = tokenize(line.trim());
+    const keyword = tokens[0]?.toLowerCase();
+    if (keyword === 'let' && tokens[1]) variables.add(tokens[1]);
+    if (keyword === 'for' && tokens[2]) variables.add(tokens[2]);
+    if (keyword === 'proc' && tokens[1]) {
+      procedures.add(tokens[1]);
+      for (const p of tokens.slice(2)) variables.add(p);
+    }
+  }
+  return { variables: [...variables], procedures: [...procedures] };
+}
+
+/** Candidates for a placeholder at the cursor. */
+function placeholderCompletions(
+  placeholder: string,
+  keyword: string,
+  prefix: string,
+  text: string,
+  source: ScriptLanguageSource,
+): CompletionItem[] {
+  switch (placeholder) {
+    case 'contig':
+    case 'contig1':
+    case 'contig2':
+    case 'target':
+      return contigCompletions(prefix, source.state.get());
+    case 'scaffold_name': {
+      const lower = prefix.toLowerCase();
+      return source.scaffolds()
+        .filter((sc) => sc.name.toLowerCase().startsWith(lower) && sc.name !== prefix)
+        .map((sc) => ({ label: sc.name, insertText: quoteIfNeeded(sc.name), kind: 'scaffold' as const }));
+    }
+    case 'flag':
+      return filterByPrefix(SELECT_FLAG_FIELDS, prefix, 'value');
+    case 'predicate':
+      return filterByPrefix(['length', ...SELECT_FLAG_FIELDS], prefix, 'value');
+    case 'metric':
+      return filterByPrefix(ASSERT_METRICS, prefix, 'value');
+    case 'op':
+      return filterByPrefix(COMPARISON_OPS, prefix, 'value');
+    case 'name':
+      return keyword === 'call' ? filterByPrefix(scriptNames(text).procedures, prefix, 'procedure') : [];
+    default:
+      return [];
+  }
+}
+
+/** Append items whose labels are not already present. */
+function addUnique(into: CompletionItem[], items: CompletionItem[]): void {
+  const seen = new Set(into.map((i) => i.label));
+  for (const item of items) {
+    if (seen.has(item.label)) continue;
+    seen.add(item.label);
+    into.push(item);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Completions
+// ---------------------------------------------------------------------------
+
+/**
+ * Completions for the token ending at `cursor`. Returns null where nothing
+ * applies (in a comment, or past the predictable part of a command).
+ */
+export function completeAt(text: string, cursor: number, source: ScriptLanguageSource): CompletionResult | null {
+  const lineStart = lineStartOf(text, cursor);
+  const before = text.slice(lineStart, cursor);
+  if (isComment(before)) return null;
+
+  const tokenStart = before.search(/\S*$/);
+  let prefix = before.slice(tokenStart);
+  let from = lineStart + tokenStart;
+  if (prefix.startsWith('"') || prefix.startsWith("'")) prefix = prefix.slice(1);
+
+  const previous = tokenize(before.slice(0, tokenStart));
+  const items: CompletionItem[] = [];
+
+  if (prefix.startsWith('$')) {
+    const { variables } = scriptNames(text);
+    addUnique(items, filterByPrefix(variables.map((v) => `$${v}`), prefix, 'variable'));
+  } else if (previous.length === 0) {
+    const keywords = new Map<string, string>();
+    for (const form of syntaxForms()) {
+      for (const word of form.elements[0]?.literals ?? []) {
+        if (!keywords.has(word)) keywords.set(word, form.doc.syntax);
+      }
+    }
+    for (const word of BLOCK_CLOSERS) keywords.set(word, 'block');
+    const lower = prefix.toLowerCase();
+    for (const [word, syntax] of keywords) {
+      if (word.startsWith(lower) && word !== prefix) {
+        items.push({ label: word, insertText: word, detail: syntax, kind: 'keyword' });
+      }
+    }
+  } else {
+    // `select a..b`: complete the part after the range operator.
+    const range = prefix.indexOf('..');
+    if (range >= 0) {
+      from += range + 2;
+      prefix = prefix.slice(range + 2);
+    }
+    const keyword = previous[0].toLowerCase();
+    for (const form of syntaxForms()) {
+      if (!formMatches(form, previous)) continue;
+      const next = form.elements[previous.length];
+      if (range < 0) addUnique(items, filterByPrefix(next.literals, prefix, 'keyword'));
+      if (next.placeholder) {
+        addUnique(items, placeholderCompletions(next.placeholder, keyword, prefix, text, source));
+      }
+    }
+  }
+
+  if (items.length === 0) return null;
+  return { from, to: cursor, items: items.slice(0, MAX_COMPLETIONS) };
+}
+
+// ---------------------------------------------------------------------------
+// Hover
+// ---------------------------------------------------------------------------
+
+/** Token containing `offset` on its line, with absolute offsets. */
+function tokenAt(text: string, offset: number): { token: Token; index: number; tokens: Token[]; from: number; to: number } | null {
+  const lineStart = lineStartOf(text, offset);
+  const lineEnd = text.indexOf('\n', offset);
+  const line = text.slice(lineStart, lineEnd < 0 ? text.length : lineEnd);
+  if (isComment(line)) return null;
+  const tokens = tokenizeWithColumns(line);
+  for (let i = 0; i < tokens.length; i++) {
+    const from = lineStart + tokens[i].column - 1;
+    const to = from + rawLength(line, tokens[i]);
+    if (offset >= from && offset < to) return { token: tokens[i], index: i, tokens, from, to };
+  }
+  return null;
+}
+
+/** Source length of a token, counting the quotes a quoted token lost. */
+function rawLength(line: string, token: Token): number {
+  const quoted = line[token.column - 1] === '"' || line[token.column - 1] === "'";
+  return token.text.length + (quoted ? 2 : 0);
+}
+
+function contigHover(orderIndex: number, s: AppState, source: ScriptLanguageSource): { title: string; lines: string[] } {
+  const contig = orderedContigs(s)[orderIndex];
+  const lines = [`${fmtBp(contig.length)}, ${contig.inverted ? 'inverted' : 'forward'}`];
+  if (contig.scaffoldId != null) {
+    const scaffold = source.scaffolds().find((sc) => sc.id === contig.scaffoldId);
+    lines.push(`Scaffold: ${scaffold?.name ?? contig.scaffoldId}`);
+  } else {
+    lines.push('Unscaffolded');
+  }
+  return { title: `${contig.name} (#${orderIndex})`, lines };
+}
+
+/**
+ * Documentation for the token at `offset`: the command forms for a keyword,
+ * or name, index, length, orientation and scaffold for a contig reference.
+ */
+export function hoverAt(text: string, offset: number, source: ScriptLanguageSource): HoverInfo | null {
+  const hit = tokenAt(text, offset);
+  if (!hit) return null;
+  const { token, index, tokens, from, to } = hit;
+
+  if (index === 0) {
+    const keyword = token.text.toLowerCase();
+    // Narrow by the subcommand when one is typed (`scaffold paint`).
+    const matching = syntaxForms().filter((f) => f.elements[0]?.literals.includes(keyword));
+    const sub = tokens[1]?.text.toLowerCase();
+    const narrowed = sub ? matching.filter((f) => f.elements[1]?.literals.includes(sub)) : [];
+    const docs = (narrowed.length > 0 ? narrowed : matching).map((f) => f.doc);
+    if (docs.length === 0) return null;
+    return {
+      from, to,
+      title: keyword,
+      lines: docs.flatMap((d) => [d.syntax, `  ${d.summary}`]),
+    };
+  }
+
+  const s = source.state.get();
+  if (!s.map) return null;
+  // A range (`a..b`) holds two references; find the one under the cursor.
+  const quoted = to - from > token.text.length;
+  const parts = quoted ? [token.text] : token.text.split('..');
+  let at = quoted ? from + 1 : from;
+  for (const part of parts) {
+    const end = at + part.length;
+    if (part !== '' && offset >= at && offset < end) {
+      let orderIndex: number;
+      try {
+        orderIndex = resolveContigRef(parseContigRef(part), source.state);
+      } catch {
+        return null;
+      }
+      return { from: at, to: end, ...contigHover(orderIndex, s, source) };
+    }
+    at = end + 2;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Diagnostics
+// ---------------------------------------------------------------------------
+
+function isContigRef(value: unknown): value is ContigRef {
+  return typeof value === 'object' && value !== null &&
+    ((value as ContigRef).kind === 'name' || (value as ContigRef).kind === 'index') &&
+    'value' in value;
+}
+
+function isCommand(value: unknown): value is ScriptCommand {
+  return typeof value === 'object' && value !== null && 'type' in value && 'args' in value && 'line' in value;
+}
+
+/** Every parsed command, block bodies and loop sources included, in line order. */
+function flattenCommands(commands: ScriptCommand[]): ScriptCommand[] {
+  const all: ScriptCommand[] = [];
+  const visit = (cmd: ScriptCommand) => {
+    all.push(cmd);
+    for (const value of Object.values(cmd.args)) {
+      if (isCommand(value)) visit(value);
+      if (Array.isArray(value)) value.filter(isCommand).forEach(visit);
+    }
+  };
+  commands.forEach(visit);
+  return all.sort((a, b) => a.line - b.line);
+}
+
+/** Contig references among a command's own arguments. */
+function contigRefs(cmd: ScriptCommand): ContigRef[] {
+  const refs: ContigRef[] = [];
+  for (const value of Object.values(cmd.args)) {
+    if (isContigRef(value)) refs.push(value);
+    if (Array.isArray(value)) refs.push(...value.filter(isContigRef));
+  }
+  return refs;
+}
+
+/** Column and length of a reference on its source line (falls back to the whole line). */
+function locateRef(line: string, ref: ContigRef): { column: number; length: number } {
+  const text = ref.kind === 'index' ? `#${ref.value}` : String(ref.value);
+  for (const token of tokenizeWithColumns(line).slice(1)) {
+    const quoted = line[token.column - 1] === '"' || line[token.column - 1] === "'";
+    if (token.text === text) return { column: token.column, length: rawLength(line, token) };
+    const at = token.text.split('..').indexOf(text);
+    if (at >= 0 && !quoted) {
+      const offset = token.text.split('..').slice(0, at).reduce((n, p) => n + p.length + 2, 0);
+      return { column: token.column + offset, length: text.length };
+    }
+  }
+  const indent = line.length - line.trimStart().length;
+  return { column: indent + 1, length: Math.max(1, line.trim().length) };
+}
+
+/** Commands after which later lines may name contigs that do not exist yet. */
+const CREATES_CONTIGS = new Set(['cut', 'join', 'autocut']);
+
+/**
+ * Parse errors and unresolvable contig references in a script, without
+ * running any of it.
+ */
+export function diagnoseScript(text: string, source: ScriptLanguageSource): Diagnostic[] {
+  const lines = text.split('\n');
+  const { commands, errors } = parseScript(text);
+  const diagnostics: Diagnostic[] = errors.map((err) => {
+    const line = lines[err.line - 1] ?? '';
+    const token = tokenizeWithColumns(line).find((t) => t.column === err.column);
+    return {
+      line: err.line,
+      column: err.column,
+      length: token ? rawLength(line, token) : 1,
+      message: err.message,
+      severity: 'error' as const,
+    };
+  });
+
+  if (!source.state.get().map) return diagnostics;
+  let mayCreate = false;
+  for (const cmd of flattenCommands(commands)) {
+    // Lines with `$variables` are only resolved when they run.
+    if (!cmd.template) {
+      for (const ref of contigRefs(cmd)) {
+        try {
+          resolveContigRef(ref, source.state);
+        } catch (e: any) {
+          const where = locateRef(lines[cmd.line - 1] ?? '', ref);
+          diagnostics.push({
+            line: cmd.line,
+            ...where,
+            message: mayCreate
+              ? `${e.message} (it may be created by an earlier line of the script)`
+              : e.message,
+            severity: mayCreate ? 'warning' : 'error',
+          });
+        }
+      }
+    }
+    if (CREATES_CONTIGS.has(cmd.type)) mayCreate = true;
+  }
+  return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
@@ -2,10 +2,31 @@
  * ScriptParser - Parses a line-oriented curation DSL into an AST.
  *
  * The DSL supports contig operations (cut, join, invert, move), selection
- * commands, scaffold management, navigation, and meta commands like echo.
+ * commands, scaffold management, meta tags and exclusion, navigation and
+ * waypoints, Hi-C analyses, and meta commands like echo.
  *
- * Each line is parsed independently. Comments start with #, blank lines
- * are ignored, and whitespace is treated forgivingly.
+ * Each command occupies one line. Comments start with #, blank lines are
+ * ignored, and whitespace is treated forgivingly. On top of single commands,
+ * `parseScript` understands a small amount of structure:
+ *
+ *   let minlen = 1Mb
+ *   proc park c
+ *     move $c to end
+ *   end
+ *   for each c in (select where unscaffolded and length < $minlen)
+ *     call park $c
+ *   end
+ *   if n50 < 10Mb
+ *     echo N50 still low
+ *   else
+ *     echo done
+ *   end
+ *
+ * Blocks nest and close with `end`; block statements carry their body in
+ * `args.body`. A `$name` reference is resolved when its line runs, so a line
+ * that uses one keeps its tokens in `template` and is parsed again after
+ * substitution (see ScriptExecutor). Procedures are hoisted, so they can be
+ * called before their definition, and see only their own parameters.
  *
  * Contigs can be referenced by name (e.g. `chr1`) or by 0-based order
  * index using the `#N` syntax (e.g. `#0`, `#3`).
@@ -38,7 +59,20 @@ export type ScriptCommandType =
   | 'goto'
   | 'echo'
   | 'autocut'
-  | 'autosort';
+  | 'autosort'
+  | 'tag'
+  | 'untag'
+  | 'exclude'
+  | 'include'
+  | 'waypoint_add'
+  | 'waypoint_remove'
+  | 'waypoint_goto'
+  | 'analyze'
+  | 'let'
+  | 'for_each'
+  | 'if'
+  | 'proc'
+  | 'call';
 
 /**
  * A single parsed script command.
@@ -51,6 +85,12 @@ export interface ScriptCommand {
   type: ScriptCommandType;
   args: Record<string, any>;
   line: number;
+  /**
+   * Source tokens of a line that references `$variables`. `args` were parsed
+   * with placeholders only to check the syntax; the executor substitutes the
+   * variables and parses these tokens again when the line runs.
+   */
+  template?: string[];
 }
 
 /**
@@ -67,6 +107,8 @@ export interface ContigRef {
  */
 export interface ParseError {
   line: number;
+  /** 1-based column of the offending token (end of line if one is missing). */
+  column: number;
   message: string;
 }
 
@@ -79,10 +121,36 @@ export interface ParseResult {
   errors: ParseError[];
 }
 
+/**
+ * Thrown by `parseLine` for malformed commands. The message keeps the
+ * `Line N:` prefix; `column` points at the token that could not be parsed.
+ */
+export class ScriptSyntaxError extends Error {
+  constructor(readonly line: number, readonly column: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'ScriptSyntaxError';
+  }
+}
+
+/** A token with its 1-based start column in the source line. */
+export interface Token {
+  text: string;
+  column: number;
+}
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
+/** `$name` variable references inside a token. */
+export const VARIABLE_PATTERN = /\$([A-Za-z_][A-Za-z0-9_]*)/g;
+
+/** Names usable for variables, loop variables, procedures and parameters. */
+const IDENTIFIER = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Stands in for a variable while checking syntax; valid as a name or a number. */
+const PLACEHOLDER = '0';
+
 /**
  * Parse a contig reference token.
  *
@@ -100,17 +168,9 @@ export function parseContigRef(token: string): ContigRef {
   return { kind: 'name', value: token };
 }
 
-/**
- * Tokenize a single line, respecting quoted strings.
- *
- * Tokens are split on whitespace. Double-quoted or single-quoted strings
- * are kept as single tokens with the quotes stripped.
- *
- * @param line - A single script line (already trimmed).
- * @returns Array of tokens.
- */
-export function tokenize(line: string): string[] {
-  const tokens: string[] = [];
+/** Tokenize with the 1-based column of each token. */
+export function tokenizeWithColumns(line: string): Token[] {
+  const tokens: Token[] = [];
   let i = 0;
   while (i < line.length) {
     // Skip whitespace
@@ -118,58 +178,77 @@ export function tokenize(line: string): string[] {
       i++;
       continue;
     }
+    const column = i + 1;
     // Quoted string
     if (line[i] === '"' || line[i] === "'") {
       const quote = line[i];
       i++;
-      let token = '';
+      let text = '';
       while (i < line.length && line[i] !== quote) {
-        token += line[i];
+        text += line[i];
         i++;
       }
       if (i < line.length) i++; // skip closing quote
-      tokens.push(token);
+      tokens.push({ text, column });
       continue;
     }
     // Regular token
-    let token = '';
+    let text = '';
     while (i < line.length && !/\s/.test(line[i])) {
-      token += line[i];
+      text += line[i];
       i++;
     }
-    tokens.push(token);
+    tokens.push({ text, column });
   }
   return tokens;
 }
 
+/**
+ * Tokenize a single line, respecting quoted strings.
+ *
+ * Tokens are split on whitespace. Double-quoted or single-quoted strings
+ * are kept as single tokens with the quotes stripped.
+ *
+ * @param line - A single script line (already trimmed).
+ * @returns Array of tokens.
+ */
+export function tokenize(line: string): string[] {
+  return tokenizeWithColumns(line).map(t => t.text);
+}
+
 /** Comparison operators shared by `select where` and `assert`. */
 export type ComparisonOp = '<' | '<=' | '>' | '>=' | '==' | '!=';
-const COMPARISON_OPS: ComparisonOp[] = ['<=', '>=', '==', '!=', '<', '>'];
+export const COMPARISON_OPS: ComparisonOp[] = ['<=', '>=', '==', '!=', '<', '>'];
 
 /** Fields usable as a bare boolean predicate in `select where <field>`. */
-const SELECT_FLAG_FIELDS = ['misassembled', 'unscaffolded', 'scaffolded', 'inverted', 'excluded'];
+export const SELECT_FLAG_FIELDS = [
+  'misassembled', 'unscaffolded', 'scaffolded', 'inverted', 'excluded',
+  'weakjoin', 'haplotig', 'telomere5p',
+];
 
 /** Metrics assertable via `assert <metric> <op> <value>`. */
-const ASSERT_METRICS = ['contigs', 'scaffolds', 'n50', 'length', 'misassemblies'];
+export const ASSERT_METRICS = [
+  'contigs', 'scaffolds', 'n50', 'length', 'misassemblies',
+  'weakjoins', 'haplotigs', 'health',
+];
 
-function parseComparisonOp(token: string, lineNumber: number): ComparisonOp {
-  if ((COMPARISON_OPS as string[]).includes(token)) return token as ComparisonOp;
-  throw new Error(
-    `Line ${lineNumber}: expected a comparison operator (< <= > >= == !=), got '${token}'`
-  );
-}
+/** Analyses runnable via `analyze <kind>`. */
+export type AnalysisKind = 'insulation' | 'joinsupport' | 'haplotigs';
+export const ANALYSIS_KINDS: AnalysisKind[] = ['insulation', 'joinsupport', 'haplotigs'];
+
+/** Classifications accepted by `tag` (MetaTagType). */
+export const META_TAGS = ['haplotig', 'contaminant', 'unlocalised', 'sex_chromosome'];
+
+/** Keywords that open, split or close a block; handled by `parseScript`. */
+const BLOCK_KEYWORDS = ['for', 'if', 'proc', 'else', 'end'];
 
 /**
  * Parse a numeric value with an optional size unit (bp/kb/Mb/Gb, case-insensitive),
  * returning base pairs. Plain numbers are returned as-is (for counts).
  */
-function parseUnitValue(token: string, lineNumber: number, label: string): number {
+function unitValue(token: string): number | null {
   const m = token.match(/^([0-9]*\.?[0-9]+)(bp|kb|mb|gb)?$/i);
-  if (!m) {
-    throw new Error(
-      `Line ${lineNumber}: ${label} must be a number, optionally with a bp/kb/Mb/Gb suffix, got '${token}'`
-    );
-  }
+  if (!m) return null;
   let value = parseFloat(m[1]);
   switch ((m[2] ?? '').toLowerCase()) {
     case 'kb': value *= 1_000; break;
@@ -185,38 +264,45 @@ function parseUnitValue(token: string, lineNumber: number, label: string): numbe
 // ---------------------------------------------------------------------------
 
 /**
- * Parse a single script line into a ScriptCommand.
- *
- * Returns `null` for blank lines and comments. Throws an Error with a
- * descriptive message for malformed commands.
- *
- * @param line - The raw source line.
- * @param lineNumber - 1-based line number for error reporting.
- * @returns A ScriptCommand, or null if the line is empty/comment.
+ * Parse one line's tokens. `endColumn` is reported for arguments that are
+ * missing altogether.
  */
-export function parseLine(line: string, lineNumber: number = 1): ScriptCommand | null {
-  const trimmed = line.trim();
-
-  // Skip blank lines and comments
-  if (trimmed === '' || trimmed.startsWith('#')) {
-    return null;
-  }
-
-  const tokens = tokenize(trimmed);
-  if (tokens.length === 0) return null;
+function parseTokens(tok: Token[], lineNumber: number, endColumn: number): ScriptCommand {
+  const tokens = tok.map(t => t.text);
+  const col = (i: number) => (i < tok.length ? tok[i].column : endColumn);
+  const fail = (i: number, message: string): never => {
+    throw new ScriptSyntaxError(lineNumber, col(i), message);
+  };
+  const comparisonOp = (i: number): ComparisonOp => {
+    if ((COMPARISON_OPS as string[]).includes(tokens[i])) return tokens[i] as ComparisonOp;
+    return fail(i, `expected a comparison operator (< <= > >= == !=), got '${tokens[i] ?? ''}'`);
+  };
+  const sizeValue = (i: number, label: string): number =>
+    unitValue(tokens[i] ?? '') ??
+    fail(i, `${label} must be a number, optionally with a bp/kb/Mb/Gb suffix, got '${tokens[i] ?? ''}'`);
 
   const keyword = tokens[0].toLowerCase();
 
   switch (keyword) {
-    // ----- cut <contig> <pixel_offset> -----
+    // ----- cut <contig> <pixel_offset> | cut <contig> <bp_position>[bp|kb|Mb|Gb] [exact] -----
     case 'cut': {
       if (tokens.length < 3) {
-        throw new Error(`Line ${lineNumber}: 'cut' requires <contig> and <pixel_offset> arguments`);
+        fail(tokens.length, "'cut' requires <contig> and <pixel_offset> arguments");
       }
       const contig = parseContigRef(tokens[1]);
+      // A size unit makes the position base pairs; a bare number stays a
+      // texture pixel offset, as scripts written before bp cuts expect.
+      if (/^[0-9.]+(bp|kb|mb|gb)$/i.test(tokens[2])) {
+        const bpOffset = Math.round(sizeValue(2, "'cut' position"));
+        const flag = tokens[3]?.toLowerCase();
+        if (flag !== undefined && flag !== 'exact') {
+          fail(3, `'cut' expected 'exact' after the position, got '${tokens[3]}'`);
+        }
+        return { type: 'cut', args: { contig, bpOffset, exact: flag === 'exact' }, line: lineNumber };
+      }
       const pixelOffset = parseInt(tokens[2], 10);
       if (isNaN(pixelOffset)) {
-        throw new Error(`Line ${lineNumber}: 'cut' pixel_offset must be a number, got '${tokens[2]}'`);
+        fail(2, `'cut' pixel_offset must be a number, got '${tokens[2]}'`);
       }
       return { type: 'cut', args: { contig, pixelOffset }, line: lineNumber };
     }
@@ -224,7 +310,7 @@ export function parseLine(line: string, lineNumber: number = 1): ScriptCommand |
     // ----- join <contig1> <contig2> -----
     case 'join': {
       if (tokens.length < 3) {
-        throw new Error(`Line ${lineNumber}: 'join' requires <contig1> and <contig2> arguments`);
+        fail(tokens.length, "'join' requires <contig1> and <contig2> arguments");
       }
       const contig1 = parseContigRef(tokens[1]);
       const contig2 = parseContigRef(tokens[2]);
@@ -234,7 +320,7 @@ export function parseLine(line: string, lineNumber: number = 1): ScriptCommand |
     // ----- invert <contig> -----
     case 'invert': {
       if (tokens.length < 2) {
-        throw new Error(`Line ${lineNumber}: 'invert' requires a <contig> argument`);
+        fail(1, "'invert' requires a <contig> argument");
       }
       const contig = parseContigRef(tokens[1]);
       return { type: 'invert', args: { contig }, line: lineNumber };
@@ -243,14 +329,17 @@ export function parseLine(line: string, lineNumber: number = 1): ScriptCommand |
     // ----- move <contig> to|before|after <target> -----
     case 'move': {
       if (tokens.length < 4) {
-        throw new Error(`Line ${lineNumber}: 'move' requires <contig> to|before|after <target>`);
+        fail(tokens.length, "'move' requires <contig> to|before|after <target>");
       }
       const contig = parseContigRef(tokens[1]);
       const direction = tokens[2].toLowerCase();
       if (direction === 'to') {
+        if (tokens[3].toLowerCase() === 'end') {
+          return { type: 'move_to', args: { contig, position: 'end' }, line: lineNumber };
+        }
         const position = parseInt(tokens[3], 10);
         if (isNaN(position)) {
-          throw new Error(`Line ${lineNumber}: 'move ... to' position must be a number, got '${tokens[3]}'`);
+          fail(3, `'move ... to' position must be a number or 'end', got '${tokens[3]}'`);
         }
         return { type: 'move_to', args: { contig, position }, line: lineNumber };
       }
@@ -262,40 +351,50 @@ export function parseLine(line: string, lineNumber: number = 1): ScriptCommand |
         const target = parseContigRef(tokens[3]);
         return { type: 'move_after', args: { contig, target }, line: lineNumber };
       }
-      throw new Error(
-        `Line ${lineNumber}: 'move' direction must be 'to', 'before', or 'after', got '${tokens[2]}'`
-      );
+      return fail(2, `'move' direction must be 'to', 'before', or 'after', got '${tokens[2]}'`);
     }
 
-    // ----- select <contig> | <contig1>..<contig2> | all -----
+    // ----- select <contig> | <contig1>..<contig2> | all | where <predicate> [and <predicate> ...] -----
     case 'select': {
       if (tokens.length < 2) {
-        throw new Error(`Line ${lineNumber}: 'select' requires an argument`);
+        fail(1, "'select' requires an argument");
       }
       const arg = tokens[1];
       if (arg.toLowerCase() === 'all') {
         return { type: 'select_all', args: {}, line: lineNumber };
       }
-      // Predicate selection: select where <field> [<op> <value>]
+      // Predicate selection: select where <field> [<op> <value>] [and ...]
       if (arg.toLowerCase() === 'where') {
-        if (tokens.length < 3) {
-          throw new Error(`Line ${lineNumber}: 'select where' requires a field (length, ${SELECT_FLAG_FIELDS.join(', ')})`);
-        }
-        const field = tokens[2].toLowerCase();
-        if (field === 'length') {
-          if (tokens.length < 5) {
-            throw new Error(`Line ${lineNumber}: 'select where length' requires <op> <value>, e.g. 'select where length < 1Mb'`);
+        const conditions: Record<string, any>[] = [];
+        let i = 2;
+        for (;;) {
+          if (i >= tokens.length) {
+            fail(i, `'select where' requires a field (length, ${SELECT_FLAG_FIELDS.join(', ')})`);
           }
-          const op = parseComparisonOp(tokens[3], lineNumber);
-          const value = parseUnitValue(tokens[4], lineNumber, 'length');
-          return { type: 'select_where', args: { field, op, value }, line: lineNumber };
-        }
-        if (SELECT_FLAG_FIELDS.includes(field)) {
-          return { type: 'select_where', args: { field }, line: lineNumber };
+          const field = tokens[i].toLowerCase();
+          if (field === 'length') {
+            if (tokens.length < i + 3) {
+              fail(tokens.length, "'select where length' requires <op> <value>, e.g. 'select where length < 1Mb'");
+            }
+            const op = comparisonOp(i + 1);
+            const value = sizeValue(i + 2, 'length');
+            conditions.push({ field, op, value });
+            i += 3;
+          } else if (SELECT_FLAG_FIELDS.includes(field)) {
+            conditions.push({ field });
+            i += 1;
+          } else {
+            fail(i, `unknown selection field '${tokens[i]}'. Expected length or one of: ${SELECT_FLAG_FIELDS.join(', ')}`);
+          }
+          if (i >= tokens.length) break;
+          if (tokens[i].toLowerCase() !== 'and') {
+            fail(i, `expected 'and' between selection predicates, got '${tokens[i]}'`);
+          }
+          i++;
         }
-        throw new Error(
-          `Line ${lineNumber}: unknown selection field '${tokens[2]}'. Expected length or one of: ${SELECT_FLAG_FIELDS.join(', ')}`
-        );
+        const [first, ...rest] = conditions;
+        const args = rest.length > 0 ? { ...first, and: rest } : first;
+        return { type: 'select_where', args, line: lineNumber };
       }
       // Check for range syntax: contig1..contig2
       const rangeMatch = arg.match(/^(.+)\.\.(.+)$/);
@@ -322,13 +421,13 @@ export function parseLine(line: string, lineNumber: number = 1): ScriptCommand |
     // ----- scaffold <subcommand> ... -----
     case 'scaffold': {
       if (tokens.length < 2) {
-        throw new Error(`Line ${lineNumber}: 'scaffold' requires a subcommand (create|paint|unpaint|delete)`);
+        fail(1, "'scaffold' requires a subcommand (create|paint|unpaint|delete)");
       }
       const sub = tokens[1].toLowerCase();
       switch (sub) {
         case 'create': {
           if (tokens.length < 3) {
-            throw new Error(`Line ${lineNumber}: 'scaffold create' requires a <name> argument`);
+            fail(2, "'scaffold create' requires a <name> argument");
           }
           // Name is everything after "scaffold create", joined by spaces
           const name = tokens.slice(2).join(' ');
@@ -336,7 +435,7 @@ export function parseLine(line: string, lineNumber: number = 1): ScriptCommand |
         }
         case 'paint': {
           if (tokens.length < 4) {
-            throw new Error(`Line ${lineNumber}: 'scaffold paint' requires <contig> and <scaffold_name> arguments`);
+            fail(tokens.length, "'scaffold paint' requires <contig> and <scaffold_name> arguments");
           }
           const contig = parseContigRef(tokens[2]);
           const scaffoldName = tokens.slice(3).join(' ');
@@ -344,29 +443,27 @@ export function parseLine(line: string, lineNumber: number = 1): ScriptCommand |
         }
         case 'unpaint': {
           if (tokens.length < 3) {
-            throw new Error(`Line ${lineNumber}: 'scaffold unpaint' requires a <contig> argument`);
+            fail(2, "'scaffold unpaint' requires a <contig> argument");
           }
           const contig = parseContigRef(tokens[2]);
           return { type: 'scaffold_unpaint', args: { contig }, line: lineNumber };
         }
         case 'delete': {
           if (tokens.length < 3) {
-            throw new Error(`Line ${lineNumber}: 'scaffold delete' requires a <name> argument`);
+            fail(2, "'scaffold delete' requires a <name> argument");
           }
           const name = tokens.slice(2).join(' ');
           return { type: 'scaffold_delete', args: { name }, line: lineNumber };
         }
         default:
-          throw new Error(
-            `Line ${lineNumber}: Unknown scaffold subcommand '${tokens[1]}'. Expected create, paint, unpaint, or delete`
-          );
+          return fail(1, `Unknown scaffold subcommand '${tokens[1]}'. Expected create, paint, unpaint, or delete`);
       }
     }
 
     // ----- zoom <contig> | reset -----
     case 'zoom': {
       if (tokens.length < 2) {
-        throw new Error(`Line ${lineNumber}: 'zoom' requires an argument (contig name or 'reset')`);
+        fail(1, "'zoom' requires an argument (contig name or 'reset')");
       }
       if (tokens[1].toLowerCase() === 'reset') {
         return { type: 'zoom_reset', args: {}, line: lineNumber };
@@ -378,12 +475,12 @@ export function parseLine(line: string, lineNumber: number = 1): ScriptCommand |
     // ----- goto <x> <y> -----
     case 'goto': {
       if (tokens.length < 3) {
-        throw new Error(`Line ${lineNumber}: 'goto' requires <x> and <y> arguments`);
+        fail(tokens.length, "'goto' requires <x> and <y> arguments");
       }
       const x = parseFloat(tokens[1]);
       const y = parseFloat(tokens[2]);
       if (isNaN(x) || isNaN(y)) {
-        throw new Error(`Line ${lineNumber}: 'goto' coordinates must be numbers`);
+        fail(isNaN(x) ? 1 : 2, "'goto' coordinates must be numbers");
       }
       return { type: 'goto', args: { x, y }, line: lineNumber };
     }
@@ -391,21 +488,32 @@ export function parseLine(line: string, lineNumber: number = 1): ScriptCommand |
     // ----- assert <metric> <op> <value> -----
     case 'assert': {
       if (tokens.length < 4) {
-        throw new Error(
-          `Line ${lineNumber}: 'assert' requires <metric> <op> <value>, e.g. 'assert n50 > 10Mb' (metrics: ${ASSERT_METRICS.join(', ')})`
+        fail(
+          tokens.length,
+          `'assert' requires <metric> <op> <value>, e.g. 'assert n50 > 10Mb' (metrics: ${ASSERT_METRICS.join(', ')})`
         );
       }
       const metric = tokens[1].toLowerCase();
       if (!ASSERT_METRICS.includes(metric)) {
-        throw new Error(
-          `Line ${lineNumber}: unknown assert metric '${tokens[1]}'. Expected one of: ${ASSERT_METRICS.join(', ')}`
-        );
+        fail(1, `unknown assert metric '${tokens[1]}'. Expected one of: ${ASSERT_METRICS.join(', ')}`);
       }
-      const op = parseComparisonOp(tokens[2], lineNumber);
-      const value = parseUnitValue(tokens[3], lineNumber, 'value');
+      const op = comparisonOp(2);
+      const value = sizeValue(3, 'value');
       return { type: 'assert', args: { metric, op, value }, line: lineNumber };
     }
 
+    // ----- analyze insulation|joinsupport|haplotigs -----
+    case 'analyze': {
+      if (tokens.length < 2) {
+        fail(1, `'analyze' requires an analysis (${ANALYSIS_KINDS.join(', ')})`);
+      }
+      const kind = tokens[1].toLowerCase() as AnalysisKind;
+      if (!ANALYSIS_KINDS.includes(kind)) {
+        fail(1, `unknown analysis '${tokens[1]}'. Expected one of: ${ANALYSIS_KINDS.join(', ')}`);
+      }
+      return { type: 'analyze', args: { kind }, line: lineNumber };
+    }
+
     // ----- echo <message> -----
     case 'echo': {
       // Everything after "echo" is the message
@@ -418,11 +526,11 @@ export function parseLine(line: string, lineNumber: number = 1): ScriptCommand |
       for (let i = 1; i < tokens.length; i++) {
         const [key, val] = tokens[i].split('=');
         const num = parseFloat(val);
-        if (isNaN(num)) throw new Error(`Line ${lineNumber}: autocut parameter value must be numeric`);
+        if (isNaN(num)) fail(i, 'autocut parameter value must be numeric');
         if (key === 'threshold') params.cutThreshold = num;
         else if (key === 'minsize') params.minFragmentSize = num;
         else if (key === 'window') params.windowSize = num;
-        else throw new Error(`Line ${lineNumber}: autocut unknown parameter '${key}'`);
+        else fail(i, `autocut unknown parameter '${key}'`);
       }
       return { type: 'autocut', args: { params }, line: lineNumber };
     }
@@ -432,29 +540,190 @@ export function parseLine(line: string, lineNumber: number = 1): ScriptCommand |
       for (let i = 1; i < tokens.length; i++) {
         const [key, val] = tokens[i].split('=');
         const num = parseFloat(val);
-        if (isNaN(num)) throw new Error(`Line ${lineNumber}: autosort parameter value must be numeric`);
+        if (isNaN(num)) fail(i, 'autosort parameter value must be numeric');
         if (key === 'threshold') params.hardThreshold = num;
         else if (key === 'maxdist') params.maxDiagonalDistance = num;
-        else throw new Error(`Line ${lineNumber}: autosort unknown parameter '${key}'`);
+        else fail(i, `autosort unknown parameter '${key}'`);
       }
       return { type: 'autosort', args: { params }, line: lineNumber };
     }
 
+    // ----- tag <contig> <tag> [notes] -----
+    case 'tag': {
+      if (tokens.length < 3) {
+        fail(tokens.length, `'tag' requires <contig> and <tag> arguments (tags: ${META_TAGS.join(', ')})`);
+      }
+      const contig = parseContigRef(tokens[1]);
+      const tag = tokens[2].toLowerCase();
+      if (!META_TAGS.includes(tag)) {
+        fail(2, `unknown tag '${tokens[2]}'. Expected one of: ${META_TAGS.join(', ')}`);
+      }
+      const args: Record<string, any> = { contig, tag };
+      if (tokens.length > 3) args.notes = tokens.slice(3).join(' ');
+      return { type: 'tag', args, line: lineNumber };
+    }
+
+    // ----- untag|exclude|include <contig> -----
+    case 'untag':
+    case 'exclude':
+    case 'include': {
+      if (tokens.length < 2) {
+        fail(1, `'${keyword}' requires a <contig> argument`);
+      }
+      const contig = parseContigRef(tokens[1]);
+      return { type: keyword as 'untag' | 'exclude' | 'include', args: { contig }, line: lineNumber };
+    }
+
+    // ----- waypoint add <contig>|<x> <y> [label] | remove <label> | goto <label> -----
+    case 'waypoint': {
+      if (tokens.length < 2) {
+        fail(1, "'waypoint' requires a subcommand (add|remove|goto)");
+      }
+      const sub = tokens[1].toLowerCase();
+      switch (sub) {
+        case 'add': {
+          if (tokens.length < 3) {
+            fail(2, "'waypoint add' requires a <contig> or <x> <y> position");
+          }
+          const x = Number(tokens[2]);
+          const y = Number(tokens[3]);
+          if (tokens.length >= 4 && !isNaN(x) && !isNaN(y)) {
+            const args: Record<string, any> = { x, y };
+            if (tokens.length > 4) args.label = tokens.slice(4).join(' ');
+            return { type: 'waypoint_add', args, line: lineNumber };
+          }
+          const args: Record<string, any> = { contig: parseContigRef(tokens[2]) };
+          if (tokens.length > 3) args.label = tokens.slice(3).join(' ');
+          return { type: 'waypoint_add', args, line: lineNumber };
+        }
+        case 'remove':
+        case 'goto': {
+          if (tokens.length < 3) {
+            fail(2, `'waypoint ${sub}' requires a <label> argument`);
+          }
+          const label = tokens.slice(2).join(' ');
+          return { type: sub === 'remove' ? 'waypoint_remove' : 'waypoint_goto', args: { label }, line: lineNumber };
+        }
+        default:
+          return fail(1, `Unknown waypoint subcommand '${tokens[1]}'. Expected add, remove, or goto`);
+      }
+    }
+
+    // ----- let <name> = <value> -----
+    case 'let': {
+      if (tokens.length < 4 || tokens[2] !== '=') {
+        fail(Math.min(tokens.length, 2), "'let' requires <name> = <value>, e.g. 'let minlen = 1Mb'");
+      }
+      if (!IDENTIFIER.test(tokens[1])) {
+        fail(1, `'${tokens[1]}' is not a valid variable name`);
+      }
+      if (tokens.length > 4) {
+        fail(4, "'let' takes a single value; quote values that contain spaces");
+      }
+      return { type: 'let', args: { name: tokens[1], value: tok[3].text }, line: lineNumber };
+    }
+
+    // ----- call <procedure> [args...] -----
+    case 'call': {
+      if (tokens.length < 2) {
+        fail(1, "'call' requires a procedure name");
+      }
+      if (!IDENTIFIER.test(tokens[1])) {
+        fail(1, `'${tokens[1]}' is not a valid procedure name`);
+      }
+      return { type: 'call', args: { name: tokens[1], params: tokens.slice(2) }, line: lineNumber };
+    }
+
     default:
-      throw new Error(`Line ${lineNumber}: Unknown command '${tokens[0]}'`);
+      if (BLOCK_KEYWORDS.includes(keyword)) {
+        return fail(0, `'${keyword}' is part of a block; parse the whole script with parseScript`);
+      }
+      return fail(0, `Unknown command '${tokens[0]}'`);
+  }
+}
+
+/** Names referenced as `$name` in a token list, with the token index. */
+function variableRefs(tokens: Token[]): { name: string; index: number }[] {
+  const refs: { name: string; index: number }[] = [];
+  tokens.forEach((t, index) => {
+    for (const m of t.text.matchAll(VARIABLE_PATTERN)) refs.push({ name: m[1], index });
+  });
+  return refs;
+}
+
+/**
+ * Parse tokens that may reference variables: the syntax is checked with a
+ * placeholder for each reference, and the tokens are kept for the executor.
+ * `let` is excluded because only its value can be a reference.
+ */
+function parseStatement(tokens: Token[], lineNumber: number, endColumn: number): ScriptCommand {
+  const keyword = tokens[0].text.toLowerCase();
+  if (keyword === 'let' || keyword === 'call' || variableRefs(tokens).length === 0) {
+    return parseTokens(tokens, lineNumber, endColumn);
+  }
+  const checked = tokens.map(t => ({ ...t, text: t.text.replace(VARIABLE_PATTERN, PLACEHOLDER) }));
+  const cmd = parseTokens(checked, lineNumber, endColumn);
+  return { ...cmd, template: tokens.map(t => t.text) };
+}
+
+/**
+ * Parse a single script line into a ScriptCommand.
+ *
+ * Returns `null` for blank lines and comments. Throws a ScriptSyntaxError
+ * with a descriptive message for malformed commands. Block keywords (`for`,
+ * `if`, `proc`, `else`, `end`) span several lines and are only accepted by
+ * `parseScript`.
+ *
+ * @param line - The raw source line.
+ * @param lineNumber - 1-based line number for error reporting.
+ * @returns A ScriptCommand, or null if the line is empty/comment.
+ */
+export function parseLine(line: string, lineNumber: number = 1): ScriptCommand | null {
+  const trimmed = line.trim();
+
+  // Skip blank lines and comments
+  if (trimmed === '' || trimmed.startsWith('#')) {
+    return null;
   }
+
+  const tokens = tokenizeWithColumns(line);
+  if (tokens.length === 0) return null;
+  return parseStatement(tokens, lineNumber, line.trimEnd().length + 1);
+}
+
+/**
+ * Re-parse a command's `template` after its variables were substituted.
+ * Used by the executor; errors carry the original line number.
+ */
+export function parseTemplate(tokens: string[], lineNumber: number): ScriptCommand {
+  return parseTokens(tokens.map(text => ({ text, column: 0 })), lineNumber, 0);
 }
 
 // ---------------------------------------------------------------------------
 // Multi-line parser
 // ---------------------------------------------------------------------------
 
+/** A block being parsed: its header command and the list lines go into. */
+interface OpenBlock {
+  header: ScriptCommand;
+  /** Token column of the header keyword, for "never closed" errors. */
+  column: number;
+  /** Whether the block has reached its `else` (if-blocks only). */
+  inElse: boolean;
+  /** Variables visible inside the block, including enclosing ones. */
+  scope: Set<string>;
+  /** Set when a line inside failed to parse; the block is then dropped. */
+  broken: boolean;
+}
+
 /**
  * Parse a multi-line script into commands.
  *
- * Each line is parsed independently. Comments and blank lines are
- * skipped. Parse errors are collected rather than thrown so that the
- * caller can report all errors at once.
+ * Comments and blank lines are skipped. Parse errors are collected rather
+ * than thrown so that the caller can report all errors at once; a block
+ * with an error anywhere inside it is left out entirely, so a loop never
+ * runs with some of its body missing. References to variables that are not
+ * defined at that point are parse errors.
  *
  * @param text - The full script text (may contain multiple lines).
  * @returns A ParseResult with commands and any errors.
@@ -463,18 +732,230 @@ export function parseScript(text: string): ParseResult {
   const lines = text.split('\n');
   const commands: ScriptCommand[] = [];
   const errors: ParseError[] = [];
+  const procedures = collectProcedures(lines);
+  const definedProcedures = new Set<string>();
+  const topScope = new Set<string>();
+  const stack: OpenBlock[] = [];
+
+  const current = (): { list: ScriptCommand[]; scope: Set<string> } => {
+    const top = stack[stack.length - 1];
+    if (!top) return { list: commands, scope: topScope };
+    return { list: top.inElse ? top.header.args.elseBody : top.header.args.body, scope: top.scope };
+  };
+  const markBroken = () => {
+    for (const block of stack) block.broken = true;
+  };
 
   for (let i = 0; i < lines.length; i++) {
     const lineNumber = i + 1;
+    const raw = lines[i];
+    const trimmed = raw.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) continue;
+    const tokens = tokenizeWithColumns(raw);
+    const endColumn = raw.trimEnd().length + 1;
+    const keyword = tokens[0].text.toLowerCase();
+
     try {
-      const cmd = parseLine(lines[i], lineNumber);
-      if (cmd !== null) {
-        commands.push(cmd);
+      const { list, scope } = current();
+      switch (keyword) {
+        case 'end': {
+          const block = stack.pop();
+          if (!block) throw new ScriptSyntaxError(lineNumber, tokens[0].column, "'end' without an open block");
+          if (!block.broken) current().list.push(block.header);
+          break;
+        }
+        case 'else': {
+          const block = stack[stack.length - 1];
+          if (!block || block.header.type !== 'if' || block.inElse) {
+            throw new ScriptSyntaxError(lineNumber, tokens[0].column, "'else' without a matching 'if'");
+          }
+          block.inElse = true;
+          break;
+        }
+        case 'for':
+        case 'if':
+        case 'proc': {
+          // Variables the block introduces, read straight from the tokens so
+          // the body still parses sensibly when the header is malformed.
+          const inner =
+            keyword === 'for' ? new Set([...scope, tokens[2]?.text ?? '']) :
+            keyword === 'if' ? new Set(scope) :
+            new Set(tokens.slice(2).map(t => t.text));
+          const block: OpenBlock = {
+            header: { type: 'if', args: { body: [], elseBody: [] }, line: lineNumber },
+            column: tokens[0].column, inElse: false, scope: inner, broken: true,
+          };
+          // Pushed before the header is parsed so its 'end' still matches it.
+          stack.push(block);
+          block.header =
+            keyword === 'for' ? parseForHeader(raw, tokens, lineNumber, endColumn) :
+            keyword === 'if' ? parseIfHeader(tokens, lineNumber, endColumn) :
+            parseProcHeader(tokens, lineNumber, endColumn, stack.length === 1);
+          if (keyword === 'proc') {
+            if (definedProcedures.has(block.header.args.name)) {
+              throw new ScriptSyntaxError(lineNumber, tokens[1].column, `Procedure '${block.header.args.name}' is already defined`);
+            }
+            definedProcedures.add(block.header.args.name);
+          }
+          // The loop source and condition are evaluated outside the block.
+          const outer = keyword === 'for' ? block.header.args.source : keyword === 'if' ? block.header.args.condition : null;
+          if (outer) checkVariables(raw, outer, scope, lineNumber);
+          block.broken = false;
+          break;
+        }
+        default: {
+          const cmd = parseStatement(tokens, lineNumber, endColumn);
+          if (cmd.type === 'let') {
+            checkVariables(raw, cmd, scope, lineNumber, tokens[3]?.column);
+            scope.add(cmd.args.name);
+          } else if (cmd.type === 'call') {
+            const params = procedures.get(cmd.args.name);
+            if (params === undefined) {
+              throw new ScriptSyntaxError(lineNumber, tokens[1].column, `Unknown procedure '${cmd.args.name}'`);
+            }
+            if (params.length !== cmd.args.params.length) {
+              throw new ScriptSyntaxError(
+                lineNumber, tokens[1].column,
+                `Procedure '${cmd.args.name}' takes ${params.length} argument(s), got ${cmd.args.params.length}`
+              );
+            }
+            checkVariables(raw, cmd, scope, lineNumber);
+          } else {
+            checkVariables(raw, cmd, scope, lineNumber);
+          }
+          list.push(cmd);
+        }
       }
     } catch (e: any) {
-      errors.push({ line: lineNumber, message: e.message ?? String(e) });
+      markBroken();
+      errors.push({
+        line: lineNumber,
+        column: e instanceof ScriptSyntaxError ? e.column : 1,
+        message: e.message ?? String(e),
+      });
     }
   }
 
+  for (const block of stack.reverse()) {
+    const keyword = block.header.type === 'for_each' ? 'for' : block.header.type;
+    errors.push({
+      line: block.header.line,
+      column: block.column,
+      message: `Line ${block.header.line}: '${keyword}' block is never closed (missing 'end')`,
+    });
+  }
+
   return { commands, errors };
 }
+
+// ---------------------------------------------------------------------------
+// Block headers
+// ---------------------------------------------------------------------------
+
+/** First pass: names and parameters of every procedure, so calls can precede definitions. */
+function collectProcedures(lines: string[]): Map<string, string[]> {
+  const procedures = new Map<string, string[]>();
+  for (const line of lines) {
+    const tokens = tokenize(line.trim());
+    if (tokens[0]?.toLowerCase() === 'proc' && tokens[1] && !procedures.has(tokens[1])) {
+      procedures.set(tokens[1], tokens.slice(2));
+    }
+  }
+  return procedures;
+}
+
+/** for each <var> in (<select command>) */
+function parseForHeader(raw: string, tokens: Token[], lineNumber: number, endColumn: number): ScriptCommand {
+  const syntax = "expected 'for each <name> in (select ...)'";
+  if (tokens.length < 2 || tokens[1].text.toLowerCase() !== 'each') {
+    throw new ScriptSyntaxError(lineNumber, tokens[1]?.column ?? endColumn, syntax);
+  }
+  if (tokens.length < 3 || !IDENTIFIER.test(tokens[2].text)) {
+    throw new ScriptSyntaxError(lineNumber, tokens[2]?.column ?? endColumn, `${syntax}; '${tokens[2]?.text ?? ''}' is not a valid name`);
+  }
+  if (tokens.length < 4 || tokens[3].text.toLowerCase() !== 'in') {
+    throw new ScriptSyntaxError(lineNumber, tokens[3]?.column ?? endColumn, syntax);
+  }
+  const open = tokens[4]?.column ?? endColumn;
+  const source = raw.slice(open - 1, endColumn - 1);
+  if (!source.startsWith('(') || !source.endsWith(')')) {
+    throw new ScriptSyntaxError(lineNumber, open, `${syntax}; the selection must be in parentheses`);
+  }
+  // Tokenize inside the parentheses, keeping columns relative to the line.
+  const inner = tokenizeWithColumns(' '.repeat(open) + source.slice(1, -1));
+  if (inner.length === 0 || inner[0].text.toLowerCase() !== 'select') {
+    throw new ScriptSyntaxError(lineNumber, inner[0]?.column ?? open, `${syntax}; the loop source must be a 'select' command`);
+  }
+  const cmd = parseStatement(inner, lineNumber, endColumn - 1);
+  return {
+    type: 'for_each',
+    args: { variable: tokens[2].text, source: cmd, body: [] },
+    line: lineNumber,
+  };
+}
+
+/** if <metric> <op> <value> — the condition is an `assert` expression. */
+function parseIfHeader(tokens: Token[], lineNumber: number, endColumn: number): ScriptCommand {
+  const asAssert = [{ text: 'assert', column: tokens[0].column }, ...tokens.slice(1)];
+  let condition: ScriptCommand;
+  try {
+    condition = parseStatement(asAssert, lineNumber, endColumn);
+  } catch (e) {
+    if (!(e instanceof ScriptSyntaxError)) throw e;
+    const message = e.message.replace(`Line ${lineNumber}: `, '').replace("'assert'", "'if'");
+    throw new ScriptSyntaxError(lineNumber, e.column, message.replace('assert n50', 'if n50'));
+  }
+  return {
+    type: 'if',
+    args: { condition, body: [], elseBody: [] },
+    line: lineNumber,
+  };
+}
+
+/** proc <name> [params...] */
+function parseProcHeader(tokens: Token[], lineNumber: number, endColumn: number, topLevel: boolean): ScriptCommand {
+  if (!topLevel) {
+    throw new ScriptSyntaxError(lineNumber, tokens[0].column, "'proc' can only be defined at the top level of a script");
+  }
+  if (tokens.length < 2 || !IDENTIFIER.test(tokens[1].text)) {
+    throw new ScriptSyntaxError(lineNumber, tokens[1]?.column ?? endColumn, "'proc' requires a <name>, e.g. 'proc park c'");
+  }
+  const params = tokens.slice(2);
+  const seen = new Set<string>();
+  for (const p of params) {
+    if (!IDENTIFIER.test(p.text) || seen.has(p.text)) {
+      throw new ScriptSyntaxError(lineNumber, p.column, `'${p.text}' is not a valid or unique parameter name`);
+    }
+    seen.add(p.text);
+  }
+  return {
+    type: 'proc',
+    args: { name: tokens[1].text, params: params.map(p => p.text), body: [] },
+    line: lineNumber,
+  };
+}
+
+/**
+ * Report the first `$name` in a command that is not in scope. Columns come
+ * from re-tokenizing the source line; `fromColumn` limits the check to the
+ * part of the line the command covers (a `let` value).
+ */
+function checkVariables(
+  raw: string,
+  cmd: ScriptCommand,
+  scope: Set<string>,
+  lineNumber: number,
+  fromColumn = 0,
+): void {
+  const texts = cmd.type === 'let' ? [cmd.args.value as string]
+    : cmd.type === 'call' ? cmd.args.params as string[]
+    : cmd.template;
+  if (!texts || texts.length === 0) return;
+  for (const text of texts) {
+    for (const m of text.matchAll(VARIABLE_PATTERN)) {
+      if (scope.has(m[1])) continue;
+      const at = raw.indexOf(m[0], Math.max(0, fromColumn - 1));
+      throw new ScriptSyntaxError(lineNumber, at >= 0 ? at + 1 : 1, `Undefined variable '$${m[1]}'`);
+    }
+  }
+}
@@ -6,9 +6,10 @@
  * 1. **From CurationOperation[]** (in-app undo stack): Uses the full `data`
  *    field to extract exact parameters for deterministic replay.
  *
- * 2. **From SessionOperationLogEntry[]** (imported sessions): Parses the
- *    human-readable `description` field since the raw operation data is not
- *    stored in exported sessions.
+ * 2. **From SessionOperationLogEntry[]** (v1 sessions): Parses the
+ *    human-readable `description` field since v1 files do not store the raw
+ *    operation data. v2 sessions store it; use `decodeSessionHistory` from
+ *    SessionManager and mode 1 instead.
  *
  * The generated DSL can be pasted into the Script Console and re-executed
  * to reproduce a curation session from scratch.
@@ -98,8 +99,13 @@ function operationToDSL(
   switch (op.type) {
     case 'cut': {
       const contigId = op.data.originalContigId as number;
-      const pixelOffset = op.data.pixelOffset as number;
       const name = contigId < contigs.length ? contigs[contigId].name : `#${op.data.contigOrderIndex}`;
+      // A bp cut replays at the position it landed on (any gap snap has
+      // already been applied), so it is written `exact`.
+      if (op.data.bpOffset !== undefined) {
+        return `cut ${quoteIfNeeded(name)} ${op.data.bpOffset}bp exact`;
+      }
+      const pixelOffset = op.data.pixelOffset as number;
       return `cut ${quoteIfNeeded(name)} ${pixelOffset}`;
     }
 
@@ -138,6 +144,29 @@ function operationToDSL(
         .join('\n');
     }
 
+    case 'meta_tag': {
+      const contigIds = op.data.contigIds as number[];
+      if (contigIds.some(id => id >= contigs.length)) return null;
+      const next = op.data.next as { tag: string; notes?: string } | null;
+      return contigIds
+        .map(id => {
+          const name = quoteIfNeeded(contigs[id].name);
+          if (!next) return `untag ${name}`;
+          const notes = next.notes !== undefined ? ` ${quoteIfNeeded(next.notes)}` : '';
+          return `tag ${name} ${next.tag}${notes}`;
+        })
+        .join('\n');
+    }
+
+    case 'exclude': {
+      const contigIds = op.data.contigIds as number[];
+      if (contigIds.some(id => id >= contigs.length)) return null;
+      const next = op.data.next as boolean[];
+      return contigIds
+        .map((id, i) => `${next[i] ? 'exclude' : 'include'} ${quoteIfNeeded(contigs[id].name)}`)
+        .join('\n');
+    }
+
     default:
       return null;
   }
@@ -198,10 +227,16 @@ export function logEntriesToScript(
  *
  * Known description formats (from CurationEngine):
  * - Cut contig "chr1" at pixel offset 50
+ * - Cut contig "chr1" at 12400000 bp
  * - Joined contigs "chr1" and "chr2"
  * - Inverted contig "chr1" (now inverted)
  * - Moved contig from position 0 to 2
  * - Painted 2 contig(s) with scaffold 1
+ * - Tagged contig "chr1" as haplotig / Removed tag from contig "chr1"
+ * - Excluded contig "chr1" / Included contig "chr1"
+ *
+ * Tag notes and multi-contig tag/exclusion changes are not recoverable from
+ * the description.
  *
  * @returns The DSL string, or null if the description cannot be parsed.
  */
@@ -213,6 +248,11 @@ export function descriptionToDSL(type: string, description: string): string | nu
       if (match) {
         return `cut ${quoteIfNeeded(match[1])} ${match[2]}`;
       }
+      // Cut contig "chr1" at 12400000 bp
+      const bpMatch = description.match(/^Cut contig "(.+)" at (\d+) bp$/);
+      if (bpMatch) {
+        return `cut ${quoteIfNeeded(bpMatch[1])} ${bpMatch[2]}bp exact`;
+      }
       return null;
     }
 
@@ -259,6 +299,26 @@ export function descriptionToDSL(type: string, description: string): string | nu
       return null;
     }
 
+    case 'meta_tag': {
+      const tagMatch = description.match(/^Tagged contig "(.+)" as (\w+)$/);
+      if (tagMatch) {
+        return `tag ${quoteIfNeeded(tagMatch[1])} ${tagMatch[2]}`;
+      }
+      const untagMatch = description.match(/^Removed tag from contig "(.+)"$/);
+      if (untagMatch) {
+        return `untag ${quoteIfNeeded(untagMatch[1])}`;
+      }
+      return null;
+    }
+
+    case 'exclude': {
+      const match = description.match(/^(Excluded|Included) contig "(.+)"$/);
+      if (match) {
+        return `${match[1] === 'Excluded' ? 'exclude' : 'include'} ${quoteIfNeeded(match[2])}`;
+      }
+      return null;
+    }
+
     default:
       return null;
   }
@@ -284,7 +344,7 @@ function unsupportedComment(type: string, description: string): string {
 /**
  * Wrap a contig name in double quotes if it contains spaces or special chars.
  */
-function quoteIfNeeded(name: string): string {
+export function quoteIfNeeded(name: string): string {
   if (/\s/.test(name) || name.includes('"') || name.includes("'")) {
     // Escape internal double quotes
     const escaped = name.replace(/"/g, '\\"');
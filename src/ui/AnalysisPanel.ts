@@ -36,6 +36,8 @@ import {
   downloadKRBiasBedGraph,
   downloadQualityTSV,
   downloadSaddleTSV,
+  downloadLoopsBEDPE,
+  downloadPileupTSV,
 } from '../export/AnalysisExport';
 import { events } from '../core/EventBus';
 import {
@@ -46,7 +48,8 @@ import {
   type CutSuggestion,
 } from '../analysis/MisassemblyDetector';
 import { misassemblyFlags } from '../curation/MisassemblyFlags';
-import { cut } from '../curation/CurationEngine';
+import { metaTags } from '../curation/MetaTagManager';
+import { cut, tag } from '../curation/CurationEngine';
 import { computeHealthScore, type HealthScoreResult } from '../analysis/HealthScore';
 import { qualityToTrack, computeHiCQuality, type HiCQualityResult } from '../analysis/HiCQualityMetrics';
 import { computeSaddlePlot, renderSaddleSVG, type SaddleResult } from '../analysis/SaddlePlot';
@@ -62,7 +65,7 @@ import type {
   SessionPredictedHiC,
 } from '../io/SessionManager';
 import { openCutReview } from './CutReviewPanel';
-import { autoAssignScaffolds } from './Sidebar';
+import { autoAssignScaffolds, formatBp } from './Sidebar';
 import { computeProgress, computeTrend } from '../analysis/CurationProgress';
 import type { DetectedPattern } from '../analysis/PatternDetector';
 import { Evo2HiCClient, getStoredServerUrl as getEvoUrl, setStoredServerUrl as setEvoUrl, type EpiTrackPrediction, type HiCPredictionResult } from '../analysis/Evo2HiCClient';
@@ -71,10 +74,31 @@ import { downscaleMap, encodeContactMap, decodeContactMap, encodeFloat32Array, d
 import { reorderContactMap } from '../renderer/ContactMapReorder';
 import { computeJoinSupport, type JoinSupportResult, type JunctionSupport } from '../analysis/JoinSupport';
 import { computeContigCoverageRatios, detectHaplotigs, type HaplotigResult } from '../analysis/HaplotigDetector';
-import { metaTags } from '../curation/MetaTagManager';
+import {
+  computeContigTransFractions,
+  detectContaminants,
+  type ContaminantCandidate,
+  type ContaminationResult,
+} from '../analysis/ContaminationDetector';
 import { computeBinGC, orientEigenvectorByGC } from '../analysis/GCContent';
 import type { CheckerboardResult } from '../analysis/CheckerboardScore';
 import { detectCentromeres, centromereToTracks, type CentromereResult } from '../analysis/CentromereDetector';
+import { contigRangesFor, type SharedHealthInputs } from '../analysis/BranchComparison';
+import { runRegionAnalysis, clearRegionAnalysis } from './RegionAnalysisMode';
+import type { LoopResult } from '../analysis/LoopCaller';
+import { setLoopMarkers, clearLoopMarkers } from './LoopMarkers';
+import {
+  binAnchors,
+  bedAnchors,
+  bedpeAnchors,
+  computePileup,
+  observedOverExpected,
+  renderPileupSVG,
+  type PileupAnchor,
+  type PileupKind,
+  type PileupResult,
+} from '../analysis/Pileup';
+import { parseBED, parseBEDPE, type BEDFeature, type BEDPEFeature } from '../formats/BEDParser';
 
 // ---------------------------------------------------------------------------
 // Field guide deep links
@@ -101,6 +125,7 @@ let cachedDecay: ContactDecayResult | null = null;
 let baselineDecay: ContactDecayResult | null = null;
 let cachedJoinSupport: JoinSupportResult | null = null;
 let cachedHaplotigs: HaplotigResult | null = null;
+let cachedContaminants: ContaminationResult | null = null;
 let compartmentsOriented = false;
 let cachedInsulation: InsulationResult | null = null;
 let cachedCompartments: CompartmentResult | null = null;
@@ -117,6 +142,12 @@ let cachedKR: KRResult | null = null;
 let cachedTelomere: TelomereResult | null = null;
 let cachedCheckerboard: CheckerboardResult | null = null;
 let cachedCentromeres: CentromereResult | null = null;
+let cachedLoops: LoopResult | null = null;
+let cachedPileup: { result: PileupResult; label: string } | null = null;
+/** Features the user loaded as pileup anchors: BED (diagonal) or BEDPE (pairs). */
+let pileupFeatures: { name: string; bed: BEDFeature[] } | { name: string; bedpe: BEDPEFeature[] } | null = null;
+
+export type PileupSource = 'tad' | 'di' | 'loops' | 'features';
 
 interface CheckerboardRefGroup {
   name: string;
@@ -252,21 +283,7 @@ export function getOverviewSize(): number {
 export function buildContigRanges(): ContigRange[] {
   const s = state.get();
   if (!s.map?.contactMap) return [];
-  const overviewSize = getOverviewSize();
-  const ranges: ContigRange[] = [];
-  let accumulated = 0;
-
-  for (let i = 0; i < s.contigOrder.length; i++) {
-    const contigId = s.contigOrder[i];
-    const contig = s.map.contigs[contigId];
-    const len = contig.pixelEnd - contig.pixelStart;
-    const start = Math.round((accumulated / s.map.textureSize) * overviewSize);
-    accumulated += len;
-    const end = Math.round((accumulated / s.map.textureSize) * overviewSize);
-    ranges.push({ start, end, orderIndex: i });
-  }
-
-  return ranges;
+  return contigRangesFor(s.map.contigs, s.contigOrder, s.map.textureSize, getOverviewSize());
 }
 
 function buildScaffoldGroups(ctx: AppContext): ScaffoldGroup[] {
@@ -332,7 +349,10 @@ function setButtonsDisabled(disabled: boolean): void {
     'btn-compute-decay',
     'btn-compute-compartments',
     'btn-run-all-analysis',
+    'btn-analyze-region',
     'btn-detect-patterns',
+    'btn-call-loops',
+    'btn-compute-pileup',
     'btn-normalize-ice',
     'btn-normalize-kr',
     'btn-compute-directionality',
@@ -348,7 +368,8 @@ function setButtonsDisabled(disabled: boolean): void {
 // Analysis runners (async, using worker)
 // ---------------------------------------------------------------------------
 
-async function runInsulation(ctx: AppContext): Promise<void> {
+/** Compute insulation in the worker and show it as tracks (also run by the DSL's `analyze`). */
+export async function runInsulation(ctx: AppContext): Promise<void> {
   const s = state.get();
   if (!s.map?.contactMap) return;
 
@@ -628,6 +649,135 @@ async function runDirectionality(ctx: AppContext): Promise<void> {
   updateResultsDisplay(ctx);
 }
 
+/**
+ * Re-run insulation, directionality, compartments, join support and
+ * misassembly detection at full resolution on the diagonal in view, as
+ * region tracks (see RegionAnalysisMode). Uses the panel's window size.
+ */
+export async function analyzeView(ctx: AppContext): Promise<void> {
+  if (computing) {
+    ctx.showToast('An analysis is already running');
+    return;
+  }
+  computing = true;
+  setButtonsDisabled(true);
+  try {
+    await runRegionAnalysis(ctx, getClient(), { windowSize: insulationWindowSize });
+  } finally {
+    computing = false;
+    setButtonsDisabled(false);
+    drainPendingRecompute(ctx);
+  }
+}
+
+/**
+ * Call loops in the worker and mark them on the map. The caller balances the
+ * map itself, the same way as the last normalization the user ran (ICE when
+ * none was).
+ */
+async function runLoopCalling(ctx: AppContext): Promise<void> {
+  const s = state.get();
+  if (!s.map?.contactMap) return;
+
+  const overviewSize = getOverviewSize();
+  const balance = cachedKR && cachedNormalizedMap === cachedKR.normalizedMatrix ? 'kr' : 'ice';
+  cachedLoops = await getClient().callLoops(s.map.contactMap, overviewSize, { balance });
+  setLoopMarkers(cachedLoops, overviewSize);
+  ctx.requestRender();
+
+  const n = cachedLoops.loops.length;
+  ctx.showToast(`Loops: ${n} call${n === 1 ? '' : 's'} (${balance === 'kr' ? 'Sinkhorn-Knopp' : 'ICE'}-balanced)`);
+  updateResultsDisplay(ctx);
+}
+
+/** Call loops from the panel or the command palette. */
+export async function detectLoops(ctx: AppContext): Promise<void> {
+  if (computing) {
+    ctx.showToast('An analysis is already running');
+    return;
+  }
+  computing = true;
+  setButtonsDisabled(true);
+  try {
+    await runLoopCalling(ctx);
+  } finally {
+    computing = false;
+    setButtonsDisabled(false);
+    drainPendingRecompute(ctx);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Pileups
+// ---------------------------------------------------------------------------
+
+/** The anchors a pileup source stands for, or why there are none. */
+function pileupAnchorSet(
+  source: PileupSource,
+  overviewSize: number,
+): { anchors: PileupAnchor[]; kind: PileupKind; label: string } | string {
+  const s = state.get();
+  switch (source) {
+    case 'tad':
+      if (!cachedInsulation) return 'Compute insulation first';
+      return { anchors: binAnchors(cachedInsulation.boundaries), kind: 'diagonal', label: 'TAD boundaries' };
+    case 'di':
+      if (!cachedDI) return 'Compute directionality first';
+      return { anchors: binAnchors(cachedDI.boundaries), kind: 'diagonal', label: 'DI boundaries' };
+    case 'loops':
+      if (!cachedLoops) return 'Call loops first';
+      return { anchors: cachedLoops.loops.map(({ row, col }) => ({ row, col })), kind: 'pair', label: 'loop calls' };
+    case 'features':
+      if (!pileupFeatures) return 'Load a BED or BEDPE file of anchors first';
+      return 'bed' in pileupFeatures
+        ? { anchors: bedAnchors(s, pileupFeatures.bed, overviewSize), kind: 'diagonal', label: pileupFeatures.name }
+        : { anchors: bedpeAnchors(s, pileupFeatures.bedpe, overviewSize), kind: 'pair', label: pileupFeatures.name };
+  }
+}
+
+/**
+ * Pile up the O/E map around the anchors from `source` and show the mean
+ * window in the results. Uses the balanced map when one was computed.
+ */
+export function runPileup(ctx: AppContext, source: PileupSource): void {
+  const s = state.get();
+  if (!s.map?.contactMap) return;
+
+  const overviewSize = getOverviewSize();
+  const set = pileupAnchorSet(source, overviewSize);
+  if (typeof set === 'string') {
+    ctx.showToast(set);
+    return;
+  }
+  const contactMap = cachedNormalizedMap ?? s.map.contactMap;
+  const result = computePileup(observedOverExpected(contactMap, overviewSize), overviewSize, set.anchors, set.kind);
+  if (result.count === 0) {
+    ctx.showToast(`Pileup: no ${set.label} clear of the map edge`);
+    return;
+  }
+  cachedPileup = { result, label: set.label };
+  const scores = result.scores.map((sc) => `${sc.name} ${sc.value.toFixed(2)}`).join(', ');
+  ctx.showToast(`Pileup of ${result.count} ${set.label}: ${scores}`);
+  updateResultsDisplay(ctx);
+}
+
+/** Load a BED (diagonal) or BEDPE (pair) file of pileup anchors. */
+export async function loadPileupFeatures(ctx: AppContext, file: File): Promise<void> {
+  const text = await file.text();
+  const name = file.name.replace(/\.(bedpe|bed)(\.txt)?$/i, '');
+  if (/\.bedpe(\.txt)?$/i.test(file.name)) {
+    const bedpe = parseBEDPE(text);
+    pileupFeatures = bedpe.length > 0 ? { name, bedpe } : null;
+    ctx.showToast(`Pileup anchors: ${bedpe.length} pairs from ${file.name}`);
+  } else {
+    const bed = parseBED(text);
+    pileupFeatures = bed.length > 0 ? { name, bed } : null;
+    ctx.showToast(`Pileup anchors: ${bed.length} features from ${file.name}`);
+  }
+  const select = document.getElementById('pileup-anchors') as HTMLSelectElement | null;
+  if (select && pileupFeatures) select.value = 'features';
+}
+
 // ---------------------------------------------------------------------------
 // Misassembly detection
 // ---------------------------------------------------------------------------
@@ -807,13 +957,162 @@ export function tagHaplotigCandidates(ctx: AppContext, confirmedOnly: boolean):
     ctx.showToast('No coverage-confirmed haplotigs to tag');
     return;
   }
-  // MetaTagManager is keyed by original contig index (see Sidebar tagging).
-  metaTags.setMany(picked.map((c) => c.originalIndex), 'haplotig');
+  // originalIndex is the contig ID at detection time; tag wherever that
+  // contig sits now (the order may have changed since).
+  const order = state.get().contigOrder;
+  tag(picked.map((c) => order.indexOf(c.originalIndex)).filter((i) => i >= 0), 'haplotig');
   ctx.updateSidebarContigList();
   updateResultsDisplay(ctx);
   ctx.showToast(`Tagged ${picked.length} contig${picked.length === 1 ? '' : 's'} as haplotig`);
 }
 
+/**
+ * Screen for contamination: composition outliers (GC and tetranucleotide
+ * profile) from the loaded FASTA, and Hi-C isolation (almost no contact to
+ * the rest of the assembly) on the display-order overview. Either signal
+ * alone can be innocent; a composition outlier that is also isolated is the
+ * high-confidence call. Without a FASTA only isolation is screened.
+ */
+export function runContaminationScreen(ctx: AppContext): void {
+  const s = state.get();
+  const original = s.map?.originalContactMap;
+  ctx.trackRenderer.removeTrack('Contaminants');
+  if (!original) {
+    cachedContaminants = null;
+    return;
+  }
+  const overviewSize = getOverviewSize();
+  const ranges = buildContigRanges();
+  if (overviewSize < 4 || ranges.length < 2) {
+    cachedContaminants = null;
+    return;
+  }
+
+  const matrix = reorderContactMap(original, s.map!.contigs, s.contigOrder, overviewSize);
+  cachedContaminants = detectContaminants(s.map!.contigs, s.contigOrder, {
+    sequences: ctx.referenceSequences,
+    transFractionByOrder: computeContigTransFractions(matrix, overviewSize, ranges),
+    ranges,
+  });
+
+  if (cachedContaminants.flaggedCount > 0) {
+    const ts = s.map!.textureSize;
+    const data = new Float32Array(ts);
+    for (const c of cachedContaminants.candidates) {
+      const r = ranges[c.orderIndex];
+      const midBin = (r.start + r.end) / 2;
+      const px = Math.min(ts - 1, Math.max(0, Math.round((midBin / overviewSize) * ts)));
+      data[px] = 1;
+    }
+    ctx.trackRenderer.addTrack({
+      name: 'Contaminants', type: 'marker', data, color: '#e74c3c', height: 14, visible: true,
+    });
+  }
+}
+
+/** Screen for contamination from the UI and report the outcome. */
+export function screenContaminants(ctx: AppContext): void {
+  if (!state.get().map?.originalContactMap) {
+    ctx.showToast('No map loaded');
+    return;
+  }
+  runContaminationScreen(ctx);
+  const result = cachedContaminants;
+  if (!result) {
+    ctx.showToast('Not enough contigs to screen for contamination');
+    return;
+  }
+  if (result.flaggedCount > 0) {
+    ctx.tracksVisible = true;
+    ctx.updateTrackConfigPanel();
+  }
+  const high = result.candidates.filter((c) => c.confidence === 'high').length;
+  const scope = result.compositionAvailable ? '' : ' (Hi-C isolation only; load a FASTA for composition)';
+  ctx.showToast(`Contamination: ${result.flaggedCount} candidate${result.flaggedCount === 1 ? '' : 's'}, ${high} high confidence${scope}`);
+  updateResultsDisplay(ctx);
+}
+
+/** Tag contamination candidates with the 'contaminant' meta tag. */
+export function tagContaminants(ctx: AppContext, candidates: ContaminantCandidate[]): void {
+  if (candidates.length === 0) {
+    ctx.showToast('No contamination candidates to tag');
+    return;
+  }
+  // originalIndex is the contig ID at detection time; tag wherever that
+  // contig sits now (the order may have changed since).
+  const order = state.get().contigOrder;
+  const indices = candidates.map((c) => order.indexOf(c.originalIndex)).filter((i) => i >= 0);
+  if (indices.length === 0) {
+    ctx.showToast('Contamination candidates are no longer in the assembly');
+    return;
+  }
+  tag(indices, 'contaminant');
+  ctx.updateSidebarContigList();
+  updateResultsDisplay(ctx);
+  ctx.showToast(`Tagged ${indices.length} contig${indices.length === 1 ? '' : 's'} as contaminant`);
+}
+
+/** Candidates not yet tagged as contaminants. */
+function untaggedContaminants(): ContaminantCandidate[] {
+  if (!cachedContaminants) return [];
+  return cachedContaminants.candidates.filter((c) => metaTags.getTag(c.originalIndex)?.tag !== 'contaminant');
+}
+
+function renderContaminantCards(ctx: AppContext): void {
+  const container = document.getElementById('contaminant-candidates');
+  if (!container || !cachedContaminants) return;
+  const candidates = cachedContaminants.candidates;
+
+  let html = '';
+  for (let i = 0; i < candidates.length; i++) {
+    const c = candidates[i];
+    const badgeColor = c.confidence === 'high' ? '#ff6b6b' : c.confidence === 'medium' ? '#ffd633' : 'var(--text-secondary)';
+    const tagged = metaTags.getTag(c.originalIndex)?.tag === 'contaminant';
+    html += `<div class="cut-suggestion-card" data-idx="${i}">
+      <div class="cut-suggestion-info">
+        <span class="cut-suggestion-name">${c.name} <span class="confidence-badge" style="color:${badgeColor}">${c.confidence}</span></span>
+        <span class="cut-suggestion-detail">${formatBp(c.length)} \u00b7 ${c.evidence.join(' \u00b7 ')}</span>
+      </div>
+      <div class="cut-suggestion-actions">
+        <button class="pattern-nav-btn contaminant-go-btn" data-idx="${i}" title="Go to contig">Go</button>
+        <button class="cut-accept-btn contaminant-tag-btn" data-idx="${i}" title="Tag as contaminant"${tagged ? ' disabled' : ''}>${tagged ? 'Tagged' : 'Tag'}</button>
+      </div>
+    </div>`;
+  }
+  const untagged = untaggedContaminants().length;
+  if (untagged > 1) {
+    html += `<button class="cut-accept-all-btn contaminant-tag-all-btn" id="btn-tag-all-contaminants">Tag All (${untagged})</button>`;
+  }
+  container.innerHTML = html;
+
+  container.querySelectorAll('.contaminant-go-btn').forEach(btn => {
+    btn.addEventListener('click', () => {
+      const idx = parseInt((btn as HTMLElement).dataset.idx ?? '-1', 10);
+      const c = cachedContaminants?.candidates[idx];
+      if (!c) return;
+      // Navigate to wherever the contig sits now.
+      const r = buildContigRanges()[state.get().contigOrder.indexOf(c.originalIndex)];
+      const overviewSize = getOverviewSize();
+      if (!r || overviewSize <= 0) return;
+      const mid = (r.start + r.end) / 2 / overviewSize;
+      const span = (r.end - r.start) / overviewSize;
+      ctx.camera.animateTo({ x: mid, y: mid, zoom: Math.min(10, 0.5 / Math.max(span, 0.01)) }, 300);
+    });
+  });
+
+  container.querySelectorAll('.contaminant-tag-btn').forEach(btn => {
+    btn.addEventListener('click', () => {
+      const idx = parseInt((btn as HTMLElement).dataset.idx ?? '-1', 10);
+      const c = cachedContaminants?.candidates[idx];
+      if (c) tagContaminants(ctx, [c]);
+    });
+  });
+
+  document.getElementById('btn-tag-all-contaminants')?.addEventListener('click', () => {
+    tagContaminants(ctx, untaggedContaminants());
+  });
+}
+
 export function runMisassemblyDetection(ctx: AppContext): void {
   if (!cachedInsulation || !cachedCompartments) return;
   const s = state.get();
@@ -1271,6 +1570,21 @@ function niceTickValues(min: number, max: number, count: number): number[] {
 // Results display
 // ---------------------------------------------------------------------------
 
+/**
+ * Health-score inputs from the cached analyses that do not depend on contig
+ * order (for comparing curation branches), or null if none of them ran.
+ */
+export function getSharedHealthInputs(): SharedHealthInputs | null {
+  if (!cachedDecay && !cachedCompartments && !cachedQuality && !cachedCheckerboard) return null;
+  return {
+    decayExponent: Number.isFinite(cachedDecay?.decayExponent) ? cachedDecay!.decayExponent : null,
+    decayRSquared: Number.isFinite(cachedDecay?.rSquared) ? cachedDecay!.rSquared : null,
+    eigenvalue: Number.isFinite(cachedCompartments?.eigenvalue) ? cachedCompartments!.eigenvalue : null,
+    cisTransRatio: Number.isFinite(cachedQuality?.cisTransRatio) ? cachedQuality!.cisTransRatio : null,
+    checkerboardScore: Number.isFinite(cachedCheckerboard?.score) ? cachedCheckerboard!.score : null,
+  };
+}
+
 function buildHealthScore(ctx: AppContext): HealthScoreResult | null {
   const metrics = ctx.metricsTracker.getLatest?.();
   if (!metrics) return null;
@@ -1486,6 +1800,18 @@ function updateResultsDisplay(ctx: AppContext): void {
     html += `<button class="analysis-btn" id="btn-auto-scaffold-analysis" style="width:100%;margin:4px 0;">Auto-assign Scaffolds</button>`;
   }
 
+  // Loop calls (rings on the map)
+  if (cachedLoops) {
+    const n = cachedLoops.loops.length;
+    html += `<div class="stats-row"><span>Loops</span><span style="color:#00ffaa;">${n} call${n === 1 ? '' : 's'}</span></div>`;
+  }
+
+  // Pileup (mean O/E window around the chosen anchors)
+  if (cachedPileup) {
+    html += `<div class="stats-row"><span>Pileup</span><span>${cachedPileup.result.count} ${cachedPileup.label}</span></div>`;
+    html += `<div class="pileup-container">${renderPileupSVG(cachedPileup.result, `Pileup: ${cachedPileup.label}`)}</div>`;
+  }
+
   // Join-support summary: weak contig junctions
   if (cachedJoinSupport && cachedJoinSupport.junctions.length > 0) {
     const jf = cachedJoinSupport.flaggedCount;
@@ -1508,6 +1834,18 @@ function updateResultsDisplay(ctx: AppContext): void {
     }
   }
 
+  // Contamination screen: ranked candidates with per-contig tagging
+  if (cachedContaminants) {
+    const total = cachedContaminants.flaggedCount;
+    const high = cachedContaminants.candidates.filter((c) => c.confidence === 'high').length;
+    const detail = total === 0 ? 'none flagged'
+      : cachedContaminants.compositionAvailable ? `${high} high / ${total}`
+        : `${total} by Hi-C only (no FASTA)`;
+    const color = high > 0 ? '#e74c3c' : 'var(--text-secondary)';
+    html += `<div class="stats-row"><span>Contaminants</span><span style="color:${color};">${detail}</span></div>`;
+    html += '<div id="contaminant-candidates"></div>';
+  }
+
   // Misassembly summary + suggest cuts
   const flagCount = misassemblyFlags.getFlaggedCount();
   if (flagCount > 0) {
@@ -1525,7 +1863,7 @@ function updateResultsDisplay(ctx: AppContext): void {
     const exportEl = document.getElementById('analysis-export-container');
     if (exportEl) {
       let exportHtml = '';
-      exportHtml += `<button class="analysis-btn" id="btn-export-all" style="width:100%;margin-bottom:4px;"${!(cachedInsulation || cachedDecay || cachedCompartments || cachedDI || cachedICE || cachedKR || cachedQuality || cachedSaddle) ? ' disabled title="Run analysis first"' : ''}>Export All</button>`;
+      exportHtml += `<button class="analysis-btn" id="btn-export-all" style="width:100%;margin-bottom:4px;"${!(cachedInsulation || cachedDecay || cachedCompartments || cachedDI || cachedICE || cachedKR || cachedQuality || cachedSaddle || cachedLoops || cachedPileup) ? ' disabled title="Run analysis first"' : ''}>Export All</button>`;
       exportHtml += `<button class="analysis-btn" id="btn-export-insulation"${!cachedInsulation ? ' disabled title="Run analysis first"' : ''}>Insulation <span class="export-fmt">(BedGraph)</span></button>`;
       exportHtml += `<button class="analysis-btn" id="btn-export-tad"${!cachedInsulation ? ' disabled title="Run analysis first"' : ''}>TAD Boundaries <span class="export-fmt">(BED)</span></button>`;
       exportHtml += `<button class="analysis-btn" id="btn-export-decay"${!cachedDecay ? ' disabled title="Run analysis first"' : ''}>P(s) <span class="export-fmt">(TSV)</span></button>`;
@@ -1535,6 +1873,8 @@ function updateResultsDisplay(ctx: AppContext): void {
       exportHtml += `<button class="analysis-btn" id="btn-export-kr"${!cachedKR ? ' disabled title="Run analysis first"' : ''}>SK Bias <span class="export-fmt">(BedGraph)</span></button>`;
       exportHtml += `<button class="analysis-btn" id="btn-export-quality"${!cachedQuality ? ' disabled title="Run analysis first"' : ''}>Quality <span class="export-fmt">(TSV)</span></button>`;
       exportHtml += `<button class="analysis-btn" id="btn-export-saddle"${!cachedSaddle ? ' disabled title="Run analysis first"' : ''}>Saddle <span class="export-fmt">(TSV)</span></button>`;
+      exportHtml += `<button class="analysis-btn" id="btn-export-loops"${!cachedLoops ? ' disabled title="Run analysis first"' : ''}>Loops <span class="export-fmt">(BEDPE)</span></button>`;
+      exportHtml += `<button class="analysis-btn" id="btn-export-pileup"${!cachedPileup ? ' disabled title="Run analysis first"' : ''}>Pileup <span class="export-fmt">(TSV)</span></button>`;
       exportEl.innerHTML = exportHtml || '<div style="color: var(--text-secondary); font-size: 11px;">Run analyses first to enable export.</div>';
     }
   }
@@ -1600,6 +1940,18 @@ function updateResultsDisplay(ctx: AppContext): void {
       ctx.showToast('Saddle plot TSV exported');
     }
   });
+  document.getElementById('btn-export-loops')?.addEventListener('click', () => {
+    if (cachedLoops) {
+      downloadLoopsBEDPE(cachedLoops, s, overviewSize);
+      ctx.showToast('Loop calls BEDPE exported');
+    }
+  });
+  document.getElementById('btn-export-pileup')?.addEventListener('click', () => {
+    if (cachedPileup) {
+      downloadPileupTSV(cachedPileup.result, cachedPileup.label, s);
+      ctx.showToast('Pileup TSV exported');
+    }
+  });
 
   // Wire export all button
   document.getElementById('btn-export-all')?.addEventListener('click', () => {
@@ -1612,6 +1964,8 @@ function updateResultsDisplay(ctx: AppContext): void {
     if (cachedKR) { downloadKRBiasBedGraph(cachedKR, s, overviewSize); count++; }
     if (cachedQuality) { downloadQualityTSV(cachedQuality, s); count++; }
     if (cachedSaddle) { downloadSaddleTSV(cachedSaddle); count++; }
+    if (cachedLoops) { downloadLoopsBEDPE(cachedLoops, s, overviewSize); count++; }
+    if (cachedPileup) { downloadPileupTSV(cachedPileup.result, cachedPileup.label, s); count++; }
     ctx.showToast(`Exported ${count} analysis file${count !== 1 ? 's' : ''}`);
   });
 
@@ -1687,6 +2041,9 @@ function updateResultsDisplay(ctx: AppContext): void {
     tagHaplotigCandidates(ctx, true);
   });
 
+  // Contamination review list
+  renderContaminantCards(ctx);
+
   // Wire baseline control buttons
   document.getElementById('btn-reset-baseline')?.addEventListener('click', () => {
     baselineDecay = null;
@@ -1886,6 +2243,16 @@ export function exportAnalysisByKey(ctx: AppContext, key: string): boolean {
       downloadSaddleTSV(cachedSaddle);
       ctx.showToast('Saddle plot TSV exported');
       return true;
+    case 'loops':
+      if (!cachedLoops) return false;
+      downloadLoopsBEDPE(cachedLoops, s, overviewSize);
+      ctx.showToast('Loop calls BEDPE exported');
+      return true;
+    case 'pileup':
+      if (!cachedPileup) return false;
+      downloadPileupTSV(cachedPileup.result, cachedPileup.label, s);
+      ctx.showToast('Pileup TSV exported');
+      return true;
     default:
       return false;
   }
@@ -2469,6 +2836,7 @@ export async function runAllAnalyses(ctx: AppContext): Promise<void> {
         <button class="analysis-btn" id="btn-compute-compartments">Compartments</button>
       </div>
       <button class="analysis-btn" id="btn-run-all-analysis" style="margin-bottom:6px;width:100%;">Compute All</button>
+      <button class="analysis-btn" id="btn-analyze-region" style="margin-bottom:6px;width:100%;" title="Insulation, directionality, compartments, join support and misassemblies at full resolution on the diagonal in view">Analyze View (full resolution)</button>
       <button class="analysis-btn" id="btn-compute-directionality" style="margin-bottom:2px;width:100%;">Directionality</button>
       <button class="analysis-btn" id="btn-compute-quality" style="margin-bottom:2px;width:100%;">Library Quality</button>
       <button class="analysis-btn" id="btn-normalize-ice" style="margin-bottom:2px;width:100%;background:#6c5ce7;color:#fff;">Normalize (ICE)</button>
@@ -2494,7 +2862,20 @@ export async function runAllAnalyses(ctx: AppContext): Promise<void> {
         <div id="evo2hic-fasta-hint" style="font-size:10px;color:var(--text-secondary);margin-bottom:4px;"></div>
       </div>
       <button class="analysis-btn" id="btn-detect-patterns" style="margin-bottom:6px;width:100%;background:#8e44ad;color:#fff;">Detect Patterns</button>
+      <button class="analysis-btn" id="btn-call-loops" style="margin-bottom:6px;width:100%;background:#00a884;color:#fff;" title="HiCCUPS-style dot calling on the balanced map">Call Loops</button>
+      <div style="display:flex;gap:4px;align-items:center;margin-bottom:4px;">
+        <select id="pileup-anchors" style="flex:1;min-width:0;" title="Anchors to pile up the O/E map around">
+          <option value="tad">TAD boundaries (insulation)</option>
+          <option value="di">DI boundaries</option>
+          <option value="loops">Loop calls</option>
+          <option value="features">Loaded BED/BEDPE</option>
+        </select>
+        <button class="analysis-btn" id="btn-load-pileup-features" style="white-space:nowrap;" title="Load BED (diagonal) or BEDPE (paired) anchors">Load…</button>
+        <input type="file" id="pileup-features-input" accept=".bed,.bedpe,.txt" style="display:none;">
+      </div>
+      <button class="analysis-btn" id="btn-compute-pileup" style="margin-bottom:6px;width:100%;background:#d35400;color:#fff;">Pileup</button>
       <button class="analysis-btn" id="btn-detect-centromeres" style="margin-bottom:6px;width:100%;background:#e056a0;color:#fff;">Detect Centromeres</button>
+      <button class="analysis-btn" id="btn-screen-contaminants" style="margin-bottom:6px;width:100%;background:#e74c3c;color:#fff;" title="GC / tetranucleotide outliers (needs a FASTA) and Hi-C isolation">Screen Contamination</button>
       <div id="fasta-hint" style="color:var(--text-secondary);font-size:10px;margin:4px 0;"></div>
     </div>
     <div class="analysis-tab-content" id="tab-results" style="display:none;">
@@ -2587,6 +2968,9 @@ export async function runAllAnalyses(ctx: AppContext): Promise<void> {
       });
     }
   });
+  document.getElementById('btn-analyze-region')?.addEventListener('click', () => {
+    void analyzeView(ctx);
+  });
   document.getElementById('btn-compute-quality')?.addEventListener('click', () => {
     if (!computing) {
       computing = true;
@@ -2896,6 +3280,26 @@ export async function runAllAnalyses(ctx: AppContext): Promise<void> {
     }
   });
 
+  document.getElementById('btn-call-loops')?.addEventListener('click', () => {
+    void detectLoops(ctx);
+  });
+
+  document.getElementById('btn-compute-pileup')?.addEventListener('click', () => {
+    const select = document.getElementById('pileup-anchors') as HTMLSelectElement | null;
+    runPileup(ctx, (select?.value ?? 'tad') as PileupSource);
+  });
+  const pileupInput = document.getElementById('pileup-features-input') as HTMLInputElement | null;
+  document.getElementById('btn-load-pileup-features')?.addEventListener('click', () => pileupInput?.click());
+  pileupInput?.addEventListener('change', async () => {
+    const file = pileupInput.files?.[0];
+    if (file) await loadPileupFeatures(ctx, file);
+    pileupInput.value = '';
+  });
+
+  document.getElementById('btn-screen-contaminants')?.addEventListener('click', () => {
+    screenContaminants(ctx);
+  });
+
   document.getElementById('btn-detect-centromeres')?.addEventListener('click', () => {
     const s = state.get();
     if (!s.map?.contactMap) return;
@@ -2956,6 +3360,8 @@ export function clearAnalysisTracks(ctx: AppContext): void {
   updateWeakJoinsBadge(0);
   cachedHaplotigs = null;
   ctx.trackRenderer.removeTrack('Haplotigs');
+  cachedContaminants = null;
+  ctx.trackRenderer.removeTrack('Contaminants');
   cachedInsulation = null;
   cachedCompartments = null;
   compartmentsOriented = false;
@@ -2970,6 +3376,10 @@ export function clearAnalysisTracks(ctx: AppContext): void {
   cachedSaddle = null;
   cachedCheckerboard = null;
   cachedCentromeres = null;
+  cachedLoops = null;
+  clearLoopMarkers();
+  cachedPileup = null;
+  pileupFeatures = null;
   cachedTelomere = null;
   cachedEnhancedMap = null;
   cachedEnhancedOverview = null;
@@ -3002,6 +3412,7 @@ export function clearAnalysisTracks(ctx: AppContext): void {
   ctx.trackRenderer.removeTrack('DI Boundaries');
   ctx.trackRenderer.removeTrack('Per-Contig Cis Ratio');
   ctx.trackRenderer.removeTrack('Telomere Repeats');
+  clearRegionAnalysis(ctx);
   ctx.updateTrackConfigPanel();
 }
 
@@ -3020,7 +3431,7 @@ function showRecomputingIndicator(visible: boolean): void {
  * Only triggers if at least one analysis has been previously computed.
  */
 export function scheduleAnalysisRecompute(ctx: AppContext): void {
-  if (!cachedInsulation && !cachedDecay && !cachedDI) return;
+  if (!cachedInsulation && !cachedDecay && !cachedDI && !cachedLoops) return;
 
   if (autoRecomputeTimer !== null) {
     clearTimeout(autoRecomputeTimer);
@@ -3060,6 +3471,7 @@ async function triggerAutoRecompute(ctx: AppContext): Promise<void> {
   if (cachedInsulation) tasks.push(runInsulation(ctx));
   if (cachedDecay) tasks.push(runDecay(ctx));
   if (cachedDI) tasks.push(runDirectionality(ctx));
+  if (cachedLoops) tasks.push(runLoopCalling(ctx));
   if (misassemblyActive && cachedCompartments) tasks.push(runCompartments(ctx));
 
   await Promise.all(tasks).finally(() => {
@@ -3068,6 +3480,7 @@ async function triggerAutoRecompute(ctx: AppContext): Promise<void> {
     }
     if (cachedJoinSupport) runJoinSupport(ctx);
     if (cachedHaplotigs) runHaplotigDetection(ctx);
+    if (cachedContaminants) runContaminationScreen(ctx);
     updateResultsDisplay(ctx);
 
     computing = false;
@@ -10,10 +10,13 @@ import type { LabelRenderer } from '../renderer/LabelRenderer';
 import type { TrackRenderer } from '../renderer/TrackRenderer';
 import type { ScaffoldOverlay } from '../renderer/ScaffoldOverlay';
 import type { WaypointOverlay } from '../renderer/WaypointOverlay';
+import type { PeerOverlay } from '../renderer/PeerOverlay';
+import type { RulerRenderer } from '../renderer/RulerRenderer';
 import type { Minimap } from '../renderer/Minimap';
 import type { DragReorder } from '../curation/DragReorder';
 import type { ScaffoldManager } from '../curation/ScaffoldManager';
 import type { WaypointManager } from '../curation/WaypointManager';
+import type { BranchManager } from '../curation/BranchManager';
 import type { MetricsTracker } from '../curation/QualityMetrics';
 import type { TileManager } from '../renderer/TileManager';
 import type { TileDecodeWorkerClient } from '../renderer/TileDecodeWorkerClient';
@@ -21,6 +24,8 @@ import type { ColorMapName } from '../renderer/ColorMaps';
 import type { InteractionMode } from '../core/State';
 import type { TutorialManager } from './TutorialManager';
 import type { ProgressScore } from '../analysis/CurationProgress';
+import type { CollabSession } from '../curation/CollabSession';
+import type { FileFingerprint } from '../io/AutosaveStore';
 
 export interface AppContext {
   // Renderers (readonly after init)
@@ -29,6 +34,8 @@ export interface AppContext {
   readonly trackRenderer: TrackRenderer;
   readonly scaffoldOverlay: ScaffoldOverlay;
   readonly waypointOverlay: WaypointOverlay;
+  readonly peerOverlay: PeerOverlay;
+  readonly rulerRenderer: RulerRenderer;
   readonly minimap: Minimap;
   camera: Camera; // mutable: reassigned during two-phase init in main.ts
 
@@ -36,6 +43,7 @@ export interface AppContext {
   readonly dragReorder: DragReorder;
   readonly scaffoldManager: ScaffoldManager;
   readonly waypointManager: WaypointManager;
+  readonly branchManager: BranchManager;
   readonly metricsTracker: MetricsTracker;
 
   // Tile streaming (reassigned during file loading)
@@ -65,6 +73,8 @@ export interface AppContext {
   currentWaypointId: number | null;
   animFrameId: number;
   referenceSequences: Map<string, string> | null;
+  /** Identity of the loaded contact map file for autosave; null for demo data. */
+  fileFingerprint: FileFingerprint | null;
   /** Curator track data computed from the reference FASTA (gaps, telomeres),
    *  in file order, keyed by classifiable name. Null until a FASTA is loaded. */
   fastaTrackData: Map<string, Int32Array> | null;
@@ -72,6 +82,8 @@ export interface AppContext {
   comparisonInvertedSnapshot: Map<number, boolean> | null;
   comparisonVisible: boolean;
   tutorialManager: TutorialManager | null;
+  /** Active collaborative session, or null when curating alone. */
+  collab: CollabSession | null;
   progressReference: number[] | null;
   previousProgress: ProgressScore | null;
 
@@ -0,0 +1,214 @@
+/**
+ * Autosave — throttled session snapshots in IndexedDB and the restore prompt.
+ *
+ * After curation events, the current session (SessionManager.exportSession
+ * plus any curation branches, but without analysis results, which can be
+ * large and are recomputable) is written to the AutosaveStore under the loaded
+ * file's fingerprint, at most once per AUTOSAVE_THROTTLE_MS. When a file with stored snapshots is loaded,
+ * a prompt offers the latest one and the earlier checkpoints; nothing is
+ * autosaved for that file until the prompt is answered, so a crash state is
+ * never overwritten by the fresh load.
+ */
+
+import type { AppContext } from './AppContext';
+import { state } from '../core/State';
+import { events } from '../core/EventBus';
+import { exportSession, exportSessionAnnotations } from '../io/SessionManager';
+import { metaTags } from '../curation/MetaTagManager';
+import { contigExclusion } from '../curation/ContigExclusion';
+import {
+  AutosaveStore,
+  IndexedDBAutosaveBackend,
+  MemoryAutosaveBackend,
+  type AutosaveRecord,
+  type FileFingerprint,
+} from '../io/AutosaveStore';
+import { applySession } from './ExportSession';
+import { showLoading, updateLoading, hideLoading } from './LoadingOverlay';
+import { relativeTime } from './UndoHistoryPanel';
+
+/** Minimum delay between a curation event and the snapshot it triggers. */
+const AUTOSAVE_THROTTLE_MS = 3000;
+
+let store: AutosaveStore | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+/** Identifies the current file load; snapshots from it replace each other. */
+let runId = '';
+/** True while the restore prompt for the current file is unanswered. */
+let restorePending = false;
+/** A save was requested while the prompt was open. */
+let savePendingAfterPrompt = false;
+
+function getStore(): AutosaveStore {
+  return (store ??= new AutosaveStore(
+    typeof indexedDB !== 'undefined' ? new IndexedDBAutosaveBackend() : new MemoryAutosaveBackend(),
+  ));
+}
+
+/** Replace the store (tests). */
+export function setAutosaveStore(s: AutosaveStore | null): void {
+  store = s;
+}
+
+// ---------------------------------------------------------------------------
+// Saving
+// ---------------------------------------------------------------------------
+
+/** Schedule a snapshot of the current session (throttled). */
+export function scheduleAutosave(ctx: AppContext): void {
+  if (restorePending) {
+    savePendingAfterPrompt = true;
+    return;
+  }
+  if (timer !== null) return;
+  timer = setTimeout(() => {
+    timer = null;
+    void autosaveNow(ctx);
+  }, AUTOSAVE_THROTTLE_MS);
+}
+
+/** Write a snapshot immediately. Resolves to the stored record, or null if skipped. */
+export async function autosaveNow(ctx: AppContext): Promise<AutosaveRecord | null> {
+  if (timer !== null) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  const s = state.get();
+  const fingerprint = ctx.fileFingerprint;
+  if (!s.map || !fingerprint || restorePending) return null;
+  try {
+    const session = exportSession(s, ctx.scaffoldManager, ctx.waypointManager);
+    session.annotations = exportSessionAnnotations(metaTags.getAllTags(), contigExclusion.getExcluded());
+    if (ctx.branchManager.hasBranchData()) {
+      session.branches = ctx.branchManager.exportBranches();
+    }
+    return await getStore().save(fingerprint, runId, session, state.undoMark());
+  } catch (err) {
+    console.warn('Autosave failed:', err);
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Restore prompt
+// ---------------------------------------------------------------------------
+
+function describeRecord(record: AutosaveRecord, latest: boolean): string {
+  const when = new Date(record.savedAt).toLocaleString();
+  const ops = `${record.operationCount} operation${record.operationCount === 1 ? '' : 's'}`;
+  return `${latest ? 'Latest autosave' : 'Checkpoint'} — ${when} (${relativeTime(record.savedAt)}), ${ops}`;
+}
+
+function closePrompt(ctx: AppContext): void {
+  document.getElementById('autosave-restore-modal')?.classList.remove('visible');
+  restorePending = false;
+  if (savePendingAfterPrompt) {
+    savePendingAfterPrompt = false;
+    scheduleAutosave(ctx);
+  }
+}
+
+async function restoreRecord(ctx: AppContext, record: AutosaveRecord): Promise<void> {
+  showLoading('Restoring autosave', 'Applying session...');
+  try {
+    await applySession(ctx, record.session);
+    updateLoading('Finalizing...', 98);
+    ctx.showToast(`Restored autosave from ${new Date(record.savedAt).toLocaleString()} (${record.operationCount} operations)`);
+  } catch (err) {
+    console.error('Autosave restore error:', err);
+    ctx.showToast(`Restore failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  } finally {
+    hideLoading();
+  }
+}
+
+/**
+ * Look up snapshots for the loaded file and, if any exist, show the restore
+ * prompt. Resolves to the snapshots found (newest first).
+ */
+export async function offerAutosaveRestore(ctx: AppContext): Promise<AutosaveRecord[]> {
+  const fingerprint: FileFingerprint | null = ctx.fileFingerprint;
+  if (!fingerprint) return [];
+  restorePending = true;
+  let records: AutosaveRecord[] = [];
+  try {
+    records = await getStore().list(fingerprint);
+  } catch (err) {
+    console.warn('Autosave lookup failed:', err);
+  }
+  // Another file may have loaded while we were reading.
+  if (ctx.fileFingerprint !== fingerprint) return records;
+
+  const modal = document.getElementById('autosave-restore-modal');
+  const list = document.getElementById('autosave-restore-list');
+  if (records.length === 0 || !modal || !list) {
+    closePrompt(ctx);
+    return records;
+  }
+
+  let selected = 0;
+  list.innerHTML = '';
+  records.forEach((record, i) => {
+    const item = document.createElement('label');
+    item.className = 'autosave-item';
+    const radio = document.createElement('input');
+    radio.type = 'radio';
+    radio.name = 'autosave-choice';
+    radio.checked = i === 0;
+    radio.addEventListener('change', () => { selected = i; });
+    const text = document.createElement('span');
+    text.textContent = describeRecord(record, i === 0);
+    item.append(radio, text);
+    list.appendChild(item);
+  });
+
+  const bind = (id: string, handler: () => void) => {
+    const btn = document.getElementById(id);
+    if (btn) btn.onclick = handler;
+  };
+  bind('btn-autosave-restore', () => {
+    closePrompt(ctx);
+    void restoreRecord(ctx, records[selected]);
+  });
+  bind('btn-autosave-fresh', () => closePrompt(ctx));
+  bind('btn-autosave-discard', () => {
+    if (!confirm('Delete all autosaves for this file?')) return;
+    closePrompt(ctx);
+    void getStore().clear(fingerprint).then(() => ctx.showToast('Autosaves discarded'));
+  });
+
+  modal.classList.add('visible');
+  return records;
+}
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+export function setupAutosave(ctx: AppContext): void {
+  const schedule = () => scheduleAutosave(ctx);
+  for (const event of ['curation:cut', 'curation:join', 'curation:invert', 'curation:move',
+    'curation:tag', 'curation:exclude', 'curation:undo', 'curation:redo', 'scaffold:changed',
+    'branch:changed'] as const) {
+    events.on(event, schedule);
+  }
+
+  events.on('file:loaded', () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    savePendingAfterPrompt = false;
+    runId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    void offerAutosaveRestore(ctx);
+  });
+
+  // Flush a pending snapshot when the tab is hidden or closed.
+  const flush = () => {
+    if (timer !== null) void autosaveNow(ctx);
+  };
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') flush();
+  });
+  window.addEventListener('pagehide', flush);
+}
@@ -0,0 +1,221 @@
+/**
+ * BranchPanel — sidebar list of curation branches and checkpoints.
+ *
+ * Clicking a branch switches to it; Checkpoint saves the current state under
+ * a name; Fork starts a new branch from the current state (or, from a
+ * checkpoint's row, from that checkpoint). Compare computes assembly metrics,
+ * weak joins and the health score for every branch and shows them side by
+ * side. The branches themselves live in src/curation/BranchManager.ts and are
+ * exposed as ctx.branchManager.
+ */
+
+import type { AppContext } from './AppContext';
+import { state } from '../core/State';
+import { events } from '../core/EventBus';
+import { compareBranchStates, type BranchComparisonRow } from '../analysis/BranchComparison';
+import { getSharedHealthInputs } from './AnalysisPanel';
+import { formatBp } from './Sidebar';
+import type { Branch } from '../curation/BranchManager';
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function opsLabel(n: number): string {
+  return `${n} op${n === 1 ? '' : 's'}`;
+}
+
+// ---------------------------------------------------------------------------
+// Actions
+// ---------------------------------------------------------------------------
+
+/**
+ * Branch switches replace the contig order and table under a live session's
+ * peers, who only receive individual operations. Refuse them while connected.
+ */
+function blockedByCollab(ctx: AppContext): boolean {
+  if (!ctx.collab) return false;
+  ctx.showToast('Leave the collaborative session before changing branches');
+  return true;
+}
+
+export function switchBranch(ctx: AppContext, id: number): void {
+  if (id === ctx.branchManager.getActiveBranch().id || blockedByCollab(ctx)) return;
+  try {
+    ctx.branchManager.switchTo(id);
+  } catch (err) {
+    ctx.showToast(`Switch failed: ${(err as Error).message}`);
+    return;
+  }
+  ctx.refreshAfterCuration();
+  ctx.showToast(`Switched to branch "${ctx.branchManager.getActiveBranch().name}"`);
+}
+
+export function forkBranch(ctx: AppContext, checkpointId?: number): void {
+  if (!state.get().map) {
+    ctx.showToast('Load a map before creating branches');
+    return;
+  }
+  if (blockedByCollab(ctx)) return;
+  const name = prompt('Name for the new branch:');
+  if (name === null) return;
+  let branch: Branch;
+  try {
+    branch = ctx.branchManager.fork(name, checkpointId !== undefined ? { checkpointId } : undefined);
+  } catch (err) {
+    ctx.showToast(`Fork failed: ${(err as Error).message}`);
+    return;
+  }
+  ctx.refreshAfterCuration();
+  ctx.showToast(`Created branch "${branch.name}"`);
+}
+
+export function createCheckpoint(ctx: AppContext): void {
+  if (!state.get().map) {
+    ctx.showToast('Load a map before creating checkpoints');
+    return;
+  }
+  const name = prompt('Checkpoint name:');
+  if (name === null) return;
+  const checkpoint = ctx.branchManager.createCheckpoint(name);
+  ctx.showToast(`Saved checkpoint "${checkpoint.name}"`);
+}
+
+/** Metrics for every branch, in branch order. */
+export function compareBranches(ctx: AppContext): Array<{ branch: Branch; row: BranchComparisonRow }> {
+  const s = state.get();
+  if (!s.map) return [];
+  const branches = ctx.branchManager.getBranches();
+  const inputs = branches.map((b) => {
+    const snapshot = ctx.branchManager.getSnapshot(b.id)!;
+    return {
+      contigs: snapshot.contigs,
+      contigOrder: snapshot.contigOrder,
+      operationCount: snapshot.undoStack.length,
+    };
+  });
+  const rows = compareBranchStates(inputs, {
+    originalContactMap: s.map.originalContactMap ?? null,
+    textureSize: s.map.textureSize,
+    shared: getSharedHealthInputs(),
+  });
+  return branches.map((branch, i) => ({ branch, row: rows[i] }));
+}
+
+// ---------------------------------------------------------------------------
+// Render
+// ---------------------------------------------------------------------------
+
+function renderComparison(ctx: AppContext): void {
+  const el = document.getElementById('branch-compare');
+  if (!el) return;
+  const results = compareBranches(ctx);
+  if (results.length < 2) {
+    el.innerHTML = '<div class="branch-empty">Fork a branch to compare</div>';
+    return;
+  }
+  const activeId = ctx.branchManager.getActiveBranch().id;
+  const bestHealth = Math.max(...results.map((r) => r.row.health.overall));
+  const cells = (fn: (row: BranchComparisonRow) => string) =>
+    results.map((r) => `<td>${fn(r.row)}</td>`).join('');
+
+  el.innerHTML = `<table class="branch-compare-table">
+    <tr><th></th>${results.map((r) =>
+      `<th class="${r.branch.id === activeId ? 'active' : ''}">${escapeHtml(r.branch.name)}</th>`).join('')}</tr>
+    <tr><td>Health</td>${results.map((r) =>
+      `<td class="${r.row.health.overall === bestHealth ? 'best' : ''}">${r.row.health.overall}</td>`).join('')}</tr>
+    <tr><td>N50</td>${cells((row) => formatBp(row.metrics.n50))}</tr>
+    <tr><td>Contigs</td>${cells((row) => String(row.metrics.contigCount))}</tr>
+    <tr><td>Weak joins</td>${cells((row) => (row.joinSupport ? String(row.joinSupport.flaggedCount) : '–'))}</tr>
+    <tr><td>Operations</td>${cells((row) => String(row.metrics.operationCount))}</tr>
+  </table>`;
+}
+
+export function updateBranchPanel(ctx: AppContext): void {
+  const listEl = document.getElementById('branch-list');
+  const checkpointsEl = document.getElementById('branch-checkpoints');
+  const compareEl = document.getElementById('branch-compare');
+  const manager = ctx.branchManager;
+  const active = manager.getActiveBranch();
+
+  if (listEl) {
+    listEl.innerHTML = manager.getBranches().map((b) => {
+      const isActive = b.id === active.id;
+      const ops = isActive ? state.get().undoStack.length : manager.getSnapshot(b.id)?.undoStack.length ?? 0;
+      const parent = b.parentId !== null ? manager.getBranch(b.parentId) : undefined;
+      const origin = b.forkedFrom ?? parent?.name;
+      return `<div class="branch-item${isActive ? ' active' : ''}" data-branch-id="${b.id}"
+        title="${origin ? `Forked from ${escapeHtml(origin)}. ` : ''}Double-click to rename">
+        <span class="branch-marker">${isActive ? '●' : '○'}</span>
+        <span class="branch-name">${escapeHtml(b.name)}</span>
+        <span class="branch-meta">${opsLabel(ops)}</span>
+        ${isActive ? '' : `<button class="branch-delete" data-delete-branch="${b.id}" title="Delete branch">×</button>`}
+      </div>`;
+    }).join('');
+  }
+
+  if (checkpointsEl) {
+    checkpointsEl.innerHTML = manager.getCheckpoints().map((c) => {
+      const branch = manager.getBranch(c.branchId);
+      return `<div class="branch-checkpoint">
+        <span class="branch-name">${escapeHtml(c.name)}</span>
+        <span class="branch-meta">${escapeHtml(branch?.name ?? '')} · ${opsLabel(c.operationCount)}</span>
+        <button class="branch-fork" data-fork-checkpoint="${c.id}" title="Fork a branch from this checkpoint">Fork</button>
+        <button class="branch-delete" data-delete-checkpoint="${c.id}" title="Delete checkpoint">×</button>
+      </div>`;
+    }).join('');
+  }
+
+  // A comparison describes the branches as they were; drop it when they change.
+  if (compareEl) compareEl.innerHTML = '';
+}
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+export function setupBranchPanel(ctx: AppContext): void {
+  document.getElementById('btn-branch-checkpoint')?.addEventListener('click', () => createCheckpoint(ctx));
+  document.getElementById('btn-branch-fork')?.addEventListener('click', () => forkBranch(ctx));
+  document.getElementById('btn-branch-compare')?.addEventListener('click', () => renderComparison(ctx));
+
+  const listEl = document.getElementById('branch-list');
+  listEl?.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    const del = target.closest<HTMLElement>('[data-delete-branch]');
+    if (del) {
+      const id = Number(del.dataset.deleteBranch);
+      const name = ctx.branchManager.getBranch(id)?.name ?? '';
+      if (confirm(`Delete branch "${name}" and its checkpoints?`)) ctx.branchManager.deleteBranch(id);
+      return;
+    }
+    const item = target.closest<HTMLElement>('[data-branch-id]');
+    if (item) switchBranch(ctx, Number(item.dataset.branchId));
+  });
+  listEl?.addEventListener('dblclick', (e) => {
+    const item = (e.target as HTMLElement).closest<HTMLElement>('[data-branch-id]');
+    if (!item) return;
+    const id = Number(item.dataset.branchId);
+    const name = prompt('Rename branch:', ctx.branchManager.getBranch(id)?.name ?? '');
+    if (name !== null) ctx.branchManager.renameBranch(id, name);
+  });
+
+  document.getElementById('branch-checkpoints')?.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    const fork = target.closest<HTMLElement>('[data-fork-checkpoint]');
+    if (fork) {
+      forkBranch(ctx, Number(fork.dataset.forkCheckpoint));
+      return;
+    }
+    const del = target.closest<HTMLElement>('[data-delete-checkpoint]');
+    if (del) ctx.branchManager.deleteCheckpoint(Number(del.dataset.deleteCheckpoint));
+  });
+
+  const update = () => updateBranchPanel(ctx);
+  for (const event of ['branch:changed', 'curation:cut', 'curation:join', 'curation:invert',
+    'curation:move', 'curation:undo', 'curation:redo'] as const) {
+    events.on(event, update);
+  }
+  events.on('file:loaded', () => ctx.branchManager.reset());
+  update();
+}
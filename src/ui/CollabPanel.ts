@@ -0,0 +1,219 @@
+/**
+ * CollabPanel — sidebar controls for a collaborative curation session.
+ *
+ * Joins a room on a WebSocket relay (see server/collab_relay), keeps the
+ * session's presence up to date from the pointer and the contig selection,
+ * lists the other curators with whether their contig order still matches
+ * ours, and reports conflicts. The session itself lives in
+ * src/curation/CollabSession.ts and is exposed to the renderer as ctx.collab.
+ */
+
+import type { AppContext } from './AppContext';
+import { state } from '../core/State';
+import { events } from '../core/EventBus';
+import { CollabSession, orderHash } from '../curation/CollabSession';
+import { WebSocketTransport, type CollabTransport } from '../io/CollabTransport';
+import type { PeerMarker } from '../renderer/PeerOverlay';
+
+const SERVER_KEY = 'openpretext-collab-server';
+const NAME_KEY = 'openpretext-collab-name';
+const DEFAULT_SERVER = 'ws://localhost:8765';
+/** Minimum interval between cursor broadcasts. */
+const CURSOR_THROTTLE_MS = 80;
+/** How many recent conflicts the panel lists. */
+const MAX_LISTED_CONFLICTS = 5;
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function readStored(key: string): string | null {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function writeStored(key: string, value: string): void {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    /* ignore */
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Session lifecycle
+// ---------------------------------------------------------------------------
+
+/**
+ * Start a session on `transport` as `name`. Leaves any current session first.
+ * Exported so tests and embedders can supply their own transport.
+ */
+export function joinCollabSession(ctx: AppContext, transport: CollabTransport, name: string): CollabSession {
+  leaveCollabSession(ctx);
+  const session = new CollabSession({
+    transport,
+    name,
+    scaffoldManager: ctx.scaffoldManager,
+    onChange: () => {
+      updateCollabPanel(ctx);
+      ctx.requestRender();
+    },
+  });
+  ctx.collab = session;
+  session.setSelection(state.get().selectedContigs);
+  updateCollabPanel(ctx);
+  return session;
+}
+
+export function leaveCollabSession(ctx: AppContext): void {
+  if (!ctx.collab) return;
+  ctx.collab.leave();
+  ctx.collab = null;
+  updateCollabPanel(ctx);
+  ctx.requestRender();
+}
+
+/**
+ * Resolve every peer's presence into overlay markers: selected contig names
+ * become spans in the local order, so a peer's selection is drawn where that
+ * contig sits here even if the two orders have diverged.
+ */
+export function peerMarkers(ctx: AppContext): PeerMarker[] {
+  if (!ctx.collab) return [];
+  const s = state.get();
+  const indexByName = new Map<string, number>();
+  if (s.map) {
+    s.contigOrder.forEach((id, i) => indexByName.set(s.map!.contigs[id].name, i));
+  }
+  return ctx.collab.getPeers().map(peer => {
+    const selection: PeerMarker['selection'] = [];
+    for (const name of peer.selection) {
+      const i = indexByName.get(name);
+      if (i === undefined || i >= ctx.contigBoundaries.length) continue;
+      selection.push({ start: i === 0 ? 0 : ctx.contigBoundaries[i - 1], end: ctx.contigBoundaries[i] });
+    }
+    return { name: peer.name, color: peer.color, cursor: peer.cursor, selection };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Render
+// ---------------------------------------------------------------------------
+
+export function updateCollabPanel(ctx: AppContext): void {
+  const statusEl = document.getElementById('collab-status');
+  const peersEl = document.getElementById('collab-peers');
+  const conflictsEl = document.getElementById('collab-conflicts');
+  const joinBtn = document.getElementById('btn-collab-join');
+  const session = ctx.collab;
+
+  if (joinBtn) joinBtn.textContent = session ? 'Leave Session' : 'Join Session';
+  for (const id of ['collab-server', 'collab-room', 'collab-name']) {
+    const input = document.getElementById(id) as HTMLInputElement | null;
+    if (input) input.disabled = session !== null;
+  }
+
+  if (!session) {
+    if (statusEl) statusEl.textContent = 'Not connected';
+    if (peersEl) peersEl.innerHTML = '';
+    if (conflictsEl) conflictsEl.innerHTML = '';
+    return;
+  }
+
+  const status = session.getStatus();
+  const peers = session.getPeers();
+  if (statusEl) {
+    statusEl.textContent = status === 'open'
+      ? `Connected as ${session.name} — ${peers.length} other curator${peers.length === 1 ? '' : 's'}`
+      : status === 'connecting' ? 'Connecting…' : 'Disconnected';
+  }
+
+  if (peersEl) {
+    const localHash = state.get().map ? orderHash() : '';
+    peersEl.innerHTML = peers.map(peer => {
+      const inSync = peer.orderHash === localHash;
+      return `<div class="collab-peer">
+        <span class="collab-swatch" style="background:${peer.color}"></span>
+        <span>${escapeHtml(peer.name)}</span>
+        <span class="collab-sync${inSync ? '' : ' diverged'}">${inSync ? 'in sync' : 'order differs'}</span>
+      </div>`;
+    }).join('');
+  }
+
+  if (conflictsEl) {
+    const recent = session.getConflicts().slice(-MAX_LISTED_CONFLICTS).reverse();
+    conflictsEl.innerHTML = recent.map(c =>
+      `<div class="collab-conflict" title="${escapeHtml(c.reason)}">` +
+      `${escapeHtml(c.description)}${c.author ? ` (${escapeHtml(c.author)})` : ''} ` +
+      `rejected by ${escapeHtml(c.rejectedBy)}: ${escapeHtml(c.reason)}</div>`,
+    ).join('');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+export function setupCollabPanel(ctx: AppContext): void {
+  const serverInput = document.getElementById('collab-server') as HTMLInputElement | null;
+  const roomInput = document.getElementById('collab-room') as HTMLInputElement | null;
+  const nameInput = document.getElementById('collab-name') as HTMLInputElement | null;
+  if (serverInput) serverInput.value = readStored(SERVER_KEY) ?? DEFAULT_SERVER;
+  if (nameInput) nameInput.value = readStored(NAME_KEY) ?? '';
+
+  document.getElementById('btn-collab-join')?.addEventListener('click', () => {
+    if (ctx.collab) {
+      leaveCollabSession(ctx);
+      ctx.showToast('Left collaborative session');
+      return;
+    }
+    if (!state.get().map) {
+      ctx.showToast('Load a map before joining a session');
+      return;
+    }
+    const server = serverInput?.value.trim() || DEFAULT_SERVER;
+    const room = roomInput?.value.trim() ?? '';
+    const name = nameInput?.value.trim() ?? '';
+    if (!room || !name) {
+      ctx.showToast('Enter a room and your name to join');
+      return;
+    }
+    writeStored(SERVER_KEY, server);
+    writeStored(NAME_KEY, name);
+    try {
+      joinCollabSession(ctx, new WebSocketTransport(server, room), name);
+      ctx.showToast(`Joining room "${room}" as ${name}`);
+    } catch (err) {
+      ctx.showToast(`Could not connect: ${(err as Error).message}`);
+    }
+  });
+
+  // Presence: pointer position (throttled) and selection.
+  const canvas = document.getElementById('map-canvas');
+  let lastCursorSent = 0;
+  canvas?.addEventListener('mousemove', () => {
+    if (!ctx.collab) return;
+    const now = Date.now();
+    if (now - lastCursorSent < CURSOR_THROTTLE_MS) return;
+    lastCursorSent = now;
+    const { x, y } = ctx.mouseMapPos;
+    ctx.collab.setCursor(x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null);
+  });
+  canvas?.addEventListener('mouseleave', () => ctx.collab?.setCursor(null));
+
+  state.select(s => s.selectedContigs, (sel) => ctx.collab?.setSelection(sel));
+  // Selection is stored by order index, so an order change can alter which
+  // contigs it names; resend it (which also carries the new order hash).
+  state.select(s => s.contigOrder, () => {
+    if (!ctx.collab) return;
+    ctx.collab.setSelection(state.get().selectedContigs);
+    updateCollabPanel(ctx);
+  });
+
+  events.on('collab:conflict', ({ author, description, reason }) => {
+    ctx.showToast(`${description}${author ? ` (${author})` : ''}: ${reason}`, 5000);
+  });
+}
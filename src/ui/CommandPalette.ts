@@ -10,7 +10,7 @@ import { SelectionManager } from '../curation/SelectionManager';
 import { loadExampleDataset, loadDemoData, loadSpecimen } from './FileLoading';
 import { loadSpecimenCatalog, getTutorialSpecimens } from '../data/SpecimenCatalog';
 import { performUndo, performRedo, invertSelectedContigs, cutAtCursorPosition, joinSelectedContigs, toggleContigExclusion } from './CurationActions';
-import { exportAGP, exportBEDFile, exportFASTAFile, takeScreenshot, saveSession } from './ExportSession';
+import { exportAGP, exportBEDFile, exportFASTAFile, exportPretextFile, takeScreenshot, saveSession } from './ExportSession';
 import { cycleColorMap } from './ColorMapControls';
 import { toggleComparisonMode } from './ComparisonMode';
 import { openBeforeAfterMap } from './BeforeAfterMap';
@@ -18,8 +18,11 @@ import { toggleScriptConsole } from './ScriptConsole';
 import { toggleShortcutsModal } from './ShortcutsModal';
 import { runBatchSelectByPattern, runBatchSelectBySize, runBatchCut, runBatchJoin, runBatchInvert, runSortByLength, runAutoSort, runAutoCut, undoLastBatch } from './BatchActions';
 import { togglePatternGallery } from './PatternGallery';
-import { exportAnalysisByKey, nextWeakJoin, prevWeakJoin } from './AnalysisPanel';
+import { runReferenceSort } from './ReferenceGuide';
+import { analyzeView, detectLoops, runPileup, screenContaminants, exportAnalysisByKey, nextWeakJoin, prevWeakJoin } from './AnalysisPanel';
 import { toggleWorkflowGuide } from './WorkflowGuide';
+import { focusLocusSearch } from './LocusSearchBox';
+import { cycleRulerFrame } from './Rulers';
 
 import type { SpecimenEntry } from '../data/SpecimenCatalog';
 
@@ -72,6 +75,7 @@ function getCommands(ctx: AppContext) {
     { name: 'Scaffold mode', shortcut: 'S', action: () => ctx.setMode('scaffold') },
     { name: 'Waypoint mode', shortcut: 'W', action: () => ctx.setMode('waypoint') },
     { name: 'Toggle grid', shortcut: 'L', action: () => state.update({ showGrid: !state.get().showGrid }) },
+    { name: 'Cycle ruler frame (contig / scaffold / off)', shortcut: 'R', keywords: 'axis coordinates bp ticks agp', action: () => cycleRulerFrame(ctx) },
     { name: 'Toggle sidebar', shortcut: 'I', action: () => { document.getElementById('sidebar')?.classList.toggle('visible'); ctx.updateSidebarContigList(); } },
     { name: 'Cycle color map', shortcut: '\u2191/\u2193', action: () => cycleColorMap(ctx) },
     { name: 'Toggle minimap', shortcut: 'M', action: () => ctx.minimap.toggle() },
@@ -79,6 +83,7 @@ function getCommands(ctx: AppContext) {
     // shortcut worth advertising; Home still works for anyone who has one.
     { name: 'Reset view (fit whole map)', shortcut: '0', keywords: 'home fit zoom out full map overview reset zoom', action: () => ctx.camera.resetView() },
     { name: 'Jump to diagonal', shortcut: 'J', action: () => ctx.camera.jumpToDiagonal() },
+    { name: 'Go to contig, scaffold or locus', shortcut: '/', keywords: 'search find goto jump position coordinates chr', action: () => focusLocusSearch() },
     { name: 'Undo', shortcut: '\u2318Z', action: () => performUndo(ctx) },
     { name: 'Redo', shortcut: '\u2318\u21e7Z', action: () => performRedo(ctx) },
     { name: 'Invert selected', shortcut: 'F', action: () => invertSelectedContigs(ctx) },
@@ -96,11 +101,15 @@ function getCommands(ctx: AppContext) {
     { name: 'Save session', shortcut: '', action: () => saveSession(ctx) },
     { name: 'Load session', shortcut: '', action: () => document.getElementById('session-file-input')?.click() },
     { name: 'Import AGP', shortcut: '', action: () => document.getElementById('agp-file-input')?.click() },
+    { name: 'Load reference alignment (PAF)', shortcut: '', keywords: 'synteny minimap2 related genome', action: () => document.getElementById('paf-file-input')?.click() },
+    { name: 'Reference-guided sort', shortcut: '', keywords: 'synteny paf order orient scaffold chromosome', action: () => runReferenceSort(ctx) },
+    { name: 'Reference-guided sort (ignore Hi-C)', shortcut: '', keywords: 'synteny paf order orient scaffold chromosome', action: () => runReferenceSort(ctx, false) },
     { name: 'Script console', shortcut: '`', action: () => toggleScriptConsole() },
     { name: 'Keyboard shortcuts', shortcut: '?', action: () => toggleShortcutsModal() },
     { name: 'Generate script from log', action: () => { document.getElementById('btn-generate-from-log')?.click(); toggleScriptConsole(); } },
     { name: 'Export BED', shortcut: '', action: () => exportBEDFile(ctx) },
     { name: 'Export FASTA', shortcut: '', action: () => exportFASTAFile(ctx) },
+    { name: 'Export .pretext', shortcut: '', keywords: 'pretextview write save map', action: () => exportPretextFile(ctx) },
     { name: 'Load reference FASTA', shortcut: '', action: () => document.getElementById('fasta-file-input')?.click() },
     { name: 'Load BedGraph track', shortcut: '', action: () => document.getElementById('track-file-input')?.click() },
     { name: 'Toggle contig exclusion', shortcut: 'H', action: () => toggleContigExclusion(ctx) },
@@ -140,6 +149,11 @@ function getCommands(ctx: AppContext) {
     { name: 'Pattern Gallery', shortcut: '', action: () => togglePatternGallery(ctx) },
     { name: 'Workflow Guide', shortcut: '', action: () => toggleWorkflowGuide() },
     { name: 'AI: Analyze Contact Map', shortcut: '', action: () => ctx.openAIAssist() },
+    { name: 'Analyze view at full resolution', shortcut: '', keywords: 'region zoom insulation tad misassembly join detail', action: () => void analyzeView(ctx) },
+    { name: 'Call loops', shortcut: '', keywords: 'dots hiccups peaks chromatin loop', action: () => void detectLoops(ctx) },
+    { name: 'Pileup around TAD boundaries', shortcut: '', keywords: 'aggregate average apa insulation', action: () => runPileup(ctx, 'tad') },
+    { name: 'Pileup around loop calls', shortcut: '', keywords: 'aggregate average apa dots', action: () => runPileup(ctx, 'loops') },
+    { name: 'Screen for contamination', shortcut: '', keywords: 'contaminant gc tetranucleotide isolated', action: () => screenContaminants(ctx) },
     { name: 'Next weak join', shortcut: 'B', action: () => nextWeakJoin(ctx) },
     { name: 'Previous weak join', shortcut: '⇧B', action: () => prevWeakJoin(ctx) },
     { name: 'Export Insulation BedGraph', shortcut: '', action: () => exportAnalysisByKey(ctx, 'insulation') },
@@ -150,6 +164,8 @@ function getCommands(ctx: AppContext) {
     { name: 'Export SK Bias BedGraph', shortcut: '', action: () => exportAnalysisByKey(ctx, 'kr') },
     { name: 'Export Quality TSV', shortcut: '', action: () => exportAnalysisByKey(ctx, 'quality') },
     { name: 'Export Saddle TSV', shortcut: '', action: () => exportAnalysisByKey(ctx, 'saddle') },
+    { name: 'Export Loops BEDPE', shortcut: '', action: () => exportAnalysisByKey(ctx, 'loops') },
+    { name: 'Export Pileup TSV', shortcut: '', action: () => exportAnalysisByKey(ctx, 'pileup') },
   ];
 }
 
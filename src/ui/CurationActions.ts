@@ -7,6 +7,7 @@ import { state } from '../core/State';
 import { CurationEngine, undoBatch } from '../curation/CurationEngine';
 import { SelectionManager } from '../curation/SelectionManager';
 import { contigExclusion } from '../curation/ContigExclusion';
+import { snapCutToGap } from '../curation/GapSnap';
 
 export function performUndo(ctx: AppContext): void {
   // When the most recent operation belongs to a batch (a script run, autosort,
@@ -48,6 +49,12 @@ export function invertSelectedContigs(ctx: AppContext): void {
   ctx.showToast(`Inverted ${selected.length} contig(s)`);
 }
 
+/**
+ * Cut the hovered contig at the cursor, in base pairs. The cursor's map
+ * position is continuous, so the cut is placed at the base under it rather
+ * than on a texture pixel. With a FASTA loaded the cut snaps to an N-run
+ * within one texture pixel of the cursor.
+ */
 export function cutAtCursorPosition(ctx: AppContext): void {
   if (ctx.currentMode !== 'edit') return;
   const s = state.get();
@@ -62,17 +69,22 @@ export function cutAtCursorPosition(ctx: AppContext): void {
 
   const contigId = s.contigOrder[ctx.hoveredContigIndex];
   const contig = s.map.contigs[contigId];
-  const contigPixelLength = contig.pixelEnd - contig.pixelStart;
-  const pixelOffset = Math.round(fraction * contigPixelLength);
+  let bpOffset = Math.round(fraction * contig.length);
+  let snapped = false;
+  if (ctx.referenceSequences && bpOffset > 0 && bpOffset < contig.length) {
+    const snap = snapCutToGap(contig, bpOffset, ctx.referenceSequences);
+    bpOffset = snap.bpOffset;
+    snapped = snap.gap !== null;
+  }
 
-  if (pixelOffset <= 0 || pixelOffset >= contigPixelLength) {
+  if (bpOffset <= 0 || bpOffset >= contig.length || contig.pixelEnd - contig.pixelStart < 2) {
     ctx.showToast('Cannot cut at edge of contig');
     return;
   }
 
-  CurationEngine.cut(ctx.hoveredContigIndex, pixelOffset);
+  CurationEngine.cutAtBp(ctx.hoveredContigIndex, bpOffset);
   SelectionManager.clearSelection();
-  ctx.showToast(`Cut: ${contig.name} at offset ${pixelOffset}`);
+  ctx.showToast(`Cut: ${contig.name} at ${bpOffset.toLocaleString('en-US')} bp${snapped ? ' (snapped to gap)' : ''}`);
 }
 
 export function joinSelectedContigs(ctx: AppContext): void {
@@ -108,14 +120,12 @@ export function toggleContigExclusion(ctx: AppContext): void {
   const order = state.get().contigOrder;
   const selected = SelectionManager.getSelectedIndices();
   if (selected.length > 0) {
-    // Exclusion is keyed by contig identity, so map order positions to IDs.
-    for (const idx of selected) {
-      contigExclusion.toggle(order[idx]);
-    }
+    CurationEngine.toggleExcluded(selected);
     ctx.showToast(`Toggled exclusion on ${selected.length} contig(s)`);
   } else if (ctx.hoveredContigIndex >= 0) {
-    const wasExcluded = contigExclusion.toggle(order[ctx.hoveredContigIndex]);
-    ctx.showToast(wasExcluded ? 'Contig excluded' : 'Contig included');
+    CurationEngine.toggleExcluded([ctx.hoveredContigIndex]);
+    const nowExcluded = contigExclusion.isExcluded(order[ctx.hoveredContigIndex]);
+    ctx.showToast(nowExcluded ? 'Contig excluded' : 'Contig included');
   } else {
     ctx.showToast('Hover or select contigs to exclude');
   }
@@ -13,19 +13,29 @@ import { autoSortContigs, autoCutContigs } from '../curation/BatchOperations';
 import { calculateMetrics } from '../curation/QualityMetrics';
 import { misassemblyFlags } from '../curation/MisassemblyFlags';
 import { contigExclusion } from '../curation/ContigExclusion';
-import { parseScript, type ParseError } from '../scripting/ScriptParser';
+import { parseScript, type ParseError, type ScriptCommand } from '../scripting/ScriptParser';
 import { executeScript, type ScriptContext, type ScriptResult, type QueryAPI } from '../scripting/ScriptExecutor';
+import { createScriptAnalyses } from '../scripting/ScriptAnalysis';
+import { getSharedHealthInputs, runHaplotigDetection, runInsulation, runJoinSupport } from './AnalysisPanel';
 
 /**
- * Read-only queries for `assert` / `select where`, backed by the live metrics
- * and flag singletons. Safe in dry-run (never mutates).
+ * Read-only queries for `assert` / `select where` / `analyze`, backed by the
+ * live metrics and flag singletons and, for the analyses, ScriptAnalysis on
+ * the live state. The health score takes its Hi-C components from whatever
+ * the Analysis panel has already computed. Safe in dry-run (never mutates).
  */
 function buildQuery(ctx: AppContext): QueryAPI {
   const metrics = () => {
     const s = state.get();
     return calculateMetrics(s.map?.contigs ?? [], s.contigOrder);
   };
+  const analyses = createScriptAnalyses({
+    get: () => state.get(),
+    sequences: () => ctx.referenceSequences,
+    shared: getSharedHealthInputs,
+  });
   return {
+    ...analyses,
     contigCount: () => state.get().contigOrder.length,
     n50: () => metrics().n50,
     totalLength: () => metrics().totalLength,
@@ -51,13 +61,46 @@ export interface DSLRunOutcome {
   results: ScriptResult[];
   /** Messages emitted by `echo` commands, in execution order. */
   echoMessages: string[];
-  /** Number of commands that parsed successfully (>= results.length if execution halted early). */
+  /** Number of top-level statements that parsed successfully. */
   commandCount: number;
+  /**
+   * Top-level statements that never started because execution halted on a
+   * failure. Not derivable from `results`, which holds one entry per command
+   * run, loop bodies included.
+   */
+  notRun: number;
+}
+
+/** Top-level statements starting after the last result's line (the one that halted the run). */
+function countNotRun(commands: ScriptCommand[], results: ScriptResult[]): number {
+  const last = results[results.length - 1];
+  if (!last || last.success) return 0;
+  return commands.filter((c) => c.line > last.line).length;
+}
+
+/**
+ * Have `analyze` also run the Analysis panel's own version, so a script's
+ * analyses show up as tracks and panel results just as the buttons' do.
+ */
+function withAnalysisDisplay(ctx: AppContext, query: QueryAPI): QueryAPI {
+  return {
+    ...query,
+    analyze: (kind) => {
+      const summary = query.analyze(kind);
+      switch (kind) {
+        case 'insulation': void runInsulation(ctx); break;
+        case 'joinsupport': runJoinSupport(ctx); break;
+        case 'haplotigs': runHaplotigDetection(ctx); break;
+      }
+      return summary;
+    },
+  };
 }
 
 /**
  * Build the ScriptContext wiring the DSL to the live application: curation,
- * selection, scaffolds, batch ops, and view navigation (the real Camera).
+ * selection, scaffolds, batch ops, waypoints, and view navigation (the real
+ * Camera).
  */
 export function buildScriptContext(ctx: AppContext, onEcho: (message: string) => void): ScriptContext {
   return {
@@ -71,7 +114,9 @@ export function buildScriptContext(ctx: AppContext, onEcho: (message: string) =>
       resetView: () => ctx.camera.resetView(),
       goto: (x, y) => ctx.camera.animateTo({ x, y }),
     },
-    query: buildQuery(ctx),
+    query: withAnalysisDisplay(ctx, buildQuery(ctx)),
+    waypoints: ctx.waypointManager,
+    sequences: ctx.referenceSequences,
     onEcho,
   };
 }
@@ -127,6 +172,7 @@ export function runDSL(
     results,
     echoMessages,
     commandCount: parseResult.commands.length,
+    notRun: countNotRun(parseResult.commands, results),
   };
 }
 
@@ -142,7 +188,10 @@ export function runDSL(
 function buildDryRunContext(ctx: AppContext, onEcho: (message: string) => void): ScriptContext {
   const noop = () => {};
   return {
-    curation: { cut: noop, join: noop, invert: noop, move: noop },
+    curation: {
+      cut: noop, cutAtBp: noop, join: noop, invert: noop, move: noop,
+      tag: noop, untag: noop, setExcluded: noop,
+    },
     selection: { selectSingle: noop, selectRange: noop, selectAll: noop, selectIndices: noop, clearSelection: noop },
     scaffold: {
       createScaffold: () => -1,
@@ -157,6 +206,11 @@ function buildDryRunContext(ctx: AppContext, onEcho: (message: string) => void):
     },
     nav: { zoomToContigRange: noop, resetView: noop, goto: noop },
     query: buildQuery(ctx),
+    waypoints: {
+      addWaypoint: (mapX, mapY, label) => ({ id: -1, mapX, mapY, label: label ?? 'new waypoint', color: '', timestamp: 0 }),
+      removeWaypoint: noop,
+      getAllWaypoints: () => ctx.waypointManager.getAllWaypoints(),
+    },
     onEcho,
   };
 }
@@ -181,6 +235,7 @@ export function dryRunValidate(ctx: AppContext, text: string): DSLRunOutcome {
     results,
     echoMessages,
     commandCount: parseResult.commands.length,
+    notRun: 0,
   };
 }
 
@@ -266,6 +321,7 @@ export function previewEffects(
       results,
       echoMessages,
       commandCount: parseResult.commands.length,
+      notRun: 0,
     },
     diff,
   };
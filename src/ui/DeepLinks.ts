@@ -0,0 +1,205 @@
+/**
+ * DeepLinks — restore the view a shared URL describes, and keep the URL
+ * describing the current view (see io/DeepLink.ts for the format).
+ *
+ * On startup (and on `hashchange`) the hash's display settings apply at once
+ * and its file, if any, is loaded: a specimen through the SpecimenCatalog
+ * loader, a URL through loadContactMap. The locus and zoom wait for the next
+ * `file:loaded`, so a link without a file applies to the next one opened.
+ *
+ * While a map is open the hash follows the camera, color map, gamma and
+ * overview mode (throttled, via history.replaceState so it adds no history
+ * entries). It is not rewritten while a link is still waiting to apply, so
+ * the link survives a slow download.
+ */
+
+import type { AppContext } from './AppContext';
+import { state } from '../core/State';
+import { events } from '../core/EventBus';
+import { loadSpecimenCatalog } from '../data/SpecimenCatalog';
+import {
+  cameraToLink,
+  formatDeepLink,
+  parseDeepLink,
+  resolveLinkView,
+  type DeepLink,
+} from '../io/DeepLink';
+import { loadContactMap, loadSpecimen } from './FileLoading';
+import { applyOverviewMode } from './EventWiring';
+import { syncColormapDropdown, syncGammaSlider, syncOverviewModeSelect } from './ColorMapControls';
+
+/** Delay between a view change and the hash update it triggers. */
+const HASH_UPDATE_DELAY_MS = 300;
+
+/** Display settings the hash omits when they are at these defaults. */
+const DEFAULT_COLORMAP = 'red-white';
+const DEFAULT_GAMMA = 0.35;
+
+/** Where the open file came from, when a link can name it. */
+type LinkSource = Pick<DeepLink, 'specimen' | 'url'>;
+
+let source: LinkSource = {};
+/** A link whose locus waits for its file to load. */
+let pending: DeepLink | null = null;
+/** The source the pending link is loading, to recognize its `file:loaded`. */
+let expected: LinkSource = {};
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+// ---------------------------------------------------------------------------
+// Reading links
+// ---------------------------------------------------------------------------
+
+/** Apply a link's color map, gamma and overview mode. */
+function applyDisplaySettings(ctx: AppContext, link: DeepLink): void {
+  if (link.colormap && link.colormap !== ctx.currentColorMap) {
+    ctx.currentColorMap = link.colormap;
+    ctx.renderer.setColorMap(link.colormap);
+    syncColormapDropdown(link.colormap);
+    events.emit('colormap:changed', { name: link.colormap });
+  }
+  if (link.gamma !== undefined) {
+    state.update({ gamma: link.gamma });
+    syncGammaSlider(link.gamma);
+  }
+  if (link.overview && link.overview !== state.get().overviewMode) {
+    state.update({ overviewMode: link.overview });
+    syncOverviewModeSelect(link.overview);
+    // With no map yet, FileLoading applies the mode once one loads.
+    if (state.get().map) void applyOverviewMode(ctx);
+  }
+}
+
+/** Move the camera to a link's locus. Tells the user when it names a contig that is not loaded. */
+function applyLocus(ctx: AppContext, link: DeepLink): void {
+  let view;
+  try {
+    view = resolveLinkView(link, state.get());
+  } catch (err) {
+    ctx.showToast(`Link: ${(err as Error).message}`);
+    return;
+  }
+  if (!view) return;
+  if (view.kind === 'region') ctx.camera.zoomToRegion(view.x1, view.y1, view.x2, view.y2);
+  else ctx.camera.jumpTo({ x: view.x, y: view.y, zoom: view.zoom });
+}
+
+function sameSource(a: LinkSource, b: LinkSource): boolean {
+  return a.specimen === b.specimen && a.url === b.url;
+}
+
+/** Apply a link: settings now, the locus once its file is open. */
+export async function applyDeepLink(ctx: AppContext, link: DeepLink): Promise<void> {
+  applyDisplaySettings(ctx, link);
+  const linkSource: LinkSource = link.specimen ? { specimen: link.specimen } : link.url ? { url: link.url } : {};
+  const needsLoad = (linkSource.specimen || linkSource.url) && !(state.get().map && sameSource(linkSource, source));
+
+  if (!needsLoad) {
+    if (state.get().map) applyLocus(ctx, link);
+    else pending = link;
+    return;
+  }
+
+  pending = link;
+  expected = linkSource;
+  if (linkSource.specimen) {
+    const catalog = await loadSpecimenCatalog().catch(() => null);
+    const specimen = catalog?.specimens.find((s) => s.id === linkSource.specimen);
+    if (!specimen) {
+      pending = null;
+      ctx.showToast(`Link: unknown specimen '${linkSource.specimen}'`);
+      return;
+    }
+    await loadSpecimen(ctx, specimen);
+    // loadSpecimen reports its own failures; one leaves the link unapplied.
+    if (pending === link) { pending = null; expected = {}; }
+  } else {
+    await loadContactMap(ctx, linkSource.url!).catch((err: Error) => {
+      pending = null;
+      ctx.showToast(`Link: could not load ${linkSource.url} — ${err.message}`);
+    });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Writing links
+// ---------------------------------------------------------------------------
+
+/** The link describing the current view. */
+export function currentDeepLink(ctx: AppContext): DeepLink {
+  const s = state.get();
+  const link: DeepLink = { ...source, ...cameraToLink(ctx.camera.getState(), s) };
+  if (ctx.currentColorMap !== DEFAULT_COLORMAP) link.colormap = ctx.currentColorMap;
+  if (Math.abs(s.gamma - DEFAULT_GAMMA) > 1e-6) link.gamma = s.gamma;
+  if (s.overviewMode !== 'clean') link.overview = s.overviewMode;
+  return link;
+}
+
+function writeHash(ctx: AppContext): void {
+  timer = null;
+  if (pending) return;
+  const hash = state.get().map ? formatDeepLink(currentDeepLink(ctx)) : '';
+  if (hash === window.location.hash.replace(/^#/, '')) return;
+  const url = window.location.pathname + window.location.search + (hash ? `#${hash}` : '');
+  history.replaceState(history.state, '', url);
+}
+
+function scheduleHashUpdate(ctx: AppContext): void {
+  if (timer !== null) clearTimeout(timer);
+  timer = setTimeout(() => writeHash(ctx), HASH_UPDATE_DELAY_MS);
+}
+
+/** The catalog specimen a loaded file is, by its asset name. */
+async function specimenFor(filename: string): Promise<string | undefined> {
+  const catalog = await loadSpecimenCatalog().catch(() => null);
+  return catalog?.specimens.find((s) => s.releaseAsset === filename)?.id;
+}
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+export function setupDeepLinks(ctx: AppContext): void {
+  events.on('file:loaded', ({ filename }) => {
+    const link = pending;
+    pending = null;
+    if (link && (expected.specimen || expected.url)) {
+      source = expected;
+    } else {
+      source = {};
+      void specimenFor(filename).then((id) => {
+        if (id && state.get().map?.filename === filename) {
+          source = { specimen: id };
+          scheduleHashUpdate(ctx);
+        }
+      });
+    }
+    expected = {};
+    // After EventWiring's reset to the full view.
+    if (link) applyLocus(ctx, link);
+    scheduleHashUpdate(ctx);
+  });
+  events.on('file:error', () => {
+    pending = null;
+    expected = {};
+  });
+
+  events.on('camera:changed', () => scheduleHashUpdate(ctx));
+  events.on('colormap:changed', () => scheduleHashUpdate(ctx));
+  state.select((s) => s.gamma, () => scheduleHashUpdate(ctx));
+  state.select((s) => s.overviewMode, () => scheduleHashUpdate(ctx));
+  // Curation changes what lies under the camera. Returning to the landing
+  // screen clears the map, and the hash goes with it.
+  state.select((s) => s.contigOrder, () => scheduleHashUpdate(ctx));
+  state.select((s) => s.map, (map) => {
+    if (!map) source = {};
+    scheduleHashUpdate(ctx);
+  });
+
+  window.addEventListener('hashchange', () => {
+    void applyDeepLink(ctx, parseDeepLink(window.location.hash));
+  });
+
+  if (window.location.hash.length > 1) {
+    void applyDeepLink(ctx, parseDeepLink(window.location.hash));
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * EmbedBridge — the frame side of an embedded viewer (see embed/Viewer.ts).
+ *
+ * In embed mode (`?embed=<host origin>`) the app hides its chrome and takes
+ * requests from the parent window: load a map, go to a contig, report state,
+ * run a DSL script. It forwards curation, file, camera and scaffold events
+ * back. Only messages from the parent window at the declared origin are
+ * answered, and everything posted is addressed to that origin, so a page that
+ * frames the app without declaring itself sees nothing.
+ *
+ * The app keeps its state in module singletons, so each embedded viewer is
+ * its own document; this is what lets several run on one page.
+ */
+
+import type { AppContext } from './AppContext';
+import { state } from '../core/State';
+import { events } from '../core/EventBus';
+import { contigExclusion } from '../curation/ContigExclusion';
+import { resolveContigRef, contigNormRange } from '../scripting/ScriptExecutor';
+import { loadContactMap } from './FileLoading';
+import { runDSL } from './DSLRunner';
+import {
+  EMBED_PARAM,
+  EMBED_SOURCE,
+  VIEWER_EVENTS,
+  isEmbedMessage,
+  type EmbedMessage,
+  type EmbedRequest,
+  type ViewerFileInfo,
+  type ViewerMethod,
+  type ViewerMethods,
+  type ViewerScriptOutcome,
+  type ViewerState,
+} from '../embed/EmbedProtocol';
+
+/** Whether the page was opened as an embedded viewer. */
+export function isEmbedMode(): boolean {
+  return new URLSearchParams(window.location.search).has(EMBED_PARAM);
+}
+
+/** The host origin declared in the URL, or null when it is missing or not an origin. */
+function hostOrigin(): string | null {
+  const value = new URLSearchParams(window.location.search).get(EMBED_PARAM);
+  if (!value) return null;
+  try {
+    const origin = new URL(value).origin;
+    return origin === 'null' ? null : origin;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Methods
+// ---------------------------------------------------------------------------
+
+/** A serializable snapshot of the loaded assembly and view. */
+export function getViewerState(ctx: AppContext): ViewerState {
+  const s = state.get();
+  const contigs = s.map
+    ? s.contigOrder.map((id) => {
+      const c = s.map!.contigs[id];
+      return {
+        name: c.name,
+        length: c.length,
+        inverted: c.inverted,
+        scaffold: c.scaffoldId !== null ? ctx.scaffoldManager.getScaffold(c.scaffoldId)?.name ?? null : null,
+        excluded: contigExclusion.isExcluded(id),
+      };
+    })
+    : [];
+  const { x, y, zoom } = ctx.camera.getState();
+  return {
+    filename: s.map?.filename ?? null,
+    contigs,
+    scaffolds: ctx.scaffoldManager.getAllScaffolds().map(({ id, name }) => ({ id, name })),
+    camera: { x, y, zoom },
+    undoDepth: s.undoStack.length,
+    redoDepth: s.redoStack.length,
+  };
+}
+
+/** Zoom to a contig by name or display-order index, as the DSL's `zoom` does. */
+export function gotoContig(ctx: AppContext, contig: string | number): void {
+  const orderIndex = resolveContigRef(
+    typeof contig === 'number' ? { kind: 'index', value: contig } : { kind: 'name', value: contig },
+    state,
+  );
+  const { startNorm, endNorm } = contigNormRange(orderIndex, state.get());
+  ctx.camera.zoomToRegion(startNorm, startNorm, endNorm, endNorm);
+}
+
+function runScriptForHost(ctx: AppContext, text: string): ViewerScriptOutcome {
+  const outcome = runDSL(ctx, text);
+  return {
+    ok: outcome.parseErrors.length === 0 && outcome.results.every((r) => r.success),
+    ...outcome,
+  };
+}
+
+async function loadForHost(ctx: AppContext, source: string | ArrayBuffer, filename?: string): Promise<ViewerFileInfo> {
+  await loadContactMap(ctx, source, filename);
+  const map = state.get().map!;
+  return { filename: map.filename, contigs: map.contigs.length, textureSize: map.textureSize };
+}
+
+type Handlers = { [M in ViewerMethod]: (...args: ViewerMethods[M]['args']) => ViewerMethods[M]['result'] | Promise<ViewerMethods[M]['result']> };
+
+function methodHandlers(ctx: AppContext): Handlers {
+  return {
+    load: (source, filename) => loadForHost(ctx, source, filename),
+    goto: (contig) => gotoContig(ctx, contig),
+    getState: () => getViewerState(ctx),
+    runScript: (text) => runScriptForHost(ctx, text),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+/**
+ * Start the bridge when the page is an embedded viewer. Without a valid host
+ * origin the chrome is still hidden (a display-only embed) but no messages
+ * are exchanged.
+ */
+export function setupEmbedBridge(ctx: AppContext): void {
+  if (!isEmbedMode()) return;
+  document.body.classList.add('embed');
+
+  const origin = hostOrigin();
+  const parent = window.parent;
+  if (!origin || parent === window) return;
+
+  const post = (message: EmbedMessage) => parent.postMessage(message, origin);
+  const handlers = methodHandlers(ctx);
+
+  window.addEventListener('message', (e: MessageEvent) => {
+    if (e.source !== parent || e.origin !== origin) return;
+    if (!isEmbedMessage(e.data) || e.data.kind !== 'request') return;
+    const { id, method, args } = e.data as EmbedRequest;
+    const handler = handlers[method] as ((...a: unknown[]) => unknown) | undefined;
+    if (!handler) {
+      post({ source: EMBED_SOURCE, kind: 'response', id, ok: false, error: `Unknown method '${String(method)}'` });
+      return;
+    }
+    Promise.resolve()
+      .then(() => handler(...(args as unknown[])))
+      .then(
+        (result) => post({ source: EMBED_SOURCE, kind: 'response', id, ok: true, result }),
+        (err) => post({
+          source: EMBED_SOURCE, kind: 'response', id, ok: false,
+          error: err instanceof Error ? err.message : String(err),
+        }),
+      );
+  });
+
+  for (const name of VIEWER_EVENTS) {
+    events.on(name, (payload) => post({ source: EMBED_SOURCE, kind: 'event', name, payload }));
+  }
+
+  post({ source: EMBED_SOURCE, kind: 'ready' });
+}
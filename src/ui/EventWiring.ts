@@ -17,6 +17,8 @@ import { updateComparisonSummary } from './ComparisonMode';
 import { reorderContactMap } from '../renderer/ContactMapReorder';
 import { syncOverviewModeSelect } from './ColorMapControls';
 import { refreshCuratorTracks } from './CuratorTracks';
+import { clearReferenceAlignment, refreshSyntenyTrack } from './ReferenceGuide';
+import { updateMetaTagSummary } from './Sidebar';
 
 /**
  * Subscribe to all relevant EventBus events and wire them to the
@@ -48,6 +50,8 @@ export function setupEventListeners(ctx: AppContext): void {
       // A newly loaded file has no FASTA-derived tracks yet; clear any from the
       // previous file so they aren't reused against the new assembly.
       ctx.fastaTrackData = null;
+      // Likewise a reference alignment names the previous assembly's contigs.
+      clearReferenceAlignment(ctx);
       // Set progress reference to initial contig order
       ctx.progressReference = [...s.contigOrder];
       ctx.previousProgress = null;
@@ -69,7 +73,10 @@ export function setupEventListeners(ctx: AppContext): void {
   });
 
   events.on('misassembly:updated', () => ctx.updateSidebarContigList());
-  events.on('metatag:updated', () => ctx.updateSidebarContigList());
+  events.on('metatag:updated', () => {
+    ctx.updateSidebarContigList();
+    updateMetaTagSummary();
+  });
   // Scaffold assignment changes scaffold-level metrics (scaffold N50, auN,
   // % assigned), so re-snapshot and refresh the stats panel. Assignment does
   // not go through refreshAfterCuration, so it needs its own hook to stay live.
@@ -83,6 +90,14 @@ export function setupEventListeners(ctx: AppContext): void {
   events.on('curation:join', (data) => { if (ctx.suppressCurationRefresh) return; refreshAfterCuration(ctx); flashContig(ctx, data?.contigIndex); });
   events.on('curation:invert', (data) => { if (ctx.suppressCurationRefresh) return; refreshAfterCuration(ctx); flashContig(ctx, data?.contigIndex); });
   events.on('curation:move', (data) => { if (ctx.suppressCurationRefresh) return; refreshAfterCuration(ctx); flashContig(ctx, data?.toIndex ?? data?.fromIndex); });
+  // Tags and exclusions leave the layout alone, so they skip the full refresh.
+  events.on('curation:tag', () => { if (ctx.suppressCurationRefresh) return; ctx.updateUndoHistoryPanel(); });
+  events.on('curation:exclude', () => {
+    if (ctx.suppressCurationRefresh) return;
+    ctx.updateSidebarContigList();
+    ctx.updateStatsPanel();
+    ctx.updateUndoHistoryPanel();
+  });
   events.on('curation:undo', () => refreshAfterCuration(ctx));
   events.on('curation:redo', () => refreshAfterCuration(ctx));
 }
@@ -105,6 +120,7 @@ export function refreshAfterCuration(ctx: AppContext): void {
   rebuildContigBoundaries(ctx);
   reorderAndUploadContactMap(ctx);
   refreshCuratorTracks(ctx);
+  refreshSyntenyTrack(ctx);
   ctx.updateSidebarContigList();
   ctx.updateSidebarScaffoldList();
   const s = state.get();
@@ -130,7 +146,7 @@ export function refreshAfterCuration(ctx: AppContext): void {
  * Reorder the contact map to match the current contig display order
  * and re-upload the texture to the GPU.
  */
-function reorderAndUploadContactMap(ctx: AppContext): void {
+export function reorderAndUploadContactMap(ctx: AppContext): void {
   const s = state.get();
   if (!s.map) return;
   const original = overviewForMode(ctx, s);
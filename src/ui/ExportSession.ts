@@ -1,5 +1,5 @@
 /**
- * ExportSession — AGP, BED, FASTA, screenshot, session save/load,
+ * ExportSession — AGP, BED, FASTA, .pretext, screenshot, session save/load,
  *                 reference FASTA upload, BedGraph track upload.
  */
 
@@ -8,18 +8,21 @@ import { state } from '../core/State';
 import { downloadAGP } from '../export/AGPWriter';
 import { downloadBED } from '../export/BEDWriter';
 import { downloadFASTA } from '../export/FASTAWriter';
+import { downloadPretext } from '../export/PretextWriter';
 import { parseFASTA, parseFASTAStream } from '../formats/FASTAParser';
 import { parseAGP, deriveAGPPlan } from '../formats/AGPParser';
 import { parseBedGraph, bedGraphToTrack } from '../formats/BedGraphParser';
 import { computeFastaTrackData } from '../analysis/FastaTracks';
 import { refreshCuratorTracks } from './CuratorTracks';
 import { downloadSnapshot } from '../export/SnapshotExporter';
-import { exportSession, importSession, downloadSession } from '../io/SessionManager';
-import type { SessionData } from '../io/SessionManager';
+import { exportSession, exportSessionAnnotations, importSession, downloadSession, decodeSessionHistory, createValidationReport } from '../io/SessionManager';
+import type { SessionData, SessionContig, SessionValidationReport } from '../io/SessionManager';
 import type { ColorMapName } from '../renderer/ColorMaps';
 import { syncColormapDropdown, syncGammaSlider, syncFloorSlider, syncCeilSlider, syncOverviewModeSelect } from './ColorMapControls';
 import { rebuildContigBoundaries, applyOverviewMode } from './EventWiring';
 import { exportAnalysisState, restoreAnalysisState, updateFastaHint } from './AnalysisPanel';
+import { metaTags } from '../curation/MetaTagManager';
+import { contigExclusion } from '../curation/ContigExclusion';
 import { inflate } from 'pako';
 import { showLoading, updateLoading, hideLoading } from './LoadingOverlay';
 
@@ -58,10 +61,14 @@ export function saveSession(ctx: AppContext): void {
   }
   try {
     const sessionData: SessionData = exportSession(s, ctx.scaffoldManager, ctx.waypointManager);
+    sessionData.annotations = exportSessionAnnotations(metaTags.getAllTags(), contigExclusion.getExcluded());
     const analysisState = exportAnalysisState();
     if (analysisState) {
       sessionData.analysis = analysisState;
     }
+    if (ctx.branchManager.hasBranchData()) {
+      sessionData.branches = ctx.branchManager.exportBranches();
+    }
     downloadSession(sessionData);
     ctx.showToast('Session saved');
   } catch (err) {
@@ -70,13 +77,168 @@ export function saveSession(ctx: AppContext): void {
   }
 }
 
+/**
+ * Apply a parsed session onto the loaded map: contig order and states,
+ * scaffolds, meta tags and exclusions, undo history, branches, camera, display
+ * settings, waypoints and any persisted analysis. Shared by session-file import and autosave restore. Reports progress on the
+ * loading overlay, which the caller owns.
+ */
+export async function applySession(ctx: AppContext, session: SessionData): Promise<void> {
+  if (!state.get().map) return;
+
+  updateLoading('Applying assembly state...', 40);
+
+  // v2 sessions carry the whole contig table; restore it first, since the
+  // order and the history refer to cut/join products that only exist there.
+  const contigsRestored = session.contigs !== undefined && restoreContigTable(session.contigs);
+  const s = state.get();
+  if (!s.map) return;
+
+  // Apply contig order
+  if (session.contigOrder.length > 0) {
+    state.update({ contigOrder: session.contigOrder });
+  }
+
+  // Apply contig states (inversions, scaffolds)
+  const contigUpdates: Array<{ id: number; changes: Partial<import('../core/State').ContigInfo> }> = [];
+  for (const [contigIdStr, override] of Object.entries(session.contigStates)) {
+    const contigId = Number(contigIdStr);
+    if (contigId >= 0 && contigId < s.map.contigs.length) {
+      contigUpdates.push({
+        id: contigId,
+        changes: { inverted: override.inverted, scaffoldId: override.scaffoldId },
+      });
+    }
+  }
+  if (contigUpdates.length > 0) {
+    state.updateContigs(contigUpdates);
+  }
+
+  // Restore scaffolds. With a restored contig table the ids must match the
+  // ones the contigs and history use; older sessions are matched by name.
+  if (contigsRestored) {
+    ctx.scaffoldManager.restoreScaffolds(session.scaffolds);
+  } else {
+    for (const sc of session.scaffolds) {
+      if (!ctx.scaffoldManager.getScaffold(sc.id)) {
+        ctx.scaffoldManager.createScaffold(sc.name, { record: false });
+      }
+    }
+  }
+
+  // Restore meta tags and exclusions. They are keyed by contig ID, so they
+  // only apply on top of the session's own contig table.
+  metaTags.clearAll();
+  contigExclusion.clearAll();
+  if (contigsRestored && session.annotations) {
+    for (const t of session.annotations.metaTags) metaTags.setTag(t.contigId, t.tag, t.notes);
+    contigExclusion.excludeMany(session.annotations.excluded);
+  }
+
+  // Restore undo/redo history (v2)
+  const history = contigsRestored ? decodeSessionHistory(session) : null;
+  if (history) {
+    state.restoreHistory(history.undoStack, history.redoStack);
+    ctx.updateUndoHistoryPanel();
+  } else if (session.history) {
+    ctx.showToast('Undo history not restored: the session\'s contigs do not match this file');
+  }
+
+  // Restore branches and checkpoints. The stored active branch is the state
+  // just applied, so they only make sense alongside its history.
+  if (history && session.branches) {
+    ctx.branchManager.importBranches(session.branches);
+  } else {
+    ctx.branchManager.reset();
+  }
+
+  updateLoading('Restoring view and settings...', 65);
+
+  // Restore camera
+  ctx.camera.animateTo(session.camera, 300);
+
+  // Restore settings
+  const overviewMode = session.settings.overviewMode ?? 'clean';
+  state.update({
+    gamma: session.settings.gamma,
+    signalFloor: session.settings.signalFloor ?? 0,
+    signalCeil: session.settings.signalCeil ?? 1,
+    overviewMode,
+    showGrid: session.settings.showGrid,
+    colorMapName: session.settings.colorMapName,
+  });
+  ctx.currentColorMap = session.settings.colorMapName as ColorMapName;
+  ctx.renderer.setColorMap(ctx.currentColorMap);
+  syncColormapDropdown(ctx.currentColorMap);
+  syncGammaSlider(session.settings.gamma);
+  syncFloorSlider(session.settings.signalFloor ?? 0);
+  syncCeilSlider(session.settings.signalCeil ?? 1);
+  syncOverviewModeSelect(overviewMode);
+  await applyOverviewMode(ctx);
+
+  // Restore waypoints
+  ctx.waypointManager.clearAll();
+  for (const wp of session.waypoints) {
+    ctx.waypointManager.addWaypoint(wp.mapX, wp.mapY, wp.label);
+  }
+
+  rebuildContigBoundaries(ctx);
+  ctx.updateSidebarContigList();
+  ctx.updateSidebarScaffoldList();
+
+  // Restore persisted analysis results if present
+  if (session.analysis) {
+    updateLoading('Restoring analysis results...', 85);
+    restoreAnalysisState(ctx, session.analysis);
+  }
+}
+
+/** Tell the user what import had to upgrade or drop to load the session. */
+function reportSessionChanges(ctx: AppContext, report: SessionValidationReport): void {
+  if (report.upgraded.length === 0 && report.dropped.length === 0) return;
+  for (const entry of report.upgraded) console.info(`Session upgraded — ${entry}`);
+  for (const entry of report.dropped) console.warn(`Session field dropped — ${entry}`);
+  const parts: string[] = [];
+  if (report.sourceVersion !== null && report.upgraded.length > 0) {
+    parts.push(`upgraded from format v${report.sourceVersion}`);
+  }
+  if (report.dropped.length > 0) {
+    parts.push(`dropped ${report.dropped.map(e => e.split(':')[0]).join(', ')}`);
+  }
+  ctx.showToast(`Session ${parts.join('; ')} (details in console)`, 5000);
+}
+
+/**
+ * Replace the loaded map's contig table with a session's. The session's
+ * leading file contigs (those whose originalIndex equals their position;
+ * cut/join products are appended after them) must match the map's by name.
+ * Returns false, leaving the map alone, when they do not.
+ */
+function restoreContigTable(contigs: SessionContig[]): boolean {
+  const map = state.get().map;
+  if (!map) return false;
+  const fileContigCount = (list: Array<{ originalIndex: number }>) => {
+    let n = 0;
+    while (n < list.length && list[n].originalIndex === n) n++;
+    return n;
+  };
+  const n = fileContigCount(map.contigs);
+  if (fileContigCount(contigs) !== n) return false;
+  for (let i = 0; i < n; i++) {
+    if (contigs[i].name !== map.contigs[i].name) return false;
+  }
+  state.update({ map: { ...map, contigs: contigs.map(c => ({ ...c })) } });
+  return true;
+}
+
 export async function loadSession(ctx: AppContext, file: File): Promise<void> {
   showLoading('Restoring session', 'Reading session file...');
   try {
     updateLoading('Reading session file...', 5);
     const text = await file.text();
     updateLoading('Parsing session...', 20);
-    const session = importSession(text);
+    const report = createValidationReport();
+    const session = importSession(text, report);
 
     // Apply session state to the app
     const s = state.get();
@@ -90,77 +252,11 @@ export async function loadSession(ctx: AppContext, file: File): Promise<void> {
       ctx.showToast(`Warning: session was for "${session.filename}", current file is "${s.map.filename}"`);
     }
 
-    updateLoading('Applying assembly state...', 40);
-
-    // Apply contig order
-    if (session.contigOrder.length > 0) {
-      state.update({ contigOrder: session.contigOrder });
-    }
-
-    // Apply contig states (inversions, scaffolds)
-    const contigUpdates: Array<{ id: number; changes: Partial<import('../core/State').ContigInfo> }> = [];
-    for (const [contigIdStr, override] of Object.entries(session.contigStates)) {
-      const contigId = Number(contigIdStr);
-      if (contigId >= 0 && contigId < s.map.contigs.length) {
-        contigUpdates.push({
-          id: contigId,
-          changes: { inverted: override.inverted, scaffoldId: override.scaffoldId },
-        });
-      }
-    }
-    if (contigUpdates.length > 0) {
-      state.updateContigs(contigUpdates);
-    }
-
-    // Restore scaffolds
-    for (const sc of session.scaffolds) {
-      if (!ctx.scaffoldManager.getScaffold(sc.id)) {
-        ctx.scaffoldManager.createScaffold(sc.name, { record: false });
-      }
-    }
-
-    updateLoading('Restoring view and settings...', 65);
-
-    // Restore camera
-    ctx.camera.animateTo(session.camera, 300);
-
-    // Restore settings
-    const overviewMode = session.settings.overviewMode ?? 'clean';
-    state.update({
-      gamma: session.settings.gamma,
-      signalFloor: session.settings.signalFloor ?? 0,
-      signalCeil: session.settings.signalCeil ?? 1,
-      overviewMode,
-      showGrid: session.settings.showGrid,
-      colorMapName: session.settings.colorMapName,
-    });
-    ctx.currentColorMap = session.settings.colorMapName as ColorMapName;
-    ctx.renderer.setColorMap(ctx.currentColorMap);
-    syncColormapDropdown(ctx.currentColorMap);
-    syncGammaSlider(session.settings.gamma);
-    syncFloorSlider(session.settings.signalFloor ?? 0);
-    syncCeilSlider(session.settings.signalCeil ?? 1);
-    syncOverviewModeSelect(overviewMode);
-    await applyOverviewMode(ctx);
-
-    // Restore waypoints
-    ctx.waypointManager.clearAll();
-    for (const wp of session.waypoints) {
-      ctx.waypointManager.addWaypoint(wp.mapX, wp.mapY, wp.label);
-    }
-
-    rebuildContigBoundaries(ctx);
-    ctx.updateSidebarContigList();
-    ctx.updateSidebarScaffoldList();
-
-    // Restore persisted analysis results if present
-    if (session.analysis) {
-      updateLoading('Restoring analysis results...', 85);
-      restoreAnalysisState(ctx, session.analysis);
-    }
+    await applySession(ctx, session);
 
     updateLoading('Finalizing...', 98);
     ctx.showToast(`Session restored (${session.operationLog.length} operations)`);
+    reportSessionChanges(ctx, report);
   } catch (err) {
     console.error('Session load error:', err);
     ctx.showToast(`Load failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
@@ -290,6 +386,28 @@ export function exportFASTAFile(ctx: AppContext): void {
   }
 }
 
+export async function exportPretextFile(ctx: AppContext): Promise<void> {
+  const s = state.get();
+  if (!s.map) {
+    ctx.showToast('No data to export');
+    return;
+  }
+  if (!s.map.rawTiles || !s.map.parsedHeader) {
+    ctx.showToast('.pretext export is not available for cooler maps');
+    return;
+  }
+  showLoading('Exporting .pretext', 'Re-encoding tiles...');
+  try {
+    await downloadPretext(s, undefined, { onProgress: updateLoading });
+    ctx.showToast('.pretext exported');
+  } catch (err) {
+    console.error('.pretext export error:', err);
+    ctx.showToast('.pretext export failed');
+  } finally {
+    hideLoading();
+  }
+}
+
 // 500 MB compressed size guard for gzip FASTA files
 const GZIP_SIZE_LIMIT = 500 * 1024 * 1024;
 
@@ -1,5 +1,6 @@
 /**
- * FileLoading — load .pretext files and demo data, file drop/input setup.
+ * FileLoading — load contact maps (.pretext, .hic, .cool/.mcool, .pairs) and demo data, file
+ * drop/input setup.
  */
 
 import type { AppContext } from './AppContext';
@@ -7,20 +8,33 @@ import type { SpecimenEntry } from '../data/SpecimenCatalog';
 import { SPECIMEN_DATA_BASE_URL } from '../data/SpecimenCatalog';
 import { state } from '../core/State';
 import { events } from '../core/EventBus';
-import { isPretextFile } from '../formats/PretextParser';
+import { detectContactMapFormat } from '../formats/ContactMapFormats';
 import { ParseWorkerClient } from '../formats/ParseWorkerClient';
+import {
+  blitOverviewTile,
+  overviewMipLevel,
+  type AssembledPretext,
+  type PretextExtension,
+} from '../formats/PretextParser';
+import { openRemotePretext } from '../formats/PretextStream';
 import { generateSyntheticMap } from '../formats/SyntheticData';
 import { generateDemoTracks } from '../formats/SyntheticTracks';
 import { TileManager } from '../renderer/TileManager';
 import { showLoading, updateLoading, hideLoading } from './LoadingOverlay';
 import { loadSession, loadReferenceFasta, loadBedGraphTrack, loadAGPFile } from './ExportSession';
-import { applyOverviewMode } from './EventWiring';
+import { applyOverviewMode, reorderAndUploadContactMap } from './EventWiring';
+import { loadPileupFeatures } from './AnalysisPanel';
+import { loadReferenceAlignment } from './ReferenceGuide';
 import { contigExclusion } from '../curation/ContigExclusion';
 import { metaTags } from '../curation/MetaTagManager';
 import { misassemblyFlags } from '../curation/MisassemblyFlags';
 import { resetOEMap } from './OEMapToggle';
 import { computeAutoContrast } from '../renderer/AutoContrast';
 import { syncFloorSlider, syncCeilSlider } from './ColorMapControls';
+import { computeFileFingerprint } from '../io/AutosaveStore';
+
+/** Overview redraw interval while a remote file streams in. */
+const STREAM_REDRAW_MS = 250;
 
 // Reused across loads; created lazily so the worker only spins up when needed.
 let parseClient: ParseWorkerClient | null = null;
@@ -28,19 +42,34 @@ function getParseClient(): ParseWorkerClient {
   return (parseClient ??= new ParseWorkerClient());
 }
 
+/**
+ * Parse a contact map file and assemble its overview on the shared parse
+ * worker, without loading it. Used for the comparison map (MapCompare).
+ */
+export function parseContactMapBuffer(
+  buffer: ArrayBuffer,
+  onProgress?: (message: string, percent: number) => void,
+): Promise<AssembledPretext> {
+  return getParseClient().parse(buffer, onProgress);
+}
+
+/** Load a contact map from memory. Resolves false (after telling the user) if the format is not recognized. */
 async function loadPretextFromBuffer(
   ctx: AppContext,
   buffer: ArrayBuffer,
   filename: string,
-): Promise<void> {
+): Promise<boolean> {
   const statusEl = document.getElementById('status-file')!;
 
-  if (!isPretextFile(buffer)) {
+  if (!detectContactMapFormat(buffer)) {
     statusEl.textContent = 'Invalid file format';
-    ctx.showToast('Invalid file — not a .pretext file');
-    return;
+    ctx.showToast('Invalid file — not a .pretext, .hic, .cool/.mcool or .pairs file');
+    return false;
   }
 
+  // Fingerprint before parsing: the parse worker takes ownership of the buffer.
+  const fingerprint = computeFileFingerprint(filename, buffer.byteLength, buffer);
+
   // Parse + assemble the overview off the main thread (no UI freeze on big files).
   const parsed = await getParseClient().parse(buffer, (message, percent) => {
     updateLoading(message, percent);
@@ -69,6 +98,7 @@ async function loadPretextFromBuffer(
   ctx.tileManager = new TileManager(ctx.renderer.getGL());
 
   updateLoading('Finalizing...', 98);
+  ctx.fileFingerprint = fingerprint;
   state.update({
     signalFloor: contrast.floor,
     signalCeil: contrast.ceil,
@@ -85,14 +115,20 @@ async function loadPretextFromBuffer(
       })),
       contactMap,
       originalContactMap: new Float32Array(contactMap),
-      rawTiles: parsed.tiles,
+      // Coolers have no BC4 bytes; their tiles are read from the file lazily.
+      rawTiles: parsed.source ? null : parsed.tiles,
       parsedHeader: h,
       extensions: new Map(parsed.extensions.map(e => [e.name, e.data])),
     },
     contigOrder: parsed.contigs.map((_, i) => i),
   });
-  // Hand the raw BC4 tile bytes to the background decoder (transfers buffers).
-  ctx.tileDecoder?.setSource(parsed.tiles, h);
+  // Hand the raw BC4 tile bytes (or the cooler file) to the background
+  // decoder (transfers buffers).
+  if (parsed.source) {
+    ctx.tileDecoder?.setCoolerSource(parsed.source, h, parsed.contigs);
+  } else {
+    ctx.tileDecoder?.setSource(parsed.tiles, h);
+  }
   syncFloorSlider(contrast.floor);
   syncCeilSlider(contrast.ceil);
   statusEl.textContent = filename;
@@ -103,6 +139,168 @@ async function loadPretextFromBuffer(
     await applyOverviewMode(ctx);
   }
   ctx.showToast(`Loaded ${filename} — ${parsed.contigs.length} contigs, ${mapSize}px`);
+  return true;
+}
+
+/**
+ * Download `url` into memory, showing progress on the loading overlay as
+ * `label` (the first 60% of the bar; parsing takes the rest).
+ */
+async function fetchWithProgress(url: string, label: string): Promise<ArrayBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Download failed: ${response.status}`);
+
+  const contentLength = Number(response.headers.get('content-length')) || 0;
+  const reader = response.body!.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    if (contentLength > 0) {
+      const pct = Math.round((received / contentLength) * 60);
+      const mb = (received / 1048576).toFixed(0);
+      const totalMb = (contentLength / 1048576).toFixed(0);
+      updateLoading(`Downloading ${label}... ${mb}/${totalMb} MB`, pct);
+    }
+  }
+
+  const totalLength = chunks.reduce((sum, c) => sum + c.length, 0);
+  const combined = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    combined.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return combined.buffer;
+}
+
+/**
+ * Open a remote .pretext by streaming it over range requests (see
+ * formats/PretextStream.ts) instead of downloading it first. The map appears
+ * once the header is read and its overview fills in as tiles arrive; detail
+ * tiles are range-requested as the user zooms. `file:loaded` follows once the
+ * whole file has been read.
+ *
+ * Resolves false, having loaded nothing, when the server does not serve
+ * ranges (cross-origin servers must expose `Content-Range`) or the file is
+ * not a .pretext; the caller then downloads it whole.
+ */
+async function streamRemotePretext(ctx: AppContext, url: string, filename: string): Promise<boolean> {
+  const decoder = ctx.tileDecoder;
+  if (!decoder) return false;
+  updateLoading('Reading header...', 5);
+  const info = await openRemotePretext(url);
+  if (!info) return false;
+
+  const h = info.header;
+  const mapSize = h.numberOfPixels1D;
+  const tileRes = h.textureResolution >> overviewMipLevel(h, 'clean');
+  const overviewSize = h.numberOfTextures1D * tileRes;
+  // Painted in place as tiles arrive; it is the map's original-order overview.
+  const overview = new Float32Array(overviewSize * overviewSize);
+  const fingerprint = computeFileFingerprint(filename, info.fileSize, info.head);
+
+  ctx.renderer.uploadContactMap(overview, overviewSize);
+  ctx.renderer.uploadGateOverview(overview, overviewSize);
+  ctx.faithfulOverviewOriginal = null;
+  ctx.contigBoundaries = info.contigs.map(c => c.pixelEnd / mapSize);
+
+  if (ctx.tileDecodeDebounce !== null) { clearTimeout(ctx.tileDecodeDebounce); ctx.tileDecodeDebounce = null; }
+  decoder.cancel();
+  if (ctx.tileManager) { ctx.tileManager.dispose(); }
+  ctx.tileManager = new TileManager(ctx.renderer.getGL());
+
+  ctx.fileFingerprint = fingerprint;
+  state.update({
+    map: {
+      filename,
+      textureSize: mapSize,
+      numMipMaps: h.mipMapLevels,
+      tileResolution: h.textureResolution,
+      tilesPerDimension: h.numberOfTextures1D,
+      contigs: info.contigs.map((c, i) => ({
+        name: c.name, originalIndex: i, length: c.length,
+        pixelStart: c.pixelStart, pixelEnd: c.pixelEnd,
+        inverted: false, scaffoldId: null,
+      })),
+      contactMap: overview,
+      originalContactMap: overview,
+      // Tiles stay on the server; the decoder fetches them by range.
+      rawTiles: null,
+      parsedHeader: h,
+      extensions: new Map(),
+    },
+    contigOrder: info.contigs.map((_, i) => i),
+  });
+  ctx.camera.resetViewImmediate();
+
+  const statusEl = document.getElementById('status-file')!;
+  statusEl.textContent = `${filename} — streaming...`;
+  document.getElementById('status-contigs')!.textContent = `${info.contigs.length} contigs`;
+  hideLoading();
+  document.getElementById('welcome')!.style.display = 'none';
+  document.body?.classList.remove('no-file');
+
+  // Another file (or the landing screen) may replace this one mid-stream.
+  const isCurrent = () => ctx.fileFingerprint === fingerprint;
+  let moved = false;
+  const offCamera = events.on('camera:changed', () => { moved = true; });
+  let redraw: ReturnType<typeof setTimeout> | null = null;
+  const redrawOverview = () => {
+    redraw = null;
+    if (!isCurrent()) return;
+    reorderAndUploadContactMap(ctx);
+    ctx.requestRender();
+  };
+
+  let extensions: PretextExtension[];
+  try {
+    extensions = await decoder.setRemoteSource(info, (tile, progress) => {
+      if (!isCurrent()) return;
+      blitOverviewTile(overview, overviewSize, tile.data, tileRes, tile.col, tile.row);
+      const pct = Math.round((progress.tilesRead / progress.totalTiles) * 100);
+      statusEl.textContent = `${filename} — streaming ${pct}%`;
+      redraw ??= setTimeout(redrawOverview, STREAM_REDRAW_MS);
+    });
+  } catch (err) {
+    // Replaced by another file: nothing left to finish.
+    if ((err as Error).name === 'AbortError') return true;
+    throw err;
+  } finally {
+    offCamera();
+    if (redraw !== null) clearTimeout(redraw);
+  }
+  if (!isCurrent()) return true;
+
+  const contrast = computeAutoContrast(overview);
+  const map = state.get().map!;
+  state.update({
+    signalFloor: contrast.floor,
+    signalCeil: contrast.ceil,
+    map: {
+      ...map,
+      originalContactMap: new Float32Array(overview),
+      extensions: new Map(extensions.map(e => [e.name, e.data])),
+    },
+  });
+  reorderAndUploadContactMap(ctx);
+  syncFloorSlider(contrast.floor);
+  syncCeilSlider(contrast.ceil);
+  statusEl.textContent = filename;
+
+  // file:loaded resets the view; keep where the user went while it streamed.
+  const camera = ctx.camera.getState();
+  events.emit('file:loaded', { filename, contigs: info.contigs.length, textureSize: mapSize });
+  if (moved) ctx.camera.jumpTo(camera);
+  if (state.get().overviewMode === 'faithful') {
+    await applyOverviewMode(ctx);
+  }
+  ctx.showToast(`Loaded ${filename} — ${info.contigs.length} contigs, ${mapSize}px`);
+  return true;
 }
 
 export async function loadPretextFile(ctx: AppContext, file: File): Promise<void> {
@@ -140,36 +338,10 @@ export async function loadSpecimen(ctx: AppContext, specimen: SpecimenEntry): Pr
   showLoading(`Loading ${specimen.commonName}`, `Downloading ${specimen.commonName} genome...`);
 
   try {
-    const response = await fetch(url);
-    if (!response.ok) throw new Error(`Download failed: ${response.status}`);
-
-    const contentLength = Number(response.headers.get('content-length')) || 0;
-    const reader = response.body!.getReader();
-    const chunks: Uint8Array[] = [];
-    let received = 0;
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      chunks.push(value);
-      received += value.length;
-      if (contentLength > 0) {
-        const pct = Math.round((received / contentLength) * 60);
-        const mb = (received / 1048576).toFixed(0);
-        const totalMb = (contentLength / 1048576).toFixed(0);
-        updateLoading(`Downloading ${specimen.commonName}... ${mb}/${totalMb} MB`, pct);
-      }
+    if (!await streamRemotePretext(ctx, url, specimen.releaseAsset)) {
+      const buffer = await fetchWithProgress(url, specimen.commonName);
+      await loadPretextFromBuffer(ctx, buffer, specimen.releaseAsset);
     }
-
-    const totalLength = chunks.reduce((sum, c) => sum + c.length, 0);
-    const combined = new Uint8Array(totalLength);
-    let offset = 0;
-    for (const chunk of chunks) {
-      combined.set(chunk, offset);
-      offset += chunk.length;
-    }
-
-    await loadPretextFromBuffer(ctx, combined.buffer, specimen.releaseAsset);
   } catch (err) {
     console.error(`Error loading specimen ${specimen.id}:`, err);
     document.getElementById('status-file')!.textContent = 'Error loading specimen';
@@ -181,6 +353,40 @@ export async function loadSpecimen(ctx: AppContext, specimen: SpecimenEntry): Pr
   document.body?.classList.remove('no-file');
 }
 
+/**
+ * Load a contact map from a URL or from bytes already in memory, for callers
+ * that need the outcome (the embed bridge). Unlike the loaders above, a
+ * failure rejects (after emitting `file:error`) instead of only toasting.
+ * `filename` defaults to the last path segment of the URL.
+ */
+export async function loadContactMap(
+  ctx: AppContext,
+  source: string | ArrayBuffer,
+  filename?: string,
+): Promise<void> {
+  const name = filename ??
+    (typeof source === 'string' ? decodeURIComponent(new URL(source, document.baseURI).pathname.split('/').pop() || 'map') : 'map');
+  showLoading(`Loading ${name}`, 'Reading file...');
+  try {
+    const streamed = typeof source === 'string' && await streamRemotePretext(ctx, source, name);
+    if (!streamed) {
+      const buffer = typeof source === 'string' ? await fetchWithProgress(source, name) : source;
+      if (!await loadPretextFromBuffer(ctx, buffer, name)) {
+        throw new Error(`${name} is not a .pretext, .hic, .cool/.mcool or .pairs file`);
+      }
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    document.getElementById('status-file')!.textContent = 'Error loading file';
+    events.emit('file:error', { message });
+    throw err instanceof Error ? err : new Error(message);
+  } finally {
+    hideLoading();
+  }
+  document.getElementById('welcome')!.style.display = 'none';
+  document.body?.classList.remove('no-file');
+}
+
 /** Backwards-compatible wrapper that loads the koala specimen. */
 export async function loadExampleDataset(ctx: AppContext): Promise<void> {
   const koala: SpecimenEntry = {
@@ -213,6 +419,7 @@ export function loadDemoData(ctx: AppContext): void {
   if (ctx.tileManager) { ctx.tileManager.dispose(); ctx.tileManager = null; }
 
   const demoContrast = computeAutoContrast(data);
+  ctx.fileFingerprint = null; // synthetic data is not autosaved
   state.update({
     signalFloor: demoContrast.floor,
     signalCeil: demoContrast.ceil,
@@ -274,9 +481,9 @@ export function returnToLanding(ctx: AppContext): void {
     if (!ok) return;
   }
 
-  // Tear down tile streaming for the current file.
+  // Tear down tile streaming for the current file (including a remote stream).
   if (ctx.tileDecodeDebounce !== null) { clearTimeout(ctx.tileDecodeDebounce); ctx.tileDecodeDebounce = null; }
-  ctx.tileDecoder?.cancel();
+  ctx.tileDecoder?.clearSource();
   if (ctx.tileManager) { ctx.tileManager.dispose(); ctx.tileManager = null; }
 
   // Clear per-file curation singletons, tracks, and derived views so nothing
@@ -288,6 +495,7 @@ export function returnToLanding(ctx: AppContext): void {
   ctx.currentWaypointId = null;
   ctx.trackRenderer?.clearTracks();
   ctx.fastaTrackData = null;
+  ctx.fileFingerprint = null;
   resetOEMap(ctx);
 
   // Reset app state (map -> null, undo/redo cleared) and refresh the (now empty)
@@ -329,6 +537,10 @@ export function setupFileDrop(ctx: AppContext): void {
       await loadReferenceFasta(ctx, file);
     } else if (name.endsWith('.bedgraph') || name.endsWith('.bg')) {
       await loadBedGraphTrack(ctx, file);
+    } else if (name.endsWith('.bed') || name.endsWith('.bedpe')) {
+      await loadPileupFeatures(ctx, file);
+    } else if (name.endsWith('.paf')) {
+      await loadReferenceAlignment(ctx, file);
     } else if (name.endsWith('.json')) {
       await loadSession(ctx, file);
     } else if (name.endsWith('.agp')) {
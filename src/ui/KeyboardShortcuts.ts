@@ -14,6 +14,8 @@ import { toggleShortcutsModal } from './ShortcutsModal';
 import { isCommandPaletteVisible, toggleCommandPalette } from './CommandPalette';
 import { runAutoSort, runAutoCut } from './BatchActions';
 import { nextWeakJoin, prevWeakJoin } from './AnalysisPanel';
+import { focusLocusSearch } from './LocusSearchBox';
+import { cycleRulerFrame } from './Rulers';
 
 export function setupKeyboardShortcuts(ctx: AppContext): void {
   window.addEventListener('keydown', (e) => {
@@ -37,6 +39,7 @@ export function setupKeyboardShortcuts(ctx: AppContext): void {
         break;
       case 'w': ctx.setMode('waypoint'); break;
       case 'l': state.update({ showGrid: !state.get().showGrid }); break;
+      case 'r': if (!cmd) cycleRulerFrame(ctx); break;
       case 'i':
         document.getElementById('sidebar')?.classList.toggle('visible');
         ctx.updateSidebarContigList();
@@ -216,6 +219,12 @@ export function setupKeyboardShortcuts(ctx: AppContext): void {
         toggleShortcutsModal();
         break;
 
+      case '/':
+        // Keep the slash out of the field it focuses.
+        e.preventDefault();
+        focusLocusSearch();
+        break;
+
       case '0':
         // Reset to the full-map view. Camera also binds Home, but Mac
         // keyboards have no Home key (it is Fn + Left), which left the reset
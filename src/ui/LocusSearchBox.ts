@@ -0,0 +1,239 @@
+/**
+ * LocusSearchBox — the toolbar's "go to" field (see core/LocusSearch.ts for
+ * what a query can be).
+ *
+ * Results update as the user types; arrow keys pick one and Enter (or a
+ * click) animates the camera there and outlines the hit on the map. The
+ * outline follows the hit through later curation, and goes with Escape, an
+ * emptied field or a new map.
+ *
+ * Module-local state: the current results, the selected index and the
+ * highlighted hit.
+ */
+
+import type { AppContext } from './AppContext';
+import type { CameraState } from '../renderer/Camera';
+import { state } from '../core/State';
+import { events } from '../core/EventBus';
+import { searchLoci, type LocusHit } from '../core/LocusSearch';
+import { formatBp } from './Sidebar';
+
+/** Margin around a hit the camera fits, as a fraction of its size. */
+const FIT_MARGIN = 0.1;
+
+let results: LocusHit[] = [];
+let selectedIndex = 0;
+let highlight: LocusHit | null = null;
+
+function input(): HTMLInputElement | null {
+  return document.getElementById('locus-search-input') as HTMLInputElement | null;
+}
+
+function resultsPanel(): HTMLElement | null {
+  return document.getElementById('locus-search-results');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// ---------------------------------------------------------------------------
+// Results
+// ---------------------------------------------------------------------------
+
+/** The secondary line of a result: what it is, its size and where it now lies. */
+export function describeHit(hit: LocusHit): string {
+  const parts: string[] = [hit.kind];
+  if (hit.bp > 0) parts.push(formatBp(hit.bp));
+  if (hit.kind === 'scaffold') parts.push(`${hit.contigs.length} contig${hit.contigs.length === 1 ? '' : 's'}`);
+  else if (hit.contigs.length > 0 && !hit.label.startsWith(hit.contigs[0])) {
+    parts.push(`on ${hit.contigs.slice(0, 3).join(', ')}${hit.contigs.length > 3 ? ', …' : ''}`);
+  }
+  return parts.join(' · ');
+}
+
+function renderResults(ctx: AppContext): void {
+  const panel = resultsPanel();
+  const field = input();
+  if (!panel || !field) return;
+  const open = results.length > 0 || field.value.trim() !== '';
+  panel.classList.toggle('visible', open);
+  if (!open) return;
+
+  panel.innerHTML = results.length === 0
+    ? `<div class="locus-search-empty">${state.get().map ? 'No matches' : 'Open a map to search it'}</div>`
+    : results.map((hit, i) =>
+      `<div class="result-item ${i === selectedIndex ? 'selected' : ''}" role="option" data-index="${i}">
+        <span class="locus-search-label">${escapeHtml(hit.label)}</span>
+        <span class="locus-search-detail">${escapeHtml(describeHit(hit))}</span>
+      </div>`,
+    ).join('');
+  panel.querySelectorAll('.result-item').forEach((el, i) => {
+    // mousedown, not click: the field's blur would close the list first.
+    el.addEventListener('mousedown', (e) => {
+      e.preventDefault();
+      goToHit(ctx, results[i]);
+    });
+  });
+
+  const r = field.getBoundingClientRect();
+  panel.style.top = `${Math.round(r.bottom + 4)}px`;
+  panel.style.left = `${Math.round(Math.max(8, Math.min(r.left, window.innerWidth - 8 - panel.offsetWidth)))}px`;
+}
+
+function updateResults(ctx: AppContext): void {
+  const field = input();
+  results = field ? searchLoci(state.get(), ctx.scaffoldManager.getAllScaffolds(), field.value) : [];
+  selectedIndex = 0;
+  renderResults(ctx);
+}
+
+function closeResults(): void {
+  resultsPanel()?.classList.remove('visible');
+}
+
+function moveSelection(ctx: AppContext, delta: number): void {
+  if (results.length === 0) return;
+  selectedIndex = Math.max(0, Math.min(results.length - 1, selectedIndex + delta));
+  renderResults(ctx);
+  resultsPanel()?.querySelector('.result-item.selected')?.scrollIntoView({ block: 'nearest' });
+}
+
+// ---------------------------------------------------------------------------
+// Navigation and highlight
+// ---------------------------------------------------------------------------
+
+/** Animate the camera to a hit and outline it. A point keeps the current zoom. */
+export function goToHit(ctx: AppContext, hit: LocusHit): void {
+  highlight = hit;
+  const field = input();
+  if (field) {
+    field.value = hit.label;
+    field.blur();
+  }
+  closeResults();
+
+  if (hit.x1 === hit.x2 && hit.y1 === hit.y2) {
+    ctx.camera.animateTo({ x: hit.x1, y: hit.y1 });
+  } else {
+    const mx = (hit.x2 - hit.x1) * FIT_MARGIN;
+    const my = (hit.y2 - hit.y1) * FIT_MARGIN;
+    ctx.camera.zoomToRegion(hit.x1 - mx, hit.y1 - my, hit.x2 + mx, hit.y2 + my);
+  }
+  ctx.requestRender();
+}
+
+/** The hit currently outlined on the map, if any. */
+export function getLocusHighlight(): LocusHit | null {
+  return highlight;
+}
+
+export function clearLocusHighlight(ctx: AppContext): void {
+  if (!highlight) return;
+  highlight = null;
+  ctx.requestRender();
+}
+
+/**
+ * Find the highlighted hit again after the layout changed: the same query,
+ * preferring the result on the same contigs (a source locus cut in two has a
+ * result per piece). Cleared when the query no longer resolves.
+ */
+function refreshHighlight(ctx: AppContext): void {
+  if (!highlight) return;
+  const previous = highlight;
+  const hits = searchLoci(state.get(), ctx.scaffoldManager.getAllScaffolds(), previous.label);
+  highlight = hits.find((h) => h.label === previous.label && h.contigs.join('\n') === previous.contigs.join('\n'))
+    ?? hits.find((h) => h.label === previous.label)
+    ?? null;
+  ctx.requestRender();
+}
+
+/** Draw the highlight outline on the label canvas. Called once per frame. */
+export function renderLocusHighlight(
+  ctx: AppContext,
+  canvasCtx: CanvasRenderingContext2D,
+  cam: CameraState,
+): void {
+  if (!highlight) return;
+  const a = ctx.renderer.mapToCanvas(highlight.x1, highlight.y1, cam);
+  const b = ctx.renderer.mapToCanvas(highlight.x2, highlight.y2, cam);
+
+  canvasCtx.save();
+  // The label canvas arrives at identity; coordinates below are CSS pixels.
+  const dpr = globalThis.devicePixelRatio || 1;
+  canvasCtx.scale(dpr, dpr);
+  canvasCtx.strokeStyle = 'rgba(0, 212, 255, 0.95)';
+  canvasCtx.lineWidth = 2;
+  if (Math.abs(b.x - a.x) < 4 && Math.abs(b.y - a.y) < 4) {
+    // A point, or a hit too small to outline at this zoom: a ring around it.
+    canvasCtx.beginPath();
+    canvasCtx.arc((a.x + b.x) / 2, (a.y + b.y) / 2, 8, 0, Math.PI * 2);
+    canvasCtx.stroke();
+  } else {
+    canvasCtx.setLineDash([6, 4]);
+    canvasCtx.strokeRect(Math.min(a.x, b.x), Math.min(a.y, b.y), Math.abs(b.x - a.x), Math.abs(b.y - a.y));
+  }
+  canvasCtx.restore();
+}
+
+/** Put the cursor in the search field (the `/` shortcut). */
+export function focusLocusSearch(): void {
+  const field = input();
+  if (!field) return;
+  field.focus();
+  field.select();
+}
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+export function setupLocusSearch(ctx: AppContext): void {
+  const field = input();
+  if (!field) return;
+
+  field.addEventListener('input', () => {
+    if (!field.value.trim()) clearLocusHighlight(ctx);
+    updateResults(ctx);
+  });
+  field.addEventListener('focus', () => {
+    if (field.value.trim()) updateResults(ctx);
+  });
+  field.addEventListener('blur', () => closeResults());
+
+  field.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape') {
+      field.value = '';
+      results = [];
+      clearLocusHighlight(ctx);
+      closeResults();
+      field.blur();
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const hit = results[selectedIndex];
+      if (hit) goToHit(ctx, hit);
+      else if (field.value.trim()) ctx.showToast(state.get().map ? `No match for '${field.value.trim()}'` : 'Open a map to search it');
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      moveSelection(ctx, 1);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      moveSelection(ctx, -1);
+    }
+  });
+
+  // Curation moves what a hit covers; a new map (or none) invalidates it.
+  const reset = () => {
+    highlight = null;
+    results = [];
+    field.value = '';
+    closeResults();
+  };
+  events.on('file:loaded', reset);
+  state.select((s) => s.contigOrder, () => refreshHighlight(ctx));
+  state.select((s) => s.map, (map) => {
+    if (map) refreshHighlight(ctx);
+    else reset();
+  });
+}
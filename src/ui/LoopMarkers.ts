@@ -0,0 +1,73 @@
+/**
+ * LoopMarkers — loop calls (analysis/LoopCaller.ts) drawn on the map as
+ * rings, at the call and at its mirror below the diagonal.
+ *
+ * Calls are overview bins of the layout they were made on. When curation
+ * changes the layout the rings are hidden rather than drawn in the wrong
+ * place, until AnalysisPanel re-runs the caller with the other analyses.
+ *
+ * Module-local state: the calls on show and the layout they belong to.
+ */
+
+import type { AppContext } from './AppContext';
+import type { CameraState } from '../renderer/Camera';
+import type { LoopCall, LoopResult } from '../analysis/LoopCaller';
+import { state } from '../core/State';
+import { layoutKey } from './RegionAnalysisMode';
+
+/** Smallest ring radius, in CSS pixels. */
+const MIN_RING_RADIUS = 4;
+
+let markers: { loops: LoopCall[]; size: number; layout: string } | null = null;
+
+/** Show `result`'s calls, made on an overview of `overviewSize` bins. */
+export function setLoopMarkers(result: LoopResult, overviewSize: number): void {
+  markers = { loops: result.loops, size: overviewSize, layout: layoutKey(state.get()) };
+}
+
+export function clearLoopMarkers(): void {
+  markers = null;
+}
+
+/**
+ * Map positions (0-1, bin centers) of the rings for `loops`: each call at
+ * (col, row) above the diagonal and (row, col) below it.
+ */
+export function loopMarkerPositions(loops: LoopCall[], size: number): { x: number; y: number }[] {
+  const positions: { x: number; y: number }[] = [];
+  for (const loop of loops) {
+    const r = (loop.row + 0.5) / size;
+    const c = (loop.col + 0.5) / size;
+    positions.push({ x: c, y: r }, { x: r, y: c });
+  }
+  return positions;
+}
+
+/** Draw the rings on the label canvas. Called once per frame. */
+export function renderLoopMarkers(
+  ctx: AppContext,
+  canvasCtx: CanvasRenderingContext2D,
+  cam: CameraState,
+): void {
+  if (!markers || markers.loops.length === 0) return;
+  if (layoutKey(state.get()) !== markers.layout) return;
+
+  const origin = ctx.renderer.mapToCanvas(0, 0, cam);
+  const oneBin = ctx.renderer.mapToCanvas(1 / markers.size, 0, cam);
+  const radius = Math.max(MIN_RING_RADIUS, Math.abs(oneBin.x - origin.x));
+
+  canvasCtx.save();
+  // The label canvas arrives at identity; coordinates below are CSS pixels.
+  const dpr = globalThis.devicePixelRatio || 1;
+  canvasCtx.scale(dpr, dpr);
+  canvasCtx.strokeStyle = 'rgba(0, 255, 170, 0.9)';
+  canvasCtx.lineWidth = 1.5;
+  canvasCtx.beginPath();
+  for (const { x, y } of loopMarkerPositions(markers.loops, markers.size)) {
+    const p = ctx.renderer.mapToCanvas(x, y, cam);
+    canvasCtx.moveTo(p.x + radius, p.y);
+    canvasCtx.arc(p.x, p.y, radius, 0, Math.PI * 2);
+  }
+  canvasCtx.stroke();
+  canvasCtx.restore();
+}
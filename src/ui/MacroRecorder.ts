@@ -1,8 +1,8 @@
 /**
  * MacroRecorder — a live "record my curation" toggle for the Script Console.
  *
- * When recording is on, manual curation actions (cut/join/invert/move, plus any
- * scaffold paint that lands in the undo stack) are turned into DSL and written
+ * When recording is on, manual curation actions (cut/join/invert/move, meta
+ * tags and exclusions, plus any scaffold paint that lands in the undo stack) are turned into DSL and written
  * into the console's `#script-input`, so a hands-on session can be replayed,
  * edited, or previewed. This is a scoped, live version of the existing "From
  * Log" button: rather than converting the whole undo stack on demand, it
@@ -16,8 +16,8 @@
  * Known limitations (by design):
  *  - `scaffold_paint` has no `curation:*` event, so a scaffold paint is not
  *    reflected live; it is still captured when recording stops (the stop path
- *    regenerates from the full slice). The four events below cover cut, join,
- *    invert, and move.
+ *    regenerates from the full slice). The events below cover cut, join,
+ *    invert, move, tag and exclude.
  *  - Undoing past the record point (below the start depth) re-anchors the start
  *    depth downward, so a pre-recording op can leak into the script if it is
  *    later redone. That is an accepted edge; the common undo/redo-within-the-
@@ -28,10 +28,11 @@ import type { AppContext } from './AppContext';
 import { state } from '../core/State';
 import { events } from '../core/EventBus';
 import { operationsToScript } from '../scripting/ScriptReplay';
+import { refreshScriptDiagnostics } from './ScriptAssist';
 
 /**
- * Undo-stack-changing events that should refresh the live script. The four
- * curation ops append to the stack; undo/redo grow or shrink it and are watched
+ * Undo-stack-changing events that should refresh the live script. The
+ * curation ops and the tag/exclude annotations append to the stack; undo/redo grow or shrink it and are watched
  * so the live view stays in sync (and the start depth clamps when the stack
  * shrinks below the record point).
  */
@@ -40,6 +41,8 @@ const CURATION_EVENTS = [
   'curation:join',
   'curation:invert',
   'curation:move',
+  'curation:tag',
+  'curation:exclude',
   'curation:undo',
   'curation:redo',
 ] as const;
@@ -89,6 +92,7 @@ function regenerate(ctx: AppContext): number {
   });
 
   input.value = basePrefix ? `${basePrefix}\n${script}` : script;
+  refreshScriptDiagnostics(ctx);
   return slice.length;
 }
 
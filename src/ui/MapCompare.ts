@@ -0,0 +1,441 @@
+/**
+ * MapCompare — compare the loaded map against a second contact map file.
+ *
+ * ComparisonMode compares the current order with a snapshot of the same
+ * file. This compares two files: a new Hi-C library, or a re-scaffold of an
+ * assembly that was already curated. The second map is parsed on the shared
+ * parse worker (never loaded into state) and shown in a pane beside the main
+ * view, drawn by its own WebGLRenderer with the main camera, so pan and zoom
+ * stay linked (the pane's canvas drives the same Camera via linkCanvas).
+ *
+ * - Split view shows the second map, either aligned to this map's current
+ *   layout (same locus at the same screen position) or in its own file order.
+ * - Difference view shows second minus loaded, both aligned and scaled to the
+ *   same mean, on a blue-white-red scale (red: more contacts in the second).
+ *
+ * Contigs are matched by name (MapComparison.compareMaps); moved, inverted
+ * and missing contigs are marked along the edges of both views and listed in
+ * the sidebar. The aligned textures follow curation of the loaded map.
+ */
+
+import type { AppContext } from './AppContext';
+import type { CameraState } from '../renderer/Camera';
+import type { ContigInfo } from '../core/State';
+import { state } from '../core/State';
+import { events } from '../core/EventBus';
+import { WebGLRenderer } from '../renderer/WebGLRenderer';
+import type { ColorMapName } from '../renderer/ColorMaps';
+import { reorderContactMap } from '../renderer/ContactMapReorder';
+import {
+  compareMaps,
+  alignToLayout,
+  differenceMatrix,
+  type ContigMatch,
+  type MapComparison,
+} from '../analysis/MapComparison';
+import { parseContactMapBuffer } from './FileLoading';
+import { showLoading, updateLoading, hideLoading } from './LoadingOverlay';
+import { getOverviewSize } from './AnalysisPanel';
+
+/** A second contact map, parsed but not loaded. */
+export interface ComparisonMapData {
+  filename: string;
+  /** Contig table in file order (pixel coordinates of its own texture). */
+  contigs: ContigInfo[];
+  textureSize: number;
+  /** Overview in file order, row-major. */
+  overview: Float32Array;
+  overviewSize: number;
+}
+
+export type MapCompareView = 'split' | 'difference' | 'off';
+export type MapCompareLayout = 'aligned' | 'file';
+
+/** How many changed contigs the sidebar lists. */
+const MAX_LISTED_CHANGES = 50;
+
+const STATUS_COLORS = {
+  moved: 'rgba(243, 156, 18, 0.8)',    // orange, as in ComparisonMode
+  inverted: 'rgba(155, 89, 182, 0.8)', // purple
+  missing: 'rgba(231, 76, 60, 0.8)',   // red
+};
+
+let other: ComparisonMapData | null = null;
+let view: MapCompareView = 'split';
+let layout: MapCompareLayout = 'aligned';
+let comparison: MapComparison | null = null;
+let paneRenderer: WebGLRenderer | null = null;
+let paneColorMap: ColorMapName | null = null;
+/** The pane texture and comparison need recomputing. */
+let dirty = true;
+let differenceScale = 0;
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function statusOf(m: ContigMatch): keyof typeof STATUS_COLORS | null {
+  if (m.missing) return 'missing';
+  if (m.inverted) return 'inverted';
+  if (m.moved) return 'moved';
+  return null;
+}
+
+function isPaneVisible(): boolean {
+  return other !== null && view !== 'off' && state.get().map !== null;
+}
+
+// ---------------------------------------------------------------------------
+// Loading
+// ---------------------------------------------------------------------------
+
+/** Use `data` as the comparison map (replacing any previous one). */
+export function setComparisonMap(ctx: AppContext, data: ComparisonMapData | null): void {
+  other = data;
+  dirty = true;
+  comparison = null;
+  applyPaneVisibility(ctx);
+  updateMapComparePanel(ctx);
+}
+
+export function clearComparisonMap(ctx: AppContext): void {
+  setComparisonMap(ctx, null);
+}
+
+/** Parse `file` and compare it against the loaded map. */
+export async function loadComparisonMap(ctx: AppContext, file: File): Promise<void> {
+  if (!state.get().map) {
+    ctx.showToast('Load a map before adding one to compare');
+    return;
+  }
+  showLoading(`Loading ${file.name} for comparison`, 'Reading file...');
+  try {
+    const buffer = await file.arrayBuffer();
+    const parsed = await parseContactMapBuffer(buffer, (message, percent) => updateLoading(message, percent));
+    setComparisonMap(ctx, {
+      filename: file.name,
+      contigs: parsed.contigs.map((c, i) => ({
+        name: c.name, originalIndex: i, length: c.length,
+        pixelStart: c.pixelStart, pixelEnd: c.pixelEnd,
+        inverted: false, scaffoldId: null,
+      })),
+      textureSize: parsed.mapSize,
+      overview: parsed.overview,
+      overviewSize: parsed.overviewSize,
+    });
+    const summary = getMapComparison()?.summary;
+    ctx.showToast(summary
+      ? `Comparing with ${file.name} — ${summary.matched} contigs matched`
+      : `Comparing with ${file.name}`);
+  } catch (err) {
+    console.error('Comparison map error:', err);
+    ctx.showToast(`Could not load comparison map: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  } finally {
+    hideLoading();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Comparison state
+// ---------------------------------------------------------------------------
+
+/** Contig matching between the loaded map and the comparison map, or null. */
+export function getMapComparison(): MapComparison | null {
+  const s = state.get();
+  if (!other || !s.map) return null;
+  if (!comparison || dirty) {
+    comparison = compareMaps(
+      { contigs: s.map.contigs, contigOrder: s.contigOrder },
+      { contigs: other.contigs, contigOrder: other.contigs.map((_, i) => i) },
+    );
+  }
+  return comparison;
+}
+
+export function setMapCompareView(ctx: AppContext, next: MapCompareView): void {
+  view = next;
+  dirty = true;
+  applyPaneVisibility(ctx);
+  updateMapComparePanel(ctx);
+}
+
+export function setMapCompareLayout(ctx: AppContext, next: MapCompareLayout): void {
+  layout = next;
+  dirty = true;
+  ctx.requestRender();
+}
+
+/** The matrix shown in the pane for the current view and layout. */
+function paneMatrix(): { matrix: Float32Array; size: number } | null {
+  const s = state.get();
+  if (!other || !s.map) return null;
+  if (view === 'split' && layout === 'file') {
+    return { matrix: other.overview, size: other.overviewSize };
+  }
+  const original = s.map.originalContactMap;
+  const size = getOverviewSize();
+  if (!original || size === 0) return null;
+  const here = { contigs: s.map.contigs, contigOrder: s.contigOrder };
+  const aligned = alignToLayout(here, other.overview, other.contigs, other.textureSize, size);
+  if (view === 'difference') {
+    const result = differenceMatrix(reorderContactMap(original, s.map.contigs, s.contigOrder, size), aligned);
+    differenceScale = result.scale;
+    return { matrix: result.matrix, size };
+  }
+  // Bins of contigs the second map lacks are drawn empty.
+  for (let i = 0; i < aligned.length; i++) {
+    if (Number.isNaN(aligned[i])) aligned[i] = 0;
+  }
+  return { matrix: aligned, size };
+}
+
+/** Boundaries (normalized) of the pane's layout. */
+function paneBoundaries(ctx: AppContext): number[] {
+  if (!other || view !== 'split' || layout !== 'file') return ctx.contigBoundaries;
+  return other.contigs.map((c) => c.pixelEnd / other!.textureSize);
+}
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+function applyPaneVisibility(ctx: AppContext): void {
+  const visible = isPaneVisible();
+  const body = document.body;
+  if (body && body.classList.contains('map-compare-split') !== visible) {
+    body.classList.toggle('map-compare-split', visible);
+    // Both views change size; let size-dependent overlays catch up.
+    window.dispatchEvent(new Event('resize'));
+  }
+  ctx.requestRender();
+}
+
+function getPaneRenderer(ctx: AppContext): WebGLRenderer | null {
+  if (paneRenderer) return paneRenderer;
+  const canvas = document.getElementById('compare-canvas') as HTMLCanvasElement | null;
+  if (!canvas) return null;
+  try {
+    paneRenderer = new WebGLRenderer(canvas);
+  } catch (err) {
+    console.warn('Comparison view unavailable:', err);
+    return null;
+  }
+  ctx.camera.linkCanvas(canvas);
+  return paneRenderer;
+}
+
+/**
+ * Draw moved/inverted/missing markers along the top and left edges, one bar
+ * per contig span. `toCanvas` maps a normalized map position to CSS pixels.
+ */
+function drawStatusBars(
+  c2d: CanvasRenderingContext2D,
+  matches: ContigMatch[],
+  boundaries: number[],
+  toCanvas: (p: number) => { x: number; y: number },
+  width: number,
+  height: number,
+): void {
+  c2d.lineWidth = 3;
+  for (const m of matches) {
+    const status = statusOf(m);
+    if (!status || m.orderIndex >= boundaries.length) continue;
+    const start = toCanvas(m.orderIndex === 0 ? 0 : boundaries[m.orderIndex - 1]);
+    const end = toCanvas(boundaries[m.orderIndex]);
+    c2d.strokeStyle = STATUS_COLORS[status];
+    if (start.x < width && end.x > 0) {
+      c2d.beginPath();
+      c2d.moveTo(Math.max(0, start.x), 1.5);
+      c2d.lineTo(Math.min(width, end.x), 1.5);
+      c2d.stroke();
+    }
+    if (start.y < height && end.y > 0) {
+      c2d.beginPath();
+      c2d.moveTo(1.5, Math.max(0, start.y));
+      c2d.lineTo(1.5, Math.min(height, end.y));
+      c2d.stroke();
+    }
+  }
+}
+
+/** Mark changed contigs on the main map (drawn on the label canvas). */
+export function renderMapCompareOverlay(
+  ctx: AppContext,
+  canvasCtx: CanvasRenderingContext2D,
+  cam: CameraState,
+  canvasWidth: number,
+  canvasHeight: number,
+): void {
+  if (!isPaneVisible()) return;
+  const result = getMapComparison();
+  if (!result) return;
+  canvasCtx.save();
+  // The label canvas arrives at identity; coordinates below are CSS pixels.
+  const dpr = globalThis.devicePixelRatio || 1;
+  canvasCtx.scale(dpr, dpr);
+  drawStatusBars(canvasCtx, result.contigs, ctx.contigBoundaries,
+    (p) => ctx.renderer.mapToCanvas(p, p, cam), canvasWidth, canvasHeight);
+  canvasCtx.restore();
+}
+
+/** Draw the comparison pane with the shared camera. Called once per frame. */
+export function renderComparePane(ctx: AppContext, cam: CameraState): void {
+  if (!isPaneVisible()) return;
+  const renderer = getPaneRenderer(ctx);
+  if (!renderer) return;
+  const s = state.get();
+
+  const colorMap: ColorMapName = view === 'difference' ? 'blue-white-red' : ctx.currentColorMap;
+  if (colorMap !== paneColorMap) {
+    renderer.setColorMap(colorMap);
+    paneColorMap = colorMap;
+  }
+  if (dirty) {
+    const pane = paneMatrix();
+    if (pane) renderer.uploadContactMap(pane.matrix, pane.size);
+    comparison = null;
+    dirty = false;
+    updateMapComparePanel(ctx);
+  }
+
+  const difference = view === 'difference';
+  const boundaries = paneBoundaries(ctx);
+  renderer.render(cam, {
+    gamma: difference ? 1 : s.gamma,
+    floor: difference ? 0 : s.signalFloor,
+    ceil: difference ? 1 : s.signalCeil,
+    showGrid: s.showGrid,
+    gridOpacity: 0.6,
+    contigBoundaries: boundaries,
+  });
+
+  const overlay = document.getElementById('compare-overlay-canvas') as HTMLCanvasElement | null;
+  const c2d = overlay?.getContext('2d');
+  const result = getMapComparison();
+  if (!overlay || !c2d || !result) return;
+  const dpr = globalThis.devicePixelRatio || 1;
+  const w = overlay.clientWidth;
+  const h = overlay.clientHeight;
+  if (overlay.width !== Math.floor(w * dpr) || overlay.height !== Math.floor(h * dpr)) {
+    overlay.width = Math.floor(w * dpr);
+    overlay.height = Math.floor(h * dpr);
+  }
+  c2d.setTransform(dpr, 0, 0, dpr, 0, 0);
+  c2d.clearRect(0, 0, w, h);
+  const ownOrder = view === 'split' && layout === 'file';
+  drawStatusBars(c2d, ownOrder ? result.otherContigs : result.contigs, boundaries,
+    (p) => renderer.mapToCanvas(p, p, cam), w, h);
+}
+
+// ---------------------------------------------------------------------------
+// Sidebar panel
+// ---------------------------------------------------------------------------
+
+export function updateMapComparePanel(ctx: AppContext): void {
+  const controls = document.getElementById('compare-controls');
+  const summaryEl = document.getElementById('compare-summary');
+  const changesEl = document.getElementById('compare-changes');
+  const title = document.getElementById('compare-pane-title');
+  const result = getMapComparison();
+
+  if (controls) controls.style.display = other ? 'block' : 'none';
+  const layoutSelect = document.getElementById('compare-layout-select') as HTMLSelectElement | null;
+  if (layoutSelect) layoutSelect.disabled = view !== 'split';
+  if (!other || !result) {
+    if (summaryEl) summaryEl.innerHTML = '';
+    if (changesEl) changesEl.innerHTML = '';
+    return;
+  }
+
+  if (title) {
+    title.textContent = view === 'difference'
+      ? `${other.filename} − loaded map${differenceScale > 0 ? ` (±${differenceScale.toPrecision(2)}× mean)` : ''}`
+      : other.filename;
+  }
+
+  const sm = result.summary;
+  if (summaryEl) {
+    const badges = [`<span class="diff-badge diff-unchanged">${sm.matched} matched</span>`];
+    if (sm.moved > 0) badges.push(`<span class="diff-badge diff-moved">${sm.moved} moved</span>`);
+    if (sm.inverted > 0) badges.push(`<span class="diff-badge diff-inverted">${sm.inverted} inverted</span>`);
+    if (sm.missingFromOther > 0) {
+      badges.push(`<span class="diff-badge diff-removed" title="In the loaded map only">${sm.missingFromOther} missing there</span>`);
+    }
+    if (sm.missingFromThis > 0) {
+      badges.push(`<span class="diff-badge diff-removed" title="In ${escapeHtml(other.filename)} only">${sm.missingFromThis} missing here</span>`);
+    }
+    summaryEl.innerHTML = `<div class="diff-summary">${badges.join(' ')}</div>`;
+  }
+
+  if (changesEl) {
+    const changed = result.contigs.filter((m) => statusOf(m) !== null);
+    const extra = result.otherContigs.filter((m) => m.missing);
+    const rows = changed.slice(0, MAX_LISTED_CHANGES).map((m) => {
+      const status = statusOf(m)!;
+      const label = status === 'missing' ? 'not in second map'
+        : [m.moved ? 'moved' : '', m.inverted ? 'inverted' : ''].filter(Boolean).join(', ');
+      return `<div class="compare-change" data-order-index="${m.orderIndex}">
+        <span class="collab-swatch" style="background:${STATUS_COLORS[status]}"></span>
+        <span class="compare-change-name">${escapeHtml(m.name)}</span>
+        <span class="compare-change-status">${label}</span>
+      </div>`;
+    });
+    const more = changed.length > MAX_LISTED_CHANGES
+      ? `<div class="compare-change-more">and ${changed.length - MAX_LISTED_CHANGES} more</div>` : '';
+    const extraNote = extra.length > 0
+      ? `<div class="compare-change-more" title="${escapeHtml(extra.slice(0, MAX_LISTED_CHANGES).map((m) => m.name).join(', '))}">`
+        + `${extra.length} contig${extra.length === 1 ? '' : 's'} only in ${escapeHtml(other.filename)}</div>` : '';
+    changesEl.innerHTML = rows.join('') + more + extraNote;
+  }
+}
+
+/** Centre the camera on the contig at a display position of the loaded map. */
+function goToContig(ctx: AppContext, orderIndex: number): void {
+  const b = ctx.contigBoundaries;
+  if (orderIndex < 0 || orderIndex >= b.length) return;
+  const start = orderIndex === 0 ? 0 : b[orderIndex - 1];
+  ctx.camera.zoomToRegion(start, start, b[orderIndex], b[orderIndex]);
+}
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+export function setupMapCompare(ctx: AppContext): void {
+  const input = document.getElementById('compare-file-input') as HTMLInputElement | null;
+  document.getElementById('btn-compare-load')?.addEventListener('click', () => input?.click());
+  input?.addEventListener('change', () => {
+    const file = input.files?.[0];
+    input.value = '';
+    if (file) void loadComparisonMap(ctx, file);
+  });
+  document.getElementById('btn-compare-close')?.addEventListener('click', () => {
+    clearComparisonMap(ctx);
+    ctx.showToast('Comparison closed');
+  });
+
+  const viewSelect = document.getElementById('compare-view-select') as HTMLSelectElement | null;
+  viewSelect?.addEventListener('change', () => setMapCompareView(ctx, viewSelect.value as MapCompareView));
+  const layoutSelect = document.getElementById('compare-layout-select') as HTMLSelectElement | null;
+  layoutSelect?.addEventListener('change', () => setMapCompareLayout(ctx, layoutSelect.value as MapCompareLayout));
+
+  document.getElementById('compare-changes')?.addEventListener('click', (e) => {
+    const row = (e.target as HTMLElement).closest<HTMLElement>('[data-order-index]');
+    if (row) goToContig(ctx, Number(row.dataset.orderIndex));
+  });
+
+  // The aligned views and the matching follow the loaded map's layout.
+  const invalidate = () => {
+    if (!other) return;
+    dirty = true;
+    ctx.requestRender();
+  };
+  for (const event of ['curation:cut', 'curation:join', 'curation:invert', 'curation:move',
+    'curation:undo', 'curation:redo', 'branch:changed'] as const) {
+    events.on(event, invalidate);
+  }
+  events.on('file:loaded', () => {
+    invalidate();
+    applyPaneVisibility(ctx);
+  });
+}
@@ -0,0 +1,108 @@
+/**
+ * ReferenceGuide — load a PAF alignment of the contigs against a related
+ * reference genome, show it as a synteny track, and run the reference-guided
+ * sort.
+ *
+ * The alignment lives here until the next map loads. The synteny track is
+ * rebuilt after every curation (refreshSyntenyTrack, called from
+ * refreshAfterCuration) so it follows the display order.
+ */
+
+import type { AppContext } from './AppContext';
+import { state } from '../core/State';
+import { parsePAF, type PAFRecord } from '../formats/PAFParser';
+import { referenceChromosomes, syntenyTrack } from '../analysis/Synteny';
+import { referenceSortContigs } from '../curation/BatchOperations';
+import { showLoading, updateLoading, hideLoading } from './LoadingOverlay';
+
+const SYNTENY_TRACK = 'Synteny';
+
+let alignment: { name: string; records: PAFRecord[] } | null = null;
+
+/** Rebuild the synteny track in the current order, keeping its visibility. */
+export function refreshSyntenyTrack(ctx: AppContext): void {
+  const s = state.get();
+  if (!alignment || !s.map) return;
+  const visible = ctx.trackRenderer.getTrack(SYNTENY_TRACK)?.visible ?? true;
+  const track = syntenyTrack(SYNTENY_TRACK, s.map.contigs, s.contigOrder, s.map.textureSize, alignment.records);
+  track.visible = visible;
+  ctx.trackRenderer.addTrack(track);
+}
+
+/** Drop the alignment and its track (a new map was loaded). */
+export function clearReferenceAlignment(ctx: AppContext): void {
+  if (!alignment) return;
+  alignment = null;
+  ctx.trackRenderer.removeTrack(SYNTENY_TRACK);
+}
+
+export async function loadReferenceAlignment(ctx: AppContext, file: File): Promise<void> {
+  const s = state.get();
+  if (!s.map) {
+    ctx.showToast('Load a map file first');
+    return;
+  }
+  showLoading('Loading alignment', 'Reading PAF file...');
+  try {
+    updateLoading('Reading PAF file...', 15);
+    const text = await file.text();
+    updateLoading('Parsing alignments...', 55);
+    const records = parsePAF(text);
+    if (records.length === 0) {
+      ctx.showToast('No alignments found in PAF file');
+      return;
+    }
+    updateLoading('Building synteny track...', 85);
+    alignment = { name: file.name, records };
+    refreshSyntenyTrack(ctx);
+    ctx.tracksVisible = true;
+    ctx.updateTrackConfigPanel();
+    const chromosomes = referenceChromosomes(records).length;
+    ctx.showToast(`Reference alignment: ${records.length} alignments to ${chromosomes} chromosome(s)`);
+  } catch (err) {
+    console.error('PAF parse error:', err);
+    ctx.showToast(`Alignment load failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  } finally {
+    hideLoading();
+  }
+}
+
+/**
+ * Order, orient and scaffold the contigs by the loaded reference. With
+ * `hicOverrule` (the default), Hi-C link scores overrule the reference
+ * where they clearly disagree.
+ */
+export function runReferenceSort(ctx: AppContext, hicOverrule = true): void {
+  const s = state.get();
+  if (!s.map) {
+    ctx.showToast('No map loaded');
+    return;
+  }
+  if (!alignment) {
+    ctx.showToast('Load a PAF alignment to a reference first');
+    return;
+  }
+  const records = alignment.records;
+  ctx.showToast('Sorting by reference...');
+  setTimeout(() => {
+    ctx.suppressCurationRefresh = true;
+    let result;
+    try {
+      result = referenceSortContigs(ctx.scaffoldManager, records, { hicOverrule });
+    } finally {
+      ctx.suppressCurationRefresh = false;
+    }
+    ctx.refreshAfterCuration();
+    ctx.showToast(result.description);
+  }, 50);
+}
+
+export function setupReferenceAlignmentInput(ctx: AppContext): void {
+  const input = document.getElementById('paf-file-input') as HTMLInputElement;
+  if (!input) return;
+  input.addEventListener('change', async () => {
+    const file = input.files?.[0];
+    if (file) await loadReferenceAlignment(ctx, file);
+    input.value = '';
+  });
+}
@@ -0,0 +1,162 @@
+/**
+ * RegionAnalysisMode — runs the overview analyses at full resolution on the
+ * part of the diagonal in view (see analysis/RegionAnalysis.ts).
+ *
+ * The region matrix is assembled from detail tiles: those TileManager already
+ * holds are reused, and the rest are fetched from the tile decoder a few at a
+ * time. The results replace any earlier region tracks. Those tracks describe
+ * one layout of the map, so they are cleared when curation changes it and
+ * when another map is loaded.
+ */
+
+import type { AppContext } from './AppContext';
+import type { CameraState } from '../renderer/Camera';
+import type { AnalysisWorkerClient } from '../analysis/AnalysisWorkerClient';
+import { state, type AppState } from '../core/State';
+import { events } from '../core/EventBus';
+import { getVisibleRect, type TileKey } from '../renderer/TileManager';
+import {
+  planRegion,
+  fillRegionTile,
+  regionTracks,
+  REGION_MIN_BINS,
+  type RegionAnalysisParams,
+} from '../analysis/RegionAnalysis';
+import { formatBp } from './Sidebar';
+
+/** Tiles fetched per request while assembling a region. */
+const TILE_FETCH_CHUNK = 4;
+
+/** Names of the region tracks on screen. */
+let regionTrackNames: string[] = [];
+
+/** Layout the current region tracks were computed on (see layoutKey). */
+let trackLayout: string | null = null;
+
+/** Display order and orientation: what a region's bins depend on. */
+export function layoutKey(s: AppState): string {
+  return s.map ? s.contigOrder.map((id) => (s.map!.contigs[id].inverted ? `-${id}` : `${id}`)).join(',') : '';
+}
+
+/**
+ * The diagonal stretch inside the view, as map positions, or null when the
+ * view does not cross the diagonal.
+ */
+export function viewDiagonalSpan(
+  cam: CameraState,
+  canvasWidth: number,
+  canvasHeight: number,
+): { from: number; to: number } | null {
+  const r = getVisibleRect(cam, canvasWidth, canvasHeight);
+  const from = Math.max(0, r.minX, r.minY);
+  const to = Math.min(1, r.maxX, r.maxY);
+  return to > from ? { from, to } : null;
+}
+
+/** Remove the region tracks, if any. */
+export function clearRegionAnalysis(ctx: AppContext): void {
+  const names = regionTrackNames;
+  regionTrackNames = [];
+  trackLayout = null;
+  if (names.length === 0) return;
+  for (const name of names) ctx.trackRenderer.removeTrack(name);
+  ctx.updateTrackConfigPanel();
+}
+
+/**
+ * Analyze the diagonal in view at full resolution and show the results as
+ * region tracks. Resolves false (after a toast saying why) when there is
+ * nothing to gain or the map changed underneath.
+ */
+export async function runRegionAnalysis(
+  ctx: AppContext,
+  client: AnalysisWorkerClient,
+  params: RegionAnalysisParams,
+): Promise<boolean> {
+  const s = state.get();
+  const map = s.map;
+  if (!map?.contactMap) return false;
+  if (!map.parsedHeader || !ctx.tileDecoder) {
+    ctx.showToast('This map has no detail tiles to analyze');
+    return false;
+  }
+
+  const canvas = document.getElementById('map-canvas') as HTMLCanvasElement | null;
+  const span = canvas ? viewDiagonalSpan(ctx.camera.getState(), canvas.clientWidth, canvas.clientHeight) : null;
+  if (!span) {
+    ctx.showToast('Bring the diagonal into view to analyze it');
+    return false;
+  }
+  const plan = planRegion(map, s.contigOrder, span.from, span.to);
+  if (!plan) return false;
+  const overviewSize = Math.round(Math.sqrt(map.contactMap.length));
+  if (plan.binPixels * overviewSize >= map.textureSize) {
+    ctx.showToast('Zoom in to analyze the view: at this zoom it is no finer than the overview');
+    return false;
+  }
+  if (plan.size < REGION_MIN_BINS) {
+    ctx.showToast('Zoom out a little: the view holds too few bins to analyze');
+    return false;
+  }
+
+  // A region built for one layout is meaningless in another.
+  const layout = layoutKey(s);
+  const stale = () => {
+    const now = state.get();
+    return now.map?.parsedHeader !== map.parsedHeader || layoutKey(now) !== layout;
+  };
+
+  const matrix = new Float32Array(plan.size * plan.size);
+  for (let i = 0; i < plan.tiles.length; i += TILE_FETCH_CHUNK) {
+    const chunk = plan.tiles.slice(i, i + TILE_FETCH_CHUNK);
+    const missing: TileKey[] = [];
+    for (const key of chunk) {
+      const cached = ctx.tileManager?.getTile(key);
+      if (cached?.state === 'loaded') fillRegionTile(plan, key, cached.data, matrix);
+      else missing.push(key);
+    }
+    if (missing.length === 0) continue;
+    const fetched = await ctx.tileDecoder.fetchTiles(missing);
+    if (stale()) return false;
+    fetched.forEach((data, k) => {
+      if (data) fillRegionTile(plan, missing[k], data, matrix);
+    });
+  }
+
+  const scaffoldIds = plan.contigRanges.map((r) => map.contigs[s.contigOrder[r.orderIndex]].scaffoldId);
+  const result = await client.analyzeRegion(matrix, plan.size, plan.contigRanges, params, scaffoldIds);
+  if (stale()) {
+    ctx.showToast('The map changed during the region analysis; run it again');
+    return false;
+  }
+
+  clearRegionAnalysis(ctx);
+  for (const track of regionTracks(result, plan, map.textureSize)) {
+    ctx.trackRenderer.addTrack(track);
+    regionTrackNames.push(track.name);
+  }
+  trackLayout = layout;
+  ctx.tracksVisible = true;
+  ctx.updateTrackConfigPanel();
+
+  const totalBp = s.contigOrder.reduce((sum, id) => sum + map.contigs[id].length, 0);
+  const binBp = Math.round((plan.binPixels * totalBp) / map.textureSize);
+  const weak = result.joinSupport?.flaggedCount ?? 0;
+  ctx.showToast(
+    `Region at ${formatBp(binBp)} bins: ${result.insulation.boundaries.length} TAD boundaries, `
+    + `${weak} weak join${weak === 1 ? '' : 's'}, ${result.misassembly.summary.total} misassembly flag${result.misassembly.summary.total === 1 ? '' : 's'}`,
+    4000,
+  );
+  return true;
+}
+
+export function setupRegionAnalysis(ctx: AppContext): void {
+  // Region tracks are tied to the layout they were computed on. Contig edits
+  // that leave it alone (scaffold painting, tags) keep them.
+  const check = () => {
+    if (trackLayout !== null && layoutKey(state.get()) !== trackLayout) clearRegionAnalysis(ctx);
+  };
+  state.select((s) => s.contigOrder, check);
+  state.select((s) => s.map, check);
+  events.on('file:loaded', () => clearRegionAnalysis(ctx));
+}
@@ -8,6 +8,11 @@ import { state } from '../core/State';
 import { events } from '../core/EventBus';
 import { renderDragIndicator } from '../curation/DragReorder';
 import { renderComparisonOverlay } from './ComparisonMode';
+import { renderComparePane, renderMapCompareOverlay } from './MapCompare';
+import { renderLocusHighlight } from './LocusSearchBox';
+import { renderLoopMarkers } from './LoopMarkers';
+import { renderRulers, rulerThickness } from './Rulers';
+import { peerMarkers } from './CollabPanel';
 import type { TileKey } from '../renderer/TileManager';
 import { getContigNames, getContigScaffoldIds } from '../core/DerivedState';
 
@@ -62,6 +67,8 @@ export function startRenderLoop(ctx: AppContext): void {
       ctx.labelRenderer?.clear();
       ctx.scaffoldOverlay?.clear();
       ctx.waypointOverlay?.clear();
+      ctx.peerOverlay?.clear();
+      ctx.rulerRenderer?.clear();
       ctx.animFrameId = requestAnimationFrame(renderFrame);
       return;
     }
@@ -118,9 +125,13 @@ export function startRenderLoop(ctx: AppContext): void {
       if (started) ctx.renderer.endTiles();
     }
 
+    // Second map (split or difference view), with the same camera
+    renderComparePane(ctx, cam);
+
     const mapCanvas = document.getElementById('map-canvas') as HTMLCanvasElement;
     const w = mapCanvas.clientWidth;
     const h = mapCanvas.clientHeight;
+    const rulerPx = rulerThickness(ctx);
 
     if (ctx.labelRenderer && s.map) {
       const contigNames = getContigNames();
@@ -136,6 +147,7 @@ export function startRenderLoop(ctx: AppContext): void {
         canvasHeight: h,
         trackGutterPx,
         trackLabelBlockPx,
+        rulerPx,
       });
 
       // Draw drag indicator on the label canvas if dragging
@@ -164,6 +176,15 @@ export function startRenderLoop(ctx: AppContext): void {
           renderComparisonOverlay(ctx, labelCtx, cam, w, h);
         }
       }
+
+      // Contigs that differ from the comparison map
+      const labelCanvas = document.getElementById('label-canvas') as HTMLCanvasElement;
+      const labelCtx = labelCanvas?.getContext('2d');
+      if (labelCtx) {
+        renderMapCompareOverlay(ctx, labelCtx, cam, w, h);
+        renderLoopMarkers(ctx, labelCtx, cam);
+        renderLocusHighlight(ctx, labelCtx, cam);
+      }
     }
 
     // Scaffold overlay
@@ -189,11 +210,15 @@ export function startRenderLoop(ctx: AppContext): void {
         canvasWidth: w,
         canvasHeight: h,
         textureSize: s.map.textureSize,
+        rulerPx,
       });
     } else if (ctx.trackRenderer) {
       ctx.trackRenderer.clear();
     }
 
+    // Coordinate rulers
+    renderRulers(ctx, cam, w, h);
+
     // Waypoint overlay
     if (ctx.waypointOverlay) {
       ctx.waypointOverlay.render({
@@ -205,6 +230,20 @@ export function startRenderLoop(ctx: AppContext): void {
       });
     }
 
+    // Collaborators' cursors and selections
+    if (ctx.peerOverlay) {
+      if (ctx.collab) {
+        ctx.peerOverlay.render({
+          camera: cam,
+          canvasWidth: w,
+          canvasHeight: h,
+          peers: peerMarkers(ctx),
+        });
+      } else {
+        ctx.peerOverlay.clear();
+      }
+    }
+
     // Minimap
     ctx.minimap.render(cam);
 
@@ -0,0 +1,93 @@
+/**
+ * Rulers — genome-coordinate rulers along the map's edges (drawn by
+ * RulerRenderer), in one of two frames the user switches between:
+ *
+ * - contig: each contig from 0 to its length, running backwards on an
+ *   inverted contig, so a feature reads off in the contig's own coordinates;
+ * - scaffold: cumulative coordinates within each AGP object, the numbers the
+ *   AGP export will give, gaps between contigs included. Excluded contigs,
+ *   which the export drops, have no ruler.
+ */
+
+import type { AppContext } from './AppContext';
+import type { CameraState } from '../renderer/Camera';
+import type { RulerSpan } from '../renderer/RulerRenderer';
+import { RulerRenderer } from '../renderer/RulerRenderer';
+import { state, type AppState } from '../core/State';
+import { orderOffsets } from '../core/GenomeCoordinates';
+import { agpContigPlacements } from '../export/AGPWriter';
+
+type RulerFrame = AppState['rulerFrame'];
+
+const FRAME_CYCLE: RulerFrame[] = ['contig', 'scaffold', 'off'];
+const FRAME_LABELS: Record<RulerFrame, string> = { contig: 'Contig', scaffold: 'Scaffold', off: 'Off' };
+
+/**
+ * The ruler spans for a frame: one per contig in display order (per
+ * included contig for the scaffold frame). Empty with no map or rulers off.
+ */
+export function rulerSpans(s: AppState, frame: RulerFrame = s.rulerFrame): RulerSpan[] {
+  if (!s.map || frame === 'off') return [];
+  const offsets = orderOffsets(s);
+  if (frame === 'contig') {
+    return s.contigOrder.map((id, i) => {
+      const c = s.map!.contigs[id];
+      return {
+        start: offsets[i],
+        end: offsets[i + 1],
+        bpStart: c.inverted ? c.length : 0,
+        bpEnd: c.inverted ? 0 : c.length,
+      };
+    });
+  }
+  // AGP objects run forward through display order whatever the orientation.
+  return agpContigPlacements(s).map((p) => ({
+    start: offsets[p.orderIndex],
+    end: offsets[p.orderIndex + 1],
+    bpStart: p.objectBeg - 1,
+    bpEnd: p.objectEnd,
+  }));
+}
+
+/** Thickness the rulers take from the canvas edges (0 when they are off). */
+export function rulerThickness(ctx: AppContext): number {
+  return ctx.rulerRenderer && state.get().rulerFrame !== 'off' ? RulerRenderer.THICKNESS : 0;
+}
+
+/** Draw the rulers for the current frame. Called once per frame. */
+export function renderRulers(ctx: AppContext, cam: CameraState, canvasWidth: number, canvasHeight: number): void {
+  if (!ctx.rulerRenderer) return;
+  const s = state.get();
+  if (s.rulerFrame === 'off') {
+    ctx.rulerRenderer.clear();
+    return;
+  }
+  ctx.rulerRenderer.render({
+    spans: rulerSpans(s),
+    camera: cam,
+    canvasWidth,
+    canvasHeight,
+    cornerLabel: s.rulerFrame === 'contig' ? 'C' : 'S',
+  });
+}
+
+export function setRulerFrame(ctx: AppContext, frame: RulerFrame): void {
+  state.update({ rulerFrame: frame });
+  const select = document.getElementById('ruler-frame-select') as HTMLSelectElement | null;
+  if (select) select.value = frame;
+  ctx.requestRender();
+}
+
+/** Step through contig → scaffold → off (the `R` shortcut). */
+export function cycleRulerFrame(ctx: AppContext): void {
+  const next = FRAME_CYCLE[(FRAME_CYCLE.indexOf(state.get().rulerFrame) + 1) % FRAME_CYCLE.length];
+  setRulerFrame(ctx, next);
+  ctx.showToast(`Rulers: ${FRAME_LABELS[next]}`);
+}
+
+export function setupRulers(ctx: AppContext): void {
+  const select = document.getElementById('ruler-frame-select') as HTMLSelectElement | null;
+  if (!select) return;
+  select.value = state.get().rulerFrame;
+  select.addEventListener('change', () => setRulerFrame(ctx, select.value as RulerFrame));
+}
@@ -0,0 +1,308 @@
+/**
+ * ScriptAssist — completions, hover docs and inline diagnostics for the
+ * Script Console input, on top of the DOM-free scripting/ScriptLanguage.
+ *
+ * The input never wraps and uses a monospace font, so a character offset maps
+ * to a pixel position by line and column alone; that is how the completion
+ * list is placed and how the pointer is mapped back to a token for hovers. A
+ * mirror layer behind the (transparent) textarea repeats the text invisibly
+ * and carries the diagnostic underlines.
+ *
+ * Keys while the completion list is open: Up/Down choose, Enter or Tab
+ * accept, Escape closes. Ctrl+Space opens it explicitly.
+ *
+ * Module-local state: the open completion list and the current diagnostics.
+ */
+
+import type { AppContext } from './AppContext';
+import { state } from '../core/State';
+import {
+  completeAt,
+  hoverAt,
+  diagnoseScript,
+  type CompletionResult,
+  type Diagnostic,
+  type ScriptLanguageSource,
+} from '../scripting/ScriptLanguage';
+
+/** Delay after the last keystroke before diagnostics are recomputed. */
+const DIAGNOSE_DELAY_MS = 200;
+
+let completion: { result: CompletionResult; selected: number } | null = null;
+let diagnostics: Diagnostic[] = [];
+let diagnoseTimer: ReturnType<typeof setTimeout> | null = null;
+
+function escapeHtml(s: string): string {
+  return s.replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c] as string);
+}
+
+function languageSource(ctx: AppContext): ScriptLanguageSource {
+  return { state, scaffolds: () => ctx.scaffoldManager.getAllScaffolds() };
+}
+
+// ---------------------------------------------------------------------------
+// Geometry (monospace, no wrapping)
+// ---------------------------------------------------------------------------
+
+interface TextMetrics {
+  charWidth: number;
+  lineHeight: number;
+  padLeft: number;
+  padTop: number;
+}
+
+function measure(input: HTMLTextAreaElement): TextMetrics {
+  const style = getComputedStyle(input);
+  const canvas = document.createElement('canvas').getContext('2d');
+  let charWidth = parseFloat(style.fontSize) * 0.6;
+  if (canvas) {
+    canvas.font = `${style.fontSize} ${style.fontFamily}`;
+    charWidth = canvas.measureText('0000000000').width / 10;
+  }
+  const lineHeight = parseFloat(style.lineHeight) || parseFloat(style.fontSize) * 1.5;
+  return { charWidth, lineHeight, padLeft: parseFloat(style.paddingLeft), padTop: parseFloat(style.paddingTop) };
+}
+
+/** Top-left of the character at `offset`, relative to the editor box. */
+function pointAt(input: HTMLTextAreaElement, offset: number): { x: number; y: number; lineHeight: number } {
+  const m = measure(input);
+  const before = input.value.slice(0, offset);
+  const line = before.split('\n').length - 1;
+  const column = offset - (before.lastIndexOf('\n') + 1);
+  return {
+    x: m.padLeft + column * m.charWidth - input.scrollLeft,
+    y: m.padTop + line * m.lineHeight - input.scrollTop,
+    lineHeight: m.lineHeight,
+  };
+}
+
+/** Character offset under a pointer position, or -1 past the end of a line. */
+function offsetAt(input: HTMLTextAreaElement, clientX: number, clientY: number): number {
+  const m = measure(input);
+  const rect = input.getBoundingClientRect();
+  const line = Math.floor((clientY - rect.top - m.padTop + input.scrollTop) / m.lineHeight);
+  const column = Math.floor((clientX - rect.left - m.padLeft + input.scrollLeft) / m.charWidth);
+  const lines = input.value.split('\n');
+  if (line < 0 || line >= lines.length || column < 0 || column >= lines[line].length) return -1;
+  let offset = column;
+  for (let i = 0; i < line; i++) offset += lines[i].length + 1;
+  return offset;
+}
+
+/** Place a popup below the line at `offset`, or above it in the lower half. */
+function placeAt(input: HTMLTextAreaElement, el: HTMLElement, offset: number): void {
+  const p = pointAt(input, offset);
+  const box = input.parentElement!;
+  el.style.left = `${Math.max(0, Math.min(p.x, box.clientWidth - el.offsetWidth))}px`;
+  if (p.y + p.lineHeight / 2 > box.clientHeight / 2) {
+    el.style.top = '';
+    el.style.bottom = `${box.clientHeight - p.y}px`;
+  } else {
+    el.style.bottom = '';
+    el.style.top = `${p.y + p.lineHeight}px`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Diagnostics
+// ---------------------------------------------------------------------------
+
+/** Absolute [from, to) offsets of a diagnostic in `text`. */
+function diagnosticRange(text: string, d: Diagnostic): [number, number] {
+  const lines = text.split('\n');
+  let from = d.column - 1;
+  for (let i = 0; i < d.line - 1 && i < lines.length; i++) from += lines[i].length + 1;
+  const lineEnd = from - (d.column - 1) + (lines[d.line - 1]?.length ?? 0);
+  // A missing-token error points just past the line end; underline one cell.
+  return [from, Math.max(from + 1, Math.min(from + d.length, lineEnd))];
+}
+
+function renderOverlay(input: HTMLTextAreaElement): void {
+  const overlay = document.getElementById('script-input-overlay');
+  if (!overlay) return;
+  const text = input.value;
+  let html = '';
+  let at = 0;
+  for (const d of diagnostics) {
+    const [from, to] = diagnosticRange(text, d);
+    if (from < at) continue; // overlapping: keep the first
+    html += escapeHtml(text.slice(at, from));
+    // Past the line end there is no character to underline; pad with a space.
+    const marked = text.slice(from, to).replace(/\n/g, ' ') || ' ';
+    html += `<span class="script-diag script-diag-${d.severity}">${escapeHtml(marked)}</span>`;
+    at = Math.min(to, text.length);
+  }
+  html += escapeHtml(text.slice(at));
+  // A trailing newline needs content after it to keep its height.
+  overlay.innerHTML = html + ' ';
+  overlay.scrollTop = input.scrollTop;
+  overlay.scrollLeft = input.scrollLeft;
+}
+
+function updateDiagnostics(ctx: AppContext, input: HTMLTextAreaElement): void {
+  diagnostics = input.value.trim() === '' ? [] : diagnoseScript(input.value, languageSource(ctx));
+  renderOverlay(input);
+}
+
+function scheduleDiagnostics(ctx: AppContext, input: HTMLTextAreaElement): void {
+  if (diagnoseTimer) clearTimeout(diagnoseTimer);
+  // Keep the text layer in step with every keystroke; only the analysis waits.
+  renderOverlay(input);
+  diagnoseTimer = setTimeout(() => {
+    diagnoseTimer = null;
+    updateDiagnostics(ctx, input);
+  }, DIAGNOSE_DELAY_MS);
+}
+
+// ---------------------------------------------------------------------------
+// Completion list
+// ---------------------------------------------------------------------------
+
+function closeCompletions(): void {
+  completion = null;
+  const list = document.getElementById('script-completions');
+  if (list) list.hidden = true;
+}
+
+function renderCompletions(input: HTMLTextAreaElement): void {
+  const list = document.getElementById('script-completions');
+  if (!list || !completion) return;
+  list.innerHTML = completion.result.items
+    .map((item, i) =>
+      `<div class="script-completion${i === completion!.selected ? ' selected' : ''}" data-index="${i}">` +
+      `<span class="script-completion-label">${escapeHtml(item.label)}</span>` +
+      (item.detail ? `<span class="script-completion-detail">${escapeHtml(item.detail)}</span>` : '') +
+      '</div>')
+    .join('');
+  list.hidden = false;
+  placeAt(input, list, completion.result.from);
+  list.querySelector('.selected')?.scrollIntoView({ block: 'nearest' });
+}
+
+/** Open (or refresh) the list at the caret. Unless explicit, needs a typed prefix. */
+function openCompletions(ctx: AppContext, input: HTMLTextAreaElement, explicit: boolean): void {
+  const cursor = input.selectionStart;
+  if (cursor !== input.selectionEnd) return closeCompletions();
+  const typed = input.value.slice(0, cursor).match(/\S*$/)![0];
+  if (!explicit && typed === '') return closeCompletions();
+  const result = completeAt(input.value, cursor, languageSource(ctx));
+  if (!result) return closeCompletions();
+  completion = { result, selected: 0 };
+  renderCompletions(input);
+}
+
+function acceptCompletion(ctx: AppContext, input: HTMLTextAreaElement, index: number): void {
+  if (!completion) return;
+  const { from, to, items } = completion.result;
+  const item = items[index];
+  closeCompletions();
+  if (!item) return;
+  input.value = input.value.slice(0, from) + item.insertText + input.value.slice(to);
+  input.selectionStart = input.selectionEnd = from + item.insertText.length;
+  scheduleDiagnostics(ctx, input);
+}
+
+// ---------------------------------------------------------------------------
+// Hover
+// ---------------------------------------------------------------------------
+
+function hideHover(): void {
+  const el = document.getElementById('script-hover');
+  if (el) el.hidden = true;
+}
+
+function showHover(ctx: AppContext, input: HTMLTextAreaElement, e: MouseEvent): void {
+  const el = document.getElementById('script-hover');
+  if (!el) return;
+  const offset = offsetAt(input, e.clientX, e.clientY);
+  if (offset < 0) return hideHover();
+
+  const text = input.value;
+  const problem = diagnostics.find((d) => {
+    const [from, to] = diagnosticRange(text, d);
+    return offset >= from && offset < to;
+  });
+  let html: string;
+  let anchor: number;
+  if (problem) {
+    html = `<div class="script-hover-${problem.severity}">${escapeHtml(problem.message)}</div>`;
+    anchor = diagnosticRange(text, problem)[0];
+  } else {
+    const info = hoverAt(text, offset, languageSource(ctx));
+    if (!info) return hideHover();
+    html = `<div class="script-hover-title">${escapeHtml(info.title)}</div>` +
+      info.lines.map((l) => `<div>${escapeHtml(l)}</div>`).join('');
+    anchor = info.from;
+  }
+  el.innerHTML = html;
+  el.hidden = false;
+  placeAt(input, el, anchor);
+}
+
+// ---------------------------------------------------------------------------
+// Setup
+// ---------------------------------------------------------------------------
+
+/**
+ * Attach the editor features to the console input. Call before the console
+ * registers its own keydown handler: while the list is open this one consumes
+ * the navigation keys so history recall and Tab indentation do not fire.
+ */
+export function setupScriptAssist(ctx: AppContext, input: HTMLTextAreaElement): void {
+  input.addEventListener('keydown', (e) => {
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault();
+      openCompletions(ctx, input, true);
+      return;
+    }
+    if (!completion) return;
+    const count = completion.result.items.length;
+    let handled = true;
+    switch (e.key) {
+      case 'ArrowDown': completion.selected = (completion.selected + 1) % count; renderCompletions(input); break;
+      case 'ArrowUp': completion.selected = (completion.selected - 1 + count) % count; renderCompletions(input); break;
+      case 'Enter':
+      case 'Tab':
+        if (e.ctrlKey || e.metaKey) { handled = false; break; }
+        acceptCompletion(ctx, input, completion.selected);
+        break;
+      case 'Escape': closeCompletions(); break;
+      default: handled = false;
+    }
+    if (handled) {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+    }
+  });
+
+  input.addEventListener('input', () => {
+    openCompletions(ctx, input, false);
+    scheduleDiagnostics(ctx, input);
+  });
+  input.addEventListener('scroll', () => {
+    renderOverlay(input);
+    closeCompletions();
+    hideHover();
+  });
+  input.addEventListener('blur', closeCompletions);
+  input.addEventListener('focus', () => updateDiagnostics(ctx, input));
+  input.addEventListener('mousemove', (e) => showHover(ctx, input, e));
+  input.addEventListener('mouseleave', hideHover);
+
+  const list = document.getElementById('script-completions');
+  // mousedown, not click: the textarea must keep focus (its blur closes the list).
+  list?.addEventListener('mousedown', (e) => {
+    e.preventDefault();
+    const row = (e.target as HTMLElement).closest<HTMLElement>('.script-completion');
+    if (row) acceptCompletion(ctx, input, Number(row.dataset.index));
+  });
+}
+
+/**
+ * Recompute diagnostics now (e.g. after the input was replaced from history,
+ * the log or the macro recorder, which fire no 'input' event).
+ */
+export function refreshScriptDiagnostics(ctx: AppContext): void {
+  const input = document.getElementById('script-input') as HTMLTextAreaElement | null;
+  if (input) updateDiagnostics(ctx, input);
+}
@@ -10,6 +10,7 @@ import { operationsToScript } from '../scripting/ScriptReplay';
 import { DSL_REFERENCE, type DSLCommandDoc } from '../scripting/DSLReference';
 import { runDSL, dryRunValidate, previewEffects, type DSLRunOutcome } from './DSLRunner';
 import { setupMacroRecorder } from './MacroRecorder';
+import { setupScriptAssist, refreshScriptDiagnostics } from './ScriptAssist';
 
 let scriptConsoleVisible = false;
 
@@ -77,13 +78,16 @@ const HELP_CATEGORIES: DSLCommandDoc['category'][] = [
   'Curation',
   'Selection',
   'Scaffold',
+  'Annotation',
+  'Analysis',
   'Navigation',
   'Meta',
+  'Control',
 ];
 
 function renderHelpHtml(): string {
   let html =
-    '<div class="script-output-info">Curation DSL. Reference a contig by name (chr1) or 0-based index (#0). Ctrl/Cmd+Enter runs; Up/Down recalls history.</div>';
+    '<div class="script-output-info">Curation DSL. Reference a contig by name (chr1) or 0-based index (#0), or a variable as $name. Ctrl/Cmd+Enter runs; Up/Down recalls history.</div>';
   for (const cat of HELP_CATEGORIES) {
     const items = DSL_REFERENCE.filter((d) => d.category === cat);
     if (items.length === 0) continue;
@@ -110,7 +114,7 @@ function showHelp(): void {
 function renderResultLines(outcome: DSLRunOutcome): string {
   let html = '';
   for (const err of outcome.parseErrors) {
-    html += `<div class="script-output-error">Parse error (line ${err.line}): ${escapeHtml(err.message)}</div>`;
+    html += `<div class="script-output-error">Parse error (line ${err.line}, column ${err.column}): ${escapeHtml(err.message)}</div>`;
   }
   for (const result of outcome.results) {
     const cls = result.success ? 'script-output-success' : 'script-output-error';
@@ -169,6 +173,7 @@ export function setupScriptConsole(ctx: AppContext): void {
     const output = document.getElementById('script-output');
     if (input) input.value = '';
     if (output) output.innerHTML = '<span class="script-output-info">Output cleared.</span>';
+    refreshScriptDiagnostics(ctx);
   });
 
   // Generate script from operation log
@@ -191,11 +196,15 @@ export function setupScriptConsole(ctx: AppContext): void {
     });
     const scriptInput = document.getElementById('script-input') as HTMLTextAreaElement;
     if (scriptInput) scriptInput.value = script;
+    refreshScriptDiagnostics(ctx);
     const output = document.getElementById('script-output');
     if (output) output.innerHTML = `<span class="script-output-info">Generated ${s.undoStack.length} operation(s) as script. Edit and re-run as needed.</span>`;
   });
 
   const input = document.getElementById('script-input') as HTMLTextAreaElement;
+  // Completions, hover docs and diagnostics. Registered first so its keydown
+  // handler can claim Up/Down/Enter/Tab while the completion list is open.
+  if (input) setupScriptAssist(ctx, input);
   // Typing resets any in-progress history recall (programmatic value changes
   // during recall do not fire 'input', so recall is not self-interrupting).
   input?.addEventListener('input', () => { historyIndex = -1; });
@@ -217,6 +226,7 @@ export function setupScriptConsole(ctx: AppContext): void {
         historyIndex--;
         e.preventDefault();
         setInputValue(input, history[historyIndex]);
+        refreshScriptDiagnostics(ctx);
       }
       return;
     }
@@ -230,6 +240,7 @@ export function setupScriptConsole(ctx: AppContext): void {
         historyIndex = -1;
         setInputValue(input, historyDraft);
       }
+      refreshScriptDiagnostics(ctx);
       return;
     }
     // Tab inserts spaces instead of moving focus
@@ -280,7 +291,7 @@ export function runScript(ctx: AppContext): void {
     const successCount = outcome.results.filter((r) => r.success).length;
     const failCount = outcome.results.filter((r) => !r.success).length;
     const executed = outcome.results.length;
-    const notRun = outcome.commandCount - executed;
+    const notRun = outcome.notRun;
     html += `<div class="script-output-info">---</div>`;
     if (notRun > 0) {
       // Execution halts on the first failure; be explicit about what did not run.
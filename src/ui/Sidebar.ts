@@ -8,7 +8,7 @@ import { SelectionManager } from '../curation/SelectionManager';
 import { contigExclusion } from '../curation/ContigExclusion';
 import { misassemblyFlags } from '../curation/MisassemblyFlags';
 import { metaTags, type MetaTagType } from '../curation/MetaTagManager';
-import { move } from '../curation/CurationEngine';
+import { move, tag, untag } from '../curation/CurationEngine';
 import { detectChromosomeBlocks } from '../analysis/ScaffoldDetection';
 import { recomputeScaffoldDecay } from './AnalysisPanel';
 
@@ -364,14 +364,13 @@ export function setupContigSearch(ctx: AppContext): void {
     const s = state.get();
     const sel = document.getElementById('metatag-select') as HTMLSelectElement | null;
     if (!sel) return;
-    const tag = sel.value as MetaTagType;
+    const metaTag = sel.value as MetaTagType;
     if (s.selectedContigs.size === 0) {
       ctx.showToast('Select contigs first');
       return;
     }
-    // Meta tags are keyed by contig identity; map selected order positions to IDs.
-    metaTags.setMany([...s.selectedContigs].map((oi) => s.contigOrder[oi]), tag);
-    ctx.showToast(`Tagged ${s.selectedContigs.size} contig(s) as ${tag}`);
+    tag([...s.selectedContigs], metaTag);
+    ctx.showToast(`Tagged ${s.selectedContigs.size} contig(s) as ${metaTag}`);
     updateMetaTagSummary();
   });
 
@@ -381,7 +380,7 @@ export function setupContigSearch(ctx: AppContext): void {
       ctx.showToast('Select contigs first');
       return;
     }
-    metaTags.removeMany([...s.selectedContigs].map((oi) => s.contigOrder[oi]));
+    untag([...s.selectedContigs]);
     ctx.showToast(`Cleared tags from ${s.selectedContigs.size} contig(s)`);
     updateMetaTagSummary();
   });
@@ -7,7 +7,7 @@ import type { InteractionMode } from '../core/State';
 import { state } from '../core/State';
 import { events } from '../core/EventBus';
 import type { ColorMapName } from '../renderer/ColorMaps';
-import { exportAGP, exportBEDFile, exportFASTAFile, takeScreenshot, saveSession } from './ExportSession';
+import { exportAGP, exportBEDFile, exportFASTAFile, exportPretextFile, takeScreenshot, saveSession } from './ExportSession';
 import { applyOverviewMode } from './EventWiring';
 import { loadExampleDataset, loadDemoData, returnToLanding } from './FileLoading';
 import { performUndo, performRedo } from './CurationActions';
@@ -53,6 +53,9 @@ export function setupToolbar(ctx: AppContext): void {
   document.getElementById('btn-save-fasta')?.addEventListener('click', () => {
     exportFASTAFile(ctx);
   });
+  document.getElementById('btn-save-pretext')?.addEventListener('click', () => {
+    exportPretextFile(ctx);
+  });
   document.getElementById('btn-load-fasta')?.addEventListener('click', () => {
     document.getElementById('fasta-file-input')?.click();
   });
@@ -20,6 +20,8 @@ interface HistoryGroup {
   timestamp: number;
   /** Number of individual ops to undo/redo to reach this point */
   opCount: number;
+  /** Curator who made the newest op in the group (collaborative sessions). */
+  author?: string;
 }
 
 // ---------------------------------------------------------------------------
@@ -38,6 +40,15 @@ function iconFor(type: string): string {
   return TYPE_ICONS[type] ?? '?';
 }
 
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** Badge naming the curator, shown only for ops made in a collaborative session. */
+function authorBadge(g: HistoryGroup): string {
+  return g.author ? `<span class="history-author" title="by ${escapeHtml(g.author)}">${escapeHtml(g.author)}</span>` : '';
+}
+
 export function relativeTime(ts: number): string {
   const delta = Date.now() - ts;
   if (delta < 60_000) return `${Math.max(1, Math.round(delta / 1000))}s ago`;
@@ -70,6 +81,7 @@ export function groupOps(ops: CurationOperation[]): HistoryGroup[] {
         label,
         timestamp: op.timestamp,
         opCount: count,
+        author: op.author,
       });
       i = j;
     } else {
@@ -79,6 +91,7 @@ export function groupOps(ops: CurationOperation[]): HistoryGroup[] {
         label: op.description,
         timestamp: op.timestamp,
         opCount: 1,
+        author: op.author,
       });
       i--;
     }
@@ -118,6 +131,7 @@ export function updateUndoHistoryPanel(ctx: AppContext): void {
     html += `<div class="history-item" data-stack="undo" data-count="${undoCumulative}">
       <span class="history-icon">${icon}</span>
       <span class="history-desc">${g.label}${badge}</span>
+      ${authorBadge(g)}
       <span class="history-time">${relativeTime(g.timestamp)}</span>
     </div>`;
   }
@@ -139,6 +153,7 @@ export function updateUndoHistoryPanel(ctx: AppContext): void {
     html += `<div class="history-item redo" data-stack="redo" data-count="${redoCumulative}">
       <span class="history-icon">${icon}</span>
       <span class="history-desc">${g.label}${badge}</span>
+      ${authorBadge(g)}
       <span class="history-time">${relativeTime(g.timestamp)}</span>
     </div>`;
   }
@@ -52,10 +52,10 @@ export { performUndo, performRedo, invertSelectedContigs, cutAtCursorPosition, j
 export { runBatchSelectByPattern, runBatchSelectBySize, runBatchCut, runBatchJoin, runBatchInvert, runSortByLength, runAutoSort, runAutoCut, undoLastBatch } from './BatchActions';
 
 // ExportSession
-export { exportAGP, takeScreenshot, saveSession, loadSession, loadAGPFile, setupAGPImport, exportBEDFile, exportFASTAFile, loadReferenceFasta, setupFastaUpload, loadBedGraphTrack, setupTrackUpload } from './ExportSession';
+export { exportAGP, takeScreenshot, saveSession, loadSession, loadAGPFile, setupAGPImport, exportBEDFile, exportFASTAFile, exportPretextFile, loadReferenceFasta, setupFastaUpload, loadBedGraphTrack, setupTrackUpload } from './ExportSession';
 
 // FileLoading
-export { loadPretextFile, loadExampleDataset, loadSpecimen, loadDemoData, setupFileDrop, setupFileInput } from './FileLoading';
+export { loadPretextFile, loadContactMap, loadExampleDataset, loadSpecimen, loadDemoData, setupFileDrop, setupFileInput } from './FileLoading';
 
 // RenderLoop
 export { startRenderLoop, renderCutIndicator, onCameraChange, updateDetailTiles } from './RenderLoop';
@@ -69,12 +69,45 @@ export { isScriptConsoleVisible, toggleScriptConsole, setupScriptConsole, runScr
 // CommandPalette
 export { isCommandPaletteVisible, toggleCommandPalette, setupCommandPalette } from './CommandPalette';
 
+// LocusSearchBox
+export { setupLocusSearch, focusLocusSearch, goToHit, getLocusHighlight, clearLocusHighlight, renderLocusHighlight, describeHit } from './LocusSearchBox';
+
+// RegionAnalysisMode
+export { setupRegionAnalysis, runRegionAnalysis, clearRegionAnalysis, viewDiagonalSpan, layoutKey } from './RegionAnalysisMode';
+
+// LoopMarkers
+export { setLoopMarkers, clearLoopMarkers, loopMarkerPositions, renderLoopMarkers } from './LoopMarkers';
+
+// ReferenceGuide
+export { loadReferenceAlignment, runReferenceSort, refreshSyntenyTrack, clearReferenceAlignment, setupReferenceAlignmentInput } from './ReferenceGuide';
+
+// Rulers
+export { setupRulers, renderRulers, rulerSpans, rulerThickness, setRulerFrame, cycleRulerFrame } from './Rulers';
+
 // KeyboardShortcuts
 export { setupKeyboardShortcuts } from './KeyboardShortcuts';
 
 // Toolbar
 export { setupToolbar } from './Toolbar';
 
+// CollabPanel
+export { setupCollabPanel, updateCollabPanel, joinCollabSession, leaveCollabSession, peerMarkers } from './CollabPanel';
+
+// Autosave
+export { setupAutosave, scheduleAutosave, autosaveNow, offerAutosaveRestore, setAutosaveStore } from './Autosave';
+
+// DeepLinks
+export { setupDeepLinks, applyDeepLink, currentDeepLink } from './DeepLinks';
+
+// EmbedBridge
+export { setupEmbedBridge, isEmbedMode, getViewerState, gotoContig } from './EmbedBridge';
+
+// MapCompare
+export { setupMapCompare, updateMapComparePanel, loadComparisonMap, setComparisonMap, clearComparisonMap, getMapComparison, setMapCompareView, setMapCompareLayout } from './MapCompare';
+
+// BranchPanel
+export { setupBranchPanel, updateBranchPanel, switchBranch, forkBranch, createCheckpoint, compareBranches } from './BranchPanel';
+
 // SpecimenPicker
 export { setupSpecimenPicker } from './SpecimenPicker';
 
@@ -91,7 +124,7 @@ export { setupAssessmentPanel } from './AssessmentPanel';
 export { togglePatternGallery, setupPatternGallery } from './PatternGallery';
 
 // AnalysisPanel
-export { setupAnalysisPanel, runAllAnalyses, clearAnalysisTracks, recomputeScaffoldDecay, snapshotBaseline, resetBaseline, getBaselineDecay, updateProgressPanel, updateFastaHint, clearEnhancedMap, getEnhancedMapActive, getEnhancedOverview } from './AnalysisPanel';
+export { setupAnalysisPanel, runAllAnalyses, analyzeView, detectLoops, runPileup, loadPileupFeatures, screenContaminants, tagContaminants, clearAnalysisTracks, recomputeScaffoldDecay, snapshotBaseline, resetBaseline, getBaselineDecay, updateProgressPanel, updateFastaHint, clearEnhancedMap, getEnhancedMapActive, getEnhancedOverview } from './AnalysisPanel';
 
 // UndoHistoryPanel
 export { updateUndoHistoryPanel } from './UndoHistoryPanel';
@@ -61,6 +61,7 @@ describe('parseAGP', () => {
     const { rows } = parseAGP(text);
     expect(rows).toHaveLength(3);
     expect(rows.map((r) => r.contigName)).toEqual(['ctgA', 'ctgB', 'ctgC']);
+    expect(rows.map((r) => [r.componentBeg, r.componentEnd])).toEqual([[1, 100], [1, 200], [1, 120]]);
     expect(rows.map((r) => r.inverted)).toEqual([false, true, false]);
     expect(rows.map((r) => r.objectName)).toEqual(['scaffold_0', 'scaffold_0', 'unplaced_0']);
     expect(rows.map((r) => r.isUnplaced)).toEqual([false, false, true]);
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  AutosaveStore,
+  MemoryAutosaveBackend,
+  computeFileFingerprint,
+  fingerprintKey,
+  FINGERPRINT_HEADER_BYTES,
+} from '../../src/io/AutosaveStore';
+import type { SessionData } from '../../src/io/SessionManager';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeSession(order: number[]): SessionData {
+  return {
+    version: 1,
+    filename: 'test.pretext',
+    timestamp: 0,
+    contigOrder: order,
+    contigStates: {},
+    scaffolds: [],
+    camera: { x: 0.5, y: 0.5, zoom: 1 },
+    settings: { colorMapName: 'red-white', gamma: 1, showGrid: true },
+    operationLog: [],
+    waypoints: [],
+  };
+}
+
+const MIN = 60_000;
+const fp = computeFileFingerprint('test.pretext', 1000, new Uint8Array([1, 2, 3]));
+
+// ---------------------------------------------------------------------------
+// Fingerprints
+// ---------------------------------------------------------------------------
+
+describe('computeFileFingerprint', () => {
+  it('is stable for the same bytes and differs for different headers', () => {
+    const a = computeFileFingerprint('a.pretext', 10, new Uint8Array([1, 2, 3]));
+    const b = computeFileFingerprint('a.pretext', 10, new Uint8Array([1, 2, 3]).buffer);
+    const c = computeFileFingerprint('a.pretext', 10, new Uint8Array([1, 2, 4]));
+    expect(a).toEqual(b);
+    expect(a.headerHash).not.toBe(c.headerHash);
+    expect(fingerprintKey(a)).not.toBe(fingerprintKey(c));
+  });
+
+  it('only hashes the header bytes', () => {
+    const long = new Uint8Array(FINGERPRINT_HEADER_BYTES + 10);
+    const other = long.slice();
+    other[FINGERPRINT_HEADER_BYTES + 5] = 99;
+    expect(computeFileFingerprint('x', long.length, long))
+      .toEqual(computeFileFingerprint('x', other.length, other));
+  });
+
+  it('keys on name and size as well as the hash', () => {
+    const bytes = new Uint8Array([7]);
+    const key = fingerprintKey(computeFileFingerprint('x', 1, bytes));
+    expect(fingerprintKey(computeFileFingerprint('y', 1, bytes))).not.toBe(key);
+    expect(fingerprintKey(computeFileFingerprint('x', 2, bytes))).not.toBe(key);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Retention
+// ---------------------------------------------------------------------------
+
+describe('AutosaveStore', () => {
+  let store: AutosaveStore;
+
+  beforeEach(() => {
+    store = new AutosaveStore(new MemoryAutosaveBackend(), { checkpointIntervalMs: 5 * MIN, maxSnapshots: 4 });
+  });
+
+  it('returns snapshots newest first with their operation counts', async () => {
+    await store.save(fp, 'run1', makeSession([0, 1]), 1, 1000);
+    await store.save(fp, 'run2', makeSession([1, 0]), 2, 2000);
+    const list = await store.list(fp);
+    expect(list.map(r => r.operationCount)).toEqual([2, 1]);
+    expect(list[0].session.contigOrder).toEqual([1, 0]);
+    expect(list[0].fingerprint).toEqual(fp);
+  });
+
+  it('replaces rapid saves from the same run', async () => {
+    await store.save(fp, 'run1', makeSession([0]), 1, 0);
+    await store.save(fp, 'run1', makeSession([0]), 2, 1000);
+    await store.save(fp, 'run1', makeSession([0]), 3, 2000);
+    await store.save(fp, 'run1', makeSession([0]), 4, 3000);
+    const list = await store.list(fp);
+    // The first save stays as the run's starting point; the rest collapse.
+    expect(list.map(r => r.operationCount)).toEqual([4, 1]);
+  });
+
+  it('keeps a checkpoint once the interval has passed', async () => {
+    await store.save(fp, 'run1', makeSession([0]), 1, 0);
+    await store.save(fp, 'run1', makeSession([0]), 2, 6 * MIN);
+    await store.save(fp, 'run1', makeSession([0]), 3, 6 * MIN + 1000);
+    await store.save(fp, 'run1', makeSession([0]), 4, 6 * MIN + 2000);
+    const list = await store.list(fp);
+    expect(list.map(r => r.operationCount)).toEqual([4, 2, 1]);
+  });
+
+  it('keeps the last snapshot of an earlier run', async () => {
+    await store.save(fp, 'crashed', makeSession([0]), 1, 0);
+    await store.save(fp, 'crashed', makeSession([0]), 7, 1000);
+    await store.save(fp, 'next', makeSession([0]), 0, 2000);
+    await store.save(fp, 'next', makeSession([0]), 1, 3000);
+    const list = await store.list(fp);
+    expect(list.filter(r => r.runId === 'crashed').map(r => r.operationCount)).toContain(7);
+  });
+
+  it('caps the number of snapshots, dropping the oldest', async () => {
+    for (let i = 0; i < 6; i++) {
+      await store.save(fp, `run${i}`, makeSession([0]), i, i * 1000);
+    }
+    const list = await store.list(fp);
+    expect(list.map(r => r.operationCount)).toEqual([5, 4, 3, 2]);
+  });
+
+  it('separates files and clears one file only', async () => {
+    const other = computeFileFingerprint('other.pretext', 1000, new Uint8Array([1, 2, 3]));
+    await store.save(fp, 'run1', makeSession([0]), 1, 0);
+    await store.save(other, 'run1', makeSession([0]), 2, 0);
+    await store.clear(fp);
+    expect(await store.list(fp)).toHaveLength(0);
+    expect(await store.list(other)).toHaveLength(1);
+  });
+});
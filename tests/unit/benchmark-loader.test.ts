@@ -6,8 +6,8 @@
 import { describe, it, expect } from 'vitest';
 import { existsSync } from 'node:fs';
 import { resolve } from 'node:path';
-import { loadPretextFromDisk } from '../../bench/loader';
-import type { LoadedAssembly } from '../../bench/loader';
+import { loadPretextFromDisk } from '../../cli/loader';
+import type { LoadedAssembly } from '../../cli/loader';
 import { extractGroundTruth, detectSplits, buildChromosomeAssignments, extractChromosomeLabel, detectChromosomesByName, detectChromosomeBoundariesBySignal } from '../../bench/ground-truth';
 import { autoCut } from '../../src/curation/AutoCut';
 import { autoSort } from '../../src/curation/AutoSort';
@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { state, type ContigInfo } from '../../src/core/State';
+import { events } from '../../src/core/EventBus';
+import { CurationEngine } from '../../src/curation/CurationEngine';
+import { ScaffoldManager } from '../../src/curation/ScaffoldManager';
+import { metaTags } from '../../src/curation/MetaTagManager';
+import { contigExclusion } from '../../src/curation/ContigExclusion';
+import { BranchManager, DEFAULT_BRANCH_NAME } from '../../src/curation/BranchManager';
+import { compareBranchStates, contigRangesFor } from '../../src/analysis/BranchComparison';
+import { exportSession, importSession, createValidationReport } from '../../src/io/SessionManager';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeContig(name: string, index: number, pixelStart: number, pixelEnd: number, length: number): ContigInfo {
+  return { name, originalIndex: index, length, pixelStart, pixelEnd, inverted: false, scaffoldId: null };
+}
+
+function loadMap(): void {
+  state.update({
+    map: {
+      filename: 'test.pretext',
+      textureSize: 400,
+      numMipMaps: 1,
+      contigs: [
+        makeContig('chr1', 0, 0, 100, 10000),
+        makeContig('chr2', 1, 100, 200, 8000),
+        makeContig('chr3', 2, 200, 300, 6000),
+        makeContig('chr4', 3, 300, 400, 4000),
+      ],
+      textures: [new Float32Array(0)],
+      extensions: new Map(),
+    },
+    contigOrder: [0, 1, 2, 3],
+  });
+}
+
+function names(): string[] {
+  const s = state.get();
+  return s.contigOrder.map(id => s.map!.contigs[id].name);
+}
+
+let scaffolds: ScaffoldManager;
+let branches: BranchManager;
+
+beforeEach(() => {
+  state.reset();
+  metaTags.clearAll();
+  contigExclusion.clearAll();
+  loadMap();
+  scaffolds = new ScaffoldManager();
+  branches = new BranchManager(scaffolds);
+});
+
+// ---------------------------------------------------------------------------
+// Branches
+// ---------------------------------------------------------------------------
+
+describe('BranchManager', () => {
+  it('starts on a single main branch', () => {
+    expect(branches.getBranches().map(b => b.name)).toEqual([DEFAULT_BRANCH_NAME]);
+    expect(branches.hasBranchData()).toBe(false);
+  });
+
+  it('keeps each branch\'s order, contigs and history across switches', () => {
+    CurationEngine.move(3, 0);
+    const forked = branches.fork('alt');
+    expect(branches.getActiveBranch().id).toBe(forked.id);
+    CurationEngine.cut(1, 50);
+    CurationEngine.invert(0);
+    const altNames = names();
+    expect(altNames).toHaveLength(5);
+
+    branches.switchTo(1);
+    expect(names()).toEqual(['chr4', 'chr1', 'chr2', 'chr3']);
+    expect(state.get().map!.contigs).toHaveLength(4);
+    expect(state.get().undoStack).toHaveLength(1);
+
+    branches.switchTo(forked.id);
+    expect(names()).toEqual(altNames);
+    expect(state.get().undoStack).toHaveLength(3);
+    // The restored history still undoes correctly.
+    CurationEngine.undo();
+    CurationEngine.undo();
+    expect(names()).toEqual(['chr4', 'chr1', 'chr2', 'chr3']);
+  });
+
+  it('forks from an earlier point without losing the original redo stack', () => {
+    CurationEngine.move(3, 0);
+    CurationEngine.move(3, 0);
+    CurationEngine.undo();
+    branches.fork('from-undo');
+    CurationEngine.invert(2);
+    expect(state.get().redoStack).toHaveLength(0);
+
+    branches.switchTo(1);
+    expect(state.get().redoStack).toHaveLength(1);
+    CurationEngine.redo();
+    expect(names()).toEqual(['chr3', 'chr4', 'chr1', 'chr2']);
+  });
+
+  it('forks from a checkpoint', () => {
+    CurationEngine.move(3, 0);
+    const cp = branches.createCheckpoint('after move');
+    expect(cp.operationCount).toBe(1);
+    CurationEngine.move(3, 0);
+
+    const branch = branches.fork('retry', { checkpointId: cp.id });
+    expect(branch.forkedFrom).toBe('after move');
+    expect(names()).toEqual(['chr4', 'chr1', 'chr2', 'chr3']);
+    expect(() => branches.fork('x', { checkpointId: 99 })).toThrow('No checkpoint');
+  });
+
+  it('restores scaffolds per branch', () => {
+    scaffolds.createScaffold('Chr1', { record: false });
+    branches.fork('no-scaffolds');
+    scaffolds.restoreScaffolds([]);
+    branches.switchTo(1);
+    expect(scaffolds.getAllScaffolds().map(s => s.name)).toEqual(['Chr1']);
+  });
+
+  it('keeps each branch\'s meta tags and exclusions across switches and checkpoints', () => {
+    CurationEngine.tag([0], 'haplotig');
+    const cp = branches.createCheckpoint('tagged');
+    const alt = branches.fork('alt');
+    CurationEngine.untag([0]);
+    CurationEngine.tag([1], 'contaminant', 'bacterial');
+    CurationEngine.setExcluded([1], true);
+
+    branches.switchTo(1);
+    expect([...metaTags.getAllTags()]).toEqual([[0, { tag: 'haplotig' }]]);
+    expect(contigExclusion.getExcluded()).toEqual(new Set());
+    // Undo on main works against main's own tags.
+    CurationEngine.undo();
+    expect(metaTags.getTagCount()).toBe(0);
+
+    branches.switchTo(alt.id);
+    expect([...metaTags.getAllTags()]).toEqual([[1, { tag: 'contaminant', notes: 'bacterial' }]]);
+    expect(contigExclusion.getExcluded()).toEqual(new Set([1]));
+    CurationEngine.undo();
+    expect(contigExclusion.isExcluded(1)).toBe(false);
+
+    branches.fork('from checkpoint', { checkpointId: cp.id });
+    expect([...metaTags.getAllTags()]).toEqual([[0, { tag: 'haplotig' }]]);
+    expect(contigExclusion.getExcluded()).toEqual(new Set());
+  });
+
+  it('refuses to delete the active branch and drops a deleted branch\'s checkpoints', () => {
+    const alt = branches.fork('alt');
+    branches.createCheckpoint('on alt');
+    expect(() => branches.deleteBranch(alt.id)).toThrow('active branch');
+    branches.switchTo(1);
+    branches.deleteBranch(alt.id);
+    expect(branches.getBranches()).toHaveLength(1);
+    expect(branches.getCheckpoints()).toHaveLength(0);
+  });
+
+  it('emits branch:changed', () => {
+    const seen: number[] = [];
+    const off = events.on('branch:changed', e => seen.push(e.activeBranchId));
+    const alt = branches.fork('alt');
+    branches.switchTo(1);
+    off();
+    expect(seen).toEqual([alt.id, 1]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+describe('branch persistence', () => {
+  it('round-trips branches and checkpoints through a session file', () => {
+    CurationEngine.move(3, 0);
+    branches.createCheckpoint('start');
+    const alt = branches.fork('alt');
+    CurationEngine.cut(0, 50);
+    branches.switchTo(1);
+
+    const session = exportSession(state.get(), scaffolds);
+    session.branches = branches.exportBranches();
+    const report = createValidationReport();
+    const restored = importSession(JSON.stringify(session), report);
+    expect(report.dropped).toEqual([]);
+    expect(restored.branches!.branches.find(b => b.id === 1)!.state).toBeUndefined();
+
+    const other = new BranchManager(scaffolds);
+    other.importBranches(restored.branches!);
+    expect(other.getBranches().map(b => b.name)).toEqual([DEFAULT_BRANCH_NAME, 'alt']);
+    expect(other.getCheckpoints().map(c => c.name)).toEqual(['start']);
+    other.switchTo(alt.id);
+    expect(state.get().contigOrder).toHaveLength(5);
+    expect(state.get().undoStack.map(op => op.type)).toEqual(['move', 'cut']);
+    // New ids continue after the imported ones.
+    expect(other.fork('next').id).toBe(alt.id + 1);
+  });
+
+  it('persists each branch\'s meta tags and exclusions', () => {
+    const alt = branches.fork('alt');
+    CurationEngine.tag([2], 'unlocalised', 'chrUn');
+    CurationEngine.setExcluded([3], true);
+    branches.switchTo(1);
+
+    const session = exportSession(state.get(), scaffolds);
+    session.branches = branches.exportBranches();
+    const report = createValidationReport();
+    const restored = importSession(JSON.stringify(session), report);
+    expect(report.dropped).toEqual([]);
+
+    const other = new BranchManager(scaffolds);
+    other.importBranches(restored.branches!);
+    other.switchTo(alt.id);
+    expect([...metaTags.getAllTags()]).toEqual([[2, { tag: 'unlocalised', notes: 'chrUn' }]]);
+    expect(contigExclusion.getExcluded()).toEqual(new Set([3]));
+  });
+
+  it('drops malformed branch data on import', () => {
+    const session = exportSession(state.get(), scaffolds);
+    session.branches = branches.exportBranches();
+    session.branches.activeBranchId = 42;
+    const report = createValidationReport();
+    const restored = importSession(JSON.stringify(session), report);
+    expect(restored.branches).toBeUndefined();
+    expect(report.dropped.some(d => d.includes('branches'))).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Comparison
+// ---------------------------------------------------------------------------
+
+describe('compareBranchStates', () => {
+  it('computes metrics and weak joins per branch', () => {
+    const contigs = state.get().map!.contigs;
+    // Four blocks of strong diagonal signal, nothing between them.
+    const size = 16;
+    const matrix = new Float32Array(size * size);
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) {
+        if (Math.floor(i / 4) === Math.floor(j / 4)) matrix[i * size + j] = 10 / (1 + Math.abs(i - j));
+      }
+    }
+    const rows = compareBranchStates(
+      [
+        { contigs, contigOrder: [0, 1, 2, 3], operationCount: 0 },
+        { contigs, contigOrder: [2, 3], operationCount: 2 },
+      ],
+      { originalContactMap: matrix, textureSize: 400 },
+    );
+    expect(rows[0].metrics.contigCount).toBe(4);
+    expect(rows[1].metrics.contigCount).toBe(2);
+    expect(rows[1].metrics.operationCount).toBe(2);
+    expect(rows[0].joinSupport!.junctions.length).toBeGreaterThan(0);
+    expect(rows[0].health.overall).toBeGreaterThanOrEqual(0);
+    expect(rows[0].health.overall).toBeLessThanOrEqual(100);
+  });
+
+  it('skips join support without a contact map', () => {
+    const contigs = state.get().map!.contigs;
+    const [row] = compareBranchStates([{ contigs, contigOrder: [0, 1], operationCount: 0 }],
+      { originalContactMap: null, textureSize: 400 });
+    expect(row.joinSupport).toBeNull();
+  });
+
+  it('maps contigs to overview bins in display order', () => {
+    const contigs = state.get().map!.contigs;
+    expect(contigRangesFor(contigs, [3, 0], 400, 16)).toEqual([
+      { start: 0, end: 4, orderIndex: 0 },
+      { start: 4, end: 8, orderIndex: 1 },
+    ]);
+  });
+});
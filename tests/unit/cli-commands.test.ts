@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { ContigInfo, MapData } from '../../src/core/State';
+import { applyCurationScript } from '../../cli/curate';
+import { exportText } from '../../cli/export';
+import { analyzeCurrentState, formatReportTSV, parseAnalysisList } from '../../cli/analyze';
+import { diffAGP, formatDiffText } from '../../cli/diff';
+import { main } from '../../cli/openpretext';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Four 4-bin contigs on a 16-bin overview (textureSize 400, 100 px each). */
+function fourContigs(): ContigInfo[] {
+  return ['chr1', 'chr2', 'chr3', 'chr4'].map((name, i) => ({
+    name, originalIndex: i, length: 10000 - i * 2000,
+    pixelStart: i * 100, pixelEnd: (i + 1) * 100,
+    inverted: false, scaffoldId: null,
+  }));
+}
+
+/** Contact decays with distance; chr2|chr3 is a misjoin with none across it. */
+function misjoinOverview(): Float32Array {
+  const size = 16;
+  const m = new Float32Array(size * size);
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      const misjoined = Math.min(i, j) < 8 && Math.max(i, j) >= 8;
+      m[i * size + j] = misjoined ? 0 : Math.max(0, 6 - Math.abs(i - j));
+    }
+  }
+  return m;
+}
+
+function makeMap(overview: Float32Array | null = misjoinOverview()): MapData {
+  return {
+    filename: 'test.pretext',
+    textureSize: 400,
+    numMipMaps: 1,
+    tileResolution: 400,
+    tilesPerDimension: 1,
+    contigs: fourContigs(),
+    contactMap: null,
+    originalContactMap: overview,
+    rawTiles: null,
+    parsedHeader: null,
+    extensions: new Map(),
+  };
+}
+
+function agp(rows: [object: string, contig: string, orientation: '+' | '-'][]): string {
+  return rows.map(([obj, contig, o], i) => `${obj}\t1\t100\t${i + 1}\tW\t${contig}\t1\t100\t${o}`).join('\n') + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// export
+// ---------------------------------------------------------------------------
+
+describe('exportText', () => {
+  it('writes each format from the curated outcome', () => {
+    const outcome = applyCurationScript(makeMap(null), [0, 1, 2, 3], 'invert chr2');
+    expect(exportText(outcome, 'agp')).toBe(outcome.agp);
+    expect(exportText(outcome, 'bed')).toContain('chr2\t0\t-');
+    const session = JSON.parse(exportText(outcome, 'session'));
+    expect(session.contigStates[1].inverted).toBe(true);
+    expect(session.history.undoStack).toHaveLength(1);
+  });
+
+  it('refuses FASTA without reference sequences', () => {
+    const outcome = applyCurationScript(makeMap(null), [0, 1, 2, 3], '');
+    expect(() => exportText(outcome, 'fasta')).toThrow('needs --fasta');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// analyze
+// ---------------------------------------------------------------------------
+
+describe('analyzeCurrentState', () => {
+  it('reports the requested analyses on the curated order', () => {
+    applyCurationScript(makeMap(), [0, 1, 2, 3], '');
+    const { report } = analyzeCurrentState(['joinsupport', 'health']);
+
+    expect(report.contigs).toBe(4);
+    expect(report.insulation).toBeUndefined();
+    expect(report.joinsupport).toMatchObject({ scored: 3, flagged: 1 });
+    expect(report.joinsupport!.junctions.find((j) => j.flagged)).toMatchObject({ left: 'chr2', right: 'chr3' });
+    expect(report.health!.overall).toBeGreaterThanOrEqual(0);
+  });
+
+  it('follows the order a script leaves', () => {
+    applyCurationScript(makeMap(), [0, 1, 2, 3], 'move chr3 to 0');
+    const { report } = analyzeCurrentState(['joinsupport']);
+    expect(report.joinsupport!.junctions.map((j) => j.left)).toEqual(['chr3', 'chr1', 'chr2']);
+  });
+
+  it('formats one TSV table per analysis', () => {
+    applyCurationScript(makeMap(), [0, 1, 2, 3], '');
+    const tsv = formatReportTSV(analyzeCurrentState(['insulation', 'decay', 'joinsupport', 'health']));
+    expect(tsv).toContain('contig\tstart\tend\tstrength');
+    expect(tsv).toContain('# P(s) decay curve');
+    expect(tsv).toContain('chr2\tchr3\t');
+    expect(tsv).toMatch(/^overall\t\d+\.\d$/m);
+  });
+
+  it('parses the analysis list', () => {
+    expect(parseAnalysisList('Decay, health')).toEqual(['decay', 'health']);
+    expect(() => parseAnalysisList('tads')).toThrow("Unknown analysis 'tads'");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// diff
+// ---------------------------------------------------------------------------
+
+describe('diffAGP', () => {
+  const before = agp([['scaffold_1', 'a', '+'], ['scaffold_1', 'b', '+'], ['unplaced_0', 'c', '+']]);
+
+  it('finds nothing between identical layouts', () => {
+    const d = diffAGP(before, before);
+    expect(d.identical).toBe(true);
+    expect(formatDiffText(d, 'x', 'y')).toContain('Layouts are identical.');
+  });
+
+  it('reports flips, broken and new joins, and membership changes', () => {
+    const after = agp([['scaffold_1', 'b', '-'], ['scaffold_2', 'a', '+'], ['scaffold_2', 'd', '+']]);
+    const d = diffAGP(before, after);
+    expect(d).toMatchObject({
+      onlyInA: ['c'],
+      onlyInB: ['d'],
+      orientationChanged: ['b'],
+      brokenJoins: [{ left: 'a', right: 'b' }],
+      newJoins: [{ left: 'a', right: 'd' }],
+      orderChanged: true,
+      identical: false,
+    });
+  });
+
+  it('keeps a join whose pair was flipped as a block', () => {
+    const after = agp([['scaffold_9', 'b', '-'], ['scaffold_9', 'a', '-'], ['unplaced_0', 'c', '+']]);
+    const d = diffAGP(before, after);
+    expect(d.brokenJoins).toEqual([]);
+    expect(d.newJoins).toEqual([]);
+    expect(d.orientationChanged).toEqual(['a', 'b']);
+  });
+
+  it('tells the pieces of a cut apart and reports a piece moved to a new object', () => {
+    const row = (obj: string, beg: number, end: number, part: number) =>
+      `${obj}\t1\t${end - beg + 1}\t${part}\tW\tctg1\t${beg}\t${end}\t+`;
+    const whole = row('scaffold_1', 1, 1000, 1) + '\n';
+    const cut = [row('scaffold_1', 1, 500, 1), row('scaffold_2', 501, 1000, 1)].join('\n') + '\n';
+
+    const d = diffAGP(whole, cut);
+    expect(d).toMatchObject({
+      onlyInA: ['ctg1:1-1000'],
+      onlyInB: ['ctg1:1-500', 'ctg1:501-1000'],
+      objectsA: 1,
+      objectsB: 2,
+      identical: false,
+    });
+    const text = formatDiffText(d, 'x', 'y');
+    expect(text).not.toContain('Layouts are identical.');
+    expect(text).toContain('Objects: 1 -> 2');
+
+    // Same pieces, but the second moves from its own object into the first.
+    const rejoined = [row('scaffold_1', 1, 500, 1), row('scaffold_1', 501, 1000, 2)].join('\n') + '\n';
+    const moved = diffAGP(cut, rejoined);
+    expect(moved.onlyInA).toEqual([]);
+    expect(moved.onlyInB).toEqual([]);
+    expect(moved.regrouped).toEqual(['ctg1:1-500', 'ctg1:501-1000']);
+    expect(moved.newJoins).toEqual([{ left: 'ctg1:1-500', right: 'ctg1:501-1000' }]);
+    expect(moved.identical).toBe(false);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Dispatch
+// ---------------------------------------------------------------------------
+
+describe('main', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('exits 2 on bad usage and 0 for help', async () => {
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    expect(await main([])).toBe(2);
+    expect(await main(['frobnicate'])).toBe(2);
+    expect(String(stderr.mock.calls.at(-1)?.[0])).toContain('Unknown command: frobnicate');
+    expect(await main(['curate'])).toBe(2);
+    expect(await main(['analyze', '--pretext', 'x', '--format', 'xml'])).toBe(2);
+
+    expect(await main(['help', 'diff'])).toBe(0);
+    expect(String(stdout.mock.calls.at(-1)?.[0])).toContain('openpretext diff');
+    expect(await main(['export', '--help'])).toBe(0);
+  });
+});
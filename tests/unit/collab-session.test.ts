@@ -0,0 +1,424 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { state, type ContigInfo, type MapData } from '../../src/core/State';
+import { events } from '../../src/core/EventBus';
+import { CurationEngine } from '../../src/curation/CurationEngine';
+import { ScaffoldManager } from '../../src/curation/ScaffoldManager';
+import { metaTags } from '../../src/curation/MetaTagManager';
+import { contigExclusion } from '../../src/curation/ContigExclusion';
+import { CollabSession, orderHash } from '../../src/curation/CollabSession';
+import { LoopbackHub, type CollabMessage, type CollabTransport } from '../../src/io/CollabTransport';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeContig(name: string, index: number, pixelStart: number, pixelEnd: number, length: number): ContigInfo {
+  return { name, originalIndex: index, length, pixelStart, pixelEnd, inverted: false, scaffoldId: null };
+}
+
+function setupState(): void {
+  const map: MapData = {
+    filename: 'test.pretext',
+    textureSize: 1024,
+    numMipMaps: 1,
+    contigs: [
+      makeContig('chr1', 0, 0, 100, 10000),
+      makeContig('chr2', 1, 100, 200, 8000),
+      makeContig('chr3', 2, 200, 300, 6000),
+      makeContig('chr4', 3, 300, 400, 4000),
+    ],
+    textures: [new Float32Array(0)],
+    extensions: new Map(),
+  };
+  state.update({ map, contigOrder: [0, 1, 2, 3] });
+}
+
+function orderNames(): string[] {
+  const s = state.get();
+  return s.contigOrder.map(id => s.map!.contigs[id].name);
+}
+
+/** A scripted remote peer: records what it receives, sends what it is told. */
+function fakePeer(hub: LoopbackHub) {
+  const transport: CollabTransport = hub.connect();
+  const received: CollabMessage[] = [];
+  transport.onMessage(m => received.push(m));
+  return {
+    transport,
+    received,
+    ofType<T extends CollabMessage['type']>(type: T) {
+      return received.filter((m): m is Extract<CollabMessage, { type: T }> => m.type === type);
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('CollabSession', () => {
+  let hub: LoopbackHub;
+  let bob: ReturnType<typeof fakePeer>;
+  let session: CollabSession;
+  let scaffoldManager: ScaffoldManager;
+
+  beforeEach(() => {
+    state.reset();
+    metaTags.clearAll();
+    contigExclusion.clearAll();
+    setupState();
+    scaffoldManager = new ScaffoldManager();
+    CurationEngine.setScaffoldManager(scaffoldManager);
+    hub = new LoopbackHub();
+    bob = fakePeer(hub);
+    session = new CollabSession({ transport: hub.connect(), name: 'alice', scaffoldManager });
+  });
+
+  afterEach(() => {
+    session.leave();
+  });
+
+  it('announces itself and stamps local operations with author and opId', () => {
+    expect(bob.ofType('hello')[0].peer.name).toBe('alice');
+
+    const before = orderHash();
+    CurationEngine.invert(1);
+    const top = state.get().undoStack.at(-1)!;
+    expect(top.author).toBe('alice');
+    expect(top.opId).toBeTruthy();
+
+    const [msg] = bob.ofType('op');
+    expect(msg.op.id).toBe(top.opId);
+    expect(msg.op.author).toBe('alice');
+    expect(msg.op.intent).toEqual({ kind: 'invert', contig: 'chr2', inverted: true });
+    expect(msg.op.baseHash).toBe(before);
+  });
+
+  it('round-trips an uncontested invert against the unchanged base hash', () => {
+    const conflicts: unknown[] = [];
+    const unsub = events.on('collab:conflict', (e) => conflicts.push(e));
+    CurationEngine.invert(2);
+    const [msg] = bob.ofType('op');
+    // Back where a peer that has not seen the invert would be.
+    CurationEngine.undo();
+    expect(msg.op.baseHash).toBe(orderHash());
+
+    bob.transport.send({ type: 'op', peerId: 'bob-peer', op: { ...msg.op, id: 'bob-1', author: 'bob' } });
+    unsub();
+    expect(state.get().map!.contigs[2].inverted).toBe(true);
+    expect(state.get().undoStack.at(-1)!.opId).toBe('bob-1');
+    expect(conflicts).toEqual([]);
+    expect(bob.ofType('conflict')).toEqual([]);
+  });
+
+  it('broadcasts the order an operation was based on, not the order after it', () => {
+    const before = orderHash();
+    CurationEngine.move(3, 0);
+    const [msg] = bob.ofType('op');
+    expect(msg.op.intent).toEqual({ kind: 'move', contig: 'chr4', before: 'chr1', after: null });
+    expect(msg.op.baseHash).toBe(before);
+    expect(msg.op.baseHash).not.toBe(orderHash());
+  });
+
+  it('applies a remote operation and attributes it to its author', () => {
+    bob.transport.send({
+      type: 'op',
+      peerId: 'bob-peer',
+      op: {
+        id: 'bob-1', author: 'bob', description: 'Moved chr4',
+        baseHash: orderHash(), intent: { kind: 'move', contig: 'chr4', before: 'chr1', after: null },
+      },
+    });
+    expect(orderNames()).toEqual(['chr4', 'chr1', 'chr2', 'chr3']);
+    const top = state.get().undoStack.at(-1)!;
+    expect(top.author).toBe('bob');
+    expect(top.opId).toBe('bob-1');
+    // Not echoed back as a new op, and our own author context is restored.
+    expect(bob.ofType('op')).toHaveLength(0);
+    expect(state.getAuthorContext()).toEqual({ author: 'alice', opId: undefined });
+  });
+
+  it('applies a remote cut by base-pair offset so both peers get the same fragments', () => {
+    bob.transport.send({
+      type: 'op',
+      peerId: 'bob-peer',
+      op: {
+        id: 'bob-1', author: 'bob', description: 'Cut chr1',
+        baseHash: orderHash(), intent: { kind: 'cut', contig: 'chr1', pixelOffset: 40, bpOffset: 4000, inverted: false },
+      },
+    });
+    const s = state.get();
+    const left = s.map!.contigs[s.contigOrder[0]];
+    expect(left.name).toBe('chr1_L');
+    expect(left.length).toBe(4000);
+  });
+
+  it('applies a concurrent operation whose contigs still resolve', () => {
+    const staleHash = orderHash();
+    CurationEngine.move(3, 0); // alice moves first
+    bob.transport.send({
+      type: 'op',
+      peerId: 'bob-peer',
+      op: {
+        id: 'bob-1', author: 'bob', description: 'Inverted chr2',
+        baseHash: staleHash, intent: { kind: 'invert', contig: 'chr2', inverted: true },
+      },
+    });
+    expect(state.get().map!.contigs[1].inverted).toBe(true);
+    expect(bob.ofType('conflict')).toHaveLength(0);
+  });
+
+  it('rejects a concurrent join whose contigs are no longer adjacent', () => {
+    const staleHash = orderHash();
+    CurationEngine.move(3, 1); // chr4 now sits between chr1 and chr2
+    const orderBefore = [...state.get().contigOrder];
+    const conflicts: any[] = [];
+    const unsub = events.on('collab:conflict', (e) => conflicts.push(e));
+
+    bob.transport.send({
+      type: 'op',
+      peerId: 'bob-peer',
+      op: {
+        id: 'bob-1', author: 'bob', description: 'Joined chr1 and chr2',
+        baseHash: staleHash, intent: { kind: 'join', first: 'chr1', second: 'chr2', inverted: [false, false] },
+      },
+    });
+    unsub();
+
+    expect(state.get().contigOrder).toEqual(orderBefore);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0].author).toBe('bob');
+    expect(conflicts[0].reason).toContain('no longer adjacent');
+    const [reply] = bob.ofType('conflict');
+    expect(reply.opId).toBe('bob-1');
+    expect(session.getConflicts()[0].rejectedBy).toBe('alice');
+  });
+
+  it('rebases a move made against a different order only while it lands in the same place', () => {
+    const staleHash = orderHash();
+    CurationEngine.move(3, 0); // alice: chr4, chr1, chr2, chr3
+    expect(orderHash()).not.toBe(staleHash);
+
+    // Bob put chr3 between chr1 and chr2; those two are still neighbours.
+    bob.transport.send({
+      type: 'op',
+      peerId: 'bob-peer',
+      op: {
+        id: 'bob-1', author: 'bob', description: 'Moved chr3',
+        baseHash: staleHash, intent: { kind: 'move', contig: 'chr3', before: 'chr2', after: 'chr1' },
+      },
+    });
+    expect(orderNames()).toEqual(['chr4', 'chr1', 'chr3', 'chr2']);
+    expect(bob.ofType('conflict')).toHaveLength(0);
+  });
+
+  it('rejects a move whose names resolve but whose place changed under a different order', () => {
+    const staleHash = orderHash();
+    CurationEngine.move(1, 0); // alice: chr2, chr1, chr3, chr4
+    const orderBefore = [...state.get().contigOrder];
+
+    // Bob put chr4 between chr1 and chr2; applied here it would land first.
+    bob.transport.send({
+      type: 'op',
+      peerId: 'bob-peer',
+      op: {
+        id: 'bob-1', author: 'bob', description: 'Moved chr4',
+        baseHash: staleHash, intent: { kind: 'move', contig: 'chr4', before: 'chr2', after: 'chr1' },
+      },
+    });
+    expect(state.get().contigOrder).toEqual(orderBefore);
+    const [reply] = bob.ofType('conflict');
+    expect(reply.opId).toBe('bob-1');
+    expect(reply.reason).toContain('different order');
+    expect(reply.reason).toContain('"chr2" no longer follows "chr1"');
+  });
+
+  it('rejects a cut made before a concurrent inversion of the same contig', () => {
+    const staleHash = orderHash();
+    CurationEngine.invert(0);
+    expect(orderHash()).not.toBe(staleHash);
+
+    bob.transport.send({
+      type: 'op',
+      peerId: 'bob-peer',
+      op: {
+        id: 'bob-1', author: 'bob', description: 'Cut chr1',
+        baseHash: staleHash, intent: { kind: 'cut', contig: 'chr1', pixelOffset: 40, bpOffset: 4000, inverted: false },
+      },
+    });
+    expect(orderNames()).toEqual(['chr1', 'chr2', 'chr3', 'chr4']);
+    expect(bob.ofType('conflict')[0].reason).toContain('"chr1" has been inverted since');
+  });
+
+  it('rejects an invert that already happened concurrently', () => {
+    const staleHash = orderHash();
+    CurationEngine.invert(0);
+    bob.transport.send({
+      type: 'op',
+      peerId: 'bob-peer',
+      op: {
+        id: 'bob-1', author: 'bob', description: 'Inverted chr1',
+        baseHash: staleHash, intent: { kind: 'invert', contig: 'chr1', inverted: true },
+      },
+    });
+    expect(state.get().map!.contigs[0].inverted).toBe(true);
+    expect(bob.ofType('conflict')).toHaveLength(1);
+  });
+
+  it('replays a remote undo only when that op is on top of the local stack', () => {
+    bob.transport.send({
+      type: 'op',
+      peerId: 'bob-peer',
+      op: {
+        id: 'bob-1', author: 'bob', description: 'Moved chr4',
+        baseHash: orderHash(), intent: { kind: 'move', contig: 'chr4', before: 'chr1', after: null },
+      },
+    });
+    CurationEngine.invert(1); // alice's op now sits above bob's
+
+    bob.transport.send({ type: 'undo', peerId: 'bob-peer', opId: 'bob-1' });
+    expect(orderNames()).toEqual(['chr4', 'chr1', 'chr2', 'chr3']);
+    expect(bob.ofType('conflict')).toHaveLength(1);
+
+    CurationEngine.undo(); // alice undoes her invert
+    bob.transport.send({ type: 'undo', peerId: 'bob-peer', opId: 'bob-1' });
+    expect(orderNames()).toEqual(['chr1', 'chr2', 'chr3', 'chr4']);
+    expect(state.get().redoStack.at(-1)!.opId).toBe('bob-1');
+  });
+
+  it('broadcasts local undo and redo by opId instead of as new operations', () => {
+    CurationEngine.invert(2);
+    const opId = state.get().undoStack.at(-1)!.opId;
+
+    CurationEngine.undo();
+    CurationEngine.redo();
+
+    expect(bob.ofType('op')).toHaveLength(1);
+    expect(bob.ofType('undo').map(m => m.opId)).toEqual([opId]);
+    expect(bob.ofType('redo').map(m => m.opId)).toEqual([opId]);
+    expect(state.get().undoStack.at(-1)!.author).toBe('alice');
+  });
+
+  it('shares scaffold operations by scaffold and contig name', () => {
+    const id = scaffoldManager.createScaffold('Chr1');
+    scaffoldManager.paintContigs([0, 1], id);
+    const intents = bob.ofType('op').map(m => m.op.intent);
+    expect(intents).toEqual([
+      { kind: 'scaffold_create', name: 'Chr1' },
+      { kind: 'scaffold_paint', contigs: ['chr1', 'chr2'], scaffold: 'Chr1' },
+    ]);
+
+    bob.transport.send({
+      type: 'op',
+      peerId: 'bob-peer',
+      op: {
+        id: 'bob-1', author: 'bob', description: 'Painted chr4',
+        baseHash: orderHash(), intent: { kind: 'scaffold_paint', contigs: ['chr4'], scaffold: 'Chr1' },
+      },
+    });
+    expect(state.get().map!.contigs[3].scaffoldId).toBe(id);
+  });
+
+  it('shares meta tags and exclusions by contig name without raising conflicts', () => {
+    const conflicts: unknown[] = [];
+    const unsub = events.on('collab:conflict', (e) => conflicts.push(e));
+    CurationEngine.tag([0, 1], 'haplotig', 'dup');
+    CurationEngine.toggleExcluded([2]);
+    unsub();
+    expect(conflicts).toEqual([]);
+    expect(bob.ofType('op').map(m => m.op.intent)).toEqual([
+      { kind: 'meta_tag', contigs: ['chr1', 'chr2'], tag: { tag: 'haplotig', notes: 'dup' } },
+      { kind: 'exclude', contigs: ['chr3'], excluded: [true] },
+    ]);
+
+    bob.transport.send({
+      type: 'op',
+      peerId: 'bob-peer',
+      op: {
+        id: 'bob-1', author: 'bob', description: 'Removed tag from chr1',
+        baseHash: orderHash(), intent: { kind: 'meta_tag', contigs: ['chr1'], tag: null },
+      },
+    });
+    bob.transport.send({
+      type: 'op',
+      peerId: 'bob-peer',
+      op: {
+        id: 'bob-2', author: 'bob', description: 'Toggled exclusion on 2 contigs',
+        baseHash: orderHash(), intent: { kind: 'exclude', contigs: ['chr3', 'chr4'], excluded: [false, true] },
+      },
+    });
+    expect(metaTags.getTag(0)).toBeNull();
+    expect(metaTags.getTag(1)).toEqual({ tag: 'haplotig', notes: 'dup' });
+    expect(contigExclusion.isExcluded(2)).toBe(false);
+    expect(contigExclusion.isExcluded(3)).toBe(true);
+    expect(state.get().undoStack.at(-1)!.opId).toBe('bob-2');
+
+    // A toggle from a state this peer is not in is rejected.
+    bob.transport.send({
+      type: 'op',
+      peerId: 'bob-peer',
+      op: {
+        id: 'bob-3', author: 'bob', description: 'Toggled exclusion on 2 contigs',
+        baseHash: orderHash(), intent: { kind: 'exclude', contigs: ['chr1', 'chr4'], excluded: [false, true] },
+      },
+    });
+    expect(contigExclusion.isExcluded(0)).toBe(false);
+    expect(bob.ofType('conflict')[0].reason).toContain('"chr1" is already included');
+  });
+
+  it('tracks peer presence and answers a hello with presence and history', () => {
+    CurationEngine.invert(0);
+    bob.transport.send({
+      type: 'hello',
+      peer: { id: 'bob-peer', name: 'bob', color: '#00f', cursor: { x: 0.5, y: 0.25 }, selection: ['chr3'], orderHash: '' },
+    });
+
+    expect(session.getPeers().map(p => p.name)).toEqual(['bob']);
+    expect(bob.ofType('presence').length).toBeGreaterThan(0);
+    const [history] = bob.ofType('history');
+    expect(history.to).toBe('bob-peer');
+    expect(history.entries.map(e => e.type)).toEqual(['op']);
+
+    bob.transport.send({ type: 'bye', peerId: 'bob-peer' });
+    expect(session.getPeers()).toHaveLength(0);
+  });
+
+  it('sends the selection as contig names', () => {
+    session.setSelection([0, 2]);
+    const last = bob.ofType('presence').at(-1)!;
+    expect(last.peer.selection).toEqual(['chr1', 'chr3']);
+  });
+
+  it('catches up from history when joining late', () => {
+    const base = orderHash();
+    bob.transport.send({
+      type: 'history',
+      to: session.peerId,
+      entries: [
+        { type: 'op', peerId: 'bob-peer', op: { id: 'bob-1', author: 'bob', description: 'm', baseHash: base, intent: { kind: 'move', contig: 'chr3', before: 'chr1', after: null } } },
+        { type: 'op', peerId: 'bob-peer', op: { id: 'bob-2', author: 'bob', description: 'i', baseHash: 'x', intent: { kind: 'invert', contig: 'chr4', inverted: true } } },
+        { type: 'undo', peerId: 'bob-peer', opId: 'bob-2' },
+      ],
+    });
+    expect(orderNames()).toEqual(['chr3', 'chr1', 'chr2', 'chr4']);
+    expect(state.get().map!.contigs[3].inverted).toBe(false);
+
+    // A second history reply (another peer answering the same hello) is ignored.
+    bob.transport.send({
+      type: 'history',
+      to: session.peerId,
+      entries: [
+        { type: 'op', peerId: 'carol', op: { id: 'carol-1', author: 'carol', description: 'm', baseHash: base, intent: { kind: 'move', contig: 'chr4', before: 'chr3', after: 'chr2' } } },
+      ],
+    });
+    expect(orderNames()).toEqual(['chr3', 'chr1', 'chr2', 'chr4']);
+  });
+
+  it('stops stamping and listening after leave', () => {
+    session.leave();
+    expect(bob.ofType('bye')).toHaveLength(1);
+    CurationEngine.invert(0);
+    expect(state.get().undoStack.at(-1)!.author).toBeUndefined();
+    expect(bob.ofType('op')).toHaveLength(0);
+  });
+});
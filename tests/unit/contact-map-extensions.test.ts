@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { stripContactMapExtension } from '../../src/formats/ContactMapExtensions';
+
+describe('stripContactMapExtension', () => {
+  it('strips every supported contact map extension, case-insensitively', () => {
+    expect(stripContactMapExtension('asm.pretext')).toBe('asm');
+    expect(stripContactMapExtension('asm.hic')).toBe('asm');
+    expect(stripContactMapExtension('asm.cool')).toBe('asm');
+    expect(stripContactMapExtension('asm.mcool')).toBe('asm');
+    expect(stripContactMapExtension('asm.pairs')).toBe('asm');
+    expect(stripContactMapExtension('asm.pairs.gz')).toBe('asm');
+    expect(stripContactMapExtension('ASM.PRETEXT')).toBe('ASM');
+  });
+
+  it('leaves other names alone and strips only the final extension', () => {
+    expect(stripContactMapExtension('asm.fasta')).toBe('asm.fasta');
+    expect(stripContactMapExtension('asm')).toBe('asm');
+    expect(stripContactMapExtension('asm.hic.pretext')).toBe('asm.hic');
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect } from 'vitest';
+import type { ContigInfo } from '../../src/core/State';
+import type { ContigRange } from '../../src/curation/AutoSort';
+import {
+  computeContigTransFractions,
+  contigComposition,
+  detectContaminants,
+} from '../../src/analysis/ContaminationDetector';
+
+function contig(name: string, length: number, extra: Partial<ContigInfo> = {}): ContigInfo {
+  return {
+    name,
+    originalIndex: 0,
+    length,
+    pixelStart: 0,
+    pixelEnd: 1,
+    inverted: false,
+    scaffoldId: null,
+    ...extra,
+  };
+}
+
+/** Deterministic PRNG (mulberry32). */
+function rng(seed: number): () => number {
+  let a = seed;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Random sequence with the given GC fraction. */
+function randomSeq(length: number, gc: number, seed: number): string {
+  const rand = rng(seed);
+  let s = '';
+  for (let i = 0; i < length; i++) {
+    const r = rand();
+    s += r < gc / 2 ? 'G' : r < gc ? 'C' : r < gc + (1 - gc) / 2 ? 'A' : 'T';
+  }
+  return s;
+}
+
+/** Sequence stitched from a few 40%-GC motifs: host-like GC, alien tetramers. */
+function motifSeq(length: number, seed: number): string {
+  const motifs = ['AAGCT', 'TGACA', 'CTTGA', 'GATAC'];
+  const rand = rng(seed);
+  let s = '';
+  while (s.length < length) s += motifs[Math.floor(rand() * motifs.length)];
+  return s.slice(0, length);
+}
+
+function reverseComplement(s: string): string {
+  const comp: Record<string, string> = { A: 'T', C: 'G', G: 'C', T: 'A' };
+  return [...s].reverse().map((ch) => comp[ch]).join('');
+}
+
+/** Ten 20 kb host contigs at 40% GC, then the given extra contigs. */
+function assembly(extra: Array<[string, string]>): { contigs: ContigInfo[]; sequences: Map<string, string> } {
+  const sequences = new Map<string, string>();
+  for (let k = 0; k < 10; k++) sequences.set(`host${k}`, randomSeq(20_000, 0.4, k + 1));
+  for (const [name, seq] of extra) sequences.set(name, seq);
+  const contigs = [...sequences].map(([name, seq]) => contig(name, seq.length));
+  return { contigs, sequences };
+}
+
+/**
+ * Matrix with a smooth P(s) baseline over `size` bins, except that the bins
+ * in `isolated` contact nothing outside themselves.
+ */
+function buildMatrix(size: number, isolated: ContigRange[]): Float32Array {
+  const group = new Int32Array(size).fill(-1);
+  isolated.forEach((r, k) => { for (let b = r.start; b < r.end; b++) group[b] = k; });
+  const m = new Float32Array(size * size);
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      if (group[i] !== group[j]) continue;
+      m[i * size + j] = 100 / (1 + Math.abs(i - j));
+    }
+  }
+  return m;
+}
+
+function makeRanges(n: number, binsPer = 3): ContigRange[] {
+  return Array.from({ length: n }, (_, k) => ({
+    start: k * binsPer,
+    end: k * binsPer + binsPer,
+    orderIndex: k,
+  }));
+}
+
+describe('contigComposition', () => {
+  it('reads GC and canonical tetramers, strand-independently', () => {
+    const seq = randomSeq(5_000, 0.5, 7);
+    const sequences = new Map([['fwd', seq], ['rev', reverseComplement(seq)]]);
+    const fwd = contigComposition(contig('fwd', seq.length), sequences)!;
+    const rev = contigComposition(contig('rev', seq.length, { inverted: true }), sequences)!;
+
+    expect(fwd.bases).toBe(5_000);
+    expect(fwd.gc).toBeCloseTo([...seq].filter((ch) => ch === 'G' || ch === 'C').length / 5_000, 10);
+    expect(fwd.tetra.length).toBe(136);
+    expect(fwd.tetra.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 10);
+    for (let t = 0; t < 136; t++) expect(rev.tetra[t]).toBeCloseTo(fwd.tetra[t], 10);
+  });
+
+  it('follows source segments and skips ambiguous bases', () => {
+    const sequences = new Map([['src', 'GGGGNNNNAAAATTTT']]);
+    const piece = contig('piece', 8, {
+      sequenceSegments: [{ sourceName: 'src', start: 0, end: 8, revComp: false }],
+    });
+    const comp = contigComposition(piece, sequences)!;
+    expect(comp.bases).toBe(4);
+    expect(comp.gc).toBe(1);
+    expect(contigComposition(contig('missing', 10), sequences)).toBeNull();
+  });
+});
+
+describe('computeContigTransFractions', () => {
+  it('is near zero for a contig with no contact to the rest, NaN when too narrow', () => {
+    const ranges = [...makeRanges(8), { start: 24, end: 25, orderIndex: 8 }];
+    const matrix = buildMatrix(25, [ranges[3]]);
+    const trans = computeContigTransFractions(matrix, 25, ranges);
+
+    expect(trans[3]).toBeCloseTo(0, 6);
+    for (const k of [0, 1, 2, 4, 5, 6, 7]) expect(trans[k]).toBeGreaterThan(0.05);
+    expect(trans[8]).toBeNaN();
+  });
+
+  it('is NaN, not fully trans, for a contig with no contacts', () => {
+    const ranges = makeRanges(6);
+    const matrix = buildMatrix(18, []);
+    for (let b = ranges[2].start; b < ranges[2].end; b++) {
+      for (let j = 0; j < 18; j++) {
+        matrix[b * 18 + j] = 0;
+        matrix[j * 18 + b] = 0;
+      }
+    }
+    const trans = computeContigTransFractions(matrix, 18, ranges);
+
+    expect(trans[2]).toBeNaN();
+    for (const k of [0, 1, 3, 4, 5]) expect(trans[k]).toBeGreaterThan(0.05);
+  });
+});
+
+describe('detectContaminants', () => {
+  it('flags a GC-rich contig as a composition outlier', () => {
+    const { contigs, sequences } = assembly([['alien', randomSeq(20_000, 0.65, 99)]]);
+    const order = contigs.map((_, i) => i);
+    const result = detectContaminants(contigs, order, { sequences });
+
+    expect(result.compositionAvailable).toBe(true);
+    expect(result.assemblyGC).toBeCloseTo(0.4, 1);
+    expect(result.candidates.map((c) => c.name)).toEqual(['alien']);
+    const [c] = result.candidates;
+    expect(c.compositionOutlier).toBe(true);
+    expect(c.isolated).toBe(false);
+    expect(c.gcZ).toBeGreaterThanOrEqual(3);
+    expect(c.evidence.find((e) => e.startsWith('GC'))).toMatch(/^GC 6[45]\.\d% vs assembly (39|40)\.\d%/);
+  });
+
+  it('flags a tetranucleotide outlier whose GC matches the host', () => {
+    const { contigs, sequences } = assembly([['motif', motifSeq(20_000, 5)]]);
+    const result = detectContaminants(contigs, contigs.map((_, i) => i), { sequences });
+
+    expect(result.candidates.map((c) => c.name)).toEqual(['motif']);
+    expect(result.candidates[0].gcZ).toBe(0);
+    expect(result.candidates[0].tetraZ).toBeGreaterThanOrEqual(3);
+    expect(result.candidates[0].confidence).toBe('low');
+  });
+
+  it('ranks a composition outlier that is also isolated first, with high confidence', () => {
+    const { contigs, sequences } = assembly([
+      ['alien', randomSeq(20_000, 0.65, 99)],
+      ['motif', motifSeq(20_000, 5)],
+    ]);
+    // Display order: alien, the hosts, motif.
+    const order = [10, ...Array.from({ length: 10 }, (_, i) => i), 11];
+    const trans = new Float32Array(order.length).fill(0.3);
+    trans[0] = 0.01; // alien
+    trans[5] = 0.02; // a host contig that happens to look isolated
+    const result = detectContaminants(contigs, order, { sequences, transFractionByOrder: trans });
+
+    expect(result.candidates.map((c) => [c.name, c.confidence])).toEqual([
+      ['alien', 'high'],
+      ['host4', 'medium'],
+      ['motif', 'low'],
+    ]);
+    const alien = result.candidates[0];
+    expect(alien.orderIndex).toBe(0);
+    expect(alien.originalIndex).toBe(10);
+    expect(alien.evidence[0]).toMatch(/^isolated: 1\.0%/);
+  });
+
+  it('falls back to isolation alone without a FASTA', () => {
+    const contigs = Array.from({ length: 5 }, (_, i) => contig(`c${i}`, 1_000_000));
+    const trans = Float32Array.from([0.2, 0.01, NaN, 0.3, 0.25]);
+    const result = detectContaminants(contigs, [0, 1, 2, 3, 4], { transFractionByOrder: trans });
+
+    expect(result.compositionAvailable).toBe(false);
+    expect(result.assemblyGC).toBeNaN();
+    expect(result.candidates.map((c) => c.name)).toEqual(['c1']);
+    expect(result.candidates[0].confidence).toBe('medium');
+    expect(result.candidates[0].gc).toBeNaN();
+  });
+
+  it('flags a contig without contacts when its ranges show it was wide enough to measure', () => {
+    const contigs = Array.from({ length: 5 }, (_, i) => contig(`c${i}`, 1_000_000));
+    const trans = Float32Array.from([0.2, 0.3, NaN, NaN, 0.25]);
+    // c2 spans three bins (no contacts); c3 spans one (too narrow to tell).
+    const ranges: ContigRange[] = [
+      { start: 0, end: 3, orderIndex: 0 },
+      { start: 3, end: 6, orderIndex: 1 },
+      { start: 6, end: 9, orderIndex: 2 },
+      { start: 9, end: 10, orderIndex: 3 },
+      { start: 10, end: 13, orderIndex: 4 },
+    ];
+    const result = detectContaminants(contigs, [0, 1, 2, 3, 4], { transFractionByOrder: trans, ranges });
+
+    expect(result.candidates.map((c) => c.name)).toEqual(['c2']);
+    const [c] = result.candidates;
+    expect(c.isolated).toBe(false);
+    expect(c.noContacts).toBe(true);
+    expect(c.confidence).toBe('medium');
+    expect(c.evidence).toEqual(['no Hi-C contacts (isolation unknown)']);
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { writeFile, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import h5wasm from 'h5wasm';
+import {
+  isCoolerFile,
+  chooseCoolerResolution,
+  parseAndAssembleCooler,
+  CoolerFile,
+  CoolerTileSource,
+} from '../../src/formats/CoolerParser';
+import { bpRangeToPixels } from '../../src/formats/ContactMapLayout';
+import { detectContactMapFormat } from '../../src/formats/ContactMapFormats';
+import type { AssembledPretext } from '../../src/formats/PretextParser';
+import { loadPretextFromDisk } from '../../cli/loader';
+
+// ---------------------------------------------------------------------------
+// A minimal cooler writer for fixtures
+// ---------------------------------------------------------------------------
+
+type Pixel = [bin1: number, bin2: number, count: number];
+
+const CHROMS = [
+  { name: 'chrA', length: 1_200_000 },
+  { name: 'chrB', length: 800_000 },
+];
+
+interface GroupSpec {
+  binSize: number;
+  pixels: Pixel[];
+}
+
+function writeCoolerGroup(group: any, spec: GroupSpec): void {
+  const starts: number[] = [];
+  const ends: number[] = [];
+  const chromOffset = [0];
+  for (const chr of CHROMS) {
+    for (let s = 0; s < chr.length; s += spec.binSize) {
+      starts.push(s);
+      ends.push(Math.min(chr.length, s + spec.binSize));
+    }
+    chromOffset.push(starts.length);
+  }
+  const pixels = [...spec.pixels].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  const bin1Offset = new BigInt64Array(starts.length + 1);
+  for (const [b1] of pixels) bin1Offset[b1 + 1]++;
+  for (let i = 1; i < bin1Offset.length; i++) bin1Offset[i] += bin1Offset[i - 1];
+
+  group.create_attribute('bin-size', spec.binSize);
+  group.create_group('chroms');
+  group.get('chroms').create_dataset({ name: 'name', data: CHROMS.map(c => c.name) });
+  group.get('chroms').create_dataset({ name: 'length', data: new Int32Array(CHROMS.map(c => c.length)) });
+  group.create_group('bins');
+  group.get('bins').create_dataset({ name: 'start', data: new Int32Array(starts) });
+  group.get('bins').create_dataset({ name: 'end', data: new Int32Array(ends) });
+  group.create_group('pixels');
+  group.get('pixels').create_dataset({ name: 'bin1_id', data: BigInt64Array.from(pixels, p => BigInt(p[0])) });
+  group.get('pixels').create_dataset({ name: 'bin2_id', data: BigInt64Array.from(pixels, p => BigInt(p[1])) });
+  group.get('pixels').create_dataset({ name: 'count', data: new Int32Array(pixels.map(p => p[2])) });
+  group.create_group('indexes');
+  group.get('indexes').create_dataset({ name: 'chrom_offset', data: BigInt64Array.from(chromOffset, BigInt) });
+  group.get('indexes').create_dataset({ name: 'bin1_offset', data: bin1Offset });
+}
+
+let fixtureId = 0;
+
+/** Write a .cool (one group at the root) or an .mcool (resolutions/<size>). */
+async function writeCooler(groups: GroupSpec[], mcool: boolean): Promise<ArrayBuffer> {
+  const fs = (await h5wasm.ready).FS as any;
+  const path = `/fixture-${++fixtureId}.h5`;
+  const file = new h5wasm.File(path, 'w');
+  if (mcool) {
+    file.create_group('resolutions');
+    const resolutions = file.get('resolutions') as any;
+    for (const spec of groups) {
+      resolutions.create_group(String(spec.binSize));
+      writeCoolerGroup(resolutions.get(String(spec.binSize)), spec);
+    }
+  } else {
+    file.create_attribute('format', 'HDF5::Cooler');
+    writeCoolerGroup(file, groups[0]);
+  }
+  file.close();
+  const bytes: Uint8Array = fs.readFile(path);
+  fs.unlink(path);
+  return bytes.slice().buffer as ArrayBuffer;
+}
+
+function binCount(binSize: number): number {
+  return CHROMS.reduce((s, c) => s + Math.ceil(c.length / binSize), 0);
+}
+
+function diagonal(binSize: number, count: number): Pixel[] {
+  const n = binCount(binSize);
+  return Array.from({ length: n }, (_, i) => [i, i, count] as Pixel);
+}
+
+/** 1 kb bin 100 of chrA with chrB bin 300 (global bin 1500). */
+const FINE_CONTACT: Pixel = [100, 1500, 50];
+/** 4 kb bin 10 of chrA with chrB bin 100 (global bin 400). */
+const COARSE_CONTACT: Pixel = [10, 400, 99];
+
+function fineSpec(): GroupSpec {
+  return { binSize: 1000, pixels: [...diagonal(1000, 10), FINE_CONTACT] };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('cooler detection', () => {
+  it('recognises the HDF5 signature', async () => {
+    const buffer = await writeCooler([fineSpec()], false);
+    expect(isCoolerFile(buffer)).toBe(true);
+    expect(detectContactMapFormat(buffer)).toBe('cooler');
+    expect(isCoolerFile(new TextEncoder().encode('pstm....').buffer as ArrayBuffer)).toBe(false);
+  });
+
+  it('rejects HDF5 files that are not coolers', async () => {
+    const fs = (await h5wasm.ready).FS as any;
+    const file = new h5wasm.File('/not-cooler.h5', 'w');
+    file.create_dataset({ name: 'x', data: new Int32Array([1, 2, 3]) });
+    file.close();
+    const bytes: Uint8Array = fs.readFile('/not-cooler.h5');
+    fs.unlink('/not-cooler.h5');
+    await expect(CoolerFile.open(bytes.slice().buffer as ArrayBuffer)).rejects.toThrow(/Not a cooler/);
+  });
+});
+
+describe('parseAndAssembleCooler (.cool)', () => {
+  let assembled: AssembledPretext;
+
+  beforeAll(async () => {
+    assembled = await parseAndAssembleCooler(await writeCooler([fineSpec()], false));
+  });
+
+  it('maps chroms onto contigs and lays out a .pretext-shaped map', () => {
+    const h = assembled.header;
+    expect(assembled.contigs.map(c => c.name)).toEqual(['chrA', 'chrB']);
+    expect(assembled.contigs.map(c => c.length)).toEqual([1_200_000, 800_000]);
+    // 2000 bins -> next power of two.
+    expect(h.numberOfPixels1D).toBe(2048);
+    expect(h.textureResolution).toBe(1024);
+    expect(h.numberOfTextures1D).toBe(2);
+    expect(assembled.contigs[0].pixelStart).toBe(0);
+    expect(assembled.contigs[1].pixelEnd).toBe(2048);
+  });
+
+  it('defers detail tiles to a lazy source', () => {
+    expect(assembled.tiles).toEqual([]);
+    expect(assembled.source?.format).toBe('cooler');
+    expect(assembled.source?.layout.levelGroups.every(g => g === '/')).toBe(true);
+    expect(assembled.source?.buffer.byteLength).toBeGreaterThan(0);
+  });
+
+  it('assembles a symmetric overview with the diagonal lit', () => {
+    const { overview, overviewSize } = assembled;
+    expect(overviewSize).toBe(2 * (1024 >> (assembled.header.mipMapLevels - 1)));
+    for (let y = 0; y < overviewSize; y++) {
+      expect(overview[y * overviewSize + y]).toBeGreaterThan(0);
+      for (let x = 0; x < y; x++) {
+        expect(overview[y * overviewSize + x]).toBe(overview[x * overviewSize + y]);
+      }
+    }
+  });
+
+  it('reads a finest-level detail tile on demand, mirrored below the diagonal', async () => {
+    const h = assembled.header;
+    const source = await CoolerTileSource.open(assembled.source!, h, assembled.contigs);
+    try {
+      const [x] = bpRangeToPixels(assembled.contigs[0], 100_000, 101_000);
+      const [y] = bpRangeToPixels(assembled.contigs[1], 300_000, 301_000);
+      const res = h.textureResolution;
+      const finest = h.mipMapLevels - 1;
+
+      const above = source.decodeTile({ level: finest, col: 0, row: 1 });
+      expect(above.length).toBe(res * res);
+      expect(above[(y - res) * res + x]).toBeGreaterThan(0);
+      expect(above[(y - res) * res + x + 5]).toBe(0);
+
+      const below = source.decodeTile({ level: finest, col: 1, row: 0 });
+      expect(below[x * res + (y - res)]).toBe(above[(y - res) * res + x]);
+      expect(above.every(v => v >= 0 && v <= 1)).toBe(true);
+    } finally {
+      source.close();
+    }
+  });
+
+  it('rejects a forced resolution that is not stored', async () => {
+    const buffer = await writeCooler([fineSpec()], false);
+    await expect(parseAndAssembleCooler(buffer, { resolution: 5000 })).rejects.toThrow(/not stored/);
+  });
+});
+
+describe('parseAndAssembleCooler (.mcool)', () => {
+  let buffer: ArrayBuffer;
+
+  beforeAll(async () => {
+    buffer = await writeCooler([
+      fineSpec(),
+      { binSize: 4000, pixels: [...diagonal(4000, 40), COARSE_CONTACT] },
+      { binSize: 16000, pixels: diagonal(16000, 160) },
+    ], true);
+  });
+
+  it('lists resolutions finest first and picks one that fits', async () => {
+    const file = await CoolerFile.open(buffer.slice(0));
+    try {
+      expect(file.resolutions.map(r => r.binSize)).toEqual([1000, 4000, 16000]);
+      expect(file.resolutions.map(r => r.nBins)).toEqual([2000, 500, 125]);
+      expect(chooseCoolerResolution(file.resolutions, 32768).binSize).toBe(1000);
+      expect(chooseCoolerResolution(file.resolutions, 512).binSize).toBe(4000);
+      expect(chooseCoolerResolution(file.resolutions, 64).binSize).toBe(16000);
+    } finally {
+      file.close();
+    }
+  });
+
+  it('backs coarser mip levels with coarser resolution groups', async () => {
+    const assembled = await parseAndAssembleCooler(buffer.slice(0));
+    // ~977 bp per finest pixel, doubling per level.
+    expect(assembled.source!.layout.levelBinSizes).toEqual([1000, 1000, 1000, 4000, 4000, 16000]);
+    expect(assembled.source!.layout.levelGroups[3]).toBe('resolutions/4000');
+  });
+
+  it('reads each level from its own group', async () => {
+    const assembled = await parseAndAssembleCooler(buffer.slice(0));
+    const h = assembled.header;
+    const source = await CoolerTileSource.open(assembled.source!, h, assembled.contigs);
+    try {
+      const parserLevel = 3;
+      const tmLevel = h.mipMapLevels - 1 - parserLevel;
+      const res = h.textureResolution >> parserLevel;
+      const tile = source.decodeTile({ level: tmLevel, col: 0, row: 1 });
+
+      // The 4 kb-only contact is present at this level...
+      const [cx] = bpRangeToPixels(assembled.contigs[0], 40_000, 44_000);
+      const [cy] = bpRangeToPixels(assembled.contigs[1], 400_000, 404_000);
+      expect(tile[(((cy - 1024) >> parserLevel)) * res + (cx >> parserLevel)]).toBeGreaterThan(0);
+
+      // ...while the 1 kb-only contact is not.
+      const [fx] = bpRangeToPixels(assembled.contigs[0], 100_000, 101_000);
+      const [fy] = bpRangeToPixels(assembled.contigs[1], 300_000, 301_000);
+      expect(tile[(((fy - 1024) >> parserLevel)) * res + (fx >> parserLevel)]).toBe(0);
+
+      // The finest level sees the opposite.
+      const finestTile = source.decodeTile({ level: h.mipMapLevels - 1, col: 0, row: 1 });
+      expect(finestTile[(fy - 1024) * 1024 + fx]).toBeGreaterThan(0);
+      expect(finestTile[(cy - 1024) * 1024 + cx]).toBe(0);
+    } finally {
+      source.close();
+    }
+  });
+
+  it('loads in the Node bench harness', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'cooler-'));
+    try {
+      const path = join(dir, 'fixture.mcool');
+      await writeFile(path, new Uint8Array(buffer));
+      const assembly = await loadPretextFromDisk(path);
+      expect(assembly.textureSize).toBe(2048);
+      expect(assembly.contigs.map(c => c.name)).toEqual(['chrA', 'chrB']);
+      expect(assembly.contactMap.length).toBe(assembly.overviewSize * assembly.overviewSize);
+
+      const finer = await loadPretextFromDisk(path, { mipLevel: 4 });
+      expect(finer.overviewSize).toBe(2 * (1024 >> 4));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
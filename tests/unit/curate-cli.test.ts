@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import type { ContigInfo, MapData } from '../../src/core/State';
-import { applyCurationScript, parseFastaArg } from '../../bench/curate';
+import { applyCurationScript, parseFastaArg } from '../../cli/curate';
 
 // ---------------------------------------------------------------------------
 // Helpers (mirror tests/unit/curation.test.ts makeContig / makeTestMap)
@@ -130,6 +130,41 @@ describe('applyCurationScript', () => {
     expect(outcome.results[0].message).toContain('Selected 2');
   });
 
+  it('runs analyses and asserts on them headlessly', () => {
+    // Four 4-bin contigs on a 16-bin overview; chr2|chr3 is a misjoin with no
+    // contact across it.
+    const size = 16;
+    const overview = new Float32Array(size * size);
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) {
+        const misjoined = Math.min(i, j) < 8 && Math.max(i, j) >= 8;
+        overview[i * size + j] = misjoined ? 0 : Math.max(0, 6 - Math.abs(i - j));
+      }
+    }
+    const map = { ...makeTestMap(fourContigs()), textureSize: 400, originalContactMap: overview };
+    const script = 'analyze joinsupport\nassert weakjoins <= 1\nselect where weakjoin\nassert health >= 0';
+    const outcome = applyCurationScript(map, [0, 1, 2, 3], script);
+
+    expect(outcome.ok).toBe(true);
+    expect(outcome.results[0].message).toBe('Join support: 1 weak join(s) among 3 scored junctions');
+    expect(outcome.results[2].message).toBe('Selected 2 contig(s) where weakjoin');
+  });
+
+  it('applies tags, exclusions and waypoints headlessly', () => {
+    const map = makeTestMap(fourContigs());
+    const script = 'tag chr2 haplotig\nexclude chr4\nwaypoint add chr1 start\nwaypoint goto start';
+    const outcome = applyCurationScript(map, [0, 1, 2, 3], script);
+
+    expect(outcome.ok).toBe(true);
+    expect(outcome.tags).toEqual([{ name: 'chr2', tag: 'haplotig' }]);
+    expect(outcome.excluded).toEqual(['chr4']);
+    // Excluded contigs are left out of the AGP.
+    expect(wLines(outcome.agp).map((cols) => cols[5])).toEqual(['chr1', 'chr2', 'chr3']);
+
+    // A later run starts from a clean slate.
+    expect(applyCurationScript(map, [0, 1, 2, 3], 'echo hi').tags).toEqual([]);
+  });
+
   it('surfaces parse errors and marks the run not ok', () => {
     const map = makeTestMap(fourContigs());
     // `bogus` is not a known command -> parse error on line 1.
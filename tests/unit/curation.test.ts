@@ -3,6 +3,9 @@ import { state, MAX_UNDO_DEPTH, ContigInfo, MapData } from '../../src/core/State
 import { events } from '../../src/core/EventBus';
 import { CurationEngine } from '../../src/curation/CurationEngine';
 import { SelectionManager } from '../../src/curation/SelectionManager';
+import { metaTags } from '../../src/curation/MetaTagManager';
+import { contigExclusion } from '../../src/curation/ContigExclusion';
+import { exportSession, importSession, decodeSessionHistory } from '../../src/io/SessionManager';
 
 // ---------------------------------------------------------------------------
 // Test helpers
@@ -205,6 +208,79 @@ describe('CurationEngine', () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // CUT AT BP
+  // -----------------------------------------------------------------------
+  describe('cutAtBp', () => {
+    it('should split at the exact base and the nearest pixel', () => {
+      setupStandardState();
+
+      CurationEngine.cutAtBp(0, 1234); // chr1: 10000 bp over 100 px
+
+      const s = state.get();
+      const left = s.map!.contigs[s.contigOrder[0]];
+      const right = s.map!.contigs[s.contigOrder[1]];
+      expect(left.length).toBe(1234);
+      expect(right.length).toBe(8766);
+      expect(left.pixelEnd).toBe(12);
+      expect(right.pixelStart).toBe(12);
+      expect(left.sequenceSegments).toEqual([{ sourceName: 'chr1', start: 0, end: 1234, revComp: false }]);
+      expect(right.sequenceSegments).toEqual([{ sourceName: 'chr1', start: 1234, end: 10000, revComp: false }]);
+    });
+
+    it('should keep at least one pixel on each side of a cut near an end', () => {
+      setupStandardState();
+
+      CurationEngine.cutAtBp(0, 3);
+
+      const s = state.get();
+      expect(s.map!.contigs[s.contigOrder[0]].pixelEnd).toBe(1);
+      expect(s.map!.contigs[s.contigOrder[0]].length).toBe(3);
+    });
+
+    it('should measure the offset in display order on an inverted contig', () => {
+      setupStandardState();
+      CurationEngine.invert(0);
+
+      CurationEngine.cutAtBp(0, 1000);
+
+      const s = state.get();
+      const left = s.map!.contigs[s.contigOrder[0]];
+      expect(left.name).toBe('chr1_R');
+      expect(left.length).toBe(1000);
+      expect(left.sequenceSegments).toEqual([{ sourceName: 'chr1', start: 9000, end: 10000, revComp: true }]);
+    });
+
+    it('should record the bp offset and undo/redo like a pixel cut', () => {
+      setupStandardState();
+
+      CurationEngine.cutAtBp(1, 4000);
+
+      const op = state.get().undoStack[0];
+      expect(op.data.bpOffset).toBe(4000);
+      expect(op.description).toBe('Cut contig "chr2" at 4000 bp');
+
+      CurationEngine.undo();
+      expect(state.get().contigOrder).toEqual([0, 1, 2, 3]);
+      CurationEngine.redo();
+      expect(state.get().contigOrder).toEqual([0, 4, 5, 2, 3]);
+    });
+
+    it('should reject offsets outside the contig', () => {
+      setupStandardState();
+
+      expect(() => CurationEngine.cutAtBp(0, 0)).toThrow('Invalid bpOffset');
+      expect(() => CurationEngine.cutAtBp(0, 10000)).toThrow('Invalid bpOffset');
+      expect(() => CurationEngine.cutAtBp(0, 12.5)).toThrow('Invalid bpOffset');
+    });
+
+    it('should reject a contig a single pixel wide', () => {
+      state.update({ map: makeTestMap([makeContig('tiny', 0, 0, 1, 5000)]), contigOrder: [0] });
+
+      expect(() => CurationEngine.cutAtBp(0, 2500)).toThrow('single pixel');
+    });
+  });
+
   // -----------------------------------------------------------------------
   // JOIN
   // -----------------------------------------------------------------------
@@ -680,6 +756,63 @@ describe('CurationEngine', () => {
     });
   });
 
+  // -----------------------------------------------------------------------
+  // Meta tags and exclusion
+  // -----------------------------------------------------------------------
+  describe('meta tags and exclusion', () => {
+    beforeEach(() => {
+      metaTags.clearAll();
+      contigExclusion.clearAll();
+    });
+
+    it('tags by contig ID and restores the previous tag on undo', () => {
+      setupStandardState();
+      CurationEngine.move(3, 0); // chr4 now at position 0
+      CurationEngine.tag([0, 1], 'contaminant');
+      expect(metaTags.getTag(3)).toEqual({ tag: 'contaminant' });
+      expect(metaTags.getTag(0)).toEqual({ tag: 'contaminant' });
+
+      CurationEngine.tag([0], 'haplotig', 'keep');
+      CurationEngine.undo();
+      expect(metaTags.getTag(3)).toEqual({ tag: 'contaminant' });
+      CurationEngine.redo();
+      expect(metaTags.getTag(3)).toEqual({ tag: 'haplotig', notes: 'keep' });
+    });
+
+    it('untags as one undoable operation', () => {
+      setupStandardState();
+      CurationEngine.tag([2], 'unlocalised');
+      CurationEngine.untag([2]);
+      expect(metaTags.getTag(2)).toBeNull();
+      expect(state.get().undoStack.map(op => op.type)).toEqual(['meta_tag', 'meta_tag']);
+      CurationEngine.undo();
+      expect(metaTags.getTag(2)).toEqual({ tag: 'unlocalised' });
+    });
+
+    it('records exclusion and toggles each contig independently', () => {
+      setupStandardState();
+      const { collected, unsub } = collectEvents('curation:exclude');
+      CurationEngine.setExcluded([1], true);
+      CurationEngine.toggleExcluded([0, 1]);
+      expect(contigExclusion.isExcluded(0)).toBe(true);
+      expect(contigExclusion.isExcluded(1)).toBe(false);
+      expect(state.get().undoStack[0].description).toBe('Excluded contig "chr2"');
+
+      CurationEngine.undo();
+      expect([...contigExclusion.getExcluded()]).toEqual([1]);
+      CurationEngine.redo();
+      expect([...contigExclusion.getExcluded()]).toEqual([0]);
+      expect(collected).toHaveLength(3);
+      unsub();
+    });
+
+    it('rejects out-of-range order indices without recording', () => {
+      setupStandardState();
+      expect(() => CurationEngine.tag([9], 'haplotig')).toThrow('Invalid contigIndex');
+      expect(state.get().undoStack).toHaveLength(0);
+    });
+  });
+
   // -----------------------------------------------------------------------
   // Combined operations
   // -----------------------------------------------------------------------
@@ -1159,3 +1292,45 @@ describe('reversibility of actions larger than MAX_UNDO_DEPTH', () => {
     expect(state.get().contigOrder).toEqual(afterOldBatch);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Restoring history from a saved session
+// ---------------------------------------------------------------------------
+
+describe('undo/redo after restoring a v2 session', () => {
+  beforeEach(() => {
+    state.reset();
+  });
+
+  it('undoes and redoes operations from a reloaded session exactly', () => {
+    setupStandardState();
+    CurationEngine.cut(0, 40);
+    CurationEngine.invert(2);
+    CurationEngine.move(3, 0);
+    CurationEngine.undo(); // leaves the move on the redo stack
+    const curatedOrder = [...state.get().contigOrder];
+
+    const json = JSON.stringify(exportSession(state.get(), { getAllScaffolds: () => [] } as any));
+
+    // Fresh load of the same file, then restore the saved contig table and history.
+    state.reset();
+    setupStandardState();
+    const session = importSession(json);
+    const map = state.get().map!;
+    state.update({ map: { ...map, contigs: session.contigs!.map(c => ({ ...c })) }, contigOrder: session.contigOrder });
+    for (const [id, override] of Object.entries(session.contigStates)) {
+      state.updateContig(Number(id), { inverted: override.inverted });
+    }
+    const history = decodeSessionHistory(session)!;
+    state.restoreHistory(history.undoStack, history.redoStack);
+
+    expect(state.get().contigOrder).toEqual(curatedOrder);
+    CurationEngine.redo();
+    expect(state.get().map!.contigs[state.get().contigOrder[0]].name).toBe('chr3');
+    CurationEngine.undo();
+    CurationEngine.undo();
+    CurationEngine.undo();
+    expect(state.get().contigOrder).toEqual([0, 1, 2, 3]);
+    expect(state.get().map!.contigs[1].inverted).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import type { AppState, ContigInfo } from '../../src/core/State';
+import { findContigByName, genomeToMap, mapToGenome, parseBp } from '../../src/core/GenomeCoordinates';
+import {
+  cameraToLink,
+  formatDeepLink,
+  parseDeepLink,
+  parseLocusSpec,
+  resolveLinkView,
+} from '../../src/io/DeepLink';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** chr1 (1 Mb, 100 px), chr2 (2 Mb, 200 px), chr3 (1 Mb, 100 px) on a 400 px map. */
+function makeState(order = [0, 1, 2], inverted: number[] = []): AppState {
+  const spec: [string, number, number, number][] = [
+    ['chr1', 1_000_000, 0, 100],
+    ['chr2', 2_000_000, 100, 300],
+    ['chr3', 1_000_000, 300, 400],
+  ];
+  const contigs: ContigInfo[] = spec.map(([name, length, pixelStart, pixelEnd], i) => ({
+    name, originalIndex: i, length, pixelStart, pixelEnd,
+    inverted: inverted.includes(i), scaffoldId: null,
+  }));
+  return { map: { textureSize: 400, contigs }, contigOrder: order } as unknown as AppState;
+}
+
+// ---------------------------------------------------------------------------
+// GenomeCoordinates
+// ---------------------------------------------------------------------------
+
+describe('GenomeCoordinates', () => {
+  it('parses bp values with separators and units', () => {
+    expect(parseBp('40000000')).toBe(40_000_000);
+    expect(parseBp('40,000,000')).toBe(40_000_000);
+    expect(parseBp('40Mb')).toBe(40_000_000);
+    expect(parseBp('1.5 kb')).toBe(1500);
+    expect(parseBp('2G')).toBe(2_000_000_000);
+    expect(parseBp('chr1')).toBeNull();
+    expect(parseBp('')).toBeNull();
+  });
+
+  it('finds contigs exactly, then by a unique case-insensitive match', () => {
+    const s = makeState([2, 0, 1]);
+    expect(findContigByName(s, 'chr1')).toBe(1);
+    expect(findContigByName(s, 'CHR3')).toBe(0);
+    expect(findContigByName(s, 'chrX')).toBe(-1);
+  });
+
+  it('follows the current order and inversions', () => {
+    const s = makeState([1, 0, 2], [0]);
+    // chr2 now spans 0..0.5 and chr1 0.5..0.75, reversed.
+    expect(genomeToMap(s, 'chr2', 1_000_000)).toBeCloseTo(0.25);
+    expect(genomeToMap(s, 'chr1', 0)).toBeCloseTo(0.75);
+    expect(genomeToMap(s, 'chr1', 250_000)).toBeCloseTo(0.6875);
+    expect(genomeToMap(s, 'chr1', 9e9)).toBeCloseTo(0.5);
+    expect(genomeToMap(s, 'chrX', 0)).toBeNull();
+
+    expect(mapToGenome(s, 0.6875)).toEqual({ contig: 'chr1', bp: 250_000, orderIndex: 1 });
+    expect(mapToGenome(s, 0.875)).toEqual({ contig: 'chr3', bp: 500_000, orderIndex: 2 });
+    expect(mapToGenome(s, 1.2)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Links
+// ---------------------------------------------------------------------------
+
+describe('parseDeepLink / formatDeepLink', () => {
+  it('round-trips every key', () => {
+    const hash = 'specimen=koala&locus=chr7:40000000&zoom=12&colormap=viridis&gamma=0.5&overview=faithful';
+    const link = parseDeepLink(`#${hash}`);
+    expect(link).toEqual({
+      specimen: 'koala',
+      x: { contig: 'chr7', start: 40_000_000 },
+      zoom: 12, colormap: 'viridis', gamma: 0.5, overview: 'faithful',
+    });
+    expect(formatDeepLink(link)).toBe(hash);
+  });
+
+  it('keeps URLs and off-diagonal pairs readable', () => {
+    const link = {
+      url: 'https://example.org/maps/asm 1.pretext?token=a&b',
+      x: { contig: 'chr1', start: 10_000_000 },
+      y: { contig: 'chr5', start: 3_000_000, end: 4_000_000 },
+    };
+    const hash = formatDeepLink(link);
+    expect(hash).toBe('url=https://example.org/maps/asm%201.pretext%3Ftoken%3Da%26b&x=chr1:10000000&y=chr5:3000000-4000000');
+    expect(parseDeepLink(hash)).toEqual(link);
+  });
+
+  it('ignores malformed values', () => {
+    expect(parseDeepLink('#zoom=-2&colormap=plaid&gamma=x&overview=fuzzy&locus=')).toEqual({});
+  });
+
+  it('parses hand-typed loci', () => {
+    expect(parseLocusSpec('chr7:40Mb')).toEqual({ contig: 'chr7', start: 40_000_000 });
+    expect(parseLocusSpec('chr7:41,000,000-40,000,000')).toEqual({ contig: 'chr7', start: 40_000_000, end: 41_000_000 });
+    expect(parseLocusSpec('scaffold_3')).toEqual({ contig: 'scaffold_3' });
+    expect(parseLocusSpec('HiC:scaffold')).toEqual({ contig: 'HiC:scaffold' });
+    expect(parseLocusSpec('chr7:1-x')).toBeNull();
+  });
+});
+
+describe('resolveLinkView / cameraToLink', () => {
+  it('centers on a point and fits a range or contig', () => {
+    const s = makeState();
+    expect(resolveLinkView({ x: { contig: 'chr2', start: 1_000_000 }, zoom: 8 }, s))
+      .toEqual({ kind: 'center', x: 0.5, y: 0.5, zoom: 8 });
+    expect(resolveLinkView({ x: { contig: 'chr3' } }, s))
+      .toEqual({ kind: 'region', x1: 0.75, y1: 0.75, x2: 1, y2: 1 });
+    expect(resolveLinkView({ x: { contig: 'chr1', start: 0, end: 500_000 }, y: { contig: 'chr3', start: 500_000 } }, s))
+      .toMatchObject({ kind: 'region', x1: 0, x2: 0.125, y1: 0.875, y2: 0.875 });
+    expect(resolveLinkView({ zoom: 3 }, s)).toBeNull();
+    expect(() => resolveLinkView({ x: { contig: 'chrX' } }, s)).toThrow("Contig 'chrX' is not in this map");
+  });
+
+  it('describes the camera as a link that restores it', () => {
+    const s = makeState([0, 1, 2], [1]);
+    expect(cameraToLink({ x: 0.5, y: 0.5, zoom: 1 }, s)).toEqual({});
+
+    const diagonal = cameraToLink({ x: 0.5, y: 0.501, zoom: 10 }, s);
+    expect(diagonal).toEqual({ x: { contig: 'chr2', start: 998_000 }, zoom: 10 });
+
+    const off = { x: 0.125, y: 0.875, zoom: 20 };
+    const link = cameraToLink(off, s);
+    expect(link).toEqual({ x: { contig: 'chr1', start: 500_000 }, y: { contig: 'chr3', start: 500_000 }, zoom: 20 });
+    const view = resolveLinkView(parseDeepLink(formatDeepLink(link)), s);
+    expect(view).toEqual({ kind: 'center', ...off });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseLine } from '../../src/scripting/ScriptParser';
+import { parseLine, parseScript } from '../../src/scripting/ScriptParser';
 import { DSL_REFERENCE, type DSLCommandDoc } from '../../src/scripting/DSLReference';
 
 /**
@@ -20,14 +20,29 @@ const PARSER_KEYWORDS = [
   'autocut',
   'autosort',
   'assert',
+  'tag',
+  'untag',
+  'exclude',
+  'include',
+  'waypoint',
+  'analyze',
+  'let',
+  'call',
+  // Block statements, parsed by parseScript.
+  'for',
+  'if',
+  'proc',
 ] as const;
 
 const VALID_CATEGORIES: DSLCommandDoc['category'][] = [
   'Curation',
   'Selection',
   'Scaffold',
+  'Annotation',
+  'Analysis',
   'Navigation',
   'Meta',
+  'Control',
 ];
 
 /** First whitespace-delimited token of an example, lowercased. */
@@ -52,8 +67,8 @@ describe('DSL_REFERENCE', () => {
     }
   });
 
-  it('every example parses without throwing and yields a non-null command', () => {
-    for (const entry of DSL_REFERENCE) {
+  it('every single-line example parses without throwing and yields a non-null command', () => {
+    for (const entry of DSL_REFERENCE.filter(e => !e.example.includes('\n'))) {
       let cmd: ReturnType<typeof parseLine>;
       expect(() => {
         cmd = parseLine(entry.example);
@@ -63,6 +78,14 @@ describe('DSL_REFERENCE', () => {
     }
   });
 
+  it('every example parses as a script without errors', () => {
+    for (const entry of DSL_REFERENCE) {
+      const result = parseScript(entry.example);
+      expect(result.errors, `example failed to parse: '${entry.example}'`).toEqual([]);
+      expect(result.commands.length).toBeGreaterThan(0);
+    }
+  });
+
   it('documents every keyword the parser recognizes', () => {
     const documented = new Set(DSL_REFERENCE.map(e => leadingKeyword(e.example)));
     for (const keyword of PARSER_KEYWORDS) {
@@ -141,3 +141,31 @@ describe('predicate selection (real state)', () => {
     expect(SelectionManager.getSelectedIndices()).toEqual([2, 3]);
   });
 });
+
+describe('control flow (real state)', () => {
+  beforeEach(setupState);
+
+  it('runs a loop as one undoable batch', () => {
+    const outcome = runDSL(ctx, [
+      'for each c in (select where length < 9kb)',
+      '  invert $c',
+      '  move $c to 0',
+      'end',
+    ].join('\n'));
+    expect(outcome.parseErrors).toEqual([]);
+    expect(outcome.results.every((r) => r.success)).toBe(true);
+    const names = () => state.get().contigOrder.map((id) => state.get().map!.contigs[id].name);
+    expect(names()).toEqual(['chr4', 'chr3', 'chr2', 'chr1']);
+
+    const batchIds = new Set(state.get().undoStack.map((op) => op.batchId));
+    expect(state.get().undoStack).toHaveLength(6);
+    expect(batchIds.size).toBe(1);
+    expect([...batchIds][0]).toMatch(/^script-/);
+  });
+
+  it('counts top-level statements that never ran after a failure inside a loop', () => {
+    const outcome = runDSL(ctx, 'for each c in (select all)\n  join $c chr4\nend\ninvert chr1\necho done');
+    expect(outcome.results.map((r) => r.success)).toEqual([true, false]);
+    expect(outcome.notRun).toBe(2);
+  });
+});
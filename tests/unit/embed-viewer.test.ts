@@ -0,0 +1,353 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// ---------------------------------------------------------------------------
+// Mock the app modules the frame-side bridge drives
+// ---------------------------------------------------------------------------
+
+let appState: any = null;
+vi.mock('../../src/core/State', () => ({
+  state: { get: () => appState },
+}));
+
+const mockLoadContactMap = vi.fn(async () => {});
+vi.mock('../../src/ui/FileLoading', () => ({
+  loadContactMap: (...args: any[]) => mockLoadContactMap(...args),
+}));
+
+const mockRunDSL = vi.fn();
+vi.mock('../../src/ui/DSLRunner', () => ({
+  runDSL: (...args: any[]) => mockRunDSL(...args),
+}));
+
+vi.mock('../../src/curation/ContigExclusion', () => ({
+  // Keyed by contig ID: chr3 is excluded.
+  contigExclusion: { isExcluded: (id: number) => id === 2 },
+}));
+
+import { createViewer, defaultAppUrl, type Viewer } from '../../src/embed/Viewer';
+import { setupEmbedBridge } from '../../src/ui/EmbedBridge';
+import { events } from '../../src/core/EventBus';
+
+const HOST = 'https://host.example';
+const APP = 'https://app.example';
+
+type Listener = (e: { source: unknown; origin: string; data: unknown }) => void;
+
+/** A window stub that records its message listeners. */
+function fakeWindow(extra: Record<string, unknown> = {}) {
+  const listeners = new Set<Listener>();
+  return {
+    listeners,
+    addEventListener: vi.fn((_type: string, l: Listener) => listeners.add(l)),
+    removeEventListener: vi.fn((_type: string, l: Listener) => listeners.delete(l)),
+    dispatch(source: unknown, data: unknown, origin: string) {
+      for (const l of [...listeners]) l({ source, origin, data });
+    },
+    ...extra,
+  };
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 0));
+
+// ---------------------------------------------------------------------------
+// Host side
+// ---------------------------------------------------------------------------
+
+describe('createViewer', () => {
+  let win: ReturnType<typeof fakeWindow>;
+
+  function fakeFrame() {
+    return {
+      title: '', src: '', style: {} as Record<string, string>,
+      contentWindow: { postMessage: vi.fn() },
+      remove: vi.fn(),
+    };
+  }
+
+  function mount(options = {}): { viewer: Viewer; frame: ReturnType<typeof fakeFrame> } {
+    const frame = fakeFrame();
+    (document.createElement as any).mockReturnValueOnce(frame);
+    const viewer = createViewer({ appendChild: vi.fn() } as any, { appUrl: `${APP}/openpretext/`, ...options });
+    return { viewer, frame };
+  }
+
+  const reply = (frame: any, data: object, origin = APP) =>
+    win.dispatch(frame.contentWindow, { source: 'openpretext', ...data }, origin);
+
+  beforeEach(() => {
+    win = fakeWindow({ location: { origin: HOST } });
+    vi.stubGlobal('window', win);
+    vi.stubGlobal('document', { baseURI: `${HOST}/page/`, createElement: vi.fn() });
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('opens the app in embed mode and queues calls until it is ready', async () => {
+    const { viewer, frame } = mount();
+    expect(frame.src).toBe(`${APP}/openpretext/?embed=${encodeURIComponent(HOST)}`);
+
+    const state = viewer.getState();
+    await flush();
+    expect(frame.contentWindow.postMessage).not.toHaveBeenCalled();
+
+    reply(frame, { kind: 'ready' });
+    await flush();
+    const [request, origin] = frame.contentWindow.postMessage.mock.calls[0];
+    expect(origin).toBe(APP);
+    expect(request).toMatchObject({ kind: 'request', method: 'getState', args: [] });
+
+    reply(frame, { kind: 'response', id: request.id, ok: true, result: { filename: 'a.pretext' } });
+    await expect(state).resolves.toEqual({ filename: 'a.pretext' });
+  });
+
+  it('defaults to the app deployed one directory above the viewer script', () => {
+    const frame = fakeFrame();
+    (document.createElement as any).mockReturnValueOnce(frame);
+    createViewer({ appendChild: vi.fn() } as any);
+    const appUrl = new URL('../../src/', import.meta.url).href;
+    expect(defaultAppUrl()).toBe(appUrl);
+    expect(frame.src).toBe(`${appUrl}?embed=${encodeURIComponent(HOST)}`);
+  });
+
+  it('resolves load URLs against the page and transfers buffers', async () => {
+    const { viewer, frame } = mount();
+    reply(frame, { kind: 'ready' });
+    void viewer.load('maps/x.pretext');
+    const bytes = new ArrayBuffer(8);
+    void viewer.load(bytes, 'y.pretext');
+    await flush();
+
+    const calls = frame.contentWindow.postMessage.mock.calls;
+    expect(calls[0][0].args).toEqual([`${HOST}/page/maps/x.pretext`, undefined]);
+    expect(calls[1][0].args).toEqual([bytes, 'y.pretext']);
+    expect(calls[1][2]).toEqual([bytes]);
+  });
+
+  it('rejects with the frame error and keeps two viewers apart', async () => {
+    const a = mount();
+    const b = mount();
+    reply(a.frame, { kind: 'ready' });
+    reply(b.frame, { kind: 'ready' });
+    const pa = a.viewer.goto('nope');
+    const pb = b.viewer.goto('chr1');
+    await flush();
+
+    const idA = a.frame.contentWindow.postMessage.mock.calls[0][0].id;
+    const idB = b.frame.contentWindow.postMessage.mock.calls[0][0].id;
+    let settledA = false;
+    pa.catch(() => {}).finally(() => { settledA = true; });
+
+    // Each viewer numbers its own calls; a response only settles the calls of the frame it came from.
+    reply(b.frame, { kind: 'response', id: idB, ok: true });
+    reply(a.frame, { kind: 'response', id: idA, ok: false, error: 'wrong origin' }, 'https://evil.example');
+    await flush();
+    expect(settledA).toBe(false);
+
+    reply(a.frame, { kind: 'response', id: idA, ok: false, error: "Unknown contig 'nope'" });
+    await expect(pa).rejects.toThrow("Unknown contig 'nope'");
+    await expect(pb).resolves.toBeUndefined();
+  });
+
+  it('delivers events to exact and wildcard subscribers', () => {
+    const { viewer, frame } = mount();
+    const cuts = vi.fn();
+    const curation = vi.fn();
+    const all = vi.fn();
+    viewer.on('curation:cut', cuts);
+    const off = viewer.on('curation:*', curation);
+    viewer.on('*', all);
+
+    reply(frame, { kind: 'event', name: 'curation:cut', payload: { contigIndex: 1, position: 5 } });
+    reply(frame, { kind: 'event', name: 'camera:changed', payload: { x: 0, y: 0, zoom: 2 } });
+    off();
+    reply(frame, { kind: 'event', name: 'curation:undo', payload: {} });
+
+    expect(cuts).toHaveBeenCalledWith({ contigIndex: 1, position: 5 }, 'curation:cut');
+    expect(curation).toHaveBeenCalledTimes(1);
+    expect(all.mock.calls.map((c) => c[1])).toEqual(['curation:cut', 'camera:changed', 'curation:undo']);
+  });
+
+  it('rejects pending calls and stops listening when destroyed', async () => {
+    const { viewer, frame } = mount();
+    reply(frame, { kind: 'ready' });
+    const pending = viewer.getState();
+    await flush();
+    viewer.destroy();
+
+    await expect(pending).rejects.toThrow('destroyed');
+    await expect(viewer.runScript('undo')).rejects.toThrow('destroyed');
+    expect(frame.remove).toHaveBeenCalled();
+    expect(win.listeners.size).toBe(0);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Frame side
+// ---------------------------------------------------------------------------
+
+describe('setupEmbedBridge', () => {
+  let win: ReturnType<typeof fakeWindow>;
+  let parent: { postMessage: ReturnType<typeof vi.fn> };
+  let classes: string[];
+  let unsubscribe: (() => void)[] = [];
+  const origOn = events.on.bind(events);
+
+  const camera = { getState: () => ({ x: 0.5, y: 0.5, zoom: 1 }), zoomToRegion: vi.fn() };
+  const ctx: any = {
+    camera,
+    scaffoldManager: {
+      getScaffold: (id: number) => (id === 7 ? { id: 7, name: 'Scaffold A' } : undefined),
+      getAllScaffolds: () => [{ id: 7, name: 'Scaffold A', color: '#f00' }],
+    },
+  };
+
+  function install(search: string) {
+    win = fakeWindow({ location: { search } });
+    parent = { postMessage: vi.fn() };
+    (win as any).parent = parent;
+    classes = [];
+    vi.stubGlobal('window', win);
+    vi.stubGlobal('document', { body: { classList: { add: (c: string) => classes.push(c) } } });
+    setupEmbedBridge(ctx);
+  }
+
+  const request = (id: number, method: string, args: unknown[], origin = HOST) =>
+    win.dispatch(parent, { source: 'openpretext', kind: 'request', id, method, args }, origin);
+
+  const posted = () => parent.postMessage.mock.calls.map((c) => c[0]);
+  const responseTo = (id: number) => posted().find((m: any) => m.kind === 'response' && m.id === id);
+
+  beforeEach(() => {
+    appState = {
+      map: {
+        filename: 'fish.pretext',
+        textureSize: 400,
+        contigs: [
+          { name: 'chr1', length: 1000, pixelStart: 0, pixelEnd: 100, inverted: false, scaffoldId: 7 },
+          { name: 'chr2', length: 2000, pixelStart: 100, pixelEnd: 300, inverted: true, scaffoldId: null },
+          { name: 'chr3', length: 500, pixelStart: 300, pixelEnd: 400, inverted: false, scaffoldId: null },
+        ],
+      },
+      contigOrder: [1, 0, 2],
+      undoStack: [{}, {}],
+      redoStack: [],
+    };
+    camera.zoomToRegion.mockClear();
+    mockLoadContactMap.mockReset();
+    mockRunDSL.mockReset();
+    // Collect the bridge's event subscriptions so they do not leak between tests.
+    vi.spyOn(events, 'on').mockImplementation(((name: any, h: any) => {
+      const off = origOn(name, h);
+      unsubscribe.push(off);
+      return off;
+    }) as any);
+  });
+
+  afterEach(() => {
+    unsubscribe.forEach((off) => off());
+    unsubscribe = [];
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('does nothing outside embed mode', () => {
+    install('');
+    expect(classes).toEqual([]);
+    expect(win.listeners.size).toBe(0);
+  });
+
+  it('hides the chrome but stays silent without a host origin', () => {
+    install('?embed');
+    expect(classes).toEqual(['embed']);
+    expect(win.listeners.size).toBe(0);
+    expect(parent.postMessage).not.toHaveBeenCalled();
+  });
+
+  it('announces itself to the declared origin only', async () => {
+    install(`?embed=${encodeURIComponent(HOST)}`);
+    expect(parent.postMessage).toHaveBeenCalledWith({ source: 'openpretext', kind: 'ready' }, HOST);
+
+    request(1, 'getState', [], 'https://evil.example');
+    win.dispatch({}, { source: 'openpretext', kind: 'request', id: 2, method: 'getState', args: [] }, HOST);
+    await flush();
+    expect(posted()).toHaveLength(1);
+  });
+
+  it('reports the assembly in display order', async () => {
+    install(`?embed=${encodeURIComponent(HOST)}`);
+    request(1, 'getState', []);
+    await flush();
+    expect(responseTo(1)).toMatchObject({
+      ok: true,
+      result: {
+        filename: 'fish.pretext',
+        contigs: [
+          { name: 'chr2', length: 2000, inverted: true, scaffold: null, excluded: false },
+          { name: 'chr1', length: 1000, inverted: false, scaffold: 'Scaffold A', excluded: false },
+          { name: 'chr3', length: 500, inverted: false, scaffold: null, excluded: true },
+        ],
+        scaffolds: [{ id: 7, name: 'Scaffold A' }],
+        camera: { x: 0.5, y: 0.5, zoom: 1 },
+        undoDepth: 2,
+        redoDepth: 0,
+      },
+    });
+  });
+
+  it('reports exclusion by contig, not by display position, after a reorder', async () => {
+    install(`?embed=${encodeURIComponent(HOST)}`);
+    appState.contigOrder = [2, 0, 1]; // chr3 moved to the front
+    request(1, 'getState', []);
+    await flush();
+    expect(responseTo(1).result.contigs.map((c: any) => [c.name, c.excluded])).toEqual([
+      ['chr3', true],
+      ['chr1', false],
+      ['chr2', false],
+    ]);
+  });
+
+  it('zooms to a contig by name or index and reports unknown ones', async () => {
+    install(`?embed=${encodeURIComponent(HOST)}`);
+    request(1, 'goto', ['chr1']);
+    request(2, 'goto', [0]);
+    request(3, 'goto', ['chrX']);
+    await flush();
+
+    expect(camera.zoomToRegion).toHaveBeenNthCalledWith(1, 0.5, 0.5, 0.75, 0.75);
+    expect(camera.zoomToRegion).toHaveBeenNthCalledWith(2, 0, 0, 0.5, 0.5);
+    expect(responseTo(1)).toMatchObject({ ok: true });
+    expect(responseTo(3)).toMatchObject({ ok: false });
+    expect(responseTo(3).error).toContain('chrX');
+  });
+
+  it('loads maps and runs scripts, answering failures as errors', async () => {
+    install(`?embed=${encodeURIComponent(HOST)}`);
+    mockRunDSL.mockReturnValue({
+      parseErrors: [], results: [{ success: false, message: 'Assertion failed', line: 1 }],
+      echoMessages: [], commandCount: 1, notRun: 0,
+    });
+    mockLoadContactMap.mockImplementation(async (_ctx: unknown, url: unknown) => {
+      if (String(url).includes('missing')) throw new Error('Download failed: 404');
+    });
+    request(1, 'load', ['https://data.example/fish.pretext', undefined]);
+    request(2, 'runScript', ['assert contigs == 1']);
+    request(3, 'load', ['https://data.example/missing.pretext', undefined]);
+    request(4, 'frobnicate', []);
+    await flush();
+
+    expect(mockLoadContactMap).toHaveBeenCalledWith(ctx, 'https://data.example/fish.pretext', undefined);
+    expect(responseTo(1).result).toEqual({ filename: 'fish.pretext', contigs: 3, textureSize: 400 });
+    expect(responseTo(2).result).toMatchObject({ ok: false, commandCount: 1 });
+    expect(responseTo(3)).toMatchObject({ ok: false, error: 'Download failed: 404' });
+    expect(responseTo(4)).toMatchObject({ ok: false, error: "Unknown method 'frobnicate'" });
+  });
+
+  it('forwards curation events to the host', () => {
+    install(`?embed=${encodeURIComponent(HOST)}`);
+    events.emit('curation:invert', { contigIndex: 1 });
+    events.emit('tutorial:started', { lessonId: 'x' });
+    expect(posted().filter((m: any) => m.kind === 'event')).toEqual([
+      { source: 'openpretext', kind: 'event', name: 'curation:invert', payload: { contigIndex: 1 } },
+    ]);
+  });
+});
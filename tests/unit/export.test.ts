@@ -218,6 +218,53 @@ describe('AGPWriter', () => {
     });
   });
 
+  describe('buildScaffoldAGPLines - cut/join provenance', () => {
+    const opts = {
+      gapSize: 200,
+      gapType: 'scaffold',
+      linkageEvidence: 'proximity_ligation',
+      includeHeader: true,
+      timestamp: null,
+    };
+
+    it('should write a cut fragment as its exact interval of the source contig', () => {
+      const fragment: ContigInfo = {
+        ...makeContig('ctg1_R', 0, 600000, 1, true),
+        sequenceSegments: [{ sourceName: 'ctg1', start: 400000, end: 1000000, revComp: true }],
+      };
+
+      const lines = buildScaffoldAGPLines('scaffold_1', [fragment], opts);
+
+      expect(lines).toHaveLength(1);
+      expect(lines[0]).toMatchObject({
+        objectBeg: 1,
+        objectEnd: 600000,
+        componentId: 'ctg1',
+        componentBeg: 400001,
+        componentEnd: 1000000,
+        orientation: '-',
+      });
+    });
+
+    it('should write each piece of a join as an abutting row with its own strand', () => {
+      const joined: ContigInfo = {
+        ...makeContig('p+q', 0, 30, 1),
+        sequenceSegments: [
+          { sourceName: 'p', start: 0, end: 10, revComp: true },
+          { sourceName: 'q', start: 5, end: 25, revComp: false },
+        ],
+      };
+      const lines = buildScaffoldAGPLines('scaffold_1', [joined, makeContig('r', 1, 50, 1)], opts);
+
+      expect(lines.map(formatAGPLine)).toEqual([
+        'scaffold_1\t1\t10\t1\tW\tp\t1\t10\t-',
+        'scaffold_1\t11\t30\t2\tW\tq\t6\t25\t+',
+        'scaffold_1\t31\t230\t3\tN\t200\tscaffold\tyes\tproximity_ligation',
+        'scaffold_1\t231\t280\t4\tW\tr\t1\t50\t+',
+      ]);
+    });
+  });
+
   describe('formatAGPLine', () => {
     it('should format a contig line as tab-separated', () => {
       const result = formatAGPLine({
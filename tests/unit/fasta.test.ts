@@ -9,6 +9,7 @@ import {
   downloadFASTA,
   reverseComplement,
   wrapSequence,
+  resolveContigSubsequence,
 } from '../../src/export/FASTAWriter';
 
 // ---------------------------------------------------------------------------
@@ -686,6 +687,35 @@ describe('FASTAWriter', () => {
       expect(byName.get('chrA+chrB')).toBe('TTTTCCCC');
       expect(fasta).toContain('>chrA+chrB orientation=-');
     });
+
+    it('cuts at the exact base and records the source interval in the header', () => {
+      const contigs = [fullSpanContig('chr1', 0, 0, 4, 10)];
+      state.update({ map: makeMapData(contigs), contigOrder: [0] });
+
+      CurationEngine.cutAtBp(0, 3); // pixel split would round to 2 or 5 bases
+      CurationEngine.invert(1);
+
+      const fasta = exportFASTA(state.get(), new Map([['chr1', 'ACGTACGTAC']]));
+      const byName = new Map(parseFASTA(fasta).map((r) => [r.name, r.sequence]));
+      expect(byName.get('chr1_L')).toBe('ACG');
+      expect(byName.get('chr1_R')).toBe('GTACGTA');
+      expect(fasta).toContain('>chr1_L orientation=+ source=chr1:1-3:+\n');
+      expect(fasta).toContain('>chr1_R orientation=- source=chr1:4-10:-\n');
+    });
+
+    it('resolves a display-order window without building the whole sequence', () => {
+      const contigs = [fullSpanContig('chr1', 0, 0, 4, 10)];
+      state.update({ map: makeMapData(contigs), contigOrder: [0] });
+      CurationEngine.cutAtBp(0, 3);
+      CurationEngine.invert(1);
+      const sequences = new Map([['chr1', 'ACGTACGTAC']]);
+      const s = state.get();
+      const right = s.map!.contigs[s.contigOrder[1]];
+
+      expect(resolveContigSubsequence(right, sequences, 1, 4)).toBe('TAC');
+      expect(resolveContigSubsequence(right, sequences, 5, 99)).toBe('TA');
+      expect(resolveContigSubsequence(s.map!.contigs[0], new Map(), 0, 3)).toBeUndefined();
+    });
   });
 
   describe('downloadFASTA', () => {
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import type { ContigInfo } from '../../src/core/State';
+import { bpPerPixel, snapCutToGap } from '../../src/curation/GapSnap';
+
+function makeContig(overrides: Partial<ContigInfo> = {}): ContigInfo {
+  return {
+    name: 'ctg1',
+    originalIndex: 0,
+    length: 1000,
+    pixelStart: 0,
+    pixelEnd: 100,
+    inverted: false,
+    scaffoldId: null,
+    ...overrides,
+  };
+}
+
+// 10 bp per pixel; N-runs at [300, 320) and [600, 650).
+const SEQ = 'A'.repeat(300) + 'N'.repeat(20) + 'C'.repeat(280) + 'n'.repeat(50) + 'G'.repeat(350);
+
+describe('GapSnap', () => {
+  it('bpPerPixel reports the base pairs one texture pixel covers', () => {
+    expect(bpPerPixel(makeContig())).toBe(10);
+    expect(bpPerPixel(makeContig({ pixelEnd: 0 }))).toBe(1000);
+  });
+
+  it('snaps to the nearer edge of an N-run within one pixel', () => {
+    const sequences = new Map([['ctg1', SEQ]]);
+    expect(snapCutToGap(makeContig(), 295, sequences)).toEqual({ bpOffset: 300, gap: { start: 300, end: 320 } });
+    expect(snapCutToGap(makeContig(), 318, sequences)).toEqual({ bpOffset: 320, gap: { start: 300, end: 320 } });
+    expect(snapCutToGap(makeContig(), 655, sequences).bpOffset).toBe(650);
+  });
+
+  it('leaves the position alone when no gap is in range', () => {
+    const sequences = new Map([['ctg1', SEQ]]);
+    expect(snapCutToGap(makeContig(), 450, sequences)).toEqual({ bpOffset: 450, gap: null });
+    expect(snapCutToGap(makeContig(), 625, sequences, 10).gap).toBeNull();
+    expect(snapCutToGap(makeContig(), 625, sequences, 30).bpOffset).toBe(600);
+  });
+
+  it('ignores gap edges at the contig ends', () => {
+    const sequences = new Map([['ctg1', 'N'.repeat(5) + 'A'.repeat(990) + 'N'.repeat(5)]]);
+    expect(snapCutToGap(makeContig(), 3, sequences).bpOffset).toBe(5);
+    expect(snapCutToGap(makeContig(), 998, sequences).bpOffset).toBe(995);
+  });
+
+  it('works in display order on inverted and derived contigs', () => {
+    const sequences = new Map([['ctg1', SEQ]]);
+    // Inverted: display offset d is source offset 1000 - d.
+    expect(snapCutToGap(makeContig({ inverted: true }), 395, sequences).bpOffset).toBe(400);
+    // A right fragment starting at source 500.
+    const fragment = makeContig({
+      name: 'ctg1_R',
+      length: 500,
+      pixelEnd: 50,
+      sequenceSegments: [{ sourceName: 'ctg1', start: 500, end: 1000, revComp: false }],
+    });
+    expect(snapCutToGap(fragment, 95, sequences)).toEqual({ bpOffset: 100, gap: { start: 100, end: 150 } });
+  });
+
+  it('does nothing when the sequence is not loaded', () => {
+    expect(snapCutToGap(makeContig(), 295, new Map())).toEqual({ bpOffset: 295, gap: null });
+  });
+});
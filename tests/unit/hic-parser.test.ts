@@ -0,0 +1,273 @@
+import { describe, it, expect } from 'vitest';
+import pako from 'pako';
+import {
+  isHiCFile,
+  parseHiCHeader,
+  readHiCZoomData,
+  readHiCBlock,
+  chooseHiCResolution,
+  parseAndAssembleHiC,
+} from '../../src/formats/HiCParser';
+import { decodeBC4Level, tileLinearIndex } from '../../src/formats/PretextParser';
+import { detectContactMapFormat } from '../../src/formats/ContactMapFormats';
+
+// ---------------------------------------------------------------------------
+// A minimal .hic writer for fixtures
+// ---------------------------------------------------------------------------
+
+type Contact = [binX: number, binY: number, count: number];
+
+interface FixtureSpec {
+  version: number;
+  chromosomes: Array<{ name: string; length: number }>;
+  resolutions: number[];
+  /** key "i_j" (1-based chromosome indices, i <= j) -> binSize -> contacts */
+  contacts: Record<string, Record<number, Contact[]>>;
+  /** Write count values as i16 instead of f32. */
+  shortCounts?: boolean;
+}
+
+class ByteWriter {
+  private parts: number[] = [];
+  get length(): number { return this.parts.length; }
+  byte(v: number) { this.parts.push(v & 0xff); }
+  i16(v: number) { const b = new Uint8Array(2); new DataView(b.buffer).setInt16(0, v, true); this.parts.push(...b); }
+  i32(v: number) { const b = new Uint8Array(4); new DataView(b.buffer).setInt32(0, v, true); this.parts.push(...b); }
+  f32(v: number) { const b = new Uint8Array(4); new DataView(b.buffer).setFloat32(0, v, true); this.parts.push(...b); }
+  i64(v: number) { const b = new Uint8Array(8); new DataView(b.buffer).setBigInt64(0, BigInt(v), true); this.parts.push(...b); }
+  str(s: string) { for (const ch of new TextEncoder().encode(s)) this.parts.push(ch); this.parts.push(0); }
+  bytes(b: Uint8Array) { this.parts.push(...b); }
+  patchI64(at: number, v: number) {
+    const b = new Uint8Array(8); new DataView(b.buffer).setBigInt64(0, BigInt(v), true);
+    for (let i = 0; i < 8; i++) this.parts[at + i] = b[i];
+  }
+  toBytes(): Uint8Array { return new Uint8Array(this.parts); }
+  toBuffer(): ArrayBuffer { return this.toBytes().buffer as ArrayBuffer; }
+}
+
+function encodeBlock(version: number, contacts: Contact[], shortCounts: boolean): Uint8Array {
+  const w = new ByteWriter();
+  w.i32(contacts.length);
+  w.i32(0); // binXOffset
+  w.i32(0); // binYOffset
+  w.byte(shortCounts ? 0 : 1);
+  const wide = version >= 9;
+  if (wide) { w.byte(1); w.byte(1); } // int x / int y positions
+  w.byte(1); // sparse rows
+  const rows = new Map<number, Contact[]>();
+  for (const c of contacts) {
+    if (!rows.has(c[1])) rows.set(c[1], []);
+    rows.get(c[1])!.push(c);
+  }
+  if (wide) w.i32(rows.size); else w.i16(rows.size);
+  for (const [y, cols] of rows) {
+    if (wide) w.i32(y); else w.i16(y);
+    if (wide) w.i32(cols.length); else w.i16(cols.length);
+    for (const [x, , count] of cols) {
+      if (wide) w.i32(x); else w.i16(x);
+      if (shortCounts) w.i16(count); else w.f32(count);
+    }
+  }
+  return pako.deflate(w.toBytes());
+}
+
+function buildHiC(spec: FixtureSpec): ArrayBuffer {
+  const { version } = spec;
+  const w = new ByteWriter();
+  w.bytes(new Uint8Array([0x48, 0x49, 0x43, 0x00]));
+  w.i32(version);
+  const masterPosAt = w.length;
+  w.i64(0);
+  w.str('test-genome');
+  if (version >= 9) { w.i64(0); w.i64(0); }
+  w.i32(1);
+  w.str('software'); w.str('fixture');
+  const chrs = [{ name: 'All', length: spec.chromosomes.reduce((s, c) => s + c.length, 0) / 1000 }, ...spec.chromosomes];
+  w.i32(chrs.length);
+  for (const c of chrs) {
+    w.str(c.name);
+    if (version >= 9) w.i64(c.length); else w.i32(c.length);
+  }
+  w.i32(spec.resolutions.length);
+  for (const r of spec.resolutions) w.i32(r);
+  w.i32(0); // fragment resolutions
+
+  // Blocks first, then matrix records pointing at them.
+  const matrixPos: Record<string, { position: number; size: number }> = {};
+  const blockPos: Record<string, Record<number, { position: number; size: number }>> = {};
+  for (const [key, byRes] of Object.entries(spec.contacts)) {
+    blockPos[key] = {};
+    for (const [res, contacts] of Object.entries(byRes)) {
+      const block = encodeBlock(version, contacts, !!spec.shortCounts);
+      blockPos[key][Number(res)] = { position: w.length, size: block.length };
+      w.bytes(block);
+    }
+  }
+  for (const key of Object.keys(spec.contacts)) {
+    const start = w.length;
+    const [c1, c2] = key.split('_').map(Number);
+    w.i32(c1); w.i32(c2);
+    const resList = Object.keys(blockPos[key]).map(Number);
+    w.i32(resList.length);
+    resList.forEach((res, zi) => {
+      w.str('BP'); w.i32(zi);
+      w.f32(0); w.f32(0); w.f32(0); w.f32(0);
+      w.i32(res); w.i32(1000); w.i32(1);
+      w.i32(1);
+      w.i32(0); w.i64(blockPos[key][res].position); w.i32(blockPos[key][res].size);
+    });
+    matrixPos[key] = { position: start, size: w.length - start };
+  }
+
+  const masterPos = w.length;
+  w.patchI64(masterPosAt, masterPos);
+  if (version >= 9) w.i64(0); else w.i32(0);
+  const keys = Object.keys(matrixPos);
+  w.i32(keys.length);
+  for (const key of keys) {
+    w.str(key); w.i64(matrixPos[key].position); w.i32(matrixPos[key].size);
+  }
+  return w.toBuffer();
+}
+
+function smallSpec(version: number): FixtureSpec {
+  return {
+    version,
+    chromosomes: [{ name: 'chrA', length: 4000 }, { name: 'chrB', length: 2000 }],
+    resolutions: [1000, 500],
+    contacts: {
+      '1_1': { 1000: [[0, 0, 50], [0, 1, 10], [2, 3, 5]], 500: [[0, 0, 20], [1, 7, 4]] },
+      '1_2': { 1000: [[3, 0, 2]], 500: [[6, 1, 1]] },
+      '2_2': { 1000: [[0, 0, 40], [0, 1, 8]] },
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Header and index
+// ---------------------------------------------------------------------------
+
+describe('isHiCFile', () => {
+  it('recognises the HIC magic', () => {
+    expect(isHiCFile(buildHiC(smallSpec(8)))).toBe(true);
+    expect(isHiCFile(new Uint8Array([0x70, 0x73, 0x74, 0x6d]).buffer)).toBe(false);
+    expect(isHiCFile(new ArrayBuffer(2))).toBe(false);
+  });
+
+  it('is detected as a contact map format', () => {
+    expect(detectContactMapFormat(buildHiC(smallSpec(8)))).toBe('hic');
+    expect(detectContactMapFormat(new ArrayBuffer(8))).toBeNull();
+  });
+});
+
+describe.each([8, 9])('parseHiCHeader (v%i)', (version) => {
+  it('reads chromosomes without the All entry', () => {
+    const h = parseHiCHeader(buildHiC(smallSpec(version)));
+    expect(h.version).toBe(version);
+    expect(h.genomeId).toBe('test-genome');
+    expect(h.attributes.get('software')).toBe('fixture');
+    expect(h.chromosomes).toEqual([
+      { index: 1, name: 'chrA', length: 4000 },
+      { index: 2, name: 'chrB', length: 2000 },
+    ]);
+    expect(h.bpResolutions).toEqual([1000, 500]);
+    expect([...h.masterIndex.keys()].sort()).toEqual(['1_1', '1_2', '2_2']);
+  });
+
+  it('decodes sparse blocks at the requested resolution', () => {
+    const buffer = buildHiC(smallSpec(version));
+    const h = parseHiCHeader(buffer);
+    const zoom = readHiCZoomData(buffer, h, 1, 1, 1000)!;
+    expect(zoom.binSize).toBe(1000);
+    const records = zoom.blocks.flatMap((b) => readHiCBlock(buffer, b, h.version));
+    expect(records).toEqual([
+      { binX: 0, binY: 0, counts: 50 },
+      { binX: 0, binY: 1, counts: 10 },
+      { binX: 2, binY: 3, counts: 5 },
+    ]);
+    expect(readHiCZoomData(buffer, h, 2, 2, 500)).toBeNull();
+  });
+});
+
+describe('readHiCBlock and version checks', () => {
+  it('reads short (i16) counts', () => {
+    const buffer = buildHiC({ ...smallSpec(8), shortCounts: true });
+    const h = parseHiCHeader(buffer);
+    const zoom = readHiCZoomData(buffer, h, 1, 2, 1000)!;
+    expect(readHiCBlock(buffer, zoom.blocks[0], 8)).toEqual([{ binX: 3, binY: 0, counts: 2 }]);
+  });
+
+  it('rejects unsupported versions', () => {
+    expect(() => parseHiCHeader(buildHiC(smallSpec(6)))).toThrow(/Unsupported \.hic version/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Resolution choice and assembly
+// ---------------------------------------------------------------------------
+
+describe('chooseHiCResolution', () => {
+  it('picks the finest resolution that fits', () => {
+    const h = parseHiCHeader(buildHiC(smallSpec(8)));
+    expect(chooseHiCResolution(h, 12)).toBe(500);
+    expect(chooseHiCResolution(h, 11)).toBe(1000);
+    expect(chooseHiCResolution(h, 2)).toBe(1000);
+  });
+});
+
+describe('parseAndAssembleHiC', () => {
+  it('lays chromosomes out as contigs with pixel spans', async () => {
+    const result = await parseAndAssembleHiC(buildHiC(smallSpec(8)));
+    expect(result.mapSize).toBe(256);
+    expect(result.header.numberOfPixels1D).toBe(256);
+    expect(result.header.numberOfTextures1D).toBe(1);
+    expect(result.contigs.map((c) => c.name)).toEqual(['chrA', 'chrB']);
+    expect(result.contigs.map((c) => c.length)).toEqual([4000, 2000]);
+    expect(result.contigs[0].pixelStart).toBe(0);
+    expect(result.contigs[1].pixelEnd).toBe(256);
+    expect(result.tiles).toHaveLength(result.header.numberOfTextureBlocks);
+    expect(result.overview.length).toBe(result.overviewSize * result.overviewSize);
+  });
+
+  it('places contacts symmetrically and leaves empty bins dark', async () => {
+    const result = await parseAndAssembleHiC(buildHiC(smallSpec(9)), { resolution: 1000 });
+    const h = result.header;
+    const level0 = decodeBC4Level(result.tiles[tileLinearIndex(0, 0, 1)], 0, h.textureResolution);
+    const res = h.textureResolution;
+    const pxPerBinA = (result.contigs[0].pixelEnd - result.contigs[0].pixelStart) / 4;
+    const at = (x: number, y: number) => level0[y * res + x];
+    const centre = (bin: number) => Math.floor((bin + 0.5) * pxPerBinA);
+
+    // chrA bin0 x bin1 (count 10) both ways; bin0 x bin3 empty.
+    expect(at(centre(0), centre(1))).toBeGreaterThan(0);
+    expect(at(centre(1), centre(0))).toBeCloseTo(at(centre(0), centre(1)), 1);
+    expect(at(centre(0), centre(3))).toBe(0);
+    // Diagonal (count 50) is brighter than the off-diagonal contact.
+    expect(at(centre(0), centre(0))).toBeGreaterThan(at(centre(0), centre(1)));
+    // Inter-chromosomal chrA bin3 x chrB bin0.
+    const chrB0 = result.contigs[1].pixelStart + 2;
+    expect(at(centre(3), chrB0)).toBeGreaterThan(0);
+    expect(at(chrB0, centre(3))).toBeGreaterThan(0);
+  });
+
+  it('splits large maps into multiple tiles', async () => {
+    const spec: FixtureSpec = {
+      version: 8,
+      chromosomes: [{ name: 'chr1', length: 1_000_000 }, { name: 'chr2', length: 600_000 }],
+      resolutions: [5000, 1000],
+      contacts: { '1_2': { 1000: [[10, 500, 3]], 5000: [[2, 100, 3]] } },
+    };
+    const fine = await parseAndAssembleHiC(buildHiC(spec));
+    expect(fine.mapSize).toBe(2048);
+    expect(fine.header.numberOfTextures1D).toBe(2);
+    expect(fine.tiles).toHaveLength(3);
+
+    const coarse = await parseAndAssembleHiC(buildHiC(spec), { maxPixels: 1024 });
+    expect(coarse.mapSize).toBe(512);
+  });
+
+  it('rejects resolutions the file does not store', async () => {
+    await expect(parseAndAssembleHiC(buildHiC(smallSpec(8)), { resolution: 250 }))
+      .rejects.toThrow(/not stored/);
+  });
+});
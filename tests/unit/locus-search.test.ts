@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { state, type ContigInfo, type MapData } from '../../src/core/State';
+import { CurationEngine } from '../../src/curation/CurationEngine';
+import type { Scaffold } from '../../src/curation/ScaffoldManager';
+import { genomeToMap, sourceRangeToMap } from '../../src/core/GenomeCoordinates';
+import { fuzzyScore, searchLoci } from '../../src/core/LocusSearch';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** chr1 (1 Mb, 100 px), chr2 (2 Mb, 200 px), chr3 (1 Mb, 100 px) on a 400 px map. */
+function loadMap(scaffoldIds: (number | null)[] = [null, null, null]): void {
+  const spec: [string, number, number, number][] = [
+    ['chr1', 1_000_000, 0, 100],
+    ['chr2', 2_000_000, 100, 300],
+    ['chr3', 1_000_000, 300, 400],
+  ];
+  const contigs: ContigInfo[] = spec.map(([name, length, pixelStart, pixelEnd], i) => ({
+    name, originalIndex: i, length, pixelStart, pixelEnd, inverted: false, scaffoldId: scaffoldIds[i],
+  }));
+  const map = {
+    filename: 'test.pretext', textureSize: 400, numMipMaps: 1, contigs,
+    textures: [new Float32Array(0)], extensions: new Map(),
+  } as unknown as MapData;
+  state.update({ map, contigOrder: [0, 1, 2], undoStack: [], redoStack: [] });
+}
+
+const region = (hit: { x1: number; y1: number; x2: number; y2: number }) =>
+  [hit.x1, hit.y1, hit.x2, hit.y2].map((v) => Math.round(v * 1e6) / 1e6);
+
+beforeEach(() => loadMap());
+
+// ---------------------------------------------------------------------------
+// fuzzyScore
+// ---------------------------------------------------------------------------
+
+describe('fuzzyScore', () => {
+  it('ranks exact, prefix, substring, then scattered matches', () => {
+    const exact = fuzzyScore('chr1', 'CHR1')!;
+    const prefix = fuzzyScore('chr1', 'chr10')!;
+    const longer = fuzzyScore('chr1', 'chr1_unlocalized')!;
+    const substring = fuzzyScore('tg12', 'ptg12')!;
+    const scattered = fuzzyScore('ptg12', 'ptg000012l')!;
+    expect(exact).toBeGreaterThan(prefix);
+    expect(prefix).toBeGreaterThan(longer);
+    expect(longer).toBeGreaterThan(substring);
+    expect(substring).toBeGreaterThan(scattered);
+    expect(fuzzyScore('ptg21', 'ptg000012l')).toBeNull();
+    expect(fuzzyScore('', 'chr1')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// searchLoci
+// ---------------------------------------------------------------------------
+
+describe('searchLoci', () => {
+  it('finds contigs and scaffolds by name', () => {
+    loadMap([null, 1, 1]);
+    const scaffolds: Scaffold[] = [{ id: 1, name: 'Chromosome_2', color: '#fff' }];
+
+    // Prefixes first; the scaffold matches 'chr' only letter by letter.
+    expect(searchLoci(state.get(), scaffolds, 'chr').map((h) => h.label)).toEqual(['chr1', 'chr2', 'chr3', 'Chromosome_2']);
+    const [hit] = searchLoci(state.get(), scaffolds, 'chromosome_2');
+    expect(hit).toMatchObject({ kind: 'scaffold', contigs: ['chr2', 'chr3'], bp: 3_000_000 });
+    expect(region(hit)).toEqual([0.25, 0.25, 1, 1]);
+    expect(searchLoci(state.get(), scaffolds, 'nothing')).toEqual([]);
+  });
+
+  it('resolves bp ranges and points', () => {
+    const [range] = searchLoci(state.get(), [], 'chr2:500kb-1.5Mb');
+    expect(range).toMatchObject({ kind: 'locus', label: 'chr2:500,000-1,500,000', contigs: ['chr2'], bp: 1_000_000 });
+    expect(region(range)).toEqual([0.375, 0.375, 0.625, 0.625]);
+
+    // A contig name that is not exact takes the position to the contigs it matches.
+    const [point] = searchLoci(state.get(), [], 'hr3:500000');
+    expect(point).toMatchObject({ label: 'chr3:500,000', bp: 0 });
+    expect(region(point)).toEqual([0.875, 0.875, 0.875, 0.875]);
+  });
+
+  it('pairs two loci into an off-diagonal region', () => {
+    const hits = searchLoci(state.get(), [], 'chr1:0-500kb x chr3:500kb');
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({ kind: 'pair', label: 'chr1:0-500,000 x chr3:500,000', contigs: ['chr1', 'chr3'] });
+    expect(region(hits[0])).toEqual([0, 0.875, 0.125, 0.875]);
+    expect(searchLoci(state.get(), [], 'chr1 x chrX:5')).toEqual([]);
+  });
+
+  it('follows a source contig through an inversion, a cut and a move', () => {
+    CurationEngine.invert(1);
+    // chr2 runs right to left over 0.25..0.75.
+    expect(region(searchLoci(state.get(), [], 'chr2:500kb')[0])[0]).toBe(0.625);
+
+    // Cut in the middle: the left piece on screen holds 1-2 Mb (so is chr2_R).
+    CurationEngine.cut(1, 100);
+    CurationEngine.move(2, 0);
+    const order = state.get().contigOrder.map((id) => state.get().map!.contigs[id].name);
+    expect(order).toEqual(['chr2_L', 'chr1', 'chr2_R', 'chr3']);
+
+    const [point] = searchLoci(state.get(), [], 'chr2:500kb');
+    expect(point).toMatchObject({ label: 'chr2:500,000', contigs: ['chr2_L'] });
+    expect(region(point)[0]).toBe(0.125);
+    expect(genomeToMap(state.get(), 'chr2', 500_000)).toBeCloseTo(0.125);
+
+    // A range across the cut: one hit per piece.
+    const pieces = searchLoci(state.get(), [], 'chr2:500kb-1.5Mb');
+    expect(pieces.map((h) => [h.contigs[0], h.bp, ...region(h)])).toEqual([
+      ['chr2_L', 500_000, 0, 0, 0.125, 0.125],
+      ['chr2_R', 500_000, 0.625, 0.625, 0.75, 0.75],
+    ]);
+    expect(sourceRangeToMap(state.get(), 'chr2', 500_000, 1_500_000).map((sp) => [sp.from, sp.to]))
+      .toEqual([[0.125, 0], [0.75, 0.625]]);
+
+    // The source name finds every piece, ahead of the pieces themselves.
+    const byName = searchLoci(state.get(), [], 'chr2');
+    expect(byName.map((h) => h.label)).toEqual(['chr2', 'chr2_L', 'chr2_R']);
+    expect(byName[0]).toMatchObject({ contigs: ['chr2_L', 'chr2_R'], bp: 2_000_000 });
+    expect(region(byName[0])).toEqual([0, 0, 0.75, 0.75]);
+  });
+
+  it('finds joined contigs by either source', () => {
+    CurationEngine.join(0);
+    const [hit] = searchLoci(state.get(), [], 'chr2:1Mb');
+    expect(hit.contigs).toEqual(['chr1+chr2']);
+    expect(region(hit)[0]).toBe(0.5);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import type { AppState, ContigInfo } from '../../src/core/State';
+import {
+  callLoops,
+  localBackgrounds,
+  clusterEnrichedPixels,
+  type EnrichedPixel,
+} from '../../src/analysis/LoopCaller';
+import { computeExpectedContacts } from '../../src/analysis/CompartmentAnalysis';
+import { exportLoopsBEDPE } from '../../src/export/AnalysisExport';
+import { loopMarkerPositions } from '../../src/ui/LoopMarkers';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Symmetric power-law decay with slight, deterministic per-pixel jitter. */
+function decayMap(size: number): Float32Array {
+  const m = new Float32Array(size * size);
+  for (let i = 0; i < size; i++) {
+    for (let j = i; j < size; j++) {
+      const jitter = 1 + 0.05 * Math.sin(i * 12.9898 + j * 78.233);
+      const v = jitter / (1 + j - i);
+      m[i * size + j] = v;
+      m[j * size + i] = v;
+    }
+  }
+  return m;
+}
+
+function scale(m: Float32Array, size: number, i: number, j: number, factor: number): void {
+  m[i * size + j] *= factor;
+  m[j * size + i] *= factor;
+}
+
+/** A dot at (i, j): a bright peak pixel over a dimmer 3x3 halo. */
+function addDot(m: Float32Array, size: number, i: number, j: number): void {
+  for (let di = -1; di <= 1; di++) {
+    for (let dj = -1; dj <= 1; dj++) scale(m, size, i + di, j + dj, 1.5);
+  }
+  scale(m, size, i, j, 3);
+}
+
+function pixel(row: number, col: number, enrichment: number): EnrichedPixel {
+  return { row, col, enrichment, observed: enrichment, donut: 1, lowerLeft: 1 };
+}
+
+// ---------------------------------------------------------------------------
+// Local backgrounds
+// ---------------------------------------------------------------------------
+
+describe('localBackgrounds', () => {
+  it('matches the distance-expected on a featureless map', () => {
+    const size = 32;
+    const m = new Float32Array(size * size);
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) m[i * size + j] = 1 / (1 + Math.abs(i - j));
+    }
+    const expected = computeExpectedContacts(m, size);
+    const bg = localBackgrounds(m, size, expected, 8, 20, 1, 3);
+    expect(bg.observed).toBeCloseTo(1 / 13, 6);
+    expect(bg.donut).toBeCloseTo(expected[12], 6);
+    expect(bg.lowerLeft).toBeCloseTo(expected[12], 6);
+  });
+
+  it('leaves the peak box, the cross and masked bins out of the backgrounds', () => {
+    const size = 32;
+    const m = new Float32Array(size * size).fill(1);
+    // Anything inside the peak box, on the cross or in a masked bin is huge.
+    for (let a = 7; a <= 9; a++) for (let b = 19; b <= 21; b++) m[a * size + b] = 1000;
+    for (let k = 0; k < size; k++) {
+      m[8 * size + k] = 1000;
+      m[k * size + 20] = 1000;
+      m[k * size + 23] = 1000;
+    }
+    const masked = new Uint8Array(size);
+    masked[23] = 1;
+    const expected = new Float64Array(size).fill(1);
+    const bg = localBackgrounds(m, size, expected, 8, 20, 1, 3, masked);
+    expect(bg.donut).toBeCloseTo(1, 6);
+    expect(bg.lowerLeft).toBeCloseTo(1, 6);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Calling
+// ---------------------------------------------------------------------------
+
+describe('callLoops', () => {
+  it('calls planted dots once each and nothing on plain decay', () => {
+    const size = 64;
+    const m = decayMap(size);
+    expect(callLoops(m, size, { balance: 'none' }).loops).toEqual([]);
+
+    addDot(m, size, 10, 30);
+    addDot(m, size, 36, 50);
+    for (const balance of ['none', 'ice', 'kr'] as const) {
+      const result = callLoops(m, size, { balance });
+      expect(result.balance).toBe(balance);
+      expect(result.loops.map((l) => [l.row, l.col]).sort((a, b) => a[0] - b[0])).toEqual([[10, 30], [36, 50]]);
+      for (const loop of result.loops) {
+        expect(loop.enrichment).toBeGreaterThanOrEqual(1.3);
+        expect(loop.clusterSize).toBeGreaterThanOrEqual(1);
+      }
+    }
+  });
+
+  it('does not call the corner of a uniformly bright domain', () => {
+    const size = 64;
+    const m = decayMap(size);
+    for (let i = 20; i < 44; i++) {
+      for (let j = i; j < 44; j++) scale(m, size, i, j, 2.5);
+    }
+    expect(callLoops(m, size, { balance: 'none' }).loops).toEqual([]);
+  });
+
+  it('ignores pixels outside the distance band', () => {
+    const size = 64;
+    const m = decayMap(size);
+    addDot(m, size, 10, 30);
+    expect(callLoops(m, size, { balance: 'none', maxDistance: 15 }).loops).toEqual([]);
+    expect(callLoops(m, size, { balance: 'none', minDistance: 25 }).loops).toEqual([]);
+  });
+});
+
+describe('clusterEnrichedPixels', () => {
+  it('merges neighbours into one call at the most enriched pixel', () => {
+    const loops = clusterEnrichedPixels([
+      pixel(10, 30, 2), pixel(11, 31, 3), pixel(12, 33, 1.5), pixel(40, 50, 2.5),
+    ], 2);
+    expect(loops.map((l) => [l.row, l.col, l.clusterSize])).toEqual([[11, 31, 3], [40, 50, 1]]);
+    expect(loops[0].centroidRow).toBeCloseTo(11, 6);
+    expect(loops[0].centroidCol).toBeCloseTo(94 / 3, 6);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Export and markers
+// ---------------------------------------------------------------------------
+
+describe('loop output', () => {
+  it('writes both anchors in contig coordinates as BEDPE', () => {
+    const contigs: ContigInfo[] = [
+      { name: 'a', originalIndex: 0, length: 4000, pixelStart: 0, pixelEnd: 4, inverted: false, scaffoldId: null },
+      { name: 'b', originalIndex: 1, length: 4000, pixelStart: 4, pixelEnd: 8, inverted: false, scaffoldId: null },
+    ];
+    const s = { map: { filename: 'x.pretext', textureSize: 8, contigs }, contigOrder: [0, 1] } as unknown as AppState;
+    const loop = {
+      row: 1, col: 6, observed: 3, donutExpected: 1, lowerLeftExpected: 1.5,
+      enrichment: 2, clusterSize: 4, centroidRow: 1, centroidCol: 6,
+    };
+    const lines = exportLoopsBEDPE({ loops: [loop], enrichedPixels: 4, balance: 'ice', maskedBins: [] }, s, 8)
+      .trim().split('\n');
+    expect(lines[0]).toContain('ICE-balanced');
+    expect(lines[1].startsWith('#chrom1\tstart1\tend1\tchrom2')).toBe(true);
+    expect(lines[2].split('\t')).toEqual([
+      'a', '1000', '2000', 'b', '2000', '3000', 'loop_1', '200', '.', '.', '3.00000', '1.00000', '1.50000', '4',
+    ]);
+  });
+
+  it('places a ring at each call and at its mirror', () => {
+    const loop = {
+      row: 1, col: 3, observed: 1, donutExpected: 1, lowerLeftExpected: 1,
+      enrichment: 2, clusterSize: 1, centroidRow: 1, centroidCol: 3,
+    };
+    expect(loopMarkerPositions([loop], 4)).toEqual([{ x: 0.875, y: 0.375 }, { x: 0.375, y: 0.875 }]);
+  });
+});
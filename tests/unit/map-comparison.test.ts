@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import type { ContigInfo } from '../../src/core/State';
+import {
+  compareMaps,
+  alignToLayout,
+  differenceMatrix,
+  longestIncreasingRun,
+} from '../../src/analysis/MapComparison';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** File contigs of equal pixel span laid end to end. */
+function fileContigs(names: string[], span = 100): ContigInfo[] {
+  return names.map((name, i) => ({
+    name, originalIndex: i, length: span * 10,
+    pixelStart: i * span, pixelEnd: (i + 1) * span,
+    inverted: false, scaffoldId: null,
+  }));
+}
+
+function statusByName(matches: { name: string; moved: boolean; inverted: boolean; missing: boolean }[]) {
+  return Object.fromEntries(matches.map((m) => [
+    m.name, m.missing ? 'missing' : m.inverted ? 'inverted' : m.moved ? 'moved' : 'same',
+  ]));
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+describe('longestIncreasingRun', () => {
+  it('keeps the largest in-order subset', () => {
+    expect([...longestIncreasingRun([0, 3, 1, 2, 4])].sort()).toEqual([0, 2, 3, 4]);
+    expect(longestIncreasingRun([]).size).toBe(0);
+  });
+});
+
+describe('compareMaps', () => {
+  it('flags only the contig that moved, not everything after it', () => {
+    const a = { contigs: fileContigs(['a', 'b', 'c', 'd', 'e']), contigOrder: [0, 1, 2, 3, 4] };
+    const b = { contigs: fileContigs(['a', 'b', 'c', 'd', 'e']), contigOrder: [0, 4, 1, 2, 3] };
+    const result = compareMaps(a, b);
+    expect(statusByName(result.contigs)).toEqual({ a: 'same', b: 'same', c: 'same', d: 'same', e: 'moved' });
+    expect(result.summary).toMatchObject({ matched: 5, moved: 1, inverted: 0 });
+  });
+
+  it('reports inverted and missing contigs in both directions', () => {
+    const contigs = fileContigs(['a', 'b', 'c']);
+    contigs[1].inverted = true;
+    const a = { contigs, contigOrder: [0, 1, 2] };
+    const b = { contigs: fileContigs(['a', 'b', 'x']), contigOrder: [0, 1, 2] };
+    const result = compareMaps(a, b);
+    expect(statusByName(result.contigs)).toEqual({ a: 'same', b: 'inverted', c: 'missing' });
+    expect(statusByName(result.otherContigs)).toEqual({ a: 'same', b: 'inverted', x: 'missing' });
+    expect(result.summary).toMatchObject({ missingFromOther: 1, missingFromThis: 1 });
+  });
+
+  it('matches cut products through their source contig', () => {
+    const contigs = fileContigs(['a', 'b']);
+    contigs.push(
+      { ...contigs[0], name: 'a_L', pixelEnd: 50 },
+      { ...contigs[0], name: 'a_R', pixelStart: 50 },
+    );
+    const result = compareMaps(
+      { contigs, contigOrder: [2, 3, 1] },
+      { contigs: fileContigs(['a', 'b']), contigOrder: [0, 1] },
+    );
+    expect(result.contigs.map((m) => m.sourceName)).toEqual(['a', 'a', 'b']);
+    expect(result.summary).toMatchObject({ matched: 3, moved: 0, missingFromOther: 0 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Alignment and difference
+// ---------------------------------------------------------------------------
+
+describe('alignToLayout', () => {
+  // Other map: two contigs, 2x2 overview where each bin holds its own id.
+  const other = fileContigs(['a', 'b']);
+  const otherMatrix = new Float32Array([0, 1, 2, 3]);
+
+  it('reorders the other map into this layout by name', () => {
+    const here = { contigs: fileContigs(['b', 'a']), contigOrder: [0, 1] };
+    const aligned = alignToLayout(here, otherMatrix, other, 200, 2);
+    // Here b comes first, so rows/columns are swapped relative to the file.
+    expect([...aligned]).toEqual([3, 2, 1, 0]);
+  });
+
+  it('leaves bins of unmatched contigs undefined', () => {
+    const here = { contigs: fileContigs(['a', 'z']), contigOrder: [0, 1] };
+    const aligned = alignToLayout(here, otherMatrix, other, 200, 2);
+    expect(aligned[0]).toBe(0);
+    expect(Number.isNaN(aligned[1])).toBe(true);
+    expect(Number.isNaN(aligned[3])).toBe(true);
+  });
+
+  it('follows inverted contigs', () => {
+    const contigs = fileContigs(['a'], 100);
+    contigs[0].inverted = true;
+    const matrix = new Float32Array([0, 1, 2, 3]); // 2 bins within one contig
+    const aligned = alignToLayout({ contigs, contigOrder: [0] }, matrix, fileContigs(['a'], 100), 100, 2);
+    expect([...aligned]).toEqual([3, 2, 1, 0]);
+  });
+});
+
+describe('differenceMatrix', () => {
+  it('is neutral for maps that differ only in depth', () => {
+    const a = new Float32Array([1, 2, 3, 4]);
+    const b = a.map((v) => v * 3);
+    const { matrix } = differenceMatrix(a, b);
+    for (const v of matrix) expect(v).toBeCloseTo(0.5);
+  });
+
+  it('maps gains above 0.5 and losses below, ignoring undefined bins', () => {
+    const a = new Float32Array([1, 1, 1, 1]);
+    const b = new Float32Array([2, 0, 1, NaN]);
+    const { matrix, scale } = differenceMatrix(a, b);
+    expect(scale).toBeGreaterThan(0);
+    expect(matrix[0]).toBeGreaterThan(0.5);
+    expect(matrix[1]).toBeLessThan(0.5);
+    expect(matrix[3]).toBe(0.5);
+  });
+});
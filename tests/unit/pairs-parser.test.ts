@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import pako from 'pako';
+import {
+  isPairsFile,
+  parsePairsHeader,
+  forEachLine,
+  parseAndAssemblePairs,
+} from '../../src/formats/PairsParser';
+import { decodeBC4Level, tileLinearIndex } from '../../src/formats/PretextParser';
+import { detectContactMapFormat } from '../../src/formats/ContactMapFormats';
+import { bpRangeToPixels } from '../../src/formats/ContactMapLayout';
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+type Pair = [chr1: string, pos1: number, chr2: string, pos2: number];
+
+const HEADER = [
+  '## pairs format v1.0',
+  '#sorted: chr1-chr2-pos1-pos2',
+  '#shape: upper triangle',
+  '#chromsize: chrA 300000',
+  '#chromsize: chrB 200000',
+  '#columns: readID chr1 pos1 chr2 pos2 strand1 strand2',
+];
+
+function pairsText(pairs: Pair[], header = HEADER): string {
+  const body = pairs.map(([c1, p1, c2, p2], i) => `r${i}\t${c1}\t${p1}\t${c2}\t${p2}\t+\t-`);
+  return [...header, ...body].join('\n') + '\n';
+}
+
+function toBuffer(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+/** bgzip-style: several concatenated gzip members. */
+function bgzip(text: string, members = 3): ArrayBuffer {
+  const bytes = new TextEncoder().encode(text);
+  const step = Math.ceil(bytes.length / members);
+  const parts: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += step) parts.push(pako.gzip(bytes.subarray(i, i + step)));
+  const out = new Uint8Array(parts.reduce((s, p) => s + p.length, 0));
+  let offset = 0;
+  for (const p of parts) { out.set(p, offset); offset += p.length; }
+  return out.buffer as ArrayBuffer;
+}
+
+const PAIRS: Pair[] = [
+  ...Array.from({ length: 20 }, (_, i) => ['chrA', 50_001 + i, 'chrB', 120_001 + i] as Pair),
+  ...Array.from({ length: 5 }, (_, i) => ['chrA', 10_001 + i * 1000, 'chrA', 10_501 + i * 1000] as Pair),
+  ['!', 0, 'chrA', 1000],
+  ['chrZ', 10, 'chrA', 1000],
+];
+
+function pixelValue(
+  tiles: Uint8Array[],
+  res: number,
+  n: number,
+  gx: number,
+  gy: number,
+): number {
+  let x = gx, y = gy;
+  let tx = Math.floor(x / res), ty = Math.floor(y / res);
+  if (tx > ty) { [x, y] = [y, x]; [tx, ty] = [ty, tx]; }
+  const level0 = decodeBC4Level(tiles[tileLinearIndex(tx, ty, n)], 0, res);
+  return level0[(y - ty * res) * res + (x - tx * res)];
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('pairs detection and header', () => {
+  it('recognises plain and gzipped .pairs files', () => {
+    const text = pairsText(PAIRS);
+    expect(isPairsFile(toBuffer(text))).toBe(true);
+    expect(isPairsFile(bgzip(text))).toBe(true);
+    expect(detectContactMapFormat(bgzip(text))).toBe('pairs');
+    expect(isPairsFile(toBuffer('>chr1\nACGT\n'))).toBe(false);
+    expect(isPairsFile(pako.gzip('>chr1\nACGT\n').buffer as ArrayBuffer)).toBe(false);
+  });
+
+  it('reads chromsize and columns lines', () => {
+    const header = parsePairsHeader(bgzip(pairsText(PAIRS)));
+    expect(header.chromosomes).toEqual([
+      { name: 'chrA', length: 300000 },
+      { name: 'chrB', length: 200000 },
+    ]);
+    expect(header.columns.slice(0, 5)).toEqual(['readID', 'chr1', 'pos1', 'chr2', 'pos2']);
+  });
+
+  it('splits lines across CRLF endings and a missing final newline', () => {
+    const lines: string[] = [];
+    forEachLine(toBuffer('a\r\nb\n\nc'), (l) => lines.push(l));
+    expect(lines).toEqual(['a', 'b', '', 'c']);
+  });
+});
+
+describe('parseAndAssemblePairs', () => {
+  it('lays out contigs from the chromsize lines', async () => {
+    const result = await parseAndAssemblePairs(toBuffer(pairsText(PAIRS)));
+    // 500 kb at 1 kb per pixel -> 512 px.
+    expect(result.mapSize).toBe(512);
+    expect(result.contigs.map(c => c.name)).toEqual(['chrA', 'chrB']);
+    expect(result.contigs.map(c => c.length)).toEqual([300000, 200000]);
+    expect(result.contigs[1].pixelEnd).toBe(512);
+    expect(result.tiles.length).toBe(result.header.numberOfTextureBlocks);
+  });
+
+  it('bins pairs into symmetric tiles', async () => {
+    const result = await parseAndAssemblePairs(toBuffer(pairsText(PAIRS)));
+    const h = result.header;
+    const [a] = result.contigs;
+    const b = result.contigs[1];
+    const x = bpRangeToPixels(a, 50_000, 50_001)[0];
+    const y = bpRangeToPixels(b, 120_000, 120_001)[0];
+
+    const hot = pixelValue(result.tiles, h.textureResolution, h.numberOfTextures1D, x, y);
+    const mirror = pixelValue(result.tiles, h.textureResolution, h.numberOfTextures1D, y, x);
+    expect(hot).toBeGreaterThan(0.5);
+    expect(mirror).toBeCloseTo(hot, 5);
+    expect(pixelValue(result.tiles, h.textureResolution, h.numberOfTextures1D, x + 40, y)).toBe(0);
+  });
+
+  it('derives a coverage extension from both read ends', async () => {
+    const result = await parseAndAssemblePairs(toBuffer(pairsText(PAIRS)));
+    const coverage = result.extensions.find(e => e.name === 'coverage');
+    expect(coverage).toBeDefined();
+    expect(coverage!.data.length).toBe(result.mapSize);
+    // 25 placed pairs (the '!' and chrZ pairs are skipped), two ends each.
+    expect(coverage!.data.reduce((s, v) => s + v, 0)).toBe(50);
+    const x = bpRangeToPixels(result.contigs[0], 50_000, 50_001)[0];
+    expect(coverage!.data[x]).toBe(20);
+  });
+
+  it('gives the same map from bgzipped input', async () => {
+    const text = pairsText(PAIRS);
+    const plain = await parseAndAssemblePairs(toBuffer(text));
+    const gz = await parseAndAssemblePairs(bgzip(text, 4));
+    expect(gz.overview).toEqual(plain.overview);
+    expect(gz.extensions[0].data).toEqual(plain.extensions[0].data);
+  });
+
+  it('finds columns by name from the #columns line', async () => {
+    const header = [...HEADER.slice(0, 5), '#columns: readID strand1 chr1 pos1 chr2 pos2'];
+    const body = '\nr0\t+\tchrA\t50001\tchrB\t120001\n';
+    const result = await parseAndAssemblePairs(toBuffer(header.join('\n') + body));
+    expect(result.extensions[0].data.reduce((s, v) => s + v, 0)).toBe(2);
+  });
+
+  it('caps the map at maxPixels', async () => {
+    const result = await parseAndAssemblePairs(toBuffer(pairsText(PAIRS)), { maxPixels: 256 });
+    expect(result.mapSize).toBe(256);
+  });
+
+  it('rejects files without chromsize lines', async () => {
+    const text = pairsText(PAIRS, ['## pairs format v1.0', '#columns: readID chr1 pos1 chr2 pos2']);
+    await expect(parseAndAssemblePairs(toBuffer(text))).rejects.toThrow(/chromsize/);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import type { AppState, ContigInfo } from '../../src/core/State';
+import {
+  bedAnchors,
+  bedpeAnchors,
+  computePileup,
+  observedOverExpected,
+} from '../../src/analysis/Pileup';
+import { parseBED, parseBEDPE } from '../../src/formats/BEDParser';
+import { exportPileupTSV } from '../../src/export/AnalysisExport';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Power-law decay with 16-bin domains (contacts within a domain doubled). */
+function domainMap(size: number): Float32Array {
+  const m = new Float32Array(size * size);
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      const same = Math.floor(i / 16) === Math.floor(j / 16);
+      m[i * size + j] = (same ? 2 : 1) / (1 + Math.abs(i - j));
+    }
+  }
+  return m;
+}
+
+/** Two 4 kb contigs of 4 bins each on an 8 px map, `b` shown first and inverted. */
+function makeState(): AppState {
+  const contigs: ContigInfo[] = [
+    { name: 'a', originalIndex: 0, length: 4000, pixelStart: 0, pixelEnd: 4, inverted: false, scaffoldId: null },
+    { name: 'b', originalIndex: 1, length: 4000, pixelStart: 4, pixelEnd: 8, inverted: true, scaffoldId: null },
+  ];
+  return { map: { filename: 'x.pretext', textureSize: 8, contigs }, contigOrder: [1, 0] } as unknown as AppState;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing and anchors
+// ---------------------------------------------------------------------------
+
+describe('BED anchors', () => {
+  it('parses BED and BEDPE, skipping headers and malformed lines', () => {
+    const bed = parseBED('track name=x\n# comment\na\t100\t300\tpeak1\nb\t10\tx\nb\t0\t50\n');
+    expect(bed).toEqual([
+      { chrom: 'a', start: 100, end: 300, name: 'peak1' },
+      { chrom: 'b', start: 0, end: 50, name: null },
+    ]);
+    const bedpe = parseBEDPE('#chrom1\tstart1\tend1\tchrom2\tstart2\tend2\na\t0\t1000\tb\t2000\t3000\tloop_1\na\t0\t1\n');
+    expect(bedpe).toEqual([
+      { chrom1: 'a', start1: 0, end1: 1000, chrom2: 'b', start2: 2000, end2: 3000, name: 'loop_1' },
+    ]);
+  });
+
+  it('places features in the current order and orientation', () => {
+    const s = makeState();
+    // a:1500 sits in a's second bin (display bin 5); b:500 in b's last bin
+    // once inverted (display bin 3).
+    expect(bedAnchors(s, [
+      { chrom: 'a', start: 1000, end: 2000, name: null },
+      { chrom: 'b', start: 0, end: 1000, name: null },
+      { chrom: 'missing', start: 0, end: 10, name: null },
+    ], 8)).toEqual([{ row: 5, col: 5 }, { row: 3, col: 3 }]);
+    expect(bedpeAnchors(s, [
+      { chrom1: 'a', start1: 1000, end1: 2000, chrom2: 'b', start2: 0, end2: 1000, name: null },
+    ], 8)).toEqual([{ row: 3, col: 5 }]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+describe('computePileup', () => {
+  it('scores domain boundaries above random positions', () => {
+    const size = 96;
+    const oe = observedOverExpected(domainMap(size), size);
+    const boundaries = [16, 32, 48, 64, 80].map((b) => ({ row: b, col: b }));
+    const mids = [24, 40, 56, 72].map((b) => ({ row: b, col: b }));
+
+    const atBoundaries = computePileup(oe, size, boundaries, 'diagonal', { flank: 6 });
+    expect(atBoundaries).toMatchObject({ kind: 'diagonal', flank: 6, width: 13, count: 5, skipped: 0 });
+    expect(atBoundaries.scores[0].name).toBe('Domain / between');
+    expect(atBoundaries.scores[0].value).toBeGreaterThan(1.5);
+
+    const inside = computePileup(oe, size, mids, 'diagonal', { flank: 6 });
+    expect(inside.scores[0].value).toBeLessThan(atBoundaries.scores[0].value);
+  });
+
+  it('scores a shared dot at the centre of a pair pileup', () => {
+    const size = 64;
+    const m = new Float32Array(size * size);
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) m[i * size + j] = 1 / (1 + Math.abs(i - j));
+    }
+    const dots = [[10, 30], [30, 50], [20, 40]];
+    for (const [i, j] of dots) {
+      m[i * size + j] *= 4;
+      m[j * size + i] *= 4;
+    }
+    const oe = observedOverExpected(m, size);
+    const result = computePileup(oe, size, dots.map(([row, col]) => ({ row, col })), 'pair', { flank: 5 });
+    const centre = result.matrix[5 * result.width + 5];
+    expect(centre).toBeGreaterThan(2);
+    expect(result.scores.map((s) => s.name)).toEqual(['Peak / lower-left', 'Peak / mean']);
+    for (const s of result.scores) expect(s.value).toBeGreaterThan(2);
+  });
+
+  it('skips anchors whose window runs off the map', () => {
+    const size = 32;
+    const oe = new Float32Array(size * size).fill(1);
+    const result = computePileup(oe, size, [{ row: 2, col: 2 }, { row: 16, col: 16 }, { row: 10, col: 30 }], 'diagonal', { flank: 4 });
+    expect(result.count).toBe(1);
+    expect(result.skipped).toBe(2);
+    expect(Array.from(result.matrix).every((v) => v === 1)).toBe(true);
+    expect(computePileup(oe, size, [{ row: 0, col: 0 }], 'pair', { flank: 4 }).scores).toEqual([]);
+  });
+});
+
+describe('exportPileupTSV', () => {
+  it('writes the scores and the mean window by offset', () => {
+    const size = 16;
+    const oe = new Float32Array(size * size).fill(1);
+    const result = computePileup(oe, size, [{ row: 8, col: 8 }], 'diagonal', { flank: 1 });
+    const lines = exportPileupTSV(result, 'TAD boundaries').trim().split('\n');
+    expect(lines[0]).toBe('# Pileup: TAD boundaries (on the diagonal)');
+    expect(lines[1]).toBe('# Anchors: 1 (0 skipped at the map edge)');
+    expect(lines[2]).toBe('# Domain / between: 1.0000');
+    expect(lines[3]).toBe('offset\t-1\t0\t1');
+    expect(lines.slice(4)).toEqual(['-1\t1.0000\t1.0000\t1.0000', '0\t1.0000\t1.0000\t1.0000', '1\t1.0000\t1.0000\t1.0000']);
+  });
+});
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import pako from 'pako';
+import { parseAndAssemble, parsePretextFile, type PretextFile } from '../../src/formats/PretextParser';
+import { encodeBC4Level } from '../../src/formats/BC4Encoder';
+import {
+  contentRangeTotal,
+  openRemotePretext,
+  PretextStreamSource,
+  type StreamedTile,
+} from '../../src/formats/PretextStream';
+import { decodeTile } from '../../src/renderer/TileDecoder';
+import { TileDecodeWorkerClient } from '../../src/renderer/TileDecodeWorkerClient';
+import type { TileKey } from '../../src/renderer/TileManager';
+
+// ---------------------------------------------------------------------------
+// Fixture: 4 x 4 tiles of 16 px, 3 mips, 2 contigs and a graph extension
+// ---------------------------------------------------------------------------
+
+const RES = 16;
+const N = 4;
+const MIPS = 3;
+
+function buildFixture(): Uint8Array {
+  const contigs = [{ name: 'chrA', length: 600 }, { name: 'chrB', length: 400 }];
+  const header = new Uint8Array(15 + 68 * contigs.length);
+  const hv = new DataView(header.buffer);
+  hv.setBigUint64(0, 1000n, true);
+  hv.setUint32(8, contigs.length, true);
+  contigs.forEach((c, i) => {
+    hv.setFloat32(12 + i * 68, c.length / 1000, true);
+    for (let j = 0; j < c.name.length; j++) header[16 + i * 68 + j] = c.name.charCodeAt(j);
+  });
+  header.set([4, 2, MIPS], 12 + 68 * contigs.length);
+
+  const u32 = (v: number) => { const b = new Uint8Array(4); new DataView(b.buffer).setUint32(0, v, true); return b; };
+  const headerComp = pako.deflateRaw(header);
+  const chunks: Uint8Array[] = [new Uint8Array([0x70, 0x73, 0x74, 0x6d]), u32(headerComp.length), u32(header.length), headerComp];
+
+  let tile = 0;
+  for (let tx = 0; tx < N; tx++) {
+    for (let ty = tx; ty < N; ty++, tile++) {
+      const bc4 = new Uint8Array((RES * RES + (RES / 2) ** 2 + (RES / 4) ** 2) / 2);
+      for (let lev = 0, r = RES, offset = 0; lev < MIPS; lev++, offset += (r * r) >> 1, r >>= 1) {
+        // Asymmetric within a tile, so a missed transpose shows.
+        const img = new Uint8Array(r * r).map((_, p) => (tile * 16 + (p % r) * 8 + Math.floor(p / r)) % 256);
+        encodeBC4Level(img, r, bc4, offset);
+      }
+      const comp = pako.deflateRaw(bc4);
+      chunks.push(u32(comp.length), comp);
+    }
+  }
+
+  const ext = new Uint8Array(64 + 4 * RES * N);
+  'coverage'.split('').forEach((ch, i) => { ext[i] = ch.charCodeAt(0); });
+  for (let i = 0; i < RES * N; i++) new DataView(ext.buffer).setInt32(64 + 4 * i, i * 3, true);
+  const extComp = pako.deflateRaw(ext);
+  chunks.push(new Uint8Array([0x70, 0x73, 0x67, 0x68]), u32(extComp.length), extComp);
+
+  const out = new Uint8Array(chunks.reduce((s, c) => s + c.length, 0));
+  let off = 0;
+  for (const c of chunks) { out.set(c, off); off += c.length; }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Local static server
+// ---------------------------------------------------------------------------
+
+interface Served { url: string; ranges: string[]; release: () => void }
+
+let server: Server | null = null;
+
+/**
+ * Serve `file` at /map.pretext. `ranges: false` ignores Range headers; `hold`
+ * sends only the first half of an open-ended range until `release()`.
+ */
+async function serve(file: Uint8Array, opts: { ranges?: boolean; hold?: boolean } = {}): Promise<Served> {
+  let release!: () => void;
+  const released = new Promise<void>((r) => { release = r; });
+  const ranges: string[] = [];
+  server = createServer((req, res) => {
+    if (req.url !== '/map.pretext') { res.writeHead(404).end(); return; }
+    const match = req.headers.range?.match(/^bytes=(\d+)-(\d*)$/);
+    ranges.push(req.headers.range ?? '');
+    if (opts.ranges === false || !match) {
+      res.writeHead(200, { 'Content-Length': file.length }).end(file);
+      return;
+    }
+    const start = Number(match[1]);
+    const end = match[2] ? Math.min(Number(match[2]), file.length - 1) : file.length - 1;
+    const body = file.subarray(start, end + 1);
+    res.writeHead(206, { 'Content-Range': `bytes ${start}-${end}/${file.length}`, 'Content-Length': body.length });
+    if (opts.hold && !match[2]) {
+      const half = body.length >> 1;
+      res.write(body.subarray(0, half));
+      void released.then(() => res.end(body.subarray(half)));
+    } else {
+      res.end(body);
+    }
+  });
+  await new Promise<void>((r) => server!.listen(0, '127.0.0.1', r));
+  const { port } = server.address() as AddressInfo;
+  return { url: `http://127.0.0.1:${port}/map.pretext`, ranges, release };
+}
+
+afterEach(async () => {
+  if (!server) return;
+  server.closeAllConnections();
+  await new Promise((r) => server!.close(r));
+  server = null;
+});
+
+let file: Uint8Array;
+let parsed: PretextFile;
+
+beforeAll(async () => {
+  file = buildFixture();
+  parsed = await parsePretextFile(file.slice().buffer);
+});
+
+const keys: TileKey[] = [
+  { level: 2, col: 0, row: 0 },
+  { level: 2, col: 3, row: 1 },
+  { level: 1, col: 1, row: 3 },
+  { level: 0, col: 2, row: 2 },
+];
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('openRemotePretext', () => {
+  it('reads the header with one range request', async () => {
+    const { url, ranges } = await serve(file);
+    const info = await openRemotePretext(url);
+    expect(info!.header).toEqual(parsed.header);
+    expect(info!.contigs).toEqual(parsed.contigs);
+    expect(info!.fileSize).toBe(file.length);
+    expect(Array.from(info!.head)).toEqual(Array.from(file));
+    expect(ranges).toEqual(['bytes=0-65535']);
+  });
+
+  it('leaves servers without range support to the full download', async () => {
+    const { url } = await serve(file, { ranges: false });
+    expect(await openRemotePretext(url)).toBeNull();
+  });
+
+  it('reports HTTP errors', async () => {
+    const { url } = await serve(file);
+    await expect(openRemotePretext(url.replace('map', 'missing'))).rejects.toThrow('Download failed: 404');
+  });
+
+  it('reads the total size from Content-Range', () => {
+    expect(contentRangeTotal('bytes 0-65535/1234567')).toBe(1234567);
+    expect(contentRangeTotal('bytes 0-65535/*')).toBeNull();
+    expect(contentRangeTotal(null)).toBeNull();
+  });
+});
+
+describe('PretextStreamSource', () => {
+  it('builds the same overview and extensions as a full parse', async () => {
+    const { url } = await serve(file);
+    const source = new PretextStreamSource((await openRemotePretext(url))!);
+    const seen: StreamedTile[] = [];
+    let last = { tilesRead: 0, totalTiles: 0 };
+    const extensions = await source.stream((tile, progress) => { seen.push(tile); last = progress; });
+
+    expect(seen.map((t) => [t.col, t.row])).toEqual([[0, 0], [0, 1], [0, 2], [0, 3], [1, 1], [1, 2], [1, 3], [2, 2], [2, 3], [3, 3]]);
+    expect(last).toMatchObject({ tilesRead: 10, totalTiles: 10 });
+    const full = await parseAndAssemble(file.slice().buffer);
+    const streamed = source.assembleOverview('clean');
+    expect(streamed.overviewSize).toBe(full.overviewSize);
+    expect(Array.from(streamed.overview)).toEqual(Array.from(full.overview));
+    expect(extensions).toEqual(parsed.extensions);
+  });
+
+  it('range-requests single blocks for detail tiles once indexed', async () => {
+    const { url, ranges } = await serve(file);
+    const source = new PretextStreamSource((await openRemotePretext(url))!);
+    await source.stream(() => {});
+    ranges.length = 0;
+
+    for (const key of keys) {
+      expect(Array.from(await source.decodeTile(key))).toEqual(Array.from(decodeTile(key, parsed.tiles, parsed.header)));
+    }
+    // One closed range per distinct block: (1, 3) and its mirror share one.
+    expect(ranges).toHaveLength(3);
+    expect(ranges.every((r) => /^bytes=\d+-\d+$/.test(r))).toBe(true);
+
+    // Cached: no further requests.
+    await source.decodeTile(keys[1]);
+    expect(ranges).toHaveLength(3);
+  });
+
+  it('takes a tile the stream has not reached from the stream', async () => {
+    const { url, ranges, release } = await serve(file, { hold: true });
+    const source = new PretextStreamSource((await openRemotePretext(url))!);
+    const streaming = source.stream(() => {});
+    const key = { level: 2, col: 3, row: 3 };
+    const tile = source.decodeTile(key);
+    release();
+
+    expect(Array.from(await tile)).toEqual(Array.from(decodeTile(key, parsed.tiles, parsed.header)));
+    await streaming;
+    // The header and the tile section, nothing else.
+    expect(ranges).toHaveLength(2);
+  });
+
+  it('stops on close', async () => {
+    const { url } = await serve(file, { hold: true });
+    const source = new PretextStreamSource((await openRemotePretext(url))!);
+    const streaming = source.stream(() => {});
+    const pending = source.decodeTile({ level: 2, col: 3, row: 3 });
+    source.close();
+    await expect(streaming).rejects.toMatchObject({ name: 'AbortError' });
+    // A tile the stream never reached decodes empty.
+    expect((await pending).every((v) => v === 0)).toBe(true);
+  });
+});
+
+describe('TileDecodeWorkerClient remote source (sync fallback)', () => {
+  it('streams the overview, then decodes detail tiles by range', async () => {
+    const { url } = await serve(file);
+    const client = new TileDecodeWorkerClient();
+    const decoded: TileKey[] = [];
+    client.setOnDecoded((key) => decoded.push(key));
+
+    let tiles = 0;
+    const extensions = await client.setRemoteSource((await openRemotePretext(url))!, () => { tiles++; });
+    expect(tiles).toBe(10);
+    expect(extensions.map((e) => e.name)).toEqual(['coverage']);
+
+    client.decode(keys);
+    await expect.poll(() => decoded.length).toBe(keys.length);
+    const { overviewSize } = await client.assembleOverview('clean');
+    expect(overviewSize).toBe(N * (RES >> (MIPS - 1)));
+    client.dispose();
+  });
+
+  it('rejects a stream another source replaces', async () => {
+    const { url } = await serve(file, { hold: true });
+    const client = new TileDecodeWorkerClient();
+    const streaming = client.setRemoteSource((await openRemotePretext(url))!, () => {});
+    client.setSource(parsed.tiles, parsed.header);
+    await expect(streaming).rejects.toMatchObject({ name: 'AbortError' });
+    client.dispose();
+  });
+});
@@ -0,0 +1,357 @@
+import { describe, it, expect } from 'vitest';
+import pako from 'pako';
+import {
+  parsePretextFile,
+  decodeBC4Block,
+  type PretextFile,
+} from '../../src/formats/PretextParser';
+import { encodeBC4Block, encodeBC4Level } from '../../src/formats/BC4Encoder';
+import { buildOutputLayout, writePretextFile } from '../../src/export/PretextWriter';
+import type { ContigInfo } from '../../src/core/State';
+
+// ---------------------------------------------------------------------------
+// Fixture: a tiny hand-built .pretext file
+//
+// 4 tiles of 16 px per dimension (64 px map), 3 mip levels (16, 8, 4).
+// Contigs A/B/C have lengths 16/16/32 bp, so their pixel spans are 16/16/32 —
+// block aligned, which keeps constant-valued regions exact through BC4.
+// ---------------------------------------------------------------------------
+
+const TEXTURE_RES = 4;
+const N_TEXT_RES = 2;
+const MIPS = 3;
+const RES = 1 << TEXTURE_RES;
+const N = 1 << N_TEXT_RES;
+const PIXELS = RES * N;
+
+const CONTIGS = [
+  { name: 'ctgA', length: 16 },
+  { name: 'ctgB', length: 16 },
+  { name: 'ctgC', length: 32 },
+];
+
+/** Intensity for a pair of contig indices (symmetric, distinct per pair). */
+function pairValue(a: number, b: number): number {
+  const lo = Math.min(a, b);
+  const hi = Math.max(a, b);
+  return 40 + lo * 60 + hi * 20;
+}
+
+function contigAtPixel(p: number, spans: Array<[number, number]>): number {
+  return spans.findIndex(([s, e]) => p >= s && p < e);
+}
+
+function buildFixture(): ArrayBuffer {
+  const spans: Array<[number, number]> = [[0, 16], [16, 32], [32, 64]];
+  const total = CONTIGS.reduce((s, c) => s + c.length, 0);
+
+  const header = new Uint8Array(15 + 68 * CONTIGS.length);
+  const hv = new DataView(header.buffer);
+  hv.setBigUint64(0, BigInt(total), true);
+  hv.setUint32(8, CONTIGS.length, true);
+  CONTIGS.forEach((c, i) => {
+    hv.setFloat32(12 + i * 68, c.length / total, true);
+    for (let j = 0; j < c.name.length; j++) header[16 + i * 68 + j] = c.name.charCodeAt(j);
+  });
+  header[12 + 68 * CONTIGS.length] = TEXTURE_RES;
+  header[13 + 68 * CONTIGS.length] = N_TEXT_RES;
+  header[14 + 68 * CONTIGS.length] = MIPS;
+
+  const chunks: Uint8Array[] = [];
+  const u32 = (v: number) => { const b = new Uint8Array(4); new DataView(b.buffer).setUint32(0, v, true); return b; };
+  const headerComp = pako.deflateRaw(header);
+  chunks.push(new Uint8Array([0x70, 0x73, 0x74, 0x6d]), u32(headerComp.length), u32(header.length), headerComp);
+
+  for (let tx = 0; tx < N; tx++) {
+    for (let ty = tx; ty < N; ty++) {
+      const bc4 = new Uint8Array((RES * RES + (RES / 2) ** 2 + (RES / 4) ** 2) / 2);
+      let offset = 0;
+      for (let lev = 0, r = RES; lev < MIPS; lev++, r >>= 1) {
+        const scale = RES / r;
+        const img = new Uint8Array(r * r);
+        for (let py = 0; py < r; py++) {
+          for (let px = 0; px < r; px++) {
+            const gx = (tx * RES) + px * scale;
+            const gy = (ty * RES) + py * scale;
+            img[py * r + px] = pairValue(contigAtPixel(gx, spans), contigAtPixel(gy, spans));
+          }
+        }
+        encodeBC4Level(img, r, bc4, offset);
+        offset += (r * r) >> 1;
+      }
+      const comp = pako.deflateRaw(bc4);
+      chunks.push(u32(comp.length), comp);
+    }
+  }
+
+  // One graph extension whose value is the source pixel index.
+  const ext = new Uint8Array(64 + 4 * PIXELS);
+  'coverage'.split('').forEach((ch, i) => { ext[i] = ch.charCodeAt(0); });
+  const ev = new DataView(ext.buffer);
+  for (let i = 0; i < PIXELS; i++) ev.setInt32(64 + 4 * i, i, true);
+  const extComp = pako.deflateRaw(ext);
+  chunks.push(new Uint8Array([0x70, 0x73, 0x67, 0x68]), u32(extComp.length), extComp);
+
+  const len = chunks.reduce((s, c) => s + c.length, 0);
+  const out = new Uint8Array(len);
+  let off = 0;
+  for (const c of chunks) { out.set(c, off); off += c.length; }
+  return out.buffer;
+}
+
+function toContigInfos(parsed: PretextFile): ContigInfo[] {
+  return parsed.contigs.map((c, i) => ({
+    name: c.name,
+    originalIndex: i,
+    length: c.length,
+    pixelStart: c.pixelStart,
+    pixelEnd: c.pixelEnd,
+    inverted: false,
+    scaffoldId: null,
+  }));
+}
+
+/** Full-resolution value at global pixel (x, y) from a parsed file. */
+function valueAt(parsed: PretextFile, x: number, y: number): number {
+  const res = parsed.header.textureResolution;
+  let tx = Math.floor(x / res), ty = Math.floor(y / res);
+  let px = x % res, py = y % res;
+  if (tx > ty) { [tx, ty] = [ty, tx]; [px, py] = [py, px]; }
+  const n = parsed.header.numberOfTextures1D;
+  const lin = (((2 * n - tx - 1) * tx) >> 1) + ty;
+  return Math.round(parsed.tilesDecoded[lin][0][py * res + px] * 255);
+}
+
+// ---------------------------------------------------------------------------
+// BC4 encoder
+// ---------------------------------------------------------------------------
+
+describe('encodeBC4Block', () => {
+  function roundTrip(pixels: Uint8Array): Uint8Array {
+    const block = new Uint8Array(8);
+    encodeBC4Block(pixels, block, 0);
+    const out = new Uint8Array(16);
+    decodeBC4Block(block, 0, new Uint8Array(8), out);
+    return out;
+  }
+
+  it('encodes a constant block exactly', () => {
+    const px = new Uint8Array(16).fill(137);
+    expect(Array.from(roundTrip(px))).toEqual(Array.from(px));
+  });
+
+  it('encodes a two-value block exactly', () => {
+    const px = new Uint8Array(16).map((_, i) => (i % 3 === 0 ? 200 : 10));
+    expect(Array.from(roundTrip(px))).toEqual(Array.from(px));
+  });
+
+  it('keeps exact zeros in sparse blocks', () => {
+    const px = new Uint8Array(16);
+    px[3] = 90; px[7] = 100; px[11] = 95;
+    const out = roundTrip(px);
+    for (let k = 0; k < 16; k++) {
+      if (px[k] === 0) expect(out[k]).toBe(0);
+      else expect(Math.abs(out[k] - px[k])).toBeLessThanOrEqual(3);
+    }
+  });
+
+  it('bounds the error on a full ramp to half a palette step', () => {
+    const px = new Uint8Array(16).map((_, i) => 20 + i * 14);
+    const out = roundTrip(px);
+    const step = (px[15] - px[0]) / 7;
+    for (let k = 0; k < 16; k++) {
+      expect(Math.abs(out[k] - px[k])).toBeLessThanOrEqual(Math.ceil(step / 2));
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+describe('buildOutputLayout', () => {
+  const contigs: ContigInfo[] = [
+    { name: 'a', originalIndex: 0, length: 16, pixelStart: 0, pixelEnd: 16, inverted: false, scaffoldId: null },
+    { name: 'b', originalIndex: 1, length: 48, pixelStart: 16, pixelEnd: 64, inverted: true, scaffoldId: null },
+  ];
+
+  it('lays contigs out in the requested order', () => {
+    const { outputContigs, totalLength } = buildOutputLayout(contigs, [1, 0], 64);
+    expect(totalLength).toBe(64);
+    expect(outputContigs.map((c) => c.name)).toEqual(['b', 'a']);
+    expect(outputContigs[0].pixelStart).toBe(0);
+    expect(outputContigs[0].pixelEnd).toBe(48);
+    expect(outputContigs[1].pixelEnd).toBe(64);
+  });
+
+  it('reverses the source span of inverted contigs', () => {
+    const { remap } = buildOutputLayout(contigs, [1, 0], 64);
+    expect(remap[0]).toBe(63);
+    expect(remap[47]).toBe(16);
+    expect(remap[48]).toBe(0);
+  });
+
+  it('rejects unknown contig ids', () => {
+    expect(() => buildOutputLayout(contigs, [0, 5], 64)).toThrow(/does not exist/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Full write -> parse round trip
+// ---------------------------------------------------------------------------
+
+describe('writePretextFile', () => {
+  it('round-trips the source layout unchanged', async () => {
+    const source = await parsePretextFile(buildFixture());
+    const bytes = await writePretextFile({
+      header: source.header,
+      rawTiles: source.tiles,
+      contigs: toContigInfos(source),
+      contigOrder: [0, 1, 2],
+      extensions: source.extensions,
+    });
+    const reparsed = await parsePretextFile(bytes.slice().buffer);
+
+    expect(reparsed.header.textureRes).toBe(TEXTURE_RES);
+    expect(reparsed.header.nTextRes).toBe(N_TEXT_RES);
+    expect(reparsed.header.mipMapLevels).toBe(MIPS);
+    expect(reparsed.contigs.map((c) => [c.name, c.pixelStart, c.pixelEnd]))
+      .toEqual(source.contigs.map((c) => [c.name, c.pixelStart, c.pixelEnd]));
+    for (let i = 0; i < source.tiles.length; i++) {
+      expect(Array.from(reparsed.tiles[i])).toEqual(Array.from(source.tiles[i]));
+    }
+  });
+
+  it('writes the curated order, inversion and cut layout', async () => {
+    const source = await parsePretextFile(buildFixture());
+    const contigs = toContigInfos(source);
+    // Cut ctgC (32 px) into two 16 px halves, then reorder and invert ctgA.
+    contigs.push(
+      { ...contigs[2], name: 'ctgC_L', length: 16, pixelEnd: 48 },
+      { ...contigs[2], name: 'ctgC_R', length: 16, pixelStart: 48 },
+    );
+    contigs[0] = { ...contigs[0], inverted: true };
+    const order = [4, 0, 1, 3];
+
+    const bytes = await writePretextFile({
+      header: source.header,
+      rawTiles: source.tiles,
+      contigs,
+      contigOrder: order,
+      extensions: new Map(source.extensions.map((e) => [e.name, e.data])),
+    });
+    const out = await parsePretextFile(bytes.slice().buffer);
+
+    expect(out.contigs.map((c) => c.name)).toEqual(['ctgC_R', 'ctgA', 'ctgB', 'ctgC_L']);
+    expect(out.contigs.map((c) => c.pixelEnd - c.pixelStart)).toEqual([16, 16, 16, 16]);
+    expect(out.contigs.map((c) => c.length)).toEqual([16, 16, 16, 16]);
+
+    // Source contig index per output contig, for the expected intensities.
+    const sourceOf = [2, 0, 1, 2];
+    for (let y = 0; y < PIXELS; y += 5) {
+      for (let x = 0; x < PIXELS; x += 3) {
+        const expected = pairValue(sourceOf[x >> 4], sourceOf[y >> 4]);
+        expect(valueAt(out, x, y)).toBe(expected);
+      }
+    }
+
+    // The coverage extension follows the same remap, reversed for ctgA.
+    const cov = out.extensions.find((e) => e.name === 'coverage')!;
+    expect(cov).toBeDefined();
+    expect(cov.data[0]).toBe(48);
+    expect(cov.data[16]).toBe(15);
+    expect(cov.data[31]).toBe(0);
+    expect(cov.data[32]).toBe(16);
+    expect(cov.data[63]).toBe(47);
+  });
+
+  it('writes a join of non-adjacent, mixed-orientation contigs part by part', async () => {
+    const source = await parsePretextFile(buildFixture());
+    const contigs = toContigInfos(source);
+    // Join inverted ctgA to ctgC across ctgB, as CurationEngine.join records it:
+    // the pixel span is the hull of both inputs, orientation lives in the segments.
+    contigs.push({
+      ...contigs[0],
+      name: 'ctgA+ctgC',
+      length: 48,
+      pixelStart: 0,
+      pixelEnd: 64,
+      sequenceSegments: [
+        { sourceName: 'ctgA', start: 0, end: 16, revComp: true },
+        { sourceName: 'ctgC', start: 0, end: 32, revComp: false },
+      ],
+    });
+
+    const bytes = await writePretextFile({
+      header: source.header,
+      rawTiles: source.tiles,
+      contigs,
+      contigOrder: [1, 3],
+      extensions: source.extensions,
+    });
+    const out = await parsePretextFile(bytes.slice().buffer);
+
+    expect(out.contigs.map((c) => [c.name, c.pixelStart, c.pixelEnd]))
+      .toEqual([['ctgB', 0, 16], ['ctgA+ctgC', 16, 64]]);
+
+    // ctgB, then ctgA, then ctgC — never ctgB again inside the join.
+    const sourceOf = [1, 0, 2, 2];
+    for (let y = 0; y < PIXELS; y += 5) {
+      for (let x = 0; x < PIXELS; x += 3) {
+        expect(valueAt(out, x, y)).toBe(pairValue(sourceOf[x >> 4], sourceOf[y >> 4]));
+      }
+    }
+
+    const cov = out.extensions.find((e) => e.name === 'coverage')!;
+    expect(cov.data[0]).toBe(16);
+    expect(cov.data[16]).toBe(15);
+    expect(cov.data[31]).toBe(0);
+    expect(cov.data[32]).toBe(32);
+    expect(cov.data[63]).toBe(63);
+  });
+
+  it('refuses to write a join whose source contig is missing', async () => {
+    const source = await parsePretextFile(buildFixture());
+    const contigs = toContigInfos(source);
+    contigs.push({
+      ...contigs[0],
+      name: 'ctgA+ctgX',
+      length: 32,
+      sequenceSegments: [
+        { sourceName: 'ctgA', start: 0, end: 16, revComp: false },
+        { sourceName: 'ctgX', start: 0, end: 16, revComp: false },
+      ],
+    });
+    await expect(writePretextFile({
+      header: source.header,
+      rawTiles: source.tiles,
+      contigs,
+      contigOrder: [3, 1, 2],
+    })).rejects.toThrow(/source contig "ctgX"/);
+  });
+
+  it('keeps mip levels consistent with the finest level', async () => {
+    const source = await parsePretextFile(buildFixture());
+    const bytes = await writePretextFile({
+      header: source.header,
+      rawTiles: source.tiles,
+      contigs: toContigInfos(source),
+      contigOrder: [2, 1, 0],
+    });
+    const out = await parsePretextFile(bytes.slice().buffer);
+    const coarsest = out.tilesDecoded[0][MIPS - 1];
+    // Tile (0,0) now holds ctgC x ctgC everywhere.
+    for (const v of coarsest) expect(Math.round(v * 255)).toBe(pairValue(2, 2));
+    expect(out.extensions).toHaveLength(0);
+  });
+
+  it('reports progress up to 100', async () => {
+    const source = await parsePretextFile(buildFixture());
+    const seen: number[] = [];
+    await writePretextFile(
+      { header: source.header, rawTiles: source.tiles, contigs: toContigInfos(source), contigOrder: [0, 1, 2] },
+      { onProgress: (_m, p) => seen.push(p) },
+    );
+    expect(seen[seen.length - 1]).toBe(100);
+  });
+});
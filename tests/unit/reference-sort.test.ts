@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { state, type ContigInfo, type MapData } from '../../src/core/State';
+import { parsePAF, type PAFRecord } from '../../src/formats/PAFParser';
+import { referenceChromosomes, syntenyTrackData } from '../../src/analysis/Synteny';
+import { placeContigs, referenceGuidedSort } from '../../src/curation/ReferenceSort';
+import { referenceSortContigs } from '../../src/curation/BatchOperations';
+import { CurationEngine, undoBatch } from '../../src/curation/CurationEngine';
+import { ScaffoldManager } from '../../src/curation/ScaffoldManager';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** One PAF line; the whole query range aligns, every base matching. */
+function pafLine(
+  query: string, qLen: number, qStart: number, qEnd: number, strand: '+' | '-',
+  target: string, tLen: number, tStart: number, tEnd: number, mapq = 60,
+): string {
+  const len = qEnd - qStart;
+  return [query, qLen, qStart, qEnd, strand, target, tLen, tStart, tEnd, len, len, mapq, 'tp:A:P'].join('\t');
+}
+
+/** `n` contigs of 16 px and 16 kb each, in file order. */
+function makeContigs(n: number): ContigInfo[] {
+  return Array.from({ length: n }, (_, i) => ({
+    name: `ctg${i}`, originalIndex: i, length: 16000,
+    pixelStart: i * 16, pixelEnd: (i + 1) * 16, inverted: false, scaffoldId: null,
+  }));
+}
+
+/** A continuous chromosome across the whole map: 1/(1+d) decay. */
+function decayMap(size: number): Float32Array {
+  const m = new Float32Array(size * size);
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) m[i * size + j] = 1 / (1 + Math.abs(i - j));
+  }
+  return m;
+}
+
+/** ctg0..ctg2 on chr1, in the order and strands given. */
+function chr1(placements: Array<[number, '+' | '-']>): PAFRecord[] {
+  return parsePAF(placements.map(([ctg, strand], k) =>
+    pafLine(`ctg${ctg}`, 16000, 0, 16000, strand, 'chr1', 100000, k * 20000, k * 20000 + 16000),
+  ).join('\n'));
+}
+
+// ---------------------------------------------------------------------------
+// Parsing and synteny
+// ---------------------------------------------------------------------------
+
+describe('parsePAF', () => {
+  it('reads alignment records and skips malformed lines', () => {
+    const records = parsePAF([
+      '# comment',
+      pafLine('ctg1', 5000, 100, 4100, '-', 'chr2', 90000, 500, 4500, 7),
+      'ctg1\t5000\t0\t100\t?\tchr2\t90000\t0\t100\t100\t100\t60',
+      'short\tline',
+    ].join('\n'));
+    expect(records).toEqual([{
+      queryName: 'ctg1', queryLength: 5000, queryStart: 100, queryEnd: 4100, reverse: true,
+      targetName: 'chr2', targetLength: 90000, targetStart: 500, targetEnd: 4500,
+      matches: 4000, blockLength: 4000, mapq: 7,
+    }]);
+  });
+
+  it('orders reference chromosomes naturally', () => {
+    const records = parsePAF(['chr10', 'chr2', 'chrX', 'chr1'].map((t) => pafLine('q', 2000, 0, 2000, '+', t, 1000 * t.length, 0, 2000)).join('\n'));
+    expect(referenceChromosomes(records).map((c) => [c.name, c.offset])).toEqual([
+      ['chr1', 0], ['chr2', 4000], ['chr10', 8000], ['chrX', 13000],
+    ]);
+  });
+});
+
+describe('syntenyTrackData', () => {
+  it('follows the display order and inversions', () => {
+    const contigs = makeContigs(2);
+    contigs[1].inverted = true;
+    const records = parsePAF([
+      pafLine('ctg0', 16000, 0, 16000, '+', 'chr1', 16000, 0, 16000),
+      pafLine('ctg1', 16000, 0, 8000, '+', 'chr2', 16000, 0, 8000),
+    ].join('\n'));
+    const data = syntenyTrackData(contigs, [1, 0], 32, records);
+    // ctg1 shown reversed: its unaligned second half comes first.
+    expect(Array.from(data.subarray(0, 8)).every((v) => v === 0)).toBe(true);
+    expect(data[8]).toBeCloseTo((16000 + 7500) / 32000, 4);
+    expect(data[15]).toBeCloseTo((16000 + 500) / 32000, 4);
+    expect(data[16]).toBeCloseTo(500 / 32000, 4);
+    expect(data[31]).toBeCloseTo(15500 / 32000, 4);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Placement and sorting
+// ---------------------------------------------------------------------------
+
+describe('placeContigs', () => {
+  it('places contigs by their best chromosome and leaves ambiguous ones unplaced', () => {
+    const contigs = makeContigs(3);
+    const records = parsePAF([
+      pafLine('ctg0', 16000, 0, 16000, '-', 'chr1', 100000, 40000, 56000),
+      pafLine('ctg1', 16000, 0, 8000, '+', 'chr1', 100000, 0, 8000),
+      pafLine('ctg1', 16000, 8000, 16000, '+', 'chr2', 100000, 0, 8000),
+      pafLine('ctg2', 16000, 0, 16000, '+', 'chr2', 100000, 0, 16000, 0),
+    ].join('\n'));
+    const placements = placeContigs(contigs, [0, 1, 2], records);
+    expect(placements[0]).toMatchObject({ chrom: 'chr1', position: 48000, reverse: true, confidence: 1 });
+    expect(placements[1]).toMatchObject({ chrom: null, confidence: 0.5 });
+    expect(placements[2]).toMatchObject({ chrom: null, alignedBp: 0 });
+  });
+
+  it('follows cut pieces through their source segments', () => {
+    const contigs = makeContigs(1);
+    contigs.push(
+      { ...contigs[0], name: 'ctg0_L', length: 8000, pixelEnd: 8, inverted: true,
+        sequenceSegments: [{ sourceName: 'ctg0', start: 0, end: 8000, revComp: true }] },
+      { ...contigs[0], name: 'ctg0_R', length: 8000, pixelStart: 8,
+        sequenceSegments: [{ sourceName: 'ctg0', start: 8000, end: 16000, revComp: false }] },
+    );
+    const records = chr1([[0, '+']]);
+    const [left, right] = placeContigs(contigs, [1, 2], records);
+    expect(left).toMatchObject({ chrom: 'chr1', position: 4000, reverse: true });
+    expect(right).toMatchObject({ chrom: 'chr1', position: 12000, reverse: false });
+  });
+});
+
+describe('referenceGuidedSort', () => {
+  const size = 48;
+  const hic = { contactMap: decayMap(size), size, textureSize: size };
+
+  it('orders and orients by the reference when Hi-C agrees', () => {
+    const contigs = makeContigs(3);
+    const records = parsePAF([
+      pafLine('ctg2', 16000, 0, 16000, '+', 'chr2', 50000, 0, 16000),
+      pafLine('ctg0', 16000, 0, 16000, '+', 'chr1', 50000, 20000, 36000),
+      pafLine('ctg1', 16000, 0, 16000, '+', 'chr1', 50000, 0, 16000),
+    ].join('\n'));
+    const result = referenceGuidedSort(contigs, [0, 1, 2], records);
+    expect(result.scaffolds.map((s) => [s.name, s.entries.map((e) => e.orderIndex)])).toEqual([
+      ['chr1', [1, 0]], ['chr2', [2]],
+    ]);
+    expect(result.unplaced).toEqual([]);
+  });
+
+  it('lets Hi-C overrule an orientation the reference gets wrong', () => {
+    const contigs = makeContigs(3);
+    const records = chr1([[0, '+'], [1, '-'], [2, '+']]);
+    const byReference = referenceGuidedSort(contigs, [0, 1, 2], records, hic, { hicOverrule: false });
+    expect(byReference.scaffolds[0].entries[1]).toEqual({ orderIndex: 1, inverted: true });
+
+    const overruled = referenceGuidedSort(contigs, [0, 1, 2], records, hic);
+    expect(overruled.scaffolds[0].entries).toEqual([
+      { orderIndex: 0, inverted: false }, { orderIndex: 1, inverted: false }, { orderIndex: 2, inverted: false },
+    ]);
+    expect(overruled.overrules).toMatchObject([{ kind: 'orientation', orderIndex: 1, chrom: 'chr1' }]);
+    expect(overruled.overrules[0].hicScore).toBeGreaterThan(overruled.overrules[0].referenceScore);
+  });
+
+  it('splits the scaffold at junctions Hi-C contradicts', () => {
+    const contigs = makeContigs(3);
+    const result = referenceGuidedSort(contigs, [0, 1, 2], chr1([[0, '+'], [2, '+'], [1, '+']]), hic);
+    expect(result.scaffolds.map((s) => [s.name, s.entries.map((e) => e.orderIndex)])).toEqual([
+      ['chr1', [0]], ['chr1_2', [2]], ['chr1_3', [1]],
+    ]);
+    expect(result.overrules.filter((o) => o.kind === 'junction')).toMatchObject([
+      { orderIndex: 0, nextOrderIndex: 2, partnerOrderIndex: 1 },
+      { orderIndex: 2, nextOrderIndex: 1, partnerOrderIndex: 0 },
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Batch apply
+// ---------------------------------------------------------------------------
+
+describe('referenceSortContigs', () => {
+  beforeEach(() => {
+    const contigs = makeContigs(4);
+    const map: MapData = {
+      filename: 'test.pretext', textureSize: 64, numMipMaps: 1, tileResolution: 1024, tilesPerDimension: 1,
+      contigs, contactMap: null, rawTiles: null, parsedHeader: null, extensions: new Map(),
+    };
+    state.update({ map, contigOrder: [0, 1, 2, 3], undoStack: [], redoStack: [] });
+  });
+
+  it('applies the order and orientation, names scaffolds after chromosomes, and undoes as one batch', () => {
+    const mgr = new ScaffoldManager();
+    CurationEngine.setScaffoldManager(mgr);
+    const records = parsePAF([
+      pafLine('ctg3', 16000, 0, 16000, '-', 'chr1', 50000, 0, 16000),
+      pafLine('ctg1', 16000, 0, 16000, '+', 'chr1', 50000, 20000, 36000),
+      pafLine('ctg0', 16000, 0, 16000, '+', 'chr2', 50000, 0, 16000),
+    ].join('\n'));
+    const result = referenceSortContigs(mgr, records);
+    expect(result.description).toContain('3 contig(s) on 2 scaffold(s), 1 unplaced');
+
+    const s = state.get();
+    expect(s.contigOrder).toEqual([3, 1, 0, 2]);
+    expect(s.map!.contigs[3].inverted).toBe(true);
+    expect(mgr.getAllScaffolds().map((sc) => sc.name)).toEqual(['chr1', 'chr2']);
+    expect(mgr.getContigsInScaffold(mgr.getAllScaffolds()[0].id)).toEqual([0, 1]);
+    expect(s.map!.contigs[2].scaffoldId).toBeNull();
+
+    undoBatch(result.batchId!);
+    expect(state.get().contigOrder).toEqual([0, 1, 2, 3]);
+    expect(state.get().map!.contigs[3].inverted).toBe(false);
+    expect(mgr.getAllScaffolds()).toEqual([]);
+  });
+});
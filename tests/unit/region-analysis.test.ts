@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import type { ContigInfo } from '../../src/core/State';
+import type { TileKey } from '../../src/renderer/TileManager';
+import {
+  planRegion,
+  fillRegionTile,
+  computeRegionAnalyses,
+  regionTracks,
+  REGION_TRACK_SUFFIX,
+} from '../../src/analysis/RegionAnalysis';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * A 16 px map in 2 x 2 tiles of 8 px, with one coarser mip (4 px tiles).
+ * A covers file pixels 0-6 and B 6-16; B is shown first, inverted.
+ */
+function makeMap() {
+  const contigs: ContigInfo[] = [
+    { name: 'A', originalIndex: 0, length: 600, pixelStart: 0, pixelEnd: 6, inverted: false, scaffoldId: null },
+    { name: 'B', originalIndex: 1, length: 1000, pixelStart: 6, pixelEnd: 16, inverted: true, scaffoldId: null },
+  ];
+  return { textureSize: 16, numMipMaps: 2, tileResolution: 8, tilesPerDimension: 2, contigs };
+}
+
+/** A symmetric value that names its file-order bin pair. */
+const cell = (a: number, b: number) => Math.min(a, b) * 100 + Math.max(a, b);
+
+/** A tile as TileDecoder would return it, for file-order bins at the key's level. */
+function tileData(key: TileKey, tileBins: number): Float32Array {
+  const data = new Float32Array(tileBins * tileBins);
+  for (let y = 0; y < tileBins; y++) {
+    for (let x = 0; x < tileBins; x++) {
+      data[y * tileBins + x] = cell(key.col * tileBins + x, key.row * tileBins + y);
+    }
+  }
+  return data;
+}
+
+// ---------------------------------------------------------------------------
+// planRegion / fillRegionTile
+// ---------------------------------------------------------------------------
+
+describe('planRegion', () => {
+  it('traces display bins to file-order bins through order and inversion', () => {
+    const plan = planRegion(makeMap(), [1, 0], 0, 1, 16)!;
+    expect(plan).toMatchObject({ level: 1, binPixels: 1, tileBins: 8, size: 16, startPixel: 0, endPixel: 16 });
+    expect(Array.from(plan.sourceBins)).toEqual([15, 14, 13, 12, 11, 10, 9, 8, 7, 6, 0, 1, 2, 3, 4, 5]);
+    expect(plan.tiles).toEqual([
+      { level: 1, col: 0, row: 0 },
+      { level: 1, col: 0, row: 1 },
+      { level: 1, col: 1, row: 1 },
+    ]);
+    expect(plan.contigRanges).toEqual([
+      { start: 0, end: 10, orderIndex: 0 },
+      { start: 10, end: 16, orderIndex: 1 },
+    ]);
+  });
+
+  it('drops to a coarser level to stay within the bin limit', () => {
+    const plan = planRegion(makeMap(), [1, 0], 0, 1, 8)!;
+    expect(plan).toMatchObject({ level: 0, binPixels: 2, tileBins: 4, size: 8 });
+    expect(Array.from(plan.sourceBins)).toEqual([7, 6, 5, 4, 3, 0, 1, 2]);
+    expect(plan.contigRanges.map((r) => [r.start, r.end])).toEqual([[0, 5], [5, 8]]);
+  });
+
+  it('clips contigs to a partial view', () => {
+    const plan = planRegion(makeMap(), [1, 0], 0.25, 0.75, 16)!;
+    expect(plan).toMatchObject({ size: 8, startPixel: 4, endPixel: 12 });
+    expect(plan.contigRanges).toEqual([
+      { start: 0, end: 6, orderIndex: 0 },
+      { start: 6, end: 8, orderIndex: 1 },
+    ]);
+    expect(planRegion(makeMap(), [1, 0], 0.5, 0.5)).toBeNull();
+  });
+
+  it('assembles the display-order matrix from stored tiles', () => {
+    for (const maxBins of [16, 8]) {
+      const plan = planRegion(makeMap(), [1, 0], 0, 1, maxBins)!;
+      const matrix = new Float32Array(plan.size * plan.size);
+      for (const key of plan.tiles) fillRegionTile(plan, key, tileData(key, plan.tileBins), matrix);
+      for (let j = 0; j < plan.size; j++) {
+        for (let i = 0; i < plan.size; i++) {
+          expect(matrix[j * plan.size + i]).toBe(cell(plan.sourceBins[i], plan.sourceBins[j]));
+        }
+      }
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Analyses and tracks
+// ---------------------------------------------------------------------------
+
+describe('computeRegionAnalyses', () => {
+  /** Two 16-bin blocks with a dark junction between them, on a 64 px map. */
+  function blocks() {
+    const size = 32;
+    const matrix = new Float32Array(size * size);
+    for (let i = 0; i < size; i++) {
+      for (let j = 0; j < size; j++) {
+        const same = (i < 16) === (j < 16);
+        matrix[i * size + j] = same ? 1 / (1 + Math.abs(i - j)) : 0.001;
+      }
+    }
+    return { size, matrix };
+  }
+
+  it('finds a TAD boundary within a contig and a weak join between two', () => {
+    const { size, matrix } = blocks();
+    const one = computeRegionAnalyses(matrix, size, [{ start: 0, end: 32, orderIndex: 0 }], { windowSize: 4 });
+    expect(one.insulation.boundaries.some((b) => Math.abs(b - 16) <= 1)).toBe(true);
+    expect(one.joinSupport).toBeNull();
+
+    const two = computeRegionAnalyses(
+      matrix, size, [{ start: 0, end: 16, orderIndex: 3 }, { start: 16, end: 32, orderIndex: 4 }], { windowSize: 4 },
+    );
+    expect(two.joinSupport?.junctions).toMatchObject([{ binPosition: 16, flagged: true }]);
+  });
+
+  it('places the tracks over the region only', () => {
+    const { size, matrix } = blocks();
+    const ranges = [{ start: 0, end: 16, orderIndex: 3 }, { start: 16, end: 32, orderIndex: 4 }];
+    const result = computeRegionAnalyses(matrix, size, ranges, { windowSize: 4 });
+    const plan = {
+      level: 0, tileBins: 8, binPixels: 1, startPixel: 16, endPixel: 48, size,
+      sourceBins: new Int32Array(size), tiles: [], contigRanges: ranges,
+    };
+    const tracks = regionTracks(result, plan, 64);
+    expect(tracks.map((t) => t.name)).toContain('Weak joins' + REGION_TRACK_SUFFIX);
+    for (const track of tracks) {
+      expect(track.name.endsWith(REGION_TRACK_SUFFIX)).toBe(true);
+      expect(track.range).toEqual({ start: 16, end: 48 });
+      expect(track.data).toHaveLength(64);
+      expect(track.data.subarray(0, 16).every((v) => v === 0)).toBe(true);
+      expect(track.data.subarray(48).every((v) => v === 0)).toBe(true);
+    }
+  });
+});
@@ -55,6 +55,30 @@ describe('ScriptReplay', () => {
       expect(script).toBe('cut chr1 50\n');
     });
 
+    it('should convert a bp cut operation to an exact bp cut', () => {
+      const ops: CurationOperation[] = [
+        {
+          type: 'cut',
+          timestamp: fixedTimestamp,
+          description: 'Cut contig "chr2" at 1234 bp',
+          data: {
+            contigOrderIndex: 1,
+            pixelOffset: 123,
+            bpOffset: 1234,
+            originalContigId: 1,
+            leftId: 4,
+            rightId: 5,
+            previousOrder: [0, 1, 2, 3],
+          },
+        },
+      ];
+      const script = operationsToScript(ops, makeContigs(), {
+        includeTimestamps: false,
+        includeHeader: false,
+      });
+      expect(script).toBe('cut chr2 1234bp exact\n');
+    });
+
     it('should convert a join operation', () => {
       const ops: CurationOperation[] = [
         {
@@ -292,6 +316,38 @@ describe('ScriptReplay', () => {
     });
   });
 
+  describe('operationsToScript - annotations', () => {
+    it('writes tag, untag, exclude and include lines per contig', () => {
+      const ops: CurationOperation[] = [
+        {
+          type: 'meta_tag',
+          timestamp: fixedTimestamp,
+          description: 'Tagged 2 contigs as haplotig',
+          data: { contigIds: [1, 3], previous: [null, null], next: { tag: 'haplotig', notes: 'low cov' } },
+        },
+        {
+          type: 'meta_tag',
+          timestamp: fixedTimestamp,
+          description: 'Removed tag from contig "chr2"',
+          data: { contigIds: [1], previous: [{ tag: 'haplotig' }], next: null },
+        },
+        {
+          type: 'exclude',
+          timestamp: fixedTimestamp,
+          description: 'Toggled exclusion on 2 contigs',
+          data: { contigIds: [0, 2], previous: [false, true], next: [true, false] },
+        },
+      ];
+      const script = operationsToScript(ops, makeContigs(), {
+        includeTimestamps: false,
+        includeHeader: false,
+      });
+      expect(script).toBe(
+        'tag chr2 haplotig "low cov"\ntag chr4 haplotig "low cov"\n\nuntag chr2\n\nexclude chr1\ninclude chr3\n',
+      );
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // descriptionToDSL — parsing description strings
   // ---------------------------------------------------------------------------
@@ -302,6 +358,11 @@ describe('ScriptReplay', () => {
       expect(result).toBe('cut chr1 50');
     });
 
+    it('should parse a bp cut description as an exact bp cut', () => {
+      const result = descriptionToDSL('cut', 'Cut contig "chr1" at 12400000 bp');
+      expect(result).toBe('cut chr1 12400000bp exact');
+    });
+
     it('should parse cut with complex contig name', () => {
       const result = descriptionToDSL('cut', 'Cut contig "chr1_L" at pixel offset 25');
       expect(result).toBe('cut chr1_L 25');
@@ -383,6 +444,15 @@ describe('ScriptReplay', () => {
   // logEntriesToScript — full pipeline from session entries
   // ---------------------------------------------------------------------------
 
+  describe('descriptionToDSL - annotations', () => {
+    it('parses single-contig tag and exclusion descriptions', () => {
+      expect(descriptionToDSL('meta_tag', 'Tagged contig "chr1" as contaminant')).toBe('tag chr1 contaminant');
+      expect(descriptionToDSL('meta_tag', 'Removed tag from contig "my ctg"')).toBe('untag "my ctg"');
+      expect(descriptionToDSL('exclude', 'Included contig "chr2"')).toBe('include chr2');
+      expect(descriptionToDSL('exclude', 'Toggled exclusion on 3 contigs')).toBeNull();
+    });
+  });
+
   describe('logEntriesToScript', () => {
     it('should convert a sequence of session log entries', () => {
       const entries: SessionOperationLogEntry[] = [
@@ -0,0 +1,111 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { AppState, ContigInfo } from '../../src/core/State';
+import { niceTickStep, formatRulerTick, rulerTicks } from '../../src/renderer/RulerRenderer';
+import { agpContigPlacements, exportAGP } from '../../src/export/AGPWriter';
+import { contigExclusion } from '../../src/curation/ContigExclusion';
+import { rulerSpans } from '../../src/ui/Rulers';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * a (1 kb, 10 px), b (2 kb, 20 px, inverted), c (500 bp, 5 px) and d (1.5 kb,
+ * 15 px) on a 50 px map; a and b form scaffold 1, d is in scaffold 2.
+ */
+function makeState(): AppState {
+  const spec: [string, number, number, number, number | null, boolean][] = [
+    ['a', 1000, 0, 10, 1, false],
+    ['b', 2000, 10, 30, 1, true],
+    ['c', 500, 30, 35, null, false],
+    ['d', 1500, 35, 50, 2, false],
+  ];
+  const contigs: ContigInfo[] = spec.map(([name, length, pixelStart, pixelEnd, scaffoldId, inverted], i) => ({
+    name, originalIndex: i, length, pixelStart, pixelEnd, inverted, scaffoldId,
+  }));
+  return {
+    map: { filename: 'test.pretext', textureSize: 50, numMipMaps: 1, contigs, extensions: new Map() },
+    contigOrder: [0, 1, 2, 3],
+    rulerFrame: 'contig',
+  } as unknown as AppState;
+}
+
+/** Object, begin and end of every W row of the AGP export. */
+function agpComponents(s: AppState): [string, number, number][] {
+  return exportAGP(s, { timestamp: null })
+    .split('\n')
+    .filter((line) => line && !line.startsWith('#'))
+    .map((line) => line.split('\t'))
+    .filter((cols) => cols[4] === 'W')
+    .map((cols) => [cols[0], Number(cols[1]), Number(cols[2])]);
+}
+
+afterEach(() => contigExclusion.clearAll());
+
+// ---------------------------------------------------------------------------
+// Tick math
+// ---------------------------------------------------------------------------
+
+describe('ruler ticks', () => {
+  it('steps in 1-2-5 multiples and labels in bp, kb or Mb', () => {
+    expect([0.3, 1, 3, 17, 200, 4500, 7e5].map(niceTickStep)).toEqual([1, 1, 5, 20, 200, 5000, 1e6]);
+    expect(formatRulerTick(50, 10)).toBe('50 bp');
+    expect(formatRulerTick(2500, 500)).toBe('2.5 kb');
+    expect(formatRulerTick(40_000, 10_000)).toBe('40 kb');
+    expect(formatRulerTick(1_500_000, 500_000)).toBe('1.5 Mb');
+    expect(formatRulerTick(12_000_000, 2_000_000)).toBe('12 Mb');
+  });
+
+  it('places ticks within the visible part of each span, backwards on reversed ones', () => {
+    const spans = [
+      { start: 0, end: 0.5, bpStart: 0, bpEnd: 1000 },
+      { start: 0.5, end: 1, bpStart: 1000, bpEnd: 0 },
+    ];
+    const ticks = rulerTicks(spans, 0.25, 1, 500, 250);
+    expect(ticks.map((t) => [t.pos, t.bp, t.major])).toEqual([
+      [0.25, 500, true], [0.375, 750, false], [0.5, 1000, true],
+      [1, 0, true], [0.875, 250, false], [0.75, 500, true], [0.625, 750, false], [0.5, 1000, true],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Frames
+// ---------------------------------------------------------------------------
+
+describe('rulerSpans', () => {
+  it('gives each contig its own coordinates, reversed when inverted', () => {
+    const s = makeState();
+    expect(rulerSpans(s).map((sp) => [sp.start, sp.end, sp.bpStart, sp.bpEnd])).toEqual([
+      [0, 0.2, 0, 1000],
+      [0.2, 0.6, 2000, 0],
+      [0.6, 0.7, 0, 500],
+      [0.7, 1, 0, 1500],
+    ]);
+    expect(rulerSpans(s, 'off')).toEqual([]);
+    expect(rulerSpans({ ...s, map: null })).toEqual([]);
+  });
+
+  it('numbers the scaffold frame as the AGP export does', () => {
+    const s = makeState();
+    const spans = rulerSpans(s, 'scaffold');
+    // b follows a after the 200 bp gap and runs forward whatever its orientation.
+    expect(spans.map((sp) => [sp.bpStart, sp.bpEnd])).toEqual([[0, 1000], [1200, 3200], [0, 500], [0, 1500]]);
+    expect(agpContigPlacements(s).map((p) => [p.object, p.objectBeg, p.objectEnd])).toEqual(agpComponents(s));
+  });
+
+  it('drops excluded contigs and closes up the object around them', () => {
+    const s = makeState();
+    // b moved to the front, then excluded: a now starts scaffold 1.
+    s.contigOrder = [1, 0, 2, 3];
+    contigExclusion.set(1, true);
+    const placements = agpContigPlacements(s);
+    expect(placements.map((p) => p.orderIndex)).toEqual([1, 2, 3]);
+    expect(placements.map((p) => [p.object, p.objectBeg, p.objectEnd])).toEqual(agpComponents(s));
+    expect(rulerSpans(s, 'scaffold').map((sp) => [sp.start, sp.end, sp.bpStart, sp.bpEnd])).toEqual([
+      [0.4, 0.6, 0, 1000],
+      [0.6, 0.7, 0, 500],
+      [0.7, 1, 0, 1500],
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import type { ContigInfo, MapData } from '../../src/core/State';
+import { createScriptAnalyses } from '../../src/scripting/ScriptAnalysis';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Three 4-pixel contigs on a 12-pixel map, so overview bins equal pixels. */
+function threeContigs(): ContigInfo[] {
+  return ['a', 'b', 'c'].map((name, i) => ({
+    name, originalIndex: i, length: 40000,
+    pixelStart: i * 4, pixelEnd: (i + 1) * 4,
+    inverted: false, scaffoldId: null,
+  }));
+}
+
+/**
+ * Contact decays with distance within a contig and across the a-b join; the
+ * b-c join is depleted to zero, the misjoin signature (as in join-support.test).
+ */
+function misjoinOverview(): Float32Array {
+  const size = 12;
+  const m = new Float32Array(size * size);
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      const ci = Math.floor(i / 4), cj = Math.floor(j / 4);
+      const joined = ci === cj || (Math.min(ci, cj) === 0 && Math.max(ci, cj) === 1);
+      m[i * size + j] = joined ? Math.max(0, 6 - Math.abs(i - j)) : 0;
+    }
+  }
+  return m;
+}
+
+function makeMap(contigs: ContigInfo[], overview: Float32Array | null): MapData {
+  return {
+    filename: 'test.pretext',
+    textureSize: 12,
+    numMipMaps: 1,
+    tileResolution: 12,
+    tilesPerDimension: 1,
+    contigs,
+    contactMap: null,
+    originalContactMap: overview,
+    extensions: new Map(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('createScriptAnalyses', () => {
+  it('flags the contigs on both sides of a weak join', () => {
+    const s = { map: makeMap(threeContigs(), misjoinOverview()), contigOrder: [0, 1, 2] };
+    const analyses = createScriptAnalyses({ get: () => s });
+    expect(analyses.weakJoinCount()).toBe(1);
+    expect([0, 1, 2].map((i) => analyses.isWeakJoin(i))).toEqual([false, true, true]);
+    expect(analyses.analyze('joinsupport')).toBe('Join support: 1 weak join(s) among 2 scored junctions');
+  });
+
+  it('recomputes when the contigs change', () => {
+    const s = { map: makeMap(threeContigs(), misjoinOverview()), contigOrder: [0, 1, 2] };
+    const analyses = createScriptAnalyses({ get: () => s });
+    expect(analyses.weakJoinCount()).toBe(1);
+    // Putting b and c in different scaffolds makes their junction intentional.
+    const contigs = s.map.contigs.map((c, i) => ({ ...c, scaffoldId: i === 2 ? 2 : 1 }));
+    s.map = { ...s.map, contigs };
+    expect(analyses.weakJoinCount()).toBe(0);
+  });
+
+  it('scores health without a contact map but refuses contact analyses', () => {
+    const s = { map: makeMap(threeContigs(), null), contigOrder: [0, 1, 2] };
+    const analyses = createScriptAnalyses({ get: () => s });
+    expect(analyses.health()).toBeGreaterThanOrEqual(0);
+    expect(analyses.health()).toBeLessThanOrEqual(100);
+    expect(() => analyses.weakJoinCount()).toThrow('Join support needs the Hi-C contact map');
+    expect(() => analyses.analyze('haplotigs')).toThrow('Haplotig detection needs the Hi-C contact map');
+  });
+
+  it('reports insulation boundaries', () => {
+    const s = { map: makeMap(threeContigs(), misjoinOverview()), contigOrder: [0, 1, 2] };
+    const analyses = createScriptAnalyses({ get: () => s });
+    expect(analyses.analyze('insulation')).toMatch(/^Insulation: \d+ TAD boundaries detected$/);
+  });
+
+  it('finds 5\' telomeres in display orientation', () => {
+    const repeat = 'TTAGGG'.repeat(1000);
+    const filler = 'ACGT'.repeat(1000);
+    const sequences = new Map([
+      ['a', repeat + filler],
+      ['b', filler],
+      // Telomere at the 3' end; inverted, it faces 5'.
+      ['c', filler + repeat],
+    ]);
+    const contigs = threeContigs();
+    contigs[2] = { ...contigs[2], inverted: true };
+    const s = { map: makeMap(contigs, null), contigOrder: [0, 1, 2] };
+    const analyses = createScriptAnalyses({ get: () => s, sequences: () => sequences });
+    expect([0, 1, 2].map((i) => analyses.hasTelomere5p(i))).toEqual([true, false, true]);
+  });
+
+  it('needs sequences for telomere5p', () => {
+    const s = { map: makeMap(threeContigs(), null), contigOrder: [0, 1, 2] };
+    const analyses = createScriptAnalyses({ get: () => s });
+    expect(() => analyses.hasTelomere5p(0)).toThrow('telomere5p needs reference sequences');
+  });
+});
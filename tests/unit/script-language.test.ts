@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import type { AppState, ContigInfo } from '../../src/core/State';
+import {
+  completeAt,
+  hoverAt,
+  diagnoseScript,
+  MAX_COMPLETIONS,
+  type ScriptLanguageSource,
+} from '../../src/scripting/ScriptLanguage';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeSource(names: string[], scaffolds: { id: number; name: string }[] = []): ScriptLanguageSource {
+  const contigs: ContigInfo[] = names.map((name, i) => ({
+    name, originalIndex: i, length: 1_500_000,
+    pixelStart: i * 10, pixelEnd: (i + 1) * 10,
+    inverted: i === 1, scaffoldId: i === 0 && scaffolds.length > 0 ? scaffolds[0].id : null,
+  }));
+  const s = {
+    map: { filename: 't', textureSize: 1024, numMipMaps: 1, tileResolution: 1024, tilesPerDimension: 1, contigs, contactMap: null, extensions: new Map() },
+    contigOrder: contigs.map((_, i) => i),
+  } as unknown as AppState;
+  return { state: { get: () => s }, scaffolds: () => scaffolds };
+}
+
+/** Completions with the cursor at the end of `text`. */
+function labels(text: string, source: ScriptLanguageSource): string[] {
+  return completeAt(text, text.length, source)?.items.map((i) => i.label) ?? [];
+}
+
+const source = makeSource(['chr1', 'chr2', 'scaffold_10', 'ptg 7'], [{ id: 1, name: 'Chromosome 1' }]);
+
+// ---------------------------------------------------------------------------
+// Completions
+// ---------------------------------------------------------------------------
+
+describe('completeAt', () => {
+  it('offers command keywords from the DSL reference', () => {
+    expect(labels('inv', source)).toEqual(['invert']);
+    expect(labels('s', source)).toEqual(expect.arrayContaining(['select', 'scaffold']));
+    expect(labels('  e', source)).toEqual(expect.arrayContaining(['echo', 'end', 'else', 'exclude']));
+  });
+
+  it('offers subcommands and contigs where a command expects them', () => {
+    expect(labels('select ', source)).toEqual(expect.arrayContaining(['all', 'where', 'chr1', 'ptg 7']));
+    expect(labels('scaffold p', source)).toEqual(['paint']);
+    expect(labels('move chr1 ', source)).toEqual(['to', 'before', 'after']);
+  });
+
+  it('offers the parser vocabularies for placeholders', () => {
+    expect(labels('select where w', source)).toEqual(['weakjoin']);
+    expect(labels('assert h', source)).toEqual(expect.arrayContaining(['haplotigs', 'health']));
+    expect(labels('tag chr1 c', source)).toEqual(['contaminant']);
+    expect(labels('select where haplotig and tel', source)).toEqual(['telomere5p']);
+  });
+
+  it('matches contig names by prefix first, then by substring, and quotes names with spaces', () => {
+    const result = completeAt('invert 1', 8, source)!;
+    expect(result.items.map((i) => i.label)).toEqual(['chr1', 'scaffold_10']);
+    expect(result.from).toBe(7);
+    expect(completeAt('invert pt', 9, source)!.items[0]).toMatchObject({ label: 'ptg 7', insertText: '"ptg 7"' });
+  });
+
+  it('completes #N indices with the contig name as a preview', () => {
+    const result = completeAt('invert #', 8, source)!;
+    expect(result.items.map((i) => [i.label, i.detail])).toEqual([
+      ['#0', 'chr1'], ['#1', 'chr2'], ['#2', 'scaffold_10'], ['#3', 'ptg 7'],
+    ]);
+  });
+
+  it('caps long contig lists', () => {
+    const big = makeSource(Array.from({ length: 5000 }, (_, i) => `ctg${i}`));
+    expect(labels('invert ctg', big)).toHaveLength(MAX_COMPLETIONS);
+    expect(labels('invert #49', big)).toEqual(['#490', '#491', '#492', '#493', '#494', '#495', '#496', '#497', '#498', '#499',
+      ...Array.from({ length: 40 }, (_, i) => `#${4900 + i}`)]);
+  });
+
+  it('completes the second end of a range', () => {
+    const result = completeAt('select chr1..sca', 16, source)!;
+    expect(result).toMatchObject({ from: 13, items: [{ label: 'scaffold_10' }] });
+  });
+
+  it('offers scaffolds, variables and procedures', () => {
+    expect(completeAt('scaffold paint chr1 Chr', 23, source)!.items[0]).toMatchObject({
+      label: 'Chromosome 1', insertText: '"Chromosome 1"',
+    });
+    const script = 'let minlen = 1Mb\nproc park c\nend\n';
+    expect(labels(`${script}select where length < $m`, source)).toEqual(['$minlen']);
+    expect(labels(`${script}call p`, source)).toEqual(['park']);
+  });
+
+  it('offers nothing in comments', () => {
+    expect(completeAt('# inv', 5, source)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Hover
+// ---------------------------------------------------------------------------
+
+describe('hoverAt', () => {
+  it('documents a command, narrowed by its subcommand', () => {
+    const hover = hoverAt('scaffold paint chr1 x', 2, source)!;
+    expect(hover.title).toBe('scaffold');
+    expect(hover.lines[0]).toBe('scaffold paint <contig> <scaffold_name>');
+    expect(hover.lines).toHaveLength(2);
+  });
+
+  it('describes a contig reference', () => {
+    const hover = hoverAt('invert #1', 8, source)!;
+    expect(hover).toMatchObject({ from: 7, to: 9, title: 'chr2 (#1)' });
+    expect(hover.lines).toEqual(['1.50 Mb, inverted', 'Unscaffolded']);
+    expect(hoverAt('invert chr1', 8, source)!.lines[1]).toBe('Scaffold: Chromosome 1');
+  });
+
+  it('finds either end of a range and ignores unknown names', () => {
+    expect(hoverAt('select chr1..chr2', 14, source)!.title).toBe('chr2 (#1)');
+    expect(hoverAt('invert nope', 8, source)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Diagnostics
+// ---------------------------------------------------------------------------
+
+describe('diagnoseScript', () => {
+  it('reports parse errors at their token', () => {
+    expect(diagnoseScript('invert chr1\nmove chr1 sideways chr2', source)).toEqual([
+      expect.objectContaining({ line: 2, column: 11, length: 8, severity: 'error' }),
+    ]);
+  });
+
+  it('underlines unresolvable contig references', () => {
+    const [d] = diagnoseScript('invert chr1\n  select chr1..chrX', source);
+    expect(d).toMatchObject({ line: 2, column: 16, length: 4, severity: 'error' });
+    expect(d.message).toContain("'chrX'");
+    expect(diagnoseScript('invert #9', source)[0]).toMatchObject({ column: 8, length: 2 });
+  });
+
+  it('checks loop bodies but not lines that use variables', () => {
+    const script = 'for each c in (select all)\n  invert $c\n  invert nope\nend';
+    expect(diagnoseScript(script, source).map((d) => d.line)).toEqual([3]);
+  });
+
+  it('downgrades references after a cut to warnings', () => {
+    const [d] = diagnoseScript('cut chr1 5\ninvert chr1_L', source);
+    expect(d.severity).toBe('warning');
+    expect(d.message).toContain('earlier line');
+  });
+});
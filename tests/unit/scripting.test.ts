@@ -22,6 +22,7 @@ import {
 } from '../../src/scripting/ScriptExecutor';
 import type { AppState, ContigInfo, MapData } from '../../src/core/State';
 import type { Scaffold } from '../../src/curation/ScaffoldManager';
+import { WaypointManager } from '../../src/curation/WaypointManager';
 
 // ---------------------------------------------------------------------------
 // Test helpers
@@ -97,9 +98,13 @@ function createMockContext(
 
   const calls: Record<string, any[][]> = {
     cut: [],
+    cutAtBp: [],
     join: [],
     invert: [],
     move: [],
+    tag: [],
+    untag: [],
+    setExcluded: [],
     selectSingle: [],
     selectRange: [],
     selectAll: [],
@@ -123,9 +128,13 @@ function createMockContext(
 
   const curation: CurationEngineAPI = {
     cut: (idx, offset) => { calls.cut.push([idx, offset]); },
+    cutAtBp: (idx, bp) => { calls.cutAtBp.push([idx, bp]); },
     join: (idx) => { calls.join.push([idx]); },
     invert: (idx) => { calls.invert.push([idx]); },
     move: (from, to) => { calls.move.push([from, to]); },
+    tag: (indices, tag, notes) => { calls.tag.push([indices, tag, notes]); },
+    untag: (indices) => { calls.untag.push([indices]); },
+    setExcluded: (indices, excluded) => { calls.setExcluded.push([indices, excluded]); },
   };
 
   const selection: SelectionAPI = {
@@ -201,6 +210,13 @@ function createMockContext(
     misassemblyCount: () => 0,
     isMisassembled: () => false,
     isExcluded: () => false,
+    analyze: (kind) => `${kind} analyzed`,
+    weakJoinCount: () => 0,
+    haplotigCount: () => 0,
+    health: () => 50,
+    isWeakJoin: () => false,
+    isHaplotig: () => false,
+    hasTelomere5p: () => false,
   };
 
   const ctx: ScriptContext = {
@@ -337,6 +353,20 @@ describe('ScriptParser', () => {
       const cmd = parseLine('CUT chr1 50');
       expect(cmd!.type).toBe('cut');
     });
+
+    it('should parse a position with a size unit as base pairs', () => {
+      expect(parseLine('cut chr1 12.4Mb')!.args).toEqual({
+        contig: { kind: 'name', value: 'chr1' }, bpOffset: 12_400_000, exact: false,
+      });
+      expect(parseLine('cut chr1 500kb')!.args.bpOffset).toBe(500_000);
+      expect(parseLine('cut #2 1234bp exact')!.args).toEqual({
+        contig: { kind: 'index', value: 2 }, bpOffset: 1234, exact: true,
+      });
+    });
+
+    it('should reject an unknown flag after a bp position', () => {
+      expect(() => parseLine('cut chr1 12Mb nearest')).toThrow("expected 'exact'");
+    });
   });
 
   // -----------------------------------------------------------------------
@@ -789,6 +819,68 @@ cut chr2 50`;
       expect(() => parseLine('autosort badparam=0.5')).toThrow("unknown parameter 'badparam'");
     });
   });
+
+  describe('parseLine - annotations and waypoints', () => {
+    it('parses tag with and without notes', () => {
+      expect(parseLine('tag chr1 haplotig')).toMatchObject({
+        type: 'tag', args: { contig: { kind: 'name', value: 'chr1' }, tag: 'haplotig' },
+      });
+      expect(parseLine('tag #2 Contaminant "bacterial hit"')!.args).toMatchObject({
+        contig: { kind: 'index', value: 2 }, tag: 'contaminant', notes: 'bacterial hit',
+      });
+    });
+
+    it('rejects an unknown tag at its column', () => {
+      expect(() => parseLine('tag chr1 weird')).toThrow("unknown tag 'weird'");
+      try {
+        parseLine('tag chr1 weird');
+      } catch (e: any) {
+        expect(e.column).toBe(10);
+      }
+    });
+
+    it('parses untag, exclude and include', () => {
+      expect(parseLine('untag chr1')!.type).toBe('untag');
+      expect(parseLine('exclude chr2')).toMatchObject({ type: 'exclude', args: { contig: { value: 'chr2' } } });
+      expect(parseLine('include #0')).toMatchObject({ type: 'include', args: { contig: { kind: 'index', value: 0 } } });
+      expect(() => parseLine('exclude')).toThrow("'exclude' requires a <contig>");
+    });
+
+    it('parses waypoint add at a contig or at coordinates', () => {
+      expect(parseLine('waypoint add chr2 my spot')).toMatchObject({
+        type: 'waypoint_add', args: { contig: { kind: 'name', value: 'chr2' }, label: 'my spot' },
+      });
+      expect(parseLine('waypoint add 0.25 0.5')).toMatchObject({ type: 'waypoint_add', args: { x: 0.25, y: 0.5 } });
+    });
+
+    it('parses waypoint remove and goto', () => {
+      expect(parseLine('waypoint remove my spot')).toMatchObject({ type: 'waypoint_remove', args: { label: 'my spot' } });
+      expect(parseLine('waypoint goto WP1')).toMatchObject({ type: 'waypoint_goto', args: { label: 'WP1' } });
+      expect(() => parseLine('waypoint jump WP1')).toThrow("Unknown waypoint subcommand 'jump'");
+    });
+  });
+
+  describe('parseLine - analyses', () => {
+    it('parses analyze with each analysis', () => {
+      expect(parseLine('analyze insulation')).toMatchObject({ type: 'analyze', args: { kind: 'insulation' } });
+      expect(parseLine('analyze JoinSupport')!.args.kind).toBe('joinsupport');
+      expect(parseLine('analyze haplotigs')!.args.kind).toBe('haplotigs');
+    });
+
+    it('rejects a missing or unknown analysis', () => {
+      expect(() => parseLine('analyze')).toThrow("'analyze' requires an analysis");
+      expect(() => parseLine('analyze compartments')).toThrow("unknown analysis 'compartments'");
+    });
+
+    it('accepts analysis predicates and metrics', () => {
+      expect(parseLine('select where weakjoin and telomere5p')!.args).toEqual({
+        field: 'weakjoin', and: [{ field: 'telomere5p' }],
+      });
+      expect(parseLine('select where haplotig')!.args.field).toBe('haplotig');
+      expect(parseLine('assert weakjoins <= 3')!.args).toEqual({ metric: 'weakjoins', op: '<=', value: 3 });
+      expect(parseLine('assert health >= 70')!.args).toEqual({ metric: 'health', op: '>=', value: 70 });
+    });
+  });
 });
 
 // ===========================================================================
@@ -880,6 +972,26 @@ describe('ScriptExecutor', () => {
       expect(calls.cut).toEqual([[1, 30]]);
     });
 
+    it('should call curation.cutAtBp for a base-pair position', () => {
+      const { ctx, calls } = createMockContext();
+      const result = executeCommand(parseLine('cut chr2 4.5kb')!, ctx);
+      expect(result.success).toBe(true);
+      expect(result.message).toBe("Cut contig 'chr2' at 4,500 bp");
+      expect(calls.cutAtBp).toEqual([[1, 4500]]);
+      expect(calls.cut).toEqual([]);
+    });
+
+    it('should snap a base-pair cut to a nearby N-gap unless exact', () => {
+      // chr2 is 8000 bp over 100 px: one pixel is 80 bp.
+      const { ctx, calls } = createMockContext();
+      ctx.sequences = new Map([['chr2', 'A'.repeat(4520) + 'N'.repeat(100) + 'C'.repeat(3380)]]);
+      const snapped = executeCommand(parseLine('cut chr2 4.5kb')!, ctx);
+      expect(snapped.message).toContain('snapped');
+      executeCommand(parseLine('cut chr2 4.5kb exact')!, ctx);
+      executeCommand(parseLine('cut chr2 3kb')!, ctx);
+      expect(calls.cutAtBp).toEqual([[1, 4520], [1, 4500], [1, 3000]]);
+    });
+
     it('should return failure for unknown contig', () => {
       const { ctx } = createMockContext();
       const cmd: ScriptCommand = {
@@ -1554,4 +1666,248 @@ scaffold paint chr2 Chromosome1
       expect(calledWith).toEqual({ hardThreshold: 0.3 });
     });
   });
+  // -----------------------------------------------------------------------
+  // Control flow: let, for each, if, proc/call
+  // -----------------------------------------------------------------------
+  describe('parseScript - blocks', () => {
+    it('nests loop, condition and procedure bodies', () => {
+      const { commands, errors } = parseScript([
+        'proc park c',
+        '  move $c to end',
+        'end',
+        'for each c in (select where unscaffolded and length < 5kb)',
+        '  if contigs > 2',
+        '    call park $c',
+        '  else',
+        '    echo $c',
+        '  end',
+        'end',
+      ].join('\n'));
+      expect(errors).toEqual([]);
+      expect(commands.map(c => c.type)).toEqual(['proc', 'for_each']);
+      const loop = commands[1];
+      expect(loop.args.variable).toBe('c');
+      expect(loop.args.source.type).toBe('select_where');
+      expect(loop.args.source.args.and).toEqual([{ field: 'length', op: '<', value: 5000 }]);
+      const cond = loop.args.body[0];
+      expect(cond.type).toBe('if');
+      expect(cond.args.body[0]).toMatchObject({ type: 'call', args: { name: 'park', params: ['$c'] }, line: 6 });
+      expect(cond.args.elseBody[0]).toMatchObject({ type: 'echo', template: ['echo', '$c'], line: 8 });
+    });
+
+    it('reports the column of the offending token', () => {
+      const { errors } = parseScript('invert chr1\nmove chr1 sideways chr2');
+      expect(errors).toEqual([expect.objectContaining({ line: 2, column: 11 })]);
+      expect(errors[0].message).toContain("direction must be 'to', 'before', or 'after'");
+    });
+
+    it('reports the column inside a loop source', () => {
+      const { errors } = parseScript('for each c in (select where wingspan > 3)\nend');
+      expect(errors).toEqual([expect.objectContaining({ line: 1, column: 29 })]);
+    });
+
+    it('reports unclosed blocks, stray end and else', () => {
+      expect(parseScript('if n50 > 1Mb\n  echo hi').errors)
+        .toEqual([expect.objectContaining({ line: 1, column: 1, message: expect.stringContaining('never closed') })]);
+      expect(parseScript('echo hi\n  end').errors).toEqual([expect.objectContaining({ line: 2, column: 3 })]);
+      expect(parseScript('for each c in (select all)\nelse\nend').errors[0].message).toContain("'else' without");
+    });
+
+    it('rejects undefined variables, including caller variables inside a procedure', () => {
+      expect(parseScript('invert $x').errors).toEqual([expect.objectContaining({ line: 1, column: 8 })]);
+      const { errors } = parseScript('let a = chr1\nproc p\n  invert $a\nend');
+      expect(errors).toEqual([expect.objectContaining({ line: 3, message: expect.stringContaining("'$a'") })]);
+    });
+
+    it('drops a block with an error anywhere inside it', () => {
+      const { commands, errors } = parseScript('for each c in (select all)\n  invert $c\n  frobnicate\nend\necho after');
+      expect(errors).toHaveLength(1);
+      expect(commands.map(c => c.type)).toEqual(['echo']);
+    });
+
+    it('keeps a malformed block header matched with its end', () => {
+      const { commands, errors } = parseScript('if wingspan > 3\n  echo a\nend\necho b');
+      expect(errors).toHaveLength(1);
+      expect(commands.map(c => c.type)).toEqual(['echo']);
+    });
+
+    it('checks procedure names and arity, allowing calls before the definition', () => {
+      expect(parseScript('call p chr1\nproc p c\n  invert $c\nend').errors).toEqual([]);
+      expect(parseScript('call q').errors[0].message).toContain("Unknown procedure 'q'");
+      expect(parseScript('call p\nproc p c\nend').errors[0].message).toContain('takes 1 argument(s), got 0');
+      expect(parseScript('proc p\nend\nproc p\nend').errors[0].message).toContain('already defined');
+      expect(parseScript('if n50 > 1\n  proc p\n  end\nend').errors[0].message).toContain('top level');
+    });
+
+    it('rejects block keywords in parseLine', () => {
+      expect(() => parseLine('for each c in (select all)')).toThrow('parseScript');
+    });
+  });
+
+  describe('executeScript - control flow', () => {
+    /** Mock context whose `move` really reorders, so loops see their own effects. */
+    function movingContext() {
+      const mock = createMockContext(['a', 'b', 'c', 'd']);
+      mock.ctx.curation.move = (from, to) => {
+        const order = [...mock.appState.contigOrder];
+        const [id] = order.splice(from, 1);
+        order.splice(to, 0, id);
+        mock.appState.contigOrder = order;
+      };
+      return mock;
+    }
+    const names = (appState: AppState) => appState.contigOrder.map(id => appState.map!.contigs[id].name);
+
+    function run(script: string, ctx: ScriptContext): ScriptResult[] {
+      const { commands, errors } = parseScript(script);
+      expect(errors).toEqual([]);
+      return executeScript(commands, ctx);
+    }
+
+    it('loops over a selection fixed at the start, following contigs as they move', () => {
+      const { ctx, appState } = movingContext();
+      // Lengths are 10000, 8000, 6000, 4000: b, c and d are under 9 kb.
+      const results = run('let max = 9kb\nfor each c in (select where length < $max)\n  move $c to end\nend', ctx);
+      expect(results.every(r => r.success)).toBe(true);
+      expect(results[0].message).toContain('3 contig(s)');
+      expect(names(appState)).toEqual(['a', 'b', 'c', 'd']);
+
+      run('for each c in (select a..b)\n  move $c to end\nend', ctx);
+      expect(names(appState)).toEqual(['c', 'd', 'a', 'b']);
+    });
+
+    it('runs the branch the condition selects', () => {
+      const { ctx, query, calls } = createMockContext();
+      query.n50 = () => 5_000_000;
+      run('if n50 < 10Mb\n  echo low\nelse\n  echo high\nend', ctx);
+      query.n50 = () => 20_000_000;
+      const results = run('let target = 10Mb\nif n50 < $target\n  echo low\nelse\n  echo high\nend', ctx);
+      expect(calls.echo).toEqual([['low'], ['high']]);
+      expect(results[0].message).toBe('if N50 < 10.00 Mb: false (actual 20.00 Mb)');
+    });
+
+    it('passes contigs and values to procedures', () => {
+      const { ctx, calls } = createMockContext();
+      run('call flip chr3 hello\nproc flip c msg\n  invert $c\n  echo $msg $c\nend', ctx);
+      expect(calls.invert).toEqual([[2]]);
+      expect(calls.echo).toEqual([['hello chr3']]);
+    });
+
+    it('stops runaway recursion', () => {
+      const { ctx } = createMockContext();
+      const results = run('proc loop\n  call loop\nend\ncall loop\necho unreachable', ctx);
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ success: false, line: 2 });
+      expect(results[0].message).toContain('nested more than');
+    });
+
+    it('halts inside a loop body on failure', () => {
+      const { ctx, calls } = createMockContext();
+      const results = run('for each c in (select all)\n  join $c chr4\nend\necho after', ctx);
+      // chr1 and chr4 are not adjacent: the first iteration fails and nothing else runs.
+      expect(results.map(r => r.success)).toEqual([true, false]);
+      expect(calls.join).toEqual([]);
+      expect(calls.echo).toEqual([]);
+    });
+
+    it('fails clearly when a bound contig no longer exists', () => {
+      const { ctx, appState } = createMockContext();
+      ctx.curation.invert = () => { appState.contigOrder = appState.contigOrder.slice(1); };
+      const results = run('for each c in (select chr1..chr2)\n  invert $c\n  invert $c\nend', ctx);
+      expect(results[results.length - 1].success).toBe(false);
+      expect(results[results.length - 1].message).toContain('no longer in the assembly');
+    });
+
+    it('refuses variable lines outside executeScript', () => {
+      const { ctx } = createMockContext();
+      const result = executeCommand(parseLine('invert $c')!, ctx);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  // -----------------------------------------------------------------------
+  // Annotations and waypoints
+  // -----------------------------------------------------------------------
+  describe('analyses', () => {
+    it('reports the analysis summary from the query API', () => {
+      const { ctx } = createMockContext();
+      const [result] = executeScript(parseScript('analyze joinsupport').commands, ctx);
+      expect(result).toMatchObject({ success: true, message: 'joinsupport analyzed' });
+    });
+
+    it('selects by analysis predicates', () => {
+      const { ctx, calls, query } = createMockContext();
+      query.isWeakJoin = (i) => i === 1 || i === 2;
+      query.hasTelomere5p = (i) => i !== 1;
+      const [result] = executeScript(parseScript('select where weakjoin and telomere5p').commands, ctx);
+      expect(result.success).toBe(true);
+      expect(calls.selectIndices).toEqual([[[2]]]);
+    });
+
+    it('fails an analysis predicate instead of matching nothing when analyses are unavailable', () => {
+      const { ctx } = createMockContext();
+      ctx.query = undefined;
+      const [result] = executeScript(parseScript('select where haplotig').commands, ctx);
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("'haplotig' needs analyses");
+    });
+
+    it('asserts on weak joins, haplotigs and health', () => {
+      const { ctx, query } = createMockContext();
+      query.weakJoinCount = () => 2;
+      query.haplotigCount = () => 1;
+      query.health = () => 64;
+      const results = executeScript(
+        parseScript('assert weakjoins <= 3\nassert haplotigs == 1\nassert health >= 70').commands, ctx,
+      );
+      expect(results.map(r => r.success)).toEqual([true, true, false]);
+      expect(results[2].message).toBe('Assertion FAILED: expected health >= 70, actual 64');
+    });
+
+    it('branches on an analysis metric', () => {
+      const { ctx, calls, query } = createMockContext();
+      query.weakJoinCount = () => 4;
+      executeScript(parseScript('if weakjoins > 3\n  echo too many\nend').commands, ctx);
+      expect(calls.echo).toEqual([['too many']]);
+    });
+  });
+
+  describe('annotations and waypoints', () => {
+    it('tags, untags, excludes and includes through the curation API', () => {
+      const { ctx, calls } = createMockContext();
+      const results = executeScript(
+        parseScript('tag chr2 haplotig "half coverage"\nuntag chr3\nexclude #3\ninclude chr4').commands, ctx,
+      );
+      expect(results.every(r => r.success)).toBe(true);
+      expect(results[0].message).toBe("Tagged contig 'chr2' as haplotig");
+      expect(calls.tag).toEqual([[[1], 'haplotig', 'half coverage']]);
+      expect(calls.untag).toEqual([[[2]]]);
+      expect(calls.setExcluded).toEqual([[[3], true], [[3], false]]);
+    });
+
+    it('adds, visits and removes waypoints', () => {
+      const { ctx, calls } = createMockContext();
+      const waypoints = new WaypointManager();
+      ctx.waypoints = waypoints;
+      const results = executeScript(
+        parseScript('waypoint add chr2 break\nwaypoint add 0.1 0.9\nwaypoint goto Break\nwaypoint remove break').commands,
+        ctx,
+      );
+      expect(results.every(r => r.success)).toBe(true);
+      // chr2 spans pixels 100-200 of a 1024 map: its diagonal center.
+      const center = 150 / 1024;
+      expect(calls.goto).toEqual([[center, center]]);
+      expect(waypoints.getAllWaypoints().map(w => [w.label, w.mapX, w.mapY])).toEqual([['WP1', 0.1, 0.9]]);
+    });
+
+    it('reports unknown waypoints and missing waypoint support', () => {
+      const { ctx } = createMockContext();
+      expect(executeCommand(parseLine('waypoint goto nowhere')!, ctx).message)
+        .toBe('Waypoints are not available in this context');
+      ctx.waypoints = new WaypointManager();
+      expect(executeCommand(parseLine('waypoint goto nowhere')!, ctx).message)
+        .toBe("Waypoint 'nowhere' not found. No waypoints exist.");
+      expect(executeCommand(parseLine('waypoint add 2 0.5')!, ctx).success).toBe(false);
+    });
+  });
 });
@@ -3,10 +3,15 @@ import type { AppState, ContigInfo, MapData, CurationOperation } from '../../src
 import type { Scaffold } from '../../src/curation/ScaffoldManager';
 import {
   exportSession,
+  exportSessionAnnotations,
   importSession,
   validateSession,
   buildSessionFilename,
   formatDateForFilename,
+  encodeOperationData,
+  decodeOperationData,
+  decodeSessionHistory,
+  createValidationReport,
   SESSION_VERSION,
 } from '../../src/io/SessionManager';
 import type {
@@ -412,7 +417,7 @@ describe('validateSession', () => {
   });
 
   it('should reject wrong version number', () => {
-    const data = makeValidSessionData({ version: 2 });
+    const data = makeValidSessionData({ version: 999 });
     expect(validateSession(data)).toBe(false);
   });
 
@@ -648,6 +653,172 @@ describe('version checking', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// Format v2: contig table, history and migration
+// ---------------------------------------------------------------------------
+
+describe('session format v2', () => {
+  const cutOp: CurationOperation = {
+    type: 'cut',
+    timestamp: 1000,
+    description: 'Cut contig "ctg1" at pixel offset 5',
+    data: { contigOrderIndex: 0, pixelOffset: 5, originalContigId: 0, leftId: 2, rightId: 3, previousOrder: [0, 1] },
+    batchId: 'script-1',
+  };
+  const invertOp: CurationOperation = {
+    type: 'invert',
+    timestamp: 2000,
+    description: 'Inverted contig "ctg2" (now inverted)',
+    data: { contigOrderIndex: 2, contigId: 1, previousInverted: false, previousSegments: undefined },
+    batchId: 'script-1',
+    author: 'alice',
+    opId: 'alice-1',
+  };
+  const moveOp: CurationOperation = {
+    type: 'move',
+    timestamp: 3000,
+    description: 'Moved contig from position 0 to 2',
+    data: { fromIndex: 0, toIndex: 2, previousOrder: [2, 3, 1] },
+  };
+
+  function curatedState(): AppState {
+    const contigs = [
+      makeContig('ctg1', 0, 1000),
+      makeContig('ctg2', 1, 2000, null, true),
+      { ...makeContig('ctg1_L', 0, 500), sequenceSegments: [{ sourceName: 'ctg1', start: 0, end: 500, revComp: false }] },
+      { ...makeContig('ctg1_R', 0, 500), sequenceSegments: [{ sourceName: 'ctg1', start: 500, end: 1000, revComp: false }] },
+    ];
+    return makeAppState(contigs, [2, 3, 1], { undoStack: [cutOp, invertOp], redoStack: [moveOp] });
+  }
+
+  it('stores the contig table including cut products', () => {
+    const session = exportSession(curatedState(), makeScaffoldManager());
+    expect(session.contigs!.map(c => c.name)).toEqual(['ctg1', 'ctg2', 'ctg1_L', 'ctg1_R']);
+    expect(session.contigs![3].sequenceSegments).toEqual([{ sourceName: 'ctg1', start: 500, end: 1000, revComp: false }]);
+  });
+
+  it('round-trips undo and redo stacks losslessly through JSON', () => {
+    const session = exportSession(curatedState(), makeScaffoldManager());
+    const imported = importSession(JSON.stringify(session));
+    const history = decodeSessionHistory(imported)!;
+
+    expect(history.undoStack).toEqual([cutOp, invertOp]);
+    expect(history.redoStack).toEqual([moveOp]);
+    // undefined survives as an own property, not just as a missing key
+    expect('previousSegments' in history.undoStack[1].data).toBe(true);
+    expect(history.undoStack[1].batchId).toBe('script-1');
+    expect(history.undoStack[1].author).toBe('alice');
+  });
+
+  it('encodes values JSON cannot represent', () => {
+    const data = {
+      weights: new Float32Array([0.5, 1.5]),
+      ids: new Int32Array([3, -1]),
+      byName: new Map([['a', 1]]),
+      seen: new Set([1, 2]),
+      bad: NaN,
+      far: -Infinity,
+      missing: undefined,
+      nested: { $type: 'user value', list: [undefined, 1] },
+    };
+    const decoded = decodeOperationData(JSON.parse(JSON.stringify(encodeOperationData(data))));
+    expect(decoded.weights).toBeInstanceOf(Float32Array);
+    expect(Array.from(decoded.weights)).toEqual([0.5, 1.5]);
+    expect(decoded.ids).toBeInstanceOf(Int32Array);
+    expect(decoded.byName).toEqual(new Map([['a', 1]]));
+    expect(decoded.seen).toEqual(new Set([1, 2]));
+    expect(decoded.bad).toBeNaN();
+    expect(decoded.far).toBe(-Infinity);
+    expect('missing' in decoded).toBe(true);
+    expect(decoded.nested).toEqual({ $type: 'user value', list: [undefined, 1] });
+  });
+
+  it('migrates a v1 session and reports the upgrade', () => {
+    const v1 = makeValidSessionData({
+      version: 1,
+      operationLog: [{ type: 'invert', timestamp: 1000, description: 'Inverted contig "ctg2"' }],
+    });
+    const report = createValidationReport();
+    const imported = importSession(JSON.stringify(v1), report);
+
+    expect(imported.version).toBe(SESSION_VERSION);
+    expect(imported.operationLog).toHaveLength(1);
+    expect(imported.history).toBeUndefined();
+    expect(decodeSessionHistory(imported)).toBeNull();
+    expect(report.sourceVersion).toBe(1);
+    expect(report.upgraded).toContain(`version: 1 → ${SESSION_VERSION}`);
+    expect(report.upgraded.some(e => e.startsWith('operationLog:'))).toBe(true);
+    expect(report.dropped).toEqual([]);
+  });
+
+  it('reports nothing for a current-version session', () => {
+    const report = createValidationReport();
+    importSession(JSON.stringify(exportSession(curatedState(), makeScaffoldManager())), report);
+    expect(report).toEqual({ sourceVersion: SESSION_VERSION, upgraded: [], dropped: [] });
+  });
+
+  it('drops a malformed history but keeps the rest of the session', () => {
+    const session = exportSession(curatedState(), makeScaffoldManager()) as any;
+    session.history.undoStack[1].type = 'teleport';
+    const report = createValidationReport();
+
+    expect(validateSession(session, report)).toBe(true);
+    expect(session.history).toBeUndefined();
+    expect(session.contigs).toHaveLength(4);
+    expect(report.dropped).toEqual(['history: undoStack entry 1: unknown type "teleport"']);
+  });
+
+  it('drops operation data with an unknown value tag', () => {
+    const session = exportSession(curatedState(), makeScaffoldManager()) as any;
+    session.history.redoStack[0].data.previousOrder = { $type: 'BigInt64Array', values: [] };
+    const report = createValidationReport();
+
+    expect(validateSession(session, report)).toBe(true);
+    expect(session.history).toBeUndefined();
+    expect(report.dropped[0]).toContain('unknown value type "BigInt64Array"');
+  });
+
+  it('drops the history when the contig table is malformed', () => {
+    const session = exportSession(curatedState(), makeScaffoldManager()) as any;
+    session.contigs[2].pixelEnd = -1;
+    const report = createValidationReport();
+
+    expect(validateSession(session, report)).toBe(true);
+    expect(session.contigs).toBeUndefined();
+    expect(session.history).toBeUndefined();
+    expect(report.dropped.map((e: string) => e.split(':')[0])).toEqual(['contigs', 'history']);
+  });
+
+  it('keeps meta tags and exclusions checked against the contig table', () => {
+    const tags = new Map([[2, { tag: 'haplotig' as const, notes: 'half coverage' }], [1, { tag: 'contaminant' as const }]]);
+    const session = exportSession(curatedState(), makeScaffoldManager());
+    session.annotations = exportSessionAnnotations(tags, new Set([3]));
+    const imported = importSession(JSON.stringify(session));
+    expect(imported.annotations).toEqual({
+      metaTags: [{ contigId: 2, tag: 'haplotig', notes: 'half coverage' }, { contigId: 1, tag: 'contaminant' }],
+      excluded: [3],
+    });
+    expect(exportSessionAnnotations(new Map(), new Set())).toBeUndefined();
+
+    const bad = JSON.parse(JSON.stringify(session));
+    bad.annotations.excluded = [7];
+    const report = createValidationReport();
+    expect(validateSession(bad, report)).toBe(true);
+    expect(bad.annotations).toBeUndefined();
+    expect(report.dropped).toEqual(['annotations: excluded has a bad contigId']);
+  });
+
+  it('drops unknown top-level fields', () => {
+    const data = makeValidSessionData() as any;
+    data.legacyNotes = 'hello';
+    const report = createValidationReport();
+
+    expect(validateSession(data, report)).toBe(true);
+    expect(data.legacyNotes).toBeUndefined();
+    expect(report.dropped).toEqual(['legacyNotes: not part of the session format']);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Utility function tests
 // ---------------------------------------------------------------------------
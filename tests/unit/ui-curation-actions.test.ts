@@ -10,8 +10,10 @@ vi.mock('../../src/curation/CurationEngine', () => ({
     redo: vi.fn(),
     invert: vi.fn(),
     cut: vi.fn(),
+    cutAtBp: vi.fn(),
     join: vi.fn(),
     move: vi.fn(),
+    toggleExcluded: vi.fn(),
   },
   undoBatch: vi.fn(() => 0),
 }));
@@ -25,7 +27,7 @@ vi.mock('../../src/curation/SelectionManager', () => ({
 
 vi.mock('../../src/curation/ContigExclusion', () => ({
   contigExclusion: {
-    toggle: vi.fn(),
+    isExcluded: vi.fn(),
   },
 }));
 
@@ -260,11 +262,11 @@ describe('CurationActions', () => {
       expect(ctx.showToast).toHaveBeenCalledWith('Hover over a contig to cut');
     });
 
-    it('should perform cut when in edit mode with valid hover', () => {
+    it('should cut at the base pair under the cursor', () => {
       (state.get as ReturnType<typeof vi.fn>).mockReturnValue({
         map: {
           contigs: [
-            { name: 'chr1', pixelStart: 0, pixelEnd: 100 },
+            { name: 'chr1', length: 1_000_000, pixelStart: 0, pixelEnd: 100 },
           ],
         },
         contigOrder: [0],
@@ -273,26 +275,51 @@ describe('CurationActions', () => {
         currentMode: 'edit',
         hoveredContigIndex: 0,
         contigBoundaries: [100],
-        mouseMapPos: { x: 50, y: 50 },
+        mouseMapPos: { x: 50.25, y: 50 },
       });
 
       cutAtCursorPosition(ctx);
 
-      expect(CurationEngine.cut).toHaveBeenCalledWith(0, 50);
+      expect(CurationEngine.cutAtBp).toHaveBeenCalledWith(0, 502_500);
+      expect(CurationEngine.cut).not.toHaveBeenCalled();
       expect(SelectionManager.clearSelection).toHaveBeenCalled();
-      expect(ctx.showToast).toHaveBeenCalledWith('Cut: chr1 at offset 50');
+      expect(ctx.showToast).toHaveBeenCalledWith('Cut: chr1 at 502,500 bp');
+    });
+
+    it('should snap the cut to an N-gap within a pixel when a FASTA is loaded', () => {
+      (state.get as ReturnType<typeof vi.fn>).mockReturnValue({
+        map: {
+          contigs: [
+            { name: 'chr1', length: 1000, pixelStart: 0, pixelEnd: 100, inverted: false },
+          ],
+        },
+        contigOrder: [0],
+      });
+      const ctx = createMockCtx({
+        currentMode: 'edit',
+        hoveredContigIndex: 0,
+        contigBoundaries: [100],
+        mouseMapPos: { x: 50, y: 50 },
+      });
+      // 10 bp per pixel; an N-run at [503, 520) is within one pixel of 500.
+      ctx.referenceSequences = new Map([['chr1', 'A'.repeat(503) + 'N'.repeat(17) + 'C'.repeat(480)]]);
+
+      cutAtCursorPosition(ctx);
+
+      expect(CurationEngine.cutAtBp).toHaveBeenCalledWith(0, 503);
+      expect(ctx.showToast).toHaveBeenCalledWith('Cut: chr1 at 503 bp (snapped to gap)');
     });
 
     it('should show toast when cut position is at the edge of the contig', () => {
       (state.get as ReturnType<typeof vi.fn>).mockReturnValue({
         map: {
           contigs: [
-            { name: 'chr1', pixelStart: 0, pixelEnd: 100 },
+            { name: 'chr1', length: 1_000_000, pixelStart: 0, pixelEnd: 100 },
           ],
         },
         contigOrder: [0],
       });
-      // mouseMapPos.x = 0 means fraction = 0, pixelOffset = 0
+      // mouseMapPos.x = 0 means fraction = 0, bpOffset = 0
       const ctx = createMockCtx({
         currentMode: 'edit',
         hoveredContigIndex: 0,
@@ -302,7 +329,7 @@ describe('CurationActions', () => {
 
       cutAtCursorPosition(ctx);
 
-      expect(CurationEngine.cut).not.toHaveBeenCalled();
+      expect(CurationEngine.cutAtBp).not.toHaveBeenCalled();
       expect(ctx.showToast).toHaveBeenCalledWith('Cannot cut at edge of contig');
     });
   });
@@ -417,7 +444,7 @@ describe('CurationActions', () => {
 
       toggleContigExclusion(ctx);
 
-      expect(contigExclusion.toggle).not.toHaveBeenCalled();
+      expect(CurationEngine.toggleExcluded).not.toHaveBeenCalled();
       expect(ctx.showToast).not.toHaveBeenCalled();
     });
 
@@ -427,32 +454,32 @@ describe('CurationActions', () => {
 
       toggleContigExclusion(ctx);
 
-      expect(contigExclusion.toggle).toHaveBeenCalledTimes(3);
-      expect(contigExclusion.toggle).toHaveBeenCalledWith(0);
-      expect(contigExclusion.toggle).toHaveBeenCalledWith(2);
-      expect(contigExclusion.toggle).toHaveBeenCalledWith(4);
+      // One undoable operation for the whole selection.
+      expect(CurationEngine.toggleExcluded).toHaveBeenCalledTimes(1);
+      expect(CurationEngine.toggleExcluded).toHaveBeenCalledWith([0, 2, 4]);
       expect(ctx.showToast).toHaveBeenCalledWith('Toggled exclusion on 3 contig(s)');
     });
 
     it('should toggle exclusion for hovered contig when none selected (excluded)', () => {
       (SelectionManager.getSelectedIndices as ReturnType<typeof vi.fn>).mockReturnValue([]);
-      (contigExclusion.toggle as ReturnType<typeof vi.fn>).mockReturnValue(true);
+      (contigExclusion.isExcluded as ReturnType<typeof vi.fn>).mockReturnValue(true);
       const ctx = createMockCtx({ currentMode: 'edit', hoveredContigIndex: 3 });
 
       toggleContigExclusion(ctx);
 
-      expect(contigExclusion.toggle).toHaveBeenCalledWith(3);
+      expect(CurationEngine.toggleExcluded).toHaveBeenCalledWith([3]);
+      expect(contigExclusion.isExcluded).toHaveBeenCalledWith(3);
       expect(ctx.showToast).toHaveBeenCalledWith('Contig excluded');
     });
 
     it('should toggle exclusion for hovered contig when none selected (included)', () => {
       (SelectionManager.getSelectedIndices as ReturnType<typeof vi.fn>).mockReturnValue([]);
-      (contigExclusion.toggle as ReturnType<typeof vi.fn>).mockReturnValue(false);
+      (contigExclusion.isExcluded as ReturnType<typeof vi.fn>).mockReturnValue(false);
       const ctx = createMockCtx({ currentMode: 'edit', hoveredContigIndex: 3 });
 
       toggleContigExclusion(ctx);
 
-      expect(contigExclusion.toggle).toHaveBeenCalledWith(3);
+      expect(CurationEngine.toggleExcluded).toHaveBeenCalledWith([3]);
       expect(ctx.showToast).toHaveBeenCalledWith('Contig included');
     });
 
@@ -462,7 +489,7 @@ describe('CurationActions', () => {
 
       toggleContigExclusion(ctx);
 
-      expect(contigExclusion.toggle).not.toHaveBeenCalled();
+      expect(CurationEngine.toggleExcluded).not.toHaveBeenCalled();
       expect(ctx.showToast).toHaveBeenCalledWith('Hover or select contigs to exclude');
     });
 
@@ -483,8 +510,8 @@ describe('CurationActions', () => {
       toggleContigExclusion(ctx);
 
       // Should toggle index 1 (selected), not 5 (hovered)
-      expect(contigExclusion.toggle).toHaveBeenCalledWith(1);
-      expect(contigExclusion.toggle).not.toHaveBeenCalledWith(5);
+      expect(CurationEngine.toggleExcluded).toHaveBeenCalledWith([1]);
+      expect(CurationEngine.toggleExcluded).not.toHaveBeenCalledWith([5]);
     });
   });
 });
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// ---------------------------------------------------------------------------
+// Mock the loaders and UI sync helpers DeepLinks drives
+// ---------------------------------------------------------------------------
+
+const mockLoadSpecimen = vi.fn();
+const mockLoadContactMap = vi.fn();
+vi.mock('../../src/ui/FileLoading', () => ({
+  loadSpecimen: (...args: any[]) => mockLoadSpecimen(...args),
+  loadContactMap: (...args: any[]) => mockLoadContactMap(...args),
+}));
+
+vi.mock('../../src/data/SpecimenCatalog', () => ({
+  loadSpecimenCatalog: async () => ({
+    version: '1',
+    specimens: [{ id: 'koala', releaseAsset: 'Phascolarctos_cinereus.pretext' }],
+  }),
+}));
+
+const mockApplyOverviewMode = vi.fn(async () => {});
+vi.mock('../../src/ui/EventWiring', () => ({
+  applyOverviewMode: (...args: any[]) => mockApplyOverviewMode(...args),
+}));
+
+vi.mock('../../src/ui/ColorMapControls', () => ({
+  syncColormapDropdown: vi.fn(),
+  syncGammaSlider: vi.fn(),
+  syncOverviewModeSelect: vi.fn(),
+}));
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A 400 px map of chr1 (1 Mb) and chr2 (3 Mb). */
+function testMap(filename: string) {
+  return {
+    filename, textureSize: 400, numMipMaps: 1, tileResolution: 400, tilesPerDimension: 1,
+    contigs: [
+      { name: 'chr1', originalIndex: 0, length: 1_000_000, pixelStart: 0, pixelEnd: 100, inverted: false, scaffoldId: null },
+      { name: 'chr2', originalIndex: 1, length: 3_000_000, pixelStart: 100, pixelEnd: 400, inverted: false, scaffoldId: null },
+    ],
+    contactMap: null, originalContactMap: null, rawTiles: null, parsedHeader: null, extensions: new Map(),
+  };
+}
+
+let hash = '';
+const replaceState = vi.fn((_s: unknown, _t: string, url: string) => { hash = url.includes('#') ? url.slice(url.indexOf('#')) : ''; });
+const windowListeners: Record<string, () => void> = {};
+
+async function setup(initialHash: string) {
+  hash = initialHash;
+  vi.resetModules();
+  const { state } = await import('../../src/core/State');
+  const { events } = await import('../../src/core/EventBus');
+  const { setupDeepLinks } = await import('../../src/ui/DeepLinks');
+
+  const camera = {
+    x: 0.5, y: 0.5, zoom: 1,
+    getState() { return { x: this.x, y: this.y, zoom: this.zoom }; },
+    jumpTo: vi.fn(function (this: any, t: any) {
+      Object.assign(this, t);
+      events.emit('camera:changed', this.getState());
+    }),
+    zoomToRegion: vi.fn(),
+  };
+  const ctx: any = {
+    camera,
+    currentColorMap: 'red-white',
+    renderer: { setColorMap: vi.fn() },
+    showToast: vi.fn(),
+  };
+
+  /** What a successful load does: set the map and announce it. */
+  const finishLoad = (filename: string) => {
+    state.update({ map: testMap(filename) as any, contigOrder: [0, 1] });
+    events.emit('file:loaded', { filename, contigs: 2, textureSize: 400 });
+  };
+
+  setupDeepLinks(ctx);
+  return { state, events, ctx, camera, finishLoad };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  mockLoadSpecimen.mockReset();
+  mockLoadContactMap.mockReset();
+  replaceState.mockClear();
+  vi.stubGlobal('window', {
+    location: {
+      pathname: '/openpretext/',
+      search: '',
+      get hash() { return hash; },
+    },
+    addEventListener: (type: string, l: () => void) => { windowListeners[type] = l; },
+  });
+  vi.stubGlobal('history', { state: null, replaceState });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('setupDeepLinks', () => {
+  it('loads the linked specimen and restores the view once it is open', async () => {
+    let env!: Awaited<ReturnType<typeof setup>>;
+    mockLoadSpecimen.mockImplementation(async (_ctx: unknown, specimen: { releaseAsset: string }) => {
+      // The hash must survive the download untouched.
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(replaceState).not.toHaveBeenCalled();
+      env.finishLoad(specimen.releaseAsset);
+    });
+    env = await setup('#specimen=koala&locus=chr2:1500000&zoom=8&colormap=viridis&gamma=0.6');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(mockLoadSpecimen.mock.calls[0][1]).toMatchObject({ id: 'koala' });
+    expect(env.ctx.renderer.setColorMap).toHaveBeenCalledWith('viridis');
+    expect(env.state.get().gamma).toBe(0.6);
+    expect(env.camera.jumpTo).toHaveBeenCalledWith({ x: 0.625, y: 0.625, zoom: 8 });
+    expect(hash).toBe('#specimen=koala&locus=chr2:1500000&zoom=8&colormap=viridis&gamma=0.6');
+  });
+
+  it('follows the camera in the hash', async () => {
+    const env = await setup('');
+    env.finishLoad('Phascolarctos_cinereus.pretext');
+    await vi.advanceTimersByTimeAsync(1000);
+    // The full view needs no locus; the specimen is recognized from the catalog.
+    expect(hash).toBe('#specimen=koala');
+
+    env.camera.jumpTo({ x: 0.125, y: 0.625, zoom: 20 });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(hash).toBe('#specimen=koala');
+    await vi.advanceTimersByTimeAsync(300);
+    expect(hash).toBe('#specimen=koala&x=chr1:500000&y=chr2:1500000&zoom=20');
+  });
+
+  it('applies a link without a file to the next file opened', async () => {
+    const env = await setup('#locus=chr1:0-1Mb');
+    expect(mockLoadSpecimen).not.toHaveBeenCalled();
+    env.finishLoad('mine.pretext');
+    expect(env.camera.zoomToRegion).toHaveBeenCalledWith(0, 0, 0.25, 0.25);
+  });
+
+  it('reports a locus the map does not have', async () => {
+    const env = await setup('');
+    env.finishLoad('mine.pretext');
+    hash = '#locus=chrX:100';
+    windowListeners.hashchange();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(env.ctx.showToast).toHaveBeenCalledWith("Link: Contig 'chrX' is not in this map");
+    expect(env.camera.jumpTo).not.toHaveBeenCalled();
+  });
+
+  it('loads a linked URL and clears the link if it fails', async () => {
+    mockLoadContactMap.mockRejectedValue(new Error('Download failed: 404'));
+    const env = await setup('#url=https://example.org/a.pretext&locus=chr1');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockLoadContactMap).toHaveBeenCalledWith(env.ctx, 'https://example.org/a.pretext');
+    expect(env.ctx.showToast).toHaveBeenCalledWith(
+      'Link: could not load https://example.org/a.pretext — Download failed: 404',
+    );
+    // A later file is not moved by the failed link.
+    env.finishLoad('other.pretext');
+    expect(env.camera.zoomToRegion).not.toHaveBeenCalled();
+  });
+});
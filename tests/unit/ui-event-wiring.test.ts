@@ -226,11 +226,20 @@ describe('EventWiring', () => {
       expect(eventNames).toContain('scaffold:changed');
     });
 
-    it('should subscribe to exactly 10 events', () => {
+    it('should subscribe to the curation:tag and curation:exclude events', () => {
       const ctx = createMockCtx();
       setupEventListeners(ctx);
 
-      expect(mockEventsOn).toHaveBeenCalledTimes(10);
+      const eventNames = mockEventsOn.mock.calls.map((call: any[]) => call[0]);
+      expect(eventNames).toContain('curation:tag');
+      expect(eventNames).toContain('curation:exclude');
+    });
+
+    it('should subscribe to exactly 12 events', () => {
+      const ctx = createMockCtx();
+      setupEventListeners(ctx);
+
+      expect(mockEventsOn).toHaveBeenCalledTimes(12);
     });
 
     it('file:loaded handler should call updateSidebarContigList', () => {
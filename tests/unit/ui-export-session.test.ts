@@ -12,6 +12,7 @@ vi.mock('../../src/core/State', () => ({
     })),
     update: vi.fn(),
     updateContigs: vi.fn(),
+    restoreHistory: vi.fn(),
   },
 }));
 
@@ -33,8 +34,11 @@ vi.mock('../../src/export/SnapshotExporter', () => ({
 
 vi.mock('../../src/io/SessionManager', () => ({
   exportSession: vi.fn(() => ({ version: 1 })),
+  exportSessionAnnotations: vi.fn(() => undefined),
   importSession: vi.fn(),
   downloadSession: vi.fn(),
+  decodeSessionHistory: vi.fn(() => null),
+  createValidationReport: vi.fn(() => ({ sourceVersion: null, upgraded: [], dropped: [] })),
 }));
 
 vi.mock('../../src/formats/FASTAParser', () => ({
@@ -95,7 +99,7 @@ import { downloadAGP } from '../../src/export/AGPWriter';
 import { downloadBED } from '../../src/export/BEDWriter';
 import { downloadFASTA } from '../../src/export/FASTAWriter';
 import { downloadSnapshot } from '../../src/export/SnapshotExporter';
-import { exportSession, importSession, downloadSession } from '../../src/io/SessionManager';
+import { exportSession, importSession, downloadSession, decodeSessionHistory } from '../../src/io/SessionManager';
 import { parseFASTA, parseFASTAStream } from '../../src/formats/FASTAParser';
 import { showLoading, updateLoading, hideLoading } from '../../src/ui/LoadingOverlay';
 import { parseBedGraph, bedGraphToTrack } from '../../src/formats/BedGraphParser';
@@ -148,6 +152,12 @@ function createMockCtx(overrides: Partial<AppContext> = {}): AppContext {
       addWaypoint: vi.fn(),
       getAllWaypoints: vi.fn(() => []),
     } as any,
+    branchManager: {
+      hasBranchData: vi.fn(() => false),
+      exportBranches: vi.fn(),
+      importBranches: vi.fn(),
+      reset: vi.fn(),
+    } as any,
     metricsTracker: {} as any,
     tileManager: null,
     cancelTileDecode: null,
@@ -548,6 +558,55 @@ describe('ExportSession', () => {
       expect(ctx.scaffoldManager.createScaffold).toHaveBeenCalledWith('scaffold_2', { record: false });
     });
 
+    describe('v2 sessions', () => {
+      const fileContigs = [
+        { name: 'ctg1', originalIndex: 0, length: 1000, pixelStart: 0, pixelEnd: 10, inverted: false, scaffoldId: null },
+        { name: 'ctg2', originalIndex: 1, length: 1000, pixelStart: 10, pixelEnd: 20, inverted: false, scaffoldId: null },
+      ];
+      const sessionContigs = [
+        ...fileContigs,
+        { name: 'ctg1_L', originalIndex: 0, length: 500, pixelStart: 0, pixelEnd: 5, inverted: false, scaffoldId: 1 },
+        { name: 'ctg1_R', originalIndex: 0, length: 500, pixelStart: 5, pixelEnd: 10, inverted: false, scaffoldId: 1 },
+      ];
+      const history = { undoStack: [{ type: 'cut', timestamp: 1, description: 'Cut', data: {} }], redoStack: [] };
+
+      function setup(mapContigs: object[]) {
+        const session = makeSessionData({ version: 2, contigOrder: [2, 3, 1], contigs: sessionContigs, history });
+        (importSession as ReturnType<typeof vi.fn>).mockReturnValue(session);
+        (decodeSessionHistory as ReturnType<typeof vi.fn>).mockReturnValue(history);
+        (state.get as ReturnType<typeof vi.fn>).mockReturnValue({
+          map: { filename: 'test.pretext', contigs: mapContigs },
+          contigOrder: [0, 1],
+        });
+        const ctx = createMockCtx();
+        (ctx.scaffoldManager as any).restoreScaffolds = vi.fn();
+        (ctx as any).updateUndoHistoryPanel = vi.fn();
+        return { session, ctx };
+      }
+
+      it('restores the contig table, scaffold ids and undo history', async () => {
+        const { session, ctx } = setup(fileContigs);
+
+        await loadSession(ctx, fakeFile('session.json', '{}'));
+
+        const mapUpdate = (state.update as ReturnType<typeof vi.fn>).mock.calls.find(([p]) => p.map)?.[0];
+        expect(mapUpdate.map.contigs.map((c: { name: string }) => c.name)).toEqual(['ctg1', 'ctg2', 'ctg1_L', 'ctg1_R']);
+        expect(state.update).toHaveBeenCalledWith({ contigOrder: [2, 3, 1] });
+        expect((ctx.scaffoldManager as any).restoreScaffolds).toHaveBeenCalledWith(session.scaffolds);
+        expect(ctx.scaffoldManager.createScaffold).not.toHaveBeenCalled();
+        expect(state.restoreHistory).toHaveBeenCalledWith(history.undoStack, history.redoStack);
+      });
+
+      it('skips the history when the file contigs do not match', async () => {
+        const { ctx } = setup([{ ...fileContigs[0], name: 'other' }, fileContigs[1]]);
+
+        await loadSession(ctx, fakeFile('session.json', '{}'));
+
+        expect(state.restoreHistory).not.toHaveBeenCalled();
+        expect(ctx.showToast).toHaveBeenCalledWith(expect.stringContaining('Undo history not restored'));
+      });
+    });
+
     it('should not create scaffold if it already exists', async () => {
       const session = makeSessionData({
         scaffolds: [{ id: 1, name: 'scaffold_1', color: '#ff0000' }],
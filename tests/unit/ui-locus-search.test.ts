@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// ---------------------------------------------------------------------------
+// DOM mocking helpers for node environment
+// ---------------------------------------------------------------------------
+
+type Listener = (e?: any) => void;
+
+function createMockElement() {
+  const listeners: Record<string, Listener> = {};
+  const classes = new Set<string>();
+  return {
+    listeners,
+    value: '',
+    innerHTML: '',
+    offsetWidth: 340,
+    style: {} as Record<string, string>,
+    classList: {
+      toggle: (c: string, on: boolean) => { if (on) classes.add(c); else classes.delete(c); },
+      remove: (c: string) => classes.delete(c),
+      contains: (c: string) => classes.has(c),
+    },
+    addEventListener: (type: string, l: Listener) => { listeners[type] = l; },
+    getBoundingClientRect: () => ({ left: 100, bottom: 40 }),
+    querySelectorAll: () => [],
+    querySelector: () => null,
+    focus: vi.fn(),
+    select: vi.fn(),
+    blur: vi.fn(),
+  };
+}
+
+/** A 400 px map of chr1 (1 Mb), chr2 (2 Mb) and chr3 (1 Mb). */
+function testMap() {
+  const spec: [string, number, number, number][] = [
+    ['chr1', 1_000_000, 0, 100],
+    ['chr2', 2_000_000, 100, 300],
+    ['chr3', 1_000_000, 300, 400],
+  ];
+  return {
+    filename: 'test.pretext', textureSize: 400, numMipMaps: 1, extensions: new Map(),
+    contigs: spec.map(([name, length, pixelStart, pixelEnd], i) => ({
+      name, originalIndex: i, length, pixelStart, pixelEnd, inverted: false, scaffoldId: null,
+    })),
+  };
+}
+
+let input: ReturnType<typeof createMockElement>;
+let panel: ReturnType<typeof createMockElement>;
+
+async function setup() {
+  vi.resetModules();
+  const { state } = await import('../../src/core/State');
+  const box = await import('../../src/ui/LocusSearchBox');
+  const ctx: any = {
+    camera: { animateTo: vi.fn(), zoomToRegion: vi.fn() },
+    scaffoldManager: { getAllScaffolds: () => [] },
+    requestRender: vi.fn(),
+    showToast: vi.fn(),
+  };
+  box.setupLocusSearch(ctx);
+  state.update({ map: testMap() as any, contigOrder: [0, 1, 2] });
+  const type = (text: string) => { input.value = text; input.listeners.input(); };
+  const key = (k: string) => input.listeners.keydown({ key: k, preventDefault: vi.fn() });
+  return { state, box, ctx, type, key };
+}
+
+beforeEach(() => {
+  input = createMockElement();
+  panel = createMockElement();
+  vi.stubGlobal('document', {
+    getElementById: (id: string) =>
+      id === 'locus-search-input' ? input : id === 'locus-search-results' ? panel : null,
+  });
+  vi.stubGlobal('window', { innerWidth: 1200 });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('LocusSearchBox', () => {
+  it('lists matches as the user types and goes to the chosen one', async () => {
+    const { box, ctx, type, key } = await setup();
+    type('chr');
+    expect(panel.classList.contains('visible')).toBe(true);
+    expect(panel.innerHTML.match(/locus-search-label">([^<]+)/g)).toHaveLength(3);
+
+    key('ArrowDown');
+    key('Enter');
+    // chr2 spans 0.25..0.75; the camera fits it with a 10% margin.
+    const [x1, y1, x2, y2] = ctx.camera.zoomToRegion.mock.calls[0];
+    expect([x1, y1, x2, y2].map((v: number) => +v.toFixed(6))).toEqual([0.2, 0.2, 0.8, 0.8]);
+    expect(input.value).toBe('chr2');
+    expect(panel.classList.contains('visible')).toBe(false);
+    expect(box.getLocusHighlight()).toMatchObject({ label: 'chr2', x1: 0.25, x2: 0.75 });
+  });
+
+  it('centers on a point without changing the zoom', async () => {
+    const { ctx, type, key } = await setup();
+    type('chr1:500kb x chr3:500kb');
+    key('Enter');
+    expect(ctx.camera.animateTo).toHaveBeenCalledWith({ x: 0.125, y: 0.875 });
+    expect(ctx.camera.zoomToRegion).not.toHaveBeenCalled();
+  });
+
+  it('keeps the highlight on the hit through curation until Escape', async () => {
+    const { state, box, ctx, type, key } = await setup();
+    type('chr3');
+    key('Enter');
+    expect(box.getLocusHighlight()).toMatchObject({ x1: 0.75, x2: 1 });
+
+    state.update({ contigOrder: [2, 0, 1] });
+    expect(box.getLocusHighlight()).toMatchObject({ x1: 0, x2: 0.25 });
+
+    key('Escape');
+    expect(box.getLocusHighlight()).toBeNull();
+    expect(input.value).toBe('');
+
+    type('chrX');
+    key('Enter');
+    expect(ctx.showToast).toHaveBeenCalledWith("No match for 'chrX'");
+  });
+});
@@ -68,6 +68,13 @@ vi.mock('../../src/curation/BatchOperations', () => ({
   autoCutContigs: vi.fn(),
 }));
 
+// The editor assists register their own keydown handler; keep them out of the
+// way so the tests below drive the console's handler directly.
+vi.mock('../../src/ui/ScriptAssist', () => ({
+  setupScriptAssist: vi.fn(),
+  refreshScriptDiagnostics: vi.fn(),
+}));
+
 import {
   isScriptConsoleVisible,
   toggleScriptConsole,
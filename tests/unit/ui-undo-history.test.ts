@@ -247,6 +247,22 @@ describe('updateUndoHistoryPanel', () => {
     expect(itemCount).toBe(1);
   });
 
+  it('shows the curator of each operation when ops carry an author', () => {
+    mockUndoStack.value = [
+      makeOp({ description: 'solo op' }),
+      makeOp({ description: 'shared op', author: 'alice', opId: 'alice-1' }),
+    ];
+
+    const el = createMockElement();
+    mockElements['undo-history-content'] = el;
+    el.querySelectorAll = vi.fn(() => []);
+
+    updateUndoHistoryPanel(ctx);
+    expect(el.innerHTML).toContain('class="history-author"');
+    expect(el.innerHTML).toContain('alice');
+    expect((el.innerHTML.match(/history-author/g) ?? []).length).toBe(1);
+  });
+
   it('shows redo items with redo class', () => {
     mockUndoStack.value = [makeOp({ description: 'undo item' })];
     mockRedoStack.value = [makeOp({ description: 'redo item' })];
@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+
+// Bundles the `openpretext` command line (cli/) into one Node ES module.
+// Runtime dependencies (pako, h5wasm) stay external and resolve from
+// node_modules, as for any installed package.
+export default defineConfig({
+  build: {
+    ssr: 'cli/bin.ts',
+    // Outside dist/, which the app build empties.
+    outDir: 'cli/dist',
+    target: 'node22',
+    emptyOutDir: true,
+    sourcemap: false,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'openpretext.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
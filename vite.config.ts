@@ -15,6 +15,11 @@ export default defineConfig({
     port: 3000,
     open: true,
   },
+  worker: {
+    // ES workers can code-split, so h5wasm (cooler support) is only fetched
+    // when a cooler is actually opened.
+    format: 'es',
+  },
   build: {
     target: 'es2022',
     // Disable prod sourcemaps: they added a ~1.5 MB artifact and exposed source.
@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite';
+
+// Bundles the host-side embedding API (src/embed/Viewer.ts) as a small ES
+// library. It talks to a deployed app over postMessage and contains none of
+// the app itself.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    lib: {
+      entry: 'src/embed/Viewer.ts',
+      formats: ['es'],
+      fileName: () => 'openpretext-viewer.js',
+    },
+    outDir: 'dist/embed',
+    target: 'es2022',
+    emptyOutDir: true,
+    sourcemap: false,
+  },
+});